@@ -0,0 +1,359 @@
+/**
+ * MangaTrack service worker
+ *
+ * - Replays the sync outbox stored in IndexedDB (see src/lib/sync/offline-db.ts)
+ *   on Background Sync or when a page asks, so edits queued offline reach the
+ *   server once connectivity returns, even if every tab was closed.
+ * - Serves the last seen library and series pages when the network is down.
+ * - Shows Web Push chapter notifications (sent by notification-delivery via
+ *   src/lib/push) and opens the series page when one is clicked.
+ *
+ * Plain script (not bundled): keep the database name, version and stores, the
+ * sync tag and the replay rules in step with src/lib/sync.
+ */
+
+const OFFLINE_DB_NAME = 'mangatrack-offline';
+const OFFLINE_DB_VERSION = 1;
+const STORE_KEY_PATHS = {
+  library: 'id',
+  chapter_reads: 'key',
+  chapter_lists: 'series_id',
+  outbox: 'id',
+  meta: 'key',
+};
+
+const OUTBOX_SYNC_TAG = 'mangatrack-outbox-replay';
+const MAX_RETRIES = 5;
+const REPLAYED_ACTION_TYPES = ['CHAPTER_READ', 'LIBRARY_UPDATE'];
+
+// Holds signed-in pages; clearOfflineData (src/lib/sync/offline-library.ts)
+// deletes it on sign-out, so keep the name in step with OFFLINE_PAGE_CACHE.
+const PAGE_CACHE = 'mangatrack-pages-v1';
+const STATIC_CACHE = 'mangatrack-static-v1';
+const CURRENT_CACHES = [PAGE_CACHE, STATIC_CACHE];
+
+// ---------------------------------------------------------------------------
+// IndexedDB
+// ---------------------------------------------------------------------------
+
+function openDb() {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(OFFLINE_DB_NAME, OFFLINE_DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      for (const [store, keyPath] of Object.entries(STORE_KEY_PATHS)) {
+        if (db.objectStoreNames.contains(store)) continue;
+        const objectStore = db.createObjectStore(store, { keyPath });
+        if (store === 'chapter_reads') objectStore.createIndex('series_id', 'series_id');
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function promisify(request) {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx) {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+async function getOutbox(db) {
+  const actions = await promisify(db.transaction('outbox').objectStore('outbox').getAll());
+  return actions.sort((a, b) => a.timestamp - b.timestamp);
+}
+
+async function dequeue(db, ids) {
+  if (ids.length === 0) return;
+  const tx = db.transaction('outbox', 'readwrite');
+  for (const id of ids) tx.objectStore('outbox').delete(id);
+  await transactionDone(tx);
+}
+
+async function bumpRetries(db, ids) {
+  if (ids.length === 0) return;
+  const tx = db.transaction('outbox', 'readwrite');
+  const store = tx.objectStore('outbox');
+  for (const id of ids) {
+    const action = await promisify(store.get(id));
+    if (action) store.put({ ...action, retryCount: action.retryCount + 1 });
+  }
+  await transactionDone(tx);
+}
+
+// Same merge as SyncState.applyEntries: newer sync_seq wins, tombstones delete
+async function applyEntries(db, entries) {
+  if (entries.length === 0) return;
+  const tx = db.transaction('library', 'readwrite');
+  const store = tx.objectStore('library');
+  for (const entry of entries) {
+    const existing = await promisify(store.get(entry.id));
+    if (existing && existing.sync_seq && BigInt(entry.sync_seq) < BigInt(existing.sync_seq)) continue;
+    if (entry.deleted) {
+      store.delete(entry.id);
+      continue;
+    }
+    store.put({
+      series: null,
+      imported_title: null,
+      source_url: '',
+      metadata_status: 'pending',
+      sync_status: 'healthy',
+      needs_review: false,
+      updated_at: new Date().toISOString(),
+      last_sync_at: null,
+      ...existing,
+      id: entry.id,
+      series_id: entry.series_id,
+      status: entry.status,
+      user_rating: entry.rating,
+      last_read_chapter: entry.progress,
+      notification_mode: entry.notification_mode,
+      versions: entry.versions,
+      sync_seq: entry.sync_seq,
+    });
+  }
+  await transactionDone(tx);
+}
+
+// ---------------------------------------------------------------------------
+// Outbox replay
+// ---------------------------------------------------------------------------
+
+class OfflineError extends Error {}
+
+async function send(url, init) {
+  try {
+    return await fetch(url, { credentials: 'include', ...init });
+  } catch (error) {
+    throw new OfflineError(error && error.message ? error.message : 'Network error');
+  }
+}
+
+function jsonRequest(method, body) {
+  return {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  };
+}
+
+// Mirrors SyncReconciler.executeAction for actions that go to REST routes
+function requestFor(action) {
+  const { payload } = action;
+  switch (action.type) {
+    case 'LIBRARY_ADD':
+      return ['/api/library', jsonRequest('POST', { seriesId: payload.seriesId, status: payload.status || 'reading' })];
+    case 'LIBRARY_DELETE':
+      return [`/api/library/${payload.entryId}`, jsonRequest('DELETE')];
+    case 'SETTING_UPDATE':
+      return ['/api/users/me', jsonRequest('PATCH', payload.settings)];
+    default:
+      return null;
+  }
+}
+
+async function replayOutbox() {
+  const db = await openDb();
+  const actions = await getOutbox(db);
+  if (actions.length === 0) return [];
+
+  const expired = actions.filter((a) => a.retryCount >= MAX_RETRIES);
+  await dequeue(db, expired.map((a) => a.id));
+  const valid = actions.filter((a) => a.retryCount < MAX_RETRIES);
+
+  const entries = [];
+  const replayActions = valid.filter((a) => REPLAYED_ACTION_TYPES.includes(a.type));
+  if (replayActions.length > 0) {
+    const response = await send('/api/sync/replay', jsonRequest('POST', { actions: replayActions }));
+    if (response.ok) {
+      const { results } = await response.json();
+      const failed = results.filter((r) => r.status === 'error').map((r) => r.id);
+      await dequeue(db, results.filter((r) => r.status !== 'error').map((r) => r.id));
+      await bumpRetries(db, failed);
+      for (const result of results) {
+        if (result.entry) entries.push(result.entry);
+      }
+    } else if (response.status === 401 || response.status === 403) {
+      // Session expired; the user has to sign in again, same as the in-page reconciler
+      await dequeue(db, replayActions.map((a) => a.id));
+    } else {
+      await bumpRetries(db, replayActions.map((a) => a.id));
+    }
+  }
+
+  for (const action of valid) {
+    const request = requestFor(action);
+    if (!request) {
+      if (!REPLAYED_ACTION_TYPES.includes(action.type)) await dequeue(db, [action.id]);
+      continue;
+    }
+    const response = await send(...request);
+    const done = response.ok
+      || response.status === 401
+      || response.status === 403
+      || (action.type === 'LIBRARY_DELETE' && response.status === 404);
+    if (done) await dequeue(db, [action.id]);
+    else await bumpRetries(db, [action.id]);
+  }
+
+  await applyEntries(db, entries);
+  return entries;
+}
+
+let replaying = null;
+
+function replayOnce() {
+  if (!replaying) {
+    replaying = replayOutbox()
+      .then(async (entries) => {
+        const clients = await self.clients.matchAll({ type: 'window' });
+        for (const client of clients) {
+          client.postMessage({ type: 'OUTBOX_REPLAYED', entries });
+        }
+      })
+      .finally(() => {
+        replaying = null;
+      });
+  }
+  return replaying;
+}
+
+self.addEventListener('sync', (event) => {
+  if (event.tag === OUTBOX_SYNC_TAG) {
+    // Rejecting (still offline) lets the browser schedule another attempt
+    event.waitUntil(replayOnce());
+  }
+});
+
+self.addEventListener('message', (event) => {
+  if (event.data && event.data.type === 'REPLAY_OUTBOX') {
+    event.waitUntil(replayOnce().catch(() => {}));
+  }
+});
+
+// ---------------------------------------------------------------------------
+// Offline pages
+// ---------------------------------------------------------------------------
+
+function isOfflinePage(url) {
+  return url.pathname === '/library' || url.pathname.startsWith('/series/');
+}
+
+async function networkFirst(request) {
+  const cache = await caches.open(PAGE_CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok && !response.redirected) {
+      await cache.put(request, response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached = await cache.match(request, { ignoreSearch: true });
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+async function cacheFirst(request) {
+  const cache = await caches.open(STATIC_CACHE);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) await cache.put(request, response.clone());
+  return response;
+}
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin) return;
+
+  if (url.pathname.startsWith('/_next/static/')) {
+    event.respondWith(cacheFirst(request));
+  } else if (request.mode === 'navigate' && isOfflinePage(url)) {
+    event.respondWith(networkFirst(request));
+  }
+});
+
+// ---------------------------------------------------------------------------
+// Push notifications
+// ---------------------------------------------------------------------------
+
+// Only same-origin paths are opened from a notification
+function notificationUrl(value) {
+  try {
+    const url = new URL(value || '/notifications', self.location.origin);
+    return url.origin === self.location.origin ? url.href : new URL('/notifications', self.location.origin).href;
+  } catch {
+    return new URL('/notifications', self.location.origin).href;
+  }
+}
+
+self.addEventListener('push', (event) => {
+  let message = {};
+  try {
+    message = event.data ? event.data.json() : {};
+  } catch {
+    message = { body: event.data ? event.data.text() : '' };
+  }
+
+  event.waitUntil(self.registration.showNotification(message.title || 'MangaTrack', {
+    body: message.body || '',
+    icon: '/favicon.png',
+    badge: '/favicon.png',
+    tag: message.tag,
+    renotify: Boolean(message.tag),
+    data: { url: notificationUrl(message.url), ...(message.data || {}) },
+  }));
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const target = notificationUrl(event.notification.data && event.notification.data.url);
+
+  event.waitUntil((async () => {
+    const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+    const existing = windows.find((client) => client.url === target);
+    return existing ? existing.focus() : self.clients.openWindow(target);
+  })());
+});
+
+// Browsers may rotate a subscription; re-subscribe with the same key and
+// tell the server so delivery keeps working without a page visit.
+self.addEventListener('pushsubscriptionchange', (event) => {
+  event.waitUntil((async () => {
+    const options = event.oldSubscription && event.oldSubscription.options;
+    const subscription = event.newSubscription || (options && await self.registration.pushManager.subscribe(options));
+    if (!subscription) return;
+    await fetch('/api/notifications/push/subscribe', {
+      method: 'POST',
+      credentials: 'same-origin',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(subscription.toJSON()),
+    });
+  })());
+});
+
+self.addEventListener('install', () => {
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil((async () => {
+    const names = await caches.keys();
+    await Promise.all(names.filter((name) => !CURRENT_CACHES.includes(name)).map((name) => caches.delete(name)));
+    await self.clients.claim();
+  })());
+});
@@ -0,0 +1,19 @@
+#!/usr/bin/env npx tsx
+/**
+ * Generate VAPID keys for Web Push
+ *
+ * Prints a P-256 key pair in the format src/lib/push/web-push.ts expects.
+ * Put them in the environment of both the app and the workers; rotating
+ * the keys invalidates every existing browser subscription.
+ *
+ * Usage:
+ *   npx tsx scripts/generate-vapid-keys.ts
+ */
+
+import { generateVapidKeys } from '../src/lib/push/web-push';
+
+const { publicKey, privateKey } = generateVapidKeys();
+
+console.log(`VAPID_PUBLIC_KEY=${publicKey}`);
+console.log(`VAPID_PRIVATE_KEY=${privateKey}`);
+console.log('VAPID_SUBJECT=mailto:you@example.com');
@@ -0,0 +1,170 @@
+#!/usr/bin/env npx tsx
+/**
+ * Scraper Fixtures
+ *
+ * Records scraper HTTP responses into fixture files that
+ * src/__tests__/unit/scraper-fixtures.test.ts replays offline, and checks
+ * recorded fixtures against the live sites for markup/API drift.
+ *
+ * Usage:
+ *   npx tsx scripts/scraper-fixtures.ts record <source> <sourceId|url> [--name=NAME] [--chapters=1,2]
+ *   npx tsx scripts/scraper-fixtures.ts record <source> --latest [--name=NAME]
+ *   npx tsx scripts/scraper-fixtures.ts check [source] [--update]
+ *
+ * Options:
+ *   --name=NAME      Fixture name (default: the source id, or "latest")
+ *   --chapters=LIST  Only keep these chapter numbers (targetChapters)
+ *   --latest         Record scrapeLatestUpdates instead of scrapeSeries
+ *   --update         Overwrite fixtures that drifted with the fresh recording
+ *   --dir=PATH       Fixture directory (default: src/__tests__/fixtures/scrapers/recorded)
+ *
+ * `check` exits 1 when any parsed chapter list drifted: title changed,
+ * chapters removed or changed, or results that fail the shape checks.
+ * Newly published chapters are reported but are not drift.
+ */
+
+import 'dotenv/config';
+import path from 'path';
+import { scrapers } from '../src/lib/scrapers';
+import {
+  ScraperFixtureCall,
+  ScrapeDiff,
+  checkScraperFixture,
+  checkScrapeShape,
+  hasDrift,
+  loadScraperFixtures,
+  recordScraperFixture,
+  saveScraperFixture,
+} from '../src/lib/scrapers/fixtures';
+
+const DEFAULT_DIR = path.join(__dirname, '../src/__tests__/fixtures/scrapers/recorded');
+
+function option(args: string[], name: string): string | undefined {
+  return args.find(a => a.startsWith(`--${name}=`))?.split('=').slice(1).join('=');
+}
+
+function getScraper(source: string) {
+  const scraper = scrapers[source.toLowerCase()];
+  if (!scraper) {
+    console.error(`❌ Unknown source "${source}". Registered: ${Object.keys(scrapers).join(', ')}`);
+    process.exit(1);
+  }
+  return scraper;
+}
+
+function printDiff(diff: ScrapeDiff) {
+  if (diff.title) console.log(`    title: "${diff.title.from}" -> "${diff.title.to}"`);
+  for (const chapter of diff.removed) {
+    console.log(`    - removed ${chapter.chapterNumber} ${chapter.chapterUrl}`);
+  }
+  for (const change of diff.changed) {
+    const fields = Object.entries(change.fields)
+      .map(([field, { from, to }]) => `${field}: ${JSON.stringify(from)} -> ${JSON.stringify(to)}`)
+      .join(', ');
+    console.log(`    ~ changed ${change.key}: ${fields}`);
+  }
+  for (const problem of diff.problems) {
+    console.log(`    ! ${problem}`);
+  }
+  if (diff.added.length > 0) {
+    console.log(`    + ${diff.added.length} new chapter(s)`);
+  }
+}
+
+async function record(args: string[], dir: string) {
+  const [source, sourceId] = args.filter(a => !a.startsWith('--'));
+  const latest = args.includes('--latest');
+  if (!source || (!sourceId && !latest)) {
+    console.error('Usage: scraper-fixtures.ts record <source> <sourceId|url> | --latest');
+    process.exit(1);
+  }
+
+  const chapters = option(args, 'chapters');
+  const call: ScraperFixtureCall = latest
+    ? { method: 'scrapeLatestUpdates' }
+    : {
+        method: 'scrapeSeries',
+        sourceId,
+        targetChapters: chapters ? chapters.split(',').map(Number) : undefined,
+      };
+  const name = option(args, 'name') ?? (latest ? 'latest' : sourceId);
+
+  console.log(`📼 Recording ${source} ${call.method} (${name})...`);
+  const fixture = await recordScraperFixture(getScraper(source), { source: source.toLowerCase(), name, call });
+
+  const problems = checkScrapeShape(fixture.result);
+  if (problems.length > 0) {
+    console.error('❌ Result failed shape checks, not saving:');
+    problems.forEach(p => console.error(`   ! ${p}`));
+    process.exit(1);
+  }
+
+  const file = await saveScraperFixture(dir, fixture);
+  const count = Array.isArray(fixture.result) ? fixture.result.length : fixture.result.chapters.length;
+  console.log(`✅ Saved ${fixture.exchanges.length} response(s), ${count} parsed item(s) to ${path.relative(process.cwd(), file)}`);
+}
+
+async function check(args: string[], dir: string) {
+  const [source] = args.filter(a => !a.startsWith('--'));
+  const update = args.includes('--update');
+  const fixtures = await loadScraperFixtures(dir, source?.toLowerCase());
+
+  if (fixtures.length === 0) {
+    console.log(`No fixtures found in ${path.relative(process.cwd(), dir)}`);
+    return;
+  }
+
+  let drifted = 0;
+  let failed = 0;
+  for (const fixture of fixtures) {
+    const label = `${fixture.source}/${fixture.name}`;
+    try {
+      const { diff, fixture: fresh } = await checkScraperFixture(getScraper(fixture.source), fixture);
+      if (!hasDrift(diff)) {
+        console.log(`✅ ${label}${diff.added.length ? ` (+${diff.added.length} new)` : ''}`);
+        continue;
+      }
+      drifted++;
+      console.log(`⚠️  ${label} drifted (recorded ${fixture.recordedAt})`);
+      printDiff(diff);
+      if (update) {
+        await saveScraperFixture(dir, fresh);
+        console.log('    📝 fixture updated');
+      }
+    } catch (error: unknown) {
+      failed++;
+      console.log(`❌ ${label}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  console.log(`\n${fixtures.length} fixture(s): ${drifted} drifted, ${failed} failed`);
+  if (drifted > 0 || failed > 0) process.exit(1);
+}
+
+async function main() {
+  const [command, ...args] = process.argv.slice(2);
+  const dir = path.resolve(option(args, 'dir') ?? DEFAULT_DIR);
+
+  if (command === 'record') {
+    await record(args, dir);
+  } else if (command === 'check') {
+    await check(args, dir);
+  } else {
+    console.log(`
+Scraper Fixtures
+
+Usage:
+  npx tsx scripts/scraper-fixtures.ts record <source> <sourceId|url> [--name=NAME] [--chapters=1,2]
+  npx tsx scripts/scraper-fixtures.ts record <source> --latest [--name=NAME]
+  npx tsx scripts/scraper-fixtures.ts check [source] [--update]
+`);
+    process.exit(command ? 1 : 0);
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch(error => {
+    console.error('❌ Scraper fixtures failed:', error);
+    process.exit(1);
+  });
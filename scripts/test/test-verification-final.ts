@@ -62,7 +62,7 @@ function testSearchApiFix() {
   }
 }
 
-function testSyncOutboxDeduplication() {
+async function testSyncOutboxDeduplication() {
   console.log('\n--- Testing Sync Outbox Deduplication ---');
   
   // Mock localStorage
@@ -83,13 +83,13 @@ function testSyncOutboxDeduplication() {
   global.Event = class {} as any;
 
   // Add first action
-  SyncOutbox.enqueue('LIBRARY_ADD', { seriesId: 'series-1', status: 'reading' });
-  let actions = SyncOutbox.getActions();
+  await SyncOutbox.enqueue('LIBRARY_ADD', { seriesId: 'series-1', status: 'reading' });
+  let actions = await SyncOutbox.getActions();
   console.log(`Actions after first add: ${actions.length}`);
 
   // Add duplicate action
-  SyncOutbox.enqueue('LIBRARY_ADD', { seriesId: 'series-1', status: 'completed' });
-  actions = SyncOutbox.getActions();
+  await SyncOutbox.enqueue('LIBRARY_ADD', { seriesId: 'series-1', status: 'completed' });
+  actions = await SyncOutbox.getActions();
   console.log(`Actions after second add (same series): ${actions.length}`);
 
   if (actions.length === 1 && actions[0].payload.status === 'completed') {
@@ -99,9 +99,9 @@ function testSyncOutboxDeduplication() {
   }
 
   // Test CHAPTER_READ deduplication
-  SyncOutbox.enqueue('CHAPTER_READ', { entryId: 'entry-1', chapterNumber: "5" });
-  SyncOutbox.enqueue('CHAPTER_READ', { entryId: 'entry-1', chapterNumber: "5" });
-  actions = SyncOutbox.getActions();
+  await SyncOutbox.enqueue('CHAPTER_READ', { entryId: 'entry-1', chapterNumber: "5" });
+  await SyncOutbox.enqueue('CHAPTER_READ', { entryId: 'entry-1', chapterNumber: "5" });
+  actions = await SyncOutbox.getActions();
   const readActions = actions.filter(a => a.type === 'CHAPTER_READ');
   console.log(`Chapter read actions: ${readActions.length}`);
   
@@ -115,7 +115,7 @@ function testSyncOutboxDeduplication() {
 async function runAllTests() {
   await testMangaDexUuidExtraction();
   testSearchApiFix();
-  testSyncOutboxDeduplication();
+  await testSyncOutboxDeduplication();
   console.log('\n--- All simulations completed ---');
 }
 
@@ -0,0 +1,379 @@
+/** @jest-environment node */
+import http from 'http'
+import { AddressInfo } from 'net'
+import recorded from '../fixtures/anilist/manga-list.json'
+
+const mockFindMany = jest.fn()
+const mockUpdate = jest.fn((args: unknown) => args)
+const mockTransaction = jest.fn(async (ops: unknown[]) => ops)
+const mockImportJobCreate = jest.fn()
+const mockImportQueueAdd = jest.fn()
+const mockImportQueueGetJob = jest.fn()
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    libraryEntry: {
+      findMany: (...args: unknown[]) => mockFindMany(...args),
+      update: (args: unknown) => mockUpdate(args),
+    },
+    importJob: { create: (...args: unknown[]) => mockImportJobCreate(...args) },
+    $transaction: (ops: unknown[]) => mockTransaction(ops),
+  },
+}))
+
+jest.mock('@/lib/queues', () => ({
+  importQueue: {
+    add: (...args: unknown[]) => mockImportQueueAdd(...args),
+    getJob: (...args: unknown[]) => mockImportQueueGetJob(...args),
+  },
+}))
+
+import {
+  AniListMediaListEntry,
+  AniListSyncError,
+  buildSaveMediaListEntry,
+  fetchMangaList,
+  getAniListMediaId,
+  mapAniListEntryToImportEntry,
+  pushAniListEntries,
+  resolveSyncConflict,
+  runAniListSync,
+} from '@/lib/sync/anilist-adapter'
+
+type RecordedOperation = keyof typeof recorded
+
+interface ReceivedRequest {
+  operation: RecordedOperation
+  authorization?: string
+  variables: Record<string, unknown>
+}
+
+/**
+ * Local stand-in for graphql.anilist.co that replays recorded responses,
+ * keyed by the root field of each query, and records what it received.
+ */
+function startAniListStandIn(overrides: Partial<Record<RecordedOperation, { status: number; body: unknown }>> = {}) {
+  const received: ReceivedRequest[] = []
+
+  const server = http.createServer((req, res) => {
+    let raw = ''
+    req.on('data', chunk => { raw += chunk })
+    req.on('end', () => {
+      const { query, variables } = JSON.parse(raw)
+      const operation = (Object.keys(recorded) as RecordedOperation[]).find(op => query.includes(op))
+      if (!operation) {
+        res.writeHead(400, { 'Content-Type': 'application/json' })
+        res.end(JSON.stringify({ errors: [{ message: 'Unknown operation' }] }))
+        return
+      }
+
+      received.push({ operation, authorization: req.headers.authorization, variables })
+      const override = overrides[operation]
+      res.writeHead(override?.status ?? 200, { 'Content-Type': 'application/json' })
+      res.end(JSON.stringify(override?.body ?? recorded[operation]))
+    })
+  })
+
+  return new Promise<{ endpoint: string; received: ReceivedRequest[]; close: () => Promise<void> }>(resolve => {
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo
+      resolve({
+        endpoint: `http://127.0.0.1:${port}/`,
+        received,
+        close: () => new Promise(done => server.close(() => done())),
+      })
+    })
+  })
+}
+
+/**
+ * jest.setup replaces global fetch with a bare mock; forward it over real HTTP
+ * so requests actually reach the stand-in.
+ */
+function httpFetch(url: string, init: { method?: string; headers?: Record<string, string>; body?: string }) {
+  return new Promise((resolve, reject) => {
+    const req = http.request(url, { method: init.method, headers: init.headers }, res => {
+      let raw = ''
+      res.on('data', chunk => { raw += chunk })
+      res.on('end', () => resolve({
+        status: res.statusCode,
+        ok: (res.statusCode ?? 0) >= 200 && (res.statusCode ?? 0) < 300,
+        headers: { get: (name: string) => (res.headers[name.toLowerCase()] as string | undefined) ?? null },
+        json: async () => JSON.parse(raw),
+      }))
+    })
+    req.on('error', reject)
+    req.end(init.body)
+  })
+}
+
+const remoteEntries = recorded.MediaListCollection.data.MediaListCollection.lists
+  .flatMap(list => list.entries) as AniListMediaListEntry[]
+
+describe('AniList Sync Adapter', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    ;(global.fetch as jest.Mock).mockImplementation(httpFetch)
+    mockImportJobCreate.mockResolvedValue({ id: 'import-job-1' })
+    // A queue that stores what it's given, like BullMQ without a competing job
+    const queued = new Map<string, unknown>()
+    mockImportQueueAdd.mockImplementation(async (_name: string, data: unknown, opts: { jobId?: string }) => {
+      if (opts.jobId && !queued.has(opts.jobId)) queued.set(opts.jobId, data)
+      return { id: opts.jobId, data }
+    })
+    mockImportQueueGetJob.mockImplementation(async (id: string) =>
+      queued.has(id) ? { id, data: queued.get(id), getState: async () => 'waiting' } : undefined)
+  })
+
+  describe('mapping', () => {
+    it('should map AniList entries to ImportEntry', () => {
+      const entry = mapAniListEntryToImportEntry(remoteEntries[1])
+      expect(entry).toEqual({
+        title: 'Na Honjaman Level Up',
+        status: 'reading',
+        progress: 50,
+        last_updated: new Date(1704067200 * 1000),
+        external_id: '105398',
+        source_platform: 'anilist',
+        source_url: 'https://anilist.co/manga/105398',
+        source_name: 'anilist',
+      })
+    })
+
+    it('should find the AniList id from the source url or series links', () => {
+      expect(getAniListMediaId({ source_url: 'https://anilist.co/manga/30013/One-Piece' })).toBe(30013)
+      expect(getAniListMediaId({
+        source_url: 'https://mangadex.org/title/abc',
+        Series: { external_links: { al: '105398' } },
+      })).toBe(105398)
+      expect(getAniListMediaId({ source_url: 'https://mangadex.org/title/abc', Series: null })).toBeNull()
+    })
+
+    it('should build SaveMediaListEntry variables from local state', () => {
+      const { query, variables } = buildSaveMediaListEntry(87216, { status: 'paused', progress: 12.5 })
+      expect(query).toContain('SaveMediaListEntry')
+      expect(variables).toEqual({ mediaId: 87216, status: 'PAUSED', progress: 12 })
+      // AniList reads a raw score of 0 as unscored, so a canonical 0 isn't sent
+      expect(buildSaveMediaListEntry(87216, { status: 'paused', progress: 12, rating: 0 }).variables).not.toHaveProperty('scoreRaw')
+    })
+  })
+
+  describe('resolveSyncConflict', () => {
+    it('should pull when the remote side is newer and further ahead', () => {
+      const result = resolveSyncConflict(
+        { status: 'reading', progress: 10, last_updated: new Date('2025-01-01') },
+        { status: 'reading', progress: 20, last_updated: new Date('2026-01-01') }
+      )
+      expect(result.direction).toBe('pull')
+    })
+
+    it('should never regress progress when both sides claim an update', () => {
+      const result = resolveSyncConflict(
+        { status: 'reading', progress: 30, last_updated: new Date('2025-01-01') },
+        { status: 'reading', progress: 20, last_updated: new Date('2026-01-01') }
+      )
+      expect(result).toEqual({ direction: 'push', reason: 'Conflict: local progress is further ahead' })
+    })
+
+    it('should be a no-op for identical state', () => {
+      const when = new Date('2026-01-01')
+      expect(resolveSyncConflict(
+        { status: 'completed', progress: 100, last_updated: when },
+        { status: 'completed', progress: 100, last_updated: when }
+      ).direction).toBe('none')
+    })
+  })
+
+  describe('against the recorded endpoint', () => {
+    let standIn: Awaited<ReturnType<typeof startAniListStandIn>>
+
+    afterEach(async () => {
+      await standIn?.close()
+    })
+
+    it('should dedupe entries repeated across custom lists', async () => {
+      standIn = await startAniListStandIn()
+      const entries = await fetchMangaList(5123, { endpoint: standIn.endpoint })
+      expect(entries.map(e => e.mediaId)).toEqual([30013, 105398, 87216])
+      expect(standIn.received[0].variables).toEqual({ userId: 5123 })
+    })
+
+    it('should pull and import in place and queue the push', async () => {
+      standIn = await startAniListStandIn()
+      mockFindMany.mockResolvedValue([
+        {
+          // Behind AniList -> pulled in place
+          id: 'entry-one-piece',
+          status: 'reading',
+          last_read_chapter: 100,
+          updated_at: new Date('2025-06-01T00:00:00Z'),
+          source_url: 'https://anilist.co/manga/30013',
+          Series: null,
+        },
+        {
+          // Ahead of AniList -> pushed
+          id: 'entry-solo-leveling',
+          status: 'completed',
+          last_read_chapter: 179,
+          updated_at: new Date('2026-01-02T00:00:00Z'),
+          source_url: 'https://mangadex.org/title/32d76d19-8a05-4db0-9fc2-e0b0648fe9d0',
+          Series: { external_links: { anilist: '105398' } },
+        },
+        {
+          // No AniList mapping -> ignored
+          id: 'entry-unlinked',
+          status: 'reading',
+          last_read_chapter: 5,
+          updated_at: new Date('2026-01-02T00:00:00Z'),
+          source_url: 'https://mangadex.org/title/other',
+          Series: null,
+        },
+      ])
+
+      const summary = await runAniListSync('user-1', {
+        accessToken: 'recorded-token',
+        endpoint: standIn.endpoint,
+      })
+
+      expect(summary).toEqual({
+        anilistUser: 'test-reader',
+        remoteEntries: 3,
+        pulled: 1,
+        imported: 1,
+        pushQueued: 1,
+        unchanged: 0,
+        importJobId: 'import-job-1',
+        pushJobId: 'anilist-push_user-1',
+      })
+
+      expect(mockUpdate).toHaveBeenCalledWith(expect.objectContaining({
+        where: { id: 'entry-one-piece' },
+        data: expect.objectContaining({ status: 'reading', last_read_chapter: 120 }),
+      }))
+
+      const importData = mockImportJobCreate.mock.calls[0][0].data
+      expect(importData.source).toBe('anilist')
+      expect(importData.ImportItem.create).toEqual([
+        expect.objectContaining({
+          title: 'Chainsaw Man',
+          metadata: expect.objectContaining({ external_id: '87216', status: 'planning' }),
+        }),
+      ])
+      expect(mockImportQueueAdd).toHaveBeenCalledWith('process-import', { jobId: 'import-job-1' }, expect.any(Object))
+
+      // Nothing is pushed during the request
+      expect(standIn.received.some(r => r.operation === 'SaveMediaListEntry')).toBe(false)
+      expect(mockImportQueueAdd).toHaveBeenCalledWith('anilist-push', {
+        userId: 'user-1',
+        accessToken: 'recorded-token',
+        endpoint: standIn.endpoint,
+        items: [{ entryId: 'entry-solo-leveling', mediaId: 105398, status: 'completed', progress: 179, rating: null }],
+      }, expect.objectContaining({ attempts: 1, removeOnComplete: true, removeOnFail: true }))
+    })
+
+    it('should push queued entries to AniList', async () => {
+      standIn = await startAniListStandIn()
+
+      const result = await pushAniListEntries('user-1', [
+        { entryId: 'entry-solo-leveling', mediaId: 105398, status: 'completed', progress: 179, rating: null },
+        { entryId: 'entry-chainsaw-man', mediaId: 87216, status: 'paused', progress: 12, rating: 85 },
+      ], { accessToken: 'recorded-token', endpoint: standIn.endpoint, pushIntervalMs: 0 })
+
+      expect(result).toEqual({ pushed: 2, failed: 0, skipped: 0 })
+      const mutations = standIn.received.filter(r => r.operation === 'SaveMediaListEntry')
+      expect(mutations.map(m => m.variables)).toEqual([
+        { mediaId: 105398, status: 'COMPLETED', progress: 179 },
+        { mediaId: 87216, status: 'PAUSED', progress: 12, scoreRaw: 85 },
+      ])
+      expect(standIn.received.every(r => r.authorization === 'Bearer recorded-token')).toBe(true)
+    })
+
+    it('should stop pushing once AniList rate limits', async () => {
+      standIn = await startAniListStandIn({
+        SaveMediaListEntry: { status: 429, body: { errors: [{ message: 'Too Many Requests' }] } },
+      })
+
+      const result = await pushAniListEntries('user-1', [
+        { entryId: 'a', mediaId: 1, status: 'reading', progress: 1, rating: null },
+        { entryId: 'b', mediaId: 2, status: 'reading', progress: 2, rating: null },
+      ], { accessToken: 'recorded-token', endpoint: standIn.endpoint, pushIntervalMs: 0 })
+
+      expect(result).toEqual({ pushed: 0, failed: 1, skipped: 1 })
+      expect(standIn.received.filter(r => r.operation === 'SaveMediaListEntry')).toHaveLength(1)
+    })
+
+    it('should only read from AniList when direction is pull', async () => {
+      standIn = await startAniListStandIn()
+      mockFindMany.mockResolvedValue([
+        {
+          id: 'entry-solo-leveling',
+          status: 'completed',
+          last_read_chapter: 179,
+          updated_at: new Date('2026-01-02T00:00:00Z'),
+          source_url: 'https://anilist.co/manga/105398',
+          Series: null,
+        },
+      ])
+
+      const summary = await runAniListSync('user-1', { endpoint: standIn.endpoint, direction: 'pull' })
+
+      expect(summary.pushQueued).toBe(0)
+      expect(summary.pushJobId).toBeNull()
+      expect(mockImportQueueAdd).not.toHaveBeenCalledWith('anilist-push', expect.anything(), expect.anything())
+      expect(standIn.received.some(r => r.operation === 'SaveMediaListEntry')).toBe(false)
+    })
+
+    it('should refuse to sync while the previous push is pending', async () => {
+      standIn = await startAniListStandIn()
+      mockImportQueueGetJob.mockResolvedValueOnce({ id: 'anilist-push_user-1', data: {}, getState: async () => 'active' })
+
+      await expect(runAniListSync('user-1', { accessToken: 'recorded-token', endpoint: standIn.endpoint })).rejects.toMatchObject({
+        name: 'AniListSyncError',
+        status: 409,
+      })
+      expect(standIn.received).toHaveLength(0)
+      expect(mockFindMany).not.toHaveBeenCalled()
+    })
+
+    it('should not report pushes that a concurrent sync\'s job swallowed', async () => {
+      standIn = await startAniListStandIn()
+      mockFindMany.mockResolvedValue([
+        {
+          id: 'entry-solo-leveling',
+          status: 'completed',
+          last_read_chapter: 179,
+          updated_at: new Date('2026-01-02T00:00:00Z'),
+          source_url: 'https://anilist.co/manga/105398',
+          Series: null,
+        },
+      ])
+      // Nothing pending at the start; by the time ours is added another sync's job holds the id
+      mockImportQueueGetJob
+        .mockResolvedValueOnce(undefined)
+        .mockResolvedValueOnce({ id: 'anilist-push_user-1', data: { userId: 'user-1', items: [] }, getState: async () => 'waiting' })
+
+      const summary = await runAniListSync('user-1', { accessToken: 'recorded-token', endpoint: standIn.endpoint })
+
+      expect(summary.pushQueued).toBe(0)
+      expect(summary.pushJobId).toBeNull()
+    })
+
+    it('should surface rate limits as AniListSyncError', async () => {
+      standIn = await startAniListStandIn({ Viewer: { status: 429, body: { errors: [{ message: 'Too Many Requests' }] } } })
+
+      await expect(runAniListSync('user-1', { endpoint: standIn.endpoint })).rejects.toMatchObject({
+        name: 'AniListSyncError',
+        status: 429,
+      })
+      expect(mockFindMany).not.toHaveBeenCalled()
+    })
+
+    it('should reject tokens that resolve to no viewer', async () => {
+      standIn = await startAniListStandIn({ Viewer: { status: 200, body: { data: { Viewer: null } } } })
+
+      const error = await runAniListSync('user-1', { endpoint: standIn.endpoint }).catch(e => e)
+      expect(error).toBeInstanceOf(AniListSyncError)
+      expect(error.status).toBe(401)
+    })
+  })
+})
@@ -0,0 +1,203 @@
+import { NextRequest } from 'next/server';
+import { headers } from 'next/headers';
+import { prisma } from '@/lib/prisma';
+import { createClient } from '@/lib/supabase/server';
+import { hashApiToken } from '@/lib/api-tokens';
+import { updateSession } from '@/lib/supabase/middleware';
+import { GET as listTokens, POST as createToken } from '@/app/api/users/me/tokens/route';
+import { DELETE as revokeToken } from '@/app/api/users/me/tokens/[id]/route';
+import { GET as releaseCalendar } from '@/app/api/library/release-calendar/route';
+import { GET as openApi } from '@/app/api/openapi.json/route';
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    $queryRaw: jest.fn(),
+    libraryEntry: { findMany: jest.fn() },
+    personalAccessToken: {
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+      count: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+  },
+  withRetry: jest.fn((fn: () => unknown) => fn()),
+}));
+
+jest.mock('@/lib/supabase/server', () => ({
+  createClient: jest.fn(),
+}));
+
+jest.mock('next/headers', () => ({
+  headers: jest.fn(async () => new Headers()),
+}));
+
+const USER_ID = '550e8400-e29b-41d4-a716-446655440001';
+const TOKEN_ID = '550e8400-e29b-41d4-a716-446655440003';
+const TOKEN = `mtp_${'a'.repeat(43)}`;
+
+const jsonRequest = (url: string, body: unknown) =>
+  new NextRequest(url, {
+    method: 'POST',
+    headers: { 'content-type': 'application/json', origin: 'http://localhost', host: 'localhost' },
+    body: JSON.stringify(body),
+  });
+
+const tokenRecord = (overrides: Record<string, unknown> = {}) => ({
+  id: TOKEN_ID,
+  user_id: USER_ID,
+  scopes: ['read:library'],
+  last_used_at: new Date(),
+  expires_at: null,
+  users: { email: 'reader@example.com', username: 'reader', avatar_url: null, created_at: new Date() },
+  ...overrides,
+});
+
+describe('Personal access tokens', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (headers as jest.Mock).mockImplementation(async () => new Headers());
+    (createClient as jest.Mock).mockResolvedValue({
+      auth: { getUser: jest.fn().mockResolvedValue({ data: { user: { id: USER_ID, email: 'reader@example.com' } } }) },
+    });
+  });
+
+  describe('token management', () => {
+    it('should create a token and return the plaintext once', async () => {
+      (prisma.personalAccessToken.count as jest.Mock).mockResolvedValue(0);
+      (prisma.personalAccessToken.create as jest.Mock).mockImplementation(async ({ data }) => ({ id: TOKEN_ID, ...data }));
+
+      const res = await createToken(jsonRequest('http://localhost/api/users/me/tokens', {
+        name: 'Tracker script',
+        scopes: ['read:library', 'read:library', 'write:progress'],
+        expires_in_days: 30,
+      }));
+      const body = await res.json();
+      const { data } = (prisma.personalAccessToken.create as jest.Mock).mock.calls[0][0];
+
+      expect(res.status).toBe(201);
+      expect(body.token).toMatch(/^mtp_/);
+      expect(data.token_hash).toBe(hashApiToken(body.token));
+      expect(data.token_prefix).toBe(body.token.slice(0, 12));
+      expect(data.scopes).toEqual(['read:library', 'write:progress']);
+      expect(data.expires_at.getTime()).toBeGreaterThan(Date.now() + 29 * 24 * 60 * 60 * 1000);
+    });
+
+    it('should reject unknown scopes', async () => {
+      const res = await createToken(jsonRequest('http://localhost/api/users/me/tokens', { name: 'x', scopes: ['admin'] }));
+
+      expect(res.status).toBe(400);
+      expect(prisma.personalAccessToken.create).not.toHaveBeenCalled();
+    });
+
+    it('should list tokens without their hashes', async () => {
+      (prisma.personalAccessToken.findMany as jest.Mock).mockResolvedValue([]);
+
+      const res = await listTokens(new NextRequest('http://localhost/api/users/me/tokens'));
+
+      expect(res.status).toBe(200);
+      const { select } = (prisma.personalAccessToken.findMany as jest.Mock).mock.calls[0][0];
+      expect(select).not.toHaveProperty('token_hash');
+    });
+
+    it('should revoke only the user\'s own tokens', async () => {
+      (prisma.personalAccessToken.deleteMany as jest.Mock).mockResolvedValueOnce({ count: 1 }).mockResolvedValueOnce({ count: 0 });
+      const request = () => new NextRequest(`http://localhost/api/users/me/tokens/${TOKEN_ID}`, {
+        method: 'DELETE',
+        headers: { origin: 'http://localhost', host: 'localhost' },
+      });
+
+      const revoked = await revokeToken(request(), { params: Promise.resolve({ id: TOKEN_ID }) });
+      const missing = await revokeToken(request(), { params: Promise.resolve({ id: TOKEN_ID }) });
+
+      expect(revoked.status).toBe(204);
+      expect(missing.status).toBe(404);
+      expect(prisma.personalAccessToken.deleteMany).toHaveBeenCalledWith({ where: { id: TOKEN_ID, user_id: USER_ID } });
+    });
+  });
+
+  describe('bearer authentication', () => {
+    beforeEach(() => {
+      (headers as jest.Mock).mockImplementation(async () => new Headers({ authorization: `Bearer ${TOKEN}` }));
+      (prisma.libraryEntry.findMany as jest.Mock).mockResolvedValue([]);
+      (prisma.$queryRaw as jest.Mock).mockResolvedValue([]);
+    });
+
+    it('should authenticate a token with the required scope', async () => {
+      (prisma.personalAccessToken.findUnique as jest.Mock).mockResolvedValue(tokenRecord());
+
+      const res = await releaseCalendar(new NextRequest('http://localhost/api/library/release-calendar'));
+
+      expect(res.status).toBe(200);
+      expect(prisma.personalAccessToken.findUnique).toHaveBeenCalledWith(expect.objectContaining({
+        where: { token_hash: hashApiToken(TOKEN) },
+      }));
+      expect(prisma.libraryEntry.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: expect.objectContaining({ user_id: USER_ID }),
+      }));
+      expect(createClient).not.toHaveBeenCalled();
+    });
+
+    it('should reject tokens without the required scope', async () => {
+      (prisma.personalAccessToken.findUnique as jest.Mock).mockResolvedValue(tokenRecord({ scopes: ['read:feed'] }));
+
+      const res = await releaseCalendar(new NextRequest('http://localhost/api/library/release-calendar'));
+
+      expect(res.status).toBe(403);
+      expect(prisma.libraryEntry.findMany).not.toHaveBeenCalled();
+    });
+
+    it('should reject expired and unknown tokens', async () => {
+      (prisma.personalAccessToken.findUnique as jest.Mock)
+        .mockResolvedValueOnce(tokenRecord({ expires_at: new Date(Date.now() - 1000) }))
+        .mockResolvedValueOnce(null);
+
+      const expired = await releaseCalendar(new NextRequest('http://localhost/api/library/release-calendar'));
+      const unknown = await releaseCalendar(new NextRequest('http://localhost/api/library/release-calendar'));
+
+      expect(expired.status).toBe(401);
+      expect(unknown.status).toBe(401);
+    });
+
+    it('should not let tokens manage tokens', async () => {
+      (prisma.personalAccessToken.findUnique as jest.Mock).mockResolvedValue(tokenRecord());
+
+      const res = await listTokens(new NextRequest('http://localhost/api/users/me/tokens'));
+
+      expect(res.status).toBe(403);
+      expect(prisma.personalAccessToken.findMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('session middleware', () => {
+    const bearerRequest = (path: string, token: string) =>
+      new NextRequest(`http://localhost${path}`, { headers: { authorization: `Bearer ${token}` } });
+
+    it('should not let a bearer header skip the session check on routes without token auth', async () => {
+      const dummy = await updateSession(bearerRequest('/api/users/search?q=reader', 'x'));
+      const wellFormed = await updateSession(bearerRequest('/api/leaderboard', TOKEN));
+
+      expect(dummy.response.status).toBe(401);
+      expect(wellFormed.response.status).toBe(401);
+    });
+
+    it('should only pass well-formed tokens through to token-enabled routes', async () => {
+      const dummy = await updateSession(bearerRequest('/api/library', 'x'));
+      const wellFormed = await updateSession(bearerRequest('/api/library/release-calendar', TOKEN));
+
+      expect(dummy.response.status).toBe(401);
+      expect(wellFormed.response.status).toBe(200);
+      expect(wellFormed.user).toBeNull();
+    });
+  });
+
+  it('should serve the OpenAPI document', async () => {
+    const res = await openApi(new NextRequest('http://localhost/api/openapi.json'));
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(body.openapi).toBe('3.1.0');
+    expect(body.paths).toHaveProperty('/api/library/{id}/progress');
+  });
+});
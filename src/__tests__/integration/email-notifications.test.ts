@@ -0,0 +1,258 @@
+import { NextRequest } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { EmailTransport, OutgoingEmail, setEmailTransport } from '@/lib/email/transport';
+import { SmtpError } from '@/lib/email/smtp';
+import { createUnsubscribeToken } from '@/lib/email/unsubscribe';
+import { processNotificationDelivery } from '@/workers/processors/notification-delivery.processor';
+import { processNotificationDigest } from '@/workers/processors/notification-digest.processor';
+import { GET as unsubscribePage, POST as unsubscribe } from '@/app/api/email/unsubscribe/route';
+import { POST as emailEvents } from '@/app/api/email/events/route';
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    $queryRaw: jest.fn(),
+    $transaction: jest.fn(),
+    series: { findUnique: jest.fn() },
+    user: { findMany: jest.fn(), findUnique: jest.fn(), update: jest.fn() },
+    notification: { findMany: jest.fn(), createMany: jest.fn(), create: jest.fn(), deleteMany: jest.fn() },
+    notificationDigestBuffer: { findMany: jest.fn(), updateMany: jest.fn() },
+    emailSuppression: { findMany: jest.fn(), upsert: jest.fn() },
+    pushSubscription: { findMany: jest.fn() },
+  },
+}));
+
+jest.mock('@/lib/queues', () => ({
+  getNotificationSystemHealth: jest.fn().mockResolvedValue({
+    isRejected: false,
+    isOverloaded: false,
+    isCritical: false,
+    totalWaiting: 0,
+  }),
+  notificationDigestQueue: { add: jest.fn() },
+}));
+
+jest.mock('@/lib/notifications-throttling', () => ({
+  shouldThrottleUser: jest.fn().mockResolvedValue({ throttle: false, reason: null }),
+}));
+
+const SERIES_ID = '550e8400-e29b-41d4-a716-446655440000';
+const SOURCE_ID = '550e8400-e29b-41d4-a716-446655440099';
+const READER_ID = '550e8400-e29b-41d4-a716-446655440001';
+const BOUNCED_ID = '550e8400-e29b-41d4-a716-446655440002';
+const OPTED_OUT_ID = '550e8400-e29b-41d4-a716-446655440003';
+
+/** Records sent mail; the relay rejects anything addressed to bad.example */
+class RecordingTransport implements EmailTransport {
+  readonly name = 'recording';
+  sent: OutgoingEmail[] = [];
+
+  async send(email: OutgoingEmail): Promise<void> {
+    if (email.to.endsWith('@bad.example')) {
+      throw new SmtpError('SMTP RCPT failed: 550 no such user', 550, 'RCPT');
+    }
+    this.sent.push(email);
+  }
+}
+
+describe('Email notifications', () => {
+  let transport: RecordingTransport;
+
+  const users = [
+    { id: READER_ID, email: 'Reader@Example.com', notification_settings: { email: true } },
+    { id: BOUNCED_ID, email: 'gone@bad.example', notification_settings: {} },
+    { id: OPTED_OUT_ID, email: 'quiet@example.com', notification_settings: { email_new_chapters: false, email_digest: false } },
+  ];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    transport = new RecordingTransport();
+    setEmailTransport(transport);
+    process.env.NEXT_PUBLIC_SITE_URL = 'https://mangatrack.app';
+
+    (prisma.user.findMany as jest.Mock).mockImplementation(async ({ where }) =>
+      users.filter(u => where.id.in.includes(u.id)));
+    (prisma.emailSuppression.findMany as jest.Mock).mockResolvedValue([]);
+    (prisma.emailSuppression.upsert as jest.Mock).mockResolvedValue({});
+  });
+
+  afterAll(() => {
+    setEmailTransport(undefined);
+    delete process.env.NEXT_PUBLIC_SITE_URL;
+  });
+
+  describe('chapter alerts', () => {
+    const job = {
+      id: 'job-1',
+      data: {
+        seriesId: SERIES_ID,
+        sourceId: SOURCE_ID,
+        sourceName: 'mangadex',
+        chapterNumber: 42,
+        newChapterCount: 1,
+        userIds: [READER_ID, BOUNCED_ID, OPTED_OUT_ID],
+        emailUserIds: [READER_ID, BOUNCED_ID, OPTED_OUT_ID],
+        isPremium: false,
+        priority: 0,
+      },
+    };
+
+    beforeEach(() => {
+      (prisma.series.findUnique as jest.Mock).mockResolvedValue({ title: 'Sky Garden', last_chapter_at: new Date() });
+      (prisma.notification.findMany as jest.Mock).mockResolvedValue([]);
+      (prisma.notification.createMany as jest.Mock).mockResolvedValue({ count: 3 });
+    });
+
+    it('should email opted-in users with a one-click unsubscribe link', async () => {
+      await processNotificationDelivery(job as any);
+
+      expect(transport.sent).toHaveLength(1);
+      const [email] = transport.sent;
+      expect(email.to).toBe('Reader@Example.com');
+      expect(email.message.subject).toBe('New chapter of Sky Garden: Chapter 42');
+      expect(email.message.text).toContain(`https://mangatrack.app/series/${SERIES_ID}`);
+      expect(email.message.unsubscribeUrl).toMatch(/^https:\/\/mangatrack\.app\/api\/email\/unsubscribe\?token=/);
+      expect(email.raw).toContain('List-Unsubscribe-Post: List-Unsubscribe=One-Click');
+    });
+
+    it('should suppress recipients the relay rejects', async () => {
+      await processNotificationDelivery(job as any);
+
+      expect(prisma.emailSuppression.upsert).toHaveBeenCalledWith(expect.objectContaining({
+        where: { email: 'gone@bad.example' },
+        create: expect.objectContaining({ email: 'gone@bad.example', reason: 'bounce' }),
+      }));
+    });
+
+    it('should skip suppressed addresses', async () => {
+      (prisma.emailSuppression.findMany as jest.Mock).mockResolvedValue([{ email: 'reader@example.com' }]);
+
+      await processNotificationDelivery(job as any);
+
+      expect(transport.sent).toHaveLength(0);
+    });
+
+    it('should not fail the job when the mail relay is down', async () => {
+      transport.send = jest.fn().mockRejectedValue(new Error('ECONNREFUSED'));
+
+      await expect(processNotificationDelivery(job as any)).resolves.toBeUndefined();
+      expect(prisma.notification.createMany).toHaveBeenCalled();
+    });
+  });
+
+  describe('digests', () => {
+    beforeEach(() => {
+      (prisma.$queryRaw as jest.Mock).mockResolvedValue([{ user_id: READER_ID, frequency: 'daily' }]);
+      (prisma.notificationDigestBuffer.findMany as jest.Mock).mockResolvedValue([
+        { series_id: 's1', chapter_number: 10, source_names: ['mangadex'], created_at: new Date(), Series: { title: 'Sky Garden' } },
+        { series_id: 's1', chapter_number: 11, source_names: ['mangadex'], created_at: new Date(), Series: { title: 'Sky Garden' } },
+      ]);
+      (prisma.$transaction as jest.Mock).mockResolvedValue([]);
+    });
+
+    it('should email the same digest that is stored in-app', async () => {
+      await processNotificationDigest({} as any);
+
+      expect(prisma.notification.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          type: 'DIGEST',
+          title: 'Updates: Sky Garden',
+          message: '2 new chapters (10, 11) available on mangadex.',
+        }),
+      });
+      expect(transport.sent).toHaveLength(1);
+      expect(transport.sent[0].message.subject).toBe('Updates: Sky Garden');
+      expect(transport.sent[0].message.text).toContain('New in the last day:');
+      expect(transport.sent[0].message.text).toContain('Chapters 10, 11 on mangadex');
+    });
+
+    it('should respect the digest email switch', async () => {
+      (prisma.$queryRaw as jest.Mock).mockResolvedValue([{ user_id: OPTED_OUT_ID, frequency: 'daily' }]);
+
+      await processNotificationDigest({} as any);
+
+      expect(prisma.$transaction).toHaveBeenCalled();
+      expect(transport.sent).toHaveLength(0);
+    });
+  });
+
+  describe('unsubscribe route', () => {
+    const url = (token: string) => `https://mangatrack.app/api/email/unsubscribe?token=${token}`;
+
+    beforeEach(() => {
+      (prisma.user.findUnique as jest.Mock).mockResolvedValue({ notification_settings: { email: true, push_enabled: true } });
+      (prisma.user.update as jest.Mock).mockResolvedValue({});
+    });
+
+    it('should only show a confirmation on GET', async () => {
+      const res = await unsubscribePage(new NextRequest(url(createUnsubscribeToken(READER_ID, 'digest'))));
+
+      expect(res.status).toBe(200);
+      expect(await res.text()).toContain('Stop receiving update digests by email?');
+      expect(prisma.user.update).not.toHaveBeenCalled();
+    });
+
+    it('should turn off just that email type on one-click POST', async () => {
+      const res = await unsubscribe(new NextRequest(url(createUnsubscribeToken(READER_ID, 'new_chapters')), {
+        method: 'POST',
+        headers: { 'content-type': 'application/x-www-form-urlencoded', origin: 'https://mail.example.com' },
+        body: 'List-Unsubscribe=One-Click',
+      }));
+
+      expect(res.status).toBe(200);
+      expect(prisma.user.update).toHaveBeenCalledWith({
+        where: { id: READER_ID },
+        data: { notification_settings: { email: true, push_enabled: true, email_new_chapters: false } },
+      });
+    });
+
+    it('should reject forged tokens', async () => {
+      const res = await unsubscribe(new NextRequest(url('forged.token'), { method: 'POST' }));
+
+      expect(res.status).toBe(400);
+      expect(prisma.user.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('bounce and complaint webhook', () => {
+    const post = (body: unknown, secret = 'webhook-secret-123456') => emailEvents(new NextRequest('https://mangatrack.app/api/email/events', {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', authorization: `Bearer ${secret}` },
+      body: JSON.stringify(body),
+    }));
+
+    beforeEach(() => {
+      process.env.EMAIL_WEBHOOK_SECRET = 'webhook-secret-123456';
+    });
+
+    afterAll(() => {
+      delete process.env.EMAIL_WEBHOOK_SECRET;
+    });
+
+    it('should suppress hard bounces and complaints but not soft bounces', async () => {
+      const res = await post({
+        events: [
+          { type: 'bounce', email: 'Gone@Example.com', permanent: true },
+          { type: 'bounce', email: 'full@example.com', permanent: false },
+          { type: 'complaint', email: 'angry@example.com' },
+        ],
+      });
+
+      expect(await res.json()).toEqual({ success: true, received: 3, suppressed: 2 });
+      expect(prisma.emailSuppression.upsert).toHaveBeenCalledTimes(2);
+      expect(prisma.emailSuppression.upsert).toHaveBeenCalledWith(expect.objectContaining({
+        where: { email: 'gone@example.com' },
+      }));
+      expect(prisma.emailSuppression.upsert).toHaveBeenCalledWith(expect.objectContaining({
+        where: { email: 'angry@example.com' },
+        update: expect.objectContaining({ reason: 'complaint' }),
+      }));
+    });
+
+    it('should require the webhook secret', async () => {
+      const res = await post({ type: 'complaint', email: 'angry@example.com' }, 'wrong');
+
+      expect(res.status).toBe(401);
+      expect(prisma.emailSuppression.upsert).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,171 @@
+import { NextRequest } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { createClient } from '@/lib/supabase/server';
+import { GET as availabilityFeed } from '@/app/api/feeds/[token]/availability/route';
+import { GET as seriesFeed } from '@/app/api/feeds/[token]/series/[seriesId]/route';
+import { GET as calendarFeed } from '@/app/api/feeds/[token]/calendar/route';
+import { GET as getToken, POST as rotateToken, DELETE as revokeToken } from '@/app/api/users/me/feed-token/route';
+import { hashFeedToken } from '@/lib/feeds/tokens';
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    $queryRaw: jest.fn(),
+    $queryRawUnsafe: jest.fn(),
+    feedToken: { findUnique: jest.fn(), update: jest.fn(), upsert: jest.fn(), deleteMany: jest.fn() },
+    libraryEntry: { findFirst: jest.fn(), findMany: jest.fn() },
+    logicalChapter: { findMany: jest.fn() },
+  },
+}));
+
+jest.mock('@/lib/supabase/server', () => ({
+  createClient: jest.fn(),
+}));
+
+jest.mock('next/headers', () => ({
+  headers: jest.fn(async () => new Headers()),
+}));
+
+const USER_ID = '550e8400-e29b-41d4-a716-446655440001';
+const SERIES_ID = '550e8400-e29b-41d4-a716-446655440000';
+const TOKEN = 'a'.repeat(43);
+
+const feedRequest = (path: string) => new NextRequest(`http://localhost/api/feeds/${TOKEN}${path}`);
+
+describe('Personal feeds', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (prisma.feedToken.findUnique as jest.Mock).mockImplementation(async ({ where }) => (
+      where.token_hash === hashFeedToken(TOKEN) ? { id: 'ft-1', user_id: USER_ID, last_used_at: null } : null
+    ));
+  });
+
+  it('should serve the library availability feed as RSS or Atom', async () => {
+    (prisma.$queryRawUnsafe as jest.Mock).mockResolvedValue([{
+      event_id: 'ev-1',
+      occurred_at: new Date('2026-10-18T12:00:00Z'),
+      series_id: SERIES_ID,
+      series_title: 'Sky Garden',
+      chapter_number: '42.00',
+      source_name: 'mangadex',
+      source_url: 'https://mangadex.org/chapter/42',
+    }]);
+
+    const rss = await availabilityFeed(feedRequest('/availability'), { params: Promise.resolve({ token: TOKEN }) });
+    const atom = await availabilityFeed(feedRequest('/availability?format=atom'), { params: Promise.resolve({ token: TOKEN }) });
+    const rssBody = await rss.text();
+
+    expect(rss.headers.get('content-type')).toBe('application/rss+xml; charset=utf-8');
+    expect(rssBody).toContain('<title>Sky Garden – Chapter 42</title>');
+    expect(atom.headers.get('content-type')).toBe('application/atom+xml; charset=utf-8');
+    expect((prisma.$queryRawUnsafe as jest.Mock).mock.calls[0].slice(1)).toEqual([USER_ID, 50]);
+    expect(prisma.feedToken.update).toHaveBeenCalledWith(expect.objectContaining({ where: { id: 'ft-1' } }));
+  });
+
+  it('should 404 for unknown tokens and series outside the library', async () => {
+    const unknown = await availabilityFeed(
+      new NextRequest(`http://localhost/api/feeds/${'b'.repeat(43)}/availability`),
+      { params: Promise.resolve({ token: 'b'.repeat(43) }) }
+    );
+    (prisma.libraryEntry.findFirst as jest.Mock).mockResolvedValue(null);
+    const notFollowed = await seriesFeed(feedRequest(`/series/${SERIES_ID}`), { params: Promise.resolve({ token: TOKEN, seriesId: SERIES_ID }) });
+
+    expect(unknown.status).toBe(404);
+    expect(notFollowed.status).toBe(404);
+    expect(prisma.$queryRawUnsafe).not.toHaveBeenCalled();
+    expect(prisma.logicalChapter.findMany).not.toHaveBeenCalled();
+  });
+
+  it('should list chapters of a followed series', async () => {
+    (prisma.libraryEntry.findFirst as jest.Mock).mockResolvedValue({ Series: { title: 'Sky Garden' } });
+    (prisma.logicalChapter.findMany as jest.Mock).mockResolvedValue([{
+      id: 'ch-42',
+      chapter_number: '42',
+      chapter_title: 'Bloom',
+      first_seen_at: new Date('2026-10-18T12:00:00Z'),
+      ChapterSource: [{ source_name: 'mangadex', source_chapter_url: 'https://mangadex.org/chapter/42' }],
+    }]);
+
+    const res = await seriesFeed(feedRequest(`/series/${SERIES_ID}`), { params: Promise.resolve({ token: TOKEN, seriesId: SERIES_ID }) });
+    const body = await res.text();
+
+    expect(res.status).toBe(200);
+    expect(body).toContain('<title>Sky Garden – Chapter 42: Bloom</title>');
+    expect(body).toContain('<guid isPermaLink="false">chapter:ch-42</guid>');
+  });
+
+  it('should publish predicted releases as calendar events', async () => {
+    const DAY = 24 * 60 * 60 * 1000;
+    const lastRelease = new Date(Math.floor(Date.now() / DAY) * DAY - 3 * DAY);
+    const expected = new Date(lastRelease.getTime() + 7 * DAY).toISOString().slice(0, 10).replace(/-/g, '');
+    (prisma.libraryEntry.findMany as jest.Mock).mockResolvedValue([
+      { series_id: SERIES_ID, Series: { title: 'Sky Garden' } },
+    ]);
+    (prisma.$queryRaw as jest.Mock).mockResolvedValue([0, 7, 14, 21].map(d => ({
+      series_id: SERIES_ID,
+      released_at: new Date(lastRelease.getTime() - d * DAY),
+    })));
+
+    const res = await calendarFeed(feedRequest('/calendar'), { params: Promise.resolve({ token: TOKEN }) });
+    const body = await res.text();
+
+    expect(res.headers.get('content-type')).toBe('text/calendar; charset=utf-8');
+    expect(body).toContain(`UID:release-${SERIES_ID}@mangatrack`);
+    expect(body).toContain(`DTSTART;VALUE=DATE:${expected}`);
+    expect(prisma.libraryEntry.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: expect.objectContaining({ user_id: USER_ID, status: { notIn: ['completed', 'dropped'] } }),
+    }));
+  });
+
+  describe('token management', () => {
+    beforeEach(() => {
+      (createClient as jest.Mock).mockResolvedValue({
+        auth: { getUser: jest.fn().mockResolvedValue({ data: { user: { id: USER_ID } } }) },
+      });
+    });
+
+    it('should rotate the token, store only its hash and return fresh feed URLs', async () => {
+      (prisma.feedToken.upsert as jest.Mock).mockImplementation(async ({ create }) => ({
+        token_prefix: create.token_prefix,
+        created_at: new Date(),
+        last_used_at: null,
+      }));
+
+      const res = await rotateToken(new NextRequest('http://localhost/api/users/me/feed-token', { method: 'POST' }));
+      const body = await res.json();
+      const { create, update } = (prisma.feedToken.upsert as jest.Mock).mock.calls[0][0];
+      const token = body.feed_token.urls.calendar.match(/\/api\/feeds\/([A-Za-z0-9_-]+)\/calendar$/)[1];
+
+      expect(res.status).toBe(201);
+      expect(token).toMatch(/^[A-Za-z0-9_-]{43}$/);
+      expect(create).not.toHaveProperty('token');
+      expect(create.token_hash).toBe(hashFeedToken(token));
+      expect(create.token_prefix).toBe(token.slice(0, 8));
+      expect(update.token_hash).toBe(create.token_hash);
+      expect(body.feed_token.token_prefix).toBe(token.slice(0, 8));
+    });
+
+    it('should not return feed URLs once the token is issued', async () => {
+      (prisma.feedToken.findUnique as jest.Mock).mockResolvedValue({
+        token_prefix: 'aaaaaaaa',
+        created_at: new Date(),
+        last_used_at: null,
+      });
+
+      const res = await getToken(new NextRequest('http://localhost/api/users/me/feed-token'));
+      const body = await res.json();
+
+      expect(body.feed_token).toEqual(expect.objectContaining({ token_prefix: 'aaaaaaaa' }));
+      expect(body.feed_token).not.toHaveProperty('urls');
+      expect(JSON.stringify(body)).not.toContain(TOKEN);
+    });
+
+    it('should revoke the token', async () => {
+      (prisma.feedToken.deleteMany as jest.Mock).mockResolvedValue({ count: 1 });
+
+      const res = await revokeToken(new NextRequest('http://localhost/api/users/me/feed-token', { method: 'DELETE' }));
+
+      expect(res.status).toBe(204);
+      expect(prisma.feedToken.deleteMany).toHaveBeenCalledWith({ where: { user_id: USER_ID } });
+    });
+  });
+});
@@ -0,0 +1,163 @@
+import { NextRequest } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { createClient } from '@/lib/supabase/server';
+import { logActivity } from '@/lib/gamification/activity';
+import { PATCH as updateEntry } from '@/app/api/library/[id]/route';
+import { currentReadThrough } from '@/lib/library-entries';
+import { LibraryQuerySchema, LibraryEntryDetailsSchema } from '@/lib/schemas/library';
+
+const tx = {
+  $queryRaw: jest.fn(),
+  libraryEntry: { update: jest.fn() },
+  user: { findUnique: jest.fn(), update: jest.fn() },
+};
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: { $transaction: jest.fn() },
+  prismaRead: {},
+  withRetry: jest.fn((fn: () => unknown) => fn()),
+  DEFAULT_TX_OPTIONS: {},
+}));
+
+jest.mock('@/lib/redis', () => ({
+  redis: { get: jest.fn(), set: jest.fn(), del: jest.fn(), incr: jest.fn(), expire: jest.fn(), pttl: jest.fn() },
+  redisApi: { incr: jest.fn(), get: jest.fn(), set: jest.fn(), del: jest.fn() },
+  waitForRedis: jest.fn(),
+  REDIS_KEY_PREFIX: 'test:',
+}));
+
+jest.mock('@/lib/supabase/server', () => ({
+  createClient: jest.fn(),
+}));
+
+jest.mock('next/headers', () => ({
+  headers: jest.fn(async () => new Headers()),
+}));
+
+jest.mock('@/lib/anti-abuse', () => ({
+  antiAbuse: {
+    checkStatusRateLimit: jest.fn().mockResolvedValue({ allowed: true, hardBlock: false }),
+    detectStatusBotPatterns: jest.fn().mockResolvedValue({ isBot: false }),
+    canGrantXp: jest.fn().mockResolvedValue(true),
+  },
+}));
+
+jest.mock('@/lib/gamification/activity', () => ({ logActivity: jest.fn() }));
+jest.mock('@/lib/gamification/achievements', () => ({ checkAchievements: jest.fn().mockResolvedValue([]) }));
+jest.mock('@/lib/analytics/signals', () => ({ recordSignal: jest.fn().mockResolvedValue(undefined) }));
+jest.mock('@/lib/job-cleanup', () => ({ cancelJobsForLibraryEntry: jest.fn() }));
+jest.mock('@/lib/cache-utils', () => ({ invalidateLibraryCache: jest.fn() }));
+
+const USER_ID = '550e8400-e29b-41d4-a716-446655440001';
+const ENTRY_ID = '550e8400-e29b-41d4-a716-446655440002';
+const SERIES_ID = '550e8400-e29b-41d4-a716-446655440003';
+
+const entryRow = (overrides: Record<string, unknown> = {}) => ({
+  id: ENTRY_ID,
+  user_id: USER_ID,
+  series_id: SERIES_ID,
+  status: 'completed',
+  reread_count: 0,
+  series_completion_xp_granted: true,
+  ...overrides,
+});
+
+const patch = (body: unknown) => updateEntry(
+  new NextRequest(`http://localhost/api/library/${ENTRY_ID}`, {
+    method: 'PATCH',
+    headers: { 'content-type': 'application/json', origin: 'http://localhost', host: 'localhost' },
+    body: JSON.stringify(body),
+  }),
+  { params: Promise.resolve({ id: ENTRY_ID }) }
+);
+
+const mockEntry = (row: Record<string, unknown>) => {
+  tx.$queryRaw
+    .mockResolvedValueOnce([{ id: USER_ID, deleted_at: null, banned_at: null }])
+    .mockResolvedValueOnce([row]);
+};
+
+describe('Library entry notes, tags and re-reads', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    tx.$queryRaw.mockReset();
+    (createClient as jest.Mock).mockResolvedValue({
+      auth: { getUser: jest.fn().mockResolvedValue({ data: { user: { id: USER_ID, email: 'reader@example.com' } } }) },
+    });
+    (prisma.$transaction as jest.Mock).mockImplementation(async (fn: (client: typeof tx) => unknown) => fn(tx));
+    tx.libraryEntry.update.mockImplementation(async ({ data }: { data: Record<string, unknown> }) => ({ ...entryRow(), ...data }));
+  });
+
+  it('should normalize tags to lowercase, trimmed and unique', () => {
+    const parsed = LibraryEntryDetailsSchema.parse({ tags: ['  Slow   Burn ', 'slow burn', 'Favourite'] });
+    expect(parsed.tags).toEqual(['slow burn', 'favourite']);
+
+    expect(LibraryEntryDetailsSchema.safeParse({ tags: Array.from({ length: 21 }, (_, i) => `tag${i}`) }).success).toBe(false);
+    expect(LibraryEntryDetailsSchema.safeParse({ tags: ['x'.repeat(33)] }).success).toBe(false);
+    expect(LibraryQuerySchema.parse({ tag: ' Isekai ', sort: 'rereads' })).toMatchObject({ tag: 'isekai', sort: 'rereads' });
+  });
+
+  it('should save private notes and tags on the caller\'s entry', async () => {
+    mockEntry(entryRow({ status: 'reading' }));
+
+    const res = await patch({ notes: '## Arc 2\nBest fight so far', tags: ['Rewatch', 'Favourite'] });
+
+    expect(res.status).toBe(200);
+    expect(tx.libraryEntry.update).toHaveBeenCalledWith({
+      where: { id: ENTRY_ID, user_id: USER_ID },
+      data: { notes: '## Arc 2\nBest fight so far', tags: ['rewatch', 'favourite'] },
+    });
+  });
+
+  it('should clear notes when null is sent', async () => {
+    mockEntry(entryRow());
+
+    const res = await patch({ notes: null });
+
+    expect(res.status).toBe(200);
+    expect(tx.libraryEntry.update).toHaveBeenCalledWith(expect.objectContaining({ data: { notes: null } }));
+  });
+
+  it('should start a re-read of a completed entry without touching the completion', async () => {
+    mockEntry(entryRow({ reread_count: 1 }));
+    tx.libraryEntry.update.mockResolvedValueOnce({ ...entryRow(), status: 'reading', reread_count: 2, last_read_chapter: 0 });
+
+    const res = await patch({ start_reread: true });
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(body).toMatchObject({ status: 'reading', reread_count: 2, last_read_chapter: 0 });
+    expect(body.xpGained).toBeUndefined();
+    expect(tx.libraryEntry.update).toHaveBeenCalledTimes(1);
+    expect(tx.libraryEntry.update).toHaveBeenCalledWith({
+      where: { id: ENTRY_ID, user_id: USER_ID },
+      data: { status: 'reading', reread_count: { increment: 1 }, last_read_chapter: 0, last_read_at: null },
+    });
+    expect(logActivity).toHaveBeenCalledWith(tx, USER_ID, 'status_updated', {
+      seriesId: SERIES_ID,
+      metadata: { old_status: 'completed', new_status: 'reading', reread: 2 },
+    });
+  });
+
+  it('should only start a re-read from completed', async () => {
+    mockEntry(entryRow({ status: 'reading' }));
+
+    const res = await patch({ start_reread: true });
+
+    expect(res.status).toBe(400);
+    expect(tx.libraryEntry.update).not.toHaveBeenCalled();
+  });
+
+  it('should reject a re-read combined with a status change', async () => {
+    const res = await patch({ start_reread: true, status: 'completed' });
+
+    expect(res.status).toBe(400);
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+  });
+
+  it('should number read-throughs from the re-read count', () => {
+    expect(currentReadThrough(0)).toBe(1);
+    expect(currentReadThrough(2)).toBe(3);
+    expect(currentReadThrough(null)).toBe(1);
+  });
+});
@@ -0,0 +1,231 @@
+import { NextRequest } from 'next/server';
+import { headers } from 'next/headers';
+import { prisma } from '@/lib/prisma';
+import { redisApi } from '@/lib/redis';
+import { createClient } from '@/lib/supabase/server';
+import { addSeriesToLibrary } from '@/lib/library-entries';
+import { POST as followList } from '@/app/api/lists/[id]/follow/route';
+import { PATCH as updateItem } from '@/app/api/lists/[id]/items/[seriesId]/route';
+import { GET as getActivity } from '@/app/api/feed/activity/route';
+import { forkList } from '@/lib/actions/list-actions';
+import { canViewList, summarizeList } from '@/lib/lists';
+
+jest.mock('@/lib/prisma', () => {
+  const client = {
+    $queryRaw: jest.fn(),
+    $transaction: jest.fn(),
+    activity: { createMany: jest.fn() },
+    libraryEntry: { findMany: jest.fn() },
+    user: { findUnique: jest.fn() },
+    userList: { findUnique: jest.fn() },
+    userListItem: { updateMany: jest.fn(), findUnique: jest.fn() },
+    userListFollow: { upsert: jest.fn(), count: jest.fn(), deleteMany: jest.fn() },
+  };
+  return { prisma: client, prismaRead: client, withRetry: jest.fn((fn: () => unknown) => fn()) };
+});
+
+jest.mock('@/lib/redis', () => ({
+  redis: { get: jest.fn(), set: jest.fn(), del: jest.fn(), incr: jest.fn(), expire: jest.fn(), pttl: jest.fn() },
+  redisApi: { incr: jest.fn(), get: jest.fn(), set: jest.fn(), del: jest.fn() },
+  waitForRedis: jest.fn(),
+  REDIS_KEY_PREFIX: 'test:',
+}));
+
+jest.mock('@/lib/supabase/server', () => ({
+  createClient: jest.fn(),
+}));
+
+jest.mock('next/headers', () => ({
+  headers: jest.fn(async () => new Headers()),
+}));
+
+jest.mock('next/cache', () => ({ revalidatePath: jest.fn() }));
+jest.mock('@/lib/cache-utils', () => ({ invalidateLibraryCache: jest.fn() }));
+jest.mock('@/lib/library-entries', () => ({ addSeriesToLibrary: jest.fn() }));
+
+const USER_ID = '550e8400-e29b-41d4-a716-446655440001';
+const OWNER_ID = '550e8400-e29b-41d4-a716-446655440009';
+const LIST_ID = '550e8400-e29b-41d4-a716-446655440004';
+const SERIES_A = '550e8400-e29b-41d4-a716-44665544000a';
+const SERIES_B = '550e8400-e29b-41d4-a716-44665544000b';
+const SERIES_C = '550e8400-e29b-41d4-a716-44665544000c';
+
+const visibleList = (overrides: Record<string, unknown> = {}) => ({
+  id: LIST_ID,
+  user_id: OWNER_ID,
+  is_public: true,
+  users: { privacy_settings: {} },
+  ...overrides,
+});
+
+const params = <T,>(value: T) => ({ params: Promise.resolve(value) });
+
+describe('List sharing', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (headers as jest.Mock).mockImplementation(async () => new Headers());
+    (createClient as jest.Mock).mockResolvedValue({
+      auth: { getUser: jest.fn().mockResolvedValue({ data: { user: { id: USER_ID, email: 'reader@example.com' } } }) },
+    });
+  });
+
+  it('should only show a list to others when it and the owner profile allow it', () => {
+    expect(canViewList(visibleList(), USER_ID)).toBe(true);
+    expect(canViewList(visibleList(), null)).toBe(true);
+    expect(canViewList(visibleList({ is_public: false }), USER_ID)).toBe(false);
+    expect(canViewList(visibleList({ is_public: false }), OWNER_ID)).toBe(true);
+    expect(canViewList(visibleList({ users: { privacy_settings: { lists_public: false } } }), USER_ID)).toBe(false);
+  });
+
+  it('should summarize ratings, completion, types and genres', () => {
+    const stats = summarizeList([
+      { type: 'manga', status: 'completed', genres: ['Action', 'Drama'], average_rating: '8.5', chapter_count: 100 },
+      { type: 'manhwa', status: 'ongoing', genres: ['Action'], average_rating: null, chapter_count: 40 },
+      { type: 'manga', status: 'completed', genres: ['Comedy'], average_rating: 7, chapter_count: null },
+    ]);
+
+    expect(stats).toEqual({
+      series_count: 3,
+      completed_count: 2,
+      total_chapters: 140,
+      average_rating: 7.75,
+      types: [{ name: 'manga', count: 2 }, { name: 'manhwa', count: 1 }],
+      top_genres: [{ name: 'Action', count: 2 }, { name: 'Comedy', count: 1 }, { name: 'Drama', count: 1 }],
+    });
+  });
+
+  it('should follow a visible list but not your own', async () => {
+    (prisma.userList.findUnique as jest.Mock).mockResolvedValue(visibleList());
+    (prisma.userListFollow.count as jest.Mock).mockResolvedValue(4);
+
+    const req = () => new NextRequest(`http://localhost/api/lists/${LIST_ID}/follow`, {
+      method: 'POST',
+      headers: { origin: 'http://localhost', host: 'localhost' },
+    });
+
+    const res = await followList(req(), params({ id: LIST_ID }));
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ following: true, followers: 4 });
+    expect(prisma.userListFollow.upsert).toHaveBeenCalledWith(expect.objectContaining({
+      create: { list_id: LIST_ID, user_id: USER_ID },
+    }));
+
+    (prisma.userList.findUnique as jest.Mock).mockResolvedValue(visibleList({ user_id: USER_ID }));
+    const own = await followList(req(), params({ id: LIST_ID }));
+    expect(own.status).toBe(400);
+  });
+
+  it('should update an item note only on the caller\'s own list', async () => {
+    (prisma.userListItem.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+    (prisma.userListItem.findUnique as jest.Mock).mockResolvedValue({ series_id: SERIES_A, note: 'Start here' });
+
+    const res = await updateItem(
+      new NextRequest(`http://localhost/api/lists/${LIST_ID}/items/${SERIES_A}`, {
+        method: 'PATCH',
+        headers: { 'content-type': 'application/json', origin: 'http://localhost', host: 'localhost' },
+        body: JSON.stringify({ note: '  Start here ' }),
+      }),
+      params({ id: LIST_ID, seriesId: SERIES_A })
+    );
+
+    expect(res.status).toBe(200);
+    expect(prisma.userListItem.updateMany).toHaveBeenCalledWith({
+      where: { list_id: LIST_ID, series_id: SERIES_A, UserList: { user_id: USER_ID } },
+      data: { note: 'Start here' },
+    });
+  });
+
+  it('should fork a list into the library, skipping series already there', async () => {
+    (prisma.userList.findUnique as jest.Mock).mockResolvedValue({
+      ...visibleList(),
+      UserListItem: [{ series_id: SERIES_A }, { series_id: SERIES_B }, { series_id: SERIES_C }],
+    });
+    (prisma.libraryEntry.findMany as jest.Mock).mockResolvedValue([{ series_id: SERIES_B }]);
+    (addSeriesToLibrary as jest.Mock).mockImplementation(async (_userId: string, seriesId: string) => {
+      if (seriesId === SERIES_C) throw new Error('Series has no valid source URL. Cannot add to library.');
+      return { id: 'entry', series_id: seriesId };
+    });
+
+    const result = await forkList(LIST_ID, 'reading');
+
+    expect(result).toEqual({ data: { added: 1, already_in_library: 1, failed: 1 } });
+    expect(addSeriesToLibrary).toHaveBeenCalledWith(USER_ID, SERIES_A, 'reading');
+    expect(addSeriesToLibrary).not.toHaveBeenCalledWith(USER_ID, SERIES_B, expect.anything());
+    expect(prisma.activity.createMany).toHaveBeenCalledWith({
+      data: [{ user_id: USER_ID, type: 'series_added', series_id: SERIES_A, metadata: { status: 'reading', list_id: LIST_ID } }],
+    });
+  });
+
+  it('should refuse to fork a private list of another user', async () => {
+    (prisma.userList.findUnique as jest.Mock).mockResolvedValue({
+      ...visibleList({ is_public: false }),
+      UserListItem: [{ series_id: SERIES_A }],
+    });
+
+    expect(await forkList(LIST_ID)).toEqual({ error: 'List not found' });
+    expect(addSeriesToLibrary).not.toHaveBeenCalled();
+  });
+
+  it('should merge followed list additions into the activity feed by time', async () => {
+    (redisApi.get as jest.Mock).mockResolvedValue(null);
+    (prisma.user.findUnique as jest.Mock).mockResolvedValue({ feed_last_seen_at: new Date('2026-01-01T00:00:00Z') });
+    (prisma.$transaction as jest.Mock).mockImplementation(async (fn: (tx: unknown) => unknown) => fn({
+      $queryRawUnsafe: jest.fn()
+        .mockResolvedValueOnce(undefined)
+        .mockResolvedValueOnce([{
+          id: '550e8400-e29b-41d4-a716-4466554400e1',
+          series_id: SERIES_A,
+          series_title: 'Chapter Series',
+          series_thumbnail: null,
+          chapter_id: '550e8400-e29b-41d4-a716-4466554400c1',
+          chapter_number: '12',
+          chapter_title: null,
+          volume_number: null,
+          source_name: 'mangadex',
+          source_url: 'https://mangadex.org/chapter/1',
+          discovered_at: new Date('2026-01-03T00:00:00Z'),
+          is_read: false,
+        }]),
+    }));
+    (prisma.$queryRaw as jest.Mock).mockResolvedValue([{
+      id: '550e8400-e29b-41d4-a716-4466554400f1',
+      added_at: new Date('2026-01-04T00:00:00Z'),
+      note: 'A must',
+      series_id: SERIES_B,
+      series_title: 'List Series',
+      series_cover_url: null,
+      series_content_rating: 'safe',
+      series_status: 'ongoing',
+      series_type: 'manga',
+      list_id: LIST_ID,
+      list_name: 'Starter pack',
+      owner_username: 'curator',
+    }]);
+
+    const res = await getActivity(new NextRequest('http://localhost/api/feed/activity?filter=all'));
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(body.entries.map((e: { type: string }) => e.type)).toEqual(['list_addition', 'chapter']);
+    expect(body.entries[0]).toMatchObject({
+      series: { id: SERIES_B, title: 'List Series' },
+      list: { id: LIST_ID, name: 'Starter pack', owner_username: 'curator' },
+      note: 'A must',
+      is_unseen: true,
+    });
+  });
+
+  it('should leave list additions out of the unread feed', async () => {
+    (redisApi.get as jest.Mock).mockResolvedValue(null);
+    (prisma.user.findUnique as jest.Mock).mockResolvedValue({ feed_last_seen_at: null });
+    (prisma.$transaction as jest.Mock).mockImplementation(async (fn: (tx: unknown) => unknown) => fn({
+      $queryRawUnsafe: jest.fn().mockResolvedValueOnce(undefined).mockResolvedValueOnce([]),
+    }));
+
+    const res = await getActivity(new NextRequest('http://localhost/api/feed/activity?filter=unread'));
+
+    expect(res.status).toBe(200);
+    expect((await res.json()).entries).toEqual([]);
+    expect(prisma.$queryRaw).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,256 @@
+import { NextRequest } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { createClient } from '@/lib/supabase/server';
+import { notificationDeliveryQueue } from '@/lib/queues';
+import { redisWorkerClient } from '@/lib/redis';
+import { processNotification } from '@/workers/processors/notification.processor';
+import { GET as listRules, POST as createRule } from '@/app/api/users/me/notification-rules/route';
+import { PATCH as updateRule } from '@/app/api/users/me/notification-rules/[id]/route';
+import { POST as dryRun } from '@/app/api/users/me/notification-rules/dry-run/route';
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    libraryEntry: { findMany: jest.fn(), findFirst: jest.fn() },
+    chapterSource: { findMany: jest.fn() },
+    seriesSource: { findUnique: jest.fn() },
+    logicalChapter: { findMany: jest.fn() },
+    notificationRule: {
+      findMany: jest.fn(),
+      findFirst: jest.fn(),
+      count: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+    },
+  },
+}));
+
+jest.mock('@/lib/redis', () => ({
+  ...jest.requireActual('@/lib/redis'),
+  redisWorkerClient: { get: jest.fn(), set: jest.fn() },
+}));
+
+jest.mock('@/lib/queues', () => ({
+  notificationQueue: { add: jest.fn() },
+  notificationDeliveryQueue: { add: jest.fn() },
+  notificationDeliveryPremiumQueue: { add: jest.fn() },
+  isQueueHealthy: jest.fn().mockResolvedValue(true),
+}));
+
+jest.mock('@/lib/notifications-throttling', () => ({
+  shouldNotifyChapter: jest.fn().mockResolvedValue(true),
+}));
+
+jest.mock('@/lib/supabase/server', () => ({
+  createClient: jest.fn(),
+}));
+
+jest.mock('next/headers', () => ({
+  headers: jest.fn(async () => new Headers()),
+}));
+
+const SERIES_ID = '550e8400-e29b-41d4-a716-446655440000';
+const SOURCE_ID = '550e8400-e29b-41d4-a716-446655440099';
+const PLAIN_ID = '550e8400-e29b-41d4-a716-446655440001';
+const OFFICIAL_ID = '550e8400-e29b-41d4-a716-446655440002';
+const PATIENT_ID = '550e8400-e29b-41d4-a716-446655440003';
+const NIGHT_OWL_ID = '550e8400-e29b-41d4-a716-446655440004';
+const RULE_ID = '550e8400-e29b-41d4-a716-446655440010';
+
+const subscriber = (userId: string, lastRead: number | null) => ({
+  user_id: userId,
+  notification_mode: 'default',
+  preferred_source: null,
+  push_enabled: false,
+  status: 'reading',
+  last_read_chapter: lastRead,
+  users: { notification_digest: 'immediate', subscription_tier: 'free', notification_settings: {} },
+});
+
+const chapters = (count: number) => Array.from({ length: count }, (_, i) => ({
+  series_id: SERIES_ID,
+  chapter_number: String(i + 1),
+  volume_number: Math.floor(i / 10) + 1,
+}));
+
+describe('Notification rules', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (prisma.logicalChapter.findMany as jest.Mock).mockResolvedValue(chapters(42));
+    (prisma.seriesSource.findUnique as jest.Mock).mockResolvedValue({ source_url: 'https://mangadex.org/title/abc' });
+  });
+
+  describe('fan-out', () => {
+    const job = {
+      id: 'job-1',
+      data: {
+        seriesId: SERIES_ID,
+        sourceId: SOURCE_ID,
+        sourceName: 'mangadex',
+        chapterNumber: 42,
+        newChapterCount: 1,
+        // Continuation jobs skip the 15s coalescing window
+        cursor: '00000000-0000-4000-8000-000000000000',
+      },
+      moveToDelayed: jest.fn(),
+    };
+
+    beforeEach(() => {
+      jest.useFakeTimers({ now: new Date('2026-10-19T14:30:00Z'), doNotFake: ['nextTick', 'setImmediate'] });
+      (redisWorkerClient.get as jest.Mock).mockResolvedValue(null);
+      (prisma.chapterSource.findMany as jest.Mock).mockResolvedValue([]);
+      (prisma.libraryEntry.findMany as jest.Mock).mockResolvedValue([
+        subscriber(PLAIN_ID, 41),
+        subscriber(OFFICIAL_ID, 41),
+        subscriber(PATIENT_ID, 41),
+        subscriber(NIGHT_OWL_ID, 41),
+      ]);
+      (prisma.notificationRule.findMany as jest.Mock).mockResolvedValue([
+        { id: 'r1', user_id: OFFICIAL_ID, series_id: null, type: 'official_only', params: {} },
+        { id: 'r2', user_id: PATIENT_ID, series_id: SERIES_ID, type: 'min_unread', params: { count: 3 } },
+        // 23:30 in Tokyo at the faked time
+        { id: 'r3', user_id: NIGHT_OWL_ID, series_id: null, type: 'quiet_hours', params: { start: '23:00', end: '08:00', timezone: 'Asia/Tokyo' } },
+      ]);
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should apply skip and defer rules before queueing deliveries', async () => {
+      await processNotification(job as any);
+
+      const calls = (notificationDeliveryQueue.add as jest.Mock).mock.calls;
+      const immediate = calls.find(([name]) => name.startsWith('delivery-free-p0'));
+      const deferred = calls.find(([name]) => name.startsWith('delivery-deferred-free-p0'));
+
+      expect(immediate[1].userIds).toEqual([PLAIN_ID]);
+      expect(deferred[1].userIds).toEqual([NIGHT_OWL_ID]);
+      expect(deferred[2].delay).toBe(8.5 * 60 * 60 * 1000);
+    });
+
+    it('should not mark skipped users as notified so a later source can still fire', async () => {
+      await processNotification(job as any);
+
+      const marked = (redisWorkerClient.set as jest.Mock).mock.calls.map(([key]) => key);
+      expect(marked.some(key => key.includes(PLAIN_ID))).toBe(true);
+      expect(marked.some(key => key.includes(OFFICIAL_ID))).toBe(false);
+      expect(marked.some(key => key.includes(PATIENT_ID))).toBe(false);
+    });
+
+    it('should not load chapter context when no subscriber has rules', async () => {
+      (prisma.notificationRule.findMany as jest.Mock).mockResolvedValue([]);
+
+      await processNotification(job as any);
+
+      expect(prisma.logicalChapter.findMany).not.toHaveBeenCalled();
+      const [, payload] = (notificationDeliveryQueue.add as jest.Mock).mock.calls[0];
+      expect(payload.userIds).toHaveLength(4);
+    });
+  });
+
+  describe('API', () => {
+    const request = (path: string, method: string, body?: unknown) => new NextRequest(`http://localhost/api/users/me/notification-rules${path}`, {
+      method,
+      headers: { 'content-type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+
+    beforeEach(() => {
+      (createClient as jest.Mock).mockResolvedValue({
+        auth: { getUser: jest.fn().mockResolvedValue({ data: { user: { id: PLAIN_ID } } }) },
+      });
+      (prisma.notificationRule.count as jest.Mock).mockResolvedValue(0);
+      (prisma.notificationRule.create as jest.Mock).mockImplementation(async ({ data }) => ({ id: RULE_ID, ...data }));
+    });
+
+    it('should create a series rule for a library series', async () => {
+      (prisma.libraryEntry.findFirst as jest.Mock).mockResolvedValue({ id: 'entry-1' });
+
+      const res = await createRule(request('', 'POST', {
+        series_id: SERIES_ID,
+        type: 'quiet_hours',
+        params: { start: '23:00', end: '08:00', timezone: 'Europe/Berlin' },
+      }));
+
+      expect(res.status).toBe(201);
+      expect(prisma.notificationRule.create).toHaveBeenCalledWith(expect.objectContaining({
+        data: {
+          user_id: PLAIN_ID,
+          series_id: SERIES_ID,
+          type: 'quiet_hours',
+          params: { start: '23:00', end: '08:00', timezone: 'Europe/Berlin' },
+          enabled: true,
+        },
+      }));
+    });
+
+    it('should reject invalid params and series outside the library', async () => {
+      const invalid = await createRule(request('', 'POST', { type: 'min_unread', params: { count: -1 } }));
+      (prisma.libraryEntry.findFirst as jest.Mock).mockResolvedValue(null);
+      const notInLibrary = await createRule(request('', 'POST', { series_id: SERIES_ID, type: 'official_only' }));
+
+      expect(invalid.status).toBe(400);
+      expect(notInLibrary.status).toBe(404);
+      expect(prisma.notificationRule.create).not.toHaveBeenCalled();
+    });
+
+    it('should list only the caller\'s rules', async () => {
+      (prisma.notificationRule.findMany as jest.Mock).mockResolvedValue([]);
+
+      const res = await listRules(request('', 'GET'));
+
+      expect(res.status).toBe(200);
+      expect(prisma.notificationRule.findMany).toHaveBeenCalledWith(expect.objectContaining({ where: { user_id: PLAIN_ID } }));
+    });
+
+    it('should validate updated params against the rule type', async () => {
+      (prisma.notificationRule.findFirst as jest.Mock).mockResolvedValue({ type: 'min_unread', params: { count: 3 } });
+      (prisma.notificationRule.update as jest.Mock).mockResolvedValue({ id: RULE_ID });
+
+      const bad = await updateRule(request(`/${RULE_ID}`, 'PATCH', { params: { chapters: 5 } }), { params: Promise.resolve({ id: RULE_ID }) });
+      const good = await updateRule(request(`/${RULE_ID}`, 'PATCH', { params: { count: 5 } }), { params: Promise.resolve({ id: RULE_ID }) });
+
+      expect(bad.status).toBe(400);
+      expect(good.status).toBe(200);
+      expect(prisma.notificationRule.update).toHaveBeenCalledWith(expect.objectContaining({
+        where: { id: RULE_ID },
+        data: expect.objectContaining({ type: 'min_unread', params: { count: 5 } }),
+      }));
+    });
+
+    it('should dry-run proposed rules against recent chapters', async () => {
+      (prisma.libraryEntry.findMany as jest.Mock).mockResolvedValue([
+        { series_id: SERIES_ID, last_read_chapter: 39, Series: { title: 'Sky Garden' } },
+      ]);
+      const detected = (n: number, source: string, url: string) => ({
+        detected_at: new Date('2026-10-18T12:00:00Z'),
+        source_chapter_url: url,
+        LogicalChapter: { series_id: SERIES_ID, chapter_number: String(n), volume_number: 5 },
+        SeriesSource: { source_name: source, source_url: url },
+      });
+      (prisma.chapterSource.findMany as jest.Mock).mockResolvedValue([
+        detected(42, 'mangaplus', 'https://mangaplus.shueisha.co.jp/viewer/42'),
+        detected(41, 'mangadex', 'https://mangadex.org/chapter/41'),
+        detected(40, 'mangaplus', 'https://mangaplus.shueisha.co.jp/viewer/40'),
+      ]);
+
+      const res = await dryRun(request('/dry-run', 'POST', {
+        rules: [
+          { type: 'official_only' },
+          { series_id: SERIES_ID, type: 'min_unread', params: { count: 2 } },
+        ],
+      }));
+      const body = await res.json();
+
+      expect(res.status).toBe(200);
+      expect(body.chapters.map((c: any) => [c.chapter_number, c.decision])).toEqual([
+        [42, 'notify'],
+        [41, 'skip'],
+        [40, 'skip'],
+      ]);
+      expect(body.chapters[2].reason).toBe('Only 1 of 2 unread chapters so far');
+      expect(body.summary).toEqual({ notify: 1, defer: 0, skip: 2 });
+      expect(prisma.notificationRule.findMany).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,259 @@
+import crypto from 'crypto';
+import dns from 'node:dns/promises';
+import { NextRequest } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { createClient } from '@/lib/supabase/server';
+import { base64UrlEncode, generateVapidKeys } from '@/lib/push/web-push';
+import { isPushEnabled } from '@/lib/push/delivery';
+import { processNotificationDelivery } from '@/workers/processors/notification-delivery.processor';
+import { POST as subscribe } from '@/app/api/notifications/push/subscribe/route';
+import { POST as unsubscribe } from '@/app/api/notifications/push/unsubscribe/route';
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    series: { findUnique: jest.fn() },
+    notification: { findMany: jest.fn(), createMany: jest.fn(), deleteMany: jest.fn() },
+    pushSubscription: {
+      findMany: jest.fn(),
+      deleteMany: jest.fn(),
+      updateMany: jest.fn(),
+      upsert: jest.fn(),
+    },
+  },
+}));
+
+jest.mock('@/lib/queues', () => ({
+  getNotificationSystemHealth: jest.fn().mockResolvedValue({
+    isRejected: false,
+    isOverloaded: false,
+    isCritical: false,
+    totalWaiting: 0,
+  }),
+}));
+
+jest.mock('@/lib/notifications-throttling', () => ({
+  shouldThrottleUser: jest.fn().mockResolvedValue({ throttle: false, reason: null }),
+}));
+
+jest.mock('@/lib/supabase/server', () => ({
+  createClient: jest.fn(),
+}));
+
+jest.mock('next/headers', () => ({
+  headers: jest.fn(async () => new Headers()),
+}));
+
+jest.mock('node:dns/promises', () => ({
+  __esModule: true,
+  default: { lookup: jest.fn() },
+}));
+
+const SERIES_ID = '550e8400-e29b-41d4-a716-446655440000';
+const SOURCE_ID = '550e8400-e29b-41d4-a716-446655440099';
+const READER_ID = '550e8400-e29b-41d4-a716-446655440001';
+const OTHER_ID = '550e8400-e29b-41d4-a716-446655440002';
+
+// Local mock push service: one path per outcome
+const PUSH_SERVICE = 'http://localhost:4000/push';
+
+function browserKeys() {
+  const ecdh = crypto.createECDH('prime256v1');
+  ecdh.generateKeys();
+  const auth = crypto.randomBytes(16);
+  return { ecdh, auth, p256dh: base64UrlEncode(ecdh.getPublicKey()), authKey: base64UrlEncode(auth) };
+}
+
+function decrypt(body: Buffer, ecdh: crypto.ECDH, auth: Buffer) {
+  const hkdf = (salt: Buffer, ikm: Buffer, info: string | Buffer, length: number) =>
+    Buffer.from(crypto.hkdfSync('sha256', ikm, salt, typeof info === 'string' ? Buffer.from(info) : info, length));
+  const salt = body.subarray(0, 16);
+  const asPublic = body.subarray(21, 86);
+  const record = body.subarray(86);
+  const ikm = hkdf(auth, ecdh.computeSecret(asPublic), Buffer.concat([Buffer.from('WebPush: info\0'), ecdh.getPublicKey(), asPublic]), 32);
+  const decipher = crypto.createDecipheriv(
+    'aes-128-gcm',
+    hkdf(salt, ikm, 'Content-Encoding: aes128gcm\0', 16),
+    hkdf(salt, ikm, 'Content-Encoding: nonce\0', 12)
+  );
+  decipher.setAuthTag(record.subarray(record.length - 16));
+  const plaintext = Buffer.concat([decipher.update(record.subarray(0, record.length - 16)), decipher.final()]);
+  return JSON.parse(plaintext.subarray(0, plaintext.length - 1).toString('utf8'));
+}
+
+describe('Web Push notifications', () => {
+  const mockFetch = global.fetch as jest.Mock;
+  const reader = browserKeys();
+
+  const job = {
+    id: 'job-1',
+    data: {
+      seriesId: SERIES_ID,
+      sourceId: SOURCE_ID,
+      sourceName: 'mangadex',
+      chapterNumber: 42,
+      newChapterCount: 1,
+      userIds: [READER_ID, OTHER_ID],
+      pushUserIds: [READER_ID, OTHER_ID],
+      isPremium: false,
+      priority: 0,
+    },
+  };
+
+  beforeAll(() => {
+    // jsdom has no AbortSignal.timeout
+    if (!AbortSignal.timeout) {
+      AbortSignal.timeout = () => new AbortController().signal;
+    }
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    const keys = generateVapidKeys();
+    process.env.VAPID_PUBLIC_KEY = keys.publicKey;
+    process.env.VAPID_PRIVATE_KEY = keys.privateKey;
+
+    (prisma.series.findUnique as jest.Mock).mockResolvedValue({ title: 'Sky Garden', last_chapter_at: new Date() });
+    (prisma.notification.findMany as jest.Mock).mockResolvedValue([]);
+    (prisma.notification.createMany as jest.Mock).mockResolvedValue({ count: 2 });
+    (prisma.pushSubscription.findMany as jest.Mock).mockResolvedValue([
+      { id: 'sub-ok', user_id: READER_ID, endpoint: `${PUSH_SERVICE}/ok`, p256dh: reader.p256dh, auth: reader.authKey },
+      { id: 'sub-gone', user_id: READER_ID, endpoint: `${PUSH_SERVICE}/gone`, p256dh: reader.p256dh, auth: reader.authKey },
+      { id: 'sub-error', user_id: OTHER_ID, endpoint: `${PUSH_SERVICE}/error`, p256dh: reader.p256dh, auth: reader.authKey },
+    ]);
+    (prisma.pushSubscription.deleteMany as jest.Mock).mockResolvedValue({ count: 1 });
+    (prisma.pushSubscription.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+
+    mockFetch.mockReset().mockImplementation(async (url: string) => {
+      const status = url.endsWith('/ok') ? 201 : url.endsWith('/gone') ? 410 : 500;
+      return { ok: status < 300, status };
+    });
+  });
+
+  afterAll(() => {
+    delete process.env.VAPID_PUBLIC_KEY;
+    delete process.env.VAPID_PRIVATE_KEY;
+  });
+
+  it('should deliver encrypted chapter pushes that deep link to the series', async () => {
+    await processNotificationDelivery(job as any);
+
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+    const [url, init] = mockFetch.mock.calls.find(([u]) => u.endsWith('/ok'))!;
+    expect(url).toBe(`${PUSH_SERVICE}/ok`);
+    expect(init.method).toBe('POST');
+    expect(init.headers).toMatchObject({
+      'Content-Encoding': 'aes128gcm',
+      TTL: expect.any(String),
+      Authorization: expect.stringMatching(/^vapid t=.+, k=/),
+    });
+
+    expect(decrypt(init.body, reader.ecdh, reader.auth)).toEqual({
+      title: 'New chapter of Sky Garden!',
+      body: 'Chapter 42 is now available on mangadex.',
+      url: `/series/${SERIES_ID}`,
+      tag: `chapter-${SERIES_ID}`,
+      data: { seriesId: SERIES_ID, chapterNumber: 42 },
+    });
+    expect(prisma.pushSubscription.updateMany).toHaveBeenCalledWith({
+      where: { id: { in: ['sub-ok'] } },
+      data: { last_used_at: expect.any(Date) },
+    });
+  });
+
+  it('should prune subscriptions the push service reports gone', async () => {
+    await processNotificationDelivery(job as any);
+
+    expect(prisma.pushSubscription.deleteMany).toHaveBeenCalledTimes(1);
+    expect(prisma.pushSubscription.deleteMany).toHaveBeenCalledWith({ where: { id: { in: ['sub-gone'] } } });
+  });
+
+  it('should not fail the job when pushing fails', async () => {
+    mockFetch.mockReset().mockRejectedValue(new Error('ECONNREFUSED'));
+
+    await expect(processNotificationDelivery(job as any)).resolves.toBeUndefined();
+    expect(prisma.notification.createMany).toHaveBeenCalled();
+    expect(prisma.pushSubscription.deleteMany).not.toHaveBeenCalled();
+  });
+
+  it('should skip push when VAPID keys are not configured', async () => {
+    delete process.env.VAPID_PRIVATE_KEY;
+
+    await processNotificationDelivery(job as any);
+
+    expect(prisma.notification.createMany).toHaveBeenCalled();
+    expect(prisma.pushSubscription.findMany).not.toHaveBeenCalled();
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it('should read the push switch the settings page saves', () => {
+    expect(isPushEnabled({ push_enabled: true })).toBe(true);
+    expect(isPushEnabled({ push: true })).toBe(true);
+    expect(isPushEnabled({ push_enabled: false, push: true })).toBe(false);
+    expect(isPushEnabled(null)).toBe(false);
+  });
+
+  describe('subscription routes', () => {
+    const request = (path: string, body: unknown) => new NextRequest(`http://localhost/api/notifications/push/${path}`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+
+    beforeEach(() => {
+      (createClient as jest.Mock).mockResolvedValue({
+        auth: { getUser: jest.fn().mockResolvedValue({ data: { user: { id: READER_ID } } }) },
+      });
+      (prisma.pushSubscription.upsert as jest.Mock).mockResolvedValue({ id: 'sub-new' });
+      (prisma.pushSubscription.findMany as jest.Mock).mockResolvedValue([]);
+      (dns.lookup as jest.Mock).mockResolvedValue([{ address: '142.250.74.106', family: 4 }]);
+    });
+
+    it('should store a browser subscription for the current user', async () => {
+      const endpoint = 'https://fcm.googleapis.com/fcm/send/abc123';
+      const res = await subscribe(request('subscribe', {
+        endpoint,
+        expirationTime: null,
+        keys: { p256dh: reader.p256dh, auth: reader.authKey },
+      }));
+
+      expect(res.status).toBe(200);
+      expect(prisma.pushSubscription.upsert).toHaveBeenCalledWith(expect.objectContaining({
+        where: { endpoint },
+        create: expect.objectContaining({ endpoint, user_id: READER_ID, p256dh: reader.p256dh, auth: reader.authKey }),
+        update: expect.objectContaining({ user_id: READER_ID }),
+      }));
+    });
+
+    it('should reject internal endpoints and malformed keys', async () => {
+      const internal = await subscribe(request('subscribe', {
+        endpoint: 'https://169.254.169.254/latest',
+        keys: { p256dh: reader.p256dh, auth: reader.authKey },
+      }));
+      const badKey = await subscribe(request('subscribe', {
+        endpoint: 'https://fcm.googleapis.com/fcm/send/abc123',
+        keys: { p256dh: 'short', auth: reader.authKey },
+      }));
+
+      (dns.lookup as jest.Mock).mockResolvedValueOnce([{ address: '10.0.0.5', family: 4 }]);
+      const rebound = await subscribe(request('subscribe', {
+        endpoint: 'https://push.attacker.example/x',
+        keys: { p256dh: reader.p256dh, auth: reader.authKey },
+      }));
+
+      expect(internal.status).toBe(400);
+      expect(badKey.status).toBe(400);
+      expect(rebound.status).toBe(400);
+      expect(prisma.pushSubscription.upsert).not.toHaveBeenCalled();
+    });
+
+    it('should only remove the caller\'s own subscription', async () => {
+      (prisma.pushSubscription.deleteMany as jest.Mock).mockResolvedValue({ count: 1 });
+      const endpoint = 'https://fcm.googleapis.com/fcm/send/abc123';
+
+      const res = await unsubscribe(request('unsubscribe', { endpoint }));
+
+      expect(await res.json()).toEqual({ success: true, removed: 1 });
+      expect(prisma.pushSubscription.deleteMany).toHaveBeenCalledWith({ where: { user_id: READER_ID, endpoint } });
+    });
+  });
+});
@@ -0,0 +1,111 @@
+import { NextRequest } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { createClient } from '@/lib/supabase/server';
+import { recordSignal } from '@/lib/analytics/signals';
+import { recalculateSeriesRatings } from '@/lib/series-ratings';
+import { PATCH as updateEntry } from '@/app/api/library/[id]/route';
+
+const tx = {
+  $queryRaw: jest.fn(),
+  libraryEntry: { update: jest.fn() },
+  user: { findUnique: jest.fn(), update: jest.fn() },
+};
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: { $transaction: jest.fn() },
+  prismaRead: {},
+  withRetry: jest.fn((fn: () => unknown) => fn()),
+  DEFAULT_TX_OPTIONS: {},
+}));
+
+jest.mock('@/lib/redis', () => ({
+  redis: { get: jest.fn(), set: jest.fn(), del: jest.fn(), incr: jest.fn(), expire: jest.fn(), pttl: jest.fn() },
+  redisApi: { incr: jest.fn(), get: jest.fn(), set: jest.fn(), del: jest.fn() },
+  waitForRedis: jest.fn(),
+  REDIS_KEY_PREFIX: 'test:',
+}));
+
+jest.mock('@/lib/supabase/server', () => ({
+  createClient: jest.fn(),
+}));
+
+jest.mock('next/headers', () => ({
+  headers: jest.fn(async () => new Headers()),
+}));
+
+jest.mock('@/lib/anti-abuse', () => ({
+  antiAbuse: {
+    checkStatusRateLimit: jest.fn().mockResolvedValue({ allowed: true, hardBlock: false }),
+    detectStatusBotPatterns: jest.fn().mockResolvedValue({ isBot: false }),
+    canGrantXp: jest.fn().mockResolvedValue(true),
+  },
+}));
+
+jest.mock('@/lib/gamification/activity', () => ({ logActivity: jest.fn() }));
+jest.mock('@/lib/gamification/achievements', () => ({ checkAchievements: jest.fn().mockResolvedValue([]) }));
+jest.mock('@/lib/analytics/signals', () => ({ recordSignal: jest.fn().mockResolvedValue(undefined) }));
+jest.mock('@/lib/job-cleanup', () => ({ cancelJobsForLibraryEntry: jest.fn() }));
+jest.mock('@/lib/cache-utils', () => ({ invalidateLibraryCache: jest.fn() }));
+jest.mock('@/lib/series-ratings', () => ({ recalculateSeriesRatings: jest.fn().mockResolvedValue(undefined) }));
+
+const USER_ID = '550e8400-e29b-41d4-a716-446655440001';
+const ENTRY_ID = '550e8400-e29b-41d4-a716-446655440002';
+const SERIES_ID = '550e8400-e29b-41d4-a716-446655440003';
+
+const patch = (body: unknown) => updateEntry(
+  new NextRequest(`http://localhost/api/library/${ENTRY_ID}`, {
+    method: 'PATCH',
+    headers: { 'content-type': 'application/json', origin: 'http://localhost', host: 'localhost' },
+    body: JSON.stringify(body),
+  }),
+  { params: Promise.resolve({ id: ENTRY_ID }) }
+);
+
+describe('Library entry ratings on the user\'s scale', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    tx.$queryRaw.mockReset();
+    tx.$queryRaw
+      .mockResolvedValueOnce([{ id: USER_ID, deleted_at: null, banned_at: null }])
+      .mockResolvedValueOnce([{ id: ENTRY_ID, user_id: USER_ID, series_id: SERIES_ID, status: 'reading' }]);
+    (createClient as jest.Mock).mockResolvedValue({
+      auth: { getUser: jest.fn().mockResolvedValue({ data: { user: { id: USER_ID, email: 'reader@example.com' } } }) },
+    });
+    (prisma.$transaction as jest.Mock).mockImplementation(async (fn: (client: typeof tx) => unknown) => fn(tx));
+    tx.libraryEntry.update.mockImplementation(async ({ data }: { data: Record<string, unknown> }) => ({ id: ENTRY_ID, ...data }));
+  });
+
+  it('should store half stars as a canonical score and recalculate the series', async () => {
+    const res = await patch({ rating: 3.5, rating_scale: 'POINT_5' });
+
+    expect(res.status).toBe(200);
+    expect(tx.libraryEntry.update).toHaveBeenCalledWith({
+      where: { id: ENTRY_ID, user_id: USER_ID },
+      data: { user_rating: 70 },
+    });
+    expect(recordSignal).toHaveBeenCalledWith(expect.objectContaining({ signal_type: 'rating', metadata: { rating: 7 } }));
+    expect(recalculateSeriesRatings).toHaveBeenCalledWith([SERIES_ID]);
+  });
+
+  it('should keep reading plain ratings on the 1-10 scale', async () => {
+    const res = await patch({ rating: 8 });
+
+    expect(res.status).toBe(200);
+    expect(tx.libraryEntry.update).toHaveBeenCalledWith(expect.objectContaining({ data: { user_rating: 80 } }));
+  });
+
+  it('should reject ratings between the steps of the scale', async () => {
+    const res = await patch({ rating: 7.25, rating_scale: 'POINT_10_DECIMAL' });
+
+    expect(res.status).toBe(400);
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+    expect(recalculateSeriesRatings).not.toHaveBeenCalled();
+  });
+
+  it('should not recalculate the series when the rating is untouched', async () => {
+    const res = await patch({ notes: 'Re-read the Golden Age arc' });
+
+    expect(res.status).toBe(200);
+    expect(recalculateSeriesRatings).not.toHaveBeenCalled();
+  });
+});
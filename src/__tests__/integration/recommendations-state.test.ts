@@ -20,15 +20,23 @@ describe('Recommendation System - User State Transitions', () => {
 
   describe('getHybridWeights', () => {
     test('should return correct weights for COLD state', () => {
-      expect(getHybridWeights(UserState.COLD)).toEqual({ gw: 1.0, pw: 0.0 })
+      expect(getHybridWeights(UserState.COLD)).toEqual({ gw: 1.0, pw: 0.0, cw: 0.0 })
     })
 
     test('should return correct weights for WARM state', () => {
-      expect(getHybridWeights(UserState.WARM)).toEqual({ gw: 0.6, pw: 0.4 })
+      expect(getHybridWeights(UserState.WARM)).toEqual({ gw: 0.5, pw: 0.3, cw: 0.2 })
     })
 
     test('should return correct weights for ACTIVE state', () => {
-      expect(getHybridWeights(UserState.ACTIVE)).toEqual({ gw: 0.3, pw: 0.7 })
+      expect(getHybridWeights(UserState.ACTIVE)).toEqual({ gw: 0.25, pw: 0.4, cw: 0.35 })
+    })
+
+    test('should sum to 1 and trust collaborative filtering more as users read more', () => {
+      for (const state of [UserState.COLD, UserState.WARM, UserState.ACTIVE]) {
+        const { gw, pw, cw } = getHybridWeights(state)
+        expect(gw + pw + cw).toBeCloseTo(1)
+      }
+      expect(getHybridWeights(UserState.ACTIVE).cw).toBeGreaterThan(getHybridWeights(UserState.WARM).cw)
     })
   })
 })
@@ -0,0 +1,104 @@
+import { NextRequest } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { createClient } from '@/lib/supabase/server';
+import { GET as seriesStats } from '@/app/api/series/[id]/stats/route';
+import { GET as releaseCalendar } from '@/app/api/library/release-calendar/route';
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    $queryRaw: jest.fn(),
+    series: { findUnique: jest.fn() },
+    seriesStat: { findUnique: jest.fn() },
+    libraryEntry: { findMany: jest.fn() },
+  },
+  withRetry: jest.fn((fn: () => unknown) => fn()),
+}));
+
+jest.mock('@/lib/supabase/server', () => ({
+  createClient: jest.fn(),
+}));
+
+jest.mock('next/headers', () => ({
+  headers: jest.fn(async () => new Headers()),
+}));
+
+const USER_ID = '550e8400-e29b-41d4-a716-446655440001';
+const WEEKLY_ID = '550e8400-e29b-41d4-a716-446655440000';
+const STALLED_ID = '550e8400-e29b-41d4-a716-446655440002';
+const DAY = 24 * 60 * 60 * 1000;
+
+const releases = (seriesId: string, lastDaysAgo: number, interval: number) =>
+  [0, 1, 2, 3, 4, 5].map(i => ({ series_id: seriesId, released_at: new Date(Date.now() - (lastDaysAgo + i * interval) * DAY) }));
+
+const STATS_ROW = {
+  total_readers: 0, readers_reading: 0, readers_completed: 0, readers_planning: 0, readers_dropped: 0, readers_on_hold: 0,
+  total_ratings: 0, rating_1: 0, rating_2: 0, rating_3: 0, rating_4: 0, rating_5: 0, rating_6: 0, rating_7: 0, rating_8: 0, rating_9: 0, rating_10: 0,
+  popularity_rank: null, weekly_readers: 0, monthly_readers: 0, trending_rank: null, updated_at: new Date(),
+};
+
+describe('Release schedule', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (prisma.seriesStat.findUnique as jest.Mock).mockResolvedValue(STATS_ROW);
+  });
+
+  it('should expose the predicted next release on series stats', async () => {
+    (prisma.series.findUnique as jest.Mock).mockResolvedValue({ id: WEEKLY_ID, status: 'ongoing' });
+    (prisma.$queryRaw as jest.Mock).mockResolvedValue(releases(WEEKLY_ID, 2, 7));
+
+    const res = await seriesStats(new NextRequest(`http://localhost/api/series/${WEEKLY_ID}/stats`), { params: Promise.resolve({ id: WEEKLY_ID }) });
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(body.release_schedule).toMatchObject({ cadence: 'weekly', interval_days: 7, status: 'on_schedule', confidence: 0.83 });
+    expect(new Date(body.release_schedule.predicted_next_at).getTime()).toBeGreaterThan(Date.now());
+  });
+
+  it('should skip prediction for finished series', async () => {
+    (prisma.series.findUnique as jest.Mock).mockResolvedValue({ id: WEEKLY_ID, status: 'completed' });
+
+    const res = await seriesStats(new NextRequest(`http://localhost/api/series/${WEEKLY_ID}/stats`), { params: Promise.resolve({ id: WEEKLY_ID }) });
+    const body = await res.json();
+
+    expect(body.release_schedule).toBeNull();
+    expect(prisma.$queryRaw).not.toHaveBeenCalled();
+  });
+
+  describe('library calendar', () => {
+    beforeEach(() => {
+      (createClient as jest.Mock).mockResolvedValue({
+        auth: { getUser: jest.fn().mockResolvedValue({ data: { user: { id: USER_ID } } }) },
+      });
+    });
+
+    it('should split upcoming releases from series on hiatus', async () => {
+      (prisma.libraryEntry.findMany as jest.Mock).mockResolvedValue([
+        { series_id: WEEKLY_ID, Series: { title: 'Sky Garden', cover_url: null, content_rating: 'safe', status: 'ongoing' } },
+        { series_id: STALLED_ID, Series: { title: 'Quiet Harbor', cover_url: null, content_rating: 'safe', status: 'ongoing' } },
+      ]);
+      (prisma.$queryRaw as jest.Mock).mockResolvedValue([...releases(WEEKLY_ID, 2, 7), ...releases(STALLED_ID, 60, 7)]);
+
+      const res = await releaseCalendar(new NextRequest('http://localhost/api/library/release-calendar?days=14'));
+      const body = await res.json();
+
+      expect(res.status).toBe(200);
+      expect(body.days).toBe(14);
+      expect(body.upcoming.map((e: { series_id: string }) => e.series_id)).toEqual([WEEKLY_ID]);
+      expect(body.hiatus).toEqual([expect.objectContaining({ series_id: STALLED_ID, status: 'hiatus', predicted_next_at: null })]);
+      expect(prisma.libraryEntry.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: expect.objectContaining({ user_id: USER_ID, status: { notIn: ['completed', 'dropped'] } }),
+      }));
+    });
+
+    it('should require authentication', async () => {
+      (createClient as jest.Mock).mockResolvedValue({
+        auth: { getUser: jest.fn().mockResolvedValue({ data: { user: null } }) },
+      });
+
+      const res = await releaseCalendar(new NextRequest('http://localhost/api/library/release-calendar'));
+
+      expect(res.status).toBe(401);
+      expect(prisma.libraryEntry.findMany).not.toHaveBeenCalled();
+    });
+  });
+});
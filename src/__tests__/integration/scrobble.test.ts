@@ -0,0 +1,189 @@
+import { NextRequest } from 'next/server';
+import { headers } from 'next/headers';
+import { prisma } from '@/lib/prisma';
+import { antiAbuse } from '@/lib/anti-abuse';
+import { validateReadTime } from '@/lib/gamification/read-time-validation';
+import { POST as scrobble } from '@/app/api/scrobble/route';
+
+jest.mock('@/lib/prisma', () => {
+  const client = {
+    $queryRaw: jest.fn(),
+    $executeRaw: jest.fn(),
+    $transaction: jest.fn(),
+    series: { findUnique: jest.fn(), update: jest.fn() },
+    seriesSource: { findFirst: jest.fn() },
+    libraryEntry: { findFirst: jest.fn(), findUnique: jest.fn(), upsert: jest.fn(), update: jest.fn() },
+    logicalChapter: { findFirst: jest.fn() },
+    userChapterReadV2: { findUnique: jest.fn() },
+    user: { findUnique: jest.fn(), update: jest.fn() },
+    personalAccessToken: { findUnique: jest.fn(), update: jest.fn() },
+  };
+  client.$transaction.mockImplementation((fn: (tx: typeof client) => unknown) => fn(client));
+  return { prisma: client, DEFAULT_TX_OPTIONS: {} };
+});
+
+jest.mock('next/headers', () => ({
+  headers: jest.fn(async () => new Headers()),
+}));
+
+jest.mock('@/lib/anti-abuse', () => ({
+  antiAbuse: {
+    detectProgressBotPatterns: jest.fn(async () => ({ isBot: false })),
+    canGrantXp: jest.fn(async () => true),
+  },
+}));
+
+jest.mock('@/lib/gamification/read-time-validation', () => ({
+  validateReadTime: jest.fn(),
+  validateReadTimeFromTimestamp: jest.fn(async () => ({ isSuspicious: false, expectedMinSeconds: 54, actualSeconds: 300, trustScoreAffected: false })),
+  checkAndRecordPatternRepetition: jest.fn(async () => ({ detected: false, trustScoreAffected: false })),
+}));
+
+jest.mock('@/lib/gamification/read-telemetry', () => ({ recordReadTelemetryAsync: jest.fn() }));
+jest.mock('@/lib/gamification/achievements', () => ({ checkAchievements: jest.fn(async () => []) }));
+jest.mock('@/lib/gamification/activity', () => ({ logActivity: jest.fn() }));
+jest.mock('@/lib/catalog-tiers', () => ({ promoteSeriesTier: jest.fn() }));
+jest.mock('@/lib/cache-utils', () => ({ invalidateLibraryCache: jest.fn() }));
+jest.mock('@/lib/analytics/record', () => ({ recordActivity: jest.fn() }));
+jest.mock('@/lib/queues', () => ({ notificationQueue: { add: jest.fn() } }));
+
+const USER_ID = '550e8400-e29b-41d4-a716-446655440001';
+const SERIES_ID = '550e8400-e29b-41d4-a716-446655440000';
+const ENTRY_ID = '550e8400-e29b-41d4-a716-446655440002';
+const CHAPTER_ID = '550e8400-e29b-41d4-a716-446655440003';
+const MANGADEX_ID = 'a1c7c817-4e59-43b7-9365-09675a149a6f';
+const TOKEN = `mtp_${'b'.repeat(43)}`;
+
+const scrobbleRequest = (body: unknown) =>
+  new NextRequest('http://localhost/api/scrobble', {
+    method: 'POST',
+    headers: { 'content-type': 'application/json', authorization: `Bearer ${TOKEN}` },
+    body: JSON.stringify(body),
+  });
+
+describe('POST /api/scrobble', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (headers as jest.Mock).mockImplementation(async () => new Headers({ authorization: `Bearer ${TOKEN}` }));
+    (prisma.personalAccessToken.findUnique as jest.Mock).mockResolvedValue({
+      id: 'token-1',
+      user_id: USER_ID,
+      scopes: ['write:progress'],
+      last_used_at: new Date(),
+      expires_at: null,
+      users: { email: 'reader@example.com', username: 'reader', avatar_url: null, created_at: new Date() },
+    });
+    (prisma.series.findUnique as jest.Mock).mockResolvedValue({
+      id: SERIES_ID,
+      SeriesSource: [{ source_url: `https://mangadex.org/title/${MANGADEX_ID}`, source_name: 'mangadex' }],
+    });
+    (prisma.libraryEntry.findFirst as jest.Mock).mockResolvedValue({ id: ENTRY_ID, deleted_at: null });
+    (prisma.$queryRaw as jest.Mock).mockImplementation(async (strings: TemplateStringsArray) =>
+      strings.join('').includes('FROM library_entries')
+        ? [{ id: ENTRY_ID, user_id: USER_ID, series_id: SERIES_ID, last_read_chapter: '11', last_read_at: new Date(Date.now() - 60 * 60 * 1000), deleted_at: null, reread_count: 0 }]
+        : [{ id: CHAPTER_ID }]
+    );
+    (prisma.user.findUnique as jest.Mock).mockResolvedValue({
+      xp: 10, level: 1, streak_days: 1, last_read_at: new Date(), longest_streak: 1, chapters_read: 11, current_season: null, season_xp: 0, deleted_at: null,
+    });
+    (prisma.logicalChapter.findFirst as jest.Mock).mockResolvedValue({ id: CHAPTER_ID, page_count: 18 });
+    (prisma.userChapterReadV2.findUnique as jest.Mock).mockResolvedValue(null);
+  });
+
+  it('should record progress with the device id and award XP once', async () => {
+    const res = await scrobble(scrobbleRequest({ mangadex_id: MANGADEX_ID, chapter_number: 12, device_id: 'mihon-pixel' }));
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(body).toMatchObject({ library_entry_id: ENTRY_ID, progress_updated: true, last_read_chapter: 12, added_to_library: false });
+    expect(body.xp_gained).toBeGreaterThan(0);
+    expect(prisma.series.findUnique).toHaveBeenCalledWith(expect.objectContaining({ where: { mangadex_id: MANGADEX_ID } }));
+    expect(prisma.libraryEntry.update).toHaveBeenCalledWith(expect.objectContaining({
+      data: expect.objectContaining({ last_read_chapter: 12 }),
+    }));
+    const [insert, legacyInsert] = (prisma.$executeRaw as jest.Mock).mock.calls;
+    expect(insert[0].join('')).toContain('user_chapter_reads_v2');
+    expect(insert).toContain('mihon-pixel');
+    expect(legacyInsert[0].join('')).toContain('INSERT INTO "user_chapter_reads" ');
+  });
+
+  it('should resolve chapter-source URLs through SeriesSource', async () => {
+    (prisma.seriesSource.findFirst as jest.Mock).mockResolvedValue({
+      series_id: SERIES_ID, source_url: 'https://mangapark.net/title/sky-garden', source_name: 'mangapark',
+    });
+
+    const res = await scrobble(scrobbleRequest({ source_url: 'https://mangapark.net/title/sky-garden', chapter_number: 12 }));
+
+    expect(res.status).toBe(200);
+    expect(prisma.series.findUnique).not.toHaveBeenCalled();
+    expect(prisma.seriesSource.findFirst).toHaveBeenCalledWith(expect.objectContaining({
+      where: expect.objectContaining({
+        OR: [{ source_url: 'https://mangapark.net/title/sky-garden' }, { source_name: 'mangapark', source_id: 'sky-garden' }],
+      }),
+    }));
+  });
+
+  it('should withhold XP when the read time is suspicious', async () => {
+    (validateReadTime as jest.Mock).mockResolvedValue({ isSuspicious: true, reason: 'speed_read', expectedMinSeconds: 54, actualSeconds: 5, trustScoreAffected: true });
+
+    const res = await scrobble(scrobbleRequest({ mangadex_id: MANGADEX_ID, chapter_number: 12, reading_time_seconds: 5 }));
+    const body = await res.json();
+
+    expect(body).toMatchObject({ progress_updated: true, xp_gained: 0, read_time_flagged: true });
+    expect(prisma.user.update).toHaveBeenCalledWith(expect.objectContaining({
+      data: expect.objectContaining({ chapters_read: { increment: 0 } }),
+    }));
+  });
+
+  it('should not award XP for late scrobbles that cannot be timed', async () => {
+    const readAt = new Date(Date.now() - 3 * 60 * 60 * 1000).toISOString();
+
+    const res = await scrobble(scrobbleRequest({ mangadex_id: MANGADEX_ID, chapter_number: 12, read_at: readAt }));
+    const body = await res.json();
+
+    expect(body).toMatchObject({ progress_updated: true, xp_gained: 0 });
+    expect(antiAbuse.canGrantXp).toHaveBeenCalled();
+  });
+
+  it('should reject series outside the library unless auto-add is on', async () => {
+    (prisma.libraryEntry.findFirst as jest.Mock).mockResolvedValue(null);
+    (prisma.user.findUnique as jest.Mock).mockResolvedValueOnce({ scrobble_auto_add: false });
+
+    const rejected = await scrobble(scrobbleRequest({ mangadex_id: MANGADEX_ID, chapter_number: 1 }));
+    expect(rejected.status).toBe(404);
+    expect(prisma.libraryEntry.upsert).not.toHaveBeenCalled();
+
+    (prisma.user.findUnique as jest.Mock).mockResolvedValueOnce({ scrobble_auto_add: true });
+    (prisma.libraryEntry.findUnique as jest.Mock).mockResolvedValue(null);
+    (prisma.libraryEntry.upsert as jest.Mock).mockResolvedValue({ id: ENTRY_ID });
+
+    const added = await scrobble(scrobbleRequest({ mangadex_id: MANGADEX_ID, chapter_number: 1 }));
+    expect(added.status).toBe(201);
+    expect((await added.json()).added_to_library).toBe(true);
+    expect(prisma.libraryEntry.upsert).toHaveBeenCalledWith(expect.objectContaining({
+      create: expect.objectContaining({ user_id: USER_ID, series_id: SERIES_ID, source_name: 'mangadex', status: 'reading' }),
+    }));
+    expect(prisma.series.update).toHaveBeenCalledWith(expect.objectContaining({ data: { total_follows: { increment: 1 } } }));
+  });
+
+  it('should require the write:progress scope and a series identifier', async () => {
+    const missingId = await scrobble(scrobbleRequest({ chapter_number: 3 }));
+    expect(missingId.status).toBe(400);
+
+    (prisma.personalAccessToken.findUnique as jest.Mock).mockResolvedValue({
+      id: 'token-1', user_id: USER_ID, scopes: ['read:library'], last_used_at: new Date(), expires_at: null,
+      users: { email: 'reader@example.com', username: 'reader', avatar_url: null, created_at: new Date() },
+    });
+    const wrongScope = await scrobble(scrobbleRequest({ mangadex_id: MANGADEX_ID, chapter_number: 3 }));
+    expect(wrongScope.status).toBe(403);
+  });
+
+  it('should return 404 for unknown series', async () => {
+    (prisma.series.findUnique as jest.Mock).mockResolvedValue(null);
+
+    const res = await scrobble(scrobbleRequest({ mangaupdates_id: 12345, chapter_number: 3 }));
+
+    expect(res.status).toBe(404);
+    expect(prisma.series.findUnique).toHaveBeenCalledWith(expect.objectContaining({ where: { mangaupdates_series_id: BigInt(12345) } }));
+  });
+});
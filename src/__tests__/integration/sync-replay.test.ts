@@ -1,4 +1,5 @@
 import { POST } from '@/app/api/sync/replay/route';
+import { getLibraryChangesSince, getSyncHorizonStatus, SYNC_HORIZON_WARNING_SECONDS } from '@/lib/sync/library-versions';
 import { prisma } from '@/lib/prisma';
 import { createClient } from '@/lib/supabase/server';
 import { NextRequest } from 'next/server';
@@ -7,12 +8,14 @@ jest.mock('@/lib/prisma', () => ({
   prisma: {
     libraryEntry: {
       findUnique: jest.fn(),
+      update: jest.fn(),
       updateMany: jest.fn(),
     },
     logicalChapter: {
       findUnique: jest.fn(),
     },
     $executeRaw: jest.fn(),
+    $queryRaw: jest.fn(),
     $transaction: jest.fn((callback) => callback(prisma)),
   },
 }));
@@ -21,6 +24,34 @@ jest.mock('@/lib/supabase/server', () => ({
   createClient: jest.fn(),
 }));
 
+jest.mock('next/headers', () => ({
+  headers: jest.fn(async () => new Headers()),
+}));
+
+jest.mock('@/lib/cache-utils', () => ({
+  invalidateLibraryCache: jest.fn(),
+}));
+
+const ENTRY_ID = '550e8400-e29b-41d4-a716-446655440000';
+
+function entryRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: ENTRY_ID,
+    series_id: 'series-1',
+    status: 'reading',
+    user_rating: 7,
+    last_read_chapter: '12',
+    notification_mode: 'default',
+    deleted_at: null,
+    status_version: 3,
+    rating_version: 1,
+    progress_version: 5,
+    notification_mode_version: 0,
+    sync_seq: BigInt(42),
+    ...overrides,
+  };
+}
+
 describe('Sync Replay API', () => {
   const mockUser = { id: 'user-123' };
   const mockDeviceId = 'device-abc';
@@ -42,68 +73,121 @@ describe('Sync Replay API', () => {
     });
   };
 
-  it('should process CHAPTER_READ with LWW logic', async () => {
+  it('should process CHAPTER_READ with LWW read state and forward-only progress', async () => {
     (prisma.libraryEntry.findUnique as jest.Mock).mockResolvedValue({ series_id: 'series-1' });
     (prisma.logicalChapter.findUnique as jest.Mock).mockResolvedValue({ id: 'chapter-1' });
     (prisma.$executeRaw as jest.Mock).mockResolvedValue(1);
+    (prisma.libraryEntry.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+    (prisma.$queryRaw as jest.Mock).mockResolvedValue([entryRow({ last_read_chapter: '13', progress_version: 6, sync_seq: BigInt(43) })]);
 
     const actions = [
       {
         id: 'action-1',
         type: 'CHAPTER_READ',
-        payload: { entryId: 'entry-1', chapterNumber: "1", sourceId: 'source-1', isRead: true },
+        payload: { entryId: ENTRY_ID, chapterNumber: 13, sourceId: 'source-1', isRead: true },
         timestamp: Date.now(),
         deviceId: mockDeviceId,
       },
     ];
 
-    const req = createReq({ actions });
-    const res = await POST(req);
+    const res = await POST(createReq({ actions }));
     const data = await res.json();
 
     expect(res.status).toBe(200);
-    expect(data.results[0].status).toBe('success');
-    expect(prisma.$executeRaw).toHaveBeenCalled();
-    // Verify SQL contains LWW check
-    const calls = (prisma.$executeRaw as jest.Mock).mock.calls[0];
-    const sqlParts = calls[0];
+    expect(data.results[0]).toMatchObject({
+      status: 'accepted',
+      fields: { progress: 'accepted' },
+      entry: { id: ENTRY_ID, progress: 13, versions: { progress: 6 }, sync_seq: '43' },
+    });
+    const sqlParts = (prisma.$executeRaw as jest.Mock).mock.calls[0][0];
     const sql = Array.isArray(sqlParts) ? sqlParts.join('') : sqlParts;
     expect(sql).toContain('EXCLUDED."updated_at" > "user_chapter_reads_v2"."updated_at"');
+    expect(prisma.libraryEntry.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: expect.objectContaining({ id: ENTRY_ID, user_id: 'user-123' }),
+    }));
   });
 
-  it('should process LIBRARY_UPDATE with LWW logic', async () => {
-    (prisma.libraryEntry.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+  it('should accept LIBRARY_UPDATE fields whose base version is current', async () => {
+    (prisma.$queryRaw as jest.Mock)
+      .mockResolvedValueOnce([entryRow()])
+      .mockResolvedValueOnce([entryRow({ status: 'completed', status_version: 4, sync_seq: BigInt(44) })]);
 
-    const timestamp = Date.now();
     const actions = [
       {
         id: 'action-2',
         type: 'LIBRARY_UPDATE',
-        payload: { entryId: 'entry-1', status: 'completed', rating: 5 },
-        timestamp,
+        payload: { entryId: ENTRY_ID, status: 'completed', baseVersions: { status: 3 } },
+        timestamp: Date.now(),
         deviceId: mockDeviceId,
       },
     ];
 
-    const req = createReq({ actions });
-    const res = await POST(req);
+    const res = await POST(createReq({ actions }));
     const data = await res.json();
 
     expect(res.status).toBe(200);
-    expect(data.results[0].applied).toBe(true);
-    expect(prisma.libraryEntry.updateMany).toHaveBeenCalledWith(expect.objectContaining({
-      where: expect.objectContaining({
-        updated_at: { lt: new Date(timestamp) }
-      })
+    expect(data.results[0]).toMatchObject({ status: 'accepted', fields: { status: 'accepted' } });
+    expect(data.results[0].entry).toMatchObject({ status: 'completed', versions: { status: 4 } });
+    expect(prisma.libraryEntry.update).toHaveBeenCalledWith(expect.objectContaining({
+      where: { id: ENTRY_ID },
+      data: expect.objectContaining({ status: 'completed' }),
     }));
   });
 
+  it('should merge a LIBRARY_UPDATE that is partly stale', async () => {
+    (prisma.$queryRaw as jest.Mock)
+      .mockResolvedValueOnce([entryRow()])
+      .mockResolvedValueOnce([entryRow({ user_rating: 9, rating_version: 2 })]);
+
+    const actions = [
+      {
+        id: 'action-3',
+        type: 'LIBRARY_UPDATE',
+        // Another device changed the status since this one last synced (version 2 -> 3)
+        payload: { entryId: ENTRY_ID, status: 'dropped', rating: 9, baseVersions: { status: 2, rating: 1 } },
+        timestamp: Date.now(),
+        deviceId: mockDeviceId,
+      },
+    ];
+
+    const res = await POST(createReq({ actions }));
+    const data = await res.json();
+
+    expect(data.results[0]).toMatchObject({
+      status: 'merged',
+      fields: { status: 'rejected', rating: 'accepted' },
+      entry: { status: 'reading', rating: 9 },
+    });
+    const { data: written } = (prisma.libraryEntry.update as jest.Mock).mock.calls[0][0];
+    expect(written).toMatchObject({ user_rating: 9 });
+    expect(written.status).toBeUndefined();
+  });
+
+  it('should reject invalid LIBRARY_UPDATE payloads per action', async () => {
+    const actions = [
+      {
+        id: 'action-4',
+        type: 'LIBRARY_UPDATE',
+        payload: { entryId: ENTRY_ID, status: 'binging' },
+        timestamp: Date.now(),
+        deviceId: mockDeviceId,
+      },
+    ];
+
+    const res = await POST(createReq({ actions }));
+    const data = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(data.results[0].status).toBe('error');
+    expect(prisma.libraryEntry.update).not.toHaveBeenCalled();
+  });
+
   it('should handle missing library entries gracefully', async () => {
     (prisma.libraryEntry.findUnique as jest.Mock).mockResolvedValue(null);
 
     const actions = [
       {
-        id: 'action-3',
+        id: 'action-5',
         type: 'CHAPTER_READ',
         payload: { entryId: 'invalid-entry', chapterNumber: "1" },
         timestamp: Date.now(),
@@ -111,8 +195,7 @@ describe('Sync Replay API', () => {
       },
     ];
 
-    const req = createReq({ actions });
-    const res = await POST(req);
+    const res = await POST(createReq({ actions }));
     const data = await res.json();
 
     expect(data.results[0].status).toBe('error');
@@ -122,30 +205,99 @@ describe('Sync Replay API', () => {
   it('should handle batch processing in a transaction', async () => {
     (prisma.libraryEntry.findUnique as jest.Mock).mockResolvedValue({ series_id: 'series-1' });
     (prisma.logicalChapter.findUnique as jest.Mock).mockResolvedValue({ id: 'chapter-1' });
-    (prisma.libraryEntry.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+    (prisma.$executeRaw as jest.Mock).mockResolvedValue(0);
+    (prisma.libraryEntry.updateMany as jest.Mock).mockResolvedValue({ count: 0 });
+    (prisma.$queryRaw as jest.Mock).mockResolvedValue([entryRow()]);
 
     const actions = [
       {
         id: 'a1',
         type: 'CHAPTER_READ',
-        payload: { entryId: 'e1', chapterNumber: "1" },
+        payload: { entryId: ENTRY_ID, chapterNumber: "1" },
         timestamp: Date.now(),
         deviceId: 'd1',
       },
       {
         id: 'a2',
         type: 'LIBRARY_UPDATE',
-        payload: { entryId: 'e1', status: 'reading' },
+        payload: { entryId: ENTRY_ID, status: 'reading' },
         timestamp: Date.now(),
         deviceId: 'd1',
       }
     ];
 
-    const req = createReq({ actions });
-    await POST(req);
+    const res = await POST(createReq({ actions }));
+    const data = await res.json();
 
     expect(prisma.$transaction).toHaveBeenCalled();
     expect(prisma.$executeRaw).toHaveBeenCalled();
-    expect(prisma.libraryEntry.updateMany).toHaveBeenCalled();
+    // Stale read of an earlier chapter; status already matches the server
+    expect(data.results.map((r: { status: string }) => r.status)).toEqual(['rejected', 'accepted']);
+    expect(prisma.libraryEntry.update).not.toHaveBeenCalled();
+  });
+
+  describe('changes since a cursor', () => {
+    it('should only read committed transactions and use the transaction id as the cursor', async () => {
+      (prisma.$queryRaw as jest.Mock).mockResolvedValueOnce([entryRow({ sync_seq: BigInt(44), sync_xid: '9001' })]);
+
+      const page = await getLibraryChangesSince('user-123', BigInt(9000));
+
+      const sql = ((prisma.$queryRaw as jest.Mock).mock.calls[0][0] as TemplateStringsArray).join('?');
+      expect(sql).toContain('sync_xid < pg_snapshot_xmin(pg_current_snapshot())');
+      expect(page).toEqual({ changes: [expect.objectContaining({ id: ENTRY_ID, sync_seq: '44' })], cursor: '9001', has_more: false });
+    });
+
+    it('should not end a page part-way through a transaction', async () => {
+      (prisma.$queryRaw as jest.Mock)
+        .mockResolvedValueOnce([
+          entryRow({ id: 'a', sync_seq: BigInt(1), sync_xid: '10' }),
+          entryRow({ id: 'b', sync_seq: BigInt(2), sync_xid: '11' }),
+          entryRow({ id: 'c', sync_seq: BigInt(3), sync_xid: '11' }),
+        ])
+        .mockResolvedValueOnce([entryRow({ id: 'c', sync_seq: BigInt(3), sync_xid: '11' })]);
+
+      const page = await getLibraryChangesSince('user-123', BigInt(0), 2);
+
+      expect(page.changes.map(change => change.id)).toEqual(['a', 'b', 'c']);
+      expect(page.cursor).toBe('11');
+      expect(page.has_more).toBe(true);
+    });
+
+    it('should hand back the same cursor while an old write transaction holds the horizon', async () => {
+      // Rows written after the open transaction started are below no horizon yet
+      (prisma.$queryRaw as jest.Mock).mockResolvedValueOnce([]);
+
+      const page = await getLibraryChangesSince('user-123', BigInt(9000));
+
+      expect(page).toEqual({ changes: [], cursor: '9000', has_more: false });
+    });
+
+    it('should report a write transaction held open past the warning threshold', async () => {
+      (prisma.$queryRaw as jest.Mock).mockResolvedValueOnce([
+        { pid: 4242, state: 'idle in transaction', age_seconds: SYNC_HORIZON_WARNING_SECONDS + 60.4 },
+      ]);
+
+      const horizon = await getSyncHorizonStatus();
+
+      const sql = ((prisma.$queryRaw as jest.Mock).mock.calls[0][0] as TemplateStringsArray).join('?');
+      expect(sql).toContain('backend_xid IS NOT NULL');
+      expect(horizon).toEqual({
+        status: 'warning',
+        oldestTransactionAgeSeconds: SYNC_HORIZON_WARNING_SECONDS + 60,
+        oldestTransactionPid: 4242,
+        oldestTransactionState: 'idle in transaction',
+      });
+    });
+
+    it('should report a healthy horizon when no write transaction is open', async () => {
+      (prisma.$queryRaw as jest.Mock).mockResolvedValueOnce([]);
+
+      expect(await getSyncHorizonStatus()).toEqual({
+        status: 'healthy',
+        oldestTransactionAgeSeconds: 0,
+        oldestTransactionPid: null,
+        oldestTransactionState: null,
+      });
+    });
   });
 });
@@ -139,13 +139,13 @@ describe('System Flow Integration Tests', () => {
 
   describe('Sync Outbox Deduplication', () => {
     test('Should deduplicate LIBRARY_ADD actions in the sync outbox', async () => {
-      SyncOutbox.clear();
+      await SyncOutbox.clear();
       
-      SyncOutbox.enqueue('LIBRARY_ADD', { seriesId: 'test-1', status: 'reading' });
-      SyncOutbox.enqueue('LIBRARY_ADD', { seriesId: 'test-1', status: 'completed' });
-      SyncOutbox.enqueue('LIBRARY_ADD', { seriesId: 'test-2', status: 'reading' });
+      await SyncOutbox.enqueue('LIBRARY_ADD', { seriesId: 'test-1', status: 'reading' });
+      await SyncOutbox.enqueue('LIBRARY_ADD', { seriesId: 'test-1', status: 'completed' });
+      await SyncOutbox.enqueue('LIBRARY_ADD', { seriesId: 'test-2', status: 'reading' });
 
-      const actions = SyncOutbox.getActions();
+      const actions = await SyncOutbox.getActions();
       
       // Should have 2 actions: test-1 (latest state) and test-2
       expect(actions).toHaveLength(2);
@@ -154,13 +154,13 @@ describe('System Flow Integration Tests', () => {
     });
 
     test('Should deduplicate CHAPTER_READ actions in the sync outbox', async () => {
-      SyncOutbox.clear();
+      await SyncOutbox.clear();
       
-      SyncOutbox.enqueue('CHAPTER_READ', { seriesId: 'test-1', chapter: 1 });
-      SyncOutbox.enqueue('CHAPTER_READ', { seriesId: 'test-1', chapter: 2 });
-      SyncOutbox.enqueue('CHAPTER_READ', { seriesId: 'test-1', chapter: 1.5 });
+      await SyncOutbox.enqueue('CHAPTER_READ', { seriesId: 'test-1', chapter: 1 });
+      await SyncOutbox.enqueue('CHAPTER_READ', { seriesId: 'test-1', chapter: 2 });
+      await SyncOutbox.enqueue('CHAPTER_READ', { seriesId: 'test-1', chapter: 1.5 });
 
-      const actions = SyncOutbox.getActions();
+      const actions = await SyncOutbox.getActions();
       
       // Should have 1 action for test-1 with chapter 2 (highest)
       expect(actions).toHaveLength(1);
@@ -0,0 +1,210 @@
+import { NextRequest } from 'next/server';
+import { headers } from 'next/headers';
+import { prisma } from '@/lib/prisma';
+import { createClient } from '@/lib/supabase/server';
+import { GET as getLists, POST as createList, PUT as reorderLists } from '@/app/api/lists/route';
+import { GET as getList, PATCH as updateList } from '@/app/api/lists/[id]/route';
+import { POST as addItem } from '@/app/api/lists/[id]/items/route';
+import { DELETE as removeItem } from '@/app/api/lists/[id]/items/[seriesId]/route';
+import { GET as getProfileLists } from '@/app/api/users/[username]/lists/route';
+import { areListsVisible } from '@/lib/lists';
+
+jest.mock('@/lib/prisma', () => {
+  const client = {
+    $executeRaw: jest.fn(),
+    series: { findFirst: jest.fn() },
+    user: { findFirst: jest.fn() },
+    userList: {
+      findMany: jest.fn(),
+      findFirst: jest.fn(),
+      findUnique: jest.fn(),
+      count: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+    userListItem: {
+      findMany: jest.fn(),
+      findFirst: jest.fn(),
+      findUnique: jest.fn(),
+      count: jest.fn(),
+      upsert: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+  };
+  return { prisma: client, prismaRead: client, withRetry: jest.fn((fn: () => unknown) => fn()) };
+});
+
+jest.mock('@/lib/supabase/server', () => ({
+  createClient: jest.fn(),
+}));
+
+jest.mock('next/headers', () => ({
+  headers: jest.fn(async () => new Headers()),
+}));
+
+jest.mock('@/lib/cache-utils', () => ({ invalidateLibraryCache: jest.fn() }));
+
+const USER_ID = '550e8400-e29b-41d4-a716-446655440001';
+const OTHER_USER_ID = '550e8400-e29b-41d4-a716-446655440009';
+const LIST_ID = '550e8400-e29b-41d4-a716-446655440004';
+const SECOND_LIST_ID = '550e8400-e29b-41d4-a716-446655440005';
+const SERIES_ID = '550e8400-e29b-41d4-a716-446655440000';
+
+const jsonRequest = (url: string, method: string, body: unknown) =>
+  new NextRequest(url, {
+    method,
+    headers: { 'content-type': 'application/json', origin: 'http://localhost', host: 'localhost' },
+    body: JSON.stringify(body),
+  });
+
+const listRow = (overrides: Record<string, unknown> = {}) => ({
+  id: LIST_ID,
+  user_id: USER_ID,
+  name: 'Favorites',
+  description: null,
+  is_public: false,
+  position: 0,
+  cover_series_id: null,
+  created_at: new Date(),
+  updated_at: new Date(),
+  CoverSeries: null,
+  UserListItem: [{ Series: { cover_url: 'https://example.com/first.jpg', content_rating: 'safe' } }],
+  _count: { UserListItem: 3 },
+  ...overrides,
+});
+
+const params = <T,>(value: T) => ({ params: Promise.resolve(value) });
+
+describe('User lists', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (headers as jest.Mock).mockImplementation(async () => new Headers());
+    (createClient as jest.Mock).mockResolvedValue({
+      auth: { getUser: jest.fn().mockResolvedValue({ data: { user: { id: USER_ID, email: 'reader@example.com' } } }) },
+    });
+  });
+
+  it('should create a list after the existing ones', async () => {
+    (prisma.userList.count as jest.Mock).mockResolvedValue(2);
+    (prisma.userList.findFirst as jest.Mock).mockResolvedValue({ position: 4 });
+    (prisma.userList.create as jest.Mock).mockImplementation(async ({ data }) => listRow({ ...data, UserListItem: [], _count: { UserListItem: 0 } }));
+
+    const res = await createList(jsonRequest('http://localhost/api/lists', 'POST', { name: '  Read with partner ', is_public: true }));
+    const body = await res.json();
+
+    expect(res.status).toBe(201);
+    expect((prisma.userList.create as jest.Mock).mock.calls[0][0].data).toMatchObject({
+      user_id: USER_ID,
+      name: 'Read with partner',
+      is_public: true,
+      position: 5,
+    });
+    expect(body).toMatchObject({ name: 'Read with partner', item_count: 0, cover_url: null });
+  });
+
+  it('should list lists with the first item as fallback cover and series membership', async () => {
+    (prisma.userList.findMany as jest.Mock).mockResolvedValue([
+      listRow(),
+      listRow({ id: SECOND_LIST_ID, CoverSeries: { cover_url: 'https://example.com/chosen.jpg', content_rating: 'safe' } }),
+    ]);
+    (prisma.userListItem.findMany as jest.Mock).mockResolvedValue([{ list_id: SECOND_LIST_ID }]);
+
+    const res = await getLists(new NextRequest(`http://localhost/api/lists?series_id=${SERIES_ID}`));
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(body.lists.map((l: { cover_url: string }) => l.cover_url)).toEqual([
+      'https://example.com/first.jpg',
+      'https://example.com/chosen.jpg',
+    ]);
+    expect(body.lists.map((l: { contains_series: boolean }) => l.contains_series)).toEqual([false, true]);
+  });
+
+  it('should reorder lists with a single positional update scoped to the user', async () => {
+    const res = await reorderLists(jsonRequest('http://localhost/api/lists', 'PUT', { list_ids: [SECOND_LIST_ID, LIST_ID] }));
+    const [strings, ids, userId] = (prisma.$executeRaw as jest.Mock).mock.calls[0];
+
+    expect(res.status).toBe(200);
+    expect(strings.join('')).toContain('WITH ORDINALITY');
+    expect(ids).toEqual([SECOND_LIST_ID, LIST_ID]);
+    expect(userId).toBe(USER_ID);
+  });
+
+  it('should only accept a cover that is in the list', async () => {
+    (prisma.userList.findFirst as jest.Mock).mockResolvedValue({ id: LIST_ID });
+    (prisma.userListItem.findUnique as jest.Mock).mockResolvedValue(null);
+
+    const res = await updateList(
+      jsonRequest(`http://localhost/api/lists/${LIST_ID}`, 'PATCH', { cover_series_id: SERIES_ID }),
+      params({ id: LIST_ID })
+    );
+
+    expect(res.status).toBe(400);
+    expect(prisma.userList.update).not.toHaveBeenCalled();
+  });
+
+  it('should append a series to the end of a list', async () => {
+    (prisma.userList.findFirst as jest.Mock).mockResolvedValue({ id: LIST_ID });
+    (prisma.series.findFirst as jest.Mock).mockResolvedValue({ id: SERIES_ID });
+    (prisma.userListItem.findUnique as jest.Mock).mockResolvedValue(null);
+    (prisma.userListItem.count as jest.Mock).mockResolvedValue(3);
+    (prisma.userListItem.findFirst as jest.Mock).mockResolvedValue({ position: 2 });
+    (prisma.userListItem.upsert as jest.Mock).mockImplementation(async ({ create }) => ({ ...create, added_at: new Date() }));
+
+    const res = await addItem(
+      jsonRequest(`http://localhost/api/lists/${LIST_ID}/items`, 'POST', { series_id: SERIES_ID }),
+      params({ id: LIST_ID })
+    );
+
+    expect(res.status).toBe(201);
+    expect((prisma.userListItem.upsert as jest.Mock).mock.calls[0][0].create).toEqual({ list_id: LIST_ID, series_id: SERIES_ID, position: 3 });
+  });
+
+  it('should clear the cover when its series is removed', async () => {
+    (prisma.userList.findFirst as jest.Mock).mockResolvedValue({ id: LIST_ID, cover_series_id: SERIES_ID });
+    (prisma.userListItem.deleteMany as jest.Mock).mockResolvedValue({ count: 1 });
+
+    const res = await removeItem(
+      new NextRequest(`http://localhost/api/lists/${LIST_ID}/items/${SERIES_ID}`, {
+        method: 'DELETE',
+        headers: { origin: 'http://localhost', host: 'localhost' },
+      }),
+      params({ id: LIST_ID, seriesId: SERIES_ID })
+    );
+
+    expect(res.status).toBe(200);
+    expect((prisma.userList.update as jest.Mock).mock.calls[0][0].data).toMatchObject({ cover_series_id: null });
+  });
+
+  it('should hide private lists and lists of owners who hid them from other users', async () => {
+    (prisma.userList.findUnique as jest.Mock).mockResolvedValue({
+      ...listRow({ user_id: OTHER_USER_ID, is_public: true }),
+      users: { username: 'someone', avatar_url: null, privacy_settings: { lists_public: false } },
+    });
+
+    const res = await getList(new NextRequest(`http://localhost/api/lists/${LIST_ID}`), params({ id: LIST_ID }));
+
+    expect(res.status).toBe(404);
+    expect(prisma.userListItem.findMany).not.toHaveBeenCalled();
+  });
+
+  it('should only return public lists on another user\'s profile', async () => {
+    (prisma.user.findFirst as jest.Mock).mockResolvedValue({ id: OTHER_USER_ID, privacy_settings: {} });
+    (prisma.userList.findMany as jest.Mock).mockResolvedValue([listRow({ user_id: OTHER_USER_ID, is_public: true })]);
+
+    const res = await getProfileLists(new NextRequest('http://localhost/api/users/someone/lists'), params({ username: 'someone' }));
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect((prisma.userList.findMany as jest.Mock).mock.calls[0][0].where).toEqual({ user_id: OTHER_USER_ID, is_public: true });
+    expect(body.lists).toHaveLength(1);
+  });
+
+  it('should treat lists as visible unless lists or the profile are hidden', () => {
+    expect(areListsVisible(null)).toBe(true);
+    expect(areListsVisible({ library_public: false })).toBe(true);
+    expect(areListsVisible({ lists_public: false })).toBe(false);
+    expect(areListsVisible({ profile_public: false })).toBe(false);
+  });
+});
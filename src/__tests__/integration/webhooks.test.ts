@@ -0,0 +1,252 @@
+import { NextRequest } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { createClient } from '@/lib/supabase/server';
+import { webhookDeliveryQueue } from '@/lib/queues';
+import { sendWebhook } from '@/lib/webhooks/send';
+import { enqueueWebhookEvents, MAX_CONSECUTIVE_FAILURES, webhookDeliveryId } from '@/lib/webhooks/delivery';
+import { buildChapterEvent } from '@/lib/webhooks/events';
+import { createAchievementNotification } from '@/lib/actions/notifications';
+import { processWebhookDelivery } from '@/workers/processors/webhook-delivery.processor';
+import { POST as createWebhook } from '@/app/api/users/me/webhooks/route';
+import { POST as redeliver } from '@/app/api/users/me/webhooks/[id]/deliveries/[deliveryId]/redeliver/route';
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    $transaction: jest.fn(async (ops: unknown[]) => Promise.all(ops)),
+    webhookEndpoint: {
+      findMany: jest.fn(),
+      count: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+    },
+    webhookDelivery: {
+      findUnique: jest.fn(),
+      findFirst: jest.fn(),
+      create: jest.fn(),
+      createManyAndReturn: jest.fn(async ({ data }: { data: Array<{ id: string; event: string }> }) =>
+        data.map(({ id, event }) => ({ id, event }))),
+      update: jest.fn(),
+    },
+  },
+}));
+
+jest.mock('@/lib/queues', () => ({
+  webhookDeliveryQueue: { addBulk: jest.fn() },
+}));
+
+jest.mock('@/lib/webhooks/send', () => ({
+  ...jest.requireActual('@/lib/webhooks/send'),
+  sendWebhook: jest.fn(),
+}));
+
+jest.mock('@/lib/supabase/server', () => ({
+  createClient: jest.fn(),
+}));
+
+jest.mock('next/headers', () => ({
+  headers: jest.fn(async () => new Headers()),
+}));
+
+jest.mock('next/cache', () => ({
+  revalidatePath: jest.fn(),
+}));
+
+const USER_ID = '550e8400-e29b-41d4-a716-446655440001';
+const OTHER_USER_ID = '550e8400-e29b-41d4-a716-446655440002';
+const SERIES_ID = '550e8400-e29b-41d4-a716-446655440000';
+const ENDPOINT_ID = '550e8400-e29b-41d4-a716-446655440020';
+const DELIVERY_ID = '550e8400-e29b-41d4-a716-446655440050';
+
+const chapterEvent = buildChapterEvent({ seriesId: SERIES_ID, seriesTitle: 'Sky Garden', chapterNumber: 42, newChapterCount: 1 });
+
+describe('Webhooks', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('enqueueWebhookEvents', () => {
+    it('should log and queue one delivery per subscribed endpoint', async () => {
+      (prisma.webhookEndpoint.findMany as jest.Mock).mockResolvedValue([
+        { id: 'discord', user_id: USER_ID, events: ['new_chapter', 'digest'] },
+        { id: 'achievements-only', user_id: USER_ID, events: ['achievement'] },
+        { id: 'other', user_id: OTHER_USER_ID, events: ['new_chapter'] },
+      ]);
+
+      const queued = await enqueueWebhookEvents([{ userId: USER_ID, key: 'new_chapter:42', event: chapterEvent }]);
+
+      expect(queued).toBe(1);
+      const [{ data: rows, skipDuplicates }] = (prisma.webhookDelivery.createManyAndReturn as jest.Mock).mock.calls[0];
+      expect(skipDuplicates).toBe(true);
+      expect(rows).toEqual([expect.objectContaining({
+        id: webhookDeliveryId('discord', 'new_chapter:42'),
+        endpoint_id: 'discord',
+        user_id: USER_ID,
+        event: 'new_chapter',
+        payload: chapterEvent,
+      })]);
+      const [jobs] = (webhookDeliveryQueue.addBulk as jest.Mock).mock.calls[0];
+      expect(jobs[0]).toEqual({ name: 'webhook-new_chapter', data: { deliveryId: rows[0].id }, opts: { jobId: rows[0].id } });
+    });
+
+    it('should not queue an event again when the emitting job re-runs', async () => {
+      (prisma.webhookEndpoint.findMany as jest.Mock).mockResolvedValue([
+        { id: ENDPOINT_ID, user_id: USER_ID, events: ['new_chapter'] },
+      ]);
+      // The delivery row from the first run is already there
+      (prisma.webhookDelivery.createManyAndReturn as jest.Mock).mockResolvedValueOnce([]);
+
+      expect(await enqueueWebhookEvents([{ userId: USER_ID, key: 'new_chapter:42', event: chapterEvent }])).toBe(0);
+      expect(webhookDeliveryQueue.addBulk).not.toHaveBeenCalled();
+      expect(webhookDeliveryId(ENDPOINT_ID, 'new_chapter:42')).toBe(webhookDeliveryId(ENDPOINT_ID, 'new_chapter:42'));
+      expect(webhookDeliveryId(ENDPOINT_ID, 'new_chapter:43')).not.toBe(webhookDeliveryId(ENDPOINT_ID, 'new_chapter:42'));
+    });
+
+    it('should do nothing for users without endpoints', async () => {
+      (prisma.webhookEndpoint.findMany as jest.Mock).mockResolvedValue([]);
+
+      expect(await enqueueWebhookEvents([{ userId: USER_ID, key: 'new_chapter:42', event: chapterEvent }])).toBe(0);
+      expect(prisma.webhookDelivery.createManyAndReturn).not.toHaveBeenCalled();
+    });
+
+    it('should emit achievement events from gamification notifications', async () => {
+      (createClient as jest.Mock).mockResolvedValue({
+        from: jest.fn(() => ({
+          insert: jest.fn(() => ({
+            select: jest.fn(() => ({ single: jest.fn().mockResolvedValue({ data: { id: 'notification-1' }, error: null }) })),
+          })),
+        })),
+      });
+      (prisma.webhookEndpoint.findMany as jest.Mock).mockResolvedValue([
+        { id: ENDPOINT_ID, user_id: USER_ID, events: ['achievement'] },
+      ]);
+
+      await createAchievementNotification(USER_ID, 'Bookworm', 100);
+
+      const [{ data: rows }] = (prisma.webhookDelivery.createManyAndReturn as jest.Mock).mock.calls[0];
+      expect(rows[0].id).toBe(webhookDeliveryId(ENDPOINT_ID, 'notification:notification-1'));
+      expect(rows[0].payload).toMatchObject({
+        type: 'achievement',
+        message: 'You earned "Bookworm" (+100 XP)',
+        data: { kind: 'achievement', achievement_name: 'Bookworm', xp_reward: 100 },
+      });
+    });
+  });
+
+  describe('processWebhookDelivery', () => {
+    const job = (attemptsMade = 0) => ({ data: { deliveryId: DELIVERY_ID }, attemptsMade, opts: { attempts: 6 } });
+
+    beforeEach(() => {
+      (prisma.webhookDelivery.findUnique as jest.Mock).mockResolvedValue({
+        id: DELIVERY_ID,
+        status: 'pending',
+        attempts: 0,
+        payload: chapterEvent,
+        WebhookEndpoint: { id: ENDPOINT_ID, url: 'https://hooks.example.com/in', format: 'discord', secret: 'whsec_test', enabled: true },
+      });
+    });
+
+    it('should record a successful delivery and reset the failure count', async () => {
+      (sendWebhook as jest.Mock).mockResolvedValue({ ok: true, status: 204, retryable: false });
+
+      await processWebhookDelivery(job() as any);
+
+      expect(prisma.webhookDelivery.update).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({ status: 'delivered', attempts: 1, response_status: 204 }),
+      }));
+      expect(prisma.webhookEndpoint.update).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({ failure_count: 0 }),
+      }));
+    });
+
+    it('should rethrow retryable failures so BullMQ backs off', async () => {
+      (sendWebhook as jest.Mock).mockResolvedValue({ ok: false, status: 503, error: 'Endpoint responded with HTTP 503', retryable: true });
+
+      await expect(processWebhookDelivery(job(1) as any)).rejects.toThrow('HTTP 503');
+
+      expect(prisma.webhookDelivery.update).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({ status: 'retrying', response_status: 503 }),
+      }));
+      expect(prisma.webhookEndpoint.update).not.toHaveBeenCalled();
+    });
+
+    it('should disable an endpoint after repeated final failures', async () => {
+      (sendWebhook as jest.Mock).mockResolvedValue({ ok: false, status: 404, error: 'Endpoint responded with HTTP 404', retryable: false });
+      (prisma.webhookEndpoint.update as jest.Mock)
+        .mockResolvedValueOnce({ failure_count: MAX_CONSECUTIVE_FAILURES })
+        .mockResolvedValueOnce({});
+
+      await processWebhookDelivery(job() as any);
+
+      expect(prisma.webhookDelivery.update).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({ status: 'failed' }),
+      }));
+      expect(prisma.webhookEndpoint.update).toHaveBeenLastCalledWith(expect.objectContaining({
+        where: { id: ENDPOINT_ID },
+        data: expect.objectContaining({ enabled: false }),
+      }));
+    });
+  });
+
+  describe('API', () => {
+    beforeEach(() => {
+      (createClient as jest.Mock).mockResolvedValue({
+        auth: { getUser: jest.fn().mockResolvedValue({ data: { user: { id: USER_ID } } }) },
+      });
+    });
+
+    it('should register an endpoint and return its secret once', async () => {
+      (prisma.webhookEndpoint.count as jest.Mock).mockResolvedValue(0);
+      (prisma.webhookEndpoint.create as jest.Mock).mockImplementation(async ({ data }) => ({ id: ENDPOINT_ID, ...data }));
+
+      const res = await createWebhook(new NextRequest('http://localhost/api/users/me/webhooks', {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ url: 'https://discord.com/api/webhooks/1/abc', format: 'discord' }),
+      }));
+      const body = await res.json();
+
+      expect(res.status).toBe(201);
+      expect(body.secret).toMatch(/^whsec_/);
+      expect(prisma.webhookEndpoint.create).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({ user_id: USER_ID, format: 'discord', events: ['new_chapter', 'digest', 'achievement'] }),
+      }));
+    });
+
+    it('should reject internal webhook URLs', async () => {
+      const res = await createWebhook(new NextRequest('http://localhost/api/users/me/webhooks', {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ url: 'https://169.254.169.254/latest' }),
+      }));
+
+      expect(res.status).toBe(400);
+      expect(prisma.webhookEndpoint.create).not.toHaveBeenCalled();
+    });
+
+    it('should redeliver a logged event as a new delivery', async () => {
+      (prisma.webhookDelivery.findFirst as jest.Mock).mockResolvedValue({
+        endpoint_id: ENDPOINT_ID,
+        user_id: USER_ID,
+        event: 'new_chapter',
+        payload: chapterEvent,
+        WebhookEndpoint: { enabled: true },
+      });
+      (prisma.webhookDelivery.create as jest.Mock).mockImplementation(async ({ data }) => ({ id: data.id, event: data.event, status: 'pending' }));
+
+      const res = await redeliver(
+        new NextRequest(`http://localhost/api/users/me/webhooks/${ENDPOINT_ID}/deliveries/${DELIVERY_ID}/redeliver`, { method: 'POST' }),
+        { params: Promise.resolve({ id: ENDPOINT_ID, deliveryId: DELIVERY_ID }) }
+      );
+      const body = await res.json();
+
+      expect(res.status).toBe(202);
+      expect(prisma.webhookDelivery.findFirst).toHaveBeenCalledWith(expect.objectContaining({
+        where: { id: DELIVERY_ID, endpoint_id: ENDPOINT_ID, user_id: USER_ID },
+      }));
+      expect(body.id).not.toBe(DELIVERY_ID);
+      expect(webhookDeliveryQueue.addBulk).toHaveBeenCalledWith([
+        { name: 'webhook-new_chapter', data: { deliveryId: body.id }, opts: { jobId: body.id } },
+      ]);
+    });
+  });
+});
@@ -34,6 +34,7 @@ let prismaSchema: string;
 let apiUtils: string;
 let bugFixes: string;
 let progressRoute: string;
+let progressLib: string;
 let pollSourceProcessor: string;
 let chapterIngestProcessor: string;
 let libraryRoute: string;
@@ -46,6 +47,7 @@ beforeAll(() => {
   apiUtils = readFile('src/lib/api-utils.ts');
   bugFixes = readFile('src/lib/bug-fixes.ts');
   progressRoute = readFile('src/app/api/library/[id]/progress/route.ts');
+  progressLib = readFile('src/lib/library-progress.ts');
   pollSourceProcessor = readFile('src/workers/processors/poll-source.processor.ts');
   chapterIngestProcessor = readFile('src/workers/processors/chapter-ingest.processor.ts');
   libraryRoute = readFile('src/app/api/library/route.ts');
@@ -443,13 +445,13 @@ describe('H. LIBRARY & USER STATE (121-140)', () => {
     });
 
     it('PARTIALLY_FIXED: LWW semantics in bulk upsert', () => {
-      expect(progressRoute).toContain('WHERE EXCLUDED."updated_at" >= "user_chapter_reads_v2"."updated_at"');
+      expect(progressLib).toContain('WHERE EXCLUDED."updated_at" >= "user_chapter_reads_v2"."updated_at"');
     });
   });
 
   describe('Bug 127-128: Library status transition issues', () => {
     it('PARTIALLY_FIXED: Transaction used', () => {
-      expect(progressRoute).toContain('$transaction');
+      expect(progressLib).toContain('$transaction');
     });
   });
 
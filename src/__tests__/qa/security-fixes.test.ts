@@ -72,25 +72,25 @@ describe('QA Security Fixes Verification', () => {
       const fs = await import('fs');
       const path = await import('path');
       
-      const progressRouteContent = fs.readFileSync(
-        path.join(process.cwd(), 'src/app/api/library/[id]/progress/route.ts'),
+      const progressContent = fs.readFileSync(
+        path.join(process.cwd(), 'src/lib/library-progress.ts'),
         'utf-8'
       );
       
-      expect(progressRouteContent).toContain('MAX_CHAPTERS_PER_BULK');
-      expect(progressRouteContent).toContain('LIMIT');
+      expect(progressContent).toContain('MAX_CHAPTERS_PER_BULK');
+      expect(progressContent).toContain('LIMIT');
     });
 
     it('should limit bulk chapter queries to 2000', async () => {
       const fs = await import('fs');
       const path = await import('path');
       
-      const progressRouteContent = fs.readFileSync(
-        path.join(process.cwd(), 'src/app/api/library/[id]/progress/route.ts'),
+      const progressContent = fs.readFileSync(
+        path.join(process.cwd(), 'src/lib/library-progress.ts'),
         'utf-8'
       );
       
-      expect(progressRouteContent).toMatch(/MAX_CHAPTERS_PER_BULK\s*=\s*2000/);
+      expect(progressContent).toMatch(/MAX_CHAPTERS_PER_BULK\s*=\s*2000/);
     });
   });
 
@@ -0,0 +1,63 @@
+import { z } from 'zod'
+import { generateApiToken, hashApiToken, API_TOKEN_SCOPES } from '@/lib/api-tokens'
+import { zodToJsonSchema } from '@/lib/openapi/zod-schema'
+import { buildOpenApiDocument } from '@/lib/openapi/document'
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: { personalAccessToken: { findUnique: jest.fn(), update: jest.fn() } },
+}))
+
+describe('Personal access tokens', () => {
+  it('should generate prefixed tokens and store only their hash', () => {
+    const { token, hash, prefix } = generateApiToken()
+
+    expect(token).toMatch(/^mtp_[A-Za-z0-9_-]{43}$/)
+    expect(hash).toBe(hashApiToken(token))
+    expect(hash).toMatch(/^[0-9a-f]{64}$/)
+    expect(token.startsWith(prefix)).toBe(true)
+    expect(prefix).toHaveLength(12)
+    expect(generateApiToken().token).not.toBe(token)
+  })
+})
+
+describe('OpenAPI document', () => {
+  it('should convert zod input schemas to JSON Schema', () => {
+    const schema = z.object({
+      name: z.string().min(1).max(100),
+      count: z.number().int().min(0).optional(),
+      kind: z.enum(['a', 'b']).nullable(),
+      tags: z.array(z.string()).max(5).default([]),
+      limit: z.preprocess(v => Number(v), z.number().max(50)),
+    })
+
+    expect(zodToJsonSchema(schema)).toEqual({
+      type: 'object',
+      properties: {
+        name: { type: 'string', minLength: 1, maxLength: 100 },
+        count: { type: 'integer', minimum: 0 },
+        kind: { type: ['string', 'null'], enum: ['a', 'b', null] },
+        tags: { type: 'array', items: { type: 'string' }, maxItems: 5, default: [] },
+        limit: { type: 'number', maximum: 50 },
+      },
+      required: ['name', 'kind', 'limit'],
+    })
+  })
+
+  it('should describe each operation with its token scope', () => {
+    const doc = buildOpenApiDocument('https://example.com')
+    const progress = doc.paths['/api/library/{id}/progress'].patch as Record<string, any>
+    const stats = doc.paths['/api/series/{id}/stats'].get as Record<string, any>
+
+    expect(doc.openapi).toBe('3.1.0')
+    expect(doc.servers).toEqual([{ url: 'https://example.com' }])
+    expect(progress.security).toEqual([{ bearerAuth: ['write:progress'] }, { cookieAuth: [] }])
+    expect(progress.requestBody.content['application/json'].schema.type).toBe('object')
+    expect(progress.responses).toHaveProperty('403')
+    expect(stats.security).toEqual([])
+    expect(stats.responses).not.toHaveProperty('401')
+    expect(doc.paths['/api/library'].get).toHaveProperty('x-required-scope', 'read:library')
+    for (const scope of API_TOKEN_SCOPES) {
+      expect(doc.info.description).toContain(scope)
+    }
+  })
+})
@@ -0,0 +1,110 @@
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    $queryRaw: jest.fn(),
+    $executeRaw: jest.fn((strings: TemplateStringsArray) => strings.join('?')),
+    $transaction: jest.fn(),
+  },
+}))
+
+import { prisma } from '@/lib/prisma'
+import {
+  CF_MIN_RATING,
+  CF_UNRATED_FACTOR,
+  libraryEntryWeight,
+  scoreCollaborativeCandidates,
+} from '@/lib/collaborative-filtering'
+import { materializeSeriesNeighbors } from '@/workers/schedulers/recommendations.scheduler'
+
+const mockPrisma = prisma as unknown as {
+  $queryRaw: jest.Mock
+  $executeRaw: jest.Mock
+  $transaction: jest.Mock
+}
+
+const NOW = new Date('2026-11-05T12:00:00.000Z')
+
+describe('Collaborative filtering', () => {
+  describe('libraryEntryWeight', () => {
+    it('should weight entries by status and canonical rating', () => {
+      expect(libraryEntryWeight('completed', 90)).toBeCloseTo(0.9)
+      expect(libraryEntryWeight('reading', 100)).toBeCloseTo(0.8)
+      expect(libraryEntryWeight('Completed', null)).toBeCloseTo(CF_UNRATED_FACTOR)
+      expect(libraryEntryWeight('completed', 90)).toBeGreaterThan(libraryEntryWeight('planning', 90))
+      expect(libraryEntryWeight('paused', 100)).toBeCloseTo(0.5)
+      expect(libraryEntryWeight('planning', 100)).toBeCloseTo(0.3)
+    })
+
+    it('should ignore dropped and poorly rated entries', () => {
+      expect(libraryEntryWeight('dropped', 100)).toBe(0)
+      expect(libraryEntryWeight('completed', CF_MIN_RATING - 1)).toBe(0)
+      expect(libraryEntryWeight('unknown', 80)).toBe(0)
+    })
+  })
+
+  describe('scoreCollaborativeCandidates', () => {
+    const seeds = [
+      { series_id: 'solo-leveling', title: 'Solo Leveling', weight: 1 },
+      { series_id: 'tower-of-god', title: 'Tower of God', weight: 0.5 },
+    ]
+
+    it('should combine evidence from several library series and explain the strongest', () => {
+      const scores = scoreCollaborativeCandidates(seeds, [
+        { series_id: 'solo-leveling', neighbor_id: 'omniscient-reader', score: 0.6 },
+        { series_id: 'tower-of-god', neighbor_id: 'omniscient-reader', score: 0.8 },
+        { series_id: 'tower-of-god', neighbor_id: 'the-god-of-high-school', score: 0.5 },
+      ], new Set())
+
+      const omniscient = scores.get('omniscient-reader')!
+      expect(omniscient.score).toBeCloseTo(1 - (1 - 0.6) * (1 - 0.4))
+      expect(omniscient.because).toEqual([
+        { id: 'solo-leveling', title: 'Solo Leveling' },
+        { id: 'tower-of-god', title: 'Tower of God' },
+      ])
+      expect(scores.get('the-god-of-high-school')!.score).toBeCloseTo(0.25)
+      expect(omniscient.score).toBeGreaterThan(scores.get('the-god-of-high-school')!.score)
+    })
+
+    it('should never recommend series already in the library', () => {
+      const scores = scoreCollaborativeCandidates(seeds, [
+        { series_id: 'solo-leveling', neighbor_id: 'tower-of-god', score: 0.9 },
+        { series_id: 'solo-leveling', neighbor_id: 'on-hold-series', score: 0.9 },
+        { series_id: 'unknown-seed', neighbor_id: 'other', score: 0.9 },
+      ], new Set(['on-hold-series']))
+
+      expect(scores.size).toBe(0)
+    })
+  })
+
+  describe('materializeSeriesNeighbors', () => {
+    beforeEach(() => {
+      jest.clearAllMocks()
+      mockPrisma.$transaction.mockResolvedValue([])
+    })
+
+    it('should rebuild the neighbours once they are a day old', async () => {
+      mockPrisma.$queryRaw.mockResolvedValueOnce([{ last_run: new Date(NOW.getTime() - 25 * 60 * 60 * 1000) }])
+
+      await expect(materializeSeriesNeighbors(NOW)).resolves.toBe(true)
+
+      const [statements] = mockPrisma.$transaction.mock.calls[0]
+      expect(statements[0]).toContain('DELETE FROM series_neighbors')
+      expect(statements[1]).toContain('INSERT INTO series_neighbors')
+      expect(statements[1]).toContain('ROW_NUMBER() OVER')
+      expect(statements[2]).toContain('INSERT INTO scheduler_state')
+    })
+
+    it('should rebuild when there is no recorded run', async () => {
+      mockPrisma.$queryRaw.mockResolvedValueOnce([])
+
+      await expect(materializeSeriesNeighbors(NOW)).resolves.toBe(true)
+    })
+
+    it('should leave fresh neighbours alone', async () => {
+      // The last run counts even when it stored no pairs
+      mockPrisma.$queryRaw.mockResolvedValueOnce([{ last_run: new Date(NOW.getTime() - 60 * 60 * 1000) }])
+
+      await expect(materializeSeriesNeighbors(NOW)).resolves.toBe(false)
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled()
+    })
+  })
+})
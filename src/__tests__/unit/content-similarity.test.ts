@@ -0,0 +1,176 @@
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    series: { findMany: jest.fn() },
+    seriesContentIndex: { update: jest.fn(), upsert: jest.fn() },
+    seriesSimilarity: { deleteMany: jest.fn((args: unknown) => args), createMany: jest.fn((args: unknown) => args) },
+    $queryRaw: jest.fn(),
+    $executeRaw: jest.fn(),
+    $transaction: jest.fn(),
+  },
+}))
+
+import { prisma } from '@/lib/prisma'
+import {
+  buildContentDocument,
+  contentLabels,
+  labelSimilarity,
+  scoreSimilarity,
+  tokenizeDescription,
+  type ContentSource,
+  type CorpusStats,
+} from '@/lib/search/content-similarity'
+import { documentHash, refreshSimilarityIndex } from '@/lib/series-similarity'
+
+const mockPrisma = prisma as unknown as {
+  series: { findMany: jest.Mock }
+  seriesContentIndex: { update: jest.Mock; upsert: jest.Mock }
+  seriesSimilarity: { deleteMany: jest.Mock; createMany: jest.Mock }
+  $queryRaw: jest.Mock
+  $executeRaw: jest.Mock
+  $transaction: jest.Mock
+}
+
+const NOW = new Date('2026-11-04T12:00:00.000Z')
+const SOURCE_ID = '550e8400-e29b-41d4-a716-446655440001'
+const NEIGHBOUR_ID = '550e8400-e29b-41d4-a716-446655440002'
+
+const series = (overrides: Partial<ContentSource> = {}): ContentSource => ({
+  description: null,
+  genres: [],
+  tags: [],
+  themes: [],
+  demographic: null,
+  ...overrides,
+})
+
+const towerClimber = series({
+  description: 'A weak hunter climbs the tower, clearing dungeons floor by floor to save his sister.',
+  genres: ['Action', 'Fantasy'],
+  tags: ['Dungeons'],
+  themes: ['Monsters'],
+  demographic: 'Shounen',
+})
+
+const stats = (documents: number, averageLength: number): CorpusStats => ({
+  documentCount: documents,
+  averageLength,
+  documentFrequency: new Map(),
+})
+
+const sqlOf = (call: unknown[]) => (call[0] as TemplateStringsArray).join('?')
+
+describe('Content similarity', () => {
+  describe('tokenizeDescription', () => {
+    it('should drop markup, links, source credits and stop words', () => {
+      const tokens = tokenizeDescription(
+        '<p>The [b]Hunters[/b] of Séoul</p> read on [MangaDex](https://mangadex.org) https://example.com (Source: Webtoon)'
+      )
+
+      expect(tokens).toEqual(['hunter', 'seoul', 'mangadex'])
+    })
+
+    it('should fold plurals without mangling other endings', () => {
+      expect(tokenizeDescription('enemies dungeons class status')).toEqual(['enemy', 'dungeon', 'class', 'status'])
+    })
+  })
+
+  it('should namespace labels and merge tags with themes', () => {
+    expect(contentLabels(towerClimber)).toEqual([
+      'demographic:shounen',
+      'genre:action',
+      'genre:fantasy',
+      'tag:dungeons',
+      'tag:monsters',
+    ])
+  })
+
+  it('should compute the Jaccard index of label sets', () => {
+    expect(labelSimilarity(['genre:action', 'genre:fantasy'], ['genre:action', 'genre:romance'])).toBeCloseTo(1 / 3)
+    expect(labelSimilarity([], [])).toBe(0)
+  })
+
+  it('should rank a series with a similar synopsis and labels above an unrelated one', () => {
+    const query = buildContentDocument(towerClimber)
+    const similar = buildContentDocument(series({
+      description: 'Hunters clear dungeons inside a tower that appeared overnight.',
+      genres: ['Action', 'Fantasy'],
+      tags: ['Dungeons'],
+    }))
+    const unrelated = buildContentDocument(series({
+      description: 'A baker falls in love with her neighbour in a quiet seaside town.',
+      genres: ['Romance'],
+      demographic: 'Josei',
+    }))
+    const corpus = stats(3, (query.length + similar.length + unrelated.length) / 3)
+
+    const high = scoreSimilarity(query, similar, corpus)
+    const low = scoreSimilarity(query, unrelated, corpus)
+
+    expect(high.score).toBeGreaterThan(0.3)
+    expect(low).toEqual({ score: 0, text_score: 0, label_score: 0 })
+    expect(scoreSimilarity(query, query, corpus).text_score).toBe(1)
+  })
+
+  it('should score a series without a description on its labels alone', () => {
+    const query = buildContentDocument(series({ genres: ['Action', 'Fantasy'] }))
+    const document = buildContentDocument(series({ description: 'Anything at all', genres: ['Action', 'Fantasy'] }))
+
+    expect(scoreSimilarity(query, document, stats(2, 2)).score).toBe(1)
+  })
+
+  describe('refreshSimilarityIndex', () => {
+    const indexed = { id: SOURCE_ID, ...towerClimber }
+    const neighbourDocument = buildContentDocument(series({
+      description: 'A hunter clears dungeon floors.',
+      genres: ['Action', 'Fantasy'],
+    }))
+
+    beforeEach(() => {
+      jest.clearAllMocks()
+      mockPrisma.$executeRaw.mockResolvedValue(0)
+      mockPrisma.$transaction.mockResolvedValue([])
+      mockPrisma.series.findMany.mockResolvedValue([indexed])
+    })
+
+    it('should re-index a changed series and store its neighbours', async () => {
+      mockPrisma.$queryRaw.mockImplementation((...call: unknown[]) => {
+        const sql = sqlOf(call)
+        if (sql.includes('LEFT JOIN series_content_index')) {
+          return Promise.resolve([{ id: SOURCE_ID, document_hash: 'outdated', expired: false }])
+        }
+        if (sql.includes('AS average_length')) return Promise.resolve([{ documents: BigInt(2), average_length: 8 }])
+        if (sql.includes('unnest(') && sql.includes('AS documents')) return Promise.resolve([])
+        return Promise.resolve([{
+          series_id: NEIGHBOUR_ID,
+          terms: neighbourDocument.terms,
+          doc_length: neighbourDocument.length,
+          labels: neighbourDocument.labels,
+        }])
+      })
+
+      const result = await refreshSimilarityIndex(NOW)
+
+      expect(result).toMatchObject({ indexed: 1, unchanged: 0, recomputed: 1, failed: 0 })
+      expect(mockPrisma.seriesContentIndex.upsert).toHaveBeenCalledWith(expect.objectContaining({
+        where: { series_id: SOURCE_ID },
+        update: expect.objectContaining({ document_hash: documentHash(buildContentDocument(towerClimber)), indexed_at: NOW }),
+      }))
+      expect(mockPrisma.seriesSimilarity.deleteMany).toHaveBeenCalledWith({ where: { series_id: SOURCE_ID } })
+      const { data } = mockPrisma.seriesSimilarity.createMany.mock.calls[0][0]
+      expect(data).toEqual([expect.objectContaining({ series_id: SOURCE_ID, similar_series_id: NEIGHBOUR_ID, computed_at: NOW })])
+      expect(data[0].score).toBeGreaterThan(0)
+    })
+
+    it('should only touch series whose document did not change', async () => {
+      const hash = documentHash(buildContentDocument(towerClimber))
+      mockPrisma.$queryRaw.mockResolvedValueOnce([{ id: SOURCE_ID, document_hash: hash, expired: false }])
+
+      const result = await refreshSimilarityIndex(NOW)
+
+      expect(result).toMatchObject({ indexed: 0, unchanged: 1, recomputed: 0 })
+      expect(mockPrisma.seriesContentIndex.update).toHaveBeenCalledWith({ where: { series_id: SOURCE_ID }, data: { indexed_at: NOW } })
+      expect(mockPrisma.seriesContentIndex.upsert).not.toHaveBeenCalled()
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,234 @@
+/**
+ * @jest-environment node
+ */
+import crypto from 'crypto'
+import net from 'net'
+import { buildMimeMessage, encodeHeaderValue } from '@/lib/email/mime'
+import { dotStuff, sendSmtp, SmtpError } from '@/lib/email/smtp'
+import { renderChapterAlertEmail, renderDigestEmail } from '@/lib/email/templates'
+import {
+  buildUnsubscribeUrl,
+  createUnsubscribeToken,
+  isEmailEnabled,
+  verifyUnsubscribeToken,
+} from '@/lib/email/unsubscribe'
+import { formatDigestSummary, groupDigestUpdates } from '@/lib/notifications-digest'
+
+const USER_ID = '550e8400-e29b-41d4-a716-446655440001'
+
+/** Scripted SMTP server: records commands, rejects recipients on `bad.example` */
+function startSmtpServer(): Promise<{ port: number; commands: string[]; data: string[]; close: () => Promise<void> }> {
+  const commands: string[] = []
+  const data: string[] = []
+  const server = net.createServer(socket => {
+    let buffer = ''
+    let inData = false
+    socket.write('220 mock ESMTP\r\n')
+    socket.on('data', chunk => {
+      buffer += chunk.toString('utf8')
+      if (inData) {
+        const end = buffer.indexOf('\r\n.\r\n')
+        if (end === -1) return
+        data.push(buffer.slice(0, end))
+        buffer = buffer.slice(end + 5)
+        inData = false
+        socket.write('250 queued\r\n')
+      }
+      let index: number
+      while (!inData && (index = buffer.indexOf('\r\n')) !== -1) {
+        const line = buffer.slice(0, index)
+        buffer = buffer.slice(index + 2)
+        commands.push(line)
+        if (line.startsWith('EHLO')) socket.write('250-mock\r\n250-AUTH PLAIN\r\n250 SIZE 1000000\r\n')
+        else if (line.startsWith('AUTH')) socket.write('235 ok\r\n')
+        else if (line.startsWith('MAIL')) socket.write('250 ok\r\n')
+        else if (line.startsWith('RCPT')) socket.write(line.includes('bad.example') ? '550 5.1.1 no such user\r\n' : '250 ok\r\n')
+        else if (line === 'DATA') { inData = true; socket.write('354 go\r\n') }
+        else if (line === 'QUIT') { socket.write('221 bye\r\n'); socket.end() }
+        else socket.write('502 unknown\r\n')
+      }
+    })
+  })
+  return new Promise(resolve => server.listen(0, '127.0.0.1', () => resolve({
+    port: (server.address() as net.AddressInfo).port,
+    commands,
+    data,
+    close: () => new Promise(done => server.close(() => done())),
+  })))
+}
+
+describe('Email channel', () => {
+  describe('unsubscribe tokens', () => {
+    it('should round trip a signed user and email type', () => {
+      const token = createUnsubscribeToken(USER_ID, 'digest')
+      expect(verifyUnsubscribeToken(token)).toEqual({ userId: USER_ID, type: 'digest' })
+      expect(buildUnsubscribeUrl(USER_ID, 'new_chapters')).toMatch(/\/api\/email\/unsubscribe\?token=[\w-]+\.[\w-]+$/)
+    })
+
+    it('should reject tampered or unknown tokens', () => {
+      const [, signature] = createUnsubscribeToken(USER_ID, 'digest').split('.')
+      const forged = Buffer.from(JSON.stringify({ u: 'someone-else', t: 'digest' })).toString('base64url')
+
+      expect(verifyUnsubscribeToken(`${forged}.${signature}`)).toBeNull()
+      expect(verifyUnsubscribeToken('garbage')).toBeNull()
+      expect(verifyUnsubscribeToken('')).toBeNull()
+    })
+
+    it('should sign with a key derived from the internal secret, not the secret itself', () => {
+      const env = { ...process.env }
+      try {
+        delete process.env.EMAIL_UNSUBSCRIBE_SECRET
+        process.env.INTERNAL_API_SECRET = 'internal-secret'
+        const token = createUnsubscribeToken(USER_ID, 'digest')
+        const [payload, signature] = token.split('.')
+        const withRawSecret = crypto.createHmac('sha256', 'internal-secret').update(`unsubscribe:${payload}`).digest('base64url')
+
+        expect(signature).not.toBe(withRawSecret)
+        expect(verifyUnsubscribeToken(token)).toEqual({ userId: USER_ID, type: 'digest' })
+
+        process.env.EMAIL_UNSUBSCRIBE_SECRET = 'unsubscribe-secret'
+        expect(verifyUnsubscribeToken(token)).toBeNull()
+      } finally {
+        process.env = env
+      }
+    })
+
+    it('should honour the global and per-type email switches', () => {
+      expect(isEmailEnabled({ email: true }, 'new_chapters')).toBe(true)
+      expect(isEmailEnabled({}, 'digest')).toBe(true)
+      expect(isEmailEnabled({ email: false }, 'digest')).toBe(false)
+      expect(isEmailEnabled({ email_new_chapters: false }, 'new_chapters')).toBe(false)
+      expect(isEmailEnabled({ email_new_chapters: false }, 'digest')).toBe(true)
+    })
+  })
+
+  describe('templates', () => {
+    it('should escape series titles in the HTML part only', () => {
+      const email = renderChapterAlertEmail({
+        seriesTitle: 'Tom & <Jerry>',
+        chapterNumber: 12,
+        sourceName: 'mangadex',
+        seriesUrl: 'https://mangatrack.app/series/abc',
+        unsubscribeUrl: 'https://mangatrack.app/api/email/unsubscribe?token=t',
+        settingsUrl: 'https://mangatrack.app/settings',
+      })
+
+      expect(email.subject).toBe('New chapter of Tom & <Jerry>: Chapter 12')
+      expect(email.text).toContain('Chapter 12 of Tom & <Jerry> is now available on mangadex.')
+      expect(email.text).toContain('Unsubscribe: https://mangatrack.app/api/email/unsubscribe?token=t')
+      expect(email.html).toContain('Tom &amp; &lt;Jerry&gt;')
+      expect(email.html).not.toContain('<Jerry>')
+    })
+
+    it('should render digests from the same grouping as the in-app digest', () => {
+      const series = groupDigestUpdates([
+        { series_id: 's1', chapter_number: 10, source_names: ['mangadex'], Series: { title: 'Sky Garden' } },
+        { series_id: 's2', chapter_number: 3, source_names: ['mangapark'], Series: { title: 'Iron Tide' } },
+        { series_id: 's1', chapter_number: 9, source_names: ['mangapark'], Series: { title: 'Sky Garden' } },
+      ])
+      expect(series[0]).toEqual({ seriesId: 's1', title: 'Sky Garden', chapters: ['9', '10'], sources: ['mangadex', 'mangapark'] })
+
+      const email = renderDigestEmail({
+        frequency: 'hourly',
+        series,
+        seriesUrl: id => `https://mangatrack.app/series/${id}`,
+        unsubscribeUrl: 'https://mangatrack.app/api/email/unsubscribe?token=t',
+        settingsUrl: 'https://mangatrack.app/settings',
+      })
+
+      expect(email.subject).toBe(formatDigestSummary(series).title)
+      expect(email.subject).toBe('2 Series Updated')
+      expect(email.text).toContain('New in the last hour:')
+      expect(email.text).toContain('* Sky Garden\n  Chapters 9, 10 on mangadex, mangapark\n  https://mangatrack.app/series/s1')
+      expect(email.html).toContain('href="https://mangatrack.app/series/s2"')
+    })
+  })
+
+  describe('MIME', () => {
+    it('should build a multipart message with one-click unsubscribe headers', () => {
+      const raw = buildMimeMessage({
+        to: 'reader@example.com',
+        subject: 'Nouveau chapitre – Été',
+        text: 'plain body',
+        html: '<p>html body</p>',
+        unsubscribeUrl: 'https://mangatrack.app/api/email/unsubscribe?token=t',
+      }, { from: 'MangaTrack <notifications@mangatrack.app>' })
+
+      const [head, body] = raw.split('\r\n\r\n')
+      expect(head).toContain('To: reader@example.com')
+      expect(head).toContain(`Subject: ${encodeHeaderValue('Nouveau chapitre – Été')}`)
+      expect(head).toContain('List-Unsubscribe: <https://mangatrack.app/api/email/unsubscribe?token=t>')
+      expect(head).toContain('List-Unsubscribe-Post: List-Unsubscribe=One-Click')
+      expect(head).toMatch(/Message-ID: <[\w-]+@mangatrack\.app>/)
+      expect(body).toMatch(/^--=_mt_/)
+      expect(raw).toContain(Buffer.from('plain body').toString('base64'))
+      expect(raw).toContain(Buffer.from('<p>html body</p>').toString('base64'))
+    })
+
+    it('should not let header values inject new headers', () => {
+      const raw = buildMimeMessage({
+        to: 'reader@example.com',
+        subject: 'Hi\r\nBcc: victim@example.com',
+        text: 'x',
+        html: 'x',
+      }, { from: 'notifications@mangatrack.app' })
+
+      expect(raw).not.toMatch(/^Bcc:/m)
+      expect(dotStuff('.line\n..two\nok')).toBe('..line\r\n...two\r\nok')
+    })
+  })
+
+  describe('SMTP', () => {
+    it('should authenticate and deliver a dot-stuffed message', async () => {
+      const server = await startSmtpServer()
+      try {
+        await sendSmtp(
+          { host: '127.0.0.1', port: server.port, secure: false, user: 'relay', pass: 'secret', timeoutMs: 5000 },
+          { from: 'notifications@mangatrack.app', to: 'reader@example.com' },
+          'Subject: test\r\n\r\n.hidden line\r\nbody'
+        )
+      } finally {
+        await server.close()
+      }
+
+      expect(server.commands).toEqual([
+        expect.stringMatching(/^EHLO /),
+        `AUTH PLAIN ${Buffer.from('\0relay\0secret').toString('base64')}`,
+        'MAIL FROM:<notifications@mangatrack.app>',
+        'RCPT TO:<reader@example.com>',
+        'DATA',
+        'QUIT',
+      ])
+      expect(server.data).toEqual(['Subject: test\r\n\r\n..hidden line\r\nbody'])
+    })
+
+    it('should report rejected recipients as permanent failures', async () => {
+      const server = await startSmtpServer()
+      let error: unknown
+      try {
+        await sendSmtp(
+          { host: '127.0.0.1', port: server.port, secure: false, timeoutMs: 5000 },
+          { from: 'notifications@mangatrack.app', to: 'nobody@bad.example' },
+          'Subject: test\r\n\r\nbody'
+        )
+      } catch (e) {
+        error = e
+      } finally {
+        await server.close()
+      }
+
+      expect(error).toBeInstanceOf(SmtpError)
+      expect((error as SmtpError).code).toBe(550)
+      expect((error as SmtpError).recipientRejected).toBe(true)
+      expect(server.data).toEqual([])
+    })
+
+    it('should refuse envelope addresses that could inject commands', async () => {
+      await expect(sendSmtp(
+        { host: '127.0.0.1', port: 1, secure: false },
+        { from: 'notifications@mangatrack.app', to: 'a@b.c>\r\nRCPT TO:<x@y.z' },
+        'x'
+      )).rejects.toThrow('Invalid SMTP envelope address')
+    })
+  })
+})
@@ -0,0 +1,80 @@
+import { escapeICalText, foldICalLine, renderICalendar } from '@/lib/feeds/ical'
+import { escapeXml, renderAtom, renderRss } from '@/lib/feeds/syndication'
+import { groupReleases, predictNextRelease } from '@/lib/release-prediction'
+
+const channel = {
+  id: 'urn:mangatrack:feed:u1:availability',
+  title: 'New chapters',
+  description: 'Chapters for series you follow',
+  link: 'https://mangatrack.app/feed',
+  selfUrl: 'https://mangatrack.app/api/feeds/secret/availability',
+  items: [{
+    id: 'availability:1',
+    title: 'Tom & Jerry <Special> – Chapter 5',
+    link: 'https://mangadex.org/chapter/5?a=1&b=2',
+    summary: 'Chapter 5 is available on mangadex.',
+    published: new Date('2026-10-18T12:00:00Z'),
+    category: 'mangadex',
+  }],
+}
+
+const days = (...offsets: number[]) => offsets.map(d => new Date(Date.UTC(2026, 8, 1) + d * 24 * 60 * 60 * 1000))
+
+describe('Personal feeds', () => {
+  it('should escape markup and strip characters XML does not allow', () => {
+    expect(escapeXml(`<a href="x">'&'</a>\u0001`)).toBe('&lt;a href=&quot;x&quot;&gt;&apos;&amp;&apos;&lt;/a&gt;')
+  })
+
+  it('should render RSS 2.0 items with stable guids', () => {
+    const xml = renderRss(channel)
+
+    expect(xml).toContain('<rss version="2.0"')
+    expect(xml).toContain('<title>Tom &amp; Jerry &lt;Special&gt; – Chapter 5</title>')
+    expect(xml).toContain('<link>https://mangadex.org/chapter/5?a=1&amp;b=2</link>')
+    expect(xml).toContain('<guid isPermaLink="false">availability:1</guid>')
+    expect(xml).toContain('<pubDate>Sun, 18 Oct 2026 12:00:00 GMT</pubDate>')
+  })
+
+  it('should render Atom entries without leaking the token into ids', () => {
+    const xml = renderAtom(channel)
+
+    expect(xml).toContain('<feed xmlns="http://www.w3.org/2005/Atom">')
+    expect(xml).toContain('<id>urn:mangatrack:feed:u1:availability</id>')
+    expect(xml).toContain('<id>urn:mangatrack:availability:1</id>')
+    expect(xml).toContain('<updated>2026-10-18T12:00:00.000Z</updated>')
+  })
+
+  it('should render all-day calendar events with escaped, folded lines', () => {
+    const ics = renderICalendar('Releases', [{
+      uid: 'release-s1@mangatrack',
+      date: new Date('2026-10-24T09:00:00Z'),
+      summary: 'One Piece, Vol; next',
+      description: 'Line one\nline two',
+      url: 'https://mangatrack.app/series/s1',
+    }], new Date('2026-10-19T12:00:00Z'))
+
+    expect(ics.startsWith('BEGIN:VCALENDAR\r\n')).toBe(true)
+    expect(ics).toContain('DTSTART;VALUE=DATE:20261024\r\nDTEND;VALUE=DATE:20261025')
+    expect(ics).toContain('DTSTAMP:20261019T120000Z')
+    expect(ics).toContain('SUMMARY:One Piece\\, Vol\\; next')
+    expect(ics).toContain('DESCRIPTION:Line one\\nline two')
+    expect(escapeICalText('a\\b')).toBe('a\\\\b')
+
+    const folded = foldICalLine(`SUMMARY:${'é'.repeat(60)}`)
+    expect(folded.split('\r\n ').every(line => Buffer.byteLength(line) <= 75)).toBe(true)
+    expect(folded.replace(/\r\n /g, '')).toBe(`SUMMARY:${'é'.repeat(60)}`)
+  })
+
+  it('should predict the next release from the median gap', () => {
+    const prediction = predictNextRelease(days(0, 7, 14, 22, 28))
+
+    expect(prediction).toMatchObject({ interval_days: 7, sample_size: 4 })
+    expect(prediction!.predicted_at).toEqual(days(35)[0])
+  })
+
+  it('should treat batch uploads as one release and need enough history', () => {
+    const batch = [new Date('2026-09-01T10:00:00Z'), new Date('2026-09-01T11:00:00Z'), new Date('2026-09-01T15:00:00Z')]
+    expect(groupReleases(batch)).toHaveLength(1)
+    expect(predictNextRelease([...batch, ...days(14, 28)])).toBeNull()
+  })
+})
@@ -0,0 +1,186 @@
+/** @jest-environment node */
+const mockQueryRaw = jest.fn()
+const mockTx = {
+  libraryEntry: { findFirst: jest.fn(), create: jest.fn(), update: jest.fn() },
+  seriesSource: { createMany: jest.fn() },
+  importItem: { updateMany: jest.fn(), count: jest.fn() },
+  importJob: { update: jest.fn() },
+}
+const mockFindSource = jest.fn()
+const mockSyncAdd = jest.fn()
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    $queryRawUnsafe: (...args: unknown[]) => mockQueryRaw(...args),
+    $transaction: (fn: (tx: typeof mockTx) => unknown) => fn(mockTx),
+    seriesSource: { findUnique: (...args: unknown[]) => mockFindSource(...args) },
+  },
+}))
+
+jest.mock('@/lib/queues', () => ({
+  syncSourceQueue: { add: (...args: unknown[]) => mockSyncAdd(...args) },
+}))
+
+jest.mock('@/lib/series-ratings', () => ({
+  recalculateSeriesRatings: jest.fn(),
+}))
+
+import {
+  applyImportReviewDecision,
+  findReviewCandidates,
+  findReviewCandidatesForTitles,
+  scoreCandidate,
+} from '@/lib/sync/import-review'
+
+const heldItem = {
+  id: 'item-1',
+  job_id: 'job-1',
+  title: 'Solo Leveling',
+  metadata: { title: 'Solo Leveling', status: 'Reading', progress: 42, source_name: 'kenmei' },
+  review_data: {
+    confidence: 'none',
+    source_url: 'title-only:U29sbyBMZXZlbGluZw==',
+    source_name: 'imported',
+    candidates: [],
+  },
+}
+
+describe('Import Review', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockTx.importItem.updateMany.mockResolvedValue({ count: 1 })
+  })
+
+  describe('candidates', () => {
+    it('should score against aliases as well as the main title', () => {
+      const score = scoreCandidate('Na Honjaman Level Up', {
+        title: 'Solo Leveling',
+        alternative_titles: ['Na Honjaman Level Up', '나 혼자만 레벨업'],
+      })
+      expect(score).toBe(1)
+    })
+
+    it('should re-rank the trigram pool by calculateSimilarity and cap the list', async () => {
+      mockQueryRaw.mockResolvedValue([
+        { query: 'solo leveling', id: 'a', title: 'Solo Leveling: Ragnarok', alternative_titles: null, cover_url: null, type: 'manhwa', status: 'ongoing' },
+        { query: 'solo leveling', id: 'b', title: 'Solo Leveling', alternative_titles: null, cover_url: 'https://img/b.jpg', type: 'manhwa', status: 'completed' },
+        { query: 'solo leveling', id: 'c', title: 'Solo Max-Level Newbie', alternative_titles: null, cover_url: null, type: 'manhwa', status: 'ongoing' },
+      ])
+
+      const candidates = await findReviewCandidates('solo leveling', { limit: 2 })
+      expect(candidates.map(c => c.series_id)).toEqual(['b', 'a'])
+      expect(candidates[0]).toMatchObject({ similarity: 1, cover_url: 'https://img/b.jpg' })
+    })
+
+    it('should look up candidates for many titles in one query', async () => {
+      mockQueryRaw.mockResolvedValue([
+        { query: 'Berserk', id: 'b', title: 'Berserk', alternative_titles: null, cover_url: null, type: 'manga', status: 'ongoing' },
+        { query: 'Vagabond', id: 'v', title: 'Vagabond', alternative_titles: null, cover_url: null, type: 'manga', status: 'hiatus' },
+      ])
+
+      const candidates = await findReviewCandidatesForTitles(['Berserk', 'Vagabond', 'Berserk ', 'x'])
+
+      expect(mockQueryRaw).toHaveBeenCalledTimes(1)
+      expect(mockQueryRaw.mock.calls[0][1]).toEqual(['Berserk', 'Vagabond'])
+      expect(candidates.get('Berserk')).toEqual([{ series_id: 'b', similarity: 1 }])
+      expect(candidates.get('Berserk ')).toEqual([{ series_id: 'b', similarity: 1 }])
+      expect(candidates.get('Vagabond')).toEqual([{ series_id: 'v', similarity: 1 }])
+      expect(candidates.get('x')).toEqual([])
+    })
+
+    it('should skip the query for very short searches', async () => {
+      expect(await findReviewCandidates(' a ')).toEqual([])
+      expect(mockQueryRaw).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('applyImportReviewDecision', () => {
+    it('should write the deferred library entry when a candidate is picked', async () => {
+      mockTx.libraryEntry.findFirst.mockResolvedValue(null)
+      mockTx.libraryEntry.create.mockResolvedValue({ id: 'entry-1' })
+      mockTx.importItem.count.mockResolvedValue(2)
+
+      const result = await applyImportReviewDecision('user-1', heldItem, { action: 'pick', series_id: 'series-1' })
+
+      expect(result).toEqual({ libraryEntryId: 'entry-1', jobStatus: 'needs_review' })
+      expect(mockTx.libraryEntry.create).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({
+          user_id: 'user-1',
+          series_id: 'series-1',
+          source_url: 'title-only:U29sbyBMZXZlbGluZw==',
+          status: 'reading',
+          last_read_chapter: 42,
+          needs_review: false,
+        }),
+      }))
+      expect(mockTx.importItem.updateMany).toHaveBeenCalledWith({
+        where: { id: 'item-1', status: 'NEEDS_REVIEW' },
+        data: expect.objectContaining({ status: 'SUCCESS', series_id: 'series-1', reason_code: 'REVIEW_PICKED' }),
+      })
+      expect(mockTx.seriesSource.createMany).toHaveBeenCalledWith({
+        data: [expect.objectContaining({ source_url: 'title-only:U29sbyBMZXZlbGluZw==', source_title: 'Solo Leveling' })],
+        skipDuplicates: true,
+      })
+      expect(mockTx.importJob.update).toHaveBeenCalledTimes(1)
+    })
+
+    it('should queue a sync of the source once the pick is committed', async () => {
+      mockTx.libraryEntry.findFirst.mockResolvedValue(null)
+      mockTx.libraryEntry.create.mockResolvedValue({ id: 'entry-1' })
+      mockTx.importItem.count.mockResolvedValue(0)
+      mockFindSource.mockResolvedValue({ id: 'source-1' })
+
+      await applyImportReviewDecision('user-1', heldItem, { action: 'pick', series_id: 'series-1' })
+
+      expect(mockSyncAdd).toHaveBeenCalledWith('sync-source-1', { seriesSourceId: 'source-1' }, expect.objectContaining({ jobId: 'sync-source-1' }))
+    })
+
+    it('should link an existing entry instead of duplicating it', async () => {
+      mockTx.libraryEntry.findFirst.mockResolvedValue({
+        id: 'entry-existing',
+        series_id: null,
+        status: 'planning',
+        last_read_chapter: 3,
+        updated_at: new Date('2026-01-01T00:00:00.000Z'),
+        user_rating: null,
+      })
+      mockTx.importItem.count.mockResolvedValue(1)
+
+      const result = await applyImportReviewDecision('user-1', heldItem, { action: 'pick', series_id: 'series-1' })
+
+      expect(result.libraryEntryId).toBe('entry-existing')
+      expect(mockTx.libraryEntry.create).not.toHaveBeenCalled()
+      expect(mockTx.libraryEntry.update).toHaveBeenCalledWith(expect.objectContaining({
+        where: { id: 'entry-existing' },
+        // The imported progress is reconciled like any other import
+        data: expect.objectContaining({ series_id: 'series-1', status: 'reading', last_read_chapter: 42, needs_review: false }),
+      }))
+    })
+
+    it('should complete the job once the last held item is skipped', async () => {
+      mockTx.importItem.count.mockResolvedValue(0)
+
+      const result = await applyImportReviewDecision('user-1', heldItem, { action: 'skip' })
+
+      expect(result).toEqual({ libraryEntryId: null, jobStatus: 'completed' })
+      expect(mockTx.libraryEntry.create).not.toHaveBeenCalled()
+      expect(mockTx.importItem.updateMany).toHaveBeenCalledWith({
+        where: { id: 'item-1', status: 'NEEDS_REVIEW' },
+        data: expect.objectContaining({ status: 'FAILED', reason_code: 'REVIEW_SKIPPED' }),
+      })
+      expect(mockTx.importJob.update).toHaveBeenLastCalledWith({
+        where: { id: 'job-1' },
+        data: expect.objectContaining({ status: 'completed' }),
+      })
+    })
+
+    it('should reject a decision for an item another request already claimed', async () => {
+      mockTx.importItem.updateMany.mockResolvedValueOnce({ count: 0 })
+
+      await expect(applyImportReviewDecision('user-1', heldItem, { action: 'pick', series_id: 'series-1' }))
+        .rejects.toMatchObject({ statusCode: 409 })
+      expect(mockTx.libraryEntry.create).not.toHaveBeenCalled()
+      expect(mockTx.importJob.update).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,108 @@
+jest.mock('@/lib/prisma', () => ({ prisma: {} }))
+
+import {
+  ExportEntry,
+  formatExportCSV,
+  formatExportJSON,
+  formatExportMalXml,
+  formatLibraryExport,
+} from '@/lib/sync/exporter'
+import { parseCSV } from '@/lib/sync/csv-parser'
+
+function makeEntry(overrides: Partial<ExportEntry> = {}): ExportEntry {
+  return {
+    title: 'Solo Leveling',
+    status: 'reading',
+    last_read_chapter: 42,
+    last_read_at: '2026-01-05T10:00:00.000Z',
+    rating: 9,
+    source_url: 'https://mangadex.org/title/32d76d19-8a05-4db0-9fc2-e0b0648fe9d0',
+    source_name: 'mangadex',
+    series_id: '11111111-1111-1111-1111-111111111111',
+    mangadex_id: '32d76d19-8a05-4db0-9fc2-e0b0648fe9d0',
+    mangaupdates_id: null,
+    added_at: '2025-12-01T00:00:00.000Z',
+    updated_at: '2026-01-05T10:00:00.000Z',
+    chapter_reads: [
+      { chapter_number: '41', volume_number: null, read_at: '2026-01-04T10:00:00.000Z', source_name: 'mangadex', device_id: null },
+      { chapter_number: '42', volume_number: null, read_at: '2026-01-05T10:00:00.000Z', source_name: 'mangadex', device_id: 'phone' },
+    ],
+    ...overrides,
+  }
+}
+
+describe('Library Export', () => {
+  describe('CSV', () => {
+    it('should round-trip through parseCSV', () => {
+      const csv = formatExportCSV([
+        makeEntry(),
+        makeEntry({ title: 'Title, With "Quotes"', status: 'completed', last_read_chapter: 179, source_url: 'https://example.com/a' }),
+      ])
+
+      const parsed = parseCSV(csv)
+      expect(parsed).toHaveLength(2)
+      expect(parsed[0]).toMatchObject({
+        title: 'Solo Leveling',
+        status: 'reading',
+        progress: 42,
+        external_id: '32d76d19-8a05-4db0-9fc2-e0b0648fe9d0',
+        source_url: 'https://mangadex.org/title/32d76d19-8a05-4db0-9fc2-e0b0648fe9d0',
+      })
+      expect(parsed[1].title).toBe('Title, With "Quotes"')
+      expect(parsed[1].progress).toBe(179)
+    })
+
+    it('should list read chapters in a single column', () => {
+      const csv = formatExportCSV([makeEntry()])
+      expect(csv.split('\n')[1]).toContain('41;42')
+    })
+  })
+
+  describe('JSON', () => {
+    it('should include every chapter read', () => {
+      const json = JSON.parse(formatExportJSON([makeEntry()], new Date('2026-02-01T00:00:00Z')))
+      expect(json.version).toBe(1)
+      expect(json.exported_at).toBe('2026-02-01T00:00:00.000Z')
+      expect(json.total_entries).toBe(1)
+      expect(json.entries[0].chapter_reads).toHaveLength(2)
+      expect(json.entries[0].chapter_reads[1].device_id).toBe('phone')
+    })
+  })
+
+  describe('MAL XML', () => {
+    it('should map statuses to MAL labels and count totals', () => {
+      const xml = formatExportMalXml([
+        makeEntry({ status: 'paused' }),
+        makeEntry({ status: 'planning' }),
+        makeEntry({ status: 'completed' }),
+      ])
+
+      expect(xml).toContain('<my_status>On-Hold</my_status>')
+      expect(xml).toContain('<my_status>Plan to Read</my_status>')
+      expect(xml).toContain('<user_total_manga>3</user_total_manga>')
+      expect(xml).toContain('<user_total_completed>1</user_total_completed>')
+      expect(xml).toContain('<my_finish_date>2026-01-05</my_finish_date>')
+    })
+
+    it('should carry MAL ids only for MAL-sourced entries', () => {
+      const xml = formatExportMalXml([
+        makeEntry({ source_url: 'https://myanimelist.net/manga/2/Berserk' }),
+        makeEntry(),
+      ])
+
+      expect(xml).toContain('<manga_mangadb_id>2</manga_mangadb_id>')
+      expect(xml).toContain('<manga_mangadb_id>0</manga_mangadb_id>')
+    })
+
+    it('should keep titles containing CDATA terminators well-formed', () => {
+      const xml = formatExportMalXml([makeEntry({ title: 'Weird ]]> Title & Co' })])
+      expect(xml).toContain('<![CDATA[Weird ]]]]><![CDATA[> Title & Co]]>')
+    })
+  })
+
+  it('should dispatch by format', () => {
+    expect(formatLibraryExport('csv', [])).toMatch(/^title,status,progress/)
+    expect(formatLibraryExport('xml', [])).toContain('<myanimelist>')
+    expect(JSON.parse(formatLibraryExport('json', [])).entries).toEqual([])
+  })
+})
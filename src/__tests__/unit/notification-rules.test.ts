@@ -0,0 +1,122 @@
+import {
+  countUnreadChapters,
+  evaluateNotificationRules,
+  hasSourceRule,
+  previousVolume,
+  quietHoursEnd,
+  RuleChapterContext,
+  rulesForSeries,
+} from '@/lib/notifications-rules'
+import { NotificationRuleInputSchema } from '@/lib/schemas/notification-rules'
+
+const chapter = (overrides: Partial<RuleChapterContext> = {}): RuleChapterContext => ({
+  chapterNumber: 50,
+  sourceName: 'mangadex',
+  sourceUrl: 'https://mangadex.org/title/abc',
+  volumeNumber: 6,
+  previousVolumeNumber: 6,
+  at: new Date('2026-10-19T12:00:00Z'),
+  ...overrides,
+})
+
+describe('Notification rules', () => {
+  it('should notify when there are no rules', () => {
+    expect(evaluateNotificationRules([], chapter(), { unreadCount: 1 })).toEqual({ action: 'notify' })
+  })
+
+  it('should filter by official and allowed sources', () => {
+    const official = [{ id: 'r1', type: 'official_only', params: {} }]
+    expect(evaluateNotificationRules(official, chapter(), { unreadCount: 1 })).toMatchObject({ action: 'skip', ruleId: 'r1' })
+    expect(evaluateNotificationRules(official, chapter({ sourceName: 'mangaplus', sourceUrl: 'https://mangaplus.shueisha.co.jp/titles/1' }), { unreadCount: 1 }))
+      .toEqual({ action: 'notify' })
+
+    const allowlist = [{ type: 'source_allowlist', params: { sources: ['MangaDex'] } }]
+    expect(evaluateNotificationRules(allowlist, chapter(), { unreadCount: 1 }).action).toBe('notify')
+    expect(evaluateNotificationRules(allowlist, chapter({ sourceName: 'mangapark' }), { unreadCount: 1 }).action).toBe('skip')
+    expect(hasSourceRule(allowlist)).toBe(true)
+    expect(hasSourceRule([{ type: 'min_unread', params: { count: 3 } }])).toBe(false)
+  })
+
+  it('should wait for unread chapters to accumulate and stop when too far behind', () => {
+    const minUnread = [{ type: 'min_unread', params: { count: 3 } }]
+    expect(evaluateNotificationRules(minUnread, chapter(), { unreadCount: 2 })).toEqual({
+      action: 'skip',
+      reason: 'Only 2 of 3 unread chapters so far',
+      ruleId: undefined,
+    })
+    expect(evaluateNotificationRules(minUnread, chapter(), { unreadCount: 3 }).action).toBe('notify')
+
+    const maxBehind = [{ type: 'max_behind', params: { chapters: 20 } }]
+    expect(evaluateNotificationRules(maxBehind, chapter(), { unreadCount: 20 }).action).toBe('notify')
+    expect(evaluateNotificationRules(maxBehind, chapter(), { unreadCount: 21 }).action).toBe('skip')
+  })
+
+  it('should hold notifications until quiet hours end, across midnight', () => {
+    const params = { start: '23:00', end: '08:00', timezone: 'Asia/Tokyo' }
+    // 23:30 in Tokyo
+    expect(quietHoursEnd(new Date('2026-10-19T14:30:45Z'), params)).toEqual(new Date('2026-10-19T23:00:00Z'))
+    // 07:59 in Tokyo
+    expect(quietHoursEnd(new Date('2026-10-19T22:59:00Z'), params)).toEqual(new Date('2026-10-19T23:00:00Z'))
+    // 12:00 in Tokyo
+    expect(quietHoursEnd(new Date('2026-10-19T03:00:00Z'), params)).toBeNull()
+
+    const decision = evaluateNotificationRules(
+      [{ id: 'quiet', type: 'quiet_hours', params }],
+      chapter({ at: new Date('2026-10-19T14:30:00Z') }),
+      { unreadCount: 1 }
+    )
+    expect(decision).toEqual({
+      action: 'defer',
+      until: new Date('2026-10-19T23:00:00Z'),
+      reason: 'Quiet hours 23:00–08:00 (Asia/Tokyo)',
+      ruleId: 'quiet',
+    })
+  })
+
+  it('should let a skip win over quiet hours', () => {
+    const rules = [
+      { type: 'quiet_hours', params: { start: '00:00', end: '23:59', timezone: 'UTC' } },
+      { type: 'official_only', params: {} },
+    ]
+    expect(evaluateNotificationRules(rules, chapter(), { unreadCount: 1 }).action).toBe('skip')
+  })
+
+  it('should only fire for chapters that complete a volume', () => {
+    const rules = [{ type: 'volume_end_only', params: {} }]
+    expect(evaluateNotificationRules(rules, chapter({ volumeNumber: 6, previousVolumeNumber: 6 }), { unreadCount: 1 }).action).toBe('skip')
+    expect(evaluateNotificationRules(rules, chapter({ volumeNumber: 7, previousVolumeNumber: 6 }), { unreadCount: 1 }).action).toBe('notify')
+    expect(evaluateNotificationRules(rules, chapter({ volumeNumber: null }), { unreadCount: 1 }).action).toBe('skip')
+  })
+
+  it('should ignore disabled and corrupt rules', () => {
+    const rules = [
+      { type: 'official_only', params: {}, enabled: false },
+      { type: 'min_unread', params: { count: 'lots' } },
+      { type: 'no_such_rule', params: {} },
+    ]
+    expect(evaluateNotificationRules(rules, chapter(), { unreadCount: 1 }).action).toBe('notify')
+  })
+
+  it('should scope rules to a series or all series', () => {
+    const rules = [
+      { series_id: null, type: 'official_only', params: {} },
+      { series_id: 'a', type: 'min_unread', params: { count: 3 } },
+      { series_id: 'b', type: 'max_behind', params: { chapters: 5 } },
+    ]
+    expect(rulesForSeries(rules, 'a').map(r => r.type)).toEqual(['official_only', 'min_unread'])
+  })
+
+  it('should count unread chapters and earlier volumes', () => {
+    expect(countUnreadChapters([1, 2, 3, 4, 4.5, 5], 3, 5)).toBe(3)
+    expect(countUnreadChapters([1, 2, 3], null, 2)).toBe(2)
+    expect(previousVolume([{ number: 1, volume: 1 }, { number: 9, volume: 2 }, { number: 10, volume: 3 }], 10)).toBe(2)
+  })
+
+  it('should validate params per rule type', () => {
+    expect(NotificationRuleInputSchema.safeParse({ type: 'quiet_hours', params: { start: '23:00', end: '08:00', timezone: 'Europe/Berlin' } }).success).toBe(true)
+    expect(NotificationRuleInputSchema.safeParse({ type: 'quiet_hours', params: { start: '23:00', end: '08:00', timezone: 'Mars/Olympus' } }).success).toBe(false)
+    expect(NotificationRuleInputSchema.safeParse({ type: 'min_unread', params: { count: 0 } }).success).toBe(false)
+    expect(NotificationRuleInputSchema.safeParse({ type: 'official_only', params: { extra: true } }).success).toBe(false)
+    expect(NotificationRuleInputSchema.safeParse({ type: 'make_coffee', params: {} }).success).toBe(false)
+  })
+})
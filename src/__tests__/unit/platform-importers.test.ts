@@ -0,0 +1,205 @@
+/** @jest-environment node */
+import { gzipSync } from 'zlib'
+import { parseKenmeiCSV, parseMangaUpdatesList } from '@/lib/sync/platform-parsers'
+import { isGzipped, parseTachiyomiBackup, TachiyomiBackupError } from '@/lib/sync/tachiyomi-backup'
+import { identifyPlatformUrl } from '@/lib/sync/platform-urls'
+import { extractPlatformIds, resolveImportSourcePlatform } from '@/lib/sync/shared'
+
+// Minimal protobuf encoder for building Mihon-shaped backups in tests
+type Field = [number, 'varint', number | bigint] | [number, 'string', string] | [number, 'float', number] | [number, 'message', Field[]]
+
+function varint(value: bigint): number[] {
+  const bytes: number[] = []
+  let v = BigInt.asUintN(64, value)
+  do {
+    let byte = Number(v & BigInt(0x7f))
+    v >>= BigInt(7)
+    if (v > BigInt(0)) byte |= 0x80
+    bytes.push(byte)
+  } while (v > BigInt(0))
+  return bytes
+}
+
+function encode(fields: Field[]): Uint8Array {
+  const out: number[] = []
+  for (const [num, kind, value] of fields) {
+    if (kind === 'varint') {
+      out.push(...varint(BigInt(num << 3)), ...varint(BigInt(value)))
+    } else if (kind === 'float') {
+      const buf = Buffer.alloc(4)
+      buf.writeFloatLE(value)
+      out.push(...varint(BigInt((num << 3) | 5)), ...buf)
+    } else {
+      const payload = kind === 'string' ? Buffer.from(value) : encode(value)
+      out.push(...varint(BigInt((num << 3) | 2)), ...varint(BigInt(payload.length)), ...payload)
+    }
+  }
+  return Uint8Array.from(out)
+}
+
+const MANGADEX_SOURCE_ID = BigInt('2499283573021220255')
+const OTHER_SOURCE_ID = BigInt(-4321987654321)
+
+function buildBackup(): Uint8Array {
+  return encode([
+    [1, 'message', [
+      [1, 'varint', MANGADEX_SOURCE_ID],
+      [2, 'string', '/manga/32d76d19-8a05-4db0-9fc2-e0b0648fe9d0'],
+      [3, 'string', 'Solo Leveling'],
+      [8, 'varint', 2],
+      [16, 'message', [[4, 'varint', 1], [9, 'float', 1]]],
+      [16, 'message', [[4, 'varint', 1], [9, 'float', 2.5]]],
+      [104, 'message', [[1, 'string', '/chapter/2'], [2, 'varint', 1767225600000]]],
+    ]],
+    [1, 'message', [
+      [1, 'varint', OTHER_SOURCE_ID],
+      [2, 'string', '/series/omniscient-reader'],
+      [3, 'string', "Omniscient Reader's Viewpoint"],
+      [16, 'message', [[4, 'varint', 1], [9, 'float', 10]]],
+      [16, 'message', [[9, 'float', 11]]],
+      [18, 'message', [[1, 'varint', 2], [6, 'float', 42], [100, 'varint', 119257]]],
+      [18, 'message', [[1, 'varint', 7], [4, 'string', 'https://www.mangaupdates.com/series/pb8uwds/one-piece'], [100, 'varint', 55099564912]]],
+    ]],
+    [1, 'message', [
+      [1, 'varint', OTHER_SOURCE_ID],
+      [2, 'string', '/series/plan-only'],
+      [3, 'string', 'Plan Only'],
+    ]],
+    [1, 'message', [
+      [1, 'varint', OTHER_SOURCE_ID],
+      [2, 'string', '/series/browsed'],
+      [3, 'string', 'Browsed Not Favorited'],
+      [100, 'varint', 0],
+    ]],
+    [101, 'message', [[1, 'string', 'MangaDex'], [2, 'varint', MANGADEX_SOURCE_ID]]],
+    [101, 'message', [[1, 'string', 'Some Scanlator'], [2, 'varint', OTHER_SOURCE_ID]]],
+  ])
+}
+
+describe('Platform Importers', () => {
+  describe('Kenmei CSV', () => {
+    it('should map Kenmei statuses and fill platform ids from series_url', () => {
+      const csv = [
+        'title,status,last_volume_read,last_chapter_read,last_read_at,series_url,tracked_site',
+        'Solo Leveling,completed,,179,2026-01-05T10:00:00Z,https://mangadex.org/title/32d76d19-8a05-4db0-9fc2-e0b0648fe9d0,MangaDex',
+        '"Tower of God",plan_to_read,,0,,https://www.mangaupdates.com/series/r4ch2xl/tower-of-god,MangaUpdates',
+        'Berserk,on_hold,,364.5,,,Other',
+      ].join('\n')
+
+      const entries = parseKenmeiCSV(csv)
+      expect(entries).toHaveLength(3)
+      expect(entries[0]).toMatchObject({
+        title: 'Solo Leveling',
+        status: 'completed',
+        progress: 179,
+        external_id: '32d76d19-8a05-4db0-9fc2-e0b0648fe9d0',
+        source_platform: 'mangadex',
+        source_name: 'mangadex',
+      })
+      expect(entries[1]).toMatchObject({
+        status: 'planning',
+        source_platform: 'mangaupdates',
+        external_id: String(parseInt('r4ch2xl', 36)),
+      })
+      expect(entries[2]).toMatchObject({ status: 'paused', progress: 364, source_platform: 'other' })
+      expect(entries[2].source_url).toBeUndefined()
+    })
+  })
+
+  describe('MangaUpdates list', () => {
+    it('should parse the lists API search response', () => {
+      const json = JSON.stringify({
+        total_hits: 2,
+        results: [
+          {
+            record: {
+              series: { id: 55099564912, url: 'https://www.mangaupdates.com/series/pb8uwds/one-piece', title: 'One Piece' },
+              list_id: 0,
+              status: { volume: 105, chapter: 1100 },
+              time_added: { timestamp: 1700000000 },
+            },
+          },
+          { record: { series: { id: 66788345008, title: 'Vagabond' }, list_id: 4, status: { chapter: 327 } } },
+          { record: { series: { id: 1 }, list_id: 0 } },
+        ],
+      })
+
+      const entries = parseMangaUpdatesList(json)
+      expect(entries).toHaveLength(2)
+      expect(entries[0]).toEqual({
+        title: 'One Piece',
+        status: 'reading',
+        progress: 1100,
+        last_updated: 1700000000000,
+        external_id: '55099564912',
+        source_platform: 'mangaupdates',
+        source_url: 'https://www.mangaupdates.com/series/pb8uwds/one-piece',
+        source_name: 'mangaupdates',
+      })
+      expect(entries[1]).toMatchObject({
+        status: 'paused',
+        source_url: `https://www.mangaupdates.com/series/${(66788345008).toString(36)}`,
+        external_id: '66788345008',
+      })
+    })
+
+    it('should reject files that are not JSON', () => {
+      expect(() => parseMangaUpdatesList('<html></html>')).toThrow('Failed to parse MangaUpdates list file')
+    })
+  })
+
+  describe('Tachiyomi/Mihon backup', () => {
+    it('should decode library entries with source urls and progress', () => {
+      const entries = parseTachiyomiBackup(buildBackup())
+
+      expect(entries.map(e => e.title)).toEqual(['Solo Leveling', "Omniscient Reader's Viewpoint", 'Plan Only'])
+      expect(entries[0]).toEqual({
+        title: 'Solo Leveling',
+        status: 'completed',
+        progress: 2,
+        last_updated: 1767225600000,
+        external_id: '32d76d19-8a05-4db0-9fc2-e0b0648fe9d0',
+        source_platform: 'mangadex',
+        source_url: 'https://mangadex.org/title/32d76d19-8a05-4db0-9fc2-e0b0648fe9d0',
+        source_name: 'mangadex',
+      })
+      // MangaUpdates tracker wins over AniList; tracker progress beats local reads
+      expect(entries[1]).toMatchObject({
+        status: 'reading',
+        progress: 42,
+        source_platform: 'mangaupdates',
+        external_id: '55099564912',
+        source_url: 'https://www.mangaupdates.com/series/pb8uwds/one-piece',
+      })
+      expect(entries[2]).toMatchObject({ status: 'planning', progress: 0, source_platform: 'tachiyomi' })
+      expect(entries[2].source_url).toBeUndefined()
+    })
+
+    it('should require decompressed input', () => {
+      const gz = new Uint8Array(gzipSync(buildBackup()))
+      expect(isGzipped(gz)).toBe(true)
+      expect(() => parseTachiyomiBackup(gz)).toThrow(TachiyomiBackupError)
+    })
+
+    it('should reject truncated data', () => {
+      const bytes = buildBackup()
+      expect(() => parseTachiyomiBackup(bytes.subarray(0, bytes.length - 3))).toThrow(TachiyomiBackupError)
+    })
+  })
+
+  describe('platform ids', () => {
+    it('should resolve MangaUpdates base36 urls to numeric series ids', () => {
+      expect(extractPlatformIds('https://www.mangaupdates.com/series/pb8uwds/one-piece')).toEqual({
+        platform: 'mangaupdates',
+        id: '55099564912',
+      })
+      expect(identifyPlatformUrl('https://anilist.co/manga/30013')).toEqual({ platform: 'anilist', id: '30013' })
+    })
+
+    it('should normalize the recorded import source platform', () => {
+      expect(resolveImportSourcePlatform('Kenmei')).toBe('kenmei')
+      expect(resolveImportSourcePlatform('mihon')).toBe('tachiyomi')
+      expect(resolveImportSourcePlatform('something-else')).toBe('csv')
+    })
+  })
+})
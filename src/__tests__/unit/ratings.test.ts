@@ -0,0 +1,159 @@
+jest.mock('@/lib/prisma', () => ({ prisma: {} }))
+
+import {
+  anilistScoreToCanonical,
+  bayesianRating,
+  canonicalToMalScore,
+  formatRating,
+  fromCanonicalRating,
+  malScoreToCanonical,
+  parseRatingInput,
+  ratingBucket,
+  ratingScaleValues,
+  resolveAniListScoreFormat,
+  toCanonicalRating,
+} from '@/lib/ratings'
+import { summarizeSeriesRatings } from '@/lib/series-ratings'
+import { parseCSV } from '@/lib/sync/csv-parser'
+import { ExportEntry, formatExportCSV, formatExportMalXml } from '@/lib/sync/exporter'
+
+describe('Rating scales', () => {
+  describe('conversion', () => {
+    it('should convert every scale to the canonical 0-100 score', () => {
+      expect(toCanonicalRating(73, 'POINT_100')).toBe(73)
+      expect(toCanonicalRating(0, 'POINT_100')).toBe(0)
+      expect(toCanonicalRating(8.5, 'POINT_10_DECIMAL')).toBe(85)
+      expect(toCanonicalRating(8, 'POINT_10')).toBe(80)
+      expect(toCanonicalRating(4.5, 'POINT_5')).toBe(90)
+      expect(toCanonicalRating(0.5, 'POINT_5')).toBe(10)
+      expect(toCanonicalRating(3, 'POINT_3')).toBe(85)
+    })
+
+    it('should reject values off the scale or between its steps', () => {
+      expect(toCanonicalRating(8.5, 'POINT_10')).toBeNull()
+      expect(toCanonicalRating(4.25, 'POINT_5')).toBeNull()
+      expect(toCanonicalRating(0, 'POINT_10_DECIMAL')).toBeNull()
+      expect(toCanonicalRating(101, 'POINT_100')).toBeNull()
+      expect(toCanonicalRating(Number.NaN, 'POINT_100')).toBeNull()
+    })
+
+    it('should round-trip every value a rating control offers', () => {
+      for (const scale of ['POINT_100', 'POINT_10_DECIMAL', 'POINT_10', 'POINT_5', 'POINT_3'] as const) {
+        for (const value of ratingScaleValues(scale)) {
+          expect(fromCanonicalRating(toCanonicalRating(value, scale)!, scale)).toBe(value)
+        }
+      }
+      expect(ratingScaleValues('POINT_5')).toEqual([0.5, 1, 1.5, 2, 2.5, 3, 3.5, 4, 4.5, 5])
+    })
+
+    it('should format canonical scores on the reader\'s scale', () => {
+      expect(formatRating(85, 'POINT_10_DECIMAL')).toBe('8.5/10')
+      expect(formatRating(85, 'POINT_5')).toBe('4.5/5')
+      expect(formatRating(85, 'POINT_10')).toBe('9/10')
+      expect(formatRating(40, 'POINT_3')).toBe(':|')
+      expect(formatRating(null, 'POINT_100')).toBe('')
+      expect(formatRating(0, 'POINT_100')).toBe('0/100')
+      expect(formatRating(0, 'POINT_10')).toBe('1/10')
+    })
+  })
+
+  describe('parseRatingInput', () => {
+    it('should default to the 1-10 scale', () => {
+      expect(parseRatingInput(7)).toEqual({ score: 70 })
+      expect(parseRatingInput(15)).toHaveProperty('error')
+      expect(parseRatingInput(null)).toEqual({ score: null })
+    })
+
+    it('should accept half points on the 5 star scale and reject unknown scales', () => {
+      expect(parseRatingInput(3.5, 'POINT_5')).toEqual({ score: 70 })
+      expect(parseRatingInput(3.25, 'POINT_5')).toEqual({ error: 'Rating must be between 0.5 and 5 in steps of 0.5' })
+      expect(parseRatingInput(7, 'STARS')).toHaveProperty('error')
+    })
+  })
+
+  describe('imports', () => {
+    it('should read AniList scores in the list owner\'s format, 0 meaning unscored', () => {
+      expect(anilistScoreToCanonical(85)).toBe(85)
+      expect(anilistScoreToCanonical(7.5, 'POINT_10_DECIMAL')).toBe(75)
+      expect(anilistScoreToCanonical(4, 'POINT_5')).toBe(80)
+      expect(anilistScoreToCanonical(2, 'POINT_3')).toBe(60)
+      expect(anilistScoreToCanonical(0, 'POINT_100')).toBeNull()
+    })
+
+    it('should infer the AniList format of bare lists from the scores', () => {
+      expect(resolveAniListScoreFormat('POINT_5', [80])).toBe('POINT_5')
+      expect(resolveAniListScoreFormat(undefined, [7.5, 82])).toBe('POINT_100')
+      expect(resolveAniListScoreFormat(undefined, [7.5, 9])).toBe('POINT_10_DECIMAL')
+    })
+
+    it('should convert MyAnimeList whole points both ways', () => {
+      expect(malScoreToCanonical(8)).toBe(80)
+      expect(malScoreToCanonical(0)).toBeNull()
+      expect(canonicalToMalScore(85)).toBe(9)
+      expect(canonicalToMalScore(null)).toBe(0)
+    })
+
+    it('should read canonical and 10 point ratings from CSV', () => {
+      const [canonical] = parseCSV('title,status,score_100\nBerserk,reading,93')
+      const [decimal] = parseCSV('title,status,rating\nVagabond,completed,8.5')
+
+      expect(canonical.rating).toBe(93)
+      expect(decimal.rating).toBe(85)
+    })
+  })
+
+  describe('exports', () => {
+    const entry: ExportEntry = {
+      title: 'Berserk',
+      status: 'reading',
+      last_read_chapter: 370,
+      last_read_at: null,
+      rating: 93,
+      source_url: 'https://myanimelist.net/manga/2/Berserk',
+      source_name: 'myanimelist',
+      series_id: null,
+      mangadex_id: null,
+      mangaupdates_id: null,
+      added_at: '2026-01-01T00:00:00.000Z',
+      updated_at: '2026-01-01T00:00:00.000Z',
+      chapter_reads: [],
+    }
+
+    it('should export the canonical score to CSV and re-import it unchanged', () => {
+      const csv = formatExportCSV([entry])
+      expect(csv.split('\n')[0]).toContain('score_100')
+      expect(parseCSV(csv)[0].rating).toBe(93)
+    })
+
+    it('should export whole points to MyAnimeList', () => {
+      expect(formatExportMalXml([entry])).toContain('<my_score>9</my_score>')
+    })
+  })
+
+  describe('series averages', () => {
+    it('should pull a handful of ratings towards the prior', () => {
+      expect(bayesianRating(100, 1)).toBeCloseTo(72.73, 2)
+      expect(bayesianRating(100 * 1000, 1000)).toBeGreaterThan(99)
+    })
+
+    it('should use the external rating as the prior and fall back to it without ratings', () => {
+      const summary = summarizeSeriesRatings(
+        [{ bucket: 10, count: 2, total: 200 }, { bucket: 6, count: 1, total: 60 }],
+        8
+      )
+
+      // (10 * 80 + 260) / 13 = 81.54 → 8.15
+      expect(summary.average_rating).toBe(8.15)
+      expect(summary.rating_count).toBe(3)
+      expect(summary.distribution).toMatchObject({ 1: 0, 6: 1, 10: 2 })
+      expect(summarizeSeriesRatings([], 7.12)).toEqual(expect.objectContaining({ average_rating: 7.12, rating_count: 0 }))
+      expect(summarizeSeriesRatings([], null).average_rating).toBeNull()
+    })
+
+    it('should bucket canonical scores into the 1-10 distribution', () => {
+      expect(ratingBucket(1)).toBe(1)
+      expect(ratingBucket(85)).toBe(9)
+      expect(ratingBucket(100)).toBe(10)
+    })
+  })
+})
@@ -0,0 +1,110 @@
+const mockSignalRows = jest.fn()
+
+jest.mock('@/lib/supabase/admin', () => ({
+  supabaseAdmin: {
+    from: jest.fn(() => {
+      const query: Record<string, jest.Mock> = {}
+      for (const method of ['select', 'eq', 'in', 'not', 'order']) query[method] = jest.fn(() => query)
+      query.limit = jest.fn(() => Promise.resolve(mockSignalRows()))
+      return query
+    }),
+  },
+}))
+
+import { SIGNAL_WEIGHTS } from '@/lib/analytics/signals'
+import {
+  getRecommendationSuppressions,
+  isRecommendationFeedback,
+  isSuppressed,
+  strongSharedTags,
+} from '@/lib/recommendation-feedback'
+import { affinityAttributes, explainRecommendation } from '@/lib/recommendations'
+
+const USER_ID = '550e8400-e29b-41d4-a716-446655440001'
+
+describe('Recommendation feedback', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  it('should weight feedback signals in both directions', () => {
+    expect(SIGNAL_WEIGHTS.not_interested).toBeLessThan(0)
+    expect(SIGNAL_WEIGHTS.more_like_this).toBeGreaterThan(SIGNAL_WEIGHTS.add_to_library)
+    expect(SIGNAL_WEIGHTS.read_elsewhere).toBeGreaterThan(0)
+    expect(isRecommendationFeedback('not_interested')).toBe(true)
+    expect(isRecommendationFeedback('rating')).toBe(false)
+  })
+
+  describe('strongSharedTags', () => {
+    it('should only suppress tags shared by several dismissed series', () => {
+      const tags = strongSharedTags(
+        [
+          { tags: ['Harem', 'Isekai'], themes: ['Reincarnation'] },
+          { tags: ['harem'], themes: ['Villainess'] },
+          { tags: ['Isekai', 'Harem'], themes: [] },
+        ],
+        []
+      )
+
+      expect([...tags].sort()).toEqual(['harem', 'isekai'])
+    })
+
+    it('should keep tags the user asked for more of', () => {
+      const tags = strongSharedTags(
+        [{ tags: ['Harem', 'Isekai'] }, { tags: ['Harem', 'Isekai'] }],
+        [{ tags: ['Isekai'] }]
+      )
+
+      expect([...tags]).toEqual(['harem'])
+    })
+  })
+
+  it('should suppress dismissed series and series with suppressed tags', () => {
+    const suppressions = { seriesIds: new Set(['dismissed']), tags: new Set(['harem']) }
+
+    expect(isSuppressed({ id: 'dismissed' }, suppressions)).toBe(true)
+    expect(isSuppressed({ id: 'other', tags: ['Action'], themes: ['Harem'] }, suppressions)).toBe(true)
+    expect(isSuppressed({ id: 'other', tags: ['Action'] }, suppressions)).toBe(false)
+  })
+
+  it('should build suppressions from the user\'s feedback signals', async () => {
+    mockSignalRows.mockReturnValueOnce({
+      data: [
+        { series_id: 'a', signal_type: 'not_interested', series: { tags: ['Harem'], themes: [] } },
+        { series_id: 'b', signal_type: 'not_interested', series: { tags: ['Harem', 'Gore'], themes: [] } },
+        { series_id: 'c', signal_type: 'read_elsewhere', series: { tags: ['Gore'], themes: [] } },
+        { series_id: 'd', signal_type: 'more_like_this', series: { tags: ['Harem'], themes: [] } },
+      ],
+      error: null,
+    })
+
+    const suppressions = await getRecommendationSuppressions(USER_ID)
+
+    expect([...suppressions.seriesIds].sort()).toEqual(['a', 'b', 'c'])
+    expect(suppressions.tags.size).toBe(0)
+  })
+
+  describe('explanations', () => {
+    const profile = {
+      topGenres: ['Fantasy'],
+      topThemes: [],
+      affinities: { genre: { Action: 4 }, theme: { Dungeons: 2 }, type: { manhwa: 1 } },
+    }
+
+    it('should list the affinity attributes a series matches, strongest first', () => {
+      const attributes = affinityAttributes(
+        { genres: ['Action', 'Fantasy', 'Romance'], themes: ['Dungeons'], type: 'manhwa' },
+        profile
+      )
+
+      expect(attributes.map(a => a.value)).toEqual(['Action', 'Dungeons', 'Fantasy'])
+      expect(explainRecommendation(attributes, [], 'Trending Now').summary)
+        .toBe('Matches your interest in Action, Dungeons and Fantasy')
+    })
+
+    it('should prefer the library series behind a collaborative match and fall back to the reason', () => {
+      expect(explainRecommendation([], [{ title: 'Solo Leveling' }], 'Trending Now').summary).toBe('Because you read Solo Leveling')
+      expect(explainRecommendation([], [], 'Trending Now')).toEqual({ summary: 'Trending Now', attributes: [] })
+    })
+  })
+})
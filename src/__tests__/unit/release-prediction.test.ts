@@ -0,0 +1,48 @@
+import { classifyCadence, predictNextRelease, serializeReleaseSchedule } from '@/lib/release-prediction'
+
+const DAY = 24 * 60 * 60 * 1000
+const START = Date.UTC(2026, 0, 5)
+const at = (day: number) => new Date(START + day * DAY)
+const every = (interval: number, count: number) => Array.from({ length: count }, (_, i) => at(i * interval))
+
+describe('Release schedule prediction', () => {
+  it('should detect weekly, biweekly and monthly cadences', () => {
+    expect(predictNextRelease(every(7, 8), at(52))).toMatchObject({ cadence: 'weekly', interval_days: 7, status: 'on_schedule' })
+    expect(predictNextRelease(every(14, 8), at(100))).toMatchObject({ cadence: 'biweekly', interval_days: 14 })
+    expect(predictNextRelease([0, 31, 59, 90, 120, 151].map(at), at(160))).toMatchObject({ cadence: 'monthly', interval_days: 31 })
+  })
+
+  it('should call scattered releases irregular with low confidence', () => {
+    const prediction = predictNextRelease([0, 3, 20, 24, 45, 47, 70].map(at), at(72))!
+
+    expect(prediction.cadence).toBe('irregular')
+    expect(prediction.confidence).toBeLessThan(0.5)
+    expect(classifyCadence(7, 0.4)).toBe('irregular')
+    expect(classifyCadence(21, 1)).toBe('irregular')
+  })
+
+  it('should scale confidence with regularity and history length', () => {
+    expect(predictNextRelease(every(7, 7), at(43))!.confidence).toBe(1)
+    expect(predictNextRelease(every(7, 4), at(22))!.confidence).toBe(0.5)
+  })
+
+  it('should mark late releases and hiatuses', () => {
+    const weekly = every(7, 8)
+
+    expect(predictNextRelease(weekly, at(49 + 2))!.status).toBe('on_schedule')
+    expect(predictNextRelease(weekly, at(49 + 9))!.status).toBe('late')
+    // Four missed weeks is still short of the 30-day floor
+    expect(predictNextRelease(weekly, at(49 + 28))!.status).toBe('late')
+    expect(predictNextRelease(weekly, at(49 + 31))!.status).toBe('hiatus')
+    expect(predictNextRelease(every(30, 6), at(150 + 100))!.status).toBe('late')
+    expect(predictNextRelease(every(30, 6), at(150 + 121))!.status).toBe('hiatus')
+  })
+
+  it('should drop the next date for series on hiatus', () => {
+    const onTime = serializeReleaseSchedule(predictNextRelease(every(7, 8), at(50))!)
+    const hiatus = serializeReleaseSchedule(predictNextRelease(every(7, 8), at(120))!)
+
+    expect(onTime.predicted_next_at).toBe(at(56).toISOString())
+    expect(hiatus).toMatchObject({ status: 'hiatus', predicted_next_at: null, last_release_at: at(49).toISOString() })
+  })
+})
@@ -0,0 +1,140 @@
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    savedFilter: { findMany: jest.fn(), update: jest.fn((args: unknown) => args) },
+    notification: { create: jest.fn((args: unknown) => args) },
+    $queryRawUnsafe: jest.fn(),
+    $transaction: jest.fn(),
+  },
+}))
+
+import { prisma } from '@/lib/prisma'
+import { FilterSchema } from '@/lib/schemas/filters'
+import {
+  describeSavedFilter,
+  runSavedFilterAlerts,
+  savedFilterBrowseUrl,
+  WATCH_PERIOD_MS,
+} from '@/lib/saved-filter-alerts'
+
+const mockPrisma = prisma as unknown as {
+  savedFilter: { findMany: jest.Mock; update: jest.Mock }
+  notification: { create: jest.Mock }
+  $queryRawUnsafe: jest.Mock
+  $transaction: jest.Mock
+}
+
+const NOW = new Date('2026-11-03T12:00:00.000Z')
+const LAST_CHECK = new Date('2026-11-02T12:00:00.000Z')
+const USER_ID = '550e8400-e29b-41d4-a716-446655440001'
+const FILTER_ID = '550e8400-e29b-41d4-a716-446655440002'
+
+const finishedRomance = FilterSchema.parse({
+  type: ['manhwa'],
+  genres: ['Romance'],
+  publicationStatus: ['completed'],
+})
+
+const savedFilter = (overrides: Record<string, unknown> = {}) => ({
+  id: FILTER_ID,
+  user_id: USER_ID,
+  name: 'Finished Romance',
+  filter_payload: finishedRomance,
+  last_checked_at: LAST_CHECK,
+  ...overrides,
+})
+
+describe('Saved filter alerts', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockPrisma.$transaction.mockResolvedValue([])
+  })
+
+  it('should describe the filter the way the notification reads', () => {
+    expect(describeSavedFilter(finishedRomance)).toBe('completed romance manhwa')
+    expect(describeSavedFilter(FilterSchema.parse({}))).toBe('series')
+  })
+
+  it('should link to browse with the filter as a query', () => {
+    expect(savedFilterBrowseUrl(finishedRomance)).toBe(
+      `/browse?q=${encodeURIComponent('type:manhwa genre:romance status:completed')}`
+    )
+  })
+
+  it('should send one grouped notification for the new matches since the last check', async () => {
+    mockPrisma.savedFilter.findMany.mockResolvedValueOnce([savedFilter()])
+    mockPrisma.$queryRawUnsafe
+      .mockResolvedValueOnce([
+        { id: 'a', title: 'Marry My Husband' },
+        { id: 'b', title: 'Lady Baby' },
+        { id: 'c', title: 'The Remarried Empress' },
+      ])
+      .mockResolvedValueOnce([{ total: BigInt(3) }])
+
+    const result = await runSavedFilterAlerts(NOW)
+
+    expect(result).toEqual({ checked: 1, notified: 1, failed: 0 })
+
+    const [sql, ...params] = mockPrisma.$queryRawUnsafe.mock.calls[0]
+    expect(sql).toMatch(/\(\(s\.created_at > \$(\d+) AND s\.created_at <= \$(\d+)\) OR \(s\.tier_promoted_at > \$\1 AND s\.tier_promoted_at <= \$\2\)\)/)
+    expect(params).toEqual(expect.arrayContaining([LAST_CHECK, NOW]))
+
+    expect(mockPrisma.notification.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        user_id: USER_ID,
+        type: 'saved_filter_matches',
+        title: "3 new completed romance manhwa matching 'Finished Romance'",
+        message: 'Marry My Husband, Lady Baby and The Remarried Empress.',
+        series_id: null,
+        metadata: expect.objectContaining({ saved_filter_id: FILTER_ID, count: 3, url: savedFilterBrowseUrl(finishedRomance) }),
+      }),
+    })
+    expect(mockPrisma.savedFilter.update).toHaveBeenCalledWith({
+      where: { id: FILTER_ID },
+      data: { last_checked_at: NOW, last_notified_at: NOW },
+    })
+  })
+
+  it('should only pick filters whose watch period has elapsed', async () => {
+    mockPrisma.savedFilter.findMany.mockResolvedValueOnce([])
+
+    await runSavedFilterAlerts(NOW)
+
+    const { where } = mockPrisma.savedFilter.findMany.mock.calls[0][0]
+    expect(where.watch).toBe(true)
+    expect(where.OR).toEqual([
+      { last_checked_at: null },
+      { watch_period: 'daily', last_checked_at: { lte: new Date(NOW.getTime() - WATCH_PERIOD_MS.daily) } },
+      { watch_period: 'weekly', last_checked_at: { lte: new Date(NOW.getTime() - WATCH_PERIOD_MS.weekly) } },
+    ])
+  })
+
+  it('should move the window without notifying when nothing new matches', async () => {
+    mockPrisma.savedFilter.findMany.mockResolvedValueOnce([savedFilter()])
+    mockPrisma.$queryRawUnsafe.mockResolvedValueOnce([]).mockResolvedValueOnce([{ total: BigInt(0) }])
+
+    const result = await runSavedFilterAlerts(NOW)
+
+    expect(result.notified).toBe(0)
+    expect(mockPrisma.notification.create).not.toHaveBeenCalled()
+    expect(mockPrisma.savedFilter.update).toHaveBeenCalledWith({ where: { id: FILTER_ID }, data: { last_checked_at: NOW } })
+  })
+
+  it('should start the first window for filters that were never checked', async () => {
+    mockPrisma.savedFilter.findMany.mockResolvedValueOnce([savedFilter({ last_checked_at: null })])
+
+    await runSavedFilterAlerts(NOW)
+
+    expect(mockPrisma.$queryRawUnsafe).not.toHaveBeenCalled()
+    expect(mockPrisma.savedFilter.update).toHaveBeenCalledWith({ where: { id: FILTER_ID }, data: { last_checked_at: NOW } })
+  })
+
+  it('should keep the window of a filter that failed so the next run retries it', async () => {
+    mockPrisma.savedFilter.findMany.mockResolvedValueOnce([savedFilter()])
+    mockPrisma.$queryRawUnsafe.mockRejectedValue(new Error('connection reset'))
+
+    const result = await runSavedFilterAlerts(NOW)
+
+    expect(result).toEqual({ checked: 1, notified: 0, failed: 1 })
+    expect(mockPrisma.savedFilter.update).not.toHaveBeenCalled()
+  })
+})
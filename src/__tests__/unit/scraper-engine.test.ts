@@ -0,0 +1,224 @@
+import { readFileSync } from 'fs'
+import { join } from 'path'
+import { parseHtml, selectAll, selectOne, textContent } from '@/lib/scrapers/html'
+import { getJsonPath } from '@/lib/scrapers/json-path'
+import { defineSource } from '@/lib/scrapers/definition'
+import { DeclarativeScraper, extractSeries, parseChapterDate, parseChapterNumber, resolveSeriesUrl } from '@/lib/scrapers/engine'
+import { ScraperRegistry } from '@/lib/scrapers/registry'
+import { ProxyBlockedError, ScraperError, SelectorNotFoundError } from '@/lib/scrapers/errors'
+import { resetAllScraperBreakers } from '@/lib/scrapers/circuit-breaker'
+
+jest.mock('@/lib/rate-limiter', () => ({
+  sourceRateLimiter: { acquireToken: jest.fn().mockResolvedValue(true) },
+}))
+
+jest.mock('@/lib/dns-init', () => ({
+  initDNS: jest.fn(),
+}))
+
+const FIXTURES = join(__dirname, '../fixtures/scrapers')
+const fixture = (name: string) => readFileSync(join(FIXTURES, name), 'utf8')
+
+const exampleReader = defineSource({
+  name: 'example-reader',
+  format: 'html',
+  hosts: ['reader.example.com'],
+  series: {
+    urlPattern: /^https:\/\/reader\.example\.com\/series\/([\w.-]+)/,
+    urlTemplate: 'https://reader.example.com/series/{id}',
+  },
+  title: { selector: '.series-info h1' },
+  chapters: {
+    list: '#chapter-list > li.chapter',
+    url: { selector: 'a.chapter-link', attr: 'href' },
+    number: { selector: '.chapter-link' },
+    id: { attr: 'data-id' },
+    publishedAt: { selector: '.chapter-date' },
+  },
+  dates: { format: 'relative' },
+  rateLimit: { requestsPerSecond: 0.5, burstSize: 1, cooldownMs: 2000 },
+})
+
+const exampleApi = defineSource({
+  name: 'example-api',
+  format: 'json',
+  hosts: ['api.example.com'],
+  series: {
+    urlPattern: /^https:\/\/example\.com\/title\/([\w-]+)/,
+    urlTemplate: 'https://api.example.com/series/{id}',
+  },
+  title: 'data.attributes.title.en',
+  chapters: {
+    list: 'data.chapters',
+    url: 'id',
+    urlTemplate: 'https://example.com/chapter/{value}',
+    number: 'attributes.chapter',
+    title: 'attributes.title',
+    id: 'id',
+    publishedAt: 'attributes.publishedAt',
+  },
+  chapterNumber: { pattern: /^(\d+(?:\.\d+)?)$/ },
+  dates: { format: 'unix' },
+  rateLimit: { requestsPerSecond: 1, burstSize: 2, cooldownMs: 500 },
+})
+
+const NOW = new Date('2026-10-14T08:30:00Z')
+
+describe('Scraper engine', () => {
+  describe('html', () => {
+    it('should build a tree from loose markup', () => {
+      const doc = parseHtml('<ul><li>One<li class="b">Two &amp; <b>more</b></ul><p>After<br>line')
+      expect(selectAll(doc, 'ul > li').map(textContent)).toEqual(['One', 'Two & more'])
+      expect(textContent(selectOne(doc, 'p')!)).toBe('Afterline')
+      expect(selectOne(doc, 'ul li.b b')?.tag).toBe('b')
+    })
+
+    it('should match attribute selectors and selector groups', () => {
+      const doc = parseHtml('<a href="/read/1" rel="nofollow noopener">1</a><a href="https://x.test/2">2</a><span id="s">3</span>')
+      expect(selectAll(doc, 'a[href^="/read"]').map(textContent)).toEqual(['1'])
+      expect(selectAll(doc, 'a[rel~=noopener], #s').map(textContent)).toEqual(['1', '3'])
+      expect(selectAll(doc, '[href$="/2"]').map(textContent)).toEqual(['2'])
+      expect(() => selectAll(doc, 'a >')).toThrow('Invalid selector')
+    })
+  })
+
+  it('should read dotted JSON paths', () => {
+    const value = { data: { items: [{ id: 'a' }, { id: 'b' }] } }
+    expect(getJsonPath(value, 'data.items[1].id')).toBe('b')
+    expect(getJsonPath(value, 'data.missing.id')).toBeUndefined()
+    expect(getJsonPath(value, '')).toBe(value)
+  })
+
+  it('should parse chapter numbers and dates', () => {
+    expect(parseChapterNumber('Chapter 12: The Long Way Down')).toBe(12)
+    expect(parseChapterNumber('Vol.2 Ch. 11.5 - Extra')).toBe(11.5)
+    expect(parseChapterNumber('Episode 7')).toBe(7)
+    expect(parseChapterNumber('Oneshot')).toBeNull()
+    expect(parseChapterNumber('2 - Thaw', /^(\d+)$/)).toBeNull()
+
+    expect(parseChapterDate('2 days ago', 'relative', NOW)?.toISOString()).toBe('2026-10-12T08:30:00.000Z')
+    expect(parseChapterDate('an hour ago', 'relative', NOW)?.toISOString()).toBe('2026-10-14T07:30:00.000Z')
+    expect(parseChapterDate('yesterday', 'relative', NOW)?.toISOString()).toBe('2026-10-13T08:30:00.000Z')
+    expect(parseChapterDate('1760000000', 'unix')?.toISOString()).toBe('2025-10-09T08:53:20.000Z')
+    expect(parseChapterDate('not a date', 'iso')).toBeUndefined()
+  })
+
+  describe('extractSeries', () => {
+    it('should extract an HTML chapter list from a saved page', () => {
+      const series = extractSeries(exampleReader, fixture('example-reader-series.html'), {
+        sourceId: 'tower-and-sea',
+        pageUrl: 'https://reader.example.com/series/tower-and-sea',
+        now: NOW,
+      })
+
+      expect(series.title).toBe('The Tower & the Sea')
+      expect(series.chapters.map(c => [c.chapterNumber, c.chapterUrl, c.sourceChapterId])).toEqual([
+        [0, 'https://reader.example.com/read/tower-and-sea/oneshot', 'c-oneshot'],
+        [11, 'https://reader.example.com/read/tower-and-sea/11', 'c-11'],
+        [11.5, 'https://reader.example.com/read/tower-and-sea/11.5', 'c-11-5'],
+        [12, 'https://reader.example.com/read/tower-and-sea/12', 'c-12'],
+      ])
+      expect(series.chapters[0].chapterLabel).toBe('Special')
+      expect(series.chapters[2].chapterTitle).toBe('Ch. 11.5 – Extra')
+      expect(series.chapters[3].publishedAt?.toISOString()).toBe('2026-10-12T08:30:00.000Z')
+    })
+
+    it('should extract a JSON chapter list', () => {
+      const series = extractSeries(exampleApi, fixture('example-api-series.json'), {
+        sourceId: 'northern-lights',
+        pageUrl: 'https://api.example.com/series/northern-lights',
+      })
+
+      expect(series.title).toBe('Northern Lights')
+      expect(series.chapters).toHaveLength(3)
+      expect(series.chapters[0]).toMatchObject({
+        chapterNumber: 1,
+        chapterUrl: 'https://example.com/chapter/b1',
+        chapterTitle: '1',
+        sourceChapterId: 'b1',
+      })
+      expect(series.chapters[2]).toMatchObject({ chapterNumber: 2, chapterTitle: 'Thaw' })
+      expect(series.chapters[2].publishedAt?.toISOString()).toBe('2025-10-09T08:53:20.000Z')
+    })
+
+    it('should report drifted page structure as a missing selector', () => {
+      const run = () => extractSeries(exampleReader, '<html><body><h1>Moved</h1></body></html>', {
+        sourceId: 'x',
+        pageUrl: 'https://reader.example.com/series/x',
+      })
+      expect(run).toThrow(SelectorNotFoundError)
+      expect(() => extractSeries(exampleApi, '{"data":{"attributes":{"title":{"en":"T"}}}}', {
+        sourceId: 'x',
+        pageUrl: 'https://api.example.com/series/x',
+      })).toThrow('Selector not found: data.chapters')
+    })
+  })
+
+  it('should resolve series URLs and reject ids that would leave the source', () => {
+    expect(resolveSeriesUrl(exampleReader, 'https://reader.example.com/series/tower-and-sea?ref=home')).toEqual({
+      id: 'tower-and-sea',
+      url: 'https://reader.example.com/series/tower-and-sea',
+    })
+    expect(() => resolveSeriesUrl(exampleReader, 'https://evil.test/series/x')).toThrow(ScraperError)
+    expect(() => resolveSeriesUrl(exampleReader, '../admin')).toThrow('Invalid example-reader source id')
+  })
+
+  describe('DeclarativeScraper', () => {
+    const mockFetch = global.fetch as jest.Mock
+
+    beforeAll(() => {
+      // jsdom has no AbortSignal.timeout
+      if (!AbortSignal.timeout) {
+        AbortSignal.timeout = () => new AbortController().signal
+      }
+    })
+
+    beforeEach(() => {
+      resetAllScraperBreakers()
+      mockFetch.mockReset()
+    })
+
+    it('should fetch and extract a series, keeping only targeted chapters', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        url: 'https://reader.example.com/series/tower-and-sea',
+        text: async () => fixture('example-reader-series.html'),
+      })
+
+      const series = await new DeclarativeScraper(exampleReader).scrapeSeries('tower-and-sea', [11.5, 12])
+
+      expect(mockFetch).toHaveBeenCalledWith('https://reader.example.com/series/tower-and-sea', expect.objectContaining({ redirect: 'follow' }))
+      expect(series.chapters.map(c => c.chapterNumber)).toEqual([11.5, 12])
+    })
+
+    it('should map blocked and off-host responses to scraper errors', async () => {
+      const scraper = new DeclarativeScraper(exampleReader)
+
+      mockFetch.mockResolvedValueOnce({ ok: false, status: 403, url: '', text: async () => '' })
+      await expect(scraper.scrapeSeries('tower-and-sea')).rejects.toBeInstanceOf(ProxyBlockedError)
+
+      mockFetch.mockResolvedValueOnce({ ok: true, status: 200, url: 'https://evil.test/login', text: async () => '' })
+      await expect(scraper.scrapeSeries('tower-and-sea')).rejects.toThrow('redirected to an unexpected host')
+    })
+  })
+
+  describe('ScraperRegistry', () => {
+    it('should look scrapers up by name and by series URL host', () => {
+      const registry = new ScraperRegistry().registerDefinition(exampleReader).registerDefinition(exampleApi)
+
+      expect(registry.names()).toEqual(['example-reader', 'example-api'])
+      expect(registry.get('Example-Reader')).toBeInstanceOf(DeclarativeScraper)
+      expect(registry.forUrl('https://api.example.com/series/x')?.name).toBe('example-api')
+      expect(registry.forUrl('https://unknown.example.com/series/x')).toBeUndefined()
+      expect(registry.hosts()).toEqual(['reader.example.com', 'api.example.com'])
+    })
+
+    it('should refuse duplicate names and hosts', () => {
+      const registry = new ScraperRegistry().registerDefinition(exampleReader)
+
+      expect(() => registry.registerDefinition(exampleReader)).toThrow('already registered')
+      expect(() => registry.registerDefinition({ ...exampleApi, hosts: ['reader.example.com'] })).toThrow('already handled by example-reader')
+    })
+  })
+})
@@ -0,0 +1,221 @@
+import { mkdtempSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { scrapers, MangaDexScraper } from '@/lib/scrapers'
+import { defineSource } from '@/lib/scrapers/definition'
+import { DeclarativeScraper } from '@/lib/scrapers/engine'
+import { resetAllScraperBreakers } from '@/lib/scrapers/circuit-breaker'
+import {
+  SerializedSeries,
+  checkScrapeShape,
+  diffScrapeResults,
+  hasDrift,
+  loadScraperFixtures,
+  recordScraperFixture,
+  replayScraperFixture,
+  saveScraperFixture,
+} from '@/lib/scrapers/fixtures'
+
+jest.mock('@/lib/rate-limiter', () => ({
+  sourceRateLimiter: { acquireToken: jest.fn().mockResolvedValue(true) },
+}))
+
+jest.mock('@/lib/dns-init', () => ({
+  initDNS: jest.fn(),
+}))
+
+const RECORDED_DIR = join(__dirname, '../fixtures/scrapers/recorded')
+const MANGA_ID = '5f1b3a52-8c3e-4c2e-9d8a-0a1b2c3d4e5f'
+
+const exampleApi = defineSource({
+  name: 'example-api',
+  format: 'json',
+  hosts: ['api.example.com'],
+  series: {
+    urlPattern: /^https:\/\/example\.com\/title\/([\w-]+)/,
+    urlTemplate: 'https://api.example.com/series/{id}',
+  },
+  title: 'data.title',
+  chapters: {
+    list: 'data.chapters',
+    url: 'id',
+    urlTemplate: 'https://example.com/chapter/{value}',
+    number: 'number',
+    id: 'id',
+  },
+  chapterNumber: { pattern: /^(\d+(?:\.\d+)?)$/ },
+  rateLimit: { requestsPerSecond: 1, burstSize: 1, cooldownMs: 0 },
+})
+
+function jsonResponse(url: string, body: unknown, status = 200) {
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    statusText: status === 200 ? 'OK' : 'Error',
+    url,
+    headers: { get: (name: string) => (name.toLowerCase() === 'content-type' ? 'application/json' : null) },
+    text: async () => JSON.stringify(body),
+  }
+}
+
+const series = (chapters: SerializedSeries['chapters'], title = 'Northern Lights'): SerializedSeries => ({
+  sourceId: 'northern-lights',
+  title,
+  chapters,
+})
+
+const chapter = (id: string, chapterNumber: number) => ({
+  chapterNumber,
+  chapterUrl: `https://example.com/chapter/${id}`,
+  sourceChapterId: id,
+})
+
+describe('Scraper fixtures', () => {
+  const mockFetch = global.fetch as jest.Mock
+
+  beforeAll(() => {
+    // jsdom has no AbortSignal.timeout
+    if (!AbortSignal.timeout) {
+      AbortSignal.timeout = () => new AbortController().signal
+    }
+  })
+
+  beforeEach(() => {
+    resetAllScraperBreakers()
+    mockFetch.mockReset()
+  })
+
+  it('should replay every recorded fixture to its recorded result', async () => {
+    const fixtures = await loadScraperFixtures(RECORDED_DIR)
+    // An empty directory would make this test pass without replaying anything
+    expect(fixtures.length).toBeGreaterThan(0)
+
+    for (const fixture of fixtures) {
+      const scraper = scrapers[fixture.source]
+      expect(scraper).toBeDefined()
+
+      const result = await replayScraperFixture(scraper, fixture)
+      expect(result).toEqual(fixture.result)
+      expect(checkScrapeShape(result)).toEqual([])
+    }
+    expect(mockFetch).not.toHaveBeenCalled()
+  })
+
+  it('should record a declarative scraper and replay it without the network', async () => {
+    mockFetch.mockResolvedValueOnce(jsonResponse('https://api.example.com/series/northern-lights', {
+      data: { title: 'Northern Lights', chapters: [{ id: 'b2', number: '2' }, { id: 'b1', number: '1' }] },
+    }))
+
+    const scraper = new DeclarativeScraper(exampleApi)
+    const fixture = await recordScraperFixture(scraper, {
+      source: 'example-api',
+      name: 'Northern Lights',
+      call: { method: 'scrapeSeries', sourceId: 'northern-lights' },
+    })
+
+    expect(fixture.exchanges).toEqual([{
+      request: { method: 'GET', url: 'https://api.example.com/series/northern-lights' },
+      response: expect.objectContaining({ status: 200, headers: { 'content-type': 'application/json' } }),
+    }])
+    expect((fixture.result as SerializedSeries).chapters.map(c => c.sourceChapterId)).toEqual(['b1', 'b2'])
+
+    mockFetch.mockReset()
+    await expect(replayScraperFixture(scraper, fixture)).resolves.toEqual(fixture.result)
+    expect(mockFetch).not.toHaveBeenCalled()
+  })
+
+  it('should record every request a hand-written scraper makes', async () => {
+    mockFetch
+      .mockResolvedValueOnce(jsonResponse(`https://api.mangadex.org/manga/${MANGA_ID}`, {
+        data: { attributes: { title: { en: 'Sky Garden' } } },
+      }))
+      .mockResolvedValueOnce(jsonResponse('', {
+        total: 1,
+        data: [{ id: 'c-1', attributes: { chapter: '1', title: 'Seeds', publishAt: '2026-01-02T00:00:00Z' } }],
+      }))
+
+    const scraper = new MangaDexScraper()
+    const fixture = await recordScraperFixture(scraper, {
+      source: 'mangadex',
+      name: 'sky-garden',
+      call: { method: 'scrapeSeries', sourceId: MANGA_ID },
+    })
+
+    expect(fixture.exchanges).toHaveLength(2)
+    expect(fixture.result).toEqual({
+      sourceId: MANGA_ID,
+      title: 'Sky Garden',
+      chapters: [{
+        chapterNumber: 1,
+        chapterLabel: 'Chapter 1',
+        chapterTitle: 'Seeds',
+        chapterUrl: 'https://mangadex.org/chapter/c-1',
+        sourceChapterId: 'c-1',
+        publishedAt: '2026-01-02T00:00:00.000Z',
+      }],
+    })
+
+    const dir = mkdtempSync(join(tmpdir(), 'scraper-fixtures-'))
+    try {
+      await saveScraperFixture(dir, fixture)
+      const [loaded] = await loadScraperFixtures(dir, 'mangadex')
+      await expect(replayScraperFixture(scraper, loaded)).resolves.toEqual(fixture.result)
+    } finally {
+      rmSync(dir, { recursive: true, force: true })
+    }
+  })
+
+  it('should fail replay on requests that were never recorded', async () => {
+    const scraper = new DeclarativeScraper(exampleApi)
+    const fixture = {
+      version: 1,
+      source: 'example-api',
+      name: 'other',
+      call: { method: 'scrapeSeries' as const, sourceId: 'other-series' },
+      recordedAt: '2026-10-01T00:00:00.000Z',
+      exchanges: [],
+      result: series([]),
+    }
+
+    await expect(replayScraperFixture(scraper, fixture))
+      .rejects.toThrow('No recorded response for GET https://api.example.com/series/other-series')
+    expect(mockFetch).not.toHaveBeenCalled()
+  })
+
+  describe('drift', () => {
+    const recorded = series([chapter('b1', 1), chapter('b2', 2)])
+
+    it('should treat newly published chapters as expected', () => {
+      const diff = diffScrapeResults(recorded, series([chapter('b1', 1), chapter('b2', 2), chapter('b3', 3)]))
+
+      expect(diff.added.map(c => c.sourceChapterId)).toEqual(['b3'])
+      expect(hasDrift(diff)).toBe(false)
+    })
+
+    it('should flag removed, changed and renamed results', () => {
+      const diff = diffScrapeResults(recorded, series([{ ...chapter('b2', 0) }], 'Chapter List'))
+
+      expect(diff.title).toEqual({ from: 'Northern Lights', to: 'Chapter List' })
+      expect(diff.removed.map(c => c.sourceChapterId)).toEqual(['b1'])
+      expect(diff.changed).toEqual([{ key: 'b2', fields: { chapterNumber: { from: 2, to: 0 } } }])
+      expect(hasDrift(diff)).toBe(true)
+    })
+
+    it('should flag results that would ingest garbage', () => {
+      const diff = diffScrapeResults(recorded, series([
+        chapter('b1', 1),
+        chapter('b2', 2),
+        { chapterNumber: NaN, chapterUrl: '/chapter/b3', sourceChapterId: 'b1' },
+      ], ''))
+
+      expect(diff.problems).toEqual([
+        'missing series title',
+        'chapter 2 (/chapter/b3): invalid chapterNumber NaN',
+        'chapter 2 (/chapter/b3): chapterUrl is not an absolute URL',
+        'chapter 2 (/chapter/b3): duplicate sourceChapterId b1',
+      ])
+      expect(hasDrift(diff)).toBe(true)
+      expect(checkScrapeShape([])).toEqual(['no latest updates'])
+    })
+  })
+})
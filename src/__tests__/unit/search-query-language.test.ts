@@ -0,0 +1,158 @@
+jest.mock('@/lib/prisma', () => ({ prisma: {} }))
+
+import {
+  applySearchQuery,
+  browseFiltersFromCanonical,
+  filterToSearchQuery,
+  parseSearchQuery,
+  searchQueryToFilter,
+  suggestSearchQuery,
+} from '@/lib/search/query-language'
+import { buildBrowseQuery, type BrowseFilters, type ExtendedBrowseFilters } from '@/lib/sql/browse-query-builder'
+import { getSortConfig } from '@/lib/cursor-pagination'
+import { FilterSchema } from '@/lib/schemas/filters'
+
+const EXAMPLE = 'genre:romance -tag:"love triangle" type:manhwa status:ongoing chapters:>100 rating:>=8 year:2018..2022 lang:ko'
+
+const baseFilters: Omit<BrowseFilters, keyof ExtendedBrowseFilters> = {
+  q: null,
+  types: [],
+  genres: [],
+  themes: [],
+  includeWarnings: [],
+  excludeWarnings: [],
+  status: null,
+  contentRating: null,
+  source: null,
+  period: null,
+  dateFrom: null,
+  dateTo: null,
+  chapters: null,
+  originalLanguage: null,
+  translatedLanguage: null,
+}
+
+describe('Search query language', () => {
+  describe('parseSearchQuery', () => {
+    it('should parse every kind of term in the example query', () => {
+      const parsed = parseSearchQuery(EXAMPLE)
+
+      expect(parsed.errors).toEqual([])
+      expect(parsed.text).toBe('')
+      expect(parsed.filters).toMatchObject({
+        genres: ['Romance'],
+        excludeTags: ['Love Triangle'],
+        types: ['manhwa'],
+        status: 'ongoing',
+        chapters: { min: 101, max: null },
+        rating: { min: 8, max: null },
+        year: { min: 2018, max: 2022 },
+        originalLanguage: 'ko',
+      })
+    })
+
+    it('should keep unknown keys and plain words as free text', () => {
+      const parsed = parseSearchQuery('re:zero genre:isekai "starting life"')
+
+      expect(parsed.text).toBe('re:zero starting life')
+      expect(parsed.filters.genres).toEqual(['Isekai'])
+    })
+
+    it('should split comma separated values and accept aliases', () => {
+      const parsed = parseSearchQuery('g:action,comedy demo:seinen ch:<=50 score:7..9')
+
+      expect(parsed.filters.genres).toEqual(['Action', 'Comedy'])
+      expect(parsed.filters.demographics).toEqual(['seinen'])
+      expect(parsed.filters.chapters).toEqual({ min: null, max: 50 })
+      expect(parsed.filters.rating).toEqual({ min: 7, max: 9 })
+    })
+
+    it('should report invalid terms instead of guessing', () => {
+      expect(parseSearchQuery('type:webtoonz').errors).toEqual(['Unknown type "webtoonz"'])
+      expect(parseSearchQuery('-status:ongoing').errors).toEqual(["status can't be negated"])
+      expect(parseSearchQuery('genre:').errors).toEqual(['genre needs a value'])
+      expect(parseSearchQuery('rating:11').errors[0]).toMatch(/^rating expects a number between 0 and 10/)
+      expect(parseSearchQuery('year:2022..2018').errors).toHaveLength(1)
+      expect(parseSearchQuery('lang:klingon').errors).toEqual(['Unknown lang "klingon"'])
+      expect(parseSearchQuery('lang:korean').filters.originalLanguage).toBe('ko')
+    })
+  })
+
+  describe('compiling to SQL', () => {
+    it('should compile to the parameterized browse query', () => {
+      const filters = applySearchQuery(baseFilters, parseSearchQuery(EXAMPLE))
+      const { sql, params, countSql, countParams } = buildBrowseQuery(filters, getSortConfig('latest_chapter'), 24, null)
+
+      expect(sql).not.toContain('romance')
+      expect(sql).toContain('NOT (COALESCE(s.tags, \'{}\') && $')
+      expect(sql).toContain('s.average_rating >= $')
+      expect(sql).toContain('s.year >= $')
+      expect(sql).toContain('s.year <= $')
+      expect(params).toEqual(expect.arrayContaining([['manhwa'], ['Romance'], ['Love Triangle'], ['ongoing', 'releasing'], 101, 8, 2018, 2022, 'ko']))
+      expect(countSql).toContain('s.average_rating >= $')
+      expect(countParams).toEqual(params)
+    })
+
+    it('should leave the cursor out of the count query', () => {
+      const filters = applySearchQuery(baseFilters, parseSearchQuery('-genre:horror'))
+      const cursor = { s: 'last_chapter_date', d: 'desc' as const, v: '2026-01-01T00:00:00.000Z', i: '550e8400-e29b-41d4-a716-446655440000' }
+      const { params, countSql, countParams } = buildBrowseQuery(filters, getSortConfig('latest_chapter'), 24, cursor)
+
+      expect(params).toHaveLength(3)
+      expect(countParams).toEqual([['Horror']])
+      expect(countSql).not.toContain('$2')
+    })
+
+    it('should add list terms to URL filters and replace single values', () => {
+      const filters = applySearchQuery(
+        { ...baseFilters, genres: ['Action'], status: 'completed' },
+        parseSearchQuery('genre:comedy status:hiatus tower')
+      )
+
+      expect(filters.genres).toEqual(['Action', 'Comedy'])
+      expect(filters.status).toBe('hiatus')
+      expect(filters.q).toBe('tower')
+    })
+  })
+
+  describe('saved filters', () => {
+    it('should round-trip through SavedFilter.filter_payload', () => {
+      const query = `solo leveling ${EXAMPLE} demographic:shounen sort:score`
+      const filter = searchQueryToFilter(parseSearchQuery(query))
+
+      expect(FilterSchema.safeParse(filter).success).toBe(true)
+      expect(filter.sortBy).toBe('score')
+      expect(filter.q).toBe('solo leveling')
+
+      const roundTripped = searchQueryToFilter(parseSearchQuery(filterToSearchQuery(filter)))
+      expect(roundTripped).toEqual(filter)
+    })
+
+    it('should compile a saved filter to the same query as the string it came from', () => {
+      const parsed = parseSearchQuery(EXAMPLE)
+      const direct = buildBrowseQuery(applySearchQuery(baseFilters, parsed), getSortConfig('latest_chapter'), 24, null)
+      const saved = buildBrowseQuery(browseFiltersFromCanonical(searchQueryToFilter(parsed), null), getSortConfig('latest_chapter'), 24, null)
+
+      expect(saved.params).toEqual(direct.params)
+    })
+  })
+
+  describe('suggestSearchQuery', () => {
+    it('should suggest keys until a colon is typed', () => {
+      const suggestions = suggestSearchQuery('solo ge')
+      expect(suggestions.map(s => s.insertText)).toEqual(['genre:'])
+      expect(suggestSearchQuery('-st')).toEqual([])
+    })
+
+    it('should suggest values from the filter constants', () => {
+      expect(suggestSearchQuery('type:manh').map(s => s.insertText)).toEqual(['type:manhwa', 'type:manhua'])
+      expect(suggestSearchQuery('-genre:rom')[0]).toMatchObject({ type: 'value', label: 'Romance', insertText: '-genre:romance' })
+      expect(suggestSearchQuery('demo:sh').map(s => s.insertText)).toEqual(['demographic:shounen', 'demographic:shoujo'])
+    })
+
+    it('should quote values containing spaces', () => {
+      const [suggestion] = suggestSearchQuery('tag:"office w')
+      expect(suggestion.insertText).toBe('tag:"office workers"')
+    })
+  })
+})
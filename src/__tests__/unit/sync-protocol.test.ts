@@ -0,0 +1,187 @@
+import { resolveFieldChanges, CanonicalEntryState } from '@/lib/sync/protocol'
+import { SyncState } from '@/lib/sync/state'
+import { SyncOutbox, SyncAction } from '@/lib/sync/outbox'
+import {
+  applyQueuedActions,
+  clearOfflineData,
+  queryOfflineLibrary,
+  OfflineLibraryEntry,
+  OFFLINE_PAGE_CACHE,
+} from '@/lib/sync/offline-library'
+
+const current = {
+  values: { status: 'reading', rating: 7, progress: 12, notification_mode: 'default' },
+  versions: { status: 3, rating: 1, progress: 5, notification_mode: 0 },
+}
+
+function state(overrides: Partial<CanonicalEntryState> = {}): CanonicalEntryState {
+  return {
+    id: 'entry-1',
+    series_id: 'series-1',
+    status: 'reading',
+    rating: 7,
+    progress: 12,
+    notification_mode: 'default',
+    deleted: false,
+    versions: { status: 3, rating: 1, progress: 5, notification_mode: 0 },
+    sync_seq: '42',
+    ...overrides,
+  }
+}
+
+describe('Sync Protocol', () => {
+  describe('resolveFieldChanges', () => {
+    it('should accept changes based on the current versions', () => {
+      const result = resolveFieldChanges(current, { status: 'completed', rating: 9 }, { status: 3, rating: 1 })
+      expect(result).toEqual({
+        apply: { status: 'completed', rating: 9 },
+        fields: { status: 'accepted', rating: 'accepted' },
+        outcome: 'accepted',
+      })
+    })
+
+    it('should reject stale changes and report a merge when others applied', () => {
+      const result = resolveFieldChanges(current, { status: 'dropped', notification_mode: 'muted' }, { status: 2, notification_mode: 0 })
+      expect(result.apply).toEqual({ notification_mode: 'muted' })
+      expect(result.outcome).toBe('merged')
+
+      const rejected = resolveFieldChanges(current, { status: 'dropped' }, { status: 2 })
+      expect(rejected).toMatchObject({ apply: {}, outcome: 'rejected' })
+    })
+
+    it('should keep the furthest progress when progress versions diverge', () => {
+      expect(resolveFieldChanges(current, { progress: 20 }, { progress: 4 }).apply).toEqual({ progress: 20 })
+      expect(resolveFieldChanges(current, { progress: 8 }, { progress: 4 }).outcome).toBe('rejected')
+      // With a current base version the device may move progress back
+      expect(resolveFieldChanges(current, { progress: 8 }, { progress: 5 }).apply).toEqual({ progress: 8 })
+    })
+
+    it('should accept unversioned changes and skip writes that change nothing', () => {
+      expect(resolveFieldChanges(current, { rating: null }).apply).toEqual({ rating: null })
+      expect(resolveFieldChanges(current, { status: 'reading' }, { status: 0 })).toEqual({
+        apply: {},
+        fields: { status: 'accepted' },
+        outcome: 'accepted',
+      })
+    })
+  })
+
+  describe('client state', () => {
+    beforeEach(async () => {
+      localStorage.clear()
+      await SyncState.clear()
+      await SyncOutbox.clear()
+    })
+
+    it('should ignore server states older than the stored one', async () => {
+      await SyncState.applyEntries([state({ sync_seq: '50', status: 'completed' })], '50')
+      const applied = await SyncState.applyEntries([state({ sync_seq: '42' })])
+
+      expect(applied).toHaveLength(0)
+      expect((await SyncState.getEntry('entry-1'))?.status).toBe('completed')
+      expect(await SyncState.getCursor()).toBe('50')
+    })
+
+    it('should drop tombstoned entries', async () => {
+      await SyncState.applyEntries([state()])
+      await SyncState.applyEntries([state({ sync_seq: '43', deleted: true })], '43')
+      expect(await SyncState.getEntry('entry-1')).toBeUndefined()
+    })
+
+    it('should fold queued updates and keep the versions seen before the first edit', async () => {
+      await SyncState.applyEntries([state()])
+      await SyncOutbox.enqueue('LIBRARY_UPDATE', { entryId: 'entry-1', status: 'paused' })
+      await SyncState.applyEntries([state({ sync_seq: '43', versions: { status: 4, rating: 1, progress: 5, notification_mode: 0 } })])
+      await SyncOutbox.enqueue('LIBRARY_UPDATE', { entryId: 'entry-1', rating: 8 })
+
+      const actions = await SyncOutbox.getActions()
+      expect(actions).toHaveLength(1)
+      expect(actions[0].payload).toEqual({
+        entryId: 'entry-1',
+        status: 'paused',
+        rating: 8,
+        baseVersions: { status: 3, rating: 1, progress: 5, notification_mode: 0 },
+      })
+    })
+
+    it('should move the pre-IndexedDB outbox over on first use', async () => {
+      localStorage.setItem('mangatrack_sync_outbox', JSON.stringify([
+        { id: 'legacy-1', type: 'LIBRARY_ADD', payload: { seriesId: 'series-9' }, timestamp: 1, deviceId: 'd', retryCount: 0 },
+      ]))
+      jest.resetModules()
+      const { SyncOutbox: FreshOutbox } = await import('@/lib/sync/outbox')
+
+      expect((await FreshOutbox.getActions()).map(a => a.id)).toEqual(['legacy-1'])
+      expect(localStorage.getItem('mangatrack_sync_outbox')).toBeNull()
+    })
+  })
+
+  describe('offline library', () => {
+    function entry(overrides: Partial<OfflineLibraryEntry> = {}): OfflineLibraryEntry {
+      return {
+        id: 'entry-1',
+        series_id: 'series-1',
+        status: 'reading',
+        user_rating: 7,
+        last_read_chapter: 12,
+        notification_mode: 'default',
+        metadata_status: 'enriched',
+        sync_status: 'healthy',
+        needs_review: false,
+        source_url: '',
+        imported_title: null,
+        updated_at: '2026-01-01T00:00:00.000Z',
+        last_sync_at: null,
+        series: { id: 'series-1', title: 'Blue Lock', cover_url: null, type: 'manga', status: 'ongoing', content_rating: null },
+        ...overrides,
+      }
+    }
+
+    function action(type: SyncAction['type'], payload: Record<string, unknown>, timestamp: number): SyncAction {
+      return { id: `action-${timestamp}`, type, payload, timestamp, deviceId: 'device', retryCount: 0 }
+    }
+
+    it('should overlay queued edits, removals and adds on the snapshot', () => {
+      const entries = [entry(), entry({ id: 'entry-2', series_id: 'series-2' })]
+      const result = applyQueuedActions(entries, [
+        action('LIBRARY_UPDATE', { entryId: 'entry-1', status: 'completed' }, 1),
+        action('CHAPTER_READ', { entryId: 'entry-1', chapterNumber: 15 }, 2),
+        action('CHAPTER_READ', { entryId: 'entry-1', chapterNumber: 3 }, 3),
+        action('LIBRARY_DELETE', { entryId: 'entry-2' }, 4),
+        action('LIBRARY_ADD', { seriesId: 'series-3', seriesTitle: 'Dandadan' }, 5),
+        action('LIBRARY_ADD', { seriesId: 'series-1' }, 6),
+      ])
+
+      expect(result).toHaveLength(2)
+      expect(result[0]).toMatchObject({ id: 'entry-1', status: 'completed', last_read_chapter: 15, pending: true })
+      expect(result[1]).toMatchObject({ id: 'pending:action-5', series_id: 'series-3', imported_title: 'Dandadan', pending: true })
+      // The snapshot itself is left untouched
+      expect(entries[0].status).toBe('reading')
+    })
+
+    it('should filter and sort like the library endpoint', () => {
+      const entries = [
+        entry({ id: 'a', series: null, imported_title: 'Vagabond', status: 'completed', user_rating: 10 }),
+        entry({ id: 'b', series: null, imported_title: 'Berserk', user_rating: null }),
+        entry({ id: 'c', series: null, imported_title: 'Vinland Saga', user_rating: 9 }),
+      ]
+
+      expect(queryOfflineLibrary(entries, { sort: 'title' }).map(e => e.id)).toEqual(['b', 'a', 'c'])
+      expect(queryOfflineLibrary(entries, { sort: 'rating' }).map(e => e.id)).toEqual(['a', 'c', 'b'])
+      expect(queryOfflineLibrary(entries, { q: 'v', status: 'reading' }).map(e => e.id)).toEqual(['c'])
+    })
+
+    it('should drop the cached signed-in pages on sign-out', async () => {
+      const deleteCache = jest.fn(async () => true)
+      Object.defineProperty(globalThis, 'caches', { value: { delete: deleteCache }, configurable: true })
+
+      try {
+        await clearOfflineData()
+      } finally {
+        delete (globalThis as { caches?: unknown }).caches
+      }
+
+      expect(deleteCache).toHaveBeenCalledWith(OFFLINE_PAGE_CACHE)
+    })
+  })
+})
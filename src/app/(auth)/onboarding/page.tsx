@@ -8,7 +8,7 @@ import { useRouter } from "next/navigation"
 import { toast } from "sonner"
 import { Skeleton } from "@/components/ui/skeleton"
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip"
-import { PlatformImport } from "@/components/library/PlatformImport"
+import { PlatformImport, Platform } from "@/components/library/PlatformImport"
 
 interface SearchResult {
   id: string
@@ -230,7 +230,7 @@ export default function OnboardingPage() {
                         Back to platforms
                       </Button>
                       <PlatformImport 
-                        platform={importPlatform as "AniList" | "MyAnimeList" | "MangaDex"} 
+                        platform={importPlatform as Platform} 
                         onComplete={onImportComplete} 
                       />
                     </div>
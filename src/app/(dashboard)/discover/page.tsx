@@ -1,7 +1,9 @@
 "use client"
 
 import { useState, useEffect, useCallback, Suspense } from "react"
-import { Star, Users, Flame, BookOpen, TrendingUp, Sparkles, Zap, Clock } from "lucide-react"
+import { Star, Users, Flame, BookOpen, TrendingUp, Sparkles, Zap, Clock, ThumbsUp, ThumbsDown, BookCheck } from "lucide-react"
+import { toast } from "sonner"
+import type { RecommendationFeedback } from "@/lib/recommendation-feedback"
 import { TrendingSeries } from "@/components/series/TrendingSeries"
 import Link from "next/link"
 import { Badge } from "@/components/ui/badge"
@@ -21,9 +23,19 @@ interface Series {
   updated_at: string
   is_fallback?: boolean
   match_reasons?: string[]
+  explanation?: {
+    summary: string
+    attributes: Array<{ type: string; value: string }>
+  }
   catalog_tier?: string
 }
 
+const FEEDBACK_ACTIONS: Array<{ feedback: RecommendationFeedback; label: string; icon: typeof ThumbsUp }> = [
+  { feedback: 'more_like_this', label: 'More like this', icon: ThumbsUp },
+  { feedback: 'read_elsewhere', label: 'Already read elsewhere', icon: BookCheck },
+  { feedback: 'not_interested', label: 'Not interested', icon: ThumbsDown },
+]
+
 interface FeedItem {
   id: string
   chapter_number: number
@@ -82,9 +94,11 @@ function FeedSkeleton() {
 function SeriesCard({ 
   series, 
   index, 
+  onFeedback,
 }: { 
   series: Series; 
   index?: number;
+  onFeedback?: (series: Series, feedback: RecommendationFeedback) => void;
 }) {
   const handleClick = () => {
     fetch('/api/analytics/record-activity', {
@@ -116,11 +130,35 @@ function SeriesCard({
           </Badge>
         </div>
       </Link>
+      {onFeedback && (
+        <div className="absolute top-0 inset-x-0 aspect-[3/4] pointer-events-none flex items-end justify-center p-2 z-30">
+          <div className="flex gap-1 rounded-xl bg-zinc-950/80 backdrop-blur-sm p-1 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity pointer-events-auto">
+            {FEEDBACK_ACTIONS.map(({ feedback, label, icon: Icon }) => (
+              <button
+                key={feedback}
+                type="button"
+                title={label}
+                aria-label={`${label}: ${series.title}`}
+                onClick={(e) => {
+                  e.stopPropagation()
+                  onFeedback(series, feedback)
+                }}
+                className="p-1.5 rounded-lg text-zinc-300 hover:text-white hover:bg-white/10 transition-colors"
+              >
+                <Icon className="size-3.5" />
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
       <div className="space-y-1 px-1">
           <h3 className="font-bold text-sm leading-tight truncate">{series.title}</h3>
-          {series.match_reasons && series.match_reasons.length > 0 && (
-            <p className="text-[10px] text-zinc-400 font-medium truncate italic">
-              {series.match_reasons[0]}
+          {(series.explanation || (series.match_reasons && series.match_reasons.length > 0)) && (
+            <p
+              className="text-[10px] text-zinc-400 font-medium truncate italic"
+              title={series.explanation?.attributes.map(a => `${a.type}: ${a.value}`).join(", ") || undefined}
+            >
+              {series.explanation?.summary ?? series.match_reasons?.[0]}
             </p>
           )}
           <div className="flex items-center gap-3 text-[10px] text-zinc-500 font-medium">
@@ -228,6 +266,37 @@ function FeedCard({ item, isNewRelease }: { item: FeedItem; isNewRelease?: boole
     }
   }, [])
 
+  const sendRecommendationFeedback = useCallback(async (series: Series, feedback: RecommendationFeedback) => {
+    try {
+      const res = await fetch("/api/series/recommendations/feedback", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ seriesId: series.id, feedback }),
+      })
+      if (!res.ok) throw new Error(`HTTP ${res.status}`)
+    } catch (error: unknown) {
+      console.error("Failed to send recommendation feedback:", error)
+      toast.error("Couldn't save your feedback")
+      return
+    }
+
+    if (feedback === 'more_like_this') {
+      toast.success(`We'll recommend more like ${series.title}`)
+      return
+    }
+
+    setRecommended(prev => prev.filter(s => s.id !== series.id))
+    toast(`${series.title} won't be recommended again`, {
+      action: {
+        label: "Undo",
+        onClick: async () => {
+          const res = await fetch(`/api/series/recommendations/feedback?seriesId=${series.id}`, { method: "DELETE" })
+          if (res.ok) setRecommended(prev => prev.some(s => s.id === series.id) ? prev : [...prev, series])
+        },
+      },
+    })
+  }, [])
+
   const fetchNewReleases = useCallback(async () => {
     setLoadingNewReleases(true)
     try {
@@ -390,7 +459,7 @@ function FeedCard({ item, isNewRelease }: { item: FeedItem; isNewRelease?: boole
         ) : recommended.length > 0 ? (
           <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-6 gap-6">
             {recommended.map((series) => (
-              <SeriesCard key={series.id} series={series} />
+              <SeriesCard key={series.id} series={series} onFeedback={sendRecommendationFeedback} />
             ))}
           </div>
         ) : (
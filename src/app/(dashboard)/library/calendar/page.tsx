@@ -0,0 +1,183 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import Link from "next/link"
+import { ArrowLeft, CalendarClock, PauseCircle, AlertCircle } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Skeleton } from "@/components/ui/skeleton"
+import { NSFWCover } from "@/components/ui/nsfw-cover"
+import type { ReleaseSchedule } from "@/lib/release-prediction"
+
+type CalendarEntry = ReleaseSchedule & {
+  series_id: string
+  title: string
+  cover_url: string | null
+  content_rating: string | null
+}
+
+interface CalendarData {
+  days: number
+  upcoming: CalendarEntry[]
+  hiatus: CalendarEntry[]
+}
+
+const RANGES = [7, 30, 90]
+
+function dayKey(iso: string): string {
+  const date = new Date(iso)
+  return `${date.getFullYear()}-${date.getMonth()}-${date.getDate()}`
+}
+
+function formatDay(iso: string): string {
+  const date = new Date(iso)
+  const today = new Date()
+  const tomorrow = new Date(today.getFullYear(), today.getMonth(), today.getDate() + 1)
+  if (dayKey(iso) === dayKey(today.toISOString())) return "Today"
+  if (dayKey(iso) === dayKey(tomorrow.toISOString())) return "Tomorrow"
+  return date.toLocaleDateString(undefined, { weekday: "long", month: "short", day: "numeric" })
+}
+
+function ScheduleRow({ entry }: { entry: CalendarEntry }) {
+  return (
+    <Link
+      href={`/series/${entry.series_id}`}
+      className="flex items-center gap-4 p-3 rounded-2xl hover:bg-zinc-100 dark:hover:bg-zinc-900 transition-colors"
+    >
+      <div className="size-12 rounded-xl overflow-hidden shrink-0 bg-zinc-100 dark:bg-zinc-800">
+        <NSFWCover
+          src={entry.cover_url}
+          alt={entry.title}
+          contentRating={entry.content_rating}
+          aspectRatio="aspect-square"
+          showBadge={false}
+          size="256"
+        />
+      </div>
+      <div className="flex-1 min-w-0">
+        <p className="font-bold text-sm truncate">{entry.title}</p>
+        <p className="text-xs text-zinc-500 capitalize">
+          {entry.cadence === "irregular" ? `Roughly every ${entry.interval_days} days` : entry.cadence}
+          {" · "}
+          {Math.round(entry.confidence * 100)}% confidence
+        </p>
+      </div>
+      {entry.status === "late" && (
+        <Badge variant="secondary" className="bg-orange-100 text-orange-900 dark:bg-orange-900/30 dark:text-orange-400">
+          Late
+        </Badge>
+      )}
+      {entry.status === "hiatus" && (
+        <Badge variant="secondary" className="bg-amber-100 text-amber-900 dark:bg-amber-900/30 dark:text-amber-400">
+          <PauseCircle className="size-3 mr-1" />
+          Hiatus
+        </Badge>
+      )}
+    </Link>
+  )
+}
+
+export default function ReleaseCalendarPage() {
+  const [days, setDays] = useState(30)
+  const [data, setData] = useState<CalendarData | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState(false)
+
+  useEffect(() => {
+    async function fetchCalendar() {
+      setLoading(true)
+      setError(false)
+      try {
+        const res = await fetch(`/api/library/release-calendar?days=${days}`)
+        if (!res.ok) throw new Error("Failed to fetch release calendar")
+        setData(await res.json())
+      } catch (err: unknown) {
+        console.error("Failed to fetch release calendar:", err)
+        setError(true)
+      } finally {
+        setLoading(false)
+      }
+    }
+    fetchCalendar()
+  }, [days])
+
+  const late = data?.upcoming.filter(entry => entry.status === "late") ?? []
+  const byDay = new Map<string, CalendarEntry[]>()
+  for (const entry of data?.upcoming ?? []) {
+    if (entry.status === "late" || !entry.predicted_next_at) continue
+    const key = dayKey(entry.predicted_next_at)
+    if (!byDay.has(key)) byDay.set(key, [])
+    byDay.get(key)!.push(entry)
+  }
+
+  return (
+    <div className="p-6 space-y-8 max-w-4xl mx-auto pb-24">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div>
+          <Link href="/library" className="inline-flex items-center gap-1 text-sm text-zinc-500 hover:text-zinc-900 dark:hover:text-zinc-50 mb-2">
+            <ArrowLeft className="size-4" />
+            Library
+          </Link>
+          <h1 className="text-3xl font-bold tracking-tight text-zinc-900 dark:text-zinc-50">Release Calendar</h1>
+          <p className="text-zinc-500 dark:text-zinc-400">When the series you&apos;re reading are expected to update</p>
+        </div>
+        <div className="flex items-center gap-2">
+          {RANGES.map(range => (
+            <Button
+              key={range}
+              variant={range === days ? "default" : "outline"}
+              className="rounded-full"
+              onClick={() => setDays(range)}
+            >
+              {range} days
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="space-y-4">
+          {[...Array(4)].map((_, i) => (
+            <Skeleton key={i} className="h-20 rounded-2xl" />
+          ))}
+        </div>
+      ) : error || !data ? (
+        <div className="flex flex-col items-center justify-center py-24 text-center space-y-4">
+          <AlertCircle className="size-10 text-red-500" />
+          <p className="text-zinc-500 text-sm">Unable to load the release calendar</p>
+        </div>
+      ) : data.upcoming.length === 0 && data.hiatus.length === 0 ? (
+        <div className="flex flex-col items-center justify-center py-24 text-center space-y-4">
+          <CalendarClock className="size-10 text-zinc-300" />
+          <p className="text-zinc-500 text-sm max-w-md">
+            No expected releases yet. Predictions appear once a series you&apos;re reading has a few chapters of release history.
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-8">
+          {late.length > 0 && (
+            <section className="space-y-2">
+              <h2 className="font-bold text-lg">Overdue</h2>
+              {late.map(entry => <ScheduleRow key={entry.series_id} entry={entry} />)}
+            </section>
+          )}
+
+          {Array.from(byDay.values()).map(entries => (
+            <section key={dayKey(entries[0].predicted_next_at!)} className="space-y-2">
+              <h2 className="font-bold text-lg">{formatDay(entries[0].predicted_next_at!)}</h2>
+              {entries.map(entry => <ScheduleRow key={entry.series_id} entry={entry} />)}
+            </section>
+          ))}
+
+          {data.hiatus.length > 0 && (
+            <section className="space-y-2">
+              <h2 className="font-bold text-lg">On Hiatus</h2>
+              <p className="text-xs text-zinc-500">No new chapter for far longer than usual.</p>
+              {data.hiatus.map(entry => <ScheduleRow key={entry.series_id} entry={entry} />)}
+            </section>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
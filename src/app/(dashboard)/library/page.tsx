@@ -2,7 +2,7 @@
 
 import { useState, useEffect, useCallback, memo, Suspense, useRef, Component, ReactNode } from "react"
 import { Button } from "@/components/ui/button"
-import { Plus, Search, Grid2X2, List as ListIcon, BookOpen, Star, ArrowUpDown, AlertCircle, FileText, Loader2, Wrench, HelpCircle, RefreshCw, CheckCircle2, AlertTriangle } from "lucide-react"
+import { Plus, Search, Grid2X2, List as ListIcon, BookOpen, Star, ArrowUpDown, AlertCircle, FileText, Loader2, Wrench, HelpCircle, RefreshCw, CheckCircle2, AlertTriangle, CloudOff, CalendarClock, ListOrdered, Tag, RotateCcw } from "lucide-react"
 import { Input } from "@/components/ui/input"
 import Link from "next/link"
 import { Badge } from "@/components/ui/badge"
@@ -14,6 +14,9 @@ import { toast } from "sonner"
 import { NSFWCover } from "@/components/ui/nsfw-cover"
 import { CSVImport } from "@/components/library/CSVImport"
 import { MetadataManualFixDialog } from "@/components/series/MetadataManualFixDialog"
+import { SyncOutbox } from "@/lib/sync/outbox"
+import { applyQueuedActions, getOfflineLibrary, queryOfflineLibrary, saveLibraryEntries } from "@/lib/sync/offline-library"
+import { DEFAULT_RATING_SCALE, formatRating, isRatingScale, type RatingScale } from "@/lib/ratings"
 import {
   Dialog,
   DialogContent,
@@ -41,6 +44,8 @@ interface LibraryEntry {
   imported_title: string | null
   last_read_chapter: number | null
   user_rating: number | null
+  tags?: string[]
+  reread_count?: number
   updated_at: string
   last_sync_at: string | null
   series: {
@@ -51,6 +56,8 @@ interface LibraryEntry {
     status: string
     content_rating: string | null
   } | null
+  // Offline view only: entry has queued changes not yet replayed
+  pending?: boolean
 }
 
 interface LibraryStats {
@@ -62,6 +69,14 @@ interface LibraryStats {
   paused: number
 }
 
+function countByStatus(entries: LibraryEntry[]): LibraryStats {
+  const stats: LibraryStats = { all: entries.length, reading: 0, completed: 0, planning: 0, dropped: 0, paused: 0 }
+  for (const entry of entries) {
+    if (entry.status in stats) stats[entry.status as keyof LibraryStats]++
+  }
+  return stats
+}
+
 function LibrarySkeleton({ viewMode }: { viewMode: "grid" | "list" }) {
   if (viewMode === "list") {
     return (
@@ -173,7 +188,7 @@ const SyncStatusIndicator = memo(function SyncStatusIndicator({
 });
 
 // Memoized grid item for performance
-const LibraryGridItem = memo(function LibraryGridItem({ entry, onFix }: { entry: LibraryEntry, onFix: (entry: LibraryEntry) => void }) {
+const LibraryGridItem = memo(function LibraryGridItem({ entry, ratingScale, onFix }: { entry: LibraryEntry, ratingScale: RatingScale, onFix: (entry: LibraryEntry) => void }) {
   return (
     <div className="group relative space-y-3">
       <Link href={entry.series_id ? `/series/${entry.series_id}` : "#"} className={`block relative ${!entry.series_id && 'cursor-default'}`} onClick={(e) => !entry.series_id && e.preventDefault()}>
@@ -193,6 +208,12 @@ const LibraryGridItem = memo(function LibraryGridItem({ entry, onFix }: { entry:
               metadataStatus={entry.metadata_status}
             />
           </div>
+          {entry.pending && (
+            <Badge variant="outline" className="absolute bottom-2 left-2 text-[10px] bg-zinc-900/50 text-zinc-100 border-zinc-600 backdrop-blur-sm">
+              <CloudOff className="size-2.5 mr-1" />
+              Queued
+            </Badge>
+          )}
           {entry.needs_review && (
             <Badge variant="default" className="absolute top-2 left-2 text-[10px] bg-amber-500 hover:bg-amber-600 text-white border-none shadow-lg animate-pulse">
               Review
@@ -269,20 +290,29 @@ const LibraryGridItem = memo(function LibraryGridItem({ entry, onFix }: { entry:
         <h3 className="font-bold text-sm leading-tight truncate">{entry.series?.title || entry.imported_title}</h3>
         <div className="flex items-center gap-2 text-[10px] text-zinc-500 dark:text-zinc-400 font-medium">
           <span className="capitalize">{entry.series?.type || 'Unknown'}</span>
-          {entry.user_rating && (
+          {entry.user_rating != null && (
             <span className="flex items-center gap-0.5">
               <Star className="size-3 fill-yellow-500 text-yellow-500" />
-              {entry.user_rating}
+              {formatRating(entry.user_rating, ratingScale)}
+            </span>
+          )}
+          {!!entry.reread_count && (
+            <span className="flex items-center gap-0.5" title={`Re-read ${entry.reread_count}×`}>
+              <RotateCcw className="size-3" />
+              {entry.reread_count}
             </span>
           )}
         </div>
+        {entry.tags && entry.tags.length > 0 && (
+          <p className="text-[10px] text-zinc-400 truncate">{entry.tags.map(tag => `#${tag}`).join(" ")}</p>
+        )}
       </div>
     </div>
   )
 })
 
 // Memoized list item for performance
-const LibraryListItem = memo(function LibraryListItem({ entry, onFix }: { entry: LibraryEntry, onFix: (entry: LibraryEntry) => void }) {
+const LibraryListItem = memo(function LibraryListItem({ entry, ratingScale, onFix }: { entry: LibraryEntry, ratingScale: RatingScale, onFix: (entry: LibraryEntry) => void }) {
   return (
     <div
       className="flex items-center gap-4 p-4 rounded-2xl border border-zinc-100 dark:border-zinc-800 hover:bg-zinc-50 dark:hover:bg-zinc-900/50 transition-colors group"
@@ -307,6 +337,12 @@ const LibraryListItem = memo(function LibraryListItem({ entry, onFix }: { entry:
               syncStatus={entry.sync_status || 'healthy'} 
               metadataStatus={entry.metadata_status}
             />
+            {entry.pending && (
+              <Badge variant="outline" className="text-[10px] text-zinc-500 border-zinc-200 dark:border-zinc-700 h-5 px-1.5 py-0">
+                <CloudOff className="size-2 mr-1" />
+                Queued
+              </Badge>
+            )}
             {entry.needs_review && (
               <Badge variant="default" className="text-[10px] bg-amber-500 text-white h-5 px-1.5 py-0">
                 Review Needed
@@ -349,12 +385,21 @@ const LibraryListItem = memo(function LibraryListItem({ entry, onFix }: { entry:
         <div className="flex items-center gap-3 text-xs text-zinc-500 mt-1">
           <span className="capitalize">{entry.series?.type || 'Unknown'}</span>
           <span>Chapter {entry.last_read_chapter || 0}</span>
-          {entry.user_rating && (
+          {entry.user_rating != null && (
             <span className="flex items-center gap-0.5">
               <Star className="size-3 fill-yellow-500 text-yellow-500" />
-              {entry.user_rating}
+              {formatRating(entry.user_rating, ratingScale)}
+            </span>
+          )}
+          {!!entry.reread_count && (
+            <span className="flex items-center gap-0.5">
+              <RotateCcw className="size-3" />
+              Re-read {entry.reread_count}×
             </span>
           )}
+          {entry.tags?.map(tag => (
+            <Badge key={tag} variant="outline" className="text-[10px] h-5 px-1.5 py-0 border-zinc-200 dark:border-zinc-700">#{tag}</Badge>
+          ))}
         </div>
       </div>
       
@@ -395,9 +440,15 @@ function LibraryPageContent() {
   const [loading, setLoading] = useState(true)
   const [loadingMore, setLoadingMore] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const [offline, setOffline] = useState(false)
   const [viewMode, setViewMode] = useState<"grid" | "list">("grid")
   const [searchQuery, setSearchQuery] = useState(searchParams.get("q") || "")
   const [filterStatus, setFilterStatus] = useState(searchParams.get("status") || "all")
+  const [filterList, setFilterList] = useState(searchParams.get("list") || "all")
+  const [userLists, setUserLists] = useState<{ id: string; name: string }[]>([])
+  const [filterTag, setFilterTag] = useState(searchParams.get("tag") || "all")
+  const [libraryTags, setLibraryTags] = useState<{ name: string; count: number }[]>([])
+  const [ratingScale, setRatingScale] = useState<RatingScale>(DEFAULT_RATING_SCALE)
     const [sortBy, setSortBy] = useState(searchParams.get("sort") || "latest_chapter")
     
     // Manual Fix state
@@ -421,6 +472,19 @@ function LibraryPageContent() {
     // Debounce search query for performance
     const debouncedSearchQuery = useDebounce(searchQuery, 300)
 
+    // Renders the IndexedDB snapshot with queued edits applied. Returns false
+    // when nothing has been cached yet.
+    const loadOfflineLibrary = useCallback(async () => {
+      const snapshot = applyQueuedActions(await getOfflineLibrary(), await SyncOutbox.getActions())
+      if (snapshot.length === 0) return false
+
+      setEntries(queryOfflineLibrary(snapshot, { q: debouncedSearchQuery, status: filterStatus, sort: sortBy }) as LibraryEntry[])
+      setStats(countByStatus(snapshot as LibraryEntry[]))
+      setHasMore(false)
+      setOffline(true)
+      return true
+    }, [debouncedSearchQuery, filterStatus, sortBy])
+
       const fetchLibrary = useCallback(async (isInitial = true) => {
         // Cancel previous request if it's initial (filter change)
         if (isInitial && abortControllerRef.current) {
@@ -443,9 +507,13 @@ function LibraryPageContent() {
         isFetching.current = true;
         setError(null);
         try {
+          if (!navigator.onLine && isInitial && await loadOfflineLibrary()) return;
+
           const params = new URLSearchParams();
           if (debouncedSearchQuery) params.set("q", debouncedSearchQuery);
           if (filterStatus && filterStatus !== "all") params.set("status", filterStatus);
+          if (filterList !== "all") params.set("list", filterList);
+          if (filterTag !== "all") params.set("tag", filterTag);
           if (sortBy) params.set("sort", sortBy);
           params.set("limit", "100");
           params.set("offset", currentOffset.toString());
@@ -457,8 +525,11 @@ function LibraryPageContent() {
 
           if (res.ok) {
             const data = await res.json();
+            setOffline(false);
+            saveLibraryEntries(data.entries || []).catch(() => {
+              // Best effort: the offline snapshot is refreshed again by the sync loop
+            });
 
-          
           setEntries(prev => {
             if (isInitial) return data.entries || []
             
@@ -502,6 +573,10 @@ function LibraryPageContent() {
         if (abortControllerRef.current?.signal.aborted) {
           return;
         }
+        // Network failure: fall back to the offline snapshot
+        if (isInitial && await loadOfflineLibrary()) {
+          return;
+        }
         console.error("Failed to fetch library:", err)
         setError("Something went wrong. Please try again.")
         toast.error("Failed to load library")
@@ -510,7 +585,7 @@ function LibraryPageContent() {
         if (isInitial) setLoading(false)
         else setLoadingMore(false)
       }
-    }, [debouncedSearchQuery, filterStatus, sortBy])
+    }, [debouncedSearchQuery, filterStatus, filterList, filterTag, sortBy, loadOfflineLibrary])
 
     useEffect(() => {
       offsetRef.current = 0
@@ -523,7 +598,40 @@ function LibraryPageContent() {
           abortControllerRef.current = null;
         }
       };
-    }, [debouncedSearchQuery, filterStatus, sortBy, fetchLibrary])
+    }, [debouncedSearchQuery, filterStatus, filterList, filterTag, sortBy, fetchLibrary])
+
+    // While showing the snapshot, re-render on local edits and refetch once back online
+    useEffect(() => {
+      if (!offline) return
+
+      const reload = () => { loadOfflineLibrary() }
+      const reconnect = () => { fetchLibrary(true) }
+      window.addEventListener('sync-outbox-updated', reload)
+      window.addEventListener('sync-state-updated', reload)
+      window.addEventListener('online', reconnect)
+      return () => {
+        window.removeEventListener('sync-outbox-updated', reload)
+        window.removeEventListener('sync-state-updated', reload)
+        window.removeEventListener('online', reconnect)
+      }
+    }, [offline, loadOfflineLibrary, fetchLibrary])
+
+    useEffect(() => {
+      fetch("/api/lists")
+        .then(res => (res.ok ? res.json() : { lists: [] }))
+        .then(data => setUserLists(data.lists || []))
+        .catch(() => {})
+      fetch("/api/library/tags")
+        .then(res => (res.ok ? res.json() : { tags: [] }))
+        .then(data => setLibraryTags(data.tags || []))
+        .catch(() => {})
+      fetch("/api/users/me")
+        .then(res => (res.ok ? res.json() : { rating_scale: null }))
+        .then(data => {
+          if (isRatingScale(data.rating_scale)) setRatingScale(data.rating_scale)
+        })
+        .catch(() => {})
+    }, [])
 
     // Infinite scroll observer
     const { setRef, isIntersecting } = useIntersectionObserver({
@@ -543,18 +651,44 @@ function LibraryPageContent() {
     const params = new URLSearchParams()
     if (searchQuery) params.set("q", searchQuery)
     if (filterStatus !== "all") params.set("status", filterStatus)
+    if (filterList !== "all") params.set("list", filterList)
+    if (filterTag !== "all") params.set("tag", filterTag)
     if (sortBy !== "latest_chapter") params.set("sort", sortBy)
     router.push(`/library?${params.toString()}`)
-  }, [searchQuery, filterStatus, sortBy, router])
+  }, [searchQuery, filterStatus, filterList, filterTag, sortBy, router])
 
   const handleStatusChange = useCallback((status: string) => {
     setFilterStatus(status)
     const params = new URLSearchParams()
     if (searchQuery) params.set("q", searchQuery)
     if (status !== "all") params.set("status", status)
+    if (filterList !== "all") params.set("list", filterList)
+    if (filterTag !== "all") params.set("tag", filterTag)
     if (sortBy !== "latest_chapter") params.set("sort", sortBy)
     router.push(`/library?${params.toString()}`)
-  }, [searchQuery, sortBy, router])
+  }, [searchQuery, filterList, filterTag, sortBy, router])
+
+  const handleListChange = useCallback((list: string) => {
+    setFilterList(list)
+    const params = new URLSearchParams()
+    if (searchQuery) params.set("q", searchQuery)
+    if (filterStatus !== "all") params.set("status", filterStatus)
+    if (list !== "all") params.set("list", list)
+    if (filterTag !== "all") params.set("tag", filterTag)
+    if (sortBy !== "latest_chapter") params.set("sort", sortBy)
+    router.push(`/library?${params.toString()}`)
+  }, [searchQuery, filterStatus, filterTag, sortBy, router])
+
+  const handleTagChange = useCallback((tag: string) => {
+    setFilterTag(tag)
+    const params = new URLSearchParams()
+    if (searchQuery) params.set("q", searchQuery)
+    if (filterStatus !== "all") params.set("status", filterStatus)
+    if (filterList !== "all") params.set("list", filterList)
+    if (tag !== "all") params.set("tag", tag)
+    if (sortBy !== "latest_chapter") params.set("sort", sortBy)
+    router.push(`/library?${params.toString()}`)
+  }, [searchQuery, filterStatus, filterList, sortBy, router])
 
   if (error) {
     return (
@@ -604,6 +738,13 @@ function LibraryPageContent() {
             </DialogContent>
           </Dialog>
 
+          <Link href="/library/calendar">
+            <Button variant="outline" className="rounded-full px-6 border-zinc-200 dark:border-zinc-800">
+              <CalendarClock className="size-4 mr-2 text-zinc-500" />
+              Release Calendar
+            </Button>
+          </Link>
+
           <Link href="/discover">
             <Button className="bg-zinc-900 text-zinc-50 hover:bg-zinc-800 dark:bg-zinc-50 dark:text-zinc-900 dark:hover:bg-zinc-200 rounded-full px-6">
               <Plus className="size-4 mr-2" />
@@ -614,6 +755,13 @@ function LibraryPageContent() {
 
       </div>
 
+      {offline && (
+        <div className="flex items-center gap-3 rounded-2xl border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-800 dark:border-amber-900 dark:bg-amber-950/30 dark:text-amber-300">
+          <CloudOff className="size-4 shrink-0" />
+          <span>You&apos;re offline. Showing your library as of the last sync; changes you make will sync when you reconnect.</span>
+        </div>
+      )}
+
       <div className="flex flex-col md:flex-row items-center justify-between gap-4 bg-zinc-50 dark:bg-zinc-900/50 p-4 rounded-2xl border border-zinc-100 dark:border-zinc-800 shadow-sm">
         <form onSubmit={handleSearch} className="flex items-center gap-4 w-full md:w-auto">
           <div className="relative flex-1 md:w-80">
@@ -667,6 +815,36 @@ function LibraryPageContent() {
             </div>
 
 
+            {userLists.length > 0 && (
+              <Select value={filterList} onValueChange={handleListChange}>
+                <SelectTrigger className="w-[150px] h-8 rounded-lg text-xs border-zinc-200 dark:border-zinc-700">
+                  <ListOrdered className="size-3 mr-1" />
+                  <SelectValue placeholder="List" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Lists</SelectItem>
+                  {userLists.map(list => (
+                    <SelectItem key={list.id} value={list.id}>{list.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+
+            {libraryTags.length > 0 && (
+              <Select value={filterTag} onValueChange={handleTagChange}>
+                <SelectTrigger className="w-[140px] h-8 rounded-lg text-xs border-zinc-200 dark:border-zinc-700">
+                  <Tag className="size-3 mr-1" />
+                  <SelectValue placeholder="Tag" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Tags</SelectItem>
+                  {libraryTags.map(tag => (
+                    <SelectItem key={tag.name} value={tag.name}>#{tag.name} ({tag.count})</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+
             <Select value={sortBy} onValueChange={setSortBy}>
               <SelectTrigger className="w-[140px] h-8 rounded-lg text-xs border-zinc-200 dark:border-zinc-700">
                 <ArrowUpDown className="size-3 mr-1" />
@@ -678,6 +856,7 @@ function LibraryPageContent() {
                 <SelectItem value="title">Title</SelectItem>
                 <SelectItem value="rating">Rating</SelectItem>
                 <SelectItem value="added">Date Added</SelectItem>
+                <SelectItem value="rereads">Re-reads</SelectItem>
               </SelectContent>
             </Select>
 
@@ -709,13 +888,13 @@ function LibraryPageContent() {
             {viewMode === "grid" ? (
               <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 xl:grid-cols-6 gap-6">
                 {entries.map((entry) => (
-                  <LibraryGridItem key={entry.id} entry={entry} onFix={setFixEntry} />
+                  <LibraryGridItem key={entry.id} entry={entry} ratingScale={ratingScale} onFix={setFixEntry} />
                 ))}
               </div>
             ) : (
               <div className="space-y-3">
                 {entries.map((entry) => (
-                  <LibraryListItem key={entry.id} entry={entry} onFix={setFixEntry} />
+                  <LibraryListItem key={entry.id} entry={entry} ratingScale={ratingScale} onFix={setFixEntry} />
                 ))}
               </div>
             )}
@@ -0,0 +1,395 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import { Switch } from "@/components/ui/switch"
+import { Skeleton } from "@/components/ui/skeleton"
+import { NSFWCover } from "@/components/ui/nsfw-cover"
+import { ListCard, type UserListSummary } from "@/components/lists/ListCard"
+import { ArrowUp, ArrowDown, Loader2, Plus, Trash2, ImageIcon, X, Library, ExternalLink, StickyNote } from "lucide-react"
+import { toast } from "sonner"
+
+interface ListItem {
+  series_id: string
+  position: number
+  note: string | null
+  Series: {
+    id: string
+    title: string
+    cover_url: string | null
+    type: string
+    content_rating: string | null
+  }
+}
+
+function moveItem<T>(items: T[], index: number, delta: number): T[] {
+  const target = index + delta
+  if (target < 0 || target >= items.length) return items
+  const next = [...items]
+  ;[next[index], next[target]] = [next[target], next[index]]
+  return next
+}
+
+async function sendJson(url: string, method: string, body: unknown) {
+  const res = await fetch(url, {
+    method,
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  })
+  const data = await res.json().catch(() => ({}))
+  if (!res.ok) {
+    throw new Error(data.error?.message || "Request failed")
+  }
+  return data
+}
+
+export default function ListsPage() {
+  const [lists, setLists] = useState<UserListSummary[]>([])
+  const [loading, setLoading] = useState(true)
+  const [creating, setCreating] = useState(false)
+  const [newName, setNewName] = useState("")
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [items, setItems] = useState<ListItem[]>([])
+  const [itemsLoading, setItemsLoading] = useState(false)
+  const [draft, setDraft] = useState({ name: "", description: "" })
+  const [saving, setSaving] = useState(false)
+  const [editingNote, setEditingNote] = useState<{ seriesId: string; text: string } | null>(null)
+
+  const selected = lists.find(l => l.id === selectedId) ?? null
+
+  useEffect(() => {
+    async function fetchLists() {
+      try {
+        const res = await fetch("/api/lists")
+        if (res.ok) {
+          const data = await res.json()
+          setLists(data.lists)
+        }
+      } catch (error: unknown) {
+        console.error("Failed to fetch lists:", error)
+      } finally {
+        setLoading(false)
+      }
+    }
+    fetchLists()
+  }, [])
+
+  const selectList = useCallback(async (list: UserListSummary) => {
+    setSelectedId(list.id)
+    setDraft({ name: list.name, description: list.description ?? "" })
+    setItemsLoading(true)
+    try {
+      const res = await fetch(`/api/lists/${list.id}`)
+      if (res.ok) {
+        const data = await res.json()
+        setItems(data.items)
+      }
+    } catch {
+      toast.error("Failed to load list")
+    } finally {
+      setItemsLoading(false)
+    }
+  }, [])
+
+  const updateList = (updated: UserListSummary) => {
+    setLists(current => current.map(l => (l.id === updated.id ? updated : l)))
+  }
+
+  const handleCreate = async () => {
+    setCreating(true)
+    try {
+      const list = await sendJson("/api/lists", "POST", { name: newName })
+      setLists(current => [...current, list])
+      setNewName("")
+      toast.success("List created")
+    } catch (error: unknown) {
+      toast.error(error instanceof Error ? error.message : "Failed to create list")
+    } finally {
+      setCreating(false)
+    }
+  }
+
+  const handleMoveList = async (index: number, delta: number) => {
+    const previous = lists
+    const next = moveItem(lists, index, delta)
+    if (next === lists) return
+    setLists(next)
+    try {
+      await sendJson("/api/lists", "PUT", { list_ids: next.map(l => l.id) })
+    } catch {
+      setLists(previous)
+      toast.error("Failed to reorder lists")
+    }
+  }
+
+  const handleSave = async () => {
+    if (!selected) return
+    setSaving(true)
+    try {
+      const list = await sendJson(`/api/lists/${selected.id}`, "PATCH", {
+        name: draft.name,
+        description: draft.description.trim() || null,
+      })
+      updateList(list)
+      toast.success("List saved")
+    } catch (error: unknown) {
+      toast.error(error instanceof Error ? error.message : "Failed to save list")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleVisibility = async (list: UserListSummary, isPublic: boolean) => {
+    try {
+      updateList(await sendJson(`/api/lists/${list.id}`, "PATCH", { is_public: isPublic }))
+    } catch {
+      toast.error("Failed to update visibility")
+    }
+  }
+
+  const handleSetCover = async (seriesId: string | null) => {
+    if (!selected) return
+    try {
+      updateList(await sendJson(`/api/lists/${selected.id}`, "PATCH", { cover_series_id: seriesId }))
+    } catch {
+      toast.error("Failed to set cover")
+    }
+  }
+
+  const handleDelete = async (list: UserListSummary) => {
+    if (!confirm(`Delete "${list.name}"? The series stay in your library.`)) return
+    try {
+      const res = await fetch(`/api/lists/${list.id}`, { method: "DELETE" })
+      if (!res.ok) throw new Error()
+      setLists(current => current.filter(l => l.id !== list.id))
+      if (selectedId === list.id) setSelectedId(null)
+      toast.success("List deleted")
+    } catch {
+      toast.error("Failed to delete list")
+    }
+  }
+
+  const handleMoveItem = async (index: number, delta: number) => {
+    if (!selected) return
+    const previous = items
+    const next = moveItem(items, index, delta)
+    if (next === items) return
+    setItems(next)
+    try {
+      await sendJson(`/api/lists/${selected.id}/items`, "PUT", { series_ids: next.map(i => i.series_id) })
+    } catch {
+      setItems(previous)
+      toast.error("Failed to reorder list")
+    }
+  }
+
+  const handleSaveNote = async () => {
+    if (!selected || !editingNote) return
+    try {
+      const updated = await sendJson(`/api/lists/${selected.id}/items/${editingNote.seriesId}`, "PATCH", {
+        note: editingNote.text.trim() || null,
+      })
+      setItems(current => current.map(i => (i.series_id === updated.series_id ? { ...i, note: updated.note } : i)))
+      setEditingNote(null)
+    } catch (error: unknown) {
+      toast.error(error instanceof Error ? error.message : "Failed to save note")
+    }
+  }
+
+  const handleRemoveItem = async (item: ListItem) => {
+    if (!selected) return
+    try {
+      const res = await fetch(`/api/lists/${selected.id}/items/${item.series_id}`, { method: "DELETE" })
+      if (!res.ok) throw new Error()
+      setItems(current => current.filter(i => i.series_id !== item.series_id))
+      updateList({
+        ...selected,
+        item_count: selected.item_count - 1,
+        ...(selected.cover_series_id === item.series_id ? { cover_series_id: null } : {}),
+      })
+    } catch {
+      toast.error("Failed to remove series")
+    }
+  }
+
+  return (
+    <div className="p-6 space-y-8 max-w-6xl mx-auto pb-24">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight text-zinc-900 dark:text-zinc-50">Lists</h1>
+          <p className="text-zinc-500 dark:text-zinc-400">Group series your own way, from favorites to &ldquo;read next&rdquo;</p>
+        </div>
+        <div className="flex gap-2">
+          <Input
+            placeholder="New list name"
+            value={newName}
+            maxLength={100}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => { if (e.key === "Enter" && newName.trim()) handleCreate() }}
+            className="rounded-full w-56"
+          />
+          <Button className="rounded-full" onClick={handleCreate} disabled={creating || !newName.trim()}>
+            {creating ? <Loader2 className="size-4 mr-2 animate-spin" /> : <Plus className="size-4 mr-2" />}
+            Create
+          </Button>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-5 gap-6">
+          {[...Array(5)].map((_, i) => (
+            <Skeleton key={i} className="aspect-[3/4] rounded-2xl" />
+          ))}
+        </div>
+      ) : lists.length === 0 ? (
+        <div className="text-center py-16 space-y-2">
+          <Library className="size-10 mx-auto text-zinc-300" />
+          <p className="text-zinc-500">No lists yet. Create one above, or use the list button on any series page.</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-5 gap-6">
+          {lists.map((list, index) => (
+            <div key={list.id} className={`space-y-2 rounded-2xl ${selectedId === list.id ? "ring-2 ring-zinc-900 dark:ring-zinc-50 ring-offset-4 ring-offset-white dark:ring-offset-zinc-950" : ""}`}>
+              <button type="button" className="block w-full text-left" onClick={() => selectList(list)}>
+                <ListCard list={list} />
+              </button>
+              <div className="flex items-center justify-between">
+                <div className="flex">
+                  <Button variant="ghost" size="icon" className="size-7" title="Move earlier" disabled={index === 0} onClick={() => handleMoveList(index, -1)}>
+                    <ArrowUp className="size-3.5" />
+                  </Button>
+                  <Button variant="ghost" size="icon" className="size-7" title="Move later" disabled={index === lists.length - 1} onClick={() => handleMoveList(index, 1)}>
+                    <ArrowDown className="size-3.5" />
+                  </Button>
+                </div>
+                <Button variant="ghost" size="icon" className="size-7" title="Delete" onClick={() => handleDelete(list)}>
+                  <Trash2 className="size-3.5 text-red-500" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {selected && (
+        <div className="bg-zinc-50 dark:bg-zinc-900/50 p-6 rounded-3xl border border-zinc-100 dark:border-zinc-800 space-y-6">
+          <div className="grid gap-4 md:grid-cols-[1fr_auto] md:items-start">
+            <div className="space-y-3">
+              <Input
+                value={draft.name}
+                maxLength={100}
+                onChange={(e) => setDraft(d => ({ ...d, name: e.target.value }))}
+                className="rounded-xl text-lg font-semibold"
+              />
+              <Textarea
+                placeholder="Description (optional)"
+                value={draft.description}
+                maxLength={2000}
+                onChange={(e) => setDraft(d => ({ ...d, description: e.target.value }))}
+                className="rounded-xl"
+              />
+            </div>
+            <div className="flex flex-col gap-3 md:items-end">
+              <label className="flex items-center gap-2 text-sm">
+                <Switch checked={selected.is_public} onCheckedChange={(checked) => handleVisibility(selected, checked)} />
+                Public
+              </label>
+              {selected.is_public && (
+                <Button asChild variant="ghost" size="sm" className="text-xs">
+                  <Link href={`/lists/${selected.id}`}>
+                    <ExternalLink className="size-3.5 mr-1" />
+                    Public page
+                  </Link>
+                </Button>
+              )}
+              <Button variant="outline" className="rounded-full" onClick={handleSave} disabled={saving || !draft.name.trim()}>
+                {saving && <Loader2 className="size-4 mr-2 animate-spin" />}
+                Save
+              </Button>
+              {selected.cover_series_id && (
+                <Button variant="ghost" size="sm" className="text-xs" onClick={() => handleSetCover(null)}>
+                  Use first series as cover
+                </Button>
+              )}
+            </div>
+          </div>
+
+          {itemsLoading ? (
+            <div className="flex items-center justify-center p-8">
+              <Loader2 className="size-6 animate-spin text-zinc-400" />
+            </div>
+          ) : items.length === 0 ? (
+            <p className="text-sm text-zinc-500">This list is empty. Add series from their series page.</p>
+          ) : (
+            <div className="space-y-2">
+              {items.map((item, index) => (
+                <div key={item.series_id} className="p-2 rounded-2xl bg-white dark:bg-zinc-950 border border-zinc-100 dark:border-zinc-800 space-y-2">
+                  <div className="flex items-center gap-3">
+                    <span className="w-6 text-center text-xs text-zinc-400">{index + 1}</span>
+                    <div className="w-10 shrink-0 overflow-hidden rounded-lg">
+                      <NSFWCover src={item.Series.cover_url} alt={item.Series.title} contentRating={item.Series.content_rating} showBadge={false} size="256" />
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <Link href={`/series/${item.series_id}`} className="block text-sm font-medium truncate hover:underline">
+                        {item.Series.title}
+                      </Link>
+                      {item.note && editingNote?.seriesId !== item.series_id && (
+                        <p className="text-xs text-zinc-500 truncate">{item.note}</p>
+                      )}
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="size-7"
+                      title="Edit note"
+                      onClick={() => setEditingNote({ seriesId: item.series_id, text: item.note ?? "" })}
+                    >
+                      <StickyNote className="size-3.5" />
+                    </Button>
+                    <Button variant="ghost" size="icon" className="size-7" title="Move up" disabled={index === 0} onClick={() => handleMoveItem(index, -1)}>
+                      <ArrowUp className="size-3.5" />
+                    </Button>
+                    <Button variant="ghost" size="icon" className="size-7" title="Move down" disabled={index === items.length - 1} onClick={() => handleMoveItem(index, 1)}>
+                      <ArrowDown className="size-3.5" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="size-7"
+                      title="Use as cover"
+                      disabled={selected.cover_series_id === item.series_id}
+                      onClick={() => handleSetCover(item.series_id)}
+                    >
+                      <ImageIcon className="size-3.5" />
+                    </Button>
+                    <Button variant="ghost" size="icon" className="size-7" title="Remove from list" onClick={() => handleRemoveItem(item)}>
+                      <X className="size-3.5" />
+                    </Button>
+                  </div>
+                  {editingNote?.seriesId === item.series_id && (
+                    <div className="flex gap-2 pl-9">
+                      <Textarea
+                        placeholder="Why is this series on the list?"
+                        value={editingNote.text}
+                        maxLength={1000}
+                        onChange={(e) => setEditingNote({ seriesId: item.series_id, text: e.target.value })}
+                        className="rounded-xl text-sm min-h-[60px]"
+                      />
+                      <div className="flex flex-col gap-1">
+                        <Button size="sm" className="rounded-full" onClick={handleSaveNote}>Save</Button>
+                        <Button size="sm" variant="ghost" className="rounded-full" onClick={() => setEditingNote(null)}>Cancel</Button>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
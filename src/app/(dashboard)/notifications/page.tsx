@@ -1,8 +1,9 @@
 "use client"
 
 import { useState, useEffect, useCallback } from "react"
+import { useRouter } from "next/navigation"
 import { Button } from "@/components/ui/button"
-import { Bell, Check, Inbox, Loader2, BookOpen, Users, Trophy } from "lucide-react"
+import { Bell, Check, Inbox, Loader2, BookOpen, Users, Trophy, Search } from "lucide-react"
 import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Skeleton } from "@/components/ui/skeleton"
 import { toast } from "sonner"
@@ -16,6 +17,9 @@ interface Notification {
   message: string | null
   read_at: string | null
   created_at: string
+  metadata?: {
+    url?: string
+  } | null
   series?: {
     id: string
     title: string
@@ -46,6 +50,7 @@ function NotificationSkeleton() {
 }
 
 export default function NotificationsPage() {
+  const router = useRouter()
   const [notifications, setNotifications] = useState<Notification[]>([])
   const [loading, setLoading] = useState(true)
   const [markingAll, setMarkingAll] = useState(false)
@@ -157,6 +162,8 @@ export default function NotificationsPage() {
         return <Users className="size-5 text-green-500" />
       case "achievement":
         return <Trophy className="size-5 text-yellow-500" />
+      case "saved_filter_matches":
+        return <Search className="size-5 text-purple-500" />
       default:
         return <Bell className="size-5 text-zinc-400" />
     }
@@ -244,7 +251,11 @@ export default function NotificationsPage() {
                   ? "bg-white dark:bg-zinc-950 border-zinc-100 dark:border-zinc-900 opacity-60"
                   : "bg-zinc-50 dark:bg-zinc-900 border-zinc-200 dark:border-zinc-800 ring-1 ring-zinc-900/5 shadow-sm"
               }`}
-              onClick={() => !notification.read_at && handleMarkOneRead(notification.id)}
+              onClick={() => {
+                if (!notification.read_at) handleMarkOneRead(notification.id)
+                const url = notification.metadata?.url
+                if (url?.startsWith("/") && !url.startsWith("//")) router.push(url)
+              }}
             >
               <div className="size-12 rounded-xl overflow-hidden shrink-0 border border-zinc-200 dark:border-zinc-800 flex items-center justify-center bg-zinc-100 dark:bg-zinc-800">
                 {notification.series?.cover_url ? (
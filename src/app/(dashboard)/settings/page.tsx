@@ -17,11 +17,18 @@ import {
 import { useRouter } from "next/navigation"
 import { toast } from "sonner"
 import { Skeleton } from "@/components/ui/skeleton"
-import { Bell, Lock, Download, User, Loader2, Shield, Eye, EyeOff, Mail, Smartphone, FileText, Upload, HelpCircle, Trash2 } from "lucide-react"
+import { Bell, Lock, Download, User, Loader2, Shield, Eye, EyeOff, Mail, Smartphone, FileText, Upload, HelpCircle, Trash2, Webhook, Rss, KeyRound } from "lucide-react"
 import { CSVImport } from "@/components/library/CSVImport"
 import { PlatformImport } from "@/components/library/PlatformImport"
+import { LibraryExport } from "@/components/library/LibraryExport"
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip"
 import { SourcePrioritySettings } from "@/components/settings/SourcePrioritySettings"
+import { WebhookSettings } from "@/components/settings/WebhookSettings"
+import { FeedSettings } from "@/components/settings/FeedSettings"
+import { ApiTokenSettings } from "@/components/settings/ApiTokenSettings"
+import { clearOfflineData } from "@/lib/sync/offline-library"
+import { subscribeToPush, unsubscribeFromPush } from "@/lib/push/client"
+import { DEFAULT_RATING_SCALE, RATING_SCALES, RATING_SCALE_LABELS, type RatingScale } from "@/lib/ratings"
 
 interface UserProfile {
   id: string
@@ -33,15 +40,19 @@ interface UserProfile {
     email_new_chapters?: boolean
     email_follows?: boolean
     email_achievements?: boolean
+    email_digest?: boolean
     push_enabled?: boolean
   }
   privacy_settings: {
     library_public?: boolean
     activity_public?: boolean
     profile_searchable?: boolean
+    lists_public?: boolean
   }
   default_source: string | null
   notification_digest: 'immediate' | 'short' | 'hourly' | 'daily'
+  scrobble_auto_add?: boolean
+  rating_scale?: RatingScale
   created_at?: string
 }
 
@@ -82,6 +93,7 @@ export default function SettingsPage() {
     const [deleting, setDeleting] = useState(false)
     const [retrying, setRetrying] = useState(false)
     const [clearingCache, setClearingCache] = useState(false)
+    const [pushBusy, setPushBusy] = useState(false)
     
     const [formData, setFormData] = useState({
 
@@ -90,12 +102,16 @@ export default function SettingsPage() {
     email_new_chapters: true,
     email_follows: true,
     email_achievements: true,
+    email_digest: true,
     push_enabled: false,
       library_public: true,
       activity_public: true,
       profile_searchable: true,
+      lists_public: true,
       default_source: "none",
       notification_digest: "immediate" as const,
+      scrobble_auto_add: false,
+      rating_scale: DEFAULT_RATING_SCALE as RatingScale,
     })
 
 
@@ -124,12 +140,16 @@ export default function SettingsPage() {
           email_new_chapters: data.notification_settings?.email_new_chapters ?? true,
           email_follows: data.notification_settings?.email_follows ?? true,
           email_achievements: data.notification_settings?.email_achievements ?? true,
+          email_digest: data.notification_settings?.email_digest ?? true,
           push_enabled: data.notification_settings?.push_enabled ?? false,
               library_public: data.privacy_settings?.library_public ?? true,
               activity_public: data.privacy_settings?.activity_public ?? true,
               profile_searchable: data.privacy_settings?.profile_searchable ?? true,
+              lists_public: data.privacy_settings?.lists_public ?? true,
               default_source: data.default_source || "none",
               notification_digest: data.notification_digest || "immediate",
+              scrobble_auto_add: data.scrobble_auto_add ?? false,
+              rating_scale: data.rating_scale || DEFAULT_RATING_SCALE,
             })
 
       } catch (err: unknown) {
@@ -191,15 +211,19 @@ export default function SettingsPage() {
             email_new_chapters: formData.email_new_chapters,
             email_follows: formData.email_follows,
             email_achievements: formData.email_achievements,
+            email_digest: formData.email_digest,
             push_enabled: formData.push_enabled,
           },
           privacy_settings: {
             library_public: formData.library_public,
             activity_public: formData.activity_public,
             profile_searchable: formData.profile_searchable,
+            lists_public: formData.lists_public,
           },
             default_source: formData.default_source === "none" ? null : formData.default_source,
-            notification_digest: formData.notification_digest
+            notification_digest: formData.notification_digest,
+            scrobble_auto_add: formData.scrobble_auto_add,
+            rating_scale: formData.rating_scale,
           })
 
       })
@@ -219,6 +243,24 @@ export default function SettingsPage() {
     }
   }
 
+  // Subscribes or unsubscribes this device; the account-level switch is saved with the form
+  async function handlePushToggle(checked: boolean) {
+    setPushBusy(true)
+    try {
+      if (checked) {
+        await subscribeToPush()
+        toast.success('Push notifications enabled on this device. Save to apply.')
+      } else {
+        await unsubscribeFromPush()
+      }
+      setFormData(f => ({ ...f, push_enabled: checked }))
+    } catch (err: unknown) {
+      toast.error(err instanceof Error ? err.message : 'Failed to enable push notifications')
+    } finally {
+      setPushBusy(false)
+    }
+  }
+
   async function handleDeleteAccount() {
     setDeleting(true)
     try {
@@ -229,7 +271,9 @@ export default function SettingsPage() {
       }
       
       toast.success('Account deleted successfully')
+      await unsubscribeFromPush()
       await supabase.auth.signOut()
+      await clearOfflineData()
       router.push('/')
     } catch (err: unknown) {
         toast.error(err instanceof Error ? err.message : 'Failed to delete account')
@@ -462,6 +506,28 @@ export default function SettingsPage() {
                     Preferred source for reading chapters. You can override this for individual series.
                   </p>
                 </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="rating_scale">Rating Scale</Label>
+                  <Select
+                    value={formData.rating_scale}
+                    onValueChange={(value) => setFormData(f => ({ ...f, rating_scale: value as RatingScale }))}
+                  >
+                    <SelectTrigger id="rating_scale" className="rounded-xl">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {RATING_SCALES.map(scale => (
+                        <SelectItem key={scale} value={scale}>
+                          {RATING_SCALE_LABELS[scale]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-zinc-500">
+                    How you rate series and see your ratings. Switching scales converts existing ratings, nothing is lost.
+                  </p>
+                </div>
               </div>
             </div>
           )}
@@ -507,6 +573,17 @@ export default function SettingsPage() {
                     onCheckedChange={(checked) => setFormData(f => ({ ...f, email_achievements: checked }))}
                   />
                   </div>
+
+                <div className="flex items-center justify-between p-4 rounded-2xl bg-white dark:bg-zinc-950 border border-zinc-100 dark:border-zinc-800">
+                  <div className="space-y-0.5">
+                    <p className="font-medium text-sm">Digest Emails</p>
+                    <p className="text-xs text-zinc-500">Email your batched updates when a digest is sent</p>
+                  </div>
+                  <Switch 
+                    checked={formData.email_digest}
+                    onCheckedChange={(checked) => setFormData(f => ({ ...f, email_digest: checked }))}
+                  />
+                </div>
                 </div>
               </div>
 
@@ -554,10 +631,27 @@ export default function SettingsPage() {
                 </div>
                 <Switch 
                   checked={formData.push_enabled}
-                  onCheckedChange={(checked) => setFormData(f => ({ ...f, push_enabled: checked }))}
+                  disabled={pushBusy}
+                  onCheckedChange={handlePushToggle}
                 />
               </div>
             </div>
+
+            <div className="bg-zinc-50 dark:bg-zinc-900/50 p-6 rounded-3xl border border-zinc-100 dark:border-zinc-800 space-y-6">
+              <h2 className="text-lg font-bold flex items-center gap-2">
+                <Webhook className="size-5 text-zinc-400" />
+                Webhooks
+              </h2>
+              <WebhookSettings />
+            </div>
+
+            <div className="bg-zinc-50 dark:bg-zinc-900/50 p-6 rounded-3xl border border-zinc-100 dark:border-zinc-800 space-y-6">
+              <h2 className="text-lg font-bold flex items-center gap-2">
+                <Rss className="size-5 text-zinc-400" />
+                Feeds &amp; Calendar
+              </h2>
+              <FeedSettings />
+            </div>
           </div>
         )}
 
@@ -598,6 +692,20 @@ export default function SettingsPage() {
                   />
                 </div>
 
+                <div className="flex items-center justify-between p-4 rounded-2xl bg-white dark:bg-zinc-950 border border-zinc-100 dark:border-zinc-800">
+                  <div className="flex items-center gap-3">
+                    {formData.lists_public ? <Eye className="size-5 text-green-500" /> : <EyeOff className="size-5 text-zinc-400" />}
+                    <div className="space-y-0.5">
+                      <p className="font-medium text-sm">Public Lists</p>
+                      <p className="text-xs text-zinc-500">Show lists marked public on your profile</p>
+                    </div>
+                  </div>
+                  <Switch 
+                    checked={formData.lists_public}
+                    onCheckedChange={(checked) => setFormData(f => ({ ...f, lists_public: checked }))}
+                  />
+                </div>
+
                 <div className="flex items-center justify-between p-4 rounded-2xl bg-white dark:bg-zinc-950 border border-zinc-100 dark:border-zinc-800">
                   <div className="flex items-center gap-3">
                     {formData.profile_searchable ? <Eye className="size-5 text-green-500" /> : <EyeOff className="size-5 text-zinc-400" />}
@@ -614,6 +722,25 @@ export default function SettingsPage() {
               </div>
             </div>
 
+            <div className="bg-zinc-50 dark:bg-zinc-900/50 p-6 rounded-3xl border border-zinc-100 dark:border-zinc-800 space-y-6">
+              <h2 className="text-lg font-bold flex items-center gap-2">
+                <KeyRound className="size-5 text-zinc-400" />
+                API Access
+              </h2>
+              <ApiTokenSettings />
+
+              <div className="flex items-center justify-between p-4 rounded-2xl bg-white dark:bg-zinc-950 border border-zinc-100 dark:border-zinc-800">
+                <div className="space-y-0.5">
+                  <p className="font-medium text-sm">Add Scrobbled Series</p>
+                  <p className="text-xs text-zinc-500">When a reader app reports a series that isn't in your library, add it instead of ignoring the read</p>
+                </div>
+                <Switch
+                  checked={formData.scrobble_auto_add}
+                  onCheckedChange={(checked) => setFormData(f => ({ ...f, scrobble_auto_add: checked }))}
+                />
+              </div>
+            </div>
+
             <div className="bg-zinc-50 dark:bg-zinc-900/50 p-6 rounded-3xl border border-zinc-100 dark:border-zinc-800 space-y-6">
               <h2 className="text-lg font-bold flex items-center gap-2">
                 <Download className="size-5 text-zinc-400" />
@@ -685,6 +812,14 @@ export default function SettingsPage() {
                       </div>
 
 
+                    <div className="p-6 rounded-2xl bg-white dark:bg-zinc-950 border border-zinc-100 dark:border-zinc-800 space-y-4">
+                      <div className="space-y-0.5">
+                        <p className="font-medium text-sm">Export Library</p>
+                        <p className="text-xs text-zinc-500">Back up your library and chapter history as CSV, JSON or MyAnimeList XML</p>
+                      </div>
+                      <LibraryExport />
+                    </div>
+
                     <div className="p-6 rounded-2xl bg-white dark:bg-zinc-950 border border-zinc-100 dark:border-zinc-800 space-y-6">
                     <div className="flex items-center justify-between">
                       <div className="space-y-0.5">
@@ -714,6 +849,15 @@ export default function SettingsPage() {
                     <div className="p-6 rounded-2xl bg-white dark:bg-zinc-950 border border-zinc-100 dark:border-zinc-800 space-y-4">
                       <PlatformImport platform="MyAnimeList" />
                     </div>
+                    <div className="p-6 rounded-2xl bg-white dark:bg-zinc-950 border border-zinc-100 dark:border-zinc-800 space-y-4">
+                      <PlatformImport platform="Kenmei" />
+                    </div>
+                    <div className="p-6 rounded-2xl bg-white dark:bg-zinc-950 border border-zinc-100 dark:border-zinc-800 space-y-4">
+                      <PlatformImport platform="MangaUpdates" />
+                    </div>
+                    <div className="p-6 rounded-2xl bg-white dark:bg-zinc-950 border border-zinc-100 dark:border-zinc-800 space-y-4">
+                      <PlatformImport platform="Tachiyomi" />
+                    </div>
                   </div>
                 </div>
             </div>
@@ -2,12 +2,13 @@
 
 import { useState, useEffect } from "react"
 import { Button } from "@/components/ui/button"
-import { Flame, Trophy, BookOpen, Clock, TrendingUp, Heart } from "lucide-react"
+import { Flame, Trophy, BookOpen, Clock, TrendingUp, Heart, ListOrdered } from "lucide-react"
 import Link from "next/link"
 import { useRouter } from "next/navigation"
 import { Skeleton } from "@/components/ui/skeleton"
 import { toast } from "sonner"
 import { AchievementsSection } from "@/components/ui/achievements-section"
+import { ListCard, type UserListSummary } from "@/components/lists/ListCard"
 import type { AchievementProgress } from "@/lib/gamification/achievement-progress"
 
 interface Activity {
@@ -83,6 +84,7 @@ export default function UserProfilePage({ params }: { params: Promise<{ username
   const [stats, setStats] = useState<ProfileStats | null>(null)
   const [libraryEntries, setLibraryEntries] = useState<any[]>([])
   const [activities, setActivities] = useState<Activity[]>([])
+  const [lists, setLists] = useState<UserListSummary[]>([])
   const [isFollowing, setIsFollowing] = useState(false)
   const [isOwnProfile, setIsOwnProfile] = useState(false)
   const [loading, setLoading] = useState(true)
@@ -145,6 +147,24 @@ export default function UserProfilePage({ params }: { params: Promise<{ username
     }
   }, [username, profile, isOwnProfile])
 
+  useEffect(() => {
+    if (!username || !profile) return
+
+    async function fetchLists() {
+      try {
+        const res = await fetch(`/api/users/${username}/lists`)
+        if (res.ok) {
+          const data = await res.json()
+          setLists(data.lists || [])
+        }
+      } catch (error: unknown) {
+        console.error("Failed to fetch lists:", error)
+      }
+    }
+
+    fetchLists()
+  }, [username, profile])
+
   const handleFollow = async () => {
     if (!profile) return
     
@@ -340,6 +360,33 @@ export default function UserProfilePage({ params }: { params: Promise<{ username
             )}
           </div>
 
+          {(lists.length > 0 || isOwnProfile) && (
+            <div className="space-y-6">
+              <div className="flex items-center justify-between">
+                <h2 className="text-xl font-bold flex items-center gap-2">
+                  <ListOrdered className="size-5 text-zinc-400" />
+                  Lists
+                </h2>
+                {isOwnProfile && (
+                  <Link href="/lists" className="text-xs font-medium text-zinc-500 hover:underline">Manage</Link>
+                )}
+              </div>
+              {lists.length > 0 ? (
+                <div className="grid grid-cols-2 sm:grid-cols-3 gap-6">
+                  {lists.map(list => (
+                    <Link key={list.id} href={`/lists/${list.id}`}>
+                      <ListCard list={list} />
+                    </Link>
+                  ))}
+                </div>
+              ) : (
+                <div className="p-12 text-center bg-zinc-50 dark:bg-zinc-900/50 rounded-3xl border border-dashed border-zinc-200 dark:border-zinc-800">
+                  <p className="text-zinc-500 text-sm font-medium">No lists yet</p>
+                </div>
+              )}
+            </div>
+          )}
+
           <div className="space-y-6">
             <h2 className="text-xl font-bold flex items-center gap-2">
               <Clock className="size-5 text-zinc-400" />
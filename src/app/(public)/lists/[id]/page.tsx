@@ -0,0 +1,161 @@
+import Link from "next/link"
+import { notFound } from "next/navigation"
+import type { Metadata } from "next"
+import { prisma } from "@/lib/prisma"
+import { getCachedUser } from "@/lib/supabase/cached-user"
+import { UUID_REGEX } from "@/lib/api-utils"
+import { canViewList, summarizeList } from "@/lib/lists"
+import { Badge } from "@/components/ui/badge"
+import { NSFWCover } from "@/components/ui/nsfw-cover"
+import { PublicListActions } from "@/components/lists/PublicListActions"
+import { BookOpen, CheckCircle2, Lock, Star, Users } from "lucide-react"
+
+async function loadList(id: string) {
+  if (!UUID_REGEX.test(id)) return null
+
+  return prisma.userList.findUnique({
+    where: { id },
+    select: {
+      id: true,
+      user_id: true,
+      name: true,
+      description: true,
+      is_public: true,
+      updated_at: true,
+      users: { select: { username: true, privacy_settings: true } },
+      _count: { select: { UserListFollow: true } },
+      UserListItem: {
+        orderBy: { position: "asc" },
+        select: {
+          series_id: true,
+          note: true,
+          Series: {
+            select: {
+              id: true,
+              title: true,
+              cover_url: true,
+              content_rating: true,
+              type: true,
+              status: true,
+              genres: true,
+              average_rating: true,
+              chapter_count: true,
+            },
+          },
+        },
+      },
+    },
+  })
+}
+
+export async function generateMetadata({
+  params,
+}: {
+  params: Promise<{ id: string }>
+}): Promise<Metadata> {
+  const { id } = await params
+  const [list, user] = await Promise.all([loadList(id), getCachedUser()])
+  if (!list || !canViewList(list, user?.id)) {
+    return { title: "List not found" }
+  }
+  return {
+    title: `${list.name} by ${list.users.username}`,
+    description: list.description ?? `${list.UserListItem.length} series curated by ${list.users.username}`,
+  }
+}
+
+export default async function PublicListPage({
+  params,
+}: {
+  params: Promise<{ id: string }>
+}) {
+  const { id } = await params
+  const [list, user] = await Promise.all([loadList(id), getCachedUser()])
+
+  if (!list || !canViewList(list, user?.id)) {
+    notFound()
+  }
+
+  const isOwner = user?.id === list.user_id
+  const following = user && !isOwner
+    ? (await prisma.userListFollow.count({ where: { list_id: list.id, user_id: user.id } })) > 0
+    : false
+  const stats = summarizeList(list.UserListItem.map(item => item.Series))
+
+  return (
+    <div className="p-6 space-y-8 max-w-7xl mx-auto pb-24">
+      <div className="space-y-4">
+        <div className="space-y-2">
+          <div className="flex items-center gap-2">
+            <h1 className="text-3xl font-bold tracking-tight">{list.name}</h1>
+            {!list.is_public && (
+              <Badge variant="secondary" className="gap-1"><Lock className="size-3" /> Private</Badge>
+            )}
+          </div>
+          <p className="text-sm text-zinc-500">
+            by{" "}
+            <Link href={`/users/${list.users.username}`} className="font-medium text-zinc-900 dark:text-zinc-50 hover:underline">
+              {list.users.username}
+            </Link>
+            {" · "}updated {list.updated_at.toLocaleDateString()}
+          </p>
+          {list.description && (
+            <p className="text-zinc-600 dark:text-zinc-400 max-w-2xl whitespace-pre-line">{list.description}</p>
+          )}
+        </div>
+
+        <div className="flex flex-wrap gap-4 text-sm text-zinc-500">
+          <span className="flex items-center gap-1.5"><BookOpen className="size-4" /> {stats.series_count} series · {stats.total_chapters} chapters</span>
+          <span className="flex items-center gap-1.5"><CheckCircle2 className="size-4" /> {stats.completed_count} completed</span>
+          {stats.average_rating !== null && (
+            <span className="flex items-center gap-1.5"><Star className="size-4" /> {stats.average_rating} avg rating</span>
+          )}
+          <span className="flex items-center gap-1.5"><Users className="size-4" /> {list._count.UserListFollow} followers</span>
+        </div>
+
+        {(stats.types.length > 0 || stats.top_genres.length > 0) && (
+          <div className="flex flex-wrap gap-2">
+            {stats.types.map(type => (
+              <Badge key={`type-${type.name}`} variant="outline" className="capitalize">{type.name} · {type.count}</Badge>
+            ))}
+            {stats.top_genres.map(genre => (
+              <Badge key={`genre-${genre.name}`} variant="secondary">{genre.name} · {genre.count}</Badge>
+            ))}
+          </div>
+        )}
+
+        <PublicListActions
+          listId={list.id}
+          isOwner={isOwner}
+          isSignedIn={!!user}
+          initialFollowing={following}
+          initialFollowers={list._count.UserListFollow}
+        />
+      </div>
+
+      {list.UserListItem.length === 0 ? (
+        <div className="text-center py-20 text-zinc-500">This list is empty.</div>
+      ) : (
+        <div className="grid gap-6 grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 xl:grid-cols-6">
+          {list.UserListItem.map(item => (
+            <div key={item.series_id} className="space-y-2">
+              <Link href={`/series/${item.Series.id}`} className="group block space-y-2">
+                <div className="overflow-hidden rounded-2xl bg-zinc-100 dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-800 shadow-sm transition-all group-hover:ring-2 group-hover:ring-zinc-900 dark:group-hover:ring-zinc-50">
+                  <NSFWCover
+                    src={item.Series.cover_url}
+                    alt={item.Series.title}
+                    contentRating={item.Series.content_rating}
+                    showBadge={false}
+                    size="256"
+                  />
+                </div>
+                <p className="font-semibold text-sm truncate">{item.Series.title}</p>
+              </Link>
+              {item.note && <p className="text-xs text-zinc-500 line-clamp-4 whitespace-pre-line">{item.note}</p>}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -21,6 +21,10 @@ import { SeriesStatsTab } from "../../../../components/series/SeriesStatsTab"
 import { SourceCard } from "../../../../components/series/SourceCard"
 import { ExternalLinkButton } from "../../../../components/series/ExternalLinkButton"
 import { ReleaseInfoCard } from "../../../../components/series/ReleaseInfoCard"
+import { ReleaseScheduleBadge } from "../../../../components/series/ReleaseScheduleBadge"
+import { LibraryEntryDetails } from "../../../../components/series/LibraryEntryDetails"
+import { SimilarSeriesRail } from "../../../../components/series/SimilarSeriesRail"
+import { DEFAULT_RATING_SCALE, isRatingScale } from "@/lib/ratings"
 
 interface ExternalLink {
   site: string
@@ -90,7 +94,7 @@ export default async function SeriesDetailPage({
         const [userRes, prioritiesRes, seriesPrefRes] = await Promise.all([
           supabase
             .from('users')
-            .select('default_source')
+            .select('default_source, rating_scale')
             .eq('id', user.id)
             .single(),
           supabase
@@ -187,6 +191,7 @@ export default async function SeriesDetailPage({
             <div className="flex flex-wrap gap-2">
               <Badge variant="secondary" className="bg-zinc-100 text-zinc-900 dark:bg-zinc-800 dark:text-zinc-50 capitalize">{serializedSeries.type}</Badge>
               <Badge variant="secondary" className="bg-zinc-100 text-zinc-900 dark:bg-zinc-800 dark:text-zinc-50 capitalize">{serializedSeries.status}</Badge>
+              <ReleaseScheduleBadge seriesId={serializedSeries.id} />
               {serializedSeries.demographic && (
                 <Badge variant="secondary" className="bg-zinc-100 text-zinc-900 dark:bg-zinc-800 dark:text-zinc-50 capitalize">{serializedSeries.demographic}</Badge>
               )}
@@ -255,6 +260,18 @@ export default async function SeriesDetailPage({
                 sourceUrl={serializedLibraryEntry.source_url}
               />
             )}
+            {serializedLibraryEntry && (
+              <LibraryEntryDetails
+                entryId={serializedLibraryEntry.id}
+                status={serializedLibraryEntry.status}
+                notes={serializedLibraryEntry.notes ?? null}
+                tags={serializedLibraryEntry.tags ?? []}
+                rereadCount={serializedLibraryEntry.reread_count ?? 0}
+                completedAt={serializedLibraryEntry.completed_at ?? null}
+                userRating={serializedLibraryEntry.user_rating ?? null}
+                ratingScale={isRatingScale(userSettings?.rating_scale) ? userSettings.rating_scale : DEFAULT_RATING_SCALE}
+              />
+            )}
             <Tabs defaultValue="chapters" className="w-full">
               <TabsList className="bg-transparent border-b border-zinc-100 dark:border-zinc-900 w-full justify-start rounded-none h-auto p-0 gap-8">
                 <TabsTrigger value="chapters" className="rounded-none border-b-2 border-transparent data-[state=active]:border-zinc-900 dark:data-[state=active]:border-zinc-50 px-0 pb-4 font-bold text-lg">Chapters</TabsTrigger>
@@ -384,6 +401,8 @@ export default async function SeriesDetailPage({
               <SeriesStatsTab seriesId={series.id} />
             </TabsContent>
           </Tabs>
+
+            <SimilarSeriesRail seriesId={series.id} />
         </div>
 
         <div className="space-y-8">
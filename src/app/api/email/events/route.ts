@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { handleApiError, ApiError, ErrorCodes, timingSafeEqual, validateJsonSize } from "@/lib/api-utils";
+import { suppressEmail } from "@/lib/email/delivery";
+import { logger } from "@/lib/logger";
+
+export const dynamic = 'force-dynamic';
+
+const eventSchema = z.object({
+  type: z.enum(['bounce', 'complaint', 'delivery']),
+  email: z.string().email().max(255),
+  /** Hard (permanent) bounce; soft bounces are only logged */
+  permanent: z.boolean().default(true),
+  detail: z.string().max(500).optional(),
+});
+
+const eventsSchema = z.union([
+  eventSchema,
+  z.object({ events: z.array(eventSchema).min(1).max(100) }),
+]);
+
+/**
+ * Bounce and complaint webhook for the mail relay. Relays differ in payload
+ * shape, so the relay (or a small adapter in front of it) posts this
+ * normalized form with `Authorization: Bearer $EMAIL_WEBHOOK_SECRET`.
+ * Hard bounces and complaints add the address to the suppression list.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const secret = process.env.EMAIL_WEBHOOK_SECRET;
+    if (!secret) {
+      throw new ApiError('Email events are not configured', 503, ErrorCodes.INTERNAL_ERROR);
+    }
+    if (!timingSafeEqual(request.headers.get('authorization') ?? '', `Bearer ${secret}`)) {
+      throw new ApiError('Unauthorized', 401, ErrorCodes.UNAUTHORIZED);
+    }
+
+    await validateJsonSize(request);
+
+    let body;
+    try {
+      body = await request.json();
+    } catch {
+      throw new ApiError('Invalid JSON body', 400, ErrorCodes.BAD_REQUEST);
+    }
+
+    const parsed = eventsSchema.safeParse(body);
+    if (!parsed.success) {
+      throw new ApiError(parsed.error.errors[0].message, 400, ErrorCodes.VALIDATION_ERROR);
+    }
+
+    const events = 'events' in parsed.data ? parsed.data.events : [parsed.data];
+    let suppressed = 0;
+
+    for (const event of events) {
+      if (event.type === 'complaint' || (event.type === 'bounce' && event.permanent)) {
+        await suppressEmail(event.email, event.type, event.detail);
+        suppressed++;
+      } else if (event.type === 'bounce') {
+        logger.info('[Email] Soft bounce', { detail: event.detail });
+      }
+    }
+
+    return NextResponse.json({ success: true, received: events.length, suppressed });
+  } catch (error: unknown) {
+    logger.error('Email events error', { error: error instanceof Error ? error.message : String(error) });
+    return handleApiError(error);
+  }
+}
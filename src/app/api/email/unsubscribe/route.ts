@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { checkRateLimit, getClientIp } from "@/lib/api-utils";
+import { EMAIL_TYPES, EMAIL_TYPE_LABELS, verifyUnsubscribeToken } from "@/lib/email/unsubscribe";
+import { escapeHtml } from "@/lib/email/templates";
+import { logger } from "@/lib/logger";
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * One-click unsubscribe for notification emails. The signed token in the
+ * link is the only authorization, so there is no session or Origin check:
+ * mail clients POST here directly (RFC 8058 List-Unsubscribe-Post).
+ *
+ * GET only renders a confirmation form, because link scanners and mail
+ * previews fetch URLs without the recipient clicking anything.
+ */
+
+function page(title: string, body: string, status = 200) {
+  const html = `<!DOCTYPE html>
+<html>
+<head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1"><meta name="robots" content="noindex"><title>${escapeHtml(title)} · MangaTrack</title></head>
+<body style="margin:0;padding:48px 16px;background:#f4f4f5;font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',Roboto,sans-serif;color:#18181b;">
+<main style="max-width:440px;margin:0 auto;background:#ffffff;border-radius:16px;padding:32px;">
+<h1 style="font-size:20px;margin:0 0 12px;">${escapeHtml(title)}</h1>
+${body}
+</main>
+</body>
+</html>`;
+  return new NextResponse(html, {
+    status,
+    headers: { 'Content-Type': 'text/html; charset=utf-8', 'Cache-Control': 'no-store' },
+  });
+}
+
+const invalidLink = () => page(
+  'Link expired or invalid',
+  '<p style="font-size:15px;line-height:1.6;">This unsubscribe link is not valid. You can change email preferences from <a href="/settings">your notification settings</a>.</p>',
+  400
+);
+
+async function rateLimited(request: NextRequest) {
+  return !await checkRateLimit(`email-unsubscribe:${getClientIp(request)}`, 30, 60000);
+}
+
+export async function GET(request: NextRequest) {
+  if (await rateLimited(request)) {
+    return page('Too many requests', '<p>Please wait a moment and try again.</p>', 429);
+  }
+
+  const token = request.nextUrl.searchParams.get('token') ?? '';
+  const unsubscribe = verifyUnsubscribeToken(token);
+  if (!unsubscribe) return invalidLink();
+
+  const label = EMAIL_TYPE_LABELS[unsubscribe.type];
+  return page(
+    'Unsubscribe',
+    `<p style="font-size:15px;line-height:1.6;">Stop receiving ${escapeHtml(label)} by email?</p>
+<form method="post" action="/api/email/unsubscribe?token=${encodeURIComponent(token)}">
+<button type="submit" style="background:#18181b;color:#ffffff;border:0;border-radius:10px;padding:12px 20px;font-size:14px;font-weight:600;cursor:pointer;">Unsubscribe</button>
+</form>`
+  );
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    if (await rateLimited(request)) {
+      return page('Too many requests', '<p>Please wait a moment and try again.</p>', 429);
+    }
+
+    const unsubscribe = verifyUnsubscribeToken(request.nextUrl.searchParams.get('token') ?? '');
+    if (!unsubscribe) return invalidLink();
+
+    const user = await prisma.user.findUnique({
+      where: { id: unsubscribe.userId },
+      select: { notification_settings: true },
+    });
+
+    if (user) {
+      const existing = (user.notification_settings as Record<string, unknown>) || {};
+      await prisma.user.update({
+        where: { id: unsubscribe.userId },
+        data: { notification_settings: { ...existing, [EMAIL_TYPES[unsubscribe.type]]: false } },
+      });
+    }
+
+    return page(
+      'You have been unsubscribed',
+      `<p style="font-size:15px;line-height:1.6;">You will no longer receive ${escapeHtml(EMAIL_TYPE_LABELS[unsubscribe.type])} by email. You can turn them back on from <a href="/settings">your notification settings</a>.</p>`
+    );
+  } catch (error: unknown) {
+    logger.error('Email unsubscribe error', { error: error instanceof Error ? error.message : String(error) });
+    return page('Something went wrong', '<p>Please try again later.</p>', 500);
+  }
+}
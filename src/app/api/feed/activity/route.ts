@@ -3,6 +3,8 @@ import { NextRequest, NextResponse } from "next/server"
 import { checkRateLimit, getClientIp, handleApiError, ApiError, ErrorCodes, getMiddlewareUser } from "@/lib/api-utils"
 import { redisApi, REDIS_KEY_PREFIX } from "@/lib/redis"
 import { logger } from "@/lib/logger"
+import { FeedActivityQuerySchema } from "@/lib/schemas/feed"
+import { getFollowedListActivity } from "@/lib/lists"
 
 interface ActivityEventRow {
   id: string;
@@ -22,9 +24,6 @@ interface ActivityEventRow {
   is_read: boolean;
 }
 
-// BUG FIX: Whitelist valid filter values to prevent injection
-const VALID_FILTERS = new Set(['all', 'unread']);
-
 export async function GET(request: NextRequest) {
   try {
     const ip = getClientIp(request);
@@ -32,18 +31,11 @@ export async function GET(request: NextRequest) {
       throw new ApiError("Too many requests. Please wait a moment.", 429, ErrorCodes.RATE_LIMITED);
     }
 
+    // BUG FIX: Limit is clamped and filter whitelisted to prevent injection
     const { searchParams } = new URL(request.url);
-    const cursorStr = searchParams.get("cursor");
-    
-    // BUG FIX: Validate and sanitize limit parameter
-    const rawLimit = parseInt(searchParams.get("limit") || "30", 10);
-    const limit = Math.min(Math.max(1, isNaN(rawLimit) ? 30 : rawLimit), 100);
-    
-    // BUG FIX: Validate filter against whitelist
-    const rawFilter = searchParams.get("filter") || "all";
-    const filter = VALID_FILTERS.has(rawFilter) ? rawFilter : "all";
+    const { cursor: cursorStr, limit, filter } = FeedActivityQuerySchema.parse(Object.fromEntries(searchParams));
 
-    const user = await getMiddlewareUser();
+    const user = await getMiddlewareUser({ scope: "read:feed" });
 
     if (!user) {
       return NextResponse.json({ entries: [], next_cursor: null, has_more: false });
@@ -146,20 +138,18 @@ export async function GET(request: NextRequest) {
         );
       }, { maxWait: 5000, timeout: FEED_QUERY_TIMEOUT_MS + 2000 });
 
-    const hasMore = events.length > limit;
-    const items = hasMore ? events.slice(0, -1) : events;
-    
-    // Generate next cursor
-    const nextCursor = hasMore && items.length > 0 
-      ? Buffer.from(JSON.stringify({
-          d: items[items.length - 1].discovered_at.toISOString(),
-          i: items[items.length - 1].id
-        })).toString('base64')
-      : null;
+      // Series added to followed lists aren't chapters, so they only appear
+      // in the unfiltered feed. Both sources share the (timestamp, id) keyset.
+      const listEvents = filter === "all"
+        ? await getFollowedListActivity(user.id, { date: cursorDate, id: cursorId }, limit + 1)
+        : [];
 
-    const response = {
-      entries: items.map((event) => ({
+    const chapterEntries = events.map((event) => ({
+      at: new Date(event.discovered_at),
+      id: event.id,
+      entry: {
         id: event.id,
+        type: "chapter",
         series: {
           id: event.series_id,
           title: event.series_title,
@@ -180,7 +170,54 @@ export async function GET(request: NextRequest) {
         }],
         first_discovered_at: event.discovered_at.toISOString(),
         last_updated_at: event.discovered_at.toISOString(),
-      })),
+      },
+    }));
+
+    const listEntries = listEvents.map((listEvent) => {
+      const addedAt = new Date(listEvent.added_at);
+      return {
+        at: addedAt,
+        id: listEvent.id,
+        entry: {
+          id: listEvent.id,
+          type: "list_addition",
+          series: {
+            id: listEvent.series_id,
+            title: listEvent.series_title,
+            cover_url: listEvent.series_cover_url,
+            content_rating: listEvent.series_content_rating,
+            status: listEvent.series_status,
+            type: listEvent.series_type,
+          },
+          list: {
+            id: listEvent.list_id,
+            name: listEvent.list_name,
+            owner_username: listEvent.owner_username,
+          },
+          note: listEvent.note,
+          is_unseen: addedAt > feedLastSeenAt,
+          first_discovered_at: addedAt.toISOString(),
+          last_updated_at: addedAt.toISOString(),
+        },
+      };
+    });
+
+    const merged = [...chapterEntries, ...listEntries]
+      .sort((a, b) => b.at.getTime() - a.at.getTime() || (a.id < b.id ? 1 : a.id > b.id ? -1 : 0));
+
+    const hasMore = merged.length > limit;
+    const items = merged.slice(0, limit);
+    
+    // Generate next cursor
+    const nextCursor = hasMore && items.length > 0 
+      ? Buffer.from(JSON.stringify({
+          d: items[items.length - 1].at.toISOString(),
+          i: items[items.length - 1].id
+        })).toString('base64')
+      : null;
+
+    const response = {
+      entries: items.map((item) => item.entry),
       next_cursor: nextCursor,
       has_more: hasMore,
     };
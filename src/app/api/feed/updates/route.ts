@@ -3,14 +3,7 @@ import { NextRequest, NextResponse } from "next/server"
 import { checkRateLimit, getClientIp, handleApiError, ApiError, ErrorCodes, getMiddlewareUser } from "@/lib/api-utils"
 import { PRODUCTION_QUERIES } from "@/lib/sql/production-queries"
 import { ALLOWED_CONTENT_RATINGS } from "@/lib/constants/safe-browsing"
-import { z } from "zod"
-
-// Input validation schema
-const querySchema = z.object({
-  cursor: z.string().datetime().optional().nullable(),
-  limit: z.coerce.number().min(1).max(50).default(20),
-  unseen_only: z.preprocess((val) => val === 'true', z.boolean()).default(false),
-});
+import { FeedUpdatesQuerySchema } from "@/lib/schemas/feed"
 
 export async function GET(request: NextRequest) {
   try {
@@ -19,7 +12,7 @@ export async function GET(request: NextRequest) {
       throw new ApiError("Too many requests. Please wait a moment.", 429, ErrorCodes.RATE_LIMITED);
     }
 
-    const user = await getMiddlewareUser();
+    const user = await getMiddlewareUser({ scope: "read:feed" });
 
     if (!user) {
       throw new ApiError("Unauthorized", 401, ErrorCodes.UNAUTHORIZED);
@@ -27,7 +20,7 @@ export async function GET(request: NextRequest) {
 
     // Validate query parameters
     const { searchParams } = new URL(request.url);
-    const validatedQuery = querySchema.safeParse({
+    const validatedQuery = FeedUpdatesQuerySchema.safeParse({
       cursor: searchParams.get("cursor"),
       limit: searchParams.get("limit") || "20",
       unseen_only: searchParams.get("unseen_only"),
@@ -0,0 +1,71 @@
+import { prisma } from "@/lib/prisma"
+import { NextRequest, NextResponse } from "next/server"
+import { checkRateLimit, getClientIp, handleApiError, ApiError, ErrorCodes } from "@/lib/api-utils"
+import { LIBRARY_AVAILABILITY_FEED_SQL } from "@/lib/feed-eligibility"
+import { resolveFeedToken } from "@/lib/feeds/tokens"
+import { getSiteUrl } from "@/lib/email/unsubscribe"
+import { parseSyndicationFormat, renderSyndicationFeed, SYNDICATION_CONTENT_TYPES } from "@/lib/feeds/syndication"
+
+const FEED_ITEM_LIMIT = 50
+
+interface AvailabilityEventRow {
+  event_id: string
+  occurred_at: Date
+  series_id: string
+  series_title: string
+  chapter_number: string
+  source_name: string
+  source_url: string
+}
+
+/**
+ * GET /api/feeds/[token]/availability?format=rss|atom
+ * New chapter availability across the token owner's library.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const ip = getClientIp(request)
+    if (!await checkRateLimit(`feeds:${ip}`, 60, 60000)) {
+      throw new ApiError("Too many requests. Please wait a moment.", 429, ErrorCodes.RATE_LIMITED)
+    }
+
+    const { token } = await params
+    const userId = await resolveFeedToken(token)
+    if (!userId) {
+      throw new ApiError("Feed not found", 404, ErrorCodes.NOT_FOUND)
+    }
+
+    const format = parseSyndicationFormat(request.nextUrl.searchParams.get("format"))
+    const rows = await prisma.$queryRawUnsafe(LIBRARY_AVAILABILITY_FEED_SQL, userId, FEED_ITEM_LIMIT) as AvailabilityEventRow[]
+    const siteUrl = getSiteUrl()
+
+    const body = renderSyndicationFeed(format, {
+      id: `urn:mangatrack:feed:${userId}:availability`,
+      title: "MangaTrack · New chapters in your library",
+      description: "Chapters that became available for series you follow",
+      link: `${siteUrl}/feed`,
+      selfUrl: request.nextUrl.toString(),
+      items: rows.map(row => ({
+        id: `availability:${row.event_id}`,
+        title: `${row.series_title} – Chapter ${Number(row.chapter_number)}`,
+        link: row.source_url || `${siteUrl}/series/${row.series_id}`,
+        summary: `Chapter ${Number(row.chapter_number)} of ${row.series_title} is available on ${row.source_name}.`,
+        published: new Date(row.occurred_at),
+        category: row.source_name,
+      })),
+    })
+
+    return new NextResponse(body, {
+      headers: {
+        "Content-Type": SYNDICATION_CONTENT_TYPES[format],
+        "Cache-Control": "private, max-age=300",
+        "X-Robots-Tag": "noindex",
+      },
+    })
+  } catch (error: unknown) {
+    return handleApiError(error)
+  }
+}
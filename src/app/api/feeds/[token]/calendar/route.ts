@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from "next/server"
+import { checkRateLimit, getClientIp, handleApiError, ApiError, ErrorCodes } from "@/lib/api-utils"
+import { resolveFeedToken } from "@/lib/feeds/tokens"
+import { getSiteUrl } from "@/lib/email/unsubscribe"
+import { ICAL_CONTENT_TYPE, renderICalendar } from "@/lib/feeds/ical"
+import { loadLibraryReleasePredictions, type ReleaseCadence } from "@/lib/release-prediction"
+
+const HORIZON_DAYS = 60
+const DAY_MS = 24 * 60 * 60 * 1000
+
+function describeCadence(cadence: ReleaseCadence, intervalDays: number): string {
+  return cadence === "irregular" ? `Releases roughly every ${intervalDays} days` : `Releases ${cadence}`
+}
+
+/**
+ * GET /api/feeds/[token]/calendar
+ * iCalendar feed of predicted next releases for the token owner's active
+ * series (everything not completed or dropped). Series on hiatus are left
+ * out, since there is no meaningful date to show.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const ip = getClientIp(request)
+    if (!await checkRateLimit(`feeds:${ip}`, 60, 60000)) {
+      throw new ApiError("Too many requests. Please wait a moment.", 429, ErrorCodes.RATE_LIMITED)
+    }
+
+    const { token } = await params
+    const userId = await resolveFeedToken(token)
+    if (!userId) {
+      throw new ApiError("Feed not found", 404, ErrorCodes.NOT_FOUND)
+    }
+
+    const now = Date.now()
+    const siteUrl = getSiteUrl()
+    const schedule = await loadLibraryReleasePredictions(userId, new Date(now))
+
+    const events = schedule.flatMap(({ series_id, title, prediction }) => {
+      const at = prediction.predicted_at.getTime()
+      if (prediction.status === "hiatus" || at > now + HORIZON_DAYS * DAY_MS) return []
+      return [{
+        uid: `release-${series_id}@mangatrack`,
+        date: prediction.predicted_at,
+        summary: `${title} – next chapter expected`,
+        description: `${describeCadence(prediction.cadence, prediction.interval_days)} (last on ${prediction.last_release_at.toISOString().slice(0, 10)}).`,
+        url: `${siteUrl}/series/${series_id}`,
+      }]
+    })
+
+    return new NextResponse(renderICalendar("MangaTrack releases", events), {
+      headers: {
+        "Content-Type": ICAL_CONTENT_TYPE,
+        "Cache-Control": "private, max-age=1800",
+        "X-Robots-Tag": "noindex",
+      },
+    })
+  } catch (error: unknown) {
+    return handleApiError(error)
+  }
+}
@@ -0,0 +1,90 @@
+import { prisma } from "@/lib/prisma"
+import { NextRequest, NextResponse } from "next/server"
+import { checkRateLimit, getClientIp, handleApiError, ApiError, ErrorCodes, validateUUID } from "@/lib/api-utils"
+import { resolveFeedToken } from "@/lib/feeds/tokens"
+import { getSiteUrl } from "@/lib/email/unsubscribe"
+import { parseSyndicationFormat, renderSyndicationFeed, SYNDICATION_CONTENT_TYPES } from "@/lib/feeds/syndication"
+
+const FEED_ITEM_LIMIT = 50
+
+/**
+ * GET /api/feeds/[token]/series/[seriesId]?format=rss|atom
+ * Latest chapters of one series in the token owner's library.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string; seriesId: string }> }
+) {
+  try {
+    const ip = getClientIp(request)
+    if (!await checkRateLimit(`feeds:${ip}`, 60, 60000)) {
+      throw new ApiError("Too many requests. Please wait a moment.", 429, ErrorCodes.RATE_LIMITED)
+    }
+
+    const { token, seriesId } = await params
+    validateUUID(seriesId, 'series id')
+
+    const userId = await resolveFeedToken(token)
+    if (!userId) {
+      throw new ApiError("Feed not found", 404, ErrorCodes.NOT_FOUND)
+    }
+
+    const entry = await prisma.libraryEntry.findFirst({
+      where: { user_id: userId, series_id: seriesId, deleted_at: null },
+      select: { Series: { select: { title: true } } },
+    })
+    if (!entry?.Series) {
+      throw new ApiError("Feed not found", 404, ErrorCodes.NOT_FOUND)
+    }
+
+    const chapters = await prisma.logicalChapter.findMany({
+      where: { series_id: seriesId, deleted_at: null },
+      orderBy: { first_seen_at: 'desc' },
+      take: FEED_ITEM_LIMIT,
+      select: {
+        id: true,
+        chapter_number: true,
+        chapter_title: true,
+        first_seen_at: true,
+        ChapterSource: {
+          where: { is_available: true },
+          orderBy: { detected_at: 'asc' },
+          select: { source_name: true, source_chapter_url: true },
+        },
+      },
+    })
+
+    const format = parseSyndicationFormat(request.nextUrl.searchParams.get("format"))
+    const seriesTitle = entry.Series.title
+    const seriesUrl = `${getSiteUrl()}/series/${seriesId}`
+
+    const body = renderSyndicationFeed(format, {
+      id: `urn:mangatrack:feed:${userId}:series:${seriesId}`,
+      title: `MangaTrack · ${seriesTitle}`,
+      description: `New chapters of ${seriesTitle}`,
+      link: seriesUrl,
+      selfUrl: request.nextUrl.toString(),
+      items: chapters.map(chapter => {
+        const sources = chapter.ChapterSource.map(s => s.source_name).filter(Boolean)
+        const label = `Chapter ${chapter.chapter_number ?? '?'}${chapter.chapter_title ? `: ${chapter.chapter_title}` : ''}`
+        return {
+          id: `chapter:${chapter.id}`,
+          title: `${seriesTitle} – ${label}`,
+          link: chapter.ChapterSource[0]?.source_chapter_url || seriesUrl,
+          summary: sources.length > 0 ? `${label} is available on ${Array.from(new Set(sources)).join(', ')}.` : `${label} was detected.`,
+          published: chapter.first_seen_at,
+        }
+      }),
+    })
+
+    return new NextResponse(body, {
+      headers: {
+        "Content-Type": SYNDICATION_CONTENT_TYPES[format],
+        "Cache-Control": "private, max-age=300",
+        "X-Robots-Tag": "noindex",
+      },
+    })
+  } catch (error: unknown) {
+    return handleApiError(error)
+  }
+}
@@ -13,6 +13,7 @@ import {
 } from '@/lib/bug-fixes/v5-audit-bugs-81-100';
 import { checkDLQHealth } from '@/lib/monitoring';
 import { getSearchCacheStats } from '@/lib/search-cache';
+import { getSyncHorizonStatus, SYNC_HORIZON_WARNING_SECONDS, type SyncHorizonStatus } from '@/lib/sync/library-versions';
 import { getInternalApiSecret } from '@/lib/config/env-validation';
 import { timingSafeEqual } from '@/lib/api-utils';
 
@@ -44,6 +45,7 @@ function isInternalRequest(request: NextRequest): boolean {
  * - Readiness: Can the service process requests?
  * - Queue Health: Is the job backlog under control?
  * - Search Cache: Hit/miss rates for search caching
+ * - Sync Horizon: A long-open write transaction stalls /api/sync/changes
  * 
  * Returns:
  * - 200: Healthy and ready to process requests (or degraded but functional)
@@ -158,6 +160,14 @@ export async function GET(request: NextRequest) {
       logger.warn('Failed to get search cache stats', { error: cacheError instanceof Error ? cacheError.message : String(cacheError) });
     }
 
+    // Library sync pulls stop at the oldest open write transaction
+    let syncHorizon: SyncHorizonStatus | null = null;
+    try {
+      syncHorizon = await getSyncHorizonStatus();
+    } catch (horizonError: unknown) {
+      logger.warn('Failed to check sync horizon', { error: horizonError instanceof Error ? horizonError.message : String(horizonError) });
+    }
+
     // Auth circuit breaker metrics
     const circuitBreakerMetrics = getCircuitMetrics();
 
@@ -172,6 +182,9 @@ export async function GET(request: NextRequest) {
   if (!circuitBreakerMetrics.isHealthy && overallStatus === 'healthy') {
     overallStatus = 'degraded';
   }
+  if (syncHorizon?.status === 'warning' && overallStatus === 'healthy') {
+    overallStatus = 'degraded';
+  }
 
     // Add additional metadata
     const baseResponse = {
@@ -219,6 +232,11 @@ export async function GET(request: NextRequest) {
         dedupSaves: searchCacheStats.dedupSaves,
         externalDedupSaves: searchCacheStats.externalDedupSaves,
       },
+      // Oldest open write transaction; /api/sync/changes returns nothing newer
+      syncHorizon: syncHorizon && {
+        ...syncHorizon,
+        thresholdSeconds: SYNC_HORIZON_WARNING_SECONDS,
+      },
       // Auth circuit breaker status
       authCircuitBreaker: {
         state: circuitBreakerMetrics.state,
@@ -242,6 +260,10 @@ export async function GET(request: NextRequest) {
     }
   }
   
+  if (syncHorizon?.status === 'warning') {
+    logger.warn('Sync horizon held back by a long-running transaction', { ...syncHorizon });
+  }
+
   // Log queue issues
   for (const queue of queueHealthStatuses) {
     if (queue.issues.length > 0) {
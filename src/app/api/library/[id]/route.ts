@@ -4,7 +4,7 @@ import { Prisma } from '@prisma/client';
 import { logActivity } from '@/lib/gamification/activity';
 import { XP_SERIES_COMPLETED, calculateLevel } from '@/lib/gamification/xp';
 import { checkAchievements, UnlockedAchievement } from '@/lib/gamification/achievements';
-import { validateUUID, handleApiError, ApiError, validateOrigin, ErrorCodes, getClientIp, validateContentType, validateJsonSize, checkRateLimit, getMiddlewareUser } from '@/lib/api-utils';
+import { validateUUID, handleApiError, ApiError, validateOrigin, ErrorCodes, getClientIp, validateContentType, validateJsonSize, checkRateLimit, getMiddlewareUser, sanitizeInput } from '@/lib/api-utils';
 import { recordSignal } from '@/lib/analytics/signals';
 import { antiAbuse } from '@/lib/anti-abuse';
 import { cancelJobsForLibraryEntry } from '@/lib/job-cleanup';
@@ -12,6 +12,9 @@ import { redisApi, REDIS_KEY_PREFIX } from '@/lib/redis';
 import { checkIdempotency, storeIdempotencyResult, extractIdempotencyKey } from '@/lib/idempotency';
 import { logger } from '@/lib/logger';
 import { invalidateLibraryCache } from '@/lib/cache-utils';
+import { LibraryEntryDetailsSchema, MAX_NOTES_LENGTH } from '@/lib/schemas/library';
+import { parseRatingInput } from '@/lib/ratings';
+import { recalculateSeriesRatings } from '@/lib/series-ratings';
 
 // =============================================================================
 // V5 AUDIT BUG 51: Import user assertion for transaction safety
@@ -69,7 +72,13 @@ async function verifyEntryOwnership(
 
 /**
  * PATCH /api/library/[id]
- * Updates a library entry status or rating
+ * Updates a library entry status, rating, private notes or tags, or starts a
+ * re-read (`start_reread: true`) of a completed entry. A re-read moves the
+ * entry back to reading from chapter 0 and bumps reread_count; completed_at
+ * and the completion XP flag are left as they were.
+ *
+ * `rating` is read on `rating_scale` (default POINT_10, i.e. 1-10) and stored
+ * as a canonical 0-100 user_rating; the series' average is recalculated.
  * 
  * RESPONSE CONTRACT:
  * - xpGained: base XP only (NOT including achievement XP)
@@ -116,7 +125,7 @@ export async function PATCH(
       throw new ApiError('Invalid JSON body', 400, ErrorCodes.BAD_REQUEST);
     }
     
-    const { status, rating, preferred_source } = body;
+    const { status, rating, rating_scale, preferred_source } = body;
 
     // Validate status if provided
     if (status) {
@@ -126,12 +135,14 @@ export async function PATCH(
       }
     }
 
-    // Validate rating if provided
-    if (rating !== undefined && rating !== null) {
-      const ratingNum = Number(rating);
-      if (isNaN(ratingNum) || ratingNum < 1 || ratingNum > 10) {
-        throw new ApiError('Rating must be between 1 and 10', 400, ErrorCodes.VALIDATION_ERROR);
+    // Validate rating if provided; stored on the canonical 0-100 scale
+    let score: number | null | undefined;
+    if (rating !== undefined) {
+      const parsedRating = parseRatingInput(rating, rating_scale);
+      if (parsedRating.error !== undefined) {
+        throw new ApiError(parsedRating.error, 400, ErrorCodes.VALIDATION_ERROR);
       }
+      score = parsedRating.score;
     }
 
     // Validate preferred_source if provided
@@ -141,6 +152,16 @@ export async function PATCH(
       }
     }
 
+    const details = LibraryEntryDetailsSchema.safeParse(body);
+    if (!details.success) {
+      throw new ApiError(details.error.errors[0].message, 400, ErrorCodes.VALIDATION_ERROR);
+    }
+    const { notes, tags, start_reread } = details.data;
+
+    if (start_reread && status) {
+      throw new ApiError('Cannot set a status while starting a re-read', 400, ErrorCodes.VALIDATION_ERROR);
+    }
+
     const result = await prisma.$transaction(async (tx) => {
       // Bug 40 + 51: Verify ownership and user existence within transaction
       const ownershipCheck = await verifyEntryOwnership(tx, entryId, user.id);
@@ -150,6 +171,10 @@ export async function PATCH(
       
       const currentEntry = ownershipCheck.entry;
 
+      if (start_reread && currentEntry.status !== 'completed') {
+        throw new ApiError('Only completed series can be re-read', 400, ErrorCodes.BAD_REQUEST);
+      }
+
       // Bot detection for status toggle abuse (soft block XP only)
       let botDetected = false;
       if (status && status !== currentEntry.status) {
@@ -163,8 +188,16 @@ export async function PATCH(
       // 2. Prepare update data
       const updateData: Prisma.LibraryEntryUpdateInput = {};
       if (status) updateData.status = status;
-      if (rating !== undefined) updateData.user_rating = rating;
+      if (score !== undefined) updateData.user_rating = score;
       if (preferred_source !== undefined) updateData.preferred_source = preferred_source;
+      if (notes !== undefined) updateData.notes = notes ? sanitizeInput(notes, MAX_NOTES_LENGTH) || null : null;
+      if (tags !== undefined) updateData.tags = tags;
+      if (start_reread) {
+        updateData.status = 'reading';
+        updateData.reread_count = { increment: 1 };
+        updateData.last_read_chapter = 0;
+        updateData.last_read_at = null;
+      }
 
       // 3. Update entry
       const updatedEntry = await tx.libraryEntry.update({
@@ -224,6 +257,11 @@ export async function PATCH(
           seriesId: currentEntry.series_id ?? undefined,
           metadata: { old_status: currentEntry.status, new_status: status },
         });
+      } else if (start_reread) {
+        await logActivity(tx, user.id, 'status_updated', {
+          seriesId: currentEntry.series_id ?? undefined,
+          metadata: { old_status: currentEntry.status, new_status: 'reading', reread: updatedEntry.reread_count },
+        });
       }
 
       return { 
@@ -235,15 +273,19 @@ export async function PATCH(
     }, DEFAULT_TX_OPTIONS);
 
     // Record rating signal outside transaction (non-blocking)
-    if (rating !== undefined && rating !== null && result.seriesId) {
+    if (score !== undefined && score !== null && result.seriesId) {
       recordSignal({
         user_id: user.id,
         series_id: result.seriesId,
         signal_type: 'rating',
-        metadata: { rating: Number(rating) }
+        metadata: { rating: score / 10 }
       }).catch(err => logger.error('[Library] Failed to record rating signal:', { error: err instanceof Error ? err.message : String(err) }));
     }
 
+    if (score !== undefined && result.seriesId) {
+      await recalculateSeriesRatings([result.seriesId]);
+    }
+
     // Build response following mandatory contract
     const response: Record<string, unknown> = { ...result.entry };
     
@@ -344,6 +386,10 @@ export async function DELETE(
       });
     });
 
+    if (deletedEntry.series_id && deletedEntry.user_rating !== null) {
+      await recalculateSeriesRatings([deletedEntry.series_id]);
+    }
+
     if (deletedEntry.series_id) {
       recordSignal({
         user_id: user.id,
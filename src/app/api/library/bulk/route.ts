@@ -7,6 +7,8 @@ import { checkRateLimit, handleApiError, ApiError, validateOrigin, ErrorCodes, g
 import { redisApi, REDIS_KEY_PREFIX } from '@/lib/redis';
 import { logger } from '@/lib/logger';
 import { invalidateLibraryCache } from '@/lib/cache-utils';
+import { parseRatingInput } from '@/lib/ratings';
+import { recalculateSeriesRatings } from '@/lib/series-ratings';
 
 export async function PATCH(req: NextRequest) {
   try {
@@ -33,7 +35,7 @@ export async function PATCH(req: NextRequest) {
       if (!body || typeof body !== 'object') {
         throw new ApiError('Invalid JSON body', 400, ErrorCodes.BAD_REQUEST);
       }
-      const { updates } = body;
+      const { updates, rating_scale } = body;
 
     if (!Array.isArray(updates) || updates.length === 0) {
       throw new ApiError('Updates must be a non-empty array', 400, ErrorCodes.BAD_REQUEST);
@@ -44,6 +46,7 @@ export async function PATCH(req: NextRequest) {
     }
 
     const entryIds = updates.map(u => u.id).filter(Boolean);
+    const ratedSeriesIds: Array<string | null> = [];
     const results = await prisma.$transaction(async (tx) => {
         // PERFORMANCE FIX: Fetch all current entries in one query instead of inside the loop
           // SECURITY FIX: Include series_completion_xp_granted to prevent XP farming
@@ -84,9 +87,11 @@ export async function PATCH(req: NextRequest) {
           }
         }
         if (rating !== undefined && rating !== null) {
-          const ratingNum = Number(rating);
-          if (!isNaN(ratingNum) && ratingNum >= 1 && ratingNum <= 10) {
-            updateData.user_rating = ratingNum;
+          // Ratings are read on the update's (or the request's) scale, 1-10 by default
+          const parsedRating = parseRatingInput(rating, update.rating_scale ?? rating_scale);
+          if (parsedRating.score !== undefined) {
+            updateData.user_rating = parsedRating.score;
+            ratedSeriesIds.push(currentEntry.series_id);
           }
         }
         if (preferred_source !== undefined) {
@@ -183,6 +188,8 @@ export async function PATCH(req: NextRequest) {
       return updatedEntries;
       }, { ...DEFAULT_TX_OPTIONS, timeout: 20000 });
 
+      await recalculateSeriesRatings(ratedSeriesIds);
+
       // PERF-3: Invalidate library cache on bulk mutation
       await invalidateLibraryCache(user.id);
 
@@ -0,0 +1,65 @@
+import { prisma } from "@/lib/prisma"
+import { NextRequest, NextResponse } from "next/server"
+import { checkRateLimit, getClientIp, handleApiError, ApiError, ErrorCodes, validateUUID, getMiddlewareUser } from "@/lib/api-utils"
+import { supabaseAdmin } from "@/lib/supabase/admin"
+import { EXPORT_BUCKET } from "@/lib/sync/exporter"
+
+// Signed URLs are single-use in practice: short enough that a leaked link is useless
+const SIGNED_URL_TTL_SECONDS = 60
+
+/**
+ * GET /api/library/export/[id]/download
+ * Redirects to a short-lived signed URL for a completed export.
+ * Returns 410 once the export has passed its expires_at.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const ip = getClientIp(request);
+    if (!await checkRateLimit(`library-export-download:${ip}`, 20, 60000)) {
+      throw new ApiError("Too many requests. Please wait a moment.", 429, ErrorCodes.RATE_LIMITED);
+    }
+
+    const user = await getMiddlewareUser();
+
+    if (!user) {
+      throw new ApiError("Unauthorized", 401, ErrorCodes.UNAUTHORIZED);
+    }
+
+    const { id } = await params;
+    validateUUID(id, 'id');
+
+    const job = await prisma.exportJob.findUnique({
+      where: { id, user_id: user.id }
+    });
+
+    if (!job) {
+      throw new ApiError("Export job not found", 404, ErrorCodes.NOT_FOUND);
+    }
+
+    if (job.status !== "completed" || !job.file_url) {
+      throw new ApiError("Export is not ready yet", 409, ErrorCodes.CONFLICT);
+    }
+
+    if (job.expires_at && job.expires_at.getTime() <= Date.now()) {
+      throw new ApiError("This export has expired. Please request a new one.", 410, "EXPIRED");
+    }
+
+    const date = (job.completed_at ?? new Date()).toISOString().split('T')[0];
+    const { data, error } = await supabaseAdmin.storage
+      .from(EXPORT_BUCKET)
+      .createSignedUrl(job.file_url, SIGNED_URL_TTL_SECONDS, {
+        download: `mangatrack-library-${date}.${job.format}`,
+      });
+
+    if (error || !data?.signedUrl) {
+      throw new Error(`Failed to sign export download: ${error?.message || 'no URL returned'}`);
+    }
+
+    return NextResponse.redirect(data.signedUrl, 302);
+  } catch (error: unknown) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,167 @@
+import { prisma } from "@/lib/prisma"
+import { NextRequest, NextResponse } from "next/server"
+import { checkRateLimit, getClientIp, handleApiError, ApiError, ErrorCodes, validateOrigin, validateContentType, validateJsonSize, logSecurityEvent, validateUUID, getMiddlewareUser } from "@/lib/api-utils"
+import { exportQueue } from "@/lib/queues"
+import { EXPORT_FORMATS } from "@/lib/sync/exporter"
+import { z } from "zod"
+
+const ExportRequestSchema = z.object({
+  format: z.enum(EXPORT_FORMATS),
+})
+
+type ExportJobRow = Awaited<ReturnType<typeof prisma.exportJob.findFirst>>
+
+/**
+ * Shapes an ExportJob for the client. The storage path in file_url is never
+ * exposed; clients download through /api/library/export/[id]/download instead.
+ */
+function serializeExportJob(job: NonNullable<ExportJobRow>) {
+  const expired = !!job.expires_at && job.expires_at.getTime() <= Date.now()
+  return {
+    id: job.id,
+    format: job.format,
+    status: job.status === "completed" && expired ? "expired" : job.status,
+    total_entries: job.total_entries,
+    file_size_bytes: job.file_size_bytes,
+    error_message: job.error_message,
+    created_at: job.created_at,
+    completed_at: job.completed_at,
+    expires_at: job.expires_at,
+    download_url: job.status === "completed" && job.file_url && !expired
+      ? `/api/library/export/${job.id}/download`
+      : null,
+  }
+}
+
+/**
+ * POST /api/library/export
+ * Queues a background export of the user's full library.
+ * Body: { format: "csv" | "json" | "xml" }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    validateOrigin(request);
+    validateContentType(request);
+    await validateJsonSize(request, 1024);
+
+    const ip = getClientIp(request);
+    if (!await checkRateLimit(`library-export:${ip}`, 5, 60000)) {
+      throw new ApiError("Too many requests. Please wait a moment.", 429, ErrorCodes.RATE_LIMITED);
+    }
+
+    const user = await getMiddlewareUser();
+
+    if (!user) {
+      throw new ApiError("Unauthorized", 401, ErrorCodes.UNAUTHORIZED);
+    }
+
+    let body;
+    try {
+      body = await request.json();
+    } catch {
+      throw new ApiError("Invalid JSON body", 400, ErrorCodes.BAD_REQUEST);
+    }
+
+    const parsed = ExportRequestSchema.safeParse(body);
+    if (!parsed.success) {
+      throw new ApiError(`Invalid export format. Expected one of: ${EXPORT_FORMATS.join(", ")}`, 400, ErrorCodes.VALIDATION_ERROR);
+    }
+    const { format } = parsed.data;
+
+    // Re-use an in-flight export of the same format instead of queueing duplicates
+    const inFlight = await prisma.exportJob.findFirst({
+      where: {
+        user_id: user.id,
+        format,
+        status: { in: ["pending", "processing"] },
+      },
+      orderBy: { created_at: "desc" },
+    });
+
+    if (inFlight) {
+      return NextResponse.json({
+        success: true,
+        job_id: inFlight.id,
+        job: serializeExportJob(inFlight),
+        message: "An export in this format is already in progress",
+      });
+    }
+
+    const job = await prisma.exportJob.create({
+      data: {
+        user_id: user.id,
+        format,
+        status: "pending",
+      },
+    });
+
+    await logSecurityEvent({
+      userId: user.id,
+      event: 'LIBRARY_EXPORT_START',
+      status: 'success',
+      ipAddress: ip,
+      userAgent: request.headers.get('user-agent'),
+      metadata: { job_id: job.id, format },
+    });
+
+    await exportQueue.add('process-export', {
+      exportJobId: job.id,
+    }, {
+      jobId: `export_${job.id}`,
+    });
+
+    return NextResponse.json({
+      success: true,
+      job_id: job.id,
+      job: serializeExportJob(job),
+      message: "Export started",
+    });
+  } catch (error: unknown) {
+    return handleApiError(error);
+  }
+}
+
+/**
+ * GET /api/library/export
+ * Returns a single export job (?id=) or the user's 10 most recent exports.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const ip = getClientIp(request);
+    if (!await checkRateLimit(`library-export-status:${ip}`, 60, 60000)) {
+      throw new ApiError("Too many requests. Please wait a moment.", 429, ErrorCodes.RATE_LIMITED);
+    }
+
+    const user = await getMiddlewareUser();
+
+    if (!user) {
+      throw new ApiError("Unauthorized", 401, ErrorCodes.UNAUTHORIZED);
+    }
+
+    const { searchParams } = new URL(request.url);
+    const jobId = searchParams.get("id");
+
+    if (jobId) {
+      validateUUID(jobId, 'id');
+      const job = await prisma.exportJob.findUnique({
+        where: { id: jobId, user_id: user.id }
+      });
+
+      if (!job) {
+        throw new ApiError("Export job not found", 404, ErrorCodes.NOT_FOUND);
+      }
+
+      return NextResponse.json(serializeExportJob(job));
+    }
+
+    const jobs = await prisma.exportJob.findMany({
+      where: { user_id: user.id },
+      orderBy: { created_at: "desc" },
+      take: 10
+    });
+
+    return NextResponse.json(jobs.map(serializeExportJob));
+  } catch (error: unknown) {
+    return handleApiError(error);
+  }
+}
@@ -1,10 +1,17 @@
 import { prisma } from "@/lib/prisma"
 import { NextRequest, NextResponse } from "next/server"
-import { handleApiError, ApiError, ErrorCodes, getMiddlewareUser } from "@/lib/api-utils"
+import { z } from "zod"
+import { handleApiError, ApiError, ErrorCodes, getMiddlewareUser, checkRateLimit, getClientIp, validateOrigin, validateContentType, validateJsonSize, validateUUID } from "@/lib/api-utils"
 import { PRODUCTION_QUERIES } from "@/lib/sql/production-queries"
 import { generateImportResultsCSV } from "@/lib/sync/csv-parser"
+import { applyImportReviewDecision, findReviewCandidates, ImportReviewData } from "@/lib/sync/import-review"
 import { logger } from "@/lib/logger"
 
+const ReviewDecisionSchema = z.discriminatedUnion("action", [
+  z.object({ action: z.literal("pick"), item_id: z.string().uuid(), series_id: z.string().uuid() }),
+  z.object({ action: z.literal("skip"), item_id: z.string().uuid() }),
+])
+
 export async function GET(request: NextRequest) {
   try {
     const user = await getMiddlewareUser();
@@ -29,6 +36,32 @@ export async function GET(request: NextRequest) {
       throw new ApiError("Import job not found", 404, ErrorCodes.NOT_FOUND);
     }
 
+    // Manual search for a held item: ?jobId=...&itemId=...&q=...
+    const searchQuery = searchParams.get("q");
+    if (searchQuery !== null) {
+      const ip = getClientIp(request);
+      if (!await checkRateLimit(`import-review-search:${user.id}:${ip}`, 30, 60000)) {
+        throw new ApiError("Too many requests. Please wait a moment.", 429, ErrorCodes.RATE_LIMITED);
+      }
+
+      const itemId = searchParams.get("itemId");
+      if (!itemId) {
+        throw new ApiError("Item ID is required", 400, ErrorCodes.INVALID_INPUT);
+      }
+      validateUUID(itemId, 'itemId');
+
+      const item = await prisma.importItem.findFirst({
+        where: { id: itemId, job_id: jobId },
+        select: { title: true }
+      });
+      if (!item) {
+        throw new ApiError("Import item not found", 404, ErrorCodes.NOT_FOUND);
+      }
+
+      const candidates = await findReviewCandidates(searchQuery.slice(0, 200), { scoreAgainst: item.title });
+      return NextResponse.json({ candidates });
+    }
+
       const items = await prisma.importItem.findMany({
         where: { job_id: jobId },
         include: {
@@ -49,7 +82,7 @@ export async function GET(request: NextRequest) {
     if (format === 'csv') {
       const csvData = items.map(item => ({
         title: item.title,
-        status: item.status as "SUCCESS" | "FAILED" | "PENDING",
+        status: (item.status === 'NEEDS_REVIEW' ? 'PENDING' : item.status) as "SUCCESS" | "FAILED" | "PENDING",
         reason_code: item.reason_code || undefined,
         reason_message: item.reason_message || undefined,
           matched_series: item.Series?.title || undefined,
@@ -68,6 +101,21 @@ export async function GET(request: NextRequest) {
       });
     }
 
+    // Resolve candidate series (title + cover) for held items in one query
+    const candidateIds = new Set<string>();
+    for (const item of items) {
+      if (item.status !== 'NEEDS_REVIEW') continue;
+      const review = item.review_data as unknown as ImportReviewData | null;
+      review?.candidates?.forEach(c => candidateIds.add(c.series_id));
+    }
+    const candidateSeries = candidateIds.size > 0
+      ? await prisma.series.findMany({
+          where: { id: { in: Array.from(candidateIds) }, deleted_at: null },
+          select: { id: true, title: true, cover_url: true, type: true, status: true }
+        })
+      : [];
+    const seriesById = new Map(candidateSeries.map(s => [s.id, s]));
+
     // Default JSON response
     let summary: any[] = [];
     try {
@@ -81,16 +129,32 @@ export async function GET(request: NextRequest) {
       const successCount = items.filter(i => i.status === 'SUCCESS').length;
       const failedCount = items.filter(i => i.status === 'FAILED').length;
       const pendingCount = items.filter(i => i.status === 'PENDING').length;
+      const reviewCount = items.filter(i => i.status === 'NEEDS_REVIEW').length;
       summary = [
         { status: 'SUCCESS', item_count: successCount },
         { status: 'FAILED', item_count: failedCount },
-        { status: 'PENDING', item_count: pendingCount }
+        { status: 'PENDING', item_count: pendingCount },
+        { status: 'NEEDS_REVIEW', item_count: reviewCount }
       ];
     }
 
     return NextResponse.json({
       job,
-      items,
+      items: items.map(({ review_data, Series, ...item }) => {
+        const review = review_data as unknown as ImportReviewData | null;
+        return {
+          ...item,
+          series: Series,
+          review: item.status === 'NEEDS_REVIEW' && review
+            ? {
+                confidence: review.confidence,
+                candidates: (review.candidates || [])
+                  .filter(c => seriesById.has(c.series_id))
+                  .map(c => ({ ...seriesById.get(c.series_id)!, series_id: c.series_id, similarity: c.similarity }))
+              }
+            : null
+        };
+      }),
       summary: summary.map(row => ({
         status: row.status,
         reason_code: row.reason_code,
@@ -101,3 +165,75 @@ export async function GET(request: NextRequest) {
     return handleApiError(error);
   }
 }
+
+/**
+ * Resolves one item held for review: pick a candidate series or skip it.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    validateOrigin(request);
+    validateContentType(request);
+    await validateJsonSize(request);
+
+    const user = await getMiddlewareUser();
+    if (!user) {
+      throw new ApiError("Unauthorized", 401, ErrorCodes.UNAUTHORIZED);
+    }
+
+    const ip = getClientIp(request);
+    if (!await checkRateLimit(`import-review:${user.id}:${ip}`, 120, 60000)) {
+      throw new ApiError("Too many requests. Please wait a moment.", 429, ErrorCodes.RATE_LIMITED);
+    }
+
+    let body;
+    try {
+      body = await request.json();
+    } catch {
+      throw new ApiError("Invalid JSON body", 400, ErrorCodes.BAD_REQUEST);
+    }
+
+    const parsed = ReviewDecisionSchema.safeParse(body);
+    if (!parsed.success) {
+      throw new ApiError(parsed.error.errors[0].message, 400, ErrorCodes.VALIDATION_ERROR);
+    }
+    const decision = parsed.data;
+
+    const item = await prisma.importItem.findFirst({
+      where: { id: decision.item_id, ImportJob: { user_id: user.id } },
+      select: { id: true, job_id: true, title: true, status: true, metadata: true, review_data: true }
+    });
+
+    if (!item) {
+      throw new ApiError("Import item not found", 404, ErrorCodes.NOT_FOUND);
+    }
+    // Early answer only: applyImportReviewDecision claims the item atomically
+    if (item.status !== 'NEEDS_REVIEW') {
+      throw new ApiError("Import item has already been reviewed", 409, ErrorCodes.CONFLICT);
+    }
+
+    if (decision.action === 'pick') {
+      const series = await prisma.series.findFirst({
+        where: { id: decision.series_id, deleted_at: null },
+        select: { id: true }
+      });
+      if (!series) {
+        throw new ApiError("Series not found", 404, ErrorCodes.NOT_FOUND);
+      }
+    }
+
+    const result = await applyImportReviewDecision(
+      user.id,
+      item,
+      decision.action === 'pick' ? { action: 'pick', series_id: decision.series_id } : { action: 'skip' }
+    );
+
+    return NextResponse.json({
+      success: true,
+      item_id: item.id,
+      library_entry_id: result.libraryEntryId,
+      job_status: result.jobStatus
+    });
+  } catch (error: unknown) {
+    return handleApiError(error);
+  }
+}
@@ -5,6 +5,7 @@ import { importQueue } from "@/lib/queues"
 import { z } from "zod"
 import { logger } from "@/lib/logger"
 import { checkSourceReachability } from "@/lib/bug-fixes/v5-audit-bugs-21-50"
+import { resolveImportSourcePlatform } from "@/lib/sync/shared"
 
 export async function POST(request: NextRequest) {
   try {
@@ -44,9 +45,15 @@ export async function POST(request: NextRequest) {
       source_url: z.string().url().max(2048).optional(),
       external_id: z.string().max(100).optional(),
       status: z.string().max(50).optional(),
+      progress: z.coerce.number().min(0).max(100000).optional(),
+      last_updated: z.union([z.string().max(64), z.number()]).optional(),
+      source_name: z.string().max(50).optional(),
+      source_platform: z.string().max(50).optional(),
       metadata: z.record(z.any()).optional()
     });
 
+    const sourcePlatform = resolveImportSourcePlatform(String(source));
+
     const entries = [];
     for (const entry of rawEntries) {
       try {
@@ -121,6 +128,7 @@ export async function POST(request: NextRequest) {
         data: {
           user_id: user.id,
           source: source,
+          source_platform: sourcePlatform,
           status: "pending",
           total_items: finalEntries.length,
           processed_items: 0,
@@ -146,6 +154,7 @@ export async function POST(request: NextRequest) {
       metadata: { 
         job_id: job.id, 
         source, 
+        source_platform: sourcePlatform,
         entry_count: finalEntries.length, 
         duplicate_count: deduplicatedEntries.length - finalEntries.length,
         original_count: entries.length 
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from "next/server"
+import { checkRateLimit, getClientIp, handleApiError, ApiError, ErrorCodes, getMiddlewareUser } from "@/lib/api-utils"
+import { loadLibraryReleasePredictions, serializeReleaseSchedule } from "@/lib/release-prediction"
+import { ReleaseCalendarQuerySchema } from "@/lib/schemas/library"
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * GET /api/library/release-calendar
+ * Expected releases for the series the user is actively reading.
+ * Query: days (1-90, default 30) — how far ahead `upcoming` reaches.
+ * `upcoming` holds predictions inside the window (including late ones),
+ * `hiatus` the series whose current gap far exceeds their cadence.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const ip = getClientIp(request)
+    if (!await checkRateLimit(`release-calendar:${ip}`, 30, 60000)) {
+      throw new ApiError("Too many requests. Please wait a moment.", 429, ErrorCodes.RATE_LIMITED)
+    }
+
+    const user = await getMiddlewareUser({ scope: "read:library" })
+    if (!user) {
+      throw new ApiError("Unauthorized", 401, ErrorCodes.UNAUTHORIZED)
+    }
+
+    const parsed = ReleaseCalendarQuerySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams))
+    if (!parsed.success) {
+      throw new ApiError(parsed.error.errors[0].message, 400, ErrorCodes.VALIDATION_ERROR)
+    }
+    const { days } = parsed.data
+
+    const now = new Date()
+    const horizon = now.getTime() + days * DAY_MS
+    const schedule = await loadLibraryReleasePredictions(user.id, now)
+
+    const serialize = ({ series_id, title, cover_url, content_rating, prediction }: (typeof schedule)[number]) => ({
+      series_id,
+      title,
+      cover_url,
+      content_rating,
+      ...serializeReleaseSchedule(prediction),
+    })
+
+    return NextResponse.json({
+      days,
+      upcoming: schedule
+        .filter(entry => entry.prediction.status !== "hiatus" && entry.prediction.predicted_at.getTime() <= horizon)
+        .map(serialize),
+      hiatus: schedule
+        .filter(entry => entry.prediction.status === "hiatus")
+        .map(serialize),
+    })
+  } catch (error: unknown) {
+    return handleApiError(error)
+  }
+}
@@ -4,6 +4,7 @@ import { prisma, prismaRead, DEFAULT_TX_OPTIONS } from '@/lib/prisma';
 import { sanitizeInput, checkRateLimit, handleApiError, ApiError, ErrorCodes, validateOrigin, escapeILikePattern, getClientIp, logSecurityEvent, validateContentType, validateJsonSize, parsePaginationParams, getMiddlewareUser } from '@/lib/api-utils';
 import { logger } from '@/lib/logger';
 import { z } from 'zod';
+import { LibraryQuerySchema } from '@/lib/schemas/library';
 import { isValidCoverUrl } from '@/lib/cover-resolver';
 import { PRODUCTION_QUERIES } from '@/lib/sql/production-queries';
 import { promoteSeriesTier } from '@/lib/catalog-tiers';
@@ -24,24 +25,6 @@ const AddToLibrarySchema = z.object({
   status: z.enum(['reading', 'completed', 'planning', 'dropped', 'paused']).default('reading'),
 });
 
-const MAX_OFFSET = 100000;
-
-const LibraryQuerySchema = z.object({
-  q: z.string().optional(),
-  status: z.string().optional(),
-  sort: z.enum(['updated', 'latest_chapter', 'title', 'rating', 'added']).default('latest_chapter'),
-  limit: z.preprocess((val) => {
-    const num = parseInt(val as string, 10);
-    if (isNaN(num)) return 100;
-    return Math.min(200, Math.max(1, num));
-  }, z.number()).default(100),
-  offset: z.preprocess((val) => {
-    const num = parseInt(val as string, 10);
-    if (isNaN(num)) return 0;
-    return Math.min(MAX_OFFSET, Math.max(0, num));
-  }, z.number()).default(0),
-});
-
 /**
  * v5 Audit Bug 13+16 FIX: Unified platform compatibility check
  * Uses getSupportedSources() from scrapers as single source of truth
@@ -87,7 +70,7 @@ function verifyPlatformCompatibility(sourceUrl: string): {
 
 export async function GET(req: NextRequest) {
   try {
-    const user = await getMiddlewareUser();
+    const user = await getMiddlewareUser({ scope: 'read:library' });
 
     if (!user) {
       throw new ApiError('Unauthorized', 401, ErrorCodes.UNAUTHORIZED);
@@ -104,7 +87,7 @@ export async function GET(req: NextRequest) {
       throw new ApiError(parsed.error.errors[0].message, 400, ErrorCodes.VALIDATION_ERROR);
     }
     
-      const { q, status, sort, limit, offset } = parsed.data;
+      const { q, status, list, tag, sort, limit, offset } = parsed.data;
 
     // PERF-3: Check Redis cache before hitting DB
     let version = await redisApi.get(libraryVersionKey(user.id)).catch(() => null);
@@ -112,7 +95,7 @@ export async function GET(req: NextRequest) {
       version = '1';
       await redisApi.set(libraryVersionKey(user.id), version).catch(() => {});
     }
-    const cacheParams = `v${version}:${q || ''}:${status || ''}:${sort}:${limit}:${offset}`;
+    const cacheParams = `v${version}:${q || ''}:${status || ''}:${list || ''}:${tag || ''}:${sort}:${limit}:${offset}`;
     const cacheKey = libraryCacheKey(user.id, cacheParams);
     const cached = await redisApi.get(cacheKey).catch(() => null);
     if (cached) {
@@ -140,6 +123,17 @@ export async function GET(req: NextRequest) {
       };
     }
 
+    if (list) {
+      where.Series = {
+        ...where.Series,
+        UserListItem: { some: { list_id: list, UserList: { user_id: user.id } } },
+      };
+    }
+
+    if (tag) {
+      where.tags = { has: tag };
+    }
+
     const orderBy: any = {};
     if (sort === 'title') {
       orderBy.Series = { title: 'asc' };
@@ -147,6 +141,8 @@ export async function GET(req: NextRequest) {
       orderBy.user_rating = { sort: 'desc', nulls: 'last' };
     } else if (sort === 'added') {
       orderBy.created_at = 'desc';
+    } else if (sort === 'rereads') {
+      orderBy.reread_count = 'desc';
     } else if (sort === 'latest_chapter') {
       orderBy.Series = { last_chapter_date: 'desc' };
     } else {
@@ -170,7 +166,16 @@ export async function GET(req: NextRequest) {
           imported_title: true,
           last_read_chapter: true,
           user_rating: true,
+          notification_mode: true,
+          tags: true,
+          reread_count: true,
+          completed_at: true,
           updated_at: true,
+          // Field versions let offline clients send base versions with queued edits
+          status_version: true,
+          rating_version: true,
+          progress_version: true,
+          notification_mode_version: true,
           Series: {
             select: {
               id: true,
@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server';
+import { prismaRead } from '@/lib/prisma';
+import { checkRateLimit, handleApiError, ApiError, ErrorCodes, getMiddlewareUser } from '@/lib/api-utils';
+
+const MAX_TAGS_LISTED = 200;
+
+/**
+ * GET /api/library/tags
+ * Tags used across the caller's library with how many entries carry each,
+ * most used first. Feeds the tag filter of the library page.
+ */
+export async function GET() {
+  try {
+    const user = await getMiddlewareUser({ scope: 'read:library' });
+
+    if (!user) {
+      throw new ApiError('Unauthorized', 401, ErrorCodes.UNAUTHORIZED);
+    }
+
+    if (!await checkRateLimit(`library-tags:${user.id}`, 60, 60000)) {
+      throw new ApiError('Too many requests. Please wait a moment.', 429, ErrorCodes.RATE_LIMITED);
+    }
+
+    const tags = await prismaRead.$queryRaw<Array<{ name: string; count: number }>>`
+      SELECT tag AS name, COUNT(*)::int AS count
+      FROM library_entries, unnest(tags) AS tag
+      WHERE user_id = ${user.id}::uuid AND deleted_at IS NULL
+      GROUP BY tag
+      ORDER BY count DESC, tag ASC
+      LIMIT ${MAX_TAGS_LISTED}
+    `;
+
+    return NextResponse.json({ tags });
+  } catch (error: unknown) {
+    return handleApiError(error);
+  }
+}
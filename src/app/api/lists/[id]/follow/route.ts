@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { checkRateLimit, validateOrigin, handleApiError, ApiError, ErrorCodes, getClientIp, getMiddlewareUser, validateUUID } from '@/lib/api-utils';
+import { canViewList } from '@/lib/lists';
+import { logger } from '@/lib/logger';
+
+/**
+ * POST /api/lists/:id/follow
+ * Follows a public list. Series added to it from now on show up in the
+ * follower's /api/feed/activity. Following your own list is rejected.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    validateOrigin(request);
+
+    const ip = getClientIp(request);
+    if (!await checkRateLimit(`list-follow:${ip}`, 30, 60000)) {
+      throw new ApiError('Too many requests. Please wait a moment.', 429, ErrorCodes.RATE_LIMITED);
+    }
+
+    const user = await getMiddlewareUser();
+    if (!user) {
+      throw new ApiError('Unauthorized', 401, ErrorCodes.UNAUTHORIZED);
+    }
+
+    const { id } = await params;
+    validateUUID(id, 'list id');
+
+    const list = await prisma.userList.findUnique({
+      where: { id },
+      select: { id: true, user_id: true, is_public: true, users: { select: { privacy_settings: true } } },
+    });
+    if (!list || !canViewList(list, user.id)) {
+      throw new ApiError('List not found', 404, ErrorCodes.NOT_FOUND);
+    }
+    if (list.user_id === user.id) {
+      throw new ApiError('You cannot follow your own list', 400, ErrorCodes.BAD_REQUEST);
+    }
+
+    await prisma.userListFollow.upsert({
+      where: { list_id_user_id: { list_id: id, user_id: user.id } },
+      create: { list_id: id, user_id: user.id },
+      update: {},
+    });
+
+    const followers = await prisma.userListFollow.count({ where: { list_id: id } });
+
+    return NextResponse.json({ following: true, followers });
+  } catch (error: unknown) {
+    logger.error('Error following list', { error: error instanceof Error ? error.message : String(error) });
+    return handleApiError(error);
+  }
+}
+
+/**
+ * DELETE /api/lists/:id/follow
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    validateOrigin(request);
+
+    const ip = getClientIp(request);
+    if (!await checkRateLimit(`list-follow:${ip}`, 30, 60000)) {
+      throw new ApiError('Too many requests. Please wait a moment.', 429, ErrorCodes.RATE_LIMITED);
+    }
+
+    const user = await getMiddlewareUser();
+    if (!user) {
+      throw new ApiError('Unauthorized', 401, ErrorCodes.UNAUTHORIZED);
+    }
+
+    const { id } = await params;
+    validateUUID(id, 'list id');
+
+    await prisma.userListFollow.deleteMany({
+      where: { list_id: id, user_id: user.id },
+    });
+
+    const followers = await prisma.userListFollow.count({ where: { list_id: id } });
+
+    return NextResponse.json({ following: false, followers });
+  } catch (error: unknown) {
+    logger.error('Error unfollowing list', { error: error instanceof Error ? error.message : String(error) });
+    return handleApiError(error);
+  }
+}
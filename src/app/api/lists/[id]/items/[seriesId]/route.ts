@@ -0,0 +1,123 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { checkRateLimit, validateOrigin, handleApiError, ApiError, ErrorCodes, getClientIp, getMiddlewareUser, validateUUID, validateContentType, validateJsonSize, sanitizeInput } from '@/lib/api-utils';
+import { ListItemUpdateSchema } from '@/lib/schemas/lists';
+import { LIST_ITEM_SELECT } from '@/lib/lists';
+import { invalidateLibraryCache } from '@/lib/cache-utils';
+import { logger } from '@/lib/logger';
+
+/**
+ * PATCH /api/lists/:id/items/:seriesId
+ * Sets the note shown next to the series on the list page. Body: { note }
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; seriesId: string }> }
+) {
+  try {
+    validateOrigin(request);
+    validateContentType(request);
+    await validateJsonSize(request, 8 * 1024);
+
+    const ip = getClientIp(request);
+    if (!await checkRateLimit(`list-items-update:${ip}`, 60, 60000)) {
+      throw new ApiError('Too many requests. Please wait a moment.', 429, ErrorCodes.RATE_LIMITED);
+    }
+
+    const user = await getMiddlewareUser();
+    if (!user) {
+      throw new ApiError('Unauthorized', 401, ErrorCodes.UNAUTHORIZED);
+    }
+
+    const { id, seriesId } = await params;
+    validateUUID(id, 'list id');
+    validateUUID(seriesId, 'series id');
+
+    let body;
+    try {
+      body = await request.json();
+    } catch {
+      throw new ApiError('Invalid JSON body', 400, ErrorCodes.BAD_REQUEST);
+    }
+
+    const parsed = ListItemUpdateSchema.safeParse(body);
+    if (!parsed.success) {
+      throw new ApiError(parsed.error.errors[0].message, 400, ErrorCodes.VALIDATION_ERROR);
+    }
+
+    const { count } = await prisma.userListItem.updateMany({
+      where: { list_id: id, series_id: seriesId, UserList: { user_id: user.id } },
+      data: { note: parsed.data.note ? sanitizeInput(parsed.data.note, 1000) : null },
+    });
+    if (count === 0) {
+      throw new ApiError('Series is not in this list', 404, ErrorCodes.NOT_FOUND);
+    }
+
+    const item = await prisma.userListItem.findUnique({
+      where: { list_id_series_id: { list_id: id, series_id: seriesId } },
+      select: LIST_ITEM_SELECT,
+    });
+
+    return NextResponse.json(item);
+  } catch (error: unknown) {
+    logger.error('Error updating list item', { error: error instanceof Error ? error.message : String(error) });
+    return handleApiError(error);
+  }
+}
+
+/**
+ * DELETE /api/lists/:id/items/:seriesId
+ * Removes a series from the list. A cover pointing at it is cleared so the
+ * list falls back to its first item's cover.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; seriesId: string }> }
+) {
+  try {
+    validateOrigin(request);
+
+    const ip = getClientIp(request);
+    if (!await checkRateLimit(`list-items-remove:${ip}`, 60, 60000)) {
+      throw new ApiError('Too many requests. Please wait a moment.', 429, ErrorCodes.RATE_LIMITED);
+    }
+
+    const user = await getMiddlewareUser();
+    if (!user) {
+      throw new ApiError('Unauthorized', 401, ErrorCodes.UNAUTHORIZED);
+    }
+
+    const { id, seriesId } = await params;
+    validateUUID(id, 'list id');
+    validateUUID(seriesId, 'series id');
+
+    const list = await prisma.userList.findFirst({
+      where: { id, user_id: user.id },
+      select: { id: true, cover_series_id: true },
+    });
+    if (!list) {
+      throw new ApiError('List not found', 404, ErrorCodes.NOT_FOUND);
+    }
+
+    const { count } = await prisma.userListItem.deleteMany({
+      where: { list_id: id, series_id: seriesId },
+    });
+    if (count === 0) {
+      throw new ApiError('Series is not in this list', 404, ErrorCodes.NOT_FOUND);
+    }
+
+    await prisma.userList.update({
+      where: { id },
+      data: {
+        updated_at: new Date(),
+        ...(list.cover_series_id === seriesId ? { cover_series_id: null } : {}),
+      },
+    });
+    await invalidateLibraryCache(user.id);
+
+    return NextResponse.json({ success: true });
+  } catch (error: unknown) {
+    logger.error('Error removing series from list', { error: error instanceof Error ? error.message : String(error) });
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,159 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { checkRateLimit, validateOrigin, handleApiError, ApiError, ErrorCodes, getClientIp, validateContentType, validateJsonSize, getMiddlewareUser, validateUUID, sanitizeInput } from '@/lib/api-utils';
+import { ListItemInputSchema, ListItemOrderSchema } from '@/lib/schemas/lists';
+import { MAX_LIST_ITEMS, LIST_ITEM_SELECT, reorderListItems } from '@/lib/lists';
+import { invalidateLibraryCache } from '@/lib/cache-utils';
+import { logger } from '@/lib/logger';
+
+async function getOwnedList(listId: string, userId: string) {
+  const list = await prisma.userList.findFirst({
+    where: { id: listId, user_id: userId },
+    select: { id: true },
+  });
+  if (!list) {
+    throw new ApiError('List not found', 404, ErrorCodes.NOT_FOUND);
+  }
+  return list;
+}
+
+/**
+ * POST /api/lists/:id/items
+ * Appends a series to the list. Body: { series_id, note? }. The series doesn't have
+ * to be in the library. Adding a series already in the list is a no-op.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    validateOrigin(request);
+    validateContentType(request);
+    await validateJsonSize(request, 1024);
+
+    const ip = getClientIp(request);
+    if (!await checkRateLimit(`list-items-add:${ip}`, 60, 60000)) {
+      throw new ApiError('Too many requests. Please wait a moment.', 429, ErrorCodes.RATE_LIMITED);
+    }
+
+    const user = await getMiddlewareUser();
+    if (!user) {
+      throw new ApiError('Unauthorized', 401, ErrorCodes.UNAUTHORIZED);
+    }
+
+    const { id } = await params;
+    validateUUID(id, 'list id');
+
+    let body;
+    try {
+      body = await request.json();
+    } catch {
+      throw new ApiError('Invalid JSON body', 400, ErrorCodes.BAD_REQUEST);
+    }
+
+    const parsed = ListItemInputSchema.safeParse(body);
+    if (!parsed.success) {
+      throw new ApiError(parsed.error.errors[0].message, 400, ErrorCodes.VALIDATION_ERROR);
+    }
+    const { series_id, note } = parsed.data;
+
+    await getOwnedList(id, user.id);
+
+    const series = await prisma.series.findFirst({
+      where: { id: series_id, deleted_at: null },
+      select: { id: true },
+    });
+    if (!series) {
+      throw new ApiError('Series not found', 404, ErrorCodes.NOT_FOUND);
+    }
+
+    const existing = await prisma.userListItem.findUnique({
+      where: { list_id_series_id: { list_id: id, series_id } },
+      select: LIST_ITEM_SELECT,
+    });
+    if (existing) {
+      return NextResponse.json(existing);
+    }
+
+    const [count, last] = await Promise.all([
+      prisma.userListItem.count({ where: { list_id: id } }),
+      prisma.userListItem.findFirst({
+        where: { list_id: id },
+        orderBy: { position: 'desc' },
+        select: { position: true },
+      }),
+    ]);
+    if (count >= MAX_LIST_ITEMS) {
+      throw new ApiError(`Lists can hold at most ${MAX_LIST_ITEMS} series`, 400, ErrorCodes.VALIDATION_ERROR);
+    }
+
+    const item = await prisma.userListItem.upsert({
+      where: { list_id_series_id: { list_id: id, series_id } },
+      create: {
+        list_id: id,
+        series_id,
+        position: last ? last.position + 1 : 0,
+        ...(note ? { note: sanitizeInput(note, 1000) } : {}),
+      },
+      update: {},
+      select: LIST_ITEM_SELECT,
+    });
+
+    await prisma.userList.update({ where: { id }, data: { updated_at: new Date() } });
+    await invalidateLibraryCache(user.id);
+
+    return NextResponse.json(item, { status: 201 });
+  } catch (error: unknown) {
+    logger.error('Error adding series to list', { error: error instanceof Error ? error.message : String(error) });
+    return handleApiError(error);
+  }
+}
+
+/**
+ * PUT /api/lists/:id/items
+ * Reorders the list. Body: { series_ids: [...] } in the new order.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    validateOrigin(request);
+    validateContentType(request);
+    await validateJsonSize(request, 64 * 1024);
+
+    const ip = getClientIp(request);
+    if (!await checkRateLimit(`list-items-reorder:${ip}`, 30, 60000)) {
+      throw new ApiError('Too many requests. Please wait a moment.', 429, ErrorCodes.RATE_LIMITED);
+    }
+
+    const user = await getMiddlewareUser();
+    if (!user) {
+      throw new ApiError('Unauthorized', 401, ErrorCodes.UNAUTHORIZED);
+    }
+
+    const { id } = await params;
+    validateUUID(id, 'list id');
+
+    let body;
+    try {
+      body = await request.json();
+    } catch {
+      throw new ApiError('Invalid JSON body', 400, ErrorCodes.BAD_REQUEST);
+    }
+
+    const parsed = ListItemOrderSchema.safeParse(body);
+    if (!parsed.success) {
+      throw new ApiError(parsed.error.errors[0].message, 400, ErrorCodes.VALIDATION_ERROR);
+    }
+
+    await getOwnedList(id, user.id);
+    await reorderListItems(id, [...new Set(parsed.data.series_ids)]);
+    await prisma.userList.update({ where: { id }, data: { updated_at: new Date() } });
+
+    return NextResponse.json({ success: true });
+  } catch (error: unknown) {
+    logger.error('Error reordering list items', { error: error instanceof Error ? error.message : String(error) });
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,184 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { checkRateLimit, validateOrigin, handleApiError, ApiError, ErrorCodes, getClientIp, validateContentType, validateJsonSize, getMiddlewareUser, sanitizeInput, validateUUID } from '@/lib/api-utils';
+import { UserListUpdateSchema } from '@/lib/schemas/lists';
+import { USER_LIST_SELECT, LIST_ITEM_SELECT, serializeList, canViewList } from '@/lib/lists';
+import { invalidateLibraryCache } from '@/lib/cache-utils';
+import { logger } from '@/lib/logger';
+
+/**
+ * GET /api/lists/:id
+ * A list with its items in order. Other users only see public lists of
+ * owners who haven't hidden their lists; anything else is a 404.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const ip = getClientIp(request);
+    if (!await checkRateLimit(`list-get:${ip}`, 60, 60000)) {
+      throw new ApiError('Too many requests. Please wait a moment.', 429, ErrorCodes.RATE_LIMITED);
+    }
+
+    const { id } = await params;
+    validateUUID(id, 'list id');
+
+    const user = await getMiddlewareUser();
+
+    const list = await prisma.userList.findUnique({
+      where: { id },
+      select: {
+        ...USER_LIST_SELECT,
+        users: { select: { username: true, avatar_url: true, privacy_settings: true } },
+      },
+    });
+
+    if (!list || !canViewList(list, user?.id)) {
+      throw new ApiError('List not found', 404, ErrorCodes.NOT_FOUND);
+    }
+    const isOwner = list.user_id === user?.id;
+
+    const items = await prisma.userListItem.findMany({
+      where: { list_id: id },
+      orderBy: [{ position: 'asc' }, { added_at: 'asc' }],
+      select: LIST_ITEM_SELECT,
+    });
+
+    return NextResponse.json({
+      list: serializeList(list),
+      owner: { username: list.users.username, avatar_url: list.users.avatar_url },
+      is_owner: isOwner,
+      items,
+    });
+  } catch (error: unknown) {
+    return handleApiError(error);
+  }
+}
+
+/**
+ * PATCH /api/lists/:id
+ * Renames a list, changes its description or visibility, or picks its cover.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    validateOrigin(request);
+    validateContentType(request);
+    await validateJsonSize(request, 8 * 1024);
+
+    const ip = getClientIp(request);
+    if (!await checkRateLimit(`list-update:${ip}`, 30, 60000)) {
+      throw new ApiError('Too many requests. Please wait a moment.', 429, ErrorCodes.RATE_LIMITED);
+    }
+
+    const user = await getMiddlewareUser();
+    if (!user) {
+      throw new ApiError('Unauthorized', 401, ErrorCodes.UNAUTHORIZED);
+    }
+
+    const { id } = await params;
+    validateUUID(id, 'list id');
+
+    let body;
+    try {
+      body = await request.json();
+    } catch {
+      throw new ApiError('Invalid JSON body', 400, ErrorCodes.BAD_REQUEST);
+    }
+
+    const parsed = UserListUpdateSchema.safeParse(body);
+    if (!parsed.success) {
+      throw new ApiError(parsed.error.errors[0].message, 400, ErrorCodes.VALIDATION_ERROR);
+    }
+
+    const existing = await prisma.userList.findFirst({
+      where: { id, user_id: user.id },
+      select: { id: true },
+    });
+    if (!existing) {
+      throw new ApiError('List not found', 404, ErrorCodes.NOT_FOUND);
+    }
+
+    const { name, description, is_public, cover_series_id } = parsed.data;
+    const data: Record<string, unknown> = { updated_at: new Date() };
+
+    if (name !== undefined) {
+      const sanitizedName = sanitizeInput(name, 100).trim();
+      if (!sanitizedName) {
+        throw new ApiError('Name is required', 400, ErrorCodes.VALIDATION_ERROR);
+      }
+      data.name = sanitizedName;
+    }
+    if (description !== undefined) {
+      data.description = description ? sanitizeInput(description, 2000) : null;
+    }
+    if (is_public !== undefined) {
+      data.is_public = is_public;
+    }
+    if (cover_series_id !== undefined) {
+      if (cover_series_id) {
+        const item = await prisma.userListItem.findUnique({
+          where: { list_id_series_id: { list_id: id, series_id: cover_series_id } },
+          select: { id: true },
+        });
+        if (!item) {
+          throw new ApiError('Cover must be a series in the list', 400, ErrorCodes.VALIDATION_ERROR);
+        }
+      }
+      data.cover_series_id = cover_series_id;
+    }
+
+    const list = await prisma.userList.update({
+      where: { id },
+      data,
+      select: USER_LIST_SELECT,
+    });
+
+    return NextResponse.json(serializeList(list));
+  } catch (error: unknown) {
+    logger.error('Error updating list', { error: error instanceof Error ? error.message : String(error) });
+    return handleApiError(error);
+  }
+}
+
+/**
+ * DELETE /api/lists/:id
+ * Deletes a list and its items; the series stay in the library.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    validateOrigin(request);
+
+    const ip = getClientIp(request);
+    if (!await checkRateLimit(`list-delete:${ip}`, 20, 60000)) {
+      throw new ApiError('Too many requests. Please wait a moment.', 429, ErrorCodes.RATE_LIMITED);
+    }
+
+    const user = await getMiddlewareUser();
+    if (!user) {
+      throw new ApiError('Unauthorized', 401, ErrorCodes.UNAUTHORIZED);
+    }
+
+    const { id } = await params;
+    validateUUID(id, 'list id');
+
+    const { count } = await prisma.userList.deleteMany({
+      where: { id, user_id: user.id },
+    });
+    if (count === 0) {
+      throw new ApiError('List not found', 404, ErrorCodes.NOT_FOUND);
+    }
+    await invalidateLibraryCache(user.id);
+
+    return NextResponse.json({ success: true });
+  } catch (error: unknown) {
+    logger.error('Error deleting list', { error: error instanceof Error ? error.message : String(error) });
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,163 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { checkRateLimit, validateOrigin, handleApiError, ApiError, ErrorCodes, getClientIp, validateContentType, validateJsonSize, getMiddlewareUser, sanitizeInput, validateUUID } from '@/lib/api-utils';
+import { UserListInputSchema, UserListOrderSchema } from '@/lib/schemas/lists';
+import { MAX_USER_LISTS, USER_LIST_SELECT, serializeList, reorderUserLists } from '@/lib/lists';
+import { logger } from '@/lib/logger';
+
+/**
+ * GET /api/lists
+ * The current user's lists in their chosen order. With `?series_id=` each
+ * list also reports whether it contains that series (used by the add-to-list menu).
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const ip = getClientIp(request);
+    if (!await checkRateLimit(`lists-get:${ip}`, 60, 60000)) {
+      throw new ApiError('Too many requests. Please wait a moment.', 429, ErrorCodes.RATE_LIMITED);
+    }
+
+    const user = await getMiddlewareUser();
+    if (!user) {
+      throw new ApiError('Unauthorized', 401, ErrorCodes.UNAUTHORIZED);
+    }
+
+    const seriesId = request.nextUrl.searchParams.get('series_id');
+    if (seriesId) {
+      validateUUID(seriesId, 'series_id');
+    }
+
+    const lists = await prisma.userList.findMany({
+      where: { user_id: user.id },
+      orderBy: [{ position: 'asc' }, { created_at: 'asc' }],
+      select: USER_LIST_SELECT,
+    });
+
+    let containing = new Set<string>();
+    if (seriesId) {
+      const items = await prisma.userListItem.findMany({
+        where: { series_id: seriesId, UserList: { user_id: user.id } },
+        select: { list_id: true },
+      });
+      containing = new Set(items.map(item => item.list_id));
+    }
+
+    return NextResponse.json({
+      lists: lists.map(list => ({
+        ...serializeList(list),
+        ...(seriesId ? { contains_series: containing.has(list.id) } : {}),
+      })),
+    });
+  } catch (error: unknown) {
+    return handleApiError(error);
+  }
+}
+
+/**
+ * POST /api/lists
+ * Creates a list at the end of the user's lists. Body: { name, description?, is_public? }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    validateOrigin(request);
+    validateContentType(request);
+    await validateJsonSize(request, 8 * 1024);
+
+    const ip = getClientIp(request);
+    if (!await checkRateLimit(`lists-create:${ip}`, 20, 60000)) {
+      throw new ApiError('Too many requests. Please wait a moment.', 429, ErrorCodes.RATE_LIMITED);
+    }
+
+    const user = await getMiddlewareUser();
+    if (!user) {
+      throw new ApiError('Unauthorized', 401, ErrorCodes.UNAUTHORIZED);
+    }
+
+    let body;
+    try {
+      body = await request.json();
+    } catch {
+      throw new ApiError('Invalid JSON body', 400, ErrorCodes.BAD_REQUEST);
+    }
+
+    const parsed = UserListInputSchema.safeParse(body);
+    if (!parsed.success) {
+      throw new ApiError(parsed.error.errors[0].message, 400, ErrorCodes.VALIDATION_ERROR);
+    }
+
+    const name = sanitizeInput(parsed.data.name, 100).trim();
+    if (!name) {
+      throw new ApiError('Name is required', 400, ErrorCodes.VALIDATION_ERROR);
+    }
+
+    const [count, last] = await Promise.all([
+      prisma.userList.count({ where: { user_id: user.id } }),
+      prisma.userList.findFirst({
+        where: { user_id: user.id },
+        orderBy: { position: 'desc' },
+        select: { position: true },
+      }),
+    ]);
+
+    if (count >= MAX_USER_LISTS) {
+      throw new ApiError(`Maximum number of lists reached (${MAX_USER_LISTS})`, 400, ErrorCodes.VALIDATION_ERROR);
+    }
+
+    const list = await prisma.userList.create({
+      data: {
+        user_id: user.id,
+        name,
+        description: parsed.data.description ? sanitizeInput(parsed.data.description, 2000) : null,
+        is_public: parsed.data.is_public,
+        position: last ? last.position + 1 : 0,
+      },
+      select: USER_LIST_SELECT,
+    });
+
+    return NextResponse.json(serializeList(list), { status: 201 });
+  } catch (error: unknown) {
+    logger.error('Error creating list', { error: error instanceof Error ? error.message : String(error) });
+    return handleApiError(error);
+  }
+}
+
+/**
+ * PUT /api/lists
+ * Reorders the user's lists. Body: { list_ids: [...] } in the new order.
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    validateOrigin(request);
+    validateContentType(request);
+    await validateJsonSize(request, 16 * 1024);
+
+    const ip = getClientIp(request);
+    if (!await checkRateLimit(`lists-reorder:${ip}`, 30, 60000)) {
+      throw new ApiError('Too many requests. Please wait a moment.', 429, ErrorCodes.RATE_LIMITED);
+    }
+
+    const user = await getMiddlewareUser();
+    if (!user) {
+      throw new ApiError('Unauthorized', 401, ErrorCodes.UNAUTHORIZED);
+    }
+
+    let body;
+    try {
+      body = await request.json();
+    } catch {
+      throw new ApiError('Invalid JSON body', 400, ErrorCodes.BAD_REQUEST);
+    }
+
+    const parsed = UserListOrderSchema.safeParse(body);
+    if (!parsed.success) {
+      throw new ApiError(parsed.error.errors[0].message, 400, ErrorCodes.VALIDATION_ERROR);
+    }
+
+    await reorderUserLists(user.id, [...new Set(parsed.data.list_ids)]);
+
+    return NextResponse.json({ success: true });
+  } catch (error: unknown) {
+    logger.error('Error reordering lists', { error: error instanceof Error ? error.message : String(error) });
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { checkRateLimit, validateOrigin, handleApiError, ApiError, ErrorCodes, getClientIp, validateContentType, validateJsonSize, getMiddlewareUser } from "@/lib/api-utils";
+import { base64UrlDecode, getVapidConfig, isAllowedPushEndpoint } from "@/lib/push/web-push";
+import { logger } from "@/lib/logger";
+
+// Oldest devices beyond this are dropped when a new one subscribes
+const MAX_SUBSCRIPTIONS_PER_USER = 10;
+
+const base64UrlKey = (bytes: number, label: string) =>
+  z.string()
+    .max(200)
+    .regex(/^[A-Za-z0-9_-]+=*$/, `${label} must be base64url`)
+    .refine(value => base64UrlDecode(value.replace(/=+$/, '')).length === bytes, `Invalid ${label}`);
+
+const subscribeSchema = z.object({
+  endpoint: z.string().url().max(2048).refine(isAllowedPushEndpoint, 'Unsupported push endpoint'),
+  expirationTime: z.number().nullable().optional(),
+  keys: z.object({
+    p256dh: base64UrlKey(65, 'p256dh key'),
+    auth: base64UrlKey(16, 'auth secret'),
+  }),
+});
+
+/**
+ * Application server key for PushManager.subscribe().
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const ip = getClientIp(request);
+    if (!await checkRateLimit(`push-key:${ip}`, 60, 60000)) {
+      throw new ApiError('Too many requests. Please wait a moment.', 429, ErrorCodes.RATE_LIMITED);
+    }
+
+    const vapid = getVapidConfig();
+    if (!vapid) {
+      throw new ApiError('Push notifications are not configured', 503, ErrorCodes.INTERNAL_ERROR);
+    }
+
+    return NextResponse.json({ publicKey: vapid.publicKey });
+  } catch (error: unknown) {
+    return handleApiError(error);
+  }
+}
+
+/**
+ * Stores this browser's PushSubscription for the current user. The endpoint
+ * identifies the browser, so subscribing again (or as another account on the
+ * same browser) updates the existing row.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    validateOrigin(request);
+    validateContentType(request);
+    await validateJsonSize(request);
+
+    const ip = getClientIp(request);
+    if (!await checkRateLimit(`push-subscribe:${ip}`, 20, 60000)) {
+      throw new ApiError('Too many requests. Please wait a moment.', 429, ErrorCodes.RATE_LIMITED);
+    }
+
+    const user = await getMiddlewareUser();
+    if (!user) {
+      throw new ApiError('Unauthorized', 401, ErrorCodes.UNAUTHORIZED);
+    }
+
+    let body;
+    try {
+      body = await request.json();
+    } catch {
+      throw new ApiError('Invalid JSON body', 400, ErrorCodes.BAD_REQUEST);
+    }
+
+    const parsed = await subscribeSchema.safeParseAsync(body);
+    if (!parsed.success) {
+      throw new ApiError(parsed.error.errors[0].message, 400, ErrorCodes.VALIDATION_ERROR);
+    }
+
+    const { endpoint, keys } = parsed.data;
+    const data = {
+      user_id: user.id,
+      p256dh: keys.p256dh.replace(/=+$/, ''),
+      auth: keys.auth.replace(/=+$/, ''),
+      user_agent: request.headers.get('user-agent')?.slice(0, 500) ?? null,
+    };
+
+    const subscription = await prisma.pushSubscription.upsert({
+      where: { endpoint },
+      create: { endpoint, ...data },
+      update: data,
+      select: { id: true },
+    });
+
+    const stale = await prisma.pushSubscription.findMany({
+      where: { user_id: user.id },
+      orderBy: { created_at: 'desc' },
+      skip: MAX_SUBSCRIPTIONS_PER_USER,
+      select: { id: true },
+    });
+    if (stale.length > 0) {
+      await prisma.pushSubscription.deleteMany({ where: { id: { in: stale.map(s => s.id) } } });
+    }
+
+    return NextResponse.json({ success: true, id: subscription.id });
+  } catch (error: unknown) {
+    logger.error('Push subscribe error', { error: error instanceof Error ? error.message : String(error) });
+    return handleApiError(error);
+  }
+}
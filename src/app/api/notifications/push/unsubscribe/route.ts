@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { checkRateLimit, validateOrigin, handleApiError, ApiError, ErrorCodes, getClientIp, validateContentType, validateJsonSize, getMiddlewareUser } from "@/lib/api-utils";
+import { logger } from "@/lib/logger";
+
+const unsubscribeSchema = z.object({
+  endpoint: z.string().url().max(2048),
+});
+
+/**
+ * Removes this browser's push subscription. Only the caller's own rows are
+ * touched, so a leaked endpoint can't be used to unsubscribe someone else.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    validateOrigin(request);
+    validateContentType(request);
+    await validateJsonSize(request);
+
+    const ip = getClientIp(request);
+    if (!await checkRateLimit(`push-unsubscribe:${ip}`, 20, 60000)) {
+      throw new ApiError('Too many requests. Please wait a moment.', 429, ErrorCodes.RATE_LIMITED);
+    }
+
+    const user = await getMiddlewareUser();
+    if (!user) {
+      throw new ApiError('Unauthorized', 401, ErrorCodes.UNAUTHORIZED);
+    }
+
+    let body;
+    try {
+      body = await request.json();
+    } catch {
+      throw new ApiError('Invalid JSON body', 400, ErrorCodes.BAD_REQUEST);
+    }
+
+    const parsed = unsubscribeSchema.safeParse(body);
+    if (!parsed.success) {
+      throw new ApiError(parsed.error.errors[0].message, 400, ErrorCodes.VALIDATION_ERROR);
+    }
+
+    const { count } = await prisma.pushSubscription.deleteMany({
+      where: { user_id: user.id, endpoint: parsed.data.endpoint },
+    });
+
+    return NextResponse.json({ success: true, removed: count });
+  } catch (error: unknown) {
+    logger.error('Push unsubscribe error', { error: error instanceof Error ? error.message : String(error) });
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from "next/server"
+import { checkRateLimit, getClientIp, handleApiError, ApiError, ErrorCodes } from "@/lib/api-utils"
+import { getSiteUrl } from "@/lib/email/unsubscribe"
+import { buildOpenApiDocument } from "@/lib/openapi/document"
+
+/**
+ * GET /api/openapi.json
+ * OpenAPI 3.1 description of the public REST API.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const ip = getClientIp(request)
+    if (!await checkRateLimit(`openapi:${ip}`, 30, 60000)) {
+      throw new ApiError("Too many requests. Please wait a moment.", 429, ErrorCodes.RATE_LIMITED)
+    }
+
+    return NextResponse.json(buildOpenApiDocument(getSiteUrl()), {
+      headers: { "Cache-Control": "public, max-age=3600" },
+    })
+  } catch (error: unknown) {
+    return handleApiError(error)
+  }
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { checkRateLimit, validateOrigin, handleApiError, ApiError, ErrorCodes, getClientIp, validateContentType, validateJsonSize, getMiddlewareUser } from '@/lib/api-utils';
+import { ScrobbleSchema } from '@/lib/schemas/scrobble';
+import { resolveScrobbleSeries, resolveScrobbleLibraryEntry, applyScrobble } from '@/lib/scrobble';
+import { logger } from '@/lib/logger';
+
+/**
+ * POST /api/scrobble
+ * Records a chapter read in a reader app. Body:
+ * { source_url | mangadex_id | mangaupdates_id, chapter_number, read_at?, device_id?, reading_time_seconds? }
+ *
+ * Meant for personal access tokens with the write:progress scope. Series not
+ * in the library are rejected with 404 unless the user turned on auto-add.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    validateOrigin(request);
+    validateContentType(request);
+    await validateJsonSize(request, 4 * 1024);
+
+    const ip = getClientIp(request);
+    if (!await checkRateLimit(`scrobble:${ip}`, 120, 60000)) {
+      throw new ApiError('Too many requests. Please wait a moment.', 429, ErrorCodes.RATE_LIMITED);
+    }
+
+    const user = await getMiddlewareUser({ scope: 'write:progress' });
+    if (!user) {
+      throw new ApiError('Unauthorized', 401, ErrorCodes.UNAUTHORIZED);
+    }
+
+    let body;
+    try {
+      body = await request.json();
+    } catch {
+      throw new ApiError('Invalid JSON body', 400, ErrorCodes.BAD_REQUEST);
+    }
+
+    const parsed = ScrobbleSchema.safeParse(body);
+    if (!parsed.success) {
+      throw new ApiError(parsed.error.errors[0].message, 400, ErrorCodes.VALIDATION_ERROR);
+    }
+
+    const series = await resolveScrobbleSeries(parsed.data);
+    if (!series) {
+      throw new ApiError('Series not found', 404, ErrorCodes.NOT_FOUND);
+    }
+
+    const entry = await resolveScrobbleLibraryEntry(user.id, series);
+    if (!entry) {
+      throw new ApiError('Series is not in your library. Enable auto-add in settings to track it automatically.', 404, ErrorCodes.NOT_FOUND);
+    }
+
+    const result = await applyScrobble(user.id, entry.id, series.series_id, parsed.data);
+
+    return NextResponse.json({ ...result, added_to_library: entry.added }, { status: entry.added ? 201 : 200 });
+  } catch (error: unknown) {
+    logger.error('Scrobble error', { error: error instanceof Error ? error.message : String(error) });
+    return handleApiError(error);
+  }
+}
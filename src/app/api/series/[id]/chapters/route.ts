@@ -7,6 +7,7 @@ import { syncChapters } from "@/lib/series-sync"
 import { getUserSourcePreferences } from "@/lib/source-utils"
 import { sortSourcesWithPreferences } from "@/lib/source-utils-shared"
 import { logger } from "@/lib/logger"
+import { currentReadThrough } from "@/lib/library-entries"
 
 // v2.2.1 - Optimized N+1 query for source metadata
 
@@ -98,19 +99,21 @@ export async function GET(
               user_id: user.id,
               LogicalChapter: { series_id: seriesId },
             },
-            select: { chapter_id: true },
+            select: { chapter_id: true, read_through: true },
           }),
           prisma.libraryEntry.findFirst({
             where: {
               user_id: user.id,
               series_id: seriesId,
             },
-            select: { last_read_chapter: true },
+            select: { last_read_chapter: true, reread_count: true },
           }),
           getUserSourcePreferences(user.id, seriesId),
         ])
 
-      readChapterIds = new Set(readChapters.map(r => r.chapter_id))
+      // During a re-read only chapters read in the current read-through count
+      const readThrough = currentReadThrough(libraryEntry?.reread_count)
+      readChapterIds = new Set(readChapters.filter(r => r.read_through >= readThrough).map(r => r.chapter_id))
       lastReadChapter = libraryEntry?.last_read_chapter ? Number(libraryEntry.last_read_chapter) : -1
       sourcePreferences = prefs
     }
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getRateLimitInfo, handleApiError, getClientIp, validateUUID, ErrorCodes } from "@/lib/api-utils"
+import { getBestCoversBatch, isValidCoverUrl } from "@/lib/cover-resolver"
+import { getSimilarSeries } from "@/lib/series-similarity"
+
+const DEFAULT_LIMIT = 12
+const MAX_LIMIT = 24
+
+/**
+ * GET /api/series/:id/similar?limit=12
+ * "More like this": series with similar descriptions, genres, tags and
+ * demographic, best first. Served from the similarity index, or scored live
+ * for series the index hasn't reached yet.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const ip = getClientIp(request)
+  const rateLimitInfo = await getRateLimitInfo(`series-similar:${ip}`, 60, 60000)
+
+  if (!rateLimitInfo.allowed) {
+    const retryAfter = Math.ceil((rateLimitInfo.reset - Date.now()) / 1000)
+    return NextResponse.json(
+      { error: 'Too many requests. Please wait a moment.', code: ErrorCodes.RATE_LIMITED },
+      {
+        status: 429,
+        headers: { 'Retry-After': retryAfter.toString() }
+      }
+    )
+  }
+
+  try {
+    const { id } = await params
+    validateUUID(id, 'series ID')
+
+    const parsedLimit = parseInt(request.nextUrl.searchParams.get('limit') || String(DEFAULT_LIMIT), 10)
+    const limit = Math.min(Math.max(1, isNaN(parsedLimit) ? DEFAULT_LIMIT : parsedLimit), MAX_LIMIT)
+
+    const similar = await getSimilarSeries(id, limit)
+    if (!similar) {
+      return NextResponse.json({ error: "Series not found" }, { status: 404 })
+    }
+
+    const bestCovers = await getBestCoversBatch(similar.results.map(series => series.id))
+
+    return NextResponse.json(
+      {
+        results: similar.results.map(series => ({
+          ...series,
+          cover_url: bestCovers.get(series.id)?.cover_url || (isValidCoverUrl(series.cover_url) ? series.cover_url : null),
+        })),
+        source: similar.source,
+      },
+      { headers: { 'Cache-Control': 'public, max-age=300' } }
+    )
+  } catch (error: unknown) {
+    return handleApiError(error)
+  }
+}
@@ -2,6 +2,8 @@ import { prisma, withRetry } from "@/lib/prisma"
 import { NextRequest, NextResponse } from "next/server"
 import { checkRateLimit, getClientIp, handleApiError, ApiError, ErrorCodes, validateUUID } from "@/lib/api-utils"
 import { logger } from "@/lib/logger"
+import { FINISHED_SERIES_STATUSES, loadReleasePredictions, serializeReleaseSchedule } from "@/lib/release-prediction"
+import { ratingBucket } from "@/lib/ratings"
 
 export async function GET(
   request: NextRequest,
@@ -20,7 +22,7 @@ export async function GET(
     const series = await withRetry(() =>
       prisma.series.findUnique({
         where: { id },
-        select: { id: true },
+        select: { id: true, status: true },
       })
     )
 
@@ -56,10 +58,12 @@ export async function GET(
         statusCounts[stat.status] = stat._count.id
       }
 
+      // Canonical 0-100 ratings are counted in 1-10 buckets
       const ratingCounts: Record<number, number> = {}
       for (const stat of ratingStats) {
         if (stat.user_rating !== null) {
-          ratingCounts[stat.user_rating] = stat._count.id
+          const bucket = ratingBucket(stat.user_rating)
+          ratingCounts[bucket] = (ratingCounts[bucket] || 0) + stat._count.id
         }
       }
 
@@ -126,6 +130,9 @@ export async function GET(
     
     const averageRating = totalRatings > 0 ? (weightedSum / totalRatings).toFixed(2) : null
 
+    const isFinished = FINISHED_SERIES_STATUSES.includes(series.status?.toLowerCase() ?? "")
+    const prediction = isFinished ? undefined : (await loadReleasePredictions([id])).get(id)
+
     return NextResponse.json({
       series_id: id,
       tracking_stats: {
@@ -158,6 +165,7 @@ export async function GET(
         monthly_readers: stats.monthly_readers,
         trending_rank: stats.trending_rank,
       },
+      release_schedule: prediction ? serializeReleaseSchedule(prediction) : null,
       updated_at: stats.updated_at.toISOString(),
     })
   } catch (error: unknown) {
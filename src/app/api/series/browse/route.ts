@@ -11,6 +11,7 @@ import {
   normalizeToTitleCase,
   normalizeToLowercase,
   getClientIp,
+  ApiError,
   ErrorCodes
 } from "@/lib/api-utils"
 import { getBestCoversBatch, isValidCoverUrl } from "@/lib/cover-resolver"
@@ -24,6 +25,8 @@ import {
   type PaginationConfig
 } from "@/lib/cursor-pagination"
 import { logger } from "@/lib/logger"
+import { buildBrowseQuery } from "@/lib/sql/browse-query-builder"
+import { applySearchQuery, parseSearchQuery, type ParsedSearchQuery } from "@/lib/search/query-language"
 
 const VALID_SORT_VALUES = new Set([
   'newest', 'oldest', 'score', 'rating', 'score_asc',
@@ -391,12 +394,18 @@ export async function GET(request: NextRequest) {
   // Parse query param
     const rawQuery = getParam(searchParams, 'query')
     const q = rawQuery ? sanitizeInput(rawQuery, 200) : null
-    const hasSearchQuery = !!(q && q.length >= 2)
+
+    // Query language terms (genre:romance chapters:>100 ...) run through the SQL browse builder
+    const parsedQuery = q ? parseSearchQuery(q) : null
+    const structuredQuery: ParsedSearchQuery | null =
+      parsedQuery && (parsedQuery.terms.length > 0 || parsedQuery.errors.length > 0) ? parsedQuery : null
+    const searchText = structuredQuery ? structuredQuery.text : q
+    const hasSearchQuery = !!(searchText && searchText.length >= 2)
     
     // Parse sort param - default to 'popularity' if search query exists, 'latest_chapter' otherwise
     const rawSort = getParam(searchParams, 'sort')
     const defaultSort = hasSearchQuery ? 'popularity' : 'latest_chapter'
-    const sort = rawSort && VALID_SORT_VALUES.has(rawSort) ? rawSort : defaultSort
+    const sort = structuredQuery?.filters.sort ?? (rawSort && VALID_SORT_VALUES.has(rawSort) ? rawSort : defaultSort)
   
   // Parse limit param
   const limit = Math.min(Math.max(1, parseInt(searchParams.get(P.limit) || '24')), 100)
@@ -498,52 +507,66 @@ export async function GET(request: NextRequest) {
       let count: number | null = null
       let preFilteredIds: string[] | null = null
 
-      // Parallel pre-filtering
-      const preFilterPromises: Promise<Set<string>>[] = []
+      if (structuredQuery) {
+        if (structuredQuery.errors.length > 0) {
+          throw new ApiError(structuredQuery.errors[0], 400, ErrorCodes.VALIDATION_ERROR)
+        }
+
+        const browseQuery = buildBrowseQuery(applySearchQuery({ ...baseFilters, source }, structuredQuery), sortConfig, limit, cursor)
+        const [rows, countRows] = await Promise.all([
+          prisma.$queryRawUnsafe<SeriesRow[]>(browseQuery.sql, ...browseQuery.params),
+          prisma.$queryRawUnsafe<{ total: bigint }[]>(browseQuery.countSql, ...browseQuery.countParams),
+        ])
+        data = rows.map(row => ({ ...row, average_rating: row.average_rating === null ? null : Number(row.average_rating) }))
+        count = Number(countRows[0]?.total ?? 0)
+      } else {
+        // Parallel pre-filtering
+        const preFilterPromises: Promise<Set<string>>[] = []
       
-      if (hasSearchQuery) {
-        const safeMode = contentRating === 'safe' ? 'sfw' : (contentRating === 'suggestive' ? 'questionable' : 'nsfw')
-        preFilterPromises.push(searchSeriesIds(q!, safeMode, genres))
-      }
+        if (hasSearchQuery) {
+          const safeMode = contentRating === 'safe' ? 'sfw' : (contentRating === 'suggestive' ? 'questionable' : 'nsfw')
+          preFilterPromises.push(searchSeriesIds(q!, safeMode, genres))
+        }
       
-      if (source === 'multiple') {
-        preFilterPromises.push(getSeriesIdsWithMultipleSources())
-      }
+        if (source === 'multiple') {
+          preFilterPromises.push(getSeriesIdsWithMultipleSources())
+        }
       
-      if (preFilterPromises.length > 0) {
-        const preFilterResults = await Promise.all(preFilterPromises)
+        if (preFilterPromises.length > 0) {
+          const preFilterResults = await Promise.all(preFilterPromises)
         
-        // Intersect all pre-filtered sets
-        let intersection: Set<string> | null = null
-        for (const resultSet of preFilterResults) {
-          if (intersection === null) {
-            intersection = resultSet
-          } else {
-            const newIntersection = new Set<string>()
-            for (const id of resultSet) {
-              if (intersection.has(id)) {
-                newIntersection.add(id)
+          // Intersect all pre-filtered sets
+          let intersection: Set<string> | null = null
+          for (const resultSet of preFilterResults) {
+            if (intersection === null) {
+              intersection = resultSet
+            } else {
+              const newIntersection = new Set<string>()
+              for (const id of resultSet) {
+                if (intersection.has(id)) {
+                  newIntersection.add(id)
+                }
               }
+              intersection = newIntersection
             }
-            intersection = newIntersection
           }
-        }
         
-        preFilteredIds = intersection ? [...intersection] : []
-      }
+          preFilteredIds = intersection ? [...intersection] : []
+        }
 
-      // NOTE: Chapter count and release period filters are now handled directly via SQL
-      // Using s.chapter_count and s.last_chapter_date columns in applyBaseFilters
+        // NOTE: Chapter count and release period filters are now handled directly via SQL
+        // Using s.chapter_count and s.last_chapter_date columns in applyBaseFilters
 
-      const query = buildSeriesQuery(baseFilters, sortConfig, limit + 1, source, cursor, preFilteredIds, hasSearchQuery)
-    const result = await query
-    if (result.error) throw result.error
-    data = (result.data as unknown as SeriesRow[]) || []
-    count = result.count
-    
-    if (source && source !== 'all' && source !== 'multiple') {
-      data = stripSourcesFromResults(data) as SeriesRow[]
-    }
+        const query = buildSeriesQuery(baseFilters, sortConfig, limit + 1, source, cursor, preFilteredIds, hasSearchQuery)
+        const result = await query
+        if (result.error) throw result.error
+        data = (result.data as unknown as SeriesRow[]) || []
+        count = result.count
+
+        if (source && source !== 'all' && source !== 'multiple') {
+          data = stripSourcesFromResults(data) as SeriesRow[]
+        }
+      }
 
     const hasMore = data.length > limit
     if (hasMore) {
@@ -594,7 +617,8 @@ export async function GET(request: NextRequest) {
           chaptersMin,
           originalLanguage,
           translatedLanguage,
-          sort
+          sort,
+          ...(structuredQuery && { query: structuredQuery.filters, text: structuredQuery.text })
         }
       })
 
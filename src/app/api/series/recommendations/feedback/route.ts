@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from "next/server"
+import { checkRateLimit, handleApiError, getClientIp, ApiError, ErrorCodes, validateOrigin, validateContentType, validateJsonSize, getMiddlewareUser, validateUUID } from "@/lib/api-utils"
+import {
+  RECOMMENDATION_FEEDBACK,
+  clearRecommendationFeedback,
+  isRecommendationFeedback,
+  recordRecommendationFeedback,
+} from "@/lib/recommendation-feedback"
+
+async function requireUser(request: NextRequest, rateLimitKey: string) {
+  const ip = getClientIp(request)
+  if (!await checkRateLimit(`${rateLimitKey}:${ip}`, 60, 60000)) {
+    throw new ApiError('Too many requests', 429, ErrorCodes.RATE_LIMITED)
+  }
+
+  validateOrigin(request)
+
+  const user = await getMiddlewareUser()
+  if (!user) {
+    throw new ApiError('Unauthorized', 401, ErrorCodes.UNAUTHORIZED)
+  }
+  return user
+}
+
+/**
+ * POST /api/series/recommendations/feedback
+ * Body: { seriesId, feedback: 'not_interested' | 'read_elsewhere' | 'more_like_this' }
+ * Replaces any earlier feedback on the series.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireUser(request, 'recommendation-feedback')
+    validateContentType(request)
+    await validateJsonSize(request, 1024)
+
+    let body
+    try {
+      body = await request.json()
+    } catch {
+      throw new ApiError('Invalid JSON body', 400, ErrorCodes.BAD_REQUEST)
+    }
+
+    const { seriesId, feedback } = body ?? {}
+    if (typeof seriesId !== 'string') {
+      throw new ApiError('Missing seriesId', 400, ErrorCodes.BAD_REQUEST)
+    }
+    validateUUID(seriesId, 'seriesId')
+
+    if (!isRecommendationFeedback(feedback)) {
+      throw new ApiError(`feedback must be one of ${RECOMMENDATION_FEEDBACK.join(', ')}`, 400, ErrorCodes.VALIDATION_ERROR)
+    }
+
+    await recordRecommendationFeedback(user.id, seriesId, feedback)
+
+    return NextResponse.json({ success: true, feedback })
+  } catch (error: unknown) {
+    return handleApiError(error)
+  }
+}
+
+/**
+ * DELETE /api/series/recommendations/feedback?seriesId=...
+ * Undoes feedback on the series.
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const user = await requireUser(request, 'recommendation-feedback')
+
+    const seriesId = request.nextUrl.searchParams.get('seriesId')
+    if (!seriesId) {
+      throw new ApiError('Missing seriesId', 400, ErrorCodes.BAD_REQUEST)
+    }
+    validateUUID(seriesId, 'seriesId')
+
+    await clearRecommendationFeedback(user.id, seriesId)
+
+    return NextResponse.json({ success: true })
+  } catch (error: unknown) {
+    return handleApiError(error)
+  }
+}
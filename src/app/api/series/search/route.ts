@@ -41,6 +41,9 @@ import {
 } from "@/lib/search-utils"
 import { promoteSeriesTier } from "@/lib/catalog-tiers"
 import { searchMangaDex, MangaDexCandidate } from "@/lib/mangadex"
+import { createCursor, decodeCursor, getSortConfig, validateCursorSort } from "@/lib/cursor-pagination"
+import { buildBrowseQuery } from "@/lib/sql/browse-query-builder"
+import { applySearchQuery, browseFiltersFromCanonical, parseSearchQuery, type ParsedSearchQuery } from "@/lib/search/query-language"
 
 // =============================================================================
 // V5 AUDIT BUG FIXES 59-60: Import search utilities
@@ -201,9 +204,21 @@ export async function GET(request: NextRequest) {
       if (!validated.success) throw new ApiError("Invalid filters", 400, ErrorCodes.VALIDATION_ERROR)
 
       const filters = validated.data
+
+      // Query language terms (genre:romance chapters:>100 ...) run through the SQL browse builder
+      const parsedQuery = filters.q ? parseSearchQuery(filters.q) : null
+      const structuredQuery: ParsedSearchQuery | null =
+        parsedQuery && (parsedQuery.terms.length > 0 || parsedQuery.errors.length > 0) ? parsedQuery : null
+      if (structuredQuery && structuredQuery.errors.length > 0) {
+        throw new ApiError(structuredQuery.errors[0], 400, ErrorCodes.VALIDATION_ERROR)
+      }
+      const structuredSort = structuredQuery ? structuredQuery.filters.sort ?? filters.sortBy : null
+      const structuredCursor = structuredSort && filters.cursor ? decodeCursor(filters.cursor) : null
       
       // Validate cursor format before using it
-      if (filters.cursor && !validateCursor(filters.cursor)) {
+      if (filters.cursor && (structuredSort
+        ? !structuredCursor || !validateCursorSort(structuredCursor, structuredSort)
+        : !validateCursor(filters.cursor))) {
         throw new ApiError("Invalid cursor format", 400, ErrorCodes.VALIDATION_ERROR)
       }
       
@@ -212,7 +227,8 @@ export async function GET(request: NextRequest) {
         throw new ApiError(`Query too long (max ${SEARCH_LIMITS.MAX_QUERY_LENGTH} characters)`, 400, ErrorCodes.VALIDATION_ERROR)
       }
       
-      const queryStr = filters.q ? sanitizeInput(filters.q, SEARCH_LIMITS.MAX_QUERY_LENGTH) : null
+      // Structured queries skip the text search cache, intent tracking and external discovery
+      const queryStr = filters.q && !structuredQuery ? sanitizeInput(filters.q, SEARCH_LIMITS.MAX_QUERY_LENGTH) : null
     const normalizedKey = queryStr ? normalizeSearchQuery(queryStr) : null
     const escapedQuery = normalizedKey ? escapeILikePattern(normalizedKey) : null
     
@@ -232,7 +248,7 @@ export async function GET(request: NextRequest) {
     const rawSource = getParam(searchParams, 'source')
     const source = rawSource && VALID_SOURCES.has(rawSource.toLowerCase()) ? rawSource.toLowerCase() : null
     const requestId = `${Date.now()}_${Math.random().toString(36).slice(2, 8)}`
-    const cacheFilters = { ...filters, source }
+    const cacheFilters = { ...filters, source, ...(structuredQuery && { query: structuredQuery.filters, text: structuredQuery.text }) }
 
     // Use optimized SQL for text search without cursor/source filter
     const useOptimizedSql = normalizedKey && !filters.cursor && !source && filters.mode === 'all'
@@ -259,7 +275,22 @@ export async function GET(request: NextRequest) {
     let count: number | null = null
     let hasMore = false
 
-    if (useOptimizedSql) {
+    if (structuredSort) {
+      const browseQuery = buildBrowseQuery(
+        applySearchQuery(browseFiltersFromCanonical(filters, source), structuredQuery!),
+        getSortConfig(structuredSort),
+        requestedLimit,
+        structuredCursor
+      )
+      const [rows, countRows] = await Promise.all([
+        prisma.$queryRawUnsafe<any[]>(browseQuery.sql, ...browseQuery.params),
+        prisma.$queryRawUnsafe<{ total: bigint }[]>(browseQuery.countSql, ...browseQuery.countParams),
+      ])
+      results = rows.map(row => ({ ...row, average_rating: row.average_rating === null ? null : Number(row.average_rating) }))
+      count = Number(countRows[0]?.total ?? 0)
+      hasMore = results.length > requestedLimit
+      if (hasMore) results = results.slice(0, requestedLimit)
+    } else if (useOptimizedSql) {
       // Bug 59: Cap the database query to MAX_RESULTS_BEFORE_PROCESSING
       const dbLimit = Math.min(requestedLimit + 1, SEARCH_LIMITS.MAX_RESULTS_BEFORE_PROCESSING)
         const genresParam = filters.genres.length > 0 ? filters.genres : null
@@ -370,14 +401,18 @@ export async function GET(request: NextRequest) {
 
       // Bug 60: Apply deterministic sorting to ensure consistent result ordering
       // Parse relevance_score as number (may come as string from SQL)
-      const sortedResults = sortSearchResultsDeterministic(
+      // Structured results are already in the builder's keyset order
+      const sortedResults = structuredSort ? formattedResults : sortSearchResultsDeterministic(
         formattedResults.map((r: any) => ({ ...r, score: parseFloat(r.relevance_score) || 0 })),
         filters.sortBy === 'score' ? 'score' : filters.sortBy === 'newest' ? 'newest' : 'score'
       )
 
     let nextCursor = null
     if (hasMore && sortedResults.length > 0) {
-      nextCursor = createSearchCursor(sortedResults[sortedResults.length - 1], filters.sortBy)
+      const lastResult = sortedResults[sortedResults.length - 1]
+      nextCursor = structuredSort
+        ? createCursor(lastResult, getSortConfig(structuredSort))
+        : createSearchCursor(lastResult, filters.sortBy)
     }
 
     if (normalizedKey && !filters.cursor) {
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getRateLimitInfo, handleApiError, getClientIp, ErrorCodes } from "@/lib/api-utils"
+import { suggestSearchQuery } from "@/lib/search/query-language"
+
+const MAX_INPUT_LENGTH = 500
+
+/**
+ * GET /api/series/search/suggest?q=genre:rom
+ * Autocomplete for the search query language: keys, then values for the
+ * term at the end of `q`. Static data only, no database access.
+ */
+export async function GET(request: NextRequest) {
+  const ip = getClientIp(request)
+  const rateLimitInfo = await getRateLimitInfo(`search-suggest:${ip}`, 120, 60000)
+
+  if (!rateLimitInfo.allowed) {
+    const retryAfter = Math.ceil((rateLimitInfo.reset - Date.now()) / 1000)
+    return NextResponse.json(
+      { error: 'Too many requests. Please wait a moment.', code: ErrorCodes.RATE_LIMITED },
+      {
+        status: 429,
+        headers: { 'Retry-After': retryAfter.toString() }
+      }
+    )
+  }
+
+  try {
+    const searchParams = request.nextUrl.searchParams
+    const q = (searchParams.get('q') || '').slice(0, MAX_INPUT_LENGTH)
+    const limit = Math.min(Math.max(1, parseInt(searchParams.get('limit') || '10') || 10), 25)
+
+    return NextResponse.json(
+      { suggestions: suggestSearchQuery(q, limit) },
+      { headers: { 'Cache-Control': 'public, max-age=300' } }
+    )
+  } catch (error: unknown) {
+    return handleApiError(error)
+  }
+}
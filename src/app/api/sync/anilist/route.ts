@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { handleApiError, ApiError, ErrorCodes, validateContentType, validateJsonSize, validateOrigin, checkRateLimit, getClientIp, getMiddlewareUser, logSecurityEvent } from '@/lib/api-utils';
+import { runAniListSync, AniListSyncError } from '@/lib/sync/anilist-adapter';
+import { z } from 'zod';
+
+const anilistSyncSchema = z.object({
+  access_token: z.string().min(20).max(4096),
+  direction: z.enum(['pull', 'push', 'both']).default('both'),
+});
+
+/**
+ * POST /api/sync/anilist
+ * Runs a two-way progress sync with the caller's AniList account. Pulled
+ * changes are applied before responding; pushes run in the background as
+ * an import-queue job. The AniList access token is only kept in that job
+ * until it finishes and is never stored in the database.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    validateOrigin(req);
+    validateContentType(req);
+    await validateJsonSize(req, 16 * 1024);
+
+    const ip = getClientIp(req);
+    if (!await checkRateLimit(`sync-anilist:${ip}`, 5, 60000)) {
+      throw new ApiError('Too many requests. Please wait a moment.', 429, ErrorCodes.RATE_LIMITED);
+    }
+
+    const user = await getMiddlewareUser();
+    if (!user) {
+      throw new ApiError('Unauthorized', 401, ErrorCodes.UNAUTHORIZED);
+    }
+
+    // AniList allows 90 req/min per token; keep syncs from piling up behind a queued push
+    if (!await checkRateLimit(`sync-anilist:user:${user.id}`, 2, 60000)) {
+      throw new ApiError('An AniList sync ran recently. Please wait a minute.', 429, ErrorCodes.RATE_LIMITED);
+    }
+
+    let body;
+    try {
+      body = await req.json();
+    } catch {
+      throw new ApiError('Invalid JSON body', 400, ErrorCodes.BAD_REQUEST);
+    }
+    const validatedData = anilistSyncSchema.safeParse(body);
+    if (!validatedData.success) {
+      throw new ApiError(validatedData.error.errors[0].message, 400, ErrorCodes.VALIDATION_ERROR);
+    }
+
+    const { access_token, direction } = validatedData.data;
+
+    let summary;
+    try {
+      summary = await runAniListSync(user.id, { accessToken: access_token, direction });
+    } catch (error: unknown) {
+      if (error instanceof AniListSyncError) {
+        if (error.status === 401 || error.status === 400) {
+          throw new ApiError('AniList rejected the access token. Please reconnect your account.', 401, ErrorCodes.UNAUTHORIZED);
+        }
+        if (error.status === 429) {
+          throw new ApiError('AniList is rate limiting requests. Please try again shortly.', 429, ErrorCodes.RATE_LIMITED);
+        }
+        if (error.status === 409) {
+          throw new ApiError('Your last AniList sync is still pushing changes. Please try again once it finishes.', 409, ErrorCodes.CONFLICT);
+        }
+        throw new ApiError(`AniList sync failed: ${error.message}`, 502, 'UPSTREAM_ERROR');
+      }
+      throw error;
+    }
+
+    await logSecurityEvent({
+      userId: user.id,
+      event: 'ANILIST_SYNC',
+      status: 'success',
+      ipAddress: ip,
+      userAgent: req.headers.get('user-agent'),
+      metadata: { direction, ...summary },
+    });
+
+    return NextResponse.json({ success: true, ...summary });
+  } catch (error: unknown) {
+    return handleApiError(error);
+  }
+}
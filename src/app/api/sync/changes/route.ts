@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { handleApiError, ApiError, ErrorCodes, checkRateLimit, getClientIp, getMiddlewareUser } from '@/lib/api-utils';
+import { getLibraryChangesSince } from '@/lib/sync/library-versions';
+
+/**
+ * GET /api/sync/changes?since=<cursor>
+ * Library entries changed after the cursor, with field versions, so a device
+ * that was offline (or another device entirely) can catch up. Omit `since`
+ * (or pass 0) for a full snapshot; keep requesting with the returned cursor
+ * while has_more is true.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const ip = getClientIp(req);
+    if (!await checkRateLimit(`sync-changes:${ip}`, 60, 60000)) {
+      throw new ApiError('Too many requests. Please wait a moment.', 429, ErrorCodes.RATE_LIMITED);
+    }
+
+    const user = await getMiddlewareUser();
+    if (!user) {
+      throw new ApiError('Unauthorized', 401, ErrorCodes.UNAUTHORIZED);
+    }
+
+    const { searchParams } = new URL(req.url);
+    const sinceParam = searchParams.get('since') || '0';
+    if (!/^\d{1,19}$/.test(sinceParam)) {
+      throw new ApiError('Invalid since cursor', 400, ErrorCodes.VALIDATION_ERROR);
+    }
+
+    const changes = await getLibraryChangesSince(user.id, BigInt(sinceParam));
+
+    return NextResponse.json(changes, {
+      headers: { 'Cache-Control': 'private, no-store' },
+    });
+  } catch (error: unknown) {
+    return handleApiError(error);
+  }
+}
@@ -3,6 +3,12 @@ import { prisma } from '@/lib/prisma';
 import { handleApiError, ApiError, ErrorCodes, validateContentType, validateJsonSize, validateOrigin, checkRateLimit, getClientIp, getMiddlewareUser } from '@/lib/api-utils';
 import { z } from 'zod';
 import { Prisma } from '@prisma/client';
+import { applyLibraryUpdate, getCanonicalEntryStates } from '@/lib/sync/library-versions';
+import { invalidateLibraryCache } from '@/lib/cache-utils';
+import { currentReadThrough } from '@/lib/library-entries';
+import { MAX_CANONICAL_RATING, MIN_CANONICAL_RATING } from '@/lib/ratings';
+import { recalculateSeriesRatings } from '@/lib/series-ratings';
+import { LIBRARY_STATUSES, NOTIFICATION_MODES, SyncActionResult } from '@/lib/sync/protocol';
 
 const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
 
@@ -14,6 +20,24 @@ const syncActionSchema = z.object({
   deviceId: z.string(),
 });
 
+const versionSchema = z.number().int().min(0);
+const fieldVersionsSchema = z.object({
+  status: versionSchema,
+  rating: versionSchema,
+  progress: versionSchema,
+  notification_mode: versionSchema,
+}).partial();
+
+const libraryUpdatePayloadSchema = z.object({
+  entryId: z.string().regex(UUID_RE, 'Invalid entry id'),
+  status: z.enum(LIBRARY_STATUSES).optional(),
+  // Canonical 0-100 score, as served in the entry state
+  rating: z.number().int().min(MIN_CANONICAL_RATING).max(MAX_CANONICAL_RATING).nullable().optional(),
+  progress: z.number().min(0).max(100000).finite().optional(),
+  notificationMode: z.enum(NOTIFICATION_MODES).optional(),
+  baseVersions: fieldVersionsSchema.optional(),
+});
+
 const syncBatchSchema = z.object({
   actions: z.array(syncActionSchema).max(100), // Limit batch size to prevent abuse
 });
@@ -21,7 +45,11 @@ const syncBatchSchema = z.object({
 /**
  * POST /api/sync/replay
  * Replays a batch of sync actions from a device outbox.
- * Implements LWW conflict resolution for read states.
+ *
+ * LIBRARY_UPDATE fields are resolved against server-issued field versions
+ * (see lib/sync/protocol); chapter read states stay LWW on the read timestamp.
+ * Each result is accepted / rejected / merged and carries the canonical entry
+ * state for the device to apply.
  */
 export async function POST(req: NextRequest) {
   try {
@@ -60,88 +88,105 @@ export async function POST(req: NextRequest) {
     }
 
     const { actions } = validatedData.data;
-      const results: Array<{ id: string; status: string; message?: string; applied?: boolean }> = [];
-
-      // Optimization: Process actions in a single transaction if possible
-      // or at least optimize the loop to avoid redundant series lookups
-      await prisma.$transaction(async (tx) => {
-        for (const action of actions) {
-          try {
-            if (action.type === 'CHAPTER_READ') {
-              const { entryId, chapterNumber, chapterSlug, sourceId, isRead = true } = action.payload;
-              const targetTimestamp = new Date(action.timestamp);
-
-              const entry = await tx.libraryEntry.findUnique({
-                where: { id: entryId, user_id: user.id },
-                select: { series_id: true }
+    const results: SyncActionResult[] = [];
+    const touchedEntryIds = new Set<string>();
+
+    await prisma.$transaction(async (tx) => {
+      for (const action of actions) {
+        try {
+          if (action.type === 'CHAPTER_READ') {
+            const { entryId, chapterNumber, sourceId, isRead = true } = action.payload;
+            const targetTimestamp = new Date(action.timestamp);
+
+            const entry = await tx.libraryEntry.findUnique({
+              where: { id: entryId, user_id: user.id },
+              select: { series_id: true, reread_count: true }
+            });
+
+            if (!entry) {
+              results.push({ id: action.id, status: 'error', message: 'Library entry not found' });
+              continue;
+            }
+
+            // MANGATRACK PARITY: Logical chapters are identified strictly by (series_id, chapter_number)
+            const NO_NUMBER_SENTINEL = new Prisma.Decimal(-1);
+            const chapterNumDecimal = chapterNumber !== undefined && chapterNumber !== null 
+              ? new Prisma.Decimal(chapterNumber) 
+              : NO_NUMBER_SENTINEL;
+            const chapterNumString = chapterNumDecimal.toString();
+
+            const chapter = await tx.logicalChapter.findUnique({
+                where: {
+                  series_id_chapter_number: {
+                    series_id: entry.series_id || "",
+                    chapter_number: chapterNumString,
+                  }
+                },
+                select: { id: true }
               });
 
-              if (!entry) {
-                results.push({ id: action.id, status: 'error', message: 'Library entry not found' });
-                continue;
-              }
-
-              // MANGATRACK PARITY: Logical chapters are identified strictly by (series_id, chapter_number)
-              const NO_NUMBER_SENTINEL = new Prisma.Decimal(-1);
-              const chapterNumDecimal = chapterNumber !== undefined && chapterNumber !== null 
-                ? new Prisma.Decimal(chapterNumber) 
-                : NO_NUMBER_SENTINEL;
-              const chapterNumString = chapterNumDecimal.toString();
-
-              const chapter = await tx.logicalChapter.findUnique({
-                  where: {
-                    series_id_chapter_number: {
-                      series_id: entry.series_id || "",
-                      chapter_number: chapterNumString,
-                    }
-                  },
-                  select: { id: true }
-                });
-
-              if (chapter) {
-                // Validate sourceId as UUID before casting to prevent transaction-killing SQL errors
-                const safeSourceId = (sourceId && UUID_RE.test(sourceId)) ? sourceId : null;
-
-                const updateResult = await tx.$executeRaw`
-                  INSERT INTO "user_chapter_reads_v2" 
-                    ("id", "user_id", "chapter_id", "is_read", "updated_at", "read_at", "source_used_id", "device_id", "server_received_at")
-                  VALUES 
-                    (gen_random_uuid(), ${user.id}::uuid, ${chapter.id}::uuid, ${isRead}, ${targetTimestamp}::timestamptz, ${targetTimestamp}::timestamptz, ${safeSourceId}::uuid, ${action.deviceId}, NOW())
-                ON CONFLICT ("user_id", "chapter_id")
-                DO UPDATE SET 
-                  "is_read" = EXCLUDED."is_read",
-                  "updated_at" = EXCLUDED."updated_at",
-                  "device_id" = EXCLUDED."device_id",
-                  "server_received_at" = EXCLUDED."server_received_at",
-                  "read_at" = CASE WHEN EXCLUDED."is_read" = true THEN EXCLUDED."updated_at" ELSE "user_chapter_reads_v2"."read_at" END,
-                  "source_used_id" = EXCLUDED."source_used_id"
-                WHERE EXCLUDED."updated_at" > "user_chapter_reads_v2"."updated_at"
-                   OR (EXCLUDED."updated_at" = "user_chapter_reads_v2"."updated_at" 
-                       AND EXCLUDED."server_received_at" < "user_chapter_reads_v2"."server_received_at")
-              `;
-
-              results.push({ id: action.id, status: 'success', applied: updateResult > 0 });
-            } else {
-               results.push({ id: action.id, status: 'error', message: 'Logical chapter not found' });
+            if (!chapter) {
+              results.push({ id: action.id, status: 'error', message: 'Logical chapter not found' });
+              continue;
+            }
+
+            // Validate sourceId as UUID before casting to prevent transaction-killing SQL errors
+            const safeSourceId = (sourceId && UUID_RE.test(sourceId)) ? sourceId : null;
+
+            // Per-chapter read state stays last-write-wins on the read timestamp
+            const updateResult = await tx.$executeRaw`
+              INSERT INTO "user_chapter_reads_v2" 
+                ("id", "user_id", "chapter_id", "is_read", "updated_at", "read_at", "source_used_id", "device_id", "server_received_at", "read_through")
+              VALUES 
+                (gen_random_uuid(), ${user.id}::uuid, ${chapter.id}::uuid, ${isRead}, ${targetTimestamp}::timestamptz, ${targetTimestamp}::timestamptz, ${safeSourceId}::uuid, ${action.deviceId}, NOW(), ${currentReadThrough(entry.reread_count)})
+            ON CONFLICT ("user_id", "chapter_id")
+            DO UPDATE SET 
+              "is_read" = EXCLUDED."is_read",
+              "read_through" = EXCLUDED."read_through",
+              "updated_at" = EXCLUDED."updated_at",
+              "device_id" = EXCLUDED."device_id",
+              "server_received_at" = EXCLUDED."server_received_at",
+              "read_at" = CASE WHEN EXCLUDED."is_read" = true THEN EXCLUDED."updated_at" ELSE "user_chapter_reads_v2"."read_at" END,
+              "source_used_id" = EXCLUDED."source_used_id"
+            WHERE EXCLUDED."updated_at" > "user_chapter_reads_v2"."updated_at"
+               OR (EXCLUDED."updated_at" = "user_chapter_reads_v2"."updated_at" 
+                   AND EXCLUDED."server_received_at" < "user_chapter_reads_v2"."server_received_at")
+          `;
+
+            // Progress only moves forward on replayed reads, whatever the device thought it was
+            let progressAdvanced = false;
+            if (isRead && Number(chapterNumString) > 0) {
+              const advanced = await tx.libraryEntry.updateMany({
+                where: {
+                  id: entryId,
+                  user_id: user.id,
+                  OR: [{ last_read_chapter: null }, { last_read_chapter: { lt: chapterNumDecimal } }],
+                },
+                data: {
+                  last_read_chapter: chapterNumDecimal,
+                  last_read_at: targetTimestamp,
+                  updated_at: new Date(),
+                },
+              });
+              progressAdvanced = advanced.count > 0;
             }
-          } else if (action.type === 'LIBRARY_UPDATE') {
-            const { entryId, status, rating, notes } = action.payload;
-            const targetTimestamp = new Date(action.timestamp);
 
-            const updateResult = await tx.libraryEntry.updateMany({
-              where: { 
-                id: entryId, 
-                user_id: user.id,
-                updated_at: { lt: targetTimestamp } // LWW
-              },
-              data: {
-                status: status || undefined,
-                user_rating: rating !== undefined ? rating : undefined,
-                updated_at: targetTimestamp,
-              }
+            touchedEntryIds.add(entryId);
+            results.push({
+              id: action.id,
+              status: updateResult > 0 ? 'accepted' : progressAdvanced ? 'merged' : 'rejected',
+              fields: isRead ? { progress: progressAdvanced ? 'accepted' : 'rejected' } : undefined,
             });
+          } else if (action.type === 'LIBRARY_UPDATE') {
+            const payload = libraryUpdatePayloadSchema.safeParse(action.payload);
+            if (!payload.success) {
+              results.push({ id: action.id, status: 'error', message: payload.error.errors[0].message });
+              continue;
+            }
 
-            results.push({ id: action.id, status: 'success', applied: updateResult.count > 0 });
+            const result = await applyLibraryUpdate(tx, user.id, action.id, payload.data);
+            if (result.status !== 'error') touchedEntryIds.add(payload.data.entryId);
+            results.push(result);
           } else {
             results.push({ id: action.id, status: 'skipped', message: `Sync for ${action.type} not yet fully implemented` });
           }
@@ -153,6 +198,26 @@ export async function POST(req: NextRequest) {
       timeout: 15000 // 15s timeout for batch processing
     });
 
+    if (touchedEntryIds.size > 0) {
+      await invalidateLibraryCache(user.id);
+    }
+
+    // Answer every applied action with the canonical state so the device can converge
+    const canonical = await getCanonicalEntryStates(prisma, user.id, Array.from(touchedEntryIds));
+    const reratedSeriesIds: Array<string | null> = [];
+    for (const result of results) {
+      const action = actions.find(a => a.id === result.id);
+      const entry = action?.payload?.entryId ? canonical.get(action.payload.entryId) : undefined;
+      if (entry && result.status !== 'error' && result.status !== 'skipped') {
+        result.entry = entry;
+        if (action?.type === 'LIBRARY_UPDATE' && result.fields?.rating === 'accepted') {
+          reratedSeriesIds.push(entry.series_id);
+        }
+      }
+    }
+
+    await recalculateSeriesRatings(reratedSeriesIds);
+
     return NextResponse.json({ results });
   } catch (error: unknown) {
     return handleApiError(error);
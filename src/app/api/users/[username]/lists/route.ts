@@ -0,0 +1,62 @@
+import { NextResponse } from "next/server"
+import { prismaRead, withRetry } from "@/lib/prisma"
+import { checkRateLimit, validateUsername, handleApiError, ApiError, ErrorCodes, getClientIp, getMiddlewareUser } from "@/lib/api-utils"
+import { USER_LIST_SELECT, serializeList, areListsVisible } from "@/lib/lists"
+
+/**
+ * GET /api/users/:username/lists
+ * Lists shown on a profile: all of them for the owner, otherwise only public
+ * lists, and none when the owner hides lists or their profile.
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ username: string }> }
+) {
+  try {
+    const ip = getClientIp(request);
+    if (!await checkRateLimit(`profile-lists:${ip}`, 60, 60000)) {
+      throw new ApiError("Too many requests. Please wait a moment.", 429, ErrorCodes.RATE_LIMITED);
+    }
+
+    const { username } = await params
+    if (!validateUsername(username)) {
+      throw new ApiError("Invalid username format", 400, ErrorCodes.VALIDATION_ERROR);
+    }
+
+    const viewer = await getMiddlewareUser()
+
+    const targetUser = await withRetry(
+      () => prismaRead.user.findFirst({
+        where: { username: { equals: username, mode: "insensitive" } },
+        select: { id: true, privacy_settings: true },
+      }),
+      2,
+      200
+    )
+    if (!targetUser) {
+      throw new ApiError("User not found", 404, ErrorCodes.NOT_FOUND);
+    }
+
+    const isOwnProfile = viewer?.id === targetUser.id
+    if (!isOwnProfile && !areListsVisible(targetUser.privacy_settings)) {
+      return NextResponse.json({ lists: [] })
+    }
+
+    const lists = await withRetry(
+      () => prismaRead.userList.findMany({
+        where: {
+          user_id: targetUser.id,
+          ...(isOwnProfile ? {} : { is_public: true }),
+        },
+        orderBy: [{ position: "asc" }, { created_at: "asc" }],
+        select: USER_LIST_SELECT,
+      }),
+      2,
+      150
+    )
+
+    return NextResponse.json({ lists: lists.map(serializeList) })
+  } catch (error: unknown) {
+    return handleApiError(error)
+  }
+}
@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from "next/server"
+import { prisma } from "@/lib/prisma"
+import { buildFeedUrls, generateFeedToken } from "@/lib/feeds/tokens"
+import { checkRateLimit, validateOrigin, handleApiError, ApiError, ErrorCodes, getClientIp, getMiddlewareUser } from "@/lib/api-utils"
+import { logger } from "@/lib/logger"
+
+const FEED_TOKEN_SELECT = { token_prefix: true, created_at: true, last_used_at: true } as const
+
+function serialize(feedToken: { token_prefix: string; created_at: Date; last_used_at: Date | null }) {
+  return {
+    token_prefix: feedToken.token_prefix,
+    created_at: feedToken.created_at,
+    last_used_at: feedToken.last_used_at,
+  }
+}
+
+/**
+ * GET /api/users/me/feed-token
+ * The user's feed token (display prefix and usage only), or `null` when no
+ * token has been issued. Feed URLs are only returned when a token is issued.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const ip = getClientIp(request)
+    if (!await checkRateLimit(`feed-token-get:${ip}`, 60, 60000)) {
+      throw new ApiError("Too many requests. Please wait a moment.", 429, ErrorCodes.RATE_LIMITED)
+    }
+
+    const user = await getMiddlewareUser()
+    if (!user) {
+      throw new ApiError("Unauthorized", 401, ErrorCodes.UNAUTHORIZED)
+    }
+
+    const feedToken = await prisma.feedToken.findUnique({
+      where: { user_id: user.id },
+      select: FEED_TOKEN_SELECT,
+    })
+
+    return NextResponse.json({ feed_token: feedToken ? serialize(feedToken) : null })
+  } catch (error: unknown) {
+    return handleApiError(error)
+  }
+}
+
+/**
+ * POST /api/users/me/feed-token
+ * Issues a feed token, or rotates the existing one, and returns its feed URLs.
+ * This is the only time the URLs are shown. Rotation invalidates all
+ * previously shared feed URLs immediately.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    validateOrigin(request)
+
+    const ip = getClientIp(request)
+    if (!await checkRateLimit(`feed-token-rotate:${ip}`, 10, 60000)) {
+      throw new ApiError("Too many requests. Please wait a moment.", 429, ErrorCodes.RATE_LIMITED)
+    }
+
+    const user = await getMiddlewareUser()
+    if (!user) {
+      throw new ApiError("Unauthorized", 401, ErrorCodes.UNAUTHORIZED)
+    }
+
+    const { token, hash, prefix } = generateFeedToken()
+    const feedToken = await prisma.feedToken.upsert({
+      where: { user_id: user.id },
+      create: { user_id: user.id, token_hash: hash, token_prefix: prefix },
+      update: { token_hash: hash, token_prefix: prefix, created_at: new Date(), last_used_at: null },
+      select: FEED_TOKEN_SELECT,
+    })
+
+    return NextResponse.json({ feed_token: { ...serialize(feedToken), urls: buildFeedUrls(token) } }, { status: 201 })
+  } catch (error: unknown) {
+    logger.error('Feed token rotate error', { error: error instanceof Error ? error.message : String(error) })
+    return handleApiError(error)
+  }
+}
+
+/**
+ * DELETE /api/users/me/feed-token
+ * Revokes the token; all feed URLs stop working.
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    validateOrigin(request)
+
+    const ip = getClientIp(request)
+    if (!await checkRateLimit(`feed-token-revoke:${ip}`, 10, 60000)) {
+      throw new ApiError("Too many requests. Please wait a moment.", 429, ErrorCodes.RATE_LIMITED)
+    }
+
+    const user = await getMiddlewareUser()
+    if (!user) {
+      throw new ApiError("Unauthorized", 401, ErrorCodes.UNAUTHORIZED)
+    }
+
+    await prisma.feedToken.deleteMany({ where: { user_id: user.id } })
+
+    return new NextResponse(null, { status: 204 })
+  } catch (error: unknown) {
+    return handleApiError(error)
+  }
+}
@@ -1,6 +1,7 @@
 import { prisma } from "@/lib/prisma"
 import { NextRequest, NextResponse } from "next/server"
 import { checkRateLimit, validateOrigin, validateUUID, sanitizeInput, handleApiError, ApiError, getClientIp, logSecurityEvent, ErrorCodes, validateContentType, validateJsonSize, getMiddlewareUser } from "@/lib/api-utils"
+import { isWatchPeriod, WATCH_PERIODS } from "@/lib/saved-filter-alerts"
 
 export async function PATCH(
   request: NextRequest,
@@ -31,7 +32,7 @@ export async function PATCH(
       throw new ApiError("Invalid JSON body", 400, ErrorCodes.BAD_REQUEST)
     }
 
-    const { name, is_default } = body
+    const { name, is_default, watch, watch_period } = body
 
     const updateData: Record<string, any> = {
       updated_at: new Date(),
@@ -48,6 +49,29 @@ export async function PATCH(
       updateData.name = sanitizedName
     }
 
+    if (watch_period !== undefined) {
+      if (!isWatchPeriod(watch_period)) {
+        throw new ApiError(`watch_period must be one of ${WATCH_PERIODS.join(', ')}`, 400, ErrorCodes.VALIDATION_ERROR)
+      }
+      updateData.watch_period = watch_period
+    }
+
+    if (watch !== undefined) {
+      if (typeof watch !== 'boolean') {
+        throw new ApiError("watch must be a boolean", 400, ErrorCodes.VALIDATION_ERROR)
+      }
+      updateData.watch = watch
+
+      // Start the first alert window when a filter is switched to watched
+      if (watch) {
+        const existing = await prisma.savedFilter.findFirst({
+          where: { id, user_id: user.id },
+          select: { watch: true },
+        })
+        if (existing && !existing.watch) updateData.last_checked_at = new Date()
+      }
+    }
+
     if (is_default !== undefined) {
       updateData.is_default = !!is_default
 
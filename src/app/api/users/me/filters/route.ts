@@ -3,6 +3,8 @@ import { prisma } from "@/lib/prisma"
 import { FilterSchema } from "@/lib/schemas/filters"
 import { checkRateLimit, validateOrigin, sanitizeInput, handleApiError, ApiError, ErrorCodes, getClientIp, validateContentType, validateJsonSize, logSecurityEvent, getMiddlewareUser } from "@/lib/api-utils"
 import { logger } from "@/lib/logger"
+import { filterToSearchQuery, parseSearchQuery, searchQueryToFilter } from "@/lib/search/query-language"
+import { isWatchPeriod, WATCH_PERIODS } from "@/lib/saved-filter-alerts"
 
 export async function GET(request: NextRequest) {
   try {
@@ -24,7 +26,11 @@ export async function GET(request: NextRequest) {
       take: 50, // Prevent excessive data retrieval
     })
 
-    return NextResponse.json(filters || [])
+    // Each filter also comes back as a query-language string for the search box
+    return NextResponse.json((filters || []).map(filter => {
+      const payload = FilterSchema.safeParse(filter.filter_payload)
+      return { ...filter, query: payload.success ? filterToSearchQuery(payload.data) : null }
+    }))
   } catch (error: unknown) {
     return handleApiError(error)
   }
@@ -58,7 +64,8 @@ export async function POST(request: NextRequest) {
       throw new ApiError("Invalid JSON body", 400, ErrorCodes.BAD_REQUEST)
     }
 
-    const { name, payload, is_default } = body
+    const { name, query, is_default, watch, watch_period } = body
+    let { payload } = body
 
     // Validate and sanitize name
     if (!name || typeof name !== 'string') {
@@ -70,6 +77,18 @@ export async function POST(request: NextRequest) {
       throw new ApiError("Filter name must be between 1 and 100 characters", 400, ErrorCodes.VALIDATION_ERROR)
     }
 
+    // A query-language string ("genre:romance chapters:>100") can stand in for the payload
+    if (payload === undefined && query !== undefined) {
+      if (typeof query !== 'string' || query.length > 500) {
+        throw new ApiError("Query must be a string of at most 500 characters", 400, ErrorCodes.VALIDATION_ERROR)
+      }
+      const parsed = parseSearchQuery(query)
+      if (parsed.errors.length > 0) {
+        throw new ApiError(parsed.errors[0], 400, ErrorCodes.VALIDATION_ERROR)
+      }
+      payload = searchQueryToFilter(parsed)
+    }
+
     // Validate payload against FilterSchema
     const validated = FilterSchema.safeParse(payload)
     if (!validated.success) {
@@ -81,6 +100,13 @@ export async function POST(request: NextRequest) {
       validatedPayload.q = sanitizeInput(validatedPayload.q, 200)
     }
 
+    if (watch !== undefined && typeof watch !== 'boolean') {
+      throw new ApiError("watch must be a boolean", 400, ErrorCodes.VALIDATION_ERROR)
+    }
+    if (watch_period !== undefined && !isWatchPeriod(watch_period)) {
+      throw new ApiError(`watch_period must be one of ${WATCH_PERIODS.join(', ')}`, 400, ErrorCodes.VALIDATION_ERROR)
+    }
+
     // Check user hasn't exceeded max saved filters (prevent abuse)
     const count = await prisma.savedFilter.count({
       where: { user_id: user.id },
@@ -104,6 +130,10 @@ export async function POST(request: NextRequest) {
         name: sanitizedName,
         filter_payload: validatedPayload,
         is_default: !!is_default,
+        watch: !!watch,
+        ...(watch_period && { watch_period }),
+        // Alerts only cover series that show up after the filter is watched
+        ...(watch && { last_checked_at: new Date() }),
       },
     })
 
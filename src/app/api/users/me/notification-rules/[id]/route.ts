@@ -0,0 +1,115 @@
+import { NextRequest, NextResponse } from "next/server"
+import { prisma } from "@/lib/prisma"
+import { NotificationRuleType, NotificationRuleUpdateSchema, parseRuleParams } from "@/lib/schemas/notification-rules"
+import { checkRateLimit, validateOrigin, validateUUID, handleApiError, ApiError, ErrorCodes, getClientIp, validateContentType, validateJsonSize, getMiddlewareUser } from "@/lib/api-utils"
+
+/**
+ * PATCH /api/users/me/notification-rules/[id]
+ * Updates `enabled`, `params` or `type`. Params are re-validated against the
+ * resulting type; changing the type without params resets them.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    validateOrigin(request)
+    validateContentType(request)
+    await validateJsonSize(request, 16 * 1024)
+
+    const ip = getClientIp(request)
+    if (!await checkRateLimit(`notification-rules-update:${ip}`, 30, 60000)) {
+      throw new ApiError("Too many requests. Please wait a moment.", 429, ErrorCodes.RATE_LIMITED)
+    }
+
+    const user = await getMiddlewareUser()
+    if (!user) {
+      throw new ApiError("Unauthorized", 401, ErrorCodes.UNAUTHORIZED)
+    }
+
+    const { id } = await params
+    validateUUID(id, 'rule id')
+
+    let body
+    try {
+      body = await request.json()
+    } catch {
+      throw new ApiError("Invalid JSON body", 400, ErrorCodes.BAD_REQUEST)
+    }
+
+    const parsed = NotificationRuleUpdateSchema.safeParse(body)
+    if (!parsed.success) {
+      throw new ApiError(parsed.error.errors[0].message, 400, ErrorCodes.VALIDATION_ERROR)
+    }
+
+    const existing = await prisma.notificationRule.findFirst({
+      where: { id, user_id: user.id },
+      select: { type: true, params: true },
+    })
+    if (!existing) {
+      throw new ApiError("Notification rule not found", 404, ErrorCodes.NOT_FOUND)
+    }
+
+    const updateData: Record<string, unknown> = { updated_at: new Date() }
+    if (parsed.data.enabled !== undefined) {
+      updateData.enabled = parsed.data.enabled
+    }
+
+    if (parsed.data.type !== undefined || parsed.data.params !== undefined) {
+      const type = parsed.data.type ?? existing.type as NotificationRuleType
+      const typeChanged = type !== existing.type
+      const ruleParams = parseRuleParams(type, parsed.data.params ?? (typeChanged ? {} : existing.params))
+      if (!ruleParams.success) {
+        throw new ApiError(ruleParams.error.errors[0].message, 400, ErrorCodes.VALIDATION_ERROR)
+      }
+      updateData.type = type
+      updateData.params = ruleParams.data
+    }
+
+    const rule = await prisma.notificationRule.update({
+      where: { id },
+      data: updateData,
+      select: { id: true, series_id: true, type: true, params: true, enabled: true, created_at: true, updated_at: true },
+    })
+
+    return NextResponse.json(rule)
+  } catch (error: unknown) {
+    return handleApiError(error)
+  }
+}
+
+/**
+ * DELETE /api/users/me/notification-rules/[id]
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    validateOrigin(request)
+
+    const ip = getClientIp(request)
+    if (!await checkRateLimit(`notification-rules-delete:${ip}`, 30, 60000)) {
+      throw new ApiError("Too many requests. Please wait a moment.", 429, ErrorCodes.RATE_LIMITED)
+    }
+
+    const user = await getMiddlewareUser()
+    if (!user) {
+      throw new ApiError("Unauthorized", 401, ErrorCodes.UNAUTHORIZED)
+    }
+
+    const { id } = await params
+    validateUUID(id, 'rule id')
+
+    const { count } = await prisma.notificationRule.deleteMany({
+      where: { id, user_id: user.id },
+    })
+    if (count === 0) {
+      throw new ApiError("Notification rule not found", 404, ErrorCodes.NOT_FOUND)
+    }
+
+    return new NextResponse(null, { status: 204 })
+  } catch (error: unknown) {
+    return handleApiError(error)
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from "next/server"
+import { prisma } from "@/lib/prisma"
+import { NotificationRuleDryRunSchema } from "@/lib/schemas/notification-rules"
+import { dryRunNotificationRules } from "@/lib/notifications-rules"
+import { checkRateLimit, validateOrigin, handleApiError, ApiError, ErrorCodes, getClientIp, validateContentType, validateJsonSize, getMiddlewareUser } from "@/lib/api-utils"
+import { logger } from "@/lib/logger"
+
+/**
+ * POST /api/users/me/notification-rules/dry-run
+ * Shows which recently detected chapters in the user's library would have
+ * notified, been skipped, or been held for quiet hours. Uses the saved rules,
+ * or `rules` from the body to preview changes before saving them.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    validateOrigin(request)
+    validateContentType(request)
+    await validateJsonSize(request, 64 * 1024)
+
+    const ip = getClientIp(request)
+    if (!await checkRateLimit(`notification-rules-dry-run:${ip}`, 10, 60000)) {
+      throw new ApiError("Too many requests. Please wait a moment.", 429, ErrorCodes.RATE_LIMITED)
+    }
+
+    const user = await getMiddlewareUser()
+    if (!user) {
+      throw new ApiError("Unauthorized", 401, ErrorCodes.UNAUTHORIZED)
+    }
+
+    let body
+    try {
+      body = await request.json()
+    } catch {
+      throw new ApiError("Invalid JSON body", 400, ErrorCodes.BAD_REQUEST)
+    }
+
+    const parsed = NotificationRuleDryRunSchema.safeParse(body ?? {})
+    if (!parsed.success) {
+      throw new ApiError(parsed.error.errors[0].message, 400, ErrorCodes.VALIDATION_ERROR)
+    }
+
+    const { series_id, days, limit } = parsed.data
+    const rules = parsed.data.rules ?? await prisma.notificationRule.findMany({
+      where: { user_id: user.id, enabled: true },
+      select: { id: true, series_id: true, type: true, params: true },
+    })
+
+    const chapters = await dryRunNotificationRules(user.id, rules, { seriesId: series_id, days, limit })
+
+    return NextResponse.json({
+      chapters,
+      summary: {
+        notify: chapters.filter(c => c.decision === 'notify').length,
+        defer: chapters.filter(c => c.decision === 'defer').length,
+        skip: chapters.filter(c => c.decision === 'skip').length,
+      },
+    })
+  } catch (error: unknown) {
+    logger.error('Notification rule dry run error', { error: error instanceof Error ? error.message : String(error) })
+    return handleApiError(error)
+  }
+}
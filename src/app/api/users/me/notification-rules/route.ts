@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from "next/server"
+import { prisma } from "@/lib/prisma"
+import { MAX_NOTIFICATION_RULES, NotificationRuleInputSchema, parseRuleParams } from "@/lib/schemas/notification-rules"
+import { checkRateLimit, validateOrigin, handleApiError, ApiError, ErrorCodes, getClientIp, validateContentType, validateJsonSize, getMiddlewareUser } from "@/lib/api-utils"
+import { logger } from "@/lib/logger"
+
+const RULE_SELECT = {
+  id: true,
+  series_id: true,
+  type: true,
+  params: true,
+  enabled: true,
+  created_at: true,
+  updated_at: true,
+  Series: { select: { title: true } },
+} as const
+
+/**
+ * GET /api/users/me/notification-rules
+ * Lists the user's notification rules, global rules first.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const ip = getClientIp(request)
+    if (!await checkRateLimit(`notification-rules-get:${ip}`, 60, 60000)) {
+      throw new ApiError("Too many requests. Please wait a moment.", 429, ErrorCodes.RATE_LIMITED)
+    }
+
+    const user = await getMiddlewareUser()
+    if (!user) {
+      throw new ApiError("Unauthorized", 401, ErrorCodes.UNAUTHORIZED)
+    }
+
+    const rules = await prisma.notificationRule.findMany({
+      where: { user_id: user.id },
+      orderBy: [{ series_id: { sort: 'asc', nulls: 'first' } }, { created_at: 'asc' }],
+      select: RULE_SELECT,
+      take: MAX_NOTIFICATION_RULES,
+    })
+
+    return NextResponse.json({ rules })
+  } catch (error: unknown) {
+    return handleApiError(error)
+  }
+}
+
+/**
+ * POST /api/users/me/notification-rules
+ * Creates a rule for one library series (`series_id`) or for all of them.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    validateOrigin(request)
+    validateContentType(request)
+    await validateJsonSize(request, 16 * 1024)
+
+    const ip = getClientIp(request)
+    if (!await checkRateLimit(`notification-rules-create:${ip}`, 20, 60000)) {
+      throw new ApiError("Too many requests. Please wait a moment.", 429, ErrorCodes.RATE_LIMITED)
+    }
+
+    const user = await getMiddlewareUser()
+    if (!user) {
+      throw new ApiError("Unauthorized", 401, ErrorCodes.UNAUTHORIZED)
+    }
+
+    let body
+    try {
+      body = await request.json()
+    } catch {
+      throw new ApiError("Invalid JSON body", 400, ErrorCodes.BAD_REQUEST)
+    }
+
+    const parsed = NotificationRuleInputSchema.safeParse(body)
+    if (!parsed.success) {
+      throw new ApiError(parsed.error.errors[0].message, 400, ErrorCodes.VALIDATION_ERROR)
+    }
+
+    const { series_id, type, params, enabled } = parsed.data
+
+    if (series_id) {
+      const entry = await prisma.libraryEntry.findFirst({
+        where: { user_id: user.id, series_id, deleted_at: null },
+        select: { id: true },
+      })
+      if (!entry) {
+        throw new ApiError("Series is not in your library", 404, ErrorCodes.NOT_FOUND)
+      }
+    }
+
+    const count = await prisma.notificationRule.count({ where: { user_id: user.id } })
+    if (count >= MAX_NOTIFICATION_RULES) {
+      throw new ApiError(`Maximum notification rules limit reached (${MAX_NOTIFICATION_RULES})`, 400, ErrorCodes.VALIDATION_ERROR)
+    }
+
+    const rule = await prisma.notificationRule.create({
+      data: {
+        user_id: user.id,
+        series_id,
+        type,
+        // Store the parsed params so unknown keys never reach the database
+        params: parseRuleParams(type, params).data ?? {},
+        enabled,
+      },
+      select: RULE_SELECT,
+    })
+
+    return NextResponse.json(rule, { status: 201 })
+  } catch (error: unknown) {
+    logger.error('Notification rule create error', { error: error instanceof Error ? error.message : String(error) })
+    return handleApiError(error)
+  }
+}
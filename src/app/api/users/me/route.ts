@@ -5,6 +5,7 @@ import { checkRateLimit, handleApiError, ApiError, ErrorCodes, sanitizeInput, sa
 import { logger } from "@/lib/logger"
 import { z } from "zod"
 import { sanitizePrismaObject } from "@/lib/utils"
+import { RATING_SCALES } from "@/lib/ratings"
 
 const UpdateProfileSchema = z.object({
   username: z.string().min(3).max(20).regex(USERNAME_REGEX, "Username can only contain letters, numbers, underscores, and hyphens").optional(),
@@ -14,6 +15,7 @@ const UpdateProfileSchema = z.object({
     email_new_chapters: z.boolean().optional(),
     email_follows: z.boolean().optional(),
     email_achievements: z.boolean().optional(),
+    email_digest: z.boolean().optional(),
     push_enabled: z.boolean().optional(),
   }).optional(),
   privacy_settings: z.object({
@@ -22,11 +24,14 @@ const UpdateProfileSchema = z.object({
     followers_public: z.boolean().optional(),
     following_public: z.boolean().optional(),
     profile_searchable: z.boolean().optional(),
+    lists_public: z.boolean().optional(),
   }).optional(),
   safe_browsing_mode: z.enum(['sfw', 'sfw_plus', 'nsfw']).optional(),
     safe_browsing_indicator: z.enum(['toggle', 'icon', 'hidden']).optional(),
     default_source: z.string().max(50).optional().nullable(),
     notification_digest: z.enum(['immediate', 'short', 'hourly', 'daily']).optional(),
+    scrobble_auto_add: z.boolean().optional(),
+    rating_scale: z.enum(RATING_SCALES).optional(),
   })
 
 const USER_SELECT_FIELDS = {
@@ -48,6 +53,8 @@ const USER_SELECT_FIELDS = {
   safe_browsing_indicator: true,
   default_source: true,
   notification_digest: true,
+  scrobble_auto_add: true,
+  rating_scale: true,
   _count: {
     select: {
       libraryEntries: true,
@@ -280,6 +287,8 @@ export async function GET(request: NextRequest) {
       safe_browsing_indicator: dbUser.safe_browsing_indicator,
       default_source: dbUser.default_source,
       notification_digest: dbUser.notification_digest,
+      scrobble_auto_add: dbUser.scrobble_auto_add,
+      rating_scale: dbUser.rating_scale,
       library_count: dbUser._count?.libraryEntries || 0,
         followers_count: dbUser._count?.follows_follows_follower_idTousers || 0,
         following_count: dbUser._count?.follows_follows_following_idTousers || 0,
@@ -322,7 +331,7 @@ export async function PATCH(request: NextRequest) {
       throw new ApiError(validatedBody.error.errors[0].message, 400, ErrorCodes.VALIDATION_ERROR)
     }
 
-    const { username, bio, avatar_url, notification_settings, privacy_settings, safe_browsing_mode, safe_browsing_indicator, default_source, notification_digest } = validatedBody.data
+    const { username, bio, avatar_url, notification_settings, privacy_settings, safe_browsing_mode, safe_browsing_indicator, default_source, notification_digest, scrobble_auto_add, rating_scale } = validatedBody.data
 
     const updateData: Record<string, unknown> = {}
     if (username !== undefined) updateData.username = sanitizeInput(username.toLowerCase(), 20)
@@ -332,6 +341,8 @@ export async function PATCH(request: NextRequest) {
     if (safe_browsing_indicator !== undefined) updateData.safe_browsing_indicator = safe_browsing_indicator
     if (default_source !== undefined) updateData.default_source = default_source
     if (notification_digest !== undefined) updateData.notification_digest = notification_digest
+    if (scrobble_auto_add !== undefined) updateData.scrobble_auto_add = scrobble_auto_add
+    if (rating_scale !== undefined) updateData.rating_scale = rating_scale
 
     // For JSON settings, merge with existing values to avoid overwriting unset fields
     const needsSettingsMerge = notification_settings !== undefined || privacy_settings !== undefined
@@ -391,6 +402,8 @@ export async function PATCH(request: NextRequest) {
                 safe_browsing_indicator: true,
                 default_source: true,
                 notification_digest: true,
+                scrobble_auto_add: true,
+                rating_scale: true,
               },
             })
 
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server"
+import { prisma } from "@/lib/prisma"
+import { checkRateLimit, validateOrigin, handleApiError, ApiError, ErrorCodes, getClientIp, validateUUID, getMiddlewareUser } from "@/lib/api-utils"
+
+/**
+ * DELETE /api/users/me/tokens/[id]
+ * Revokes a personal access token; requests using it fail immediately.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    validateOrigin(request)
+
+    const ip = getClientIp(request)
+    if (!await checkRateLimit(`api-tokens-delete:${ip}`, 30, 60000)) {
+      throw new ApiError("Too many requests. Please wait a moment.", 429, ErrorCodes.RATE_LIMITED)
+    }
+
+    const user = await getMiddlewareUser()
+    if (!user) {
+      throw new ApiError("Unauthorized", 401, ErrorCodes.UNAUTHORIZED)
+    }
+
+    const { id } = await params
+    validateUUID(id, 'token id')
+
+    const { count } = await prisma.personalAccessToken.deleteMany({
+      where: { id, user_id: user.id },
+    })
+    if (count === 0) {
+      throw new ApiError("Token not found", 404, ErrorCodes.NOT_FOUND)
+    }
+
+    return new NextResponse(null, { status: 204 })
+  } catch (error: unknown) {
+    return handleApiError(error)
+  }
+}
@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from "next/server"
+import { prisma } from "@/lib/prisma"
+import { ApiTokenInputSchema } from "@/lib/schemas/api-tokens"
+import { API_TOKEN_SELECT, MAX_API_TOKENS, generateApiToken } from "@/lib/api-tokens"
+import { checkRateLimit, validateOrigin, handleApiError, ApiError, ErrorCodes, getClientIp, validateContentType, validateJsonSize, getMiddlewareUser } from "@/lib/api-utils"
+import { logger } from "@/lib/logger"
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * GET /api/users/me/tokens
+ * Lists the user's personal access tokens. Only the display prefix of each
+ * token is returned; the full value is shown once, on creation.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const ip = getClientIp(request)
+    if (!await checkRateLimit(`api-tokens-get:${ip}`, 60, 60000)) {
+      throw new ApiError("Too many requests. Please wait a moment.", 429, ErrorCodes.RATE_LIMITED)
+    }
+
+    const user = await getMiddlewareUser()
+    if (!user) {
+      throw new ApiError("Unauthorized", 401, ErrorCodes.UNAUTHORIZED)
+    }
+
+    const tokens = await prisma.personalAccessToken.findMany({
+      where: { user_id: user.id },
+      orderBy: { created_at: 'desc' },
+      select: API_TOKEN_SELECT,
+      take: MAX_API_TOKENS,
+    })
+
+    return NextResponse.json({ tokens })
+  } catch (error: unknown) {
+    return handleApiError(error)
+  }
+}
+
+/**
+ * POST /api/users/me/tokens
+ * Creates a scoped token. Body: { name, scopes, expires_in_days? }.
+ * The response carries the plaintext `token`, which can't be retrieved later.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    validateOrigin(request)
+    validateContentType(request)
+    await validateJsonSize(request, 4 * 1024)
+
+    const ip = getClientIp(request)
+    if (!await checkRateLimit(`api-tokens-create:${ip}`, 10, 60000)) {
+      throw new ApiError("Too many requests. Please wait a moment.", 429, ErrorCodes.RATE_LIMITED)
+    }
+
+    const user = await getMiddlewareUser()
+    if (!user) {
+      throw new ApiError("Unauthorized", 401, ErrorCodes.UNAUTHORIZED)
+    }
+
+    let body
+    try {
+      body = await request.json()
+    } catch {
+      throw new ApiError("Invalid JSON body", 400, ErrorCodes.BAD_REQUEST)
+    }
+
+    const parsed = ApiTokenInputSchema.safeParse(body)
+    if (!parsed.success) {
+      throw new ApiError(parsed.error.errors[0].message, 400, ErrorCodes.VALIDATION_ERROR)
+    }
+
+    const count = await prisma.personalAccessToken.count({ where: { user_id: user.id } })
+    if (count >= MAX_API_TOKENS) {
+      throw new ApiError(`Maximum access tokens limit reached (${MAX_API_TOKENS})`, 400, ErrorCodes.VALIDATION_ERROR)
+    }
+
+    const { name, scopes, expires_in_days } = parsed.data
+    const { token, hash, prefix } = generateApiToken()
+    const created = await prisma.personalAccessToken.create({
+      data: {
+        user_id: user.id,
+        name,
+        scopes,
+        token_hash: hash,
+        token_prefix: prefix,
+        expires_at: expires_in_days ? new Date(Date.now() + expires_in_days * DAY_MS) : null,
+      },
+      select: API_TOKEN_SELECT,
+    })
+
+    return NextResponse.json({ ...created, token }, { status: 201 })
+  } catch (error: unknown) {
+    logger.error('Access token create error', { error: error instanceof Error ? error.message : String(error) })
+    return handleApiError(error)
+  }
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from "next/server"
+import { prisma } from "@/lib/prisma"
+import { redeliverWebhook } from "@/lib/webhooks/delivery"
+import { checkRateLimit, validateOrigin, validateUUID, handleApiError, ApiError, ErrorCodes, getClientIp, getMiddlewareUser } from "@/lib/api-utils"
+import { logger } from "@/lib/logger"
+
+/**
+ * POST /api/users/me/webhooks/[id]/deliveries/[deliveryId]/redeliver
+ * Queues the logged event again as a new delivery.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; deliveryId: string }> }
+) {
+  try {
+    validateOrigin(request)
+
+    const ip = getClientIp(request)
+    if (!await checkRateLimit(`webhook-redeliver:${ip}`, 10, 60000)) {
+      throw new ApiError("Too many requests. Please wait a moment.", 429, ErrorCodes.RATE_LIMITED)
+    }
+
+    const user = await getMiddlewareUser()
+    if (!user) {
+      throw new ApiError("Unauthorized", 401, ErrorCodes.UNAUTHORIZED)
+    }
+
+    const { id, deliveryId } = await params
+    validateUUID(id, 'webhook id')
+    validateUUID(deliveryId, 'delivery id')
+
+    const delivery = await prisma.webhookDelivery.findFirst({
+      where: { id: deliveryId, endpoint_id: id, user_id: user.id },
+      select: {
+        endpoint_id: true,
+        user_id: true,
+        event: true,
+        payload: true,
+        WebhookEndpoint: { select: { enabled: true } },
+      },
+    })
+    if (!delivery) {
+      throw new ApiError("Delivery not found", 404, ErrorCodes.NOT_FOUND)
+    }
+    if (!delivery.WebhookEndpoint.enabled) {
+      throw new ApiError("Enable the webhook before redelivering", 409, ErrorCodes.CONFLICT)
+    }
+
+    const redelivery = await redeliverWebhook(delivery)
+
+    return NextResponse.json(redelivery, { status: 202 })
+  } catch (error: unknown) {
+    logger.error('Webhook redeliver error', { error: error instanceof Error ? error.message : String(error) })
+    return handleApiError(error)
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server"
+import { prisma } from "@/lib/prisma"
+import { checkRateLimit, validateUUID, handleApiError, ApiError, ErrorCodes, getClientIp, getMiddlewareUser } from "@/lib/api-utils"
+
+const DELIVERY_LOG_LIMIT = 50
+
+/**
+ * GET /api/users/me/webhooks/[id]/deliveries
+ * The endpoint's most recent deliveries, newest first.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const ip = getClientIp(request)
+    if (!await checkRateLimit(`webhook-deliveries-get:${ip}`, 60, 60000)) {
+      throw new ApiError("Too many requests. Please wait a moment.", 429, ErrorCodes.RATE_LIMITED)
+    }
+
+    const user = await getMiddlewareUser()
+    if (!user) {
+      throw new ApiError("Unauthorized", 401, ErrorCodes.UNAUTHORIZED)
+    }
+
+    const { id } = await params
+    validateUUID(id, 'webhook id')
+
+    const endpoint = await prisma.webhookEndpoint.findFirst({
+      where: { id, user_id: user.id },
+      select: { id: true },
+    })
+    if (!endpoint) {
+      throw new ApiError("Webhook not found", 404, ErrorCodes.NOT_FOUND)
+    }
+
+    const deliveries = await prisma.webhookDelivery.findMany({
+      where: { endpoint_id: id },
+      orderBy: { created_at: 'desc' },
+      take: DELIVERY_LOG_LIMIT,
+      select: {
+        id: true,
+        event: true,
+        payload: true,
+        status: true,
+        attempts: true,
+        response_status: true,
+        error: true,
+        created_at: true,
+        delivered_at: true,
+      },
+    })
+
+    return NextResponse.json({ deliveries })
+  } catch (error: unknown) {
+    return handleApiError(error)
+  }
+}
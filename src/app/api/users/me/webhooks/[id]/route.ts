@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from "next/server"
+import { prisma } from "@/lib/prisma"
+import { WebhookEndpointUpdateSchema } from "@/lib/schemas/webhooks"
+import { WEBHOOK_ENDPOINT_SELECT } from "@/lib/webhooks/delivery"
+import { generateWebhookSecret } from "@/lib/webhooks/signing"
+import { checkRateLimit, validateOrigin, validateUUID, handleApiError, ApiError, ErrorCodes, getClientIp, validateContentType, validateJsonSize, getMiddlewareUser } from "@/lib/api-utils"
+
+/**
+ * PATCH /api/users/me/webhooks/[id]
+ * Updates the URL, format, events or `enabled`. Re-enabling clears the
+ * failure count; `rotate_secret: true` returns a new signing secret.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    validateOrigin(request)
+    validateContentType(request)
+    await validateJsonSize(request, 8 * 1024)
+
+    const ip = getClientIp(request)
+    if (!await checkRateLimit(`webhooks-update:${ip}`, 30, 60000)) {
+      throw new ApiError("Too many requests. Please wait a moment.", 429, ErrorCodes.RATE_LIMITED)
+    }
+
+    const user = await getMiddlewareUser()
+    if (!user) {
+      throw new ApiError("Unauthorized", 401, ErrorCodes.UNAUTHORIZED)
+    }
+
+    const { id } = await params
+    validateUUID(id, 'webhook id')
+
+    let body
+    try {
+      body = await request.json()
+    } catch {
+      throw new ApiError("Invalid JSON body", 400, ErrorCodes.BAD_REQUEST)
+    }
+
+    const parsed = WebhookEndpointUpdateSchema.safeParse(body)
+    if (!parsed.success) {
+      throw new ApiError(parsed.error.errors[0].message, 400, ErrorCodes.VALIDATION_ERROR)
+    }
+
+    const existing = await prisma.webhookEndpoint.findFirst({
+      where: { id, user_id: user.id },
+      select: { id: true },
+    })
+    if (!existing) {
+      throw new ApiError("Webhook not found", 404, ErrorCodes.NOT_FOUND)
+    }
+
+    const { rotate_secret, ...changes } = parsed.data
+    const updateData: Record<string, unknown> = { ...changes, updated_at: new Date() }
+    if (changes.enabled) {
+      updateData.failure_count = 0
+    }
+    if (rotate_secret) {
+      updateData.secret = generateWebhookSecret()
+    }
+
+    const webhook = await prisma.webhookEndpoint.update({
+      where: { id },
+      data: updateData,
+      select: { ...WEBHOOK_ENDPOINT_SELECT, secret: !!rotate_secret },
+    })
+
+    return NextResponse.json(webhook)
+  } catch (error: unknown) {
+    return handleApiError(error)
+  }
+}
+
+/**
+ * DELETE /api/users/me/webhooks/[id]
+ * Removes the endpoint and its delivery log.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    validateOrigin(request)
+
+    const ip = getClientIp(request)
+    if (!await checkRateLimit(`webhooks-delete:${ip}`, 30, 60000)) {
+      throw new ApiError("Too many requests. Please wait a moment.", 429, ErrorCodes.RATE_LIMITED)
+    }
+
+    const user = await getMiddlewareUser()
+    if (!user) {
+      throw new ApiError("Unauthorized", 401, ErrorCodes.UNAUTHORIZED)
+    }
+
+    const { id } = await params
+    validateUUID(id, 'webhook id')
+
+    const { count } = await prisma.webhookEndpoint.deleteMany({
+      where: { id, user_id: user.id },
+    })
+    if (count === 0) {
+      throw new ApiError("Webhook not found", 404, ErrorCodes.NOT_FOUND)
+    }
+
+    return new NextResponse(null, { status: 204 })
+  } catch (error: unknown) {
+    return handleApiError(error)
+  }
+}
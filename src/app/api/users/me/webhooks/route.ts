@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from "next/server"
+import { prisma } from "@/lib/prisma"
+import { WebhookEndpointInputSchema } from "@/lib/schemas/webhooks"
+import { MAX_WEBHOOK_ENDPOINTS, WEBHOOK_ENDPOINT_SELECT } from "@/lib/webhooks/delivery"
+import { generateWebhookSecret } from "@/lib/webhooks/signing"
+import { checkRateLimit, validateOrigin, handleApiError, ApiError, ErrorCodes, getClientIp, validateContentType, validateJsonSize, getMiddlewareUser } from "@/lib/api-utils"
+import { logger } from "@/lib/logger"
+
+/**
+ * GET /api/users/me/webhooks
+ * Lists the user's webhook endpoints. Signing secrets are only returned when
+ * they are issued (on create and rotation).
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const ip = getClientIp(request)
+    if (!await checkRateLimit(`webhooks-get:${ip}`, 60, 60000)) {
+      throw new ApiError("Too many requests. Please wait a moment.", 429, ErrorCodes.RATE_LIMITED)
+    }
+
+    const user = await getMiddlewareUser()
+    if (!user) {
+      throw new ApiError("Unauthorized", 401, ErrorCodes.UNAUTHORIZED)
+    }
+
+    const webhooks = await prisma.webhookEndpoint.findMany({
+      where: { user_id: user.id },
+      orderBy: { created_at: 'asc' },
+      select: WEBHOOK_ENDPOINT_SELECT,
+      take: MAX_WEBHOOK_ENDPOINTS,
+    })
+
+    return NextResponse.json({ webhooks })
+  } catch (error: unknown) {
+    return handleApiError(error)
+  }
+}
+
+/**
+ * POST /api/users/me/webhooks
+ * Registers an endpoint. `format` picks the body preset (generic, discord or
+ * slack); the response carries the signing secret.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    validateOrigin(request)
+    validateContentType(request)
+    await validateJsonSize(request, 8 * 1024)
+
+    const ip = getClientIp(request)
+    if (!await checkRateLimit(`webhooks-create:${ip}`, 10, 60000)) {
+      throw new ApiError("Too many requests. Please wait a moment.", 429, ErrorCodes.RATE_LIMITED)
+    }
+
+    const user = await getMiddlewareUser()
+    if (!user) {
+      throw new ApiError("Unauthorized", 401, ErrorCodes.UNAUTHORIZED)
+    }
+
+    let body
+    try {
+      body = await request.json()
+    } catch {
+      throw new ApiError("Invalid JSON body", 400, ErrorCodes.BAD_REQUEST)
+    }
+
+    const parsed = WebhookEndpointInputSchema.safeParse(body)
+    if (!parsed.success) {
+      throw new ApiError(parsed.error.errors[0].message, 400, ErrorCodes.VALIDATION_ERROR)
+    }
+
+    const count = await prisma.webhookEndpoint.count({ where: { user_id: user.id } })
+    if (count >= MAX_WEBHOOK_ENDPOINTS) {
+      throw new ApiError(`Maximum webhooks limit reached (${MAX_WEBHOOK_ENDPOINTS})`, 400, ErrorCodes.VALIDATION_ERROR)
+    }
+
+    const webhook = await prisma.webhookEndpoint.create({
+      data: {
+        user_id: user.id,
+        ...parsed.data,
+        secret: generateWebhookSecret(),
+      },
+      select: { ...WEBHOOK_ENDPOINT_SELECT, secret: true },
+    })
+
+    return NextResponse.json(webhook, { status: 201 })
+  } catch (error: unknown) {
+    logger.error('Webhook create error', { error: error instanceof Error ? error.message : String(error) })
+    return handleApiError(error)
+  }
+}
@@ -3,6 +3,8 @@
 import { useEffect, useRef, useCallback } from "react"
 import { useRouter, usePathname } from "next/navigation"
 import { createClient } from "@/lib/supabase/client"
+import { clearOfflineData } from "@/lib/sync/offline-library"
+import { unsubscribeFromPush } from "@/lib/push/client"
 
 const SESSION_TIMEOUT_MS = 60 * 60 * 1000 // 1 hour in milliseconds
 
@@ -21,7 +23,9 @@ export function AuthSessionProvider({ children }: AuthSessionProviderProps) {
 
   const handleLogout = useCallback(async () => {
     const supabase = createClient()
+    await unsubscribeFromPush()
     await supabase.auth.signOut()
+    await clearOfflineData()
     router.push("/login?message=" + encodeURIComponent("Session expired. Please log in again."))
   }, [router])
 
@@ -20,6 +20,7 @@ import {
   Search,
   Shield,
   Sparkles,
+  ListOrdered,
 } from "lucide-react"
 
 import {
@@ -46,6 +47,8 @@ import {
 } from "@/components/ui/dropdown-menu"
 import { Skeleton } from "@/components/ui/skeleton"
 import { logout } from "@/app/auth/auth-actions"
+import { clearOfflineData } from "@/lib/sync/offline-library"
+import { unsubscribeFromPush } from "@/lib/push/client"
 import { useCurrentUser, type CurrentUser } from "@/lib/hooks/use-current-user"
 
 const data = {
@@ -55,6 +58,11 @@ const data = {
       url: "/library",
       icon: BookOpen,
     },
+    {
+      title: "Lists",
+      url: "/lists",
+      icon: ListOrdered,
+    },
     {
       title: "Browse",
       url: "/browse",
@@ -116,6 +124,17 @@ function UserAvatar({ user, size = "md" }: { user: CurrentUser | null; size?: "s
   )
 }
 
+async function handleLogout() {
+  // Drop this browser's push subscription while the session can still authorize it
+  try {
+    await unsubscribeFromPush()
+  } catch {
+    // Logging out goes ahead regardless
+  }
+  await clearOfflineData()
+  await logout()
+}
+
 export function AppSidebar({ ...props }: React.ComponentProps<typeof Sidebar>) {
   const pathname = usePathname()
   const { user, loading, error } = useCurrentUser()
@@ -346,7 +365,7 @@ export function AppSidebar({ ...props }: React.ComponentProps<typeof Sidebar>) {
                     </>
                   )}
                   <DropdownMenuItem asChild>
-                    <form action={logout} className="w-full">
+                    <form action={handleLogout} className="w-full">
                       <button type="submit" className="flex w-full items-center text-red-600 dark:text-red-400">
                         <LogOut className="size-4 mr-2" />
                         Log out
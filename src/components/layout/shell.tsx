@@ -3,6 +3,7 @@ import { AppSidebar } from "./app-sidebar"
 import { Separator } from "@/components/ui/separator"
 import { Breadcrumb, BreadcrumbItem, BreadcrumbLink, BreadcrumbList, BreadcrumbPage, BreadcrumbSeparator } from "@/components/ui/breadcrumb"
 import { SafeBrowsingIndicator } from "./safe-browsing-indicator"
+import { SyncProvider } from "@/components/sync-provider"
 
 export function Shell({ children }: { children: React.ReactNode }) {
   return (
@@ -31,7 +32,7 @@ export function Shell({ children }: { children: React.ReactNode }) {
         </header>
         {/* Use div instead of main to avoid nested <main> tags - SidebarInset already renders <main> */}
         <div className="flex-1 overflow-auto bg-white dark:bg-zinc-950">
-          {children}
+          <SyncProvider>{children}</SyncProvider>
         </div>
       </SidebarInset>
     </SidebarProvider>
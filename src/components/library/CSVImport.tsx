@@ -41,7 +41,7 @@ export function CSVImport({ onComplete }: { onComplete?: () => void }) {
         
 setStatus(prev => ({
             ...prev,
-            status: job.status === "completed" ? "completed" : "processing",
+            status: job.status === "completed" || job.status === "needs_review" ? "completed" : "processing",
             processed: job.processed_items,
             matched: job.matched_items,
             failed: job.failed_items,
@@ -49,9 +49,15 @@ setStatus(prev => ({
             missingProgress: prev.missingProgress
           }))
 
-        if (job.status === "completed") {
+        if (job.status === "completed" || job.status === "needs_review") {
           clearInterval(interval)
-          toast.success("Import completed!")
+          if (job.status === "needs_review") {
+            // Low-confidence matches are held until the user reviews them
+            toast.info("Import finished. Some matches need your review.")
+            setShowResults(true)
+          } else {
+            toast.success("Import completed!")
+          }
           if (onComplete) onComplete()
         }
       } catch (err: unknown) {
@@ -1,8 +1,9 @@
 "use client"
 
 import { useState, useEffect, useCallback, useRef } from "react"
-import { CheckCircle2, AlertCircle, Search, ChevronRight, ExternalLink, Loader2, Download, FileText } from "lucide-react"
+import { CheckCircle2, AlertCircle, Search, ChevronRight, ExternalLink, Loader2, Download, FileText, HelpCircle } from "lucide-react"
 import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
 import { Progress } from "@/components/ui/progress"
 import { Badge } from "@/components/ui/badge"
 import { Card, CardContent } from "@/components/ui/card"
@@ -19,10 +20,19 @@ import { toast } from "sonner"
  *   - Now debounces retry/download actions
  */
 
+interface ReviewCandidate {
+  series_id: string
+  title: string
+  cover_url: string | null
+  type: string | null
+  status: string | null
+  similarity: number
+}
+
 interface ImportItem {
   id: string
   title: string
-  status: "PENDING" | "SUCCESS" | "FAILED"
+  status: "PENDING" | "SUCCESS" | "FAILED" | "NEEDS_REVIEW"
   reason_code: string | null
   reason_message: string | null
   series_id: string | null
@@ -33,6 +43,10 @@ interface ImportItem {
     status: string | null
     type: string | null
   } | null // Bug 44: Series can be null
+  review?: {
+    confidence: "medium" | "none"
+    candidates: ReviewCandidate[]
+  } | null
 }
 
 interface ImportJob {
@@ -120,10 +134,125 @@ function useDebounce<T extends (...args: unknown[]) => unknown>(
   return { debouncedFn, isPending };
 }
 
+/**
+ * Review controls for an item held by the import pipeline:
+ * pick one of the suggested candidates, search manually, or skip.
+ */
+function ImportReviewItem({
+  jobId,
+  item,
+  onResolved,
+}: {
+  jobId: string
+  item: ImportItem
+  onResolved: (itemId: string, outcome: "SUCCESS" | "FAILED", jobStatus: string) => void
+}) {
+  const [query, setQuery] = useState(item.title)
+  const [searchResults, setSearchResults] = useState<ReviewCandidate[] | null>(null)
+  const [searching, setSearching] = useState(false)
+  const [submitting, setSubmitting] = useState<string | null>(null)
+
+  const candidates = searchResults ?? item.review?.candidates ?? []
+
+  async function search() {
+    if (query.trim().length < 2) return
+    setSearching(true)
+    try {
+      const params = new URLSearchParams({ jobId, itemId: item.id, q: query.trim() })
+      const res = await fetch(`/api/library/import/results?${params}`)
+      const json = await res.json()
+      if (!res.ok) throw new Error(json.error?.message || "Search failed")
+      setSearchResults(json.candidates)
+    } catch (error: unknown) {
+      toast.error(error instanceof Error ? error.message : "Search failed")
+    } finally {
+      setSearching(false)
+    }
+  }
+
+  async function resolve(action: "pick" | "skip", seriesId?: string) {
+    setSubmitting(seriesId || action)
+    try {
+      const res = await fetch("/api/library/import/results", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(action === "pick" ? { action, item_id: item.id, series_id: seriesId } : { action, item_id: item.id }),
+      })
+      const json = await res.json()
+      if (!res.ok) throw new Error(json.error?.message || "Failed to save review")
+      onResolved(item.id, action === "pick" ? "SUCCESS" : "FAILED", json.job_status)
+    } catch (error: unknown) {
+      toast.error(error instanceof Error ? error.message : "Failed to save review")
+    } finally {
+      setSubmitting(null)
+    }
+  }
+
+  return (
+    <div className="ml-16 mb-2 space-y-2">
+      {candidates.length > 0 ? (
+        <div className="space-y-1">
+          {candidates.map((candidate) => (
+            <div key={candidate.series_id} className="flex items-center gap-3 p-2 rounded-xl bg-zinc-50 dark:bg-zinc-900">
+              <div className="relative size-9 rounded-lg overflow-hidden bg-zinc-100 dark:bg-zinc-800 shrink-0">
+                {candidate.cover_url && (
+                  <Image src={candidate.cover_url} alt={candidate.title} fill className="object-cover" />
+                )}
+              </div>
+              <div className="flex-1 min-w-0">
+                <p className="text-xs font-bold truncate">{candidate.title}</p>
+                <p className="text-[10px] text-zinc-500">
+                  {Math.round(candidate.similarity * 100)}% match
+                  {candidate.type && ` · ${candidate.type}`}
+                </p>
+              </div>
+              <Button
+                size="sm"
+                variant="outline"
+                className="h-7 rounded-full text-[10px] font-bold"
+                disabled={submitting !== null}
+                onClick={() => resolve("pick", candidate.series_id)}
+              >
+                {submitting === candidate.series_id ? <Loader2 className="size-3 animate-spin" /> : "This one"}
+              </Button>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-xs text-zinc-500">
+          {searchResults ? "No series found for this search." : "No likely matches found."}
+        </p>
+      )}
+
+      <div className="flex items-center gap-2">
+        <Input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={(e) => { if (e.key === "Enter") search() }}
+          placeholder="Search for the right series"
+          className="h-8 text-xs rounded-full"
+        />
+        <Button size="sm" variant="ghost" className="h-8 rounded-full" onClick={search} disabled={searching}>
+          {searching ? <Loader2 className="size-4 animate-spin" /> : <Search className="size-4" />}
+        </Button>
+        <Button
+          size="sm"
+          variant="ghost"
+          className="h-8 rounded-full text-xs text-zinc-500"
+          disabled={submitting !== null}
+          onClick={() => resolve("skip")}
+        >
+          Skip
+        </Button>
+      </div>
+    </div>
+  )
+}
+
 export function ImportResultsDetail({ jobId, onBack }: { jobId: string, onBack?: () => void }) {
   const [data, setData] = useState<{ job: ImportJob, items: ImportItem[] } | null>(null)
   const [loading, setLoading] = useState(true)
-  const [filter, setFilter] = useState<"all" | "SUCCESS" | "FAILED">("all")
+  const [filter, setFilter] = useState<"all" | "SUCCESS" | "FAILED" | "NEEDS_REVIEW">("all")
   const [downloading, setDownloading] = useState(false)
 
   useEffect(() => {
@@ -143,8 +272,8 @@ export function ImportResultsDetail({ jobId, onBack }: { jobId: string, onBack?:
 
     fetchResults()
     
-    // If job is still processing, poll it
-    if (data && data.job.status !== "completed") {
+    // If job is still processing, poll it (jobs awaiting review wait on the user, not the worker)
+    if (data && data.job.status !== "completed" && data.job.status !== "needs_review") {
       const interval = setInterval(fetchResults, 3000)
       return () => clearInterval(interval)
     }
@@ -193,6 +322,23 @@ export function ImportResultsDetail({ jobId, onBack }: { jobId: string, onBack?:
   if (!data) return null
 
   const filteredItems = data.items.filter(item => filter === "all" || item.status === filter)
+  const reviewCount = data.items.filter(item => item.status === "NEEDS_REVIEW").length
+
+  const handleResolved = (itemId: string, outcome: "SUCCESS" | "FAILED", jobStatus: string) => {
+    setData(prev => prev && {
+      job: {
+        ...prev.job,
+        status: jobStatus,
+        matched_items: prev.job.matched_items + (outcome === "SUCCESS" ? 1 : 0),
+        failed_items: prev.job.failed_items + (outcome === "FAILED" ? 1 : 0),
+      },
+      items: prev.items.map(item => item.id === itemId
+        ? { ...item, status: outcome, review: null, reason_message: outcome === "SUCCESS" ? "Matched during review." : "Skipped during review." }
+        : item
+      ),
+    })
+    if (jobStatus === "completed") toast.success("Review complete!")
+  }
 
   return (
     <div className="space-y-6">
@@ -245,6 +391,18 @@ export function ImportResultsDetail({ jobId, onBack }: { jobId: string, onBack?:
         </Card>
       </div>
 
+      {reviewCount > 0 && (
+        <div className="bg-amber-50 dark:bg-amber-950/20 border border-amber-200 dark:border-amber-900/30 rounded-2xl p-4 flex items-center gap-3">
+          <HelpCircle className="size-5 text-amber-600 shrink-0" />
+          <p className="flex-1 text-xs text-amber-800 dark:text-amber-400">
+            {reviewCount} {reviewCount === 1 ? "item needs" : "items need"} your review before being added to your library.
+          </p>
+          <Button size="sm" variant="outline" className="rounded-full h-7 text-xs" onClick={() => setFilter("NEEDS_REVIEW")}>
+            Review
+          </Button>
+        </div>
+      )}
+
       <div className="space-y-4">
         <div className="flex items-center gap-2 overflow-x-auto pb-2">
           <Button 
@@ -271,6 +429,16 @@ export function ImportResultsDetail({ jobId, onBack }: { jobId: string, onBack?:
           >
             Failed
           </Button>
+          {reviewCount > 0 && (
+            <Button 
+              variant={filter === "NEEDS_REVIEW" ? "default" : "outline"} 
+              size="sm" 
+              onClick={() => setFilter("NEEDS_REVIEW")}
+              className="rounded-full text-amber-600"
+            >
+              Needs Review
+            </Button>
+          )}
         </div>
 
         <ScrollArea className="h-[400px] rounded-3xl border border-zinc-100 dark:border-zinc-800 p-4">
@@ -280,8 +448,8 @@ export function ImportResultsDetail({ jobId, onBack }: { jobId: string, onBack?:
               const safeData = getSafeSeriesData(item);
               
               return (
+                <div key={item.id}>
                 <div 
-                  key={item.id} 
                   className="flex items-center gap-4 p-3 rounded-2xl hover:bg-zinc-50 dark:hover:bg-zinc-900 transition-colors group"
                 >
                   <div className="relative size-12 rounded-xl overflow-hidden bg-zinc-100 dark:bg-zinc-800 shrink-0">
@@ -298,6 +466,8 @@ export function ImportResultsDetail({ jobId, onBack }: { jobId: string, onBack?:
                           <CheckCircle2 className="size-5 text-green-500" />
                         ) : item.status === 'FAILED' ? (
                           <AlertCircle className="size-5 text-red-500" />
+                        ) : item.status === 'NEEDS_REVIEW' ? (
+                          <HelpCircle className="size-5 text-amber-500" />
                         ) : (
                           <FileText className="size-5 text-zinc-400" />
                         )}
@@ -315,6 +485,7 @@ export function ImportResultsDetail({ jobId, onBack }: { jobId: string, onBack?:
                         )}
                         {item.status === 'FAILED' && <Badge className="bg-red-100 text-red-700 hover:bg-red-100 border-none text-[10px]">Failed</Badge>}
                         {item.status === 'PENDING' && <Badge className="bg-yellow-100 text-yellow-700 hover:bg-yellow-100 border-none text-[10px]">Pending</Badge>}
+                        {item.status === 'NEEDS_REVIEW' && <Badge className="bg-amber-100 text-amber-700 hover:bg-amber-100 border-none text-[10px]">Needs Review</Badge>}
                         {/* Bug 44: Show indicator when series is missing */}
                         {!safeData.exists && item.status === 'SUCCESS' && (
                           <Badge className="bg-orange-100 text-orange-700 hover:bg-orange-100 border-none text-[10px]">
@@ -328,7 +499,7 @@ export function ImportResultsDetail({ jobId, onBack }: { jobId: string, onBack?:
                   </div>
 
                   {/* Bug 44: Only show link if series exists */}
-                  {safeData.seriesId && safeData.exists && (
+                  {safeData.seriesId && safeData.exists && item.status !== 'NEEDS_REVIEW' && (
                     <Link href={`/series/${safeData.seriesId}`}>
                       <Button variant="ghost" size="icon" className="rounded-full opacity-0 group-hover:opacity-100 transition-opacity">
                         <ExternalLink className="size-4" />
@@ -336,6 +507,10 @@ export function ImportResultsDetail({ jobId, onBack }: { jobId: string, onBack?:
                     </Link>
                   )}
                 </div>
+                {item.status === 'NEEDS_REVIEW' && (
+                  <ImportReviewItem jobId={jobId} item={item} onResolved={handleResolved} />
+                )}
+                </div>
               );
             })}
 
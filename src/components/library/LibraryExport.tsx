@@ -0,0 +1,145 @@
+"use client"
+
+import { useState, useCallback, useEffect } from "react"
+import { Button } from "@/components/ui/button"
+import { Download, Loader2, AlertCircle, Clock } from "lucide-react"
+import { toast } from "sonner"
+
+type ExportFormat = "csv" | "json" | "xml"
+
+interface ExportJob {
+  id: string
+  format: ExportFormat
+  status: "pending" | "processing" | "completed" | "failed" | "expired"
+  total_entries: number | null
+  file_size_bytes: number | null
+  error_message: string | null
+  created_at: string
+  expires_at: string | null
+  download_url: string | null
+}
+
+const FORMAT_LABELS: Record<ExportFormat, string> = {
+  csv: "CSV",
+  json: "JSON",
+  xml: "MAL XML",
+}
+
+function formatBytes(bytes: number | null) {
+  if (!bytes) return ""
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+export function LibraryExport() {
+  const [jobs, setJobs] = useState<ExportJob[]>([])
+  const [requesting, setRequesting] = useState<ExportFormat | null>(null)
+
+  const loadJobs = useCallback(async () => {
+    try {
+      const res = await fetch("/api/library/export")
+      if (!res.ok) return
+      setJobs(await res.json())
+    } catch (err: unknown) {
+      console.error("Failed to load exports:", err)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadJobs()
+  }, [loadJobs])
+
+  // Poll while any export is still being generated
+  useEffect(() => {
+    const inFlight = jobs.some(j => j.status === "pending" || j.status === "processing")
+    if (!inFlight) return
+    const interval = setInterval(loadJobs, 3000)
+    return () => clearInterval(interval)
+  }, [jobs, loadJobs])
+
+  async function requestExport(format: ExportFormat) {
+    setRequesting(format)
+    try {
+      const res = await fetch("/api/library/export", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ format }),
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        throw new Error(data.error?.message || "Failed to start export")
+      }
+      toast.success(`${FORMAT_LABELS[format]} export started`)
+      await loadJobs()
+    } catch (error: unknown) {
+      toast.error(error instanceof Error ? error.message : "Failed to start export")
+    } finally {
+      setRequesting(null)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-2">
+        {(Object.keys(FORMAT_LABELS) as ExportFormat[]).map(format => (
+          <Button
+            key={format}
+            type="button"
+            variant="outline"
+            className="rounded-full"
+            onClick={() => requestExport(format)}
+            disabled={requesting !== null}
+          >
+            {requesting === format ? (
+              <Loader2 className="size-4 mr-2 animate-spin" />
+            ) : (
+              <Download className="size-4 mr-2" />
+            )}
+            {FORMAT_LABELS[format]}
+          </Button>
+        ))}
+      </div>
+
+      {jobs.length > 0 && (
+        <ul className="divide-y divide-zinc-100 dark:divide-zinc-800">
+          {jobs.map(job => (
+            <li key={job.id} className="flex items-center justify-between py-2 text-xs">
+              <div className="space-y-0.5">
+                <p className="font-bold">
+                  {FORMAT_LABELS[job.format]}
+                  <span className="font-normal text-zinc-500 ml-2">
+                    {new Date(job.created_at).toLocaleString()}
+                  </span>
+                </p>
+                {job.status === "completed" && (
+                  <p className="text-zinc-500">
+                    {job.total_entries ?? 0} entries · {formatBytes(job.file_size_bytes)}
+                    {job.expires_at && ` · available until ${new Date(job.expires_at).toLocaleDateString()}`}
+                  </p>
+                )}
+                {job.status === "failed" && (
+                  <p className="text-red-500 flex items-center gap-1">
+                    <AlertCircle className="size-3" /> {job.error_message || "Export failed"}
+                  </p>
+                )}
+                {job.status === "expired" && (
+                  <p className="text-zinc-400 flex items-center gap-1">
+                    <Clock className="size-3" /> Expired
+                  </p>
+                )}
+              </div>
+              {job.download_url ? (
+                <Button asChild variant="link" className="p-0 h-auto text-xs font-bold">
+                  <a href={job.download_url}>Download</a>
+                </Button>
+              ) : (job.status === "pending" || job.status === "processing") ? (
+                <Loader2 className="size-4 animate-spin text-zinc-400" />
+              ) : null}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -8,6 +8,9 @@ import { toast } from "sonner"
 import { Progress } from "@/components/ui/progress"
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip"
 import { ImportResultsDetail } from "./ImportResultsDetail"
+import { parseKenmeiCSV, parseMangaUpdatesList } from "@/lib/sync/platform-parsers"
+import { isGzipped, parseTachiyomiBackup } from "@/lib/sync/tachiyomi-backup"
+import { anilistScoreToCanonical, malScoreToCanonical, resolveAniListScoreFormat } from "@/lib/ratings"
 
 interface ImportStatus {
   status: "idle" | "parsing" | "uploading" | "processing" | "completed" | "error"
@@ -18,7 +21,31 @@ interface ImportStatus {
   message?: string
 }
 
-type Platform = "AniList" | "MyAnimeList" | "MangaDex"
+export type Platform = "AniList" | "MyAnimeList" | "MangaDex" | "Kenmei" | "MangaUpdates" | "Tachiyomi"
+
+const ACCEPTED_FILES: Partial<Record<Platform, Record<string, string[]>>> = {
+  AniList: { "application/json": [".json"] },
+  MyAnimeList: { "text/xml": [".xml"] },
+  Kenmei: { "text/csv": [".csv"] },
+  MangaUpdates: { "application/json": [".json"] },
+  Tachiyomi: { "application/octet-stream": [".tachibk", ".proto.gz"], "application/gzip": [".gz"] },
+}
+
+const FILE_LABELS: Partial<Record<Platform, string>> = {
+  AniList: ".json",
+  MyAnimeList: ".xml",
+  Kenmei: ".csv",
+  MangaUpdates: ".json",
+  Tachiyomi: ".tachibk",
+}
+
+// .tachibk backups are gzip-compressed protobuf
+async function readBackupBytes(file: File): Promise<Uint8Array> {
+  const bytes = new Uint8Array(await file.arrayBuffer())
+  if (!isGzipped(bytes)) return bytes
+  const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream("gzip"))
+  return new Uint8Array(await new Response(stream).arrayBuffer())
+}
 
 export function PlatformImport({ platform, onComplete }: { platform: Platform, onComplete?: () => void }) {
   const [status, setStatus] = useState<ImportStatus>({ status: "idle" })
@@ -26,13 +53,29 @@ export function PlatformImport({ platform, onComplete }: { platform: Platform, o
   const [showResults, setShowResults] = useState(false)
 
   const parseFile = async (file: File, platform: Platform) => {
+    if (platform === "Tachiyomi") {
+      try {
+        return parseTachiyomiBackup(await readBackupBytes(file))
+      } catch (e: unknown) {
+        throw new Error("Failed to read Tachiyomi/Mihon backup file")
+      }
+    }
+
     const text = await file.text()
     const entries: any[] = []
 
-    if (platform === "AniList") {
+    if (platform === "Kenmei") {
+      return parseKenmeiCSV(text)
+    } else if (platform === "MangaUpdates") {
+      return parseMangaUpdatesList(text)
+    } else if (platform === "AniList") {
       try {
         const data = JSON.parse(text)
         const lists = data.lists || []
+        const scoreFormat = resolveAniListScoreFormat(
+          data.user?.mediaListOptions?.scoreFormat ?? data.scoreFormat,
+          lists.flatMap((list: any) => (list.entries || []).map((entry: any) => entry.score))
+        )
         lists.forEach((list: any) => {
             list.entries.forEach((entry: any) => {
               if (entry.media && entry.media.title) {
@@ -41,7 +84,7 @@ export function PlatformImport({ platform, onComplete }: { platform: Platform, o
                   title: entry.media.title.romaji || entry.media.title.english || entry.media.title.native,
                   status: entry.status,
                   progress: entry.progress,
-                  score: entry.score,
+                  rating: anilistScoreToCanonical(entry.score, scoreFormat),
                   external_id: mediaId?.toString(),
                   source_url: mediaId ? `https://anilist.co/manga/${mediaId}` : undefined,
                   source_name: "anilist"
@@ -61,13 +104,17 @@ export function PlatformImport({ platform, onComplete }: { platform: Platform, o
                           block.match(/<manga_title>(.*?)<\/manga_title>/)?.[1]
             const status = block.match(/<my_status>(.*?)<\/my_status>/)?.[1]
             const progress = parseInt(block.match(/<my_read_chapters>(.*?)<\/my_read_chapters>/)?.[1] || "0")
-            const malId = block.match(/<manga_series_id>(.*?)<\/manga_series_id>/)?.[1]
+            const score = parseInt(block.match(/<my_score>(.*?)<\/my_score>/)?.[1] || "0")
+            // MAL's own export uses <manga_mangadb_id>; 0 means "no MAL id"
+            const rawMalId = block.match(/<manga_(?:series|mangadb)_id>(.*?)<\/manga_(?:series|mangadb)_id>/)?.[1]
+            const malId = rawMalId && rawMalId !== "0" ? rawMalId : undefined
             
             if (title) {
               entries.push({
                 title,
                 status,
                 progress,
+                rating: malScoreToCanonical(score),
                 external_id: malId,
                 source_url: malId ? `https://myanimelist.net/manga/${malId}` : undefined,
                 source_name: "myanimelist"
@@ -92,16 +139,22 @@ export function PlatformImport({ platform, onComplete }: { platform: Platform, o
         
         setStatus(prev => ({
           ...prev,
-          status: job.status === "completed" ? "completed" : "processing",
+          status: job.status === "completed" || job.status === "needs_review" ? "completed" : "processing",
           processed: job.processed_items,
           matched: job.matched_items,
           failed: job.failed_items,
           total: job.total_items
         }))
 
-        if (job.status === "completed") {
+        if (job.status === "completed" || job.status === "needs_review") {
           clearInterval(interval)
-          toast.success(`Import from ${platform} completed!`)
+          if (job.status === "needs_review") {
+            // Low-confidence matches are held until the user reviews them
+            toast.info("Import finished. Some matches need your review.")
+            setShowResults(true)
+          } else {
+            toast.success(`Import from ${platform} completed!`)
+          }
           if (onComplete) onComplete()
         }
       } catch (err: unknown) {
@@ -161,7 +214,7 @@ export function PlatformImport({ platform, onComplete }: { platform: Platform, o
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
-    accept: platform === "AniList" ? { "application/json": [".json"] } : { "text/xml": [".xml"] },
+    accept: ACCEPTED_FILES[platform] || { "text/xml": [".xml"] },
     multiple: false,
     disabled: status.status !== "idle" && status.status !== "error" && status.status !== "completed"
   })
@@ -169,6 +222,9 @@ export function PlatformImport({ platform, onComplete }: { platform: Platform, o
   const getHelpText = () => {
     if (platform === "AniList") return "Go to AniList Settings > Export to download your library as JSON."
     if (platform === "MyAnimeList") return "Go to MAL Profile > History > Export to get your XML file."
+    if (platform === "Kenmei") return "Go to Kenmei Settings > Export to download your library as CSV."
+    if (platform === "MangaUpdates") return "Save your reading list from the MangaUpdates lists API as a JSON file."
+    if (platform === "Tachiyomi") return "In Tachiyomi or Mihon, go to Settings > Data and storage > Create backup."
     return ""
   }
 
@@ -209,7 +265,7 @@ export function PlatformImport({ platform, onComplete }: { platform: Platform, o
                 <Upload className="size-6 text-zinc-500" />
               </div>
               <div>
-                <p className="font-bold">Click or drag {platform === "AniList" ? ".json" : ".xml"} file</p>
+                <p className="font-bold">Click or drag {FILE_LABELS[platform] || ".xml"} file</p>
                 <p className="text-xs text-zinc-500 mt-1">{getHelpText()}</p>
               </div>
             </div>
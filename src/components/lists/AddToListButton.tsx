@@ -0,0 +1,155 @@
+"use client"
+
+import { useState } from "react"
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { ListPlus, Loader2, Plus } from "lucide-react"
+import { toast } from "sonner"
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipTrigger,
+} from "@/components/ui/tooltip"
+
+interface ListOption {
+  id: string
+  name: string
+  contains_series: boolean
+}
+
+export function AddToListButton({ seriesId }: { seriesId: string }) {
+  const [lists, setLists] = useState<ListOption[] | null>(null)
+  const [pending, setPending] = useState<string | null>(null)
+  const [newName, setNewName] = useState("")
+  const [creating, setCreating] = useState(false)
+
+  const loadLists = async () => {
+    try {
+      const res = await fetch(`/api/lists?series_id=${seriesId}`)
+      if (res.ok) {
+        const data = await res.json()
+        setLists(data.lists)
+      } else {
+        setLists([])
+      }
+    } catch (error: unknown) {
+      console.error("Failed to fetch lists:", error)
+      setLists([])
+    }
+  }
+
+  const toggle = async (list: ListOption) => {
+    setPending(list.id)
+    try {
+      const res = list.contains_series
+        ? await fetch(`/api/lists/${list.id}/items/${seriesId}`, { method: "DELETE" })
+        : await fetch(`/api/lists/${list.id}/items`, {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ series_id: seriesId }),
+          })
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}))
+        toast.error(data.error?.message || "Failed to update list")
+        return
+      }
+      setLists(current => current?.map(l => (l.id === list.id ? { ...l, contains_series: !l.contains_series } : l)) ?? null)
+      toast.success(list.contains_series ? `Removed from ${list.name}` : `Added to ${list.name}`)
+    } catch {
+      toast.error("An error occurred while updating the list")
+    } finally {
+      setPending(null)
+    }
+  }
+
+  const createAndAdd = async () => {
+    const name = newName.trim()
+    if (!name) return
+    setCreating(true)
+    try {
+      const res = await fetch("/api/lists", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name }),
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        toast.error(data.error?.message || "Failed to create list")
+        return
+      }
+      setLists(current => [...(current ?? []), { id: data.id, name: data.name, contains_series: false }])
+      setNewName("")
+      await toggle({ id: data.id, name: data.name, contains_series: false })
+    } catch {
+      toast.error("An error occurred while creating the list")
+    } finally {
+      setCreating(false)
+    }
+  }
+
+  return (
+    <DropdownMenu onOpenChange={(open) => { if (open) loadLists() }}>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="icon" className="rounded-full border-zinc-200 dark:border-zinc-800">
+              <ListPlus className="size-4" />
+            </Button>
+          </DropdownMenuTrigger>
+        </TooltipTrigger>
+        <TooltipContent>Add to list</TooltipContent>
+      </Tooltip>
+      <DropdownMenuContent align="end" className="w-64">
+        <DropdownMenuLabel>Your Lists</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {lists === null ? (
+          <div className="flex items-center justify-center p-4">
+            <Loader2 className="size-4 animate-spin text-zinc-400" />
+          </div>
+        ) : lists.length === 0 ? (
+          <p className="px-2 py-3 text-xs text-zinc-500">You haven&apos;t created any lists yet.</p>
+        ) : (
+          lists.map(list => (
+            <DropdownMenuCheckboxItem
+              key={list.id}
+              checked={list.contains_series}
+              disabled={pending === list.id}
+              onSelect={(e) => e.preventDefault()}
+              onCheckedChange={() => toggle(list)}
+            >
+              <span className="truncate">{list.name}</span>
+            </DropdownMenuCheckboxItem>
+          ))
+        )}
+        <DropdownMenuSeparator />
+        <div className="flex items-center gap-2 p-2" onKeyDown={(e) => e.stopPropagation()}>
+          <Input
+            placeholder="New list"
+            value={newName}
+            maxLength={100}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => { if (e.key === "Enter") createAndAdd() }}
+            className="h-8 rounded-lg text-xs"
+          />
+          <Button type="button" size="icon" variant="ghost" className="size-8 shrink-0" onClick={createAndAdd} disabled={creating || !newName.trim()}>
+            {creating ? <Loader2 className="size-4 animate-spin" /> : <Plus className="size-4" />}
+          </Button>
+        </div>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem asChild>
+          <Link href="/lists" className="text-xs">Manage lists</Link>
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
@@ -0,0 +1,49 @@
+"use client"
+
+import { NSFWCover } from "@/components/ui/nsfw-cover"
+import { Lock } from "lucide-react"
+
+export interface UserListSummary {
+  id: string
+  name: string
+  description: string | null
+  is_public: boolean
+  position: number
+  cover_series_id: string | null
+  cover_url: string | null
+  cover_content_rating: string | null
+  item_count: number
+  updated_at: string
+}
+
+export function ListCard({ list }: { list: UserListSummary }) {
+  return (
+    <div className="group space-y-2">
+      <div className="overflow-hidden rounded-2xl bg-zinc-100 dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-800 relative shadow-sm transition-all group-hover:ring-2 group-hover:ring-zinc-900 dark:group-hover:ring-zinc-50">
+        {list.cover_url ? (
+          <NSFWCover
+            src={list.cover_url}
+            alt={list.name}
+            contentRating={list.cover_content_rating}
+            showBadge={false}
+            size="256"
+          />
+        ) : (
+          <div className="aspect-[3/4]" />
+        )}
+        <div className="absolute top-2 right-2 bg-zinc-900/80 backdrop-blur-md text-zinc-50 text-[10px] font-bold px-2 py-1 rounded-lg">
+          {list.item_count} series
+        </div>
+        {!list.is_public && (
+          <div className="absolute top-2 left-2 bg-zinc-900/80 backdrop-blur-md text-zinc-50 p-1 rounded-lg" title="Private">
+            <Lock className="size-3" />
+          </div>
+        )}
+      </div>
+      <div className="space-y-0.5">
+        <p className="font-semibold text-sm truncate">{list.name}</p>
+        {list.description && <p className="text-xs text-zinc-500 line-clamp-2">{list.description}</p>}
+      </div>
+    </div>
+  )
+}
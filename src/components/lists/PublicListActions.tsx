@@ -0,0 +1,132 @@
+"use client"
+
+import { useState } from "react"
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { Bell, BellOff, Copy, GitFork, Loader2 } from "lucide-react"
+import { toast } from "sonner"
+import { forkList } from "@/lib/actions/list-actions"
+
+const FORK_STATUSES = [
+  { value: "planning", label: "Plan to Read" },
+  { value: "reading", label: "Reading" },
+  { value: "paused", label: "Paused" },
+  { value: "completed", label: "Completed" },
+]
+
+export function PublicListActions({
+  listId,
+  isOwner,
+  isSignedIn,
+  initialFollowing,
+  initialFollowers,
+}: {
+  listId: string
+  isOwner: boolean
+  isSignedIn: boolean
+  initialFollowing: boolean
+  initialFollowers: number
+}) {
+  const [following, setFollowing] = useState(initialFollowing)
+  const [followers, setFollowers] = useState(initialFollowers)
+  const [status, setStatus] = useState("planning")
+  const [busy, setBusy] = useState<"follow" | "fork" | null>(null)
+
+  const handleCopyLink = () => {
+    navigator.clipboard.writeText(window.location.href)
+    toast.success("Link copied")
+  }
+
+  const handleFollow = async () => {
+    setBusy("follow")
+    try {
+      const res = await fetch(`/api/lists/${listId}/follow`, { method: following ? "DELETE" : "POST" })
+      const data = await res.json()
+      if (!res.ok) {
+        toast.error(data.error?.message || "Failed to update follow")
+        return
+      }
+      setFollowing(data.following)
+      setFollowers(data.followers)
+    } catch {
+      toast.error("An error occurred")
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const handleFork = async () => {
+    setBusy("fork")
+    try {
+      const result = await forkList(listId, status)
+      if (result.error || !result.data) {
+        toast.error(result.error || "Failed to add list to library")
+        return
+      }
+      const { added, already_in_library } = result.data
+      toast.success(
+        added > 0
+          ? `Added ${added} series to your library${already_in_library ? ` (${already_in_library} already there)` : ""}`
+          : "Everything in this list is already in your library"
+      )
+    } catch {
+      toast.error("An error occurred")
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  if (!isSignedIn) {
+    return (
+      <div className="flex flex-wrap items-center gap-2">
+        <Button asChild className="rounded-full">
+          <Link href="/login">Sign in to follow or copy this list</Link>
+        </Button>
+        <Button variant="outline" size="icon" className="rounded-full" title="Copy link" onClick={handleCopyLink}>
+          <Copy className="size-4" />
+        </Button>
+      </div>
+    )
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Select value={status} onValueChange={setStatus}>
+        <SelectTrigger className="w-[140px] h-10 rounded-full">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {FORK_STATUSES.map(option => (
+            <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Button className="rounded-full" onClick={handleFork} disabled={busy !== null}>
+        {busy === "fork" ? <Loader2 className="size-4 mr-2 animate-spin" /> : <GitFork className="size-4 mr-2" />}
+        Fork into Library
+      </Button>
+      {!isOwner && (
+        <Button variant="outline" className="rounded-full" onClick={handleFollow} disabled={busy !== null}>
+          {busy === "follow" ? (
+            <Loader2 className="size-4 mr-2 animate-spin" />
+          ) : following ? (
+            <BellOff className="size-4 mr-2" />
+          ) : (
+            <Bell className="size-4 mr-2" />
+          )}
+          {following ? "Unfollow" : "Follow"} · {followers}
+        </Button>
+      )}
+      <Button variant="outline" size="icon" className="rounded-full" title="Copy link" onClick={handleCopyLink}>
+        <Copy className="size-4" />
+      </Button>
+    </div>
+  )
+}
@@ -1,7 +1,7 @@
 "use client"
 
 import { useState, useCallback, useMemo, useEffect } from "react"
-import { Search, X, SlidersHorizontal, ChevronDown, ChevronUp, RotateCcw, Calendar } from "lucide-react"
+import { Search, X, SlidersHorizontal, ChevronDown, ChevronUp, RotateCcw, Calendar, Bell, BellOff } from "lucide-react"
 import { Input } from "@/components/ui/input"
 import { Button } from "@/components/ui/button"
 import {
@@ -53,6 +53,7 @@ interface SavedFilter {
   name: string
   payload: any
   is_default: boolean
+  watch: boolean
 }
 
 export function AdvancedFilterBar({
@@ -126,6 +127,19 @@ export function AdvancedFilterBar({
     }
   }
 
+  const toggleWatch = async (savedFilter: SavedFilter) => {
+    try {
+      const res = await fetch(`/api/users/me/filters/${savedFilter.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ watch: !savedFilter.watch })
+      })
+      if (res.ok) fetchSavedFilters()
+    } catch (e: unknown) {
+      console.error("Failed to update filter", e)
+    }
+  }
+
   const activeFilterCount = useMemo(() => countActiveFilters(filters), [filters])
 
   const updateFilter = useCallback(<K extends keyof FilterState>(key: K, value: FilterState[K]) => {
@@ -258,6 +272,21 @@ export function AdvancedFilterBar({
                     active={false}
                     onClick={() => applySavedFilter(sf.payload)}
                   />
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation()
+                      toggleWatch(sf)
+                    }}
+                    title={sf.watch ? "Stop alerts for new matches" : "Alert me about new matches"}
+                    className={cn(
+                      "absolute -top-1 -left-1 p-0.5 rounded-full transition-opacity",
+                      sf.watch
+                        ? "bg-blue-500 text-white opacity-100"
+                        : "bg-zinc-500 text-white opacity-0 group-hover:opacity-100"
+                    )}
+                  >
+                    {sf.watch ? <Bell className="size-2" /> : <BellOff className="size-2" />}
+                  </button>
                   <button
                     onClick={(e) => {
                       e.stopPropagation()
@@ -6,6 +6,7 @@ import { Badge } from "@/components/ui/badge"
 import { Check, Loader2, ExternalLink, ChevronDown, ChevronUp, Filter, Plus, Link2, Info } from "lucide-react"
 import { updateProgress } from "@/lib/actions/library-actions"
 import { SyncOutbox } from "@/lib/sync/outbox"
+import { getChapterList, getReadChapterNumbers, recordChapterReads, saveChapterList } from "@/lib/sync/offline-library"
 import { toast } from "sonner"
 import { showGamificationToasts } from "@/lib/toast"
 import {
@@ -113,6 +114,19 @@ export function EnhancedChapterList({
     setMounted(true)
   }, [])
 
+  // Falls back to the last chapter list saved for this series, with reads
+  // still waiting in the outbox applied. Returns false if none was saved.
+  const loadOfflineChapters = useCallback(async () => {
+    const cached = await getChapterList<LogicalChapter>(seriesId)
+    if (!cached) return false
+
+    const readNumbers = await getReadChapterNumbers(seriesId, libraryEntry?.id ?? null, await SyncOutbox.getActions())
+    setChapters(cached.chapters.map(c => ({ ...c, is_read: readNumbers.has(Number(c.chapter_number)) || c.is_read })))
+    setTotalPages(1)
+    setTotalChapters(cached.total)
+    return true
+  }, [seriesId, libraryEntry?.id])
+
   const fetchChapters = useCallback(async () => {
     // Skip API call if seriesId is invalid
     if (!isValidSeriesId) {
@@ -125,7 +139,11 @@ export function EnhancedChapterList({
     }
 
     setLoading(true)
+    // Only the default view is saved offline
+    const isDefaultView = page === 1 && sortBy === "chapter_desc" && sourceFilter === "all"
     try {
+      if (!navigator.onLine && isDefaultView && await loadOfflineChapters()) return
+
       const params = new URLSearchParams({
         page: page.toString(),
         limit: "30",
@@ -152,6 +170,15 @@ export function EnhancedChapterList({
         setChapters(data.chapters || [])
         setTotalPages(data.total_pages || 1)
         setTotalChapters(data.total || 0)
+        if (isDefaultView) {
+          saveChapterList(seriesId, {
+            chapters: data.chapters || [],
+            total: data.total || 0,
+            total_pages: data.total_pages || 1,
+          }).catch(() => {
+            // Best effort: offline viewing just falls back to the empty state
+          })
+        }
       } else {
         // Non-auth errors - log but don't crash
         console.error(`[Chapters] API error: ${res.status}`)
@@ -164,12 +191,14 @@ export function EnhancedChapterList({
       } else {
         console.error("[Chapters] Failed to fetch:", error)
       }
-      // Don't crash - show empty state
-      setChapters([])
+      // Don't crash - show the saved list, or the empty state
+      if (!(isDefaultView && await loadOfflineChapters())) {
+        setChapters([])
+      }
     } finally {
       setLoading(false)
     }
-  }, [seriesId, page, sortBy, sourceFilter, isValidSeriesId])
+  }, [seriesId, page, sortBy, sourceFilter, isValidSeriesId, loadOfflineChapters])
 
   useEffect(() => {
     fetchChapters()
@@ -237,6 +266,7 @@ export function EnhancedChapterList({
           chapterNumber: chapter.chapter_number,
           sourceId: sourceId
         });
+        recordChapterReads(seriesId, [{ chapter_number: Number(chapter.chapter_number), is_read: true }])
         
         toast.success(`Chapter ${chapter.chapter_number} queued for sync (Offline)`)
         setChapters(prev => prev.map(c => 
@@ -272,6 +302,7 @@ export function EnhancedChapterList({
         chapterNumber: chapter.chapter_number,
         sourceId: sourceId
       });
+      recordChapterReads(seriesId, [{ chapter_number: Number(chapter.chapter_number), is_read: true }])
       toast.info(`Connection lost. Chapter ${chapter.chapter_number} will sync when online.`)
       setChapters(prev => prev.map(c => 
         c.chapter_number === chapter.chapter_number 
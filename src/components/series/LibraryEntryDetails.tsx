@@ -0,0 +1,206 @@
+"use client"
+
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import { Badge } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Loader2, Lock, RotateCcw, Star, X } from "lucide-react"
+import { toast } from "sonner"
+import { formatScaleValue, fromCanonicalRating, ratingScaleValues, type RatingScale } from "@/lib/ratings"
+
+const MAX_TAGS = 20
+
+interface LibraryEntryDetailsProps {
+  entryId: string
+  status: string
+  notes: string | null
+  tags: string[]
+  rereadCount: number
+  completedAt: string | null
+  userRating: number | null
+  ratingScale: RatingScale
+}
+
+/**
+ * Owner-only panel on the series page: the user's rating (on their chosen
+ * scale), private markdown notes, free-form tags and starting a re-read once
+ * the series is completed.
+ */
+export function LibraryEntryDetails({ entryId, status, notes, tags, rereadCount, completedAt, userRating, ratingScale }: LibraryEntryDetailsProps) {
+  const router = useRouter()
+  const [savedNotes, setSavedNotes] = useState(notes ?? "")
+  const [draftNotes, setDraftNotes] = useState(notes ?? "")
+  const [currentTags, setCurrentTags] = useState(tags)
+  const [tagInput, setTagInput] = useState("")
+  const [rating, setRating] = useState(userRating)
+  const [saving, setSaving] = useState<"notes" | "tags" | "reread" | "rating" | null>(null)
+
+  const patchEntry = async (body: Record<string, unknown>) => {
+    const res = await fetch(`/api/library/${entryId}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    })
+    const data = await res.json().catch(() => ({}))
+    if (!res.ok) {
+      throw new Error(data.error?.message || "Failed to update entry")
+    }
+    return data
+  }
+
+  const saveTags = async (next: string[]) => {
+    setSaving("tags")
+    try {
+      const entry = await patchEntry({ tags: next })
+      setCurrentTags(entry.tags)
+    } catch (error: unknown) {
+      toast.error(error instanceof Error ? error.message : "Failed to save tags")
+    } finally {
+      setSaving(null)
+    }
+  }
+
+  const handleRatingChange = async (value: string) => {
+    setSaving("rating")
+    try {
+      const entry = await patchEntry({
+        rating: value === "none" ? null : Number(value),
+        rating_scale: ratingScale,
+      })
+      setRating(entry.user_rating ?? null)
+    } catch (error: unknown) {
+      toast.error(error instanceof Error ? error.message : "Failed to save rating")
+    } finally {
+      setSaving(null)
+    }
+  }
+
+  const handleAddTag = () => {
+    const tag = tagInput.trim().toLowerCase()
+    if (!tag || currentTags.includes(tag)) {
+      setTagInput("")
+      return
+    }
+    setTagInput("")
+    saveTags([...currentTags, tag])
+  }
+
+  const handleSaveNotes = async () => {
+    setSaving("notes")
+    try {
+      const entry = await patchEntry({ notes: draftNotes.trim() || null })
+      setSavedNotes(entry.notes ?? "")
+      setDraftNotes(entry.notes ?? "")
+      toast.success("Notes saved")
+    } catch (error: unknown) {
+      toast.error(error instanceof Error ? error.message : "Failed to save notes")
+    } finally {
+      setSaving(null)
+    }
+  }
+
+  const handleStartReread = async () => {
+    if (!confirm("Start a re-read? Progress goes back to chapter 0; your completion is kept.")) return
+    setSaving("reread")
+    try {
+      await patchEntry({ start_reread: true })
+      toast.success("Re-read started")
+      router.refresh()
+    } catch (error: unknown) {
+      toast.error(error instanceof Error ? error.message : "Failed to start re-read")
+    } finally {
+      setSaving(null)
+    }
+  }
+
+  return (
+    <div className="space-y-4 p-6 rounded-3xl bg-zinc-50 dark:bg-zinc-900/50 border border-zinc-100 dark:border-zinc-800">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h3 className="font-bold flex items-center gap-2">
+          Your Notes
+          <span className="flex items-center gap-1 text-xs font-normal text-zinc-500"><Lock className="size-3" /> Private</span>
+        </h3>
+        <div className="flex items-center gap-3 text-xs text-zinc-500">
+          <Select
+            value={rating !== null ? String(fromCanonicalRating(rating, ratingScale)) : "none"}
+            onValueChange={handleRatingChange}
+            disabled={saving !== null}
+          >
+            <SelectTrigger className="h-8 w-auto gap-1.5 rounded-full text-xs" title="Your rating">
+              <Star className="size-3.5 fill-yellow-500 text-yellow-500" />
+              <SelectValue placeholder="Rate" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">No rating</SelectItem>
+              {ratingScaleValues(ratingScale).reverse().map(value => (
+                <SelectItem key={value} value={String(value)}>
+                  {formatScaleValue(value, ratingScale)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {rereadCount > 0 && <span>Re-read {rereadCount}×</span>}
+          {completedAt && <span>Completed {new Date(completedAt).toLocaleDateString()}</span>}
+          {status === "completed" && (
+            <Button variant="outline" size="sm" className="rounded-full" onClick={handleStartReread} disabled={saving !== null}>
+              {saving === "reread" ? <Loader2 className="size-3.5 mr-1.5 animate-spin" /> : <RotateCcw className="size-3.5 mr-1.5" />}
+              Start Re-read
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        {currentTags.map(tag => (
+          <Badge key={tag} variant="secondary" className="gap-1">
+            #{tag}
+            <button
+              type="button"
+              title={`Remove ${tag}`}
+              disabled={saving !== null}
+              onClick={() => saveTags(currentTags.filter(t => t !== tag))}
+            >
+              <X className="size-3" />
+            </button>
+          </Badge>
+        ))}
+        {currentTags.length < MAX_TAGS && (
+          <Input
+            placeholder="Add tag"
+            value={tagInput}
+            maxLength={32}
+            disabled={saving !== null}
+            onChange={(e) => setTagInput(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") {
+                e.preventDefault()
+                handleAddTag()
+              }
+            }}
+            className="h-7 w-32 rounded-full text-xs"
+          />
+        )}
+      </div>
+
+      <Textarea
+        placeholder="Thoughts, favourite arcs, where you left off... Markdown works."
+        value={draftNotes}
+        maxLength={10000}
+        onChange={(e) => setDraftNotes(e.target.value)}
+        className="rounded-xl min-h-[100px] font-mono text-sm"
+      />
+      {draftNotes !== savedNotes && (
+        <div className="flex justify-end gap-2">
+          <Button variant="ghost" size="sm" className="rounded-full" onClick={() => setDraftNotes(savedNotes)}>Discard</Button>
+          <Button size="sm" className="rounded-full" onClick={handleSaveNotes} disabled={saving !== null}>
+            {saving === "notes" && <Loader2 className="size-3.5 mr-1.5 animate-spin" />}
+            Save Notes
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,46 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Badge } from "@/components/ui/badge"
+import { PauseCircle } from "lucide-react"
+import type { ReleaseSchedule } from "@/lib/release-prediction"
+
+interface ReleaseScheduleBadgeProps {
+  seriesId: string
+}
+
+/**
+ * Shows a "Hiatus" badge when the series has gone far longer than its usual
+ * release cadence without a new chapter.
+ */
+export function ReleaseScheduleBadge({ seriesId }: ReleaseScheduleBadgeProps) {
+  const [schedule, setSchedule] = useState<ReleaseSchedule | null>(null)
+
+  useEffect(() => {
+    async function fetchSchedule() {
+      try {
+        const res = await fetch(`/api/series/${seriesId}/stats`)
+        if (res.ok) {
+          const data = await res.json()
+          setSchedule(data.release_schedule ?? null)
+        }
+      } catch (error: unknown) {
+        console.error("Failed to fetch release schedule:", error)
+      }
+    }
+    fetchSchedule()
+  }, [seriesId])
+
+  if (schedule?.status !== "hiatus") return null
+
+  return (
+    <Badge
+      variant="secondary"
+      className="bg-amber-100 text-amber-900 dark:bg-amber-900/30 dark:text-amber-400"
+      title={`No new chapter since ${new Date(schedule.last_release_at).toLocaleDateString()}; usually every ${schedule.interval_days} days`}
+    >
+      <PauseCircle className="size-3 mr-1" />
+      Hiatus
+    </Badge>
+  )
+}
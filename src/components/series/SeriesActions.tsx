@@ -37,6 +37,7 @@ import {
 } from "@/components/ui/dialog"
 import { AddReadingSourceDialog } from "./source-management/AddReadingSourceDialog"
 import { FixMetadataDialog } from "./source-management/FixMetadataDialog"
+import { AddToListButton } from "@/components/lists/AddToListButton"
 
 export function SeriesActions({ 
   seriesId, 
@@ -63,7 +64,7 @@ export function SeriesActions({
     setLoading(true)
     try {
       if (!navigator.onLine) {
-        SyncOutbox.enqueue('LIBRARY_ADD', { seriesId: seriesId, status: 'reading' });
+        SyncOutbox.enqueue('LIBRARY_ADD', { seriesId: seriesId, seriesTitle: seriesTitle, status: 'reading' });
         toast.success("Series queued to be added (Offline)");
         setIsInLibrary(true)
         return;
@@ -77,7 +78,7 @@ export function SeriesActions({
         router.refresh()
       }
     } catch (error: unknown) {
-      SyncOutbox.enqueue('LIBRARY_ADD', { seriesId: seriesId, status: 'reading' });
+      SyncOutbox.enqueue('LIBRARY_ADD', { seriesId: seriesId, seriesTitle: seriesTitle, status: 'reading' });
       toast.info("Connection lost. Series will be added when online.");
       setIsInLibrary(true)
     } finally {
@@ -94,6 +95,12 @@ export function SeriesActions({
 
     setLoading(true)
     try {
+      if (!navigator.onLine) {
+        SyncOutbox.enqueue('LIBRARY_DELETE', { entryId: libraryEntry.id });
+        toast.success("Series queued to be removed (Offline)");
+        setIsInLibrary(false)
+        return;
+      }
       const response = await fetch(`/api/library/${libraryEntry.id}`, {
         method: 'DELETE',
         headers: {
@@ -206,6 +213,8 @@ export function SeriesActions({
         </div>
       )}
 
+      <AddToListButton seriesId={seriesId} />
+
       {/* Submit Link Button - Visible */}
       <Tooltip>
         <TooltipTrigger asChild>
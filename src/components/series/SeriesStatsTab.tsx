@@ -2,7 +2,8 @@
 
 import { useState, useEffect } from "react"
 import { Skeleton } from "@/components/ui/skeleton"
-import { BookOpen, Users, TrendingUp, Clock, Star, BarChart3 } from "lucide-react"
+import { BookOpen, Users, TrendingUp, Clock, Star, BarChart3, CalendarClock } from "lucide-react"
+import type { ReleaseSchedule } from "@/lib/release-prediction"
 
 interface StatsData {
   tracking_stats: {
@@ -24,6 +25,20 @@ interface StatsData {
     monthly_readers: number
     trending_rank: number | null
   }
+  release_schedule: ReleaseSchedule | null
+}
+
+const CADENCE_LABELS: Record<ReleaseSchedule["cadence"], string> = {
+  weekly: "Weekly",
+  biweekly: "Every two weeks",
+  monthly: "Monthly",
+  irregular: "Irregular",
+}
+
+const SCHEDULE_STATUS_LABELS: Record<ReleaseSchedule["status"], string> = {
+  on_schedule: "On schedule",
+  late: "Running late",
+  hiatus: "On hiatus",
 }
 
 interface SeriesStatsTabProps {
@@ -130,6 +145,41 @@ export function SeriesStatsTab({ seriesId }: SeriesStatsTabProps) {
         </div>
       </div>
 
+      {stats.release_schedule && (
+        <div className="p-6 rounded-2xl bg-zinc-50 dark:bg-zinc-900/50 border border-zinc-100 dark:border-zinc-800">
+          <div className="flex items-center gap-2 mb-6">
+            <CalendarClock className="size-5" />
+            <h3 className="font-bold text-lg">Release Schedule</h3>
+            <span className="text-sm text-zinc-500 ml-auto">
+              {SCHEDULE_STATUS_LABELS[stats.release_schedule.status]}
+            </span>
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div>
+              <p className="text-xs text-zinc-500">Cadence</p>
+              <p className="font-bold">{CADENCE_LABELS[stats.release_schedule.cadence]}</p>
+            </div>
+            <div>
+              <p className="text-xs text-zinc-500">Typical Gap</p>
+              <p className="font-bold">{stats.release_schedule.interval_days} days</p>
+            </div>
+            <div>
+              <p className="text-xs text-zinc-500">Next Expected</p>
+              <p className="font-bold">
+                {stats.release_schedule.predicted_next_at
+                  ? new Date(stats.release_schedule.predicted_next_at).toLocaleDateString()
+                  : "—"}
+              </p>
+            </div>
+            <div>
+              <p className="text-xs text-zinc-500">Confidence</p>
+              <p className="font-bold">{Math.round(stats.release_schedule.confidence * 100)}%</p>
+            </div>
+          </div>
+        </div>
+      )}
+
       <div className="p-6 rounded-2xl bg-zinc-50 dark:bg-zinc-900/50 border border-zinc-100 dark:border-zinc-800">
         <div className="flex items-center gap-2 mb-6">
           <BarChart3 className="size-5" />
@@ -0,0 +1,100 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Sparkles, Users } from "lucide-react"
+import Link from "next/link"
+import { Badge } from "@/components/ui/badge"
+import { Skeleton } from "@/components/ui/skeleton"
+import { NSFWCover } from "@/components/ui/nsfw-cover"
+
+interface SimilarSeriesItem {
+  id: string
+  title: string
+  cover_url: string | null
+  content_rating: string | null
+  type: string
+  genres: string[]
+  total_follows: number
+  score: number
+}
+
+function SimilarSeriesSkeleton() {
+  return (
+    <div className="flex gap-4 overflow-hidden">
+      {[...Array(5)].map((_, i) => (
+        <div key={i} className="w-32 shrink-0 space-y-3">
+          <Skeleton className="aspect-[3/4] rounded-2xl" />
+          <Skeleton className="h-3 w-full" />
+        </div>
+      ))}
+    </div>
+  )
+}
+
+export function SimilarSeriesRail({ seriesId, limit = 12 }: { seriesId: string; limit?: number }) {
+  const [series, setSeries] = useState<SimilarSeriesItem[]>([])
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    async function fetchSimilar() {
+      setLoading(true)
+      try {
+        const res = await fetch(`/api/series/${seriesId}/similar?limit=${limit}`)
+        if (res.ok) {
+          const data = await res.json()
+          setSeries(data.results || [])
+        }
+      } catch (error: unknown) {
+        console.error("Failed to fetch similar series:", error)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchSimilar()
+  }, [seriesId, limit])
+
+  if (!loading && series.length === 0) return null
+
+  return (
+    <section className="space-y-4">
+      <h3 className="flex items-center gap-2 font-bold text-lg">
+        <Sparkles className="size-4 text-zinc-400" />
+        More like this
+      </h3>
+
+      {loading ? (
+        <SimilarSeriesSkeleton />
+      ) : (
+        <div className="flex gap-4 overflow-x-auto pb-2 snap-x">
+          {series.map(item => (
+            <Link key={item.id} href={`/series/${item.id}`} className="group w-32 shrink-0 snap-start space-y-2">
+              <div className="relative aspect-[3/4] rounded-2xl overflow-hidden bg-zinc-100 dark:bg-zinc-800 border border-zinc-200 dark:border-zinc-800">
+                <NSFWCover
+                  src={item.cover_url}
+                  alt={item.title}
+                  contentRating={item.content_rating}
+                  className="transition-transform duration-500 group-hover:scale-105"
+                  aspectRatio="aspect-[3/4]"
+                  showBadge={false}
+                  size="256"
+                />
+                <Badge variant="outline" className="absolute top-2 left-2 text-[9px] uppercase font-bold px-1.5 py-0 bg-zinc-950/80 border-none text-white">
+                  {item.type}
+                </Badge>
+              </div>
+              <div className="space-y-0.5">
+                <p className="text-xs font-semibold leading-tight line-clamp-2 group-hover:underline">{item.title}</p>
+                <p className="flex items-center gap-1 text-[10px] text-zinc-500">
+                  <Users className="size-3" />
+                  {item.total_follows >= 1000 ? `${(item.total_follows / 1000).toFixed(1)}K` : item.total_follows}
+                  {item.genres[0] && <span className="truncate">· {item.genres[0]}</span>}
+                </p>
+              </div>
+            </Link>
+          ))}
+        </div>
+      )}
+    </section>
+  )
+}
@@ -0,0 +1,215 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Checkbox } from "@/components/ui/checkbox"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { Loader2, Trash2, Copy } from "lucide-react"
+import { toast } from "sonner"
+
+const SCOPE_OPTIONS = [
+  { id: "read:library", label: "Read library" },
+  { id: "write:progress", label: "Update progress" },
+  { id: "read:feed", label: "Read feeds" },
+]
+
+const EXPIRY_OPTIONS = [
+  { id: "30", label: "30 days" },
+  { id: "90", label: "90 days" },
+  { id: "365", label: "1 year" },
+  { id: "never", label: "No expiry" },
+]
+
+interface ApiToken {
+  id: string
+  name: string
+  token_prefix: string
+  scopes: string[]
+  created_at: string
+  last_used_at: string | null
+  expires_at: string | null
+}
+
+function formatDate(value: string | null, fallback: string) {
+  return value ? new Date(value).toLocaleDateString() : fallback
+}
+
+export function ApiTokenSettings() {
+  const [tokens, setTokens] = useState<ApiToken[]>([])
+  const [loading, setLoading] = useState(true)
+  const [creating, setCreating] = useState(false)
+  const [name, setName] = useState("")
+  const [scopes, setScopes] = useState<string[]>(["read:library"])
+  const [expiry, setExpiry] = useState("90")
+  const [issued, setIssued] = useState<{ id: string; value: string } | null>(null)
+
+  useEffect(() => {
+    async function fetchTokens() {
+      try {
+        const res = await fetch("/api/users/me/tokens")
+        if (res.ok) {
+          const data = await res.json()
+          setTokens(data.tokens)
+        }
+      } catch (error: unknown) {
+        console.error("Failed to fetch access tokens:", error)
+      } finally {
+        setLoading(false)
+      }
+    }
+    fetchTokens()
+  }, [])
+
+  const handleCreate = async () => {
+    setCreating(true)
+    try {
+      const res = await fetch("/api/users/me/tokens", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name,
+          scopes,
+          expires_in_days: expiry === "never" ? null : Number(expiry),
+        }),
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        toast.error(data.error || "Failed to create token")
+        return
+      }
+      const { token: value, ...token } = data
+      setTokens(list => [token, ...list])
+      setIssued({ id: token.id, value })
+      setName("")
+      toast.success("Access token created")
+    } catch {
+      toast.error("An error occurred while creating the token")
+    } finally {
+      setCreating(false)
+    }
+  }
+
+  const handleRevoke = async (id: string) => {
+    try {
+      const res = await fetch(`/api/users/me/tokens/${id}`, { method: "DELETE" })
+      if (res.ok) {
+        setTokens(list => list.filter(t => t.id !== id))
+        if (issued?.id === id) setIssued(null)
+        toast.success("Access token revoked")
+      } else {
+        toast.error("Failed to revoke token")
+      }
+    } catch {
+      toast.error("An error occurred while revoking the token")
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center p-8">
+        <Loader2 className="size-6 animate-spin text-zinc-400" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-xs text-zinc-500">
+        Personal access tokens let scripts and other apps use the{" "}
+        <a href="/api/openapi.json" target="_blank" rel="noreferrer" className="underline">MangaTrack API</a>{" "}
+        on your behalf. Send them as an <code>Authorization: Bearer</code> header.
+      </p>
+
+      {tokens.map(token => (
+        <div key={token.id} className="p-4 rounded-2xl bg-white dark:bg-zinc-950 border border-zinc-100 dark:border-zinc-800 space-y-3">
+          <div className="flex items-center justify-between gap-3">
+            <div className="space-y-0.5 min-w-0">
+              <p className="font-medium text-sm truncate">
+                {token.name} <code className="text-xs text-zinc-500">{token.token_prefix}…</code>
+              </p>
+              <p className="text-xs text-zinc-500">
+                {token.scopes.map(s => SCOPE_OPTIONS.find(o => o.id === s)?.label ?? s).join(", ")}
+                {" · "}
+                Last used {formatDate(token.last_used_at, "never")}
+                {" · "}
+                {token.expires_at ? `Expires ${formatDate(token.expires_at, "")}` : "No expiry"}
+              </p>
+            </div>
+            <Button type="button" variant="ghost" size="icon" title="Revoke" className="shrink-0" onClick={() => handleRevoke(token.id)}>
+              <Trash2 className="size-4 text-red-500" />
+            </Button>
+          </div>
+
+          {issued?.id === token.id && (
+            <div className="flex items-center gap-2 p-3 rounded-xl bg-amber-50 dark:bg-amber-950/30 text-xs">
+              <span className="text-amber-700 dark:text-amber-400 shrink-0">Token (shown once):</span>
+              <code className="truncate">{issued.value}</code>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="shrink-0"
+                onClick={() => {
+                  navigator.clipboard.writeText(issued.value)
+                  toast.success("Token copied")
+                }}
+              >
+                <Copy className="size-4" />
+              </Button>
+            </div>
+          )}
+        </div>
+      ))}
+
+      <div className="p-4 rounded-2xl bg-white dark:bg-zinc-950 border border-zinc-100 dark:border-zinc-800 space-y-3">
+        <div className="flex gap-2">
+          <Input
+            placeholder="Token name, e.g. Reading tracker script"
+            value={name}
+            maxLength={100}
+            onChange={(e) => setName(e.target.value)}
+            className="rounded-xl"
+          />
+          <Select value={expiry} onValueChange={setExpiry}>
+            <SelectTrigger className="rounded-xl w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {EXPIRY_OPTIONS.map(option => (
+                <SelectItem key={option.id} value={option.id}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex flex-wrap gap-4">
+          {SCOPE_OPTIONS.map(option => (
+            <label key={option.id} className="flex items-center gap-2 text-xs">
+              <Checkbox
+                checked={scopes.includes(option.id)}
+                onCheckedChange={(checked) => setScopes(list => (checked ? [...list, option.id] : list.filter(s => s !== option.id)))}
+              />
+              {option.label}
+            </label>
+          ))}
+        </div>
+        <Button
+          type="button"
+          variant="outline"
+          className="rounded-full"
+          onClick={handleCreate}
+          disabled={creating || !name.trim() || scopes.length === 0}
+        >
+          {creating && <Loader2 className="size-4 mr-2 animate-spin" />}
+          Create Token
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,157 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Loader2, Copy, RotateCw, Trash2 } from "lucide-react"
+import { toast } from "sonner"
+
+interface FeedToken {
+  token_prefix: string
+  created_at: string
+  last_used_at: string | null
+  /** Only returned when the token is issued or rotated */
+  urls?: {
+    rss: string
+    atom: string
+    calendar: string
+    series: string
+  }
+}
+
+const FEED_LINKS: Array<{ key: keyof NonNullable<FeedToken["urls"]>; label: string; hint: string }> = [
+  { key: "rss", label: "RSS", hint: "New chapters across your library" },
+  { key: "atom", label: "Atom", hint: "Same feed, for readers that prefer Atom" },
+  { key: "calendar", label: "Calendar (iCal)", hint: "Predicted release dates for series you're reading" },
+  { key: "series", label: "Per-series", hint: "Replace {seriesId} with a series from your library; add ?format=atom for Atom" },
+]
+
+export function FeedSettings() {
+  const [feedToken, setFeedToken] = useState<FeedToken | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [busy, setBusy] = useState(false)
+
+  useEffect(() => {
+    async function fetchFeedToken() {
+      try {
+        const res = await fetch("/api/users/me/feed-token")
+        if (res.ok) {
+          const data = await res.json()
+          setFeedToken(data.feed_token)
+        }
+      } catch (error: unknown) {
+        console.error("Failed to fetch feed token:", error)
+      } finally {
+        setLoading(false)
+      }
+    }
+    fetchFeedToken()
+  }, [])
+
+  const handleIssue = async () => {
+    if (feedToken && !confirm("Rotating the link breaks every feed reader and calendar using the current one. Continue?")) {
+      return
+    }
+    setBusy(true)
+    try {
+      const res = await fetch("/api/users/me/feed-token", { method: "POST" })
+      const data = await res.json()
+      if (!res.ok) {
+        toast.error(data.error || "Failed to create feed links")
+        return
+      }
+      setFeedToken(data.feed_token)
+      toast.success(feedToken ? "Feed links rotated" : "Feed links created")
+    } catch {
+      toast.error("An error occurred while creating feed links")
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleRevoke = async () => {
+    setBusy(true)
+    try {
+      const res = await fetch("/api/users/me/feed-token", { method: "DELETE" })
+      if (res.ok) {
+        setFeedToken(null)
+        toast.success("Feed links revoked")
+      } else {
+        toast.error("Failed to revoke feed links")
+      }
+    } catch {
+      toast.error("An error occurred while revoking feed links")
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center p-8">
+        <Loader2 className="size-6 animate-spin text-zinc-400" />
+      </div>
+    )
+  }
+
+  const urls = feedToken?.urls
+
+  return (
+    <div className="space-y-4">
+      <p className="text-xs text-zinc-500">
+        Private links for feed readers and calendar apps. Anyone with a link can read these feeds, so keep them to yourself.
+      </p>
+
+      {urls && (
+        <p className="text-xs text-amber-500">
+          Copy these links now. For your security they won&apos;t be shown again; rotate to get new ones.
+        </p>
+      )}
+
+      {feedToken && !urls && (
+        <p className="text-xs text-zinc-500">
+          Your feed links start with <span className="font-mono">{feedToken.token_prefix}…</span> and were created{" "}
+          {new Date(feedToken.created_at).toLocaleDateString()}. They are only shown once; rotate to get new ones.
+        </p>
+      )}
+
+      {urls && FEED_LINKS.map(link => (
+        <div key={link.key} className="space-y-1">
+          <p className="font-medium text-sm">{link.label}</p>
+          <div className="flex gap-2">
+            <Input readOnly value={urls[link.key]} className="rounded-xl text-xs font-mono" onFocus={(e) => e.target.select()} />
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              onClick={() => {
+                navigator.clipboard.writeText(urls[link.key])
+                toast.success(`${link.label} link copied`)
+              }}
+            >
+              <Copy className="size-4" />
+            </Button>
+          </div>
+          <p className="text-xs text-zinc-500">{link.hint}</p>
+        </div>
+      ))}
+
+      {feedToken?.last_used_at && (
+        <p className="text-xs text-zinc-500">Last fetched {new Date(feedToken.last_used_at).toLocaleString()}</p>
+      )}
+
+      <div className="flex gap-2">
+        <Button type="button" variant="outline" className="rounded-full" onClick={handleIssue} disabled={busy}>
+          {busy ? <Loader2 className="size-4 mr-2 animate-spin" /> : <RotateCw className="size-4 mr-2" />}
+          {feedToken ? "Rotate Links" : "Create Feed Links"}
+        </Button>
+        {feedToken && (
+          <Button type="button" variant="ghost" className="rounded-full text-red-500" onClick={handleRevoke} disabled={busy}>
+            <Trash2 className="size-4 mr-2" />
+            Revoke
+          </Button>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,338 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Switch } from "@/components/ui/switch"
+import { Checkbox } from "@/components/ui/checkbox"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { Loader2, Trash2, RotateCw, ChevronDown, ChevronUp, Copy, KeyRound } from "lucide-react"
+import { toast } from "sonner"
+
+const EVENT_OPTIONS = [
+  { id: "new_chapter", label: "New chapters" },
+  { id: "digest", label: "Digests" },
+  { id: "achievement", label: "Achievements & level-ups" },
+]
+
+const FORMAT_OPTIONS = [
+  { id: "discord", label: "Discord" },
+  { id: "slack", label: "Slack" },
+  { id: "generic", label: "Generic JSON" },
+]
+
+interface Webhook {
+  id: string
+  url: string
+  format: string
+  events: string[]
+  enabled: boolean
+  failure_count: number
+  last_success_at: string | null
+  last_failure_at: string | null
+}
+
+interface Delivery {
+  id: string
+  event: string
+  status: string
+  attempts: number
+  response_status: number | null
+  error: string | null
+  created_at: string
+}
+
+const STATUS_STYLES: Record<string, string> = {
+  delivered: "text-green-600",
+  failed: "text-red-500",
+  retrying: "text-amber-500",
+  pending: "text-zinc-500",
+}
+
+function maskUrl(url: string) {
+  try {
+    const parsed = new URL(url)
+    return `${parsed.origin}${parsed.pathname.length > 24 ? `${parsed.pathname.slice(0, 24)}…` : parsed.pathname}`
+  } catch {
+    return url
+  }
+}
+
+export function WebhookSettings() {
+  const [webhooks, setWebhooks] = useState<Webhook[]>([])
+  const [loading, setLoading] = useState(true)
+  const [creating, setCreating] = useState(false)
+  const [url, setUrl] = useState("")
+  const [format, setFormat] = useState("discord")
+  const [events, setEvents] = useState<string[]>(EVENT_OPTIONS.map(e => e.id))
+  const [secret, setSecret] = useState<{ id: string; value: string } | null>(null)
+  const [openLog, setOpenLog] = useState<string | null>(null)
+  const [deliveries, setDeliveries] = useState<Delivery[]>([])
+  const [logLoading, setLogLoading] = useState(false)
+
+  useEffect(() => {
+    async function fetchWebhooks() {
+      try {
+        const res = await fetch("/api/users/me/webhooks")
+        if (res.ok) {
+          const data = await res.json()
+          setWebhooks(data.webhooks)
+        }
+      } catch (error: unknown) {
+        console.error("Failed to fetch webhooks:", error)
+      } finally {
+        setLoading(false)
+      }
+    }
+    fetchWebhooks()
+  }, [])
+
+  const loadDeliveries = useCallback(async (id: string) => {
+    setLogLoading(true)
+    try {
+      const res = await fetch(`/api/users/me/webhooks/${id}/deliveries`)
+      if (res.ok) {
+        const data = await res.json()
+        setDeliveries(data.deliveries)
+      }
+    } catch (error: unknown) {
+      console.error("Failed to fetch deliveries:", error)
+    } finally {
+      setLogLoading(false)
+    }
+  }, [])
+
+  const handleCreate = async () => {
+    setCreating(true)
+    try {
+      const res = await fetch("/api/users/me/webhooks", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ url, format, events }),
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        toast.error(data.error || "Failed to add webhook")
+        return
+      }
+      const { secret: issued, ...webhook } = data
+      setWebhooks(list => [...list, webhook])
+      setSecret({ id: webhook.id, value: issued })
+      setUrl("")
+      toast.success("Webhook added")
+    } catch {
+      toast.error("An error occurred while adding the webhook")
+    } finally {
+      setCreating(false)
+    }
+  }
+
+  const handleUpdate = async (id: string, changes: Record<string, unknown>) => {
+    try {
+      const res = await fetch(`/api/users/me/webhooks/${id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(changes),
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        toast.error(data.error || "Failed to update webhook")
+        return
+      }
+      const { secret: issued, ...webhook } = data
+      setWebhooks(list => list.map(w => (w.id === id ? webhook : w)))
+      if (issued) setSecret({ id, value: issued })
+    } catch {
+      toast.error("An error occurred while updating the webhook")
+    }
+  }
+
+  const handleDelete = async (id: string) => {
+    try {
+      const res = await fetch(`/api/users/me/webhooks/${id}`, { method: "DELETE" })
+      if (res.ok) {
+        setWebhooks(list => list.filter(w => w.id !== id))
+        if (openLog === id) setOpenLog(null)
+        toast.success("Webhook removed")
+      } else {
+        toast.error("Failed to remove webhook")
+      }
+    } catch {
+      toast.error("An error occurred while removing the webhook")
+    }
+  }
+
+  const handleRedeliver = async (webhookId: string, deliveryId: string) => {
+    try {
+      const res = await fetch(`/api/users/me/webhooks/${webhookId}/deliveries/${deliveryId}/redeliver`, { method: "POST" })
+      const data = await res.json()
+      if (!res.ok) {
+        toast.error(data.error || "Failed to redeliver")
+        return
+      }
+      toast.success("Redelivery queued")
+      await loadDeliveries(webhookId)
+    } catch {
+      toast.error("An error occurred while redelivering")
+    }
+  }
+
+  const toggleLog = async (id: string) => {
+    if (openLog === id) {
+      setOpenLog(null)
+      return
+    }
+    setOpenLog(id)
+    setDeliveries([])
+    await loadDeliveries(id)
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center p-8">
+        <Loader2 className="size-6 animate-spin text-zinc-400" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-xs text-zinc-500">
+        Send events to a Discord or Slack channel, or to your own service. Requests are signed with
+        an HMAC-SHA256 <code>X-MangaTrack-Signature</code> header.
+      </p>
+
+      {webhooks.map(webhook => (
+        <div key={webhook.id} className="p-4 rounded-2xl bg-white dark:bg-zinc-950 border border-zinc-100 dark:border-zinc-800 space-y-3">
+          <div className="flex items-center justify-between gap-3">
+            <div className="space-y-0.5 min-w-0">
+              <p className="font-medium text-sm truncate">{maskUrl(webhook.url)}</p>
+              <p className="text-xs text-zinc-500">
+                {FORMAT_OPTIONS.find(f => f.id === webhook.format)?.label ?? webhook.format}
+                {" · "}
+                {webhook.events.map(e => EVENT_OPTIONS.find(o => o.id === e)?.label ?? e).join(", ")}
+                {!webhook.enabled && webhook.failure_count > 0 && " · disabled after repeated failures"}
+              </p>
+            </div>
+            <div className="flex items-center gap-1 shrink-0">
+              <Switch
+                checked={webhook.enabled}
+                onCheckedChange={(checked) => handleUpdate(webhook.id, { enabled: checked })}
+              />
+              <Button type="button" variant="ghost" size="icon" title="Rotate secret" onClick={() => handleUpdate(webhook.id, { rotate_secret: true })}>
+                <KeyRound className="size-4" />
+              </Button>
+              <Button type="button" variant="ghost" size="icon" title="Delivery log" onClick={() => toggleLog(webhook.id)}>
+                {openLog === webhook.id ? <ChevronUp className="size-4" /> : <ChevronDown className="size-4" />}
+              </Button>
+              <Button type="button" variant="ghost" size="icon" title="Remove" onClick={() => handleDelete(webhook.id)}>
+                <Trash2 className="size-4 text-red-500" />
+              </Button>
+            </div>
+          </div>
+
+          {secret?.id === webhook.id && (
+            <div className="flex items-center gap-2 p-3 rounded-xl bg-amber-50 dark:bg-amber-950/30 text-xs">
+              <span className="text-amber-700 dark:text-amber-400 shrink-0">Signing secret (shown once):</span>
+              <code className="truncate">{secret.value}</code>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="shrink-0"
+                onClick={() => {
+                  navigator.clipboard.writeText(secret.value)
+                  toast.success("Secret copied")
+                }}
+              >
+                <Copy className="size-4" />
+              </Button>
+            </div>
+          )}
+
+          {openLog === webhook.id && (
+            <div className="space-y-2 border-t border-zinc-100 dark:border-zinc-800 pt-3">
+              {logLoading ? (
+                <Loader2 className="size-4 animate-spin text-zinc-400" />
+              ) : deliveries.length === 0 ? (
+                <p className="text-xs text-zinc-500">No deliveries yet.</p>
+              ) : (
+                deliveries.map(delivery => (
+                  <div key={delivery.id} className="flex items-center justify-between gap-3 text-xs">
+                    <div className="min-w-0">
+                      <span className={STATUS_STYLES[delivery.status] ?? "text-zinc-500"}>{delivery.status}</span>
+                      {" · "}
+                      {EVENT_OPTIONS.find(o => o.id === delivery.event)?.label ?? delivery.event}
+                      {" · "}
+                      {new Date(delivery.created_at).toLocaleString()}
+                      {delivery.error && <span className="block text-zinc-500 truncate">{delivery.error}</span>}
+                    </div>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      className="shrink-0"
+                      disabled={!webhook.enabled}
+                      onClick={() => handleRedeliver(webhook.id, delivery.id)}
+                    >
+                      <RotateCw className="size-3 mr-1" />
+                      Redeliver
+                    </Button>
+                  </div>
+                ))
+              )}
+            </div>
+          )}
+        </div>
+      ))}
+
+      <div className="p-4 rounded-2xl bg-white dark:bg-zinc-950 border border-zinc-100 dark:border-zinc-800 space-y-3">
+        <div className="flex gap-2">
+          <Input
+            placeholder="https://discord.com/api/webhooks/…"
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+            className="rounded-xl"
+          />
+          <Select value={format} onValueChange={setFormat}>
+            <SelectTrigger className="rounded-xl w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {FORMAT_OPTIONS.map(option => (
+                <SelectItem key={option.id} value={option.id}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex flex-wrap gap-4">
+          {EVENT_OPTIONS.map(option => (
+            <label key={option.id} className="flex items-center gap-2 text-xs">
+              <Checkbox
+                checked={events.includes(option.id)}
+                onCheckedChange={(checked) => setEvents(list => (checked ? [...list, option.id] : list.filter(e => e !== option.id)))}
+              />
+              {option.label}
+            </label>
+          ))}
+        </div>
+        <Button
+          type="button"
+          variant="outline"
+          className="rounded-full"
+          onClick={handleCreate}
+          disabled={creating || !url || events.length === 0}
+        >
+          {creating && <Loader2 className="size-4 mr-2 animate-spin" />}
+          Add Webhook
+        </Button>
+      </div>
+    </div>
+  )
+}
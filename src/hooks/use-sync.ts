@@ -3,6 +3,10 @@
 import { useEffect, useState, useCallback, useRef } from 'react';
 import { SyncOutbox } from '@/lib/sync/outbox';
 import { SyncReconciler } from '@/lib/sync/reconciler';
+import { SyncState } from '@/lib/sync/state';
+import { refreshLibrarySnapshot } from '@/lib/sync/offline-library';
+import { registerSyncServiceWorker, requestBackgroundReplay } from '@/lib/sync/service-worker';
+import type { CanonicalEntryState } from '@/lib/sync/protocol';
 
 export function useSync() {
   const [isOnline, setIsOnline] = useState(true);
@@ -11,65 +15,82 @@ export function useSync() {
   const isSyncingRef = useRef(false);
   const intervalRef = useRef<NodeJS.Timeout | null>(null);
 
-    const updateStatus = useCallback(() => {
-      setIsOnline(navigator.onLine);
-      setPendingCount(SyncOutbox.getActions().length);
-    }, []);
+  const updateStatus = useCallback(async () => {
+    setIsOnline(navigator.onLine);
+    setPendingCount((await SyncOutbox.getActions()).length);
+  }, []);
 
-    const sync = useCallback(async () => {
-      // Only sync if online, not already syncing, and there's something to sync
-      const pending = SyncOutbox.getActions().length;
-      if (!navigator.onLine || isSyncingRef.current || pending === 0) return;
-      
-      isSyncingRef.current = true;
-      setIsSyncing(true);
-      try {
+  const sync = useCallback(async () => {
+    // Only sync if online and not already syncing
+    if (!navigator.onLine || isSyncingRef.current) return;
+
+    isSyncingRef.current = true;
+    setIsSyncing(true);
+    try {
+      // Push local actions first so the pull reflects their outcome. The
+      // service worker replays when it controls the page; it reports back
+      // through an OUTBOX_REPLAYED message.
+      if ((await SyncOutbox.getActions()).length > 0 && !(await requestBackgroundReplay())) {
         await SyncReconciler.processOutbox();
-      } finally {
-        isSyncingRef.current = false;
-        setIsSyncing(false);
-        updateStatus();
       }
-    }, [updateStatus]);
+      await SyncReconciler.pullChanges();
+      await refreshLibrarySnapshot();
+    } catch {
+      // Connectivity dropped mid-sync; the next online event retries
+    } finally {
+      isSyncingRef.current = false;
+      setIsSyncing(false);
+      await updateStatus();
+    }
+  }, [updateStatus]);
 
-    const handleOutboxUpdate = useCallback(() => {
-      updateStatus();
-      if (navigator.onLine && !isSyncingRef.current) {
-        sync();
-      }
-    }, [updateStatus, sync]);
+  const handleOutboxUpdate = useCallback(() => {
+    updateStatus();
+    if (navigator.onLine && !isSyncingRef.current) {
+      sync();
+    }
+  }, [updateStatus, sync]);
 
-    useEffect(() => {
-      if (typeof window === 'undefined') return;
+  const handleWorkerMessage = useCallback(async (event: MessageEvent) => {
+    if (event.data?.type !== 'OUTBOX_REPLAYED') return;
+    // The worker already stored these; applying them here notifies listeners
+    await SyncState.applyEntries(event.data.entries as CanonicalEntryState[]);
+    await updateStatus();
+  }, [updateStatus]);
 
-      // Initial status
-      updateStatus();
+  useEffect(() => {
+    if (typeof window === 'undefined') return;
 
-      // Listen for connectivity changes
-      window.addEventListener('online', sync);
-      window.addEventListener('offline', updateStatus);
-      
-      // Listen for outbox changes (from other hooks or tabs)
-      window.addEventListener('sync-outbox-updated', handleOutboxUpdate);
-      
-      // Auto-sync on mount if online and has pending items
-      if (navigator.onLine && SyncOutbox.getActions().length > 0) {
-        sync();
-      }
+    // Initial status
+    updateStatus();
+    registerSyncServiceWorker();
+
+    // Listen for connectivity changes
+    window.addEventListener('online', sync);
+    window.addEventListener('offline', updateStatus);
+
+    // Listen for outbox changes (from other hooks or tabs)
+    window.addEventListener('sync-outbox-updated', handleOutboxUpdate);
+    navigator.serviceWorker?.addEventListener('message', handleWorkerMessage);
 
+    // Auto-sync on mount: replay pending items and catch up on remote changes
+    if (navigator.onLine) {
+      sync();
+    }
 
-    // Periodic sync attempt (every 5 minutes) - only syncs if pending > 0 (checked in sync())
+    // Periodic sync attempt (every 5 minutes) - replays the outbox and pulls remote changes
     intervalRef.current = setInterval(sync, 5 * 60 * 1000);
 
     return () => {
       window.removeEventListener('online', sync);
       window.removeEventListener('offline', updateStatus);
       window.removeEventListener('sync-outbox-updated', handleOutboxUpdate);
+      navigator.serviceWorker?.removeEventListener('message', handleWorkerMessage);
       if (intervalRef.current) {
         clearInterval(intervalRef.current);
       }
     };
-  }, [sync, updateStatus, handleOutboxUpdate]);
+  }, [sync, updateStatus, handleOutboxUpdate, handleWorkerMessage]);
 
   return {
     isOnline,
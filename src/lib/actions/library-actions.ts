@@ -3,8 +3,10 @@
 import { revalidatePath } from 'next/cache'
 import { createClient } from '@/lib/supabase/server'
 import { prisma } from '@/lib/prisma'
-import { UUIDSchema, StatusSchema, ChapterSchema, RatingSchema } from '@/lib/schemas/actions'
-import { promoteSeriesTier } from '@/lib/catalog-tiers'
+import { UUIDSchema, StatusSchema, ChapterSchema } from '@/lib/schemas/actions'
+import { addSeriesToLibrary, currentReadThrough } from '@/lib/library-entries'
+import { DEFAULT_RATING_SCALE, RatingScale, parseRatingInput } from '@/lib/ratings'
+import { recalculateSeriesRatings } from '@/lib/series-ratings'
 import { XP_PER_CHAPTER, XP_SERIES_COMPLETED, addXp, calculateLevel } from '@/lib/gamification/xp'
 import { calculateSeasonXpUpdate } from '@/lib/gamification/seasons'
 import { calculateNewStreak, calculateStreakBonus } from '@/lib/gamification/streaks'
@@ -38,81 +40,7 @@ export async function addToLibrary(seriesId: string, status: string = 'reading')
   }
 
   try {
-    const entry = await prisma.$transaction(async (tx) => {
-      // 1. Get series and its primary source
-        const series = await tx.series.findUnique({
-          where: { id: seriesIdResult.data },
-          include: {
-            SeriesSource: {
-              take: 1,
-              orderBy: { trust_score: 'desc' }
-            }
-          }
-        })
-
-        if (!series) {
-          throw new Error('Series not found')
-        }
-
-        const primarySource = series.SeriesSource[0]
-      if (!primarySource || !primarySource.source_url) {
-        throw new Error('Series has no valid source URL. Cannot add to library.')
-      }
-
-      // 2. Check if already exists
-      const existingEntry = await tx.libraryEntry.findUnique({
-        where: {
-          user_id_source_url: {
-            user_id: user.id,
-            source_url: primarySource.source_url,
-          }
-        },
-        select: { id: true, deleted_at: true }
-      })
-
-      // 3. Upsert entry
-      const entry = await tx.libraryEntry.upsert({
-        where: {
-          user_id_source_url: {
-            user_id: user.id,
-            source_url: primarySource.source_url,
-          }
-        },
-        update: {
-          series_id: seriesIdResult.data,
-          status: statusResult.data as any,
-          deleted_at: null,
-          updated_at: new Date(),
-        },
-        create: {
-          user_id: user.id,
-          series_id: seriesIdResult.data,
-          source_url: primarySource.source_url,
-          source_name: primarySource.source_name,
-          status: statusResult.data as any,
-          last_read_chapter: 0,
-          sync_priority: 'WARM',
-          metadata_status: 'enriched',
-        }
-      })
-
-      // 4. Update follow count and tier if new or restored
-      let shouldPromote = false
-      if (!existingEntry || existingEntry.deleted_at) {
-        await tx.series.update({
-          where: { id: seriesIdResult.data },
-          data: { total_follows: { increment: 1 } }
-        })
-        shouldPromote = true
-      }
-
-      return { entry, shouldPromote }
-    })
-
-    // 5. Side effects outside transaction to avoid deadlocks
-    if (entry.shouldPromote) {
-      await promoteSeriesTier(seriesIdResult.data, 'user_follow')
-    }
+    const entry = await addSeriesToLibrary(user.id, seriesIdResult.data, statusResult.data)
 
     // Log activity
     await supabase.from('activities').insert({
@@ -129,7 +57,7 @@ export async function addToLibrary(seriesId: string, status: string = 'reading')
     const { sanitizePrismaObject } = await import('@/lib/utils')
     
     return { 
-      data: sanitizePrismaObject(entry.entry)
+      data: sanitizePrismaObject(entry)
     }
   } catch (error: unknown) {
     logger.error('Failed to add to library:', { error: error instanceof Error ? error.message : String(error) })
@@ -212,18 +140,42 @@ export async function updateProgress(entryId: string, chapter: number, seriesId:
   // XP NORMALIZATION: Fetch current progress to check monotonicity
   const { data: currentEntry } = await supabase
     .from('library_entries')
-    .select('last_read_chapter')
+    .select('last_read_chapter, reread_count')
     .eq('id', entryIdResult.data)
     .eq('user_id', user.id)
     .single()
 
-  const currentLastRead = currentEntry?.last_read_chapter ?? 0
+  const currentLastRead = Number(currentEntry?.last_read_chapter ?? 0)
   const isProgressingForward = chapterResult.data > currentLastRead
+  const readThrough = currentReadThrough(currentEntry?.reread_count)
+
+  // Chapters from an earlier read-through don't earn XP again
+  const { data: logicalChapter } = await supabase
+    .from('logical_chapters')
+    .select('id')
+    .eq('series_id', seriesIdResult.data)
+    .eq('chapter_number', chapterResult.data)
+    .is('deleted_at', null)
+    .limit(1)
+    .maybeSingle()
+
+  let alreadyRead = false
+  if (logicalChapter && isProgressingForward && readThrough > 1) {
+    const { data: existingRead } = await supabase
+      .from('user_chapter_reads_v2')
+      .select('is_read')
+      .eq('user_id', user.id)
+      .eq('chapter_id', logicalChapter.id)
+      .maybeSingle()
+    alreadyRead = existingRead?.is_read ?? false
+  }
 
+  // Progress only moves forward; going back to chapter 1 after finishing
+  // takes a re-read, which resets last_read_chapter first
   const { data, error } = await supabase
     .from('library_entries')
     .update({
-      last_read_chapter: chapterResult.data,
+      ...(isProgressingForward ? { last_read_chapter: chapterResult.data } : {}),
       last_read_at: new Date().toISOString(),
       updated_at: new Date().toISOString(),
     })
@@ -256,7 +208,7 @@ export async function updateProgress(entryId: string, chapter: number, seriesId:
   }
 
   // XP NORMALIZATION: Only award XP when progressing forward (monotonic)
-  if (isProgressingForward) {
+  if (isProgressingForward && !alreadyRead) {
     try {
       // Use Prisma transaction to update XP, streak, and check achievements atomically
       const result = await prisma.$transaction(async (tx) => {
@@ -367,28 +319,20 @@ export async function updateProgress(entryId: string, chapter: number, seriesId:
   }
 
   try {
-    const { data: chapter } = await supabase
-      .from('logical_chapters')
-      .select('id')
-      .eq('series_id', seriesIdResult.data)
-      .eq('chapter_number', chapterResult.data)
-      .eq('deleted_at', null)
-      .limit(1)
-      .maybeSingle()
-
-    if (chapter) {
+    if (logicalChapter) {
         await Promise.all([
           supabase.from('user_chapter_reads_v2').upsert({
             user_id: user.id,
-            chapter_id: chapter.id,
+            chapter_id: logicalChapter.id,
             source_used_id: sourceId,
             read_at: new Date().toISOString(),
+            read_through: readThrough,
           }, {
             onConflict: 'user_id,chapter_id'
           }),
           supabase.from('user_chapter_reads').upsert({
             user_id: user.id,
-            chapter_id: chapter.id,
+            chapter_id: logicalChapter.id,
             read_at: new Date().toISOString(),
           }, {
             onConflict: 'user_id,chapter_id'
@@ -526,15 +470,15 @@ export async function updateStatus(entryId: string, status: string, seriesId: st
   }
 }
 
-export async function updateRating(entryId: string, rating: number) {
+export async function updateRating(entryId: string, rating: number | null, scale: RatingScale = DEFAULT_RATING_SCALE) {
   const entryIdResult = UUIDSchema.safeParse(entryId)
   if (!entryIdResult.success) {
     return { error: 'Invalid entry ID format' }
   }
   
-  const ratingResult = RatingSchema.safeParse(rating)
-  if (!ratingResult.success) {
-    return { error: 'Invalid rating. Must be an integer between 1 and 10' }
+  const ratingResult = parseRatingInput(rating, scale)
+  if (ratingResult.error !== undefined) {
+    return { error: `Invalid rating. ${ratingResult.error}` }
   }
 
   const supabase = await createClient()
@@ -548,7 +492,7 @@ export async function updateRating(entryId: string, rating: number) {
   const { data, error } = await supabase
     .from('library_entries')
     .update({
-      user_rating: ratingResult.data,
+      user_rating: ratingResult.score,
       updated_at: new Date().toISOString(),
     })
     .eq('id', entryIdResult.data)
@@ -560,7 +504,10 @@ export async function updateRating(entryId: string, rating: number) {
     return { error: error.message }
   }
 
+  await recalculateSeriesRatings([data.series_id])
+
   revalidatePath('/library')
+  if (data.series_id) revalidatePath(`/series/${data.series_id}`)
   return { data }
 }
 
@@ -0,0 +1,100 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { createClient } from '@/lib/supabase/server'
+import { prisma } from '@/lib/prisma'
+import { UUIDSchema, StatusSchema } from '@/lib/schemas/actions'
+import { addSeriesToLibrary } from '@/lib/library-entries'
+import { canViewList } from '@/lib/lists'
+import { invalidateLibraryCache } from '@/lib/cache-utils'
+import { logger } from '@/lib/logger'
+
+/**
+ * Copies a list into the user's library with the chosen status. Series the
+ * user already has keep their current status and progress; the rest go
+ * through the same path as addToLibrary.
+ */
+export async function forkList(listId: string, status: string = 'planning') {
+  const listIdResult = UUIDSchema.safeParse(listId)
+  if (!listIdResult.success) {
+    return { error: 'Invalid list ID format' }
+  }
+
+  const statusResult = StatusSchema.safeParse(status)
+  if (!statusResult.success) {
+    return { error: 'Invalid status. Must be one of: reading, completed, planning, dropped, paused' }
+  }
+
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+
+  if (!user) {
+    return { error: 'Not authenticated' }
+  }
+
+  try {
+    const list = await prisma.userList.findUnique({
+      where: { id: listIdResult.data },
+      select: {
+        user_id: true,
+        is_public: true,
+        users: { select: { privacy_settings: true } },
+        UserListItem: { orderBy: { position: 'asc' }, select: { series_id: true } },
+      },
+    })
+
+    if (!list || !canViewList(list, user.id)) {
+      return { error: 'List not found' }
+    }
+
+    const seriesIds = list.UserListItem.map(item => item.series_id)
+    const existing = await prisma.libraryEntry.findMany({
+      where: { user_id: user.id, series_id: { in: seriesIds }, deleted_at: null },
+      select: { series_id: true },
+    })
+    const owned = new Set(existing.map(entry => entry.series_id))
+
+    const added: string[] = []
+    const failed: string[] = []
+    for (const seriesId of seriesIds) {
+      if (owned.has(seriesId)) continue
+      try {
+        await addSeriesToLibrary(user.id, seriesId, statusResult.data)
+        added.push(seriesId)
+      } catch (error: unknown) {
+        logger.warn('Skipped series while forking list', {
+          listId: listIdResult.data,
+          seriesId,
+          error: error instanceof Error ? error.message : String(error),
+        })
+        failed.push(seriesId)
+      }
+    }
+
+    if (added.length > 0) {
+      await prisma.activity.createMany({
+        data: added.map(seriesId => ({
+          user_id: user.id,
+          type: 'series_added',
+          series_id: seriesId,
+          metadata: { status: statusResult.data, list_id: listIdResult.data },
+        })),
+      })
+      await invalidateLibraryCache(user.id)
+    }
+
+    revalidatePath('/library')
+    revalidatePath('/feed')
+
+    return {
+      data: {
+        added: added.length,
+        already_in_library: owned.size,
+        failed: failed.length,
+      }
+    }
+  } catch (error: unknown) {
+    logger.error('Failed to fork list:', { error: error instanceof Error ? error.message : String(error) })
+    return { error: 'Failed to add list to library' }
+  }
+}
@@ -3,6 +3,8 @@
 import { revalidatePath } from 'next/cache'
 import { createClient } from '@/lib/supabase/server'
 import { logger } from '@/lib/logger'
+import { enqueueWebhookEvents } from '@/lib/webhooks/delivery'
+import { buildAchievementEvent } from '@/lib/webhooks/events'
 
 export type GamificationNotificationType =
   | 'achievement'
@@ -25,20 +27,36 @@ export async function createGamificationNotification(
 ) {
   const supabase = await createClient()
 
-  const { error } = await supabase.from('notifications').insert({
+  const { data: notification, error } = await supabase.from('notifications').insert({
     user_id: params.userId,
     type: params.type,
     title: params.title,
     message: params.message,
     metadata: params.metadata || {},
     priority: params.priority ?? (params.type === 'season_ending' ? 1 : 2),
-  })
+  }).select('id').single()
 
   if (error) {
     logger.error('Failed to create gamification notification:', error)
     return { error }
   }
 
+  // Webhooks are best effort; the in-app notification is already saved
+  try {
+    await enqueueWebhookEvents([{
+      userId: params.userId,
+      key: `notification:${notification.id}`,
+      event: buildAchievementEvent({
+        kind: params.type,
+        title: params.title,
+        message: params.message,
+        metadata: params.metadata,
+      }),
+    }])
+  } catch (webhookError: unknown) {
+    logger.error('Failed to queue gamification webhook:', webhookError)
+  }
+
   return { success: true }
 }
 
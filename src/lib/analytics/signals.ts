@@ -14,7 +14,10 @@ export type SignalType =
   | 'manga_click'
   | 'chapter_click'
   | 'long_read_session'
-  | 'repeat_visit';
+  | 'repeat_visit'
+  | 'not_interested'
+  | 'read_elsewhere'
+  | 'more_like_this';
 
 export const SIGNAL_WEIGHTS: Record<SignalType, number> = {
   // Explicit Signals
@@ -22,6 +25,11 @@ export const SIGNAL_WEIGHTS: Record<SignalType, number> = {
   remove_from_library: -5.0,
   mark_chapter_read: 3.0,
   rating: 0, // Special case: rating * 2
+
+  // Recommendation Feedback
+  more_like_this: 6.0,
+  read_elsewhere: 2.0, // Already read: a taste signal, but nothing to recommend
+  not_interested: -8.0,
   
   // Implicit Signals
   chapter_click: 2.0,
@@ -0,0 +1,76 @@
+import crypto from 'crypto';
+import { prisma } from '@/lib/prisma';
+
+/**
+ * Personal access tokens for the public REST API. A token carries a set of
+ * scopes and is sent as `Authorization: Bearer <token>`; only its SHA-256
+ * hash is stored, so the plaintext is shown to the user exactly once.
+ */
+
+export const API_TOKEN_SCOPES = ['read:library', 'write:progress', 'read:feed'] as const;
+export type ApiTokenScope = (typeof API_TOKEN_SCOPES)[number];
+
+export const API_TOKEN_SCOPE_LABELS: Record<ApiTokenScope, string> = {
+  'read:library': 'Read your library and release calendar',
+  'write:progress': 'Update reading progress and scrobble from reader apps',
+  'read:feed': 'Read your chapter update and activity feeds',
+};
+
+export const MAX_API_TOKENS = 20;
+/** Requests per minute allowed for each token */
+export const API_TOKEN_RATE_LIMIT = 120;
+
+const TOKEN_PREFIX = 'mtp_';
+const TOKEN_PATTERN = /^mtp_[A-Za-z0-9_-]{43}$/;
+/** Characters kept in `token_prefix` so users can tell tokens apart */
+const DISPLAY_PREFIX_LENGTH = 12;
+/** `last_used_at` is only written when older than this, to spare hot rows */
+const TOUCH_INTERVAL_MS = 5 * 60 * 1000;
+
+export function hashApiToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+export function generateApiToken(): { token: string; hash: string; prefix: string } {
+  const token = `${TOKEN_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+  return { token, hash: hashApiToken(token), prefix: token.slice(0, DISPLAY_PREFIX_LENGTH) };
+}
+
+export const API_TOKEN_SELECT = {
+  id: true,
+  name: true,
+  token_prefix: true,
+  scopes: true,
+  created_at: true,
+  last_used_at: true,
+  expires_at: true,
+} as const;
+
+/**
+ * Looks up a presented token with its owner. Returns null for malformed,
+ * unknown or expired tokens.
+ */
+export async function authenticateApiToken(token: string) {
+  if (!TOKEN_PATTERN.test(token)) return null;
+
+  const record = await prisma.personalAccessToken.findUnique({
+    where: { token_hash: hashApiToken(token) },
+    select: {
+      id: true,
+      user_id: true,
+      scopes: true,
+      last_used_at: true,
+      expires_at: true,
+      users: { select: { email: true, username: true, avatar_url: true, created_at: true } },
+    },
+  });
+  if (!record) return null;
+
+  const now = new Date();
+  if (record.expires_at && record.expires_at.getTime() <= now.getTime()) return null;
+
+  if (!record.last_used_at || now.getTime() - record.last_used_at.getTime() > TOUCH_INTERVAL_MS) {
+    await prisma.personalAccessToken.update({ where: { id: record.id }, data: { last_used_at: now } });
+  }
+  return record;
+}
@@ -9,6 +9,7 @@ import { prisma, isTransientError } from './prisma'
 import { logger } from './logger'
 import { CircuitBreakerOpenError, ScraperError } from './scrapers'
 import { getInternalApiSecret } from './config/env-validation'
+import { authenticateApiToken, API_TOKEN_RATE_LIMIT, type ApiTokenScope } from './api-tokens'
 import {
   // Bug 184: API response validation
   createResponseValidator,
@@ -36,8 +37,20 @@ export interface MiddlewareUser {
   app_metadata: { role?: string };
 }
 
-export async function getMiddlewareUser(): Promise<MiddlewareUser | null> {
+/**
+ * Routes that pass a `scope` also accept `Authorization: Bearer <personal
+ * access token>` carrying that scope; the bearer header takes precedence over
+ * the session. Routes without a scope reject bearer tokens, so tokens can't
+ * reach account management.
+ */
+export async function getMiddlewareUser(options?: { scope?: ApiTokenScope }): Promise<MiddlewareUser | null> {
   const h = await headers();
+
+  const authorization = h.get('authorization');
+  if (authorization && /^bearer\s/i.test(authorization)) {
+    return getApiTokenUser(authorization.slice(7).trim(), options?.scope);
+  }
+
   const userId = h.get('x-middleware-user-id');
 
   // Fallback: If middleware headers aren't available (e.g. Turbopack dev mode
@@ -113,6 +126,34 @@ export async function getMiddlewareUser(): Promise<MiddlewareUser | null> {
   };
 }
 
+async function getApiTokenUser(token: string, scope: ApiTokenScope | undefined): Promise<MiddlewareUser | null> {
+  if (!scope) {
+    throw new ApiError('This endpoint does not accept personal access tokens', 403, ErrorCodes.FORBIDDEN);
+  }
+
+  const record = await authenticateApiToken(token);
+  if (!record) return null;
+
+  if (!record.scopes.includes(scope)) {
+    throw new ApiError(`Token is missing the ${scope} scope`, 403, ErrorCodes.FORBIDDEN);
+  }
+  if (!await checkRateLimit(`api-token:${record.id}`, API_TOKEN_RATE_LIMIT, 60000)) {
+    throw new ApiError('Too many requests for this token. Please wait a moment.', 429, ErrorCodes.RATE_LIMITED);
+  }
+
+  return {
+    id: record.user_id,
+    email: record.users.email,
+    role: '',
+    created_at: record.users.created_at.toISOString(),
+    user_metadata: {
+      username: record.users.username,
+      avatar_url: record.users.avatar_url || undefined,
+    },
+    app_metadata: {},
+  };
+}
+
 export const ErrorCodes = {
   BAD_REQUEST: 'BAD_REQUEST',
   UNAUTHORIZED: 'UNAUTHORIZED',
@@ -1107,6 +1148,10 @@ export function validateCsrfToken(request: Request, expectedToken?: string): boo
 export function validateOrigin(request: Request, options?: { requireCsrfToken?: boolean; expectedCsrfToken?: string }) {
   if (process.env.NODE_ENV === 'development') return;
 
+  // Bearer-token requests never ride on the session cookie (getMiddlewareUser
+  // ignores the session when a token is present), so there is nothing to forge
+  if (/^bearer\s/i.test(request.headers.get('authorization') || '')) return;
+
   const origin = request.headers.get("origin");
   const host = request.headers.get("host");
   
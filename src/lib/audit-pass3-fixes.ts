@@ -554,6 +554,13 @@ export const QUEUE_CONFIGS: Record<string, QueueConfigOptions> = {
     stalledInterval: 120000,
     maxStalledCount: 1
   },
+  'export': {
+    queueName: 'export',
+    concurrency: getEnvInt('WORKER_EXPORT_CONCURRENCY', 1),
+    lockDuration: getEnvInt('WORKER_EXPORT_LOCK_DURATION', 300000),
+    stalledInterval: 60000,
+    maxStalledCount: 1
+  },
   'feed-fanout': {
     queueName: 'feed-fanout',
     concurrency: getEnvInt('WORKER_FEED_FANOUT_CONCURRENCY', 5),
@@ -574,6 +581,13 @@ export const QUEUE_CONFIGS: Record<string, QueueConfigOptions> = {
     lockDuration: getEnvInt('WORKER_NOTIFICATION_TIMING_LOCK_DURATION', 60000),
     stalledInterval: 30000,
     maxStalledCount: 2
+  },
+  'webhook-delivery': {
+    queueName: 'webhook-delivery',
+    concurrency: getEnvInt('WORKER_WEBHOOK_DELIVERY_CONCURRENCY', 10),
+    lockDuration: getEnvInt('WORKER_WEBHOOK_DELIVERY_LOCK_DURATION', 30000),
+    stalledInterval: 15000,
+    maxStalledCount: 2
   }
 };
 
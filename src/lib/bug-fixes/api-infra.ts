@@ -6,6 +6,7 @@
 
 import { z } from 'zod';
 import { logger } from '../logger';
+import { MAX_CANONICAL_RATING, MIN_CANONICAL_RATING } from '../ratings';
 
 // Bug 181: API handlers lack strict input validation
 export const ApiInputSchemas = {
@@ -44,7 +45,8 @@ export const LibraryEntryCreateSchema = z.object({
 export const LibraryEntryUpdateSchema = z.object({
   status: z.enum(['reading', 'completed', 'on_hold', 'dropped', 'plan_to_read']).optional(),
   last_read_chapter: z.number().min(0).max(10000).optional(),
-  user_rating: z.number().int().min(1).max(10).optional(),
+  // Canonical 0-100 score (see lib/ratings)
+  user_rating: z.number().int().min(MIN_CANONICAL_RATING).max(MAX_CANONICAL_RATING).optional(),
   notify_new_chapters: z.boolean().optional()
 });
 
@@ -0,0 +1,103 @@
+/**
+ * Item-item collaborative filtering.
+ *
+ * Series are similar when the same readers keep them in their libraries. Each
+ * library entry is weighted by its status and canonical 0-100 rating
+ * (libraryEntryWeight); the recommendations scheduler turns those weights
+ * into series_neighbors (cosine similarity, shrunk by co-reader count) and
+ * getHybridRecommendations scores candidates from a reader's own entries
+ * with scoreCollaborativeCandidates.
+ */
+
+/** How much each library status says about a reader liking a series */
+export const CF_STATUS_WEIGHTS: Readonly<Record<string, number>> = {
+  completed: 1.0,
+  reading: 0.8,
+  paused: 0.5,
+  planning: 0.3,
+  dropped: 0,
+};
+
+/** Entries rated below this (canonical 0-100) are ignored */
+export const CF_MIN_RATING = 40;
+
+/** Rating factor for entries the reader hasn't rated */
+export const CF_UNRATED_FACTOR = 0.6;
+
+/** Pairs read together by fewer readers than this are not stored */
+export const CF_MIN_CO_READERS = 3;
+
+/** Similarity is multiplied by co_readers / (co_readers + CF_SHRINKAGE) */
+export const CF_SHRINKAGE = 10;
+
+/** Neighbours stored per series */
+export const CF_NEIGHBORS_PER_SERIES = 30;
+
+/** Readers with more entries than this are left out of the co-occurrence counts */
+export const CF_MAX_LIBRARY_SIZE = 500;
+
+export function libraryEntryWeight(status: string | null | undefined, userRating: number | null | undefined): number {
+  const statusWeight = CF_STATUS_WEIGHTS[status?.toLowerCase() ?? ''] ?? 0;
+  if (userRating === null || userRating === undefined) return statusWeight * CF_UNRATED_FACTOR;
+  if (userRating < CF_MIN_RATING) return 0;
+  return statusWeight * Math.min(100, userRating) / 100;
+}
+
+export interface CollaborativeSeed {
+  series_id: string;
+  title: string;
+  weight: number;
+}
+
+export interface SeriesNeighborRow {
+  series_id: string;
+  neighbor_id: string;
+  score: number;
+}
+
+export interface CollaborativeScore {
+  score: number;
+  /** Library series that contributed most, strongest first */
+  because: Array<{ id: string; title: string }>;
+}
+
+const MAX_EXPLANATIONS = 2;
+
+/**
+ * Scores each neighbour of the reader's library as 1 - Π(1 - weight × similarity)
+ * over the library series it neighbours, so several good matches add up
+ * without the score leaving 0–1. Series in `excludeIds` are skipped.
+ */
+export function scoreCollaborativeCandidates(
+  seeds: CollaborativeSeed[],
+  neighbors: SeriesNeighborRow[],
+  excludeIds: ReadonlySet<string>
+): Map<string, CollaborativeScore> {
+  const seedsById = new Map(seeds.map(seed => [seed.series_id, seed]));
+  const candidates = new Map<string, { miss: number; contributions: Array<{ seed: CollaborativeSeed; value: number }> }>();
+
+  for (const row of neighbors) {
+    const seed = seedsById.get(row.series_id);
+    if (!seed || excludeIds.has(row.neighbor_id) || seedsById.has(row.neighbor_id)) continue;
+
+    const value = Math.min(1, Math.max(0, seed.weight * row.score));
+    if (value === 0) continue;
+
+    const candidate = candidates.get(row.neighbor_id) ?? { miss: 1, contributions: [] };
+    candidate.miss *= 1 - value;
+    candidate.contributions.push({ seed, value });
+    candidates.set(row.neighbor_id, candidate);
+  }
+
+  const scores = new Map<string, CollaborativeScore>();
+  for (const [id, candidate] of candidates) {
+    scores.set(id, {
+      score: 1 - candidate.miss,
+      because: candidate.contributions
+        .sort((a, b) => b.value - a.value)
+        .slice(0, MAX_EXPLANATIONS)
+        .map(({ seed }) => ({ id: seed.series_id, title: seed.title })),
+    });
+  }
+  return scores;
+}
@@ -22,6 +22,21 @@ const EnvSchema = z.object({
   ALLOWED_CSRF_ORIGINS: z.string().optional(),
   
   FEATURE_FLAGS: z.string().optional(),
+
+  VAPID_PUBLIC_KEY: z.string().optional(),
+  VAPID_PRIVATE_KEY: z.string().optional(),
+  VAPID_SUBJECT: z.string().optional(),
+
+  EMAIL_TRANSPORT: z.enum(['smtp', 'file', 'console', 'none']).optional(),
+  EMAIL_FROM: z.string().optional(),
+  EMAIL_FILE_DIR: z.string().optional(),
+  EMAIL_UNSUBSCRIBE_SECRET: z.string().min(32).optional(),
+  EMAIL_WEBHOOK_SECRET: z.string().min(16).optional(),
+  SMTP_HOST: z.string().optional(),
+  SMTP_PORT: z.string().regex(/^\d+$/).optional(),
+  SMTP_SECURE: z.enum(['true', 'false']).optional(),
+  SMTP_USER: z.string().optional(),
+  SMTP_PASS: z.string().optional(),
 });
 
 export type EnvConfig = z.infer<typeof EnvSchema>;
@@ -85,6 +100,18 @@ export function validateEnv(): ValidationResult {
     }
   }
 
+  if (!process.env.VAPID_PUBLIC_KEY || !process.env.VAPID_PRIVATE_KEY) {
+    warnings.push('VAPID_PUBLIC_KEY/VAPID_PRIVATE_KEY not set - web push notifications are disabled');
+  }
+
+  if (process.env.NODE_ENV === 'production' && !process.env.SMTP_HOST && process.env.EMAIL_TRANSPORT !== 'none') {
+    warnings.push('SMTP_HOST not set - email notifications are disabled');
+  }
+
+  if (process.env.NODE_ENV === 'production' && !process.env.EMAIL_UNSUBSCRIBE_SECRET && !process.env.INTERNAL_API_SECRET) {
+    warnings.push('EMAIL_UNSUBSCRIBE_SECRET not set - email unsubscribe links cannot be signed');
+  }
+
   if (process.env.NODE_ENV === 'production' && !process.env.NEXT_PUBLIC_SITE_URL) {
     warnings.push('NEXT_PUBLIC_SITE_URL not set - some features may not work correctly');
   }
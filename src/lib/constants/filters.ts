@@ -199,6 +199,16 @@ export const CONTENT_RATINGS = [
 
 export type ContentRating = typeof CONTENT_RATINGS[number]['value']
 
+// DEMOGRAPHIC (stored lowercase in DB - MangaDex publicationDemographic)
+export const DEMOGRAPHICS = [
+  { value: 'shounen', label: 'Shounen' },
+  { value: 'shoujo', label: 'Shoujo' },
+  { value: 'seinen', label: 'Seinen' },
+  { value: 'josei', label: 'Josei' },
+] as const
+
+export type Demographic = typeof DEMOGRAPHICS[number]['value']
+
 // =====================================================
 // CANONICAL URL PARAMETER NAMES
 // Single source of truth for all filter parameter names
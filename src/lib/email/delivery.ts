@@ -0,0 +1,156 @@
+import { prisma } from '@/lib/prisma';
+import { logger } from '@/lib/logger';
+import type { DigestSeries } from '@/lib/notifications-digest';
+import { SmtpError } from './smtp';
+import { renderChapterAlertEmail, renderDigestEmail, RenderedEmail } from './templates';
+import { EmailTransport, getEmailTransport, sendEmail } from './transport';
+import { buildUnsubscribeUrl, EmailType, getSiteUrl, isEmailEnabled } from './unsubscribe';
+
+/**
+ * Sends notification emails to users who have the matching email type
+ * switched on, skipping suppressed addresses. Recipients the relay rejects
+ * outright (5xx on RCPT) are suppressed as hard bounces; other failures are
+ * logged and left for the next notification.
+ */
+
+export interface ChapterEmailMessage {
+  userId: string;
+  seriesId: string;
+  seriesTitle: string;
+  chapterNumber: number;
+  sourceName?: string;
+}
+
+export interface EmailDeliveryResult {
+  sent: number;
+  failed: number;
+  suppressed: number;
+  skipped: boolean;
+}
+
+export type SuppressionReason = 'bounce' | 'complaint';
+
+const SEND_CONCURRENCY = 5;
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+export async function suppressEmail(email: string, reason: SuppressionReason, detail?: string): Promise<void> {
+  const normalized = normalizeEmail(email);
+  const data = { reason, detail: detail?.slice(0, 500) ?? null };
+  await prisma.emailSuppression.upsert({
+    where: { email: normalized },
+    create: { email: normalized, ...data },
+    // A complaint outranks a bounce; never downgrade it
+    update: reason === 'complaint' ? data : {},
+  });
+}
+
+async function loadRecipients(userIds: string[], type: EmailType) {
+  const users = await prisma.user.findMany({
+    where: { id: { in: userIds }, deleted_at: null },
+    select: { id: true, email: true, notification_settings: true },
+  });
+  const enabled = users.filter(u => u.email && isEmailEnabled(u.notification_settings, type));
+  if (enabled.length === 0) return { recipients: [], suppressed: 0 };
+
+  const suppressions = await prisma.emailSuppression.findMany({
+    where: { email: { in: enabled.map(u => normalizeEmail(u.email)) } },
+    select: { email: true },
+  });
+  const suppressed = new Set(suppressions.map(s => s.email));
+  const recipients = enabled.filter(u => !suppressed.has(normalizeEmail(u.email)));
+  return { recipients, suppressed: enabled.length - recipients.length };
+}
+
+async function deliver(
+  transport: EmailTransport,
+  to: string,
+  email: RenderedEmail,
+  unsubscribeUrl: string,
+  result: EmailDeliveryResult
+): Promise<void> {
+  try {
+    await sendEmail(transport, { to, ...email, unsubscribeUrl });
+    result.sent++;
+  } catch (error: unknown) {
+    result.failed++;
+    if (error instanceof SmtpError && error.recipientRejected) {
+      await suppressEmail(to, 'bounce', error.message).catch(() => {});
+      logger.warn('[Email] Recipient rejected, address suppressed', { code: error.code });
+      return;
+    }
+    logger.warn('[Email] Email delivery failed', { error: error instanceof Error ? error.message : String(error) });
+  }
+}
+
+const settingsUrl = () => `${getSiteUrl()}/settings`;
+const seriesUrl = (seriesId: string) => `${getSiteUrl()}/series/${seriesId}`;
+
+export async function deliverChapterEmails(
+  messages: ChapterEmailMessage[],
+  options: { transport?: EmailTransport | null } = {}
+): Promise<EmailDeliveryResult> {
+  const result: EmailDeliveryResult = { sent: 0, failed: 0, suppressed: 0, skipped: false };
+  if (messages.length === 0) return result;
+
+  const transport = options.transport === undefined ? getEmailTransport() : options.transport;
+  if (!transport) {
+    return { ...result, skipped: true };
+  }
+
+  const { recipients, suppressed } = await loadRecipients(Array.from(new Set(messages.map(m => m.userId))), 'new_chapters');
+  result.suppressed = suppressed;
+  const messageByUser = new Map(messages.map(m => [m.userId, m]));
+
+  for (let i = 0; i < recipients.length; i += SEND_CONCURRENCY) {
+    const batch = recipients.slice(i, i + SEND_CONCURRENCY);
+    await Promise.all(batch.map(user => {
+      const message = messageByUser.get(user.id)!;
+      const unsubscribeUrl = buildUnsubscribeUrl(user.id, 'new_chapters');
+      const email = renderChapterAlertEmail({
+        seriesTitle: message.seriesTitle,
+        chapterNumber: message.chapterNumber,
+        sourceName: message.sourceName,
+        seriesUrl: seriesUrl(message.seriesId),
+        unsubscribeUrl,
+        settingsUrl: settingsUrl(),
+      });
+      return deliver(transport, user.email, email, unsubscribeUrl, result);
+    }));
+  }
+
+  return result;
+}
+
+export async function deliverDigestEmail(
+  userId: string,
+  frequency: string,
+  series: DigestSeries[],
+  options: { transport?: EmailTransport | null } = {}
+): Promise<EmailDeliveryResult> {
+  const result: EmailDeliveryResult = { sent: 0, failed: 0, suppressed: 0, skipped: false };
+  if (series.length === 0) return result;
+
+  const transport = options.transport === undefined ? getEmailTransport() : options.transport;
+  if (!transport) {
+    return { ...result, skipped: true };
+  }
+
+  const { recipients, suppressed } = await loadRecipients([userId], 'digest');
+  result.suppressed = suppressed;
+  const [user] = recipients;
+  if (!user) return result;
+
+  const unsubscribeUrl = buildUnsubscribeUrl(user.id, 'digest');
+  const email = renderDigestEmail({
+    frequency,
+    series,
+    seriesUrl,
+    unsubscribeUrl,
+    settingsUrl: settingsUrl(),
+  });
+  await deliver(transport, user.email, email, unsubscribeUrl, result);
+  return result;
+}
@@ -0,0 +1,89 @@
+import crypto from 'crypto';
+
+/**
+ * Minimal RFC 5322 / MIME builder for notification mail: a
+ * multipart/alternative message with base64 text and HTML parts, which every
+ * mail client renders and no transport has to re-encode.
+ */
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+  /** One-click unsubscribe target (RFC 8058), also shown in the footer */
+  unsubscribeUrl?: string;
+  headers?: Record<string, string>;
+}
+
+export interface MimeOptions {
+  from: string;
+  date?: Date;
+  messageId?: string;
+}
+
+const CRLF = '\r\n';
+
+/** Header values can't carry line breaks; strip them to prevent header injection. */
+function headerSafe(value: string): string {
+  return value.replace(/[\r\n]+/g, ' ').trim();
+}
+
+/** RFC 2047 encoded-word for non-ASCII header text (subjects, series titles). */
+export function encodeHeaderValue(value: string): string {
+  const safe = headerSafe(value);
+  if (/^[\x20-\x7e]*$/.test(safe)) return safe;
+  return `=?UTF-8?B?${Buffer.from(safe, 'utf8').toString('base64')}?=`;
+}
+
+/** Bare address out of `Name <addr@host>` or `addr@host`. */
+export function extractAddress(value: string): string {
+  const match = /<([^<>]+)>\s*$/.exec(value);
+  return (match ? match[1] : value).trim();
+}
+
+function base64Body(content: string): string {
+  return Buffer.from(content, 'utf8').toString('base64').replace(/.{1,76}/g, line => line + CRLF).trimEnd();
+}
+
+export function buildMimeMessage(message: EmailMessage, options: MimeOptions): string {
+  const boundary = `=_mt_${crypto.randomBytes(12).toString('hex')}`;
+  const domain = extractAddress(options.from).split('@')[1] || 'localhost';
+  const messageId = options.messageId ?? `<${crypto.randomUUID()}@${domain}>`;
+
+  const headers: Record<string, string> = {
+    From: headerSafe(options.from),
+    To: headerSafe(message.to),
+    Subject: encodeHeaderValue(message.subject),
+    Date: (options.date ?? new Date()).toUTCString().replace('GMT', '+0000'),
+    'Message-ID': messageId,
+    'MIME-Version': '1.0',
+    'Content-Type': `multipart/alternative; boundary="${boundary}"`,
+  };
+
+  if (message.unsubscribeUrl) {
+    headers['List-Unsubscribe'] = `<${headerSafe(message.unsubscribeUrl)}>`;
+    headers['List-Unsubscribe-Post'] = 'List-Unsubscribe=One-Click';
+  }
+
+  for (const [name, value] of Object.entries(message.headers ?? {})) {
+    headers[headerSafe(name)] = encodeHeaderValue(value);
+  }
+
+  const part = (contentType: string, content: string) => [
+    `--${boundary}`,
+    `Content-Type: ${contentType}; charset=utf-8`,
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Body(content),
+  ].join(CRLF);
+
+  return [
+    ...Object.entries(headers).map(([name, value]) => `${name}: ${value}`),
+    '',
+    part('text/plain', message.text),
+    part('text/html', message.html),
+    `--${boundary}--`,
+    '',
+  ].join(CRLF);
+}
@@ -0,0 +1,221 @@
+import net from 'net';
+import os from 'os';
+import tls from 'tls';
+
+/**
+ * Small SMTP submission client (RFC 5321) covering what a relay such as
+ * Postmark, SES or Mailgun needs: EHLO, STARTTLS, AUTH PLAIN and a single
+ * message per connection.
+ */
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  /** Implicit TLS (port 465). Otherwise STARTTLS is used when offered. */
+  secure: boolean;
+  user?: string;
+  pass?: string;
+  /** Refuse to send credentials or mail over a connection STARTTLS didn't upgrade */
+  requireTls?: boolean;
+  timeoutMs?: number;
+  rejectUnauthorized?: boolean;
+}
+
+export class SmtpError extends Error {
+  constructor(
+    message: string,
+    public readonly code: number,
+    public readonly command: string
+  ) {
+    super(message);
+    this.name = 'SmtpError';
+  }
+
+  /** 5xx: retrying the same message will fail again */
+  get permanent(): boolean {
+    return this.code >= 500;
+  }
+
+  /** The server rejected the recipient itself (unknown mailbox, etc.) */
+  get recipientRejected(): boolean {
+    return this.permanent && this.command === 'RCPT';
+  }
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+const DEFAULT_TIMEOUT_MS = 30000;
+
+/** Escapes leading dots and normalizes line endings for the DATA phase. */
+export function dotStuff(raw: string): string {
+  return raw.replace(/\r?\n/g, '\r\n').replace(/^\./gm, '..');
+}
+
+class SmtpConnection {
+  private buffer = '';
+  private replies: SmtpReply[] = [];
+  private waiter: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null = null;
+  private failure: Error | null = null;
+
+  constructor(private socket: net.Socket, private timeoutMs: number) {
+    this.attach(socket);
+  }
+
+  private attach(socket: net.Socket) {
+    socket.setEncoding('utf8');
+    socket.setTimeout(this.timeoutMs, () => socket.destroy(new Error('SMTP connection timed out')));
+    socket.on('data', this.onData);
+    socket.on('error', this.onError);
+    socket.on('close', this.onClose);
+  }
+
+  private detach(socket: net.Socket) {
+    socket.off('data', this.onData);
+    socket.off('error', this.onError);
+    socket.off('close', this.onClose);
+  }
+
+  private onData = (chunk: string) => {
+    this.buffer += chunk;
+    let lines: string[] = [];
+    let index: number;
+    while ((index = this.buffer.indexOf('\r\n')) !== -1) {
+      const line = this.buffer.slice(0, index);
+      this.buffer = this.buffer.slice(index + 2);
+      lines.push(line);
+      // "250-..." continues a multi-line reply, "250 ..." ends it
+      if (line.length < 4 || line[3] !== '-') {
+        this.push({ code: parseInt(line.slice(0, 3), 10), lines: lines.map(l => l.slice(4)) });
+        lines = [];
+      }
+    }
+    if (lines.length > 0) {
+      this.buffer = lines.map(l => l + '\r\n').join('') + this.buffer;
+    }
+  };
+
+  private onError = (error: Error) => this.fail(error);
+
+  private onClose = () => this.fail(new Error('SMTP connection closed unexpectedly'));
+
+  private push(reply: SmtpReply) {
+    if (this.waiter) {
+      const { resolve } = this.waiter;
+      this.waiter = null;
+      resolve(reply);
+    } else {
+      this.replies.push(reply);
+    }
+  }
+
+  private fail(error: Error) {
+    if (this.failure) return;
+    this.failure = error;
+    if (this.waiter) {
+      const { reject } = this.waiter;
+      this.waiter = null;
+      reject(error);
+    }
+  }
+
+  read(): Promise<SmtpReply> {
+    const queued = this.replies.shift();
+    if (queued) return Promise.resolve(queued);
+    if (this.failure) return Promise.reject(this.failure);
+    return new Promise((resolve, reject) => {
+      this.waiter = { resolve, reject };
+    });
+  }
+
+  async command(line: string | null, expected: number[], name: string): Promise<SmtpReply> {
+    if (line !== null) this.socket.write(line + '\r\n');
+    const reply = await this.read();
+    if (!expected.includes(reply.code)) {
+      throw new SmtpError(`SMTP ${name} failed: ${reply.code} ${reply.lines.join(' ')}`, reply.code, name);
+    }
+    return reply;
+  }
+
+  async startTls(servername: string, rejectUnauthorized: boolean): Promise<void> {
+    this.detach(this.socket);
+    const secured = tls.connect({ socket: this.socket, servername, rejectUnauthorized });
+    await new Promise<void>((resolve, reject) => {
+      secured.once('secureConnect', resolve);
+      secured.once('error', reject);
+    });
+    this.socket = secured;
+    this.buffer = '';
+    this.attach(secured);
+  }
+
+  close() {
+    this.detach(this.socket);
+    this.socket.on('error', () => {});
+    this.socket.end();
+  }
+}
+
+function connect(config: SmtpConfig, timeoutMs: number): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const socket = config.secure
+      ? tls.connect({ host: config.host, port: config.port, servername: config.host, rejectUnauthorized: config.rejectUnauthorized ?? true })
+      : net.connect({ host: config.host, port: config.port });
+    const timer = setTimeout(() => socket.destroy(new Error('SMTP connection timed out')), timeoutMs);
+    socket.once(config.secure ? 'secureConnect' : 'connect', () => {
+      clearTimeout(timer);
+      resolve(socket);
+    });
+    socket.once('error', (error) => {
+      clearTimeout(timer);
+      reject(error);
+    });
+  });
+}
+
+/**
+ * Sends one already-encoded message (see ./mime) to one recipient.
+ * Throws SmtpError for rejected commands; `recipientRejected` errors are hard
+ * bounces and should be suppressed by the caller.
+ */
+export async function sendSmtp(config: SmtpConfig, envelope: { from: string; to: string }, raw: string): Promise<void> {
+  if ([envelope.from, envelope.to].some(address => /[\s<>]/.test(address) || !address.includes('@'))) {
+    throw new Error('Invalid SMTP envelope address');
+  }
+
+  const timeoutMs = config.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const connection = new SmtpConnection(await connect(config, timeoutMs), timeoutMs);
+  const hostname = os.hostname() || 'localhost';
+
+  try {
+    await connection.command(null, [220], 'CONNECT');
+    let ehlo = await connection.command(`EHLO ${hostname}`, [250], 'EHLO');
+    let secure = config.secure;
+
+    if (!secure && ehlo.lines.some(l => l.toUpperCase() === 'STARTTLS')) {
+      await connection.command('STARTTLS', [220], 'STARTTLS');
+      await connection.startTls(config.host, config.rejectUnauthorized ?? true);
+      secure = true;
+      ehlo = await connection.command(`EHLO ${hostname}`, [250], 'EHLO');
+    }
+    if (!secure && config.requireTls) {
+      throw new Error(`SMTP server ${config.host} does not offer STARTTLS`);
+    }
+
+    if (config.user) {
+      const credentials = Buffer.from(`\0${config.user}\0${config.pass ?? ''}`).toString('base64');
+      await connection.command(`AUTH PLAIN ${credentials}`, [235], 'AUTH');
+    }
+
+    await connection.command(`MAIL FROM:<${envelope.from}>`, [250], 'MAIL');
+    await connection.command(`RCPT TO:<${envelope.to}>`, [250, 251], 'RCPT');
+    await connection.command('DATA', [354], 'DATA');
+    const body = dotStuff(raw);
+    await connection.command(body + (body.endsWith('\r\n') ? '' : '\r\n') + '.', [250], 'DATA');
+    await connection.command('QUIT', [221], 'QUIT').catch(() => {});
+  } finally {
+    connection.close();
+  }
+}
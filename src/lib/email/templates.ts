@@ -0,0 +1,123 @@
+import type { DigestSeries } from '@/lib/notifications-digest';
+import { formatDigestSummary } from '@/lib/notifications-digest';
+
+/**
+ * HTML and plain-text bodies for notification emails. HTML uses inline
+ * styles and tables only, which is what mail clients reliably render.
+ */
+
+export interface RenderedEmail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export interface ChapterAlertEmail {
+  seriesTitle: string;
+  chapterNumber: number | string;
+  sourceName?: string;
+  seriesUrl: string;
+  unsubscribeUrl: string;
+  settingsUrl: string;
+}
+
+export interface DigestEmail {
+  frequency: string;
+  series: DigestSeries[];
+  /** Series id → absolute series page URL */
+  seriesUrl: (seriesId: string) => string;
+  unsubscribeUrl: string;
+  settingsUrl: string;
+}
+
+const DIGEST_PERIOD: Record<string, string> = {
+  short: 'the last few minutes',
+  hourly: 'the last hour',
+  daily: 'the last day',
+};
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function layout(heading: string, content: string, footer: { unsubscribeUrl: string; settingsUrl: string; reason: string }): string {
+  return `<!DOCTYPE html>
+<html>
+<head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1"><title>${escapeHtml(heading)}</title></head>
+<body style="margin:0;padding:0;background:#f4f4f5;font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',Roboto,sans-serif;color:#18181b;">
+<table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="background:#f4f4f5;padding:24px 0;">
+<tr><td align="center">
+<table role="presentation" width="560" cellpadding="0" cellspacing="0" style="max-width:560px;background:#ffffff;border-radius:16px;padding:32px;">
+<tr><td style="font-size:13px;font-weight:700;letter-spacing:0.08em;text-transform:uppercase;color:#71717a;padding-bottom:16px;">MangaTrack</td></tr>
+<tr><td style="font-size:22px;font-weight:700;padding-bottom:16px;">${escapeHtml(heading)}</td></tr>
+${content}
+</table>
+<table role="presentation" width="560" cellpadding="0" cellspacing="0" style="max-width:560px;">
+<tr><td style="font-size:12px;color:#71717a;padding:16px 32px;line-height:1.5;">
+${escapeHtml(footer.reason)}<br>
+<a href="${escapeHtml(footer.unsubscribeUrl)}" style="color:#71717a;">Unsubscribe</a> &middot; <a href="${escapeHtml(footer.settingsUrl)}" style="color:#71717a;">Notification settings</a>
+</td></tr>
+</table>
+</td></tr>
+</table>
+</body>
+</html>`;
+}
+
+function button(label: string, href: string): string {
+  return `<tr><td style="padding-top:8px;"><a href="${escapeHtml(href)}" style="display:inline-block;background:#18181b;color:#ffffff;text-decoration:none;font-weight:600;font-size:14px;padding:12px 20px;border-radius:10px;">${escapeHtml(label)}</a></td></tr>`;
+}
+
+function textFooter(reason: string, unsubscribeUrl: string, settingsUrl: string): string {
+  return `--\n${reason}\nUnsubscribe: ${unsubscribeUrl}\nNotification settings: ${settingsUrl}\n`;
+}
+
+export function renderChapterAlertEmail(input: ChapterAlertEmail): RenderedEmail {
+  const where = input.sourceName ? ` on ${input.sourceName}` : '';
+  const subject = `New chapter of ${input.seriesTitle}: Chapter ${input.chapterNumber}`;
+  const line = `Chapter ${input.chapterNumber} of ${input.seriesTitle} is now available${where}.`;
+  const reason = 'You are receiving this because you follow this series with new chapter alerts turned on.';
+
+  return {
+    subject,
+    text: `${line}\n\nRead it: ${input.seriesUrl}\n\n${textFooter(reason, input.unsubscribeUrl, input.settingsUrl)}`,
+    html: layout(
+      `New chapter of ${input.seriesTitle}`,
+      `<tr><td style="font-size:15px;line-height:1.6;padding-bottom:16px;">${escapeHtml(line)}</td></tr>\n${button('Open series', input.seriesUrl)}`,
+      { reason, unsubscribeUrl: input.unsubscribeUrl, settingsUrl: input.settingsUrl }
+    ),
+  };
+}
+
+function chapterList(chapters: string[]): string {
+  return chapters.length === 1 ? `Chapter ${chapters[0]}` : `Chapters ${chapters.join(', ')}`;
+}
+
+export function renderDigestEmail(input: DigestEmail): RenderedEmail {
+  const { title, message } = formatDigestSummary(input.series);
+  const period = DIGEST_PERIOD[input.frequency];
+  const reason = `You are receiving this ${input.frequency} digest because you batch chapter notifications.`;
+
+  const textItems = input.series.map(s =>
+    `* ${s.title}\n  ${chapterList(s.chapters)} on ${s.sources.join(', ')}\n  ${input.seriesUrl(s.seriesId)}`
+  );
+  const htmlItems = input.series.map(s => `<tr><td style="padding:12px 0;border-top:1px solid #e4e4e7;">
+<a href="${escapeHtml(input.seriesUrl(s.seriesId))}" style="font-size:15px;font-weight:600;color:#18181b;text-decoration:none;">${escapeHtml(s.title)}</a><br>
+<span style="font-size:13px;color:#52525b;">${escapeHtml(chapterList(s.chapters))} on ${escapeHtml(s.sources.join(', '))}</span>
+</td></tr>`);
+
+  return {
+    subject: title,
+    text: `${message}\n\n${period ? `New in ${period}` : 'New chapters'}:\n\n${textItems.join('\n\n')}\n\n${textFooter(reason, input.unsubscribeUrl, input.settingsUrl)}`,
+    html: layout(
+      title,
+      `<tr><td style="font-size:15px;line-height:1.6;padding-bottom:8px;">${escapeHtml(message)}</td></tr>\n${htmlItems.join('\n')}`,
+      { reason, unsubscribeUrl: input.unsubscribeUrl, settingsUrl: input.settingsUrl }
+    ),
+  };
+}
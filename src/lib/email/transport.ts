@@ -0,0 +1,117 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { logger } from '@/lib/logger';
+import { buildMimeMessage, EmailMessage, extractAddress } from './mime';
+import { sendSmtp, SmtpConfig } from './smtp';
+
+/**
+ * Pluggable outgoing mail transport, chosen by EMAIL_TRANSPORT:
+ * - `smtp`: any SMTP relay (SMTP_HOST, SMTP_PORT, SMTP_USER, SMTP_PASS)
+ * - `file`: writes .eml files to EMAIL_FILE_DIR for local development
+ * - `console`: logs the plain-text part
+ * - `none`: disables email
+ * Unset, it is `smtp` when SMTP_HOST is configured, `console` outside
+ * production and disabled in production.
+ */
+
+export interface OutgoingEmail {
+  from: string;
+  to: string;
+  message: EmailMessage;
+  /** Fully encoded RFC 5322 message */
+  raw: string;
+}
+
+export interface EmailTransport {
+  readonly name: string;
+  send(email: OutgoingEmail): Promise<void>;
+}
+
+const DEFAULT_FROM = 'MangaTrack <notifications@mangatrack.app>';
+
+export class SmtpTransport implements EmailTransport {
+  readonly name = 'smtp';
+
+  constructor(private readonly config: SmtpConfig) {}
+
+  async send(email: OutgoingEmail): Promise<void> {
+    await sendSmtp(this.config, { from: extractAddress(email.from), to: email.to }, email.raw);
+  }
+}
+
+export class FileTransport implements EmailTransport {
+  readonly name = 'file';
+
+  constructor(private readonly dir: string) {}
+
+  async send(email: OutgoingEmail): Promise<void> {
+    await fs.mkdir(this.dir, { recursive: true });
+    const safeTo = email.to.replace(/[^a-zA-Z0-9@._-]/g, '_');
+    const file = path.join(this.dir, `${Date.now()}-${safeTo}.eml`);
+    await fs.writeFile(file, email.raw, 'utf8');
+    logger.info(`[Email] Wrote ${file}`);
+  }
+}
+
+export class ConsoleTransport implements EmailTransport {
+  readonly name = 'console';
+
+  async send(email: OutgoingEmail): Promise<void> {
+    logger.info(`[Email] To: ${email.to} | ${email.message.subject}\n${email.message.text}`);
+  }
+}
+
+export function getEmailFrom(): string {
+  return process.env.EMAIL_FROM || DEFAULT_FROM;
+}
+
+export function createEmailTransport(env: NodeJS.ProcessEnv = process.env): EmailTransport | null {
+  const kind = env.EMAIL_TRANSPORT || (env.SMTP_HOST ? 'smtp' : env.NODE_ENV === 'production' ? 'none' : 'console');
+
+  switch (kind) {
+    case 'smtp': {
+      if (!env.SMTP_HOST) {
+        logger.warn('[Email] EMAIL_TRANSPORT=smtp but SMTP_HOST is not set, email is disabled');
+        return null;
+      }
+      const port = parseInt(env.SMTP_PORT || '587', 10);
+      return new SmtpTransport({
+        host: env.SMTP_HOST,
+        port,
+        secure: env.SMTP_SECURE ? env.SMTP_SECURE === 'true' : port === 465,
+        user: env.SMTP_USER,
+        pass: env.SMTP_PASS,
+        requireTls: env.NODE_ENV === 'production',
+      });
+    }
+    case 'file':
+      return new FileTransport(env.EMAIL_FILE_DIR || path.join(os.tmpdir(), 'mangatrack-emails'));
+    case 'console':
+      return new ConsoleTransport();
+    case 'none':
+      return null;
+    default:
+      logger.warn(`[Email] Unknown EMAIL_TRANSPORT "${kind}", email is disabled`);
+      return null;
+  }
+}
+
+let cachedTransport: EmailTransport | null | undefined;
+
+export function getEmailTransport(): EmailTransport | null {
+  if (cachedTransport === undefined) {
+    cachedTransport = createEmailTransport();
+  }
+  return cachedTransport;
+}
+
+/** Test hook: force a transport (or re-read the environment with `undefined`). */
+export function setEmailTransport(transport: EmailTransport | null | undefined): void {
+  cachedTransport = transport;
+}
+
+export async function sendEmail(transport: EmailTransport, message: EmailMessage): Promise<void> {
+  const from = getEmailFrom();
+  await transport.send({ from, to: message.to, message, raw: buildMimeMessage(message, { from }) });
+}
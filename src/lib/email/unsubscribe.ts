@@ -0,0 +1,93 @@
+import crypto from 'crypto';
+
+/**
+ * Signed one-click unsubscribe links. A token names a user and one email
+ * type and is its own authorization, so mail clients can POST it (RFC 8058)
+ * without a session. Tokens don't expire: an old email's link must keep
+ * working.
+ */
+
+/** Email types and the notification_settings switch each one turns off */
+export const EMAIL_TYPES = {
+  new_chapters: 'email_new_chapters',
+  digest: 'email_digest',
+} as const;
+
+export type EmailType = keyof typeof EMAIL_TYPES;
+
+export const EMAIL_TYPE_LABELS: Record<EmailType, string> = {
+  new_chapters: 'new chapter alerts',
+  digest: 'update digests',
+};
+
+const DEV_SECRET = 'dev-email-unsubscribe-secret';
+/** HKDF purpose label; a key derived for unsubscribe links signs nothing else */
+const KEY_PURPOSE = 'mangatrack email-unsubscribe v1';
+
+/**
+ * EMAIL_UNSUBSCRIBE_SECRET when set. Otherwise a key derived from
+ * INTERNAL_API_SECRET, so a leaked link signature never says anything about
+ * the internal secret itself.
+ */
+function getUnsubscribeKey(): Buffer {
+  if (process.env.EMAIL_UNSUBSCRIBE_SECRET) {
+    return Buffer.from(process.env.EMAIL_UNSUBSCRIBE_SECRET);
+  }
+  if (process.env.INTERNAL_API_SECRET) {
+    return Buffer.from(crypto.hkdfSync('sha256', process.env.INTERNAL_API_SECRET, '', KEY_PURPOSE, 32));
+  }
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('EMAIL_UNSUBSCRIBE_SECRET or INTERNAL_API_SECRET is required in production');
+  }
+  // Shared by the web and worker processes so local links stay valid
+  return Buffer.from(DEV_SECRET);
+}
+
+function sign(payload: string): string {
+  return crypto.createHmac('sha256', getUnsubscribeKey()).update(`unsubscribe:${payload}`).digest('base64url');
+}
+
+export function isEmailType(value: unknown): value is EmailType {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(EMAIL_TYPES, value);
+}
+
+/**
+ * Reads a per-type email switch. `email: false` turns every email off;
+ * missing switches default to on, like the settings page.
+ */
+export function isEmailEnabled(notificationSettings: unknown, type: EmailType): boolean {
+  const settings = (notificationSettings && typeof notificationSettings === 'object'
+    ? notificationSettings
+    : {}) as Record<string, unknown>;
+  return settings.email !== false && settings[EMAIL_TYPES[type]] !== false;
+}
+
+export function createUnsubscribeToken(userId: string, type: EmailType): string {
+  const payload = Buffer.from(JSON.stringify({ u: userId, t: type })).toString('base64url');
+  return `${payload}.${sign(payload)}`;
+}
+
+export function verifyUnsubscribeToken(token: string): { userId: string; type: EmailType } | null {
+  const [payload, signature, ...rest] = token.split('.');
+  if (!payload || !signature || rest.length > 0) return null;
+
+  const expected = Buffer.from(sign(payload));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) return null;
+
+  try {
+    const { u, t } = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    if (typeof u !== 'string' || !isEmailType(t)) return null;
+    return { userId: u, type: t };
+  } catch {
+    return null;
+  }
+}
+
+export function getSiteUrl(): string {
+  return (process.env.NEXT_PUBLIC_SITE_URL || 'http://localhost:3000').replace(/\/+$/, '');
+}
+
+export function buildUnsubscribeUrl(userId: string, type: EmailType): string {
+  return `${getSiteUrl()}/api/email/unsubscribe?token=${createUnsubscribeToken(userId, type)}`;
+}
@@ -195,3 +195,33 @@ WHERE s.deleted_at IS NULL
     OR (s.catalog_tier = 'C' AND ca.chapter_number > 1)
   )
 `;
+
+/**
+ * AVAILABILITY_FEED_SQL narrowed to one user's library, for the personal
+ * RSS/Atom feed. $1 = user id, $2 = limit.
+ */
+export const LIBRARY_AVAILABILITY_FEED_SQL = `
+SELECT 
+  ca.id as event_id,
+  ca.discovered_at as occurred_at,
+  s.id as series_id,
+  s.title as series_title,
+  s.cover_url as series_cover,
+  s.catalog_tier,
+  ca.chapter_number,
+  ca.source_name,
+  ca.source_url,
+  NULL as scanlation_group
+FROM chapter_availability ca
+JOIN series s ON s.id = ca.series_id
+JOIN library_entries le ON le.series_id = s.id
+WHERE le.user_id = $1::uuid
+  AND le.deleted_at IS NULL
+  AND s.deleted_at IS NULL
+  AND (
+    s.catalog_tier = 'B'
+    OR (s.catalog_tier = 'C' AND ca.chapter_number > 1)
+  )
+ORDER BY ca.discovered_at DESC
+LIMIT $2
+`;
@@ -0,0 +1,114 @@
+/**
+ * RSS 2.0 and Atom 1.0 rendering for personal feeds. Items carry a stable
+ * `id` so readers don't show an entry twice when the feed is re-polled.
+ */
+
+export interface FeedItem {
+  id: string;
+  title: string;
+  link: string;
+  summary: string;
+  published: Date;
+  category?: string;
+}
+
+export interface FeedChannel {
+  /** Stable, token-free identifier (Atom feed id) */
+  id: string;
+  title: string;
+  description: string;
+  /** Page the feed is about */
+  link: string;
+  /** URL the feed itself is served from */
+  selfUrl: string;
+  items: FeedItem[];
+}
+
+export type SyndicationFormat = 'rss' | 'atom';
+
+export const SYNDICATION_CONTENT_TYPES: Record<SyndicationFormat, string> = {
+  rss: 'application/rss+xml; charset=utf-8',
+  atom: 'application/atom+xml; charset=utf-8',
+};
+
+// XML 1.0 forbids most control characters even when escaped
+const INVALID_XML_CHARS = /[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/g;
+
+export function escapeXml(value: string): string {
+  return value
+    .replace(INVALID_XML_CHARS, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+export function parseSyndicationFormat(value: string | null): SyndicationFormat {
+  return value === 'atom' ? 'atom' : 'rss';
+}
+
+function latest(items: FeedItem[]): Date {
+  return items.reduce((max, item) => (item.published > max ? item.published : max), new Date(0));
+}
+
+export function renderRss(channel: FeedChannel): string {
+  const items = channel.items.map(item => [
+    '    <item>',
+    `      <title>${escapeXml(item.title)}</title>`,
+    `      <link>${escapeXml(item.link)}</link>`,
+    `      <guid isPermaLink="false">${escapeXml(item.id)}</guid>`,
+    `      <pubDate>${item.published.toUTCString()}</pubDate>`,
+    `      <description>${escapeXml(item.summary)}</description>`,
+    ...(item.category ? [`      <category>${escapeXml(item.category)}</category>`] : []),
+    '    </item>',
+  ].join('\n'));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">',
+    '  <channel>',
+    `    <title>${escapeXml(channel.title)}</title>`,
+    `    <link>${escapeXml(channel.link)}</link>`,
+    `    <description>${escapeXml(channel.description)}</description>`,
+    `    <atom:link href="${escapeXml(channel.selfUrl)}" rel="self" type="application/rss+xml"/>`,
+    `    <lastBuildDate>${(channel.items.length ? latest(channel.items) : new Date()).toUTCString()}</lastBuildDate>`,
+    '    <ttl>30</ttl>',
+    ...items,
+    '  </channel>',
+    '</rss>',
+    '',
+  ].join('\n');
+}
+
+export function renderAtom(channel: FeedChannel): string {
+  const entries = channel.items.map(item => [
+    '  <entry>',
+    `    <title>${escapeXml(item.title)}</title>`,
+    `    <link href="${escapeXml(item.link)}"/>`,
+    `    <id>urn:mangatrack:${escapeXml(item.id)}</id>`,
+    `    <updated>${item.published.toISOString()}</updated>`,
+    `    <summary>${escapeXml(item.summary)}</summary>`,
+    ...(item.category ? [`    <category term="${escapeXml(item.category)}"/>`] : []),
+    '  </entry>',
+  ].join('\n'));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom">',
+    `  <title>${escapeXml(channel.title)}</title>`,
+    `  <subtitle>${escapeXml(channel.description)}</subtitle>`,
+    `  <link href="${escapeXml(channel.link)}"/>`,
+    `  <link href="${escapeXml(channel.selfUrl)}" rel="self" type="application/atom+xml"/>`,
+    `  <id>${escapeXml(channel.id)}</id>`,
+    `  <updated>${(channel.items.length ? latest(channel.items) : new Date()).toISOString()}</updated>`,
+    '  <author><name>MangaTrack</name></author>',
+    ...entries,
+    '</feed>',
+    '',
+  ].join('\n');
+}
+
+export function renderSyndicationFeed(format: SyndicationFormat, channel: FeedChannel): string {
+  return format === 'atom' ? renderAtom(channel) : renderRss(channel);
+}
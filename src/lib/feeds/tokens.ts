@@ -0,0 +1,53 @@
+import crypto from 'crypto';
+import { prisma } from '@/lib/prisma';
+import { getSiteUrl } from '@/lib/email/unsubscribe';
+
+/**
+ * Secret-token URLs for feed readers and calendar apps, which can't send a
+ * session cookie. The token grants read access to the user's feeds only.
+ * Like personal access tokens, only a SHA-256 hash and a display prefix are
+ * stored, so the URLs can only be shown when the token is issued.
+ */
+
+const TOKEN_PATTERN = /^[A-Za-z0-9_-]{32,64}$/;
+
+/** Characters kept in `token_prefix` so users can recognize their links */
+const DISPLAY_PREFIX_LENGTH = 8;
+/** `last_used_at` is only written when older than this, to spare hot rows */
+const TOUCH_INTERVAL_MS = 60 * 60 * 1000;
+
+export function hashFeedToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+export function generateFeedToken(): { token: string; hash: string; prefix: string } {
+  const token = crypto.randomBytes(32).toString('base64url');
+  return { token, hash: hashFeedToken(token), prefix: token.slice(0, DISPLAY_PREFIX_LENGTH) };
+}
+
+export function buildFeedUrls(token: string) {
+  const base = `${getSiteUrl()}/api/feeds/${token}`;
+  return {
+    rss: `${base}/availability`,
+    atom: `${base}/availability?format=atom`,
+    calendar: `${base}/calendar`,
+    series: `${base}/series/{seriesId}`,
+  };
+}
+
+/** Resolves a feed token to its user, or null when unknown or revoked. */
+export async function resolveFeedToken(token: string): Promise<string | null> {
+  if (!TOKEN_PATTERN.test(token)) return null;
+
+  const feedToken = await prisma.feedToken.findUnique({
+    where: { token_hash: hashFeedToken(token) },
+    select: { id: true, user_id: true, last_used_at: true },
+  });
+  if (!feedToken) return null;
+
+  const now = new Date();
+  if (!feedToken.last_used_at || now.getTime() - feedToken.last_used_at.getTime() > TOUCH_INTERVAL_MS) {
+    await prisma.feedToken.update({ where: { id: feedToken.id }, data: { last_used_at: now } });
+  }
+  return feedToken.user_id;
+}
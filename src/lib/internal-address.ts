@@ -0,0 +1,14 @@
+import dns from 'node:dns/promises';
+import { isInternalIP } from '@/lib/constants/image-whitelist';
+
+/**
+ * SECURITY: a public hostname can still point at a private address, so URLs
+ * users give us to call (webhooks, push endpoints) are checked again after
+ * DNS resolution. Rejects when the lookup fails. Plain localhost is allowed
+ * outside production, matching the URL checks.
+ */
+export async function resolvesToInternalAddress(hostname: string): Promise<boolean> {
+  if (process.env.NODE_ENV !== 'production' && hostname === 'localhost') return false;
+  const addresses = await dns.lookup(hostname, { all: true });
+  return addresses.some(a => isInternalIP(a.address));
+}
@@ -0,0 +1,97 @@
+import { prisma } from '@/lib/prisma'
+import { promoteSeriesTier } from '@/lib/catalog-tiers'
+
+type LibraryStatus = 'reading' | 'completed' | 'planning' | 'dropped' | 'paused'
+
+/**
+ * Adds (or restores) a series in a user's library, keyed on the series'
+ * most trusted source like every other library entry. Callers validate the
+ * ids and status and handle activity logging and revalidation themselves.
+ */
+export async function addSeriesToLibrary(userId: string, seriesId: string, status: LibraryStatus) {
+  const result = await prisma.$transaction(async (tx) => {
+    // 1. Get series and its primary source
+    const series = await tx.series.findUnique({
+      where: { id: seriesId },
+      include: {
+        SeriesSource: {
+          take: 1,
+          orderBy: { trust_score: 'desc' }
+        }
+      }
+    })
+
+    if (!series) {
+      throw new Error('Series not found')
+    }
+
+    const primarySource = series.SeriesSource[0]
+    if (!primarySource || !primarySource.source_url) {
+      throw new Error('Series has no valid source URL. Cannot add to library.')
+    }
+
+    // 2. Check if already exists
+    const existingEntry = await tx.libraryEntry.findUnique({
+      where: {
+        user_id_source_url: {
+          user_id: userId,
+          source_url: primarySource.source_url,
+        }
+      },
+      select: { id: true, deleted_at: true }
+    })
+
+    // 3. Upsert entry
+    const entry = await tx.libraryEntry.upsert({
+      where: {
+        user_id_source_url: {
+          user_id: userId,
+          source_url: primarySource.source_url,
+        }
+      },
+      update: {
+        series_id: seriesId,
+        status,
+        deleted_at: null,
+        updated_at: new Date(),
+      },
+      create: {
+        user_id: userId,
+        series_id: seriesId,
+        source_url: primarySource.source_url,
+        source_name: primarySource.source_name,
+        status,
+        last_read_chapter: 0,
+        sync_priority: 'WARM',
+        metadata_status: 'enriched',
+      }
+    })
+
+    // 4. Update follow count and tier if new or restored
+    let shouldPromote = false
+    if (!existingEntry || existingEntry.deleted_at) {
+      await tx.series.update({
+        where: { id: seriesId },
+        data: { total_follows: { increment: 1 } }
+      })
+      shouldPromote = true
+    }
+
+    return { entry, shouldPromote }
+  })
+
+  // 5. Side effects outside transaction to avoid deadlocks
+  if (result.shouldPromote) {
+    await promoteSeriesTier(seriesId, 'user_follow')
+  }
+
+  return result.entry
+}
+
+/**
+ * Read-through that new chapter reads belong to: 1 for the first read, one
+ * more for every re-read started since.
+ */
+export function currentReadThrough(rereadCount: number | null | undefined): number {
+  return (rereadCount ?? 0) + 1
+}
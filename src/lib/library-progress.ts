@@ -0,0 +1,442 @@
+import { prisma, DEFAULT_TX_OPTIONS } from '@/lib/prisma';
+import { logActivity } from '@/lib/gamification/activity';
+import { XP_PER_CHAPTER, calculateLevel, addXp } from '@/lib/gamification/xp';
+import { calculateNewStreak, calculateStreakBonus } from '@/lib/gamification/streaks';
+import { checkAchievements, UnlockedAchievement } from '@/lib/gamification/achievements';
+import { calculateSeasonXpUpdate } from '@/lib/gamification/seasons';
+import { validateReadTime, validateReadTimeFromTimestamp, checkAndRecordPatternRepetition, type ReadTimeValidationResult } from '@/lib/gamification/read-time-validation';
+import { recordReadTelemetryAsync } from '@/lib/gamification/read-telemetry';
+import { antiAbuse } from '@/lib/anti-abuse';
+import { ApiError, ErrorCodes } from '@/lib/api-utils';
+import { currentReadThrough } from '@/lib/library-entries';
+import { recordActivity as recordActivityEvent } from '@/lib/analytics/record';
+import { redisApi, REDIS_KEY_PREFIX } from '@/lib/redis';
+import { notificationQueue } from '@/lib/queues';
+import { logger } from '@/lib/logger';
+import type { LibraryEntry } from '@prisma/client';
+
+/**
+ * Chapter progress for one library entry, shared by PATCH
+ * /api/library/[id]/progress and POST /api/scrobble.
+ *
+ * XP & READ-PROGRESS INTEGRITY RULES (LOCKED):
+ *
+ * 1. XP_PER_CHAPTER = 1 (no multipliers for bulk)
+ * 2. When marking chapter N as read, ALL chapters 1→N are marked as read (single transaction)
+ * 3. XP is awarded ONLY ONCE per request, ONLY if chapterNumber > currentLastReadChapter
+ * 4. Anti-abuse: jumping 1→500 gives XP=1, re-marking gives XP=0
+ * 5. Transaction safety: progress + XP are atomic
+ * 6. SEASONAL XP: XP gains update BOTH lifetime xp AND season_xp atomically
+ *
+ * READ-TIME VALIDATION (SOFT - NEVER BLOCKS):
+ * - Only validates INCREMENTAL reads (1-2 chapter jumps)
+ * - SKIPS validation for bulk jumps (>2 chapters) - migrations/binge readers trusted
+ * - SKIPS validation for first progress (currentLastRead = 0)
+ * - Does NOT block marking as read
+ * - Only affects trust_score if suspicious
+ * - NO XP removal ever
+ *
+ * RE-READS:
+ * - Starting a re-read resets last_read_chapter to 0, so chapter 1 is new progress again
+ * - Chapters already read in an earlier read-through never award XP again
+ * - Reads are tagged with the current read-through (reread_count + 1)
+ *
+ * SCROBBLES (via: 'scrobble') are sent unattended, so two rules are stricter:
+ * - a read flagged by read-time validation still counts as progress but earns
+ *   no XP
+ * - a read delivered late (queued offline) without `readingTimeSeconds` can't
+ *   be timed, so it updates progress without XP
+ */
+
+export const MAX_CHAPTERS_PER_BULK = 2000;
+
+/** Scrobbles whose read time is older than this are treated as queued backfill */
+const LATE_SCROBBLE_MS = 60 * 60 * 1000;
+
+export interface ChapterProgressUpdate {
+  chapterNumber?: number | null;
+  /** Resolved against the series' chapters when no chapterNumber is given */
+  chapterSlug?: string | null;
+  isRead: boolean;
+  readAt: Date;
+  sourceId?: string | null;
+  deviceId?: string | null;
+  readingTimeSeconds?: number;
+  via?: 'scrobble';
+}
+
+export interface ChapterProgressResult {
+  entry: LibraryEntry;
+  seriesId: string | null;
+  progressUpdated: boolean;
+  lastReadChapter: number;
+  xpGained: number;
+  achievements: Array<Pick<UnlockedAchievement, 'code' | 'name' | 'xp_reward' | 'rarity'>>;
+  newStreak: number;
+  newLevel: number;
+  chaptersMarkedRead: number;
+  readTimeFlagged: boolean;
+  achievementCheckFailed: boolean;
+}
+
+function later(current: Date | null, next: Date): Date {
+  return current && current > next ? current : next;
+}
+
+/**
+ * Records progress on a library entry the user owns. Throws a 404 ApiError
+ * when the entry doesn't exist, belongs to someone else or was removed.
+ */
+export async function recordChapterProgress(
+  userId: string,
+  entryId: string,
+  update: ChapterProgressUpdate
+): Promise<ChapterProgressResult> {
+  const { chapterNumber, chapterSlug, isRead, readAt, sourceId, deviceId, readingTimeSeconds, via } = update;
+  const strict = via === 'scrobble';
+  const untimed = strict && readingTimeSeconds === undefined && Date.now() - readAt.getTime() > LATE_SCROBBLE_MS;
+
+  const result = await prisma.$transaction(async (tx) => {
+    // H1 FIX: ownership check inside the transaction; FOR UPDATE prevents concurrent XP double-grant
+    const [entry] = await tx.$queryRaw<Array<{
+      id: string;
+      user_id: string;
+      series_id: string | null;
+      last_read_chapter: string | null;
+      last_read_at: Date | null;
+      deleted_at: Date | null;
+      reread_count: number;
+    }>>`
+      SELECT id, user_id, series_id, last_read_chapter, last_read_at, deleted_at, reread_count
+      FROM library_entries
+      WHERE id = ${entryId}::uuid
+      FOR UPDATE
+    `;
+
+    if (!entry || entry.user_id !== userId || entry.deleted_at !== null) {
+      throw new ApiError('Library entry not found', 404, ErrorCodes.NOT_FOUND);
+    }
+
+    const userProfile = await tx.user.findUnique({
+      where: { id: userId },
+      select: {
+        xp: true,
+        level: true,
+        streak_days: true,
+        last_read_at: true,
+        longest_streak: true,
+        chapters_read: true,
+        current_season: true,
+        season_xp: true,
+        deleted_at: true,
+      }
+    });
+
+    if (!userProfile || userProfile.deleted_at !== null) {
+      throw new ApiError('User not found', 401, ErrorCodes.UNAUTHORIZED);
+    }
+
+    const currentLastRead = Number(entry.last_read_chapter) || 0;
+
+    let targetChapter = currentLastRead;
+    if (chapterNumber !== undefined && chapterNumber !== null) {
+      targetChapter = chapterNumber;
+    } else if (chapterSlug && entry.series_id) {
+      const chapterBySlug = await tx.logicalChapter.findFirst({
+        where: { series_id: entry.series_id, chapter_slug: chapterSlug },
+        select: { chapter_number: true },
+      });
+      if (chapterBySlug) targetChapter = parseFloat(chapterBySlug.chapter_number || '0');
+    }
+
+    const isNewProgress = targetChapter > currentLastRead;
+
+    // QA FIX BUG-001: lock the target chapter's read row so concurrent
+    // requests can't both grant XP for it
+    let alreadyReadTarget = false;
+    let targetLogicalChapter: { id: string; page_count: number | null } | null = null;
+
+    if (entry.series_id) {
+      targetLogicalChapter = await tx.logicalChapter.findFirst({
+        where: { series_id: entry.series_id, chapter_number: String(targetChapter) },
+        select: { id: true, page_count: true },
+      });
+
+      if (targetLogicalChapter) {
+        try {
+          const [existingRead] = await tx.$queryRaw<Array<{ is_read: boolean; xp_grant_token: string | null }>>`
+            SELECT is_read, xp_grant_token
+            FROM user_chapter_reads_v2
+            WHERE user_id = ${userId}::uuid
+              AND chapter_id = ${targetLogicalChapter.id}::uuid
+            FOR UPDATE NOWAIT
+          `;
+          alreadyReadTarget = existingRead?.is_read ?? false;
+        } catch (lockError: unknown) {
+          // NOWAIT throws if another transaction holds the row; that one grants the XP
+          const lockErrCode = (lockError as { code?: string })?.code;
+          const lockErrMsg = lockError instanceof Error ? lockError.message : String(lockError);
+          if (lockErrCode === '55P03' || lockErrMsg?.includes('could not obtain lock')) {
+            logger.info('Chapter read lock contention - deferring XP to other transaction', {
+              userId,
+              chapterId: targetLogicalChapter.id
+            });
+            alreadyReadTarget = true;
+          } else {
+            const existingCheck = await tx.userChapterReadV2.findUnique({
+              where: { user_id_chapter_id: { user_id: userId, chapter_id: targetLogicalChapter.id } },
+              select: { is_read: true },
+            });
+            alreadyReadTarget = existingCheck?.is_read ?? false;
+          }
+        }
+      }
+    }
+
+    const targetChapterPageCount = targetLogicalChapter?.page_count ?? null;
+
+    // Read-time validation: incremental reads only, never blocks progress
+    let readTimeValidation: ReadTimeValidationResult | null = null;
+    const chapterJump = targetChapter - currentLastRead;
+    const shouldValidateReadTime = currentLastRead > 0 && chapterJump >= 1 && chapterJump <= 2;
+
+    if (isRead && isNewProgress && targetLogicalChapter && shouldValidateReadTime) {
+      if (readingTimeSeconds !== undefined) {
+        readTimeValidation = await validateReadTime(userId, targetLogicalChapter.id, readingTimeSeconds, targetChapterPageCount);
+      } else if (!untimed) {
+        readTimeValidation = await validateReadTimeFromTimestamp(userId, targetLogicalChapter.id, targetChapterPageCount);
+      }
+
+      if (readTimeValidation?.isSuspicious) {
+        logger.warn('Suspicious read detected', {
+          userId,
+          via,
+          expectedMinSeconds: readTimeValidation.expectedMinSeconds,
+          actualSeconds: readTimeValidation.actualSeconds,
+          reason: readTimeValidation.reason
+        });
+      }
+    }
+
+    // Bot-like regular intervals affect trust_score only
+    if (isRead && isNewProgress && targetLogicalChapter) {
+      const patternCheck = await checkAndRecordPatternRepetition(userId, targetLogicalChapter.id);
+      if (patternCheck.detected) {
+        logger.warn('Pattern repetition detected', {
+          userId,
+          via,
+          trustScoreAffected: patternCheck.trustScoreAffected
+        });
+      }
+    }
+
+    // Read telemetry: insert-only, fire-and-forget
+    if (isRead && entry.series_id) {
+      recordReadTelemetryAsync({
+        userId,
+        seriesId: entry.series_id,
+        chapterNumber: Math.floor(targetChapter),
+        readDurationSeconds: readingTimeSeconds ??
+          readTimeValidation?.actualSeconds ??
+          (targetChapterPageCount ? targetChapterPageCount * 8 : 144),
+        pageCount: targetChapterPageCount,
+        deviceId: deviceId ?? null,
+      });
+    }
+
+    // ============================================================
+    // XP AWARD DECISION (CRITICAL - SINGLE XP ONLY)
+    // ============================================================
+    // XP is awarded ONLY ONCE per request, ONLY for new, unread progress.
+    // Bot patterns or the XP rate limit withhold XP; progress is still saved.
+    // Suspicious read time withholds XP for scrobbles only.
+    // ============================================================
+    const newStreak = calculateNewStreak(userProfile.streak_days, userProfile.last_read_at);
+    const streakBonus = calculateStreakBonus(newStreak);
+    const botCheck = await antiAbuse.detectProgressBotPatterns(userId, entryId, chapterNumber, currentLastRead);
+    const xpAllowed = await antiAbuse.canGrantXp(userId);
+
+    const shouldAwardXp = isRead && isNewProgress && !alreadyReadTarget && !botCheck.isBot && xpAllowed
+      && !(strict && (untimed || readTimeValidation?.isSuspicious));
+    const xpGained = shouldAwardXp ? XP_PER_CHAPTER + streakBonus : 0;
+
+    // BUG 46: last_read_chapter is monotonic and only moves on reads
+    const progressUpdated = isRead && isNewProgress;
+    const updatedEntry = await tx.libraryEntry.update({
+      where: { id: entryId, user_id: userId },
+      data: {
+        last_read_chapter: progressUpdated ? chapterNumber : entry.last_read_chapter,
+        last_read_at: progressUpdated ? later(entry.last_read_at, readAt) : entry.last_read_at,
+        updated_at: new Date(),
+      },
+    });
+
+    const newXp = addXp(userProfile.xp || 0, xpGained);
+    const newLevel = calculateLevel(newXp);
+    const seasonUpdate = calculateSeasonXpUpdate(userProfile.season_xp, userProfile.current_season, xpGained);
+
+    await tx.user.update({
+      where: { id: userId },
+      data: {
+        xp: newXp,
+        level: newLevel,
+        streak_days: newStreak,
+        longest_streak: Math.max(userProfile.longest_streak || 0, newStreak),
+        last_read_at: isRead ? later(userProfile.last_read_at, readAt) : userProfile.last_read_at,
+        // Only count chapters that earned XP (prevents gaming)
+        chapters_read: { increment: shouldAwardXp ? 1 : 0 },
+        season_xp: seasonUpdate.season_xp,
+        current_season: seasonUpdate.current_season,
+      },
+    });
+
+    if (shouldAwardXp) {
+      try {
+        await logActivity(tx, userId, 'chapter_read', {
+          seriesId: entry.series_id ?? undefined,
+          metadata: {
+            chapter_number: chapterNumber,
+            xp_gained: xpGained,
+            streak: newStreak,
+            ...(via ? { via } : {}),
+          },
+        });
+      } catch (activityError: unknown) {
+        logger.error('Failed to log activity', { error: activityError instanceof Error ? activityError.message : String(activityError) });
+      }
+    }
+
+    // Mark chapters 1→N read in both read tables, newest write wins per chapter
+    if (isRead && chapterNumber !== undefined && chapterNumber !== null && chapterNumber > 0 && entry.series_id) {
+      const chapters = await tx.$queryRaw<{ id: string }[]>`
+        SELECT id
+        FROM logical_chapters
+        WHERE series_id = ${entry.series_id}::uuid
+          AND CAST(chapter_number AS DECIMAL) <= ${chapterNumber}
+        ORDER BY CAST(chapter_number AS DECIMAL) ASC
+        LIMIT ${MAX_CHAPTERS_PER_BULK}
+      `;
+
+      if (chapters.length > 0) {
+        const chapterIds = chapters.map(ch => ch.id);
+        await tx.$executeRaw`
+          INSERT INTO "user_chapter_reads_v2"
+            ("id", "user_id", "chapter_id", "is_read", "updated_at", "read_at", "source_used_id", "device_id", "server_received_at", "read_through")
+          SELECT
+            gen_random_uuid(),
+            ${userId}::uuid,
+            ch.id::uuid,
+            true,
+            ${readAt}::timestamptz,
+            ${readAt}::timestamptz,
+            ${sourceId ?? null}::uuid,
+            ${deviceId ?? null},
+            NOW(),
+            ${currentReadThrough(entry.reread_count)}
+          FROM unnest(${chapterIds}::uuid[]) AS ch(id)
+          ON CONFLICT ("user_id", "chapter_id")
+          DO UPDATE SET
+            "is_read" = true,
+            "read_through" = EXCLUDED."read_through",
+            "updated_at" = EXCLUDED."updated_at",
+            "device_id" = EXCLUDED."device_id",
+            "server_received_at" = EXCLUDED."server_received_at",
+            "read_at" = EXCLUDED."updated_at",
+            "source_used_id" = EXCLUDED."source_used_id"
+          WHERE EXCLUDED."updated_at" >= "user_chapter_reads_v2"."updated_at"
+        `;
+      }
+
+      // Legacy compatibility
+      const legacyChapters = await tx.$queryRaw<{ id: string }[]>`
+        SELECT id
+        FROM legacy_chapters
+        WHERE series_id = ${entry.series_id}::uuid
+          AND chapter_number > 0
+          AND chapter_number <= ${chapterNumber}
+        LIMIT ${MAX_CHAPTERS_PER_BULK}
+      `;
+
+      if (legacyChapters.length > 0) {
+        const legacyChapterIds = legacyChapters.map(ch => ch.id);
+        await tx.$executeRaw`
+          INSERT INTO "user_chapter_reads" ("user_id", "chapter_id", "read_at")
+          SELECT ${userId}::uuid, ch.id::uuid, ${readAt}::timestamptz
+          FROM unnest(${legacyChapterIds}::uuid[]) AS ch(id)
+          ON CONFLICT ("user_id", "chapter_id")
+          DO UPDATE SET "read_at" = EXCLUDED."read_at"
+        `;
+      }
+    }
+
+    // Achievement XP is awarded inside checkAchievements
+    const unlockedAchievements: UnlockedAchievement[] = [];
+    let achievementCheckFailed = false;
+    try {
+      unlockedAchievements.push(...await checkAchievements(tx, userId, 'chapter_read'));
+      if (newStreak > userProfile.streak_days) {
+        unlockedAchievements.push(...await checkAchievements(tx, userId, 'streak_reached', { currentStreak: newStreak }));
+      }
+    } catch (achievementError: unknown) {
+      achievementCheckFailed = true;
+      logger.error('Failed to check achievements', {
+        error: achievementError instanceof Error ? achievementError.message : String(achievementError),
+        userId,
+        entryId
+      });
+    }
+
+    return {
+      entry: updatedEntry,
+      seriesId: entry.series_id,
+      progressUpdated,
+      lastReadChapter: progressUpdated && chapterNumber != null ? chapterNumber : currentLastRead,
+      xpGained,
+      achievements: unlockedAchievements.map(a => ({
+        code: a.code,
+        name: a.name,
+        xp_reward: a.xp_reward,
+        rarity: a.rarity,
+      })),
+      newStreak,
+      newLevel,
+      chaptersMarkedRead: isRead && chapterNumber ? chapterNumber : 0,
+      readTimeFlagged: readTimeValidation?.isSuspicious ?? false,
+      achievementCheckFailed,
+    };
+  }, { ...DEFAULT_TX_OPTIONS, timeout: 15000 });
+
+  try {
+    await redisApi.incr(`${REDIS_KEY_PREFIX}feed:v:${userId}`);
+  } catch (cacheError: unknown) {
+    logger.error('Failed to invalidate feed cache', { error: cacheError instanceof Error ? cacheError.message : String(cacheError) });
+  }
+
+  // MANGATRACK PARITY: activity score (chapter_read: +50)
+  if (result.seriesId && isRead) {
+    await recordActivityEvent({ series_id: result.seriesId, event_type: 'chapter_read' });
+  }
+
+  // M1 FIX: retry the achievement check if it failed during the transaction
+  if (result.achievementCheckFailed) {
+    try {
+      await notificationQueue.add(
+        `achievement-retry-${userId}-${Date.now()}`,
+        {
+          type: 'achievement_check_retry',
+          userId,
+          trigger: 'chapter_read',
+          entryId,
+          timestamp: new Date().toISOString(),
+        },
+        { delay: 5000 }
+      );
+    } catch (retryQueueError: unknown) {
+      logger.warn('Failed to queue achievement retry', {
+        error: retryQueueError instanceof Error ? retryQueueError.message : String(retryQueueError)
+      });
+    }
+  }
+
+  return result;
+}
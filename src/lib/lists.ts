@@ -0,0 +1,213 @@
+import { prisma } from '@/lib/prisma';
+
+/**
+ * User lists: ordered, user-defined collections of series that sit alongside
+ * the fixed library statuses. Other users see a list only when the list is
+ * public and the owner hasn't hidden lists (or their whole profile) through
+ * privacy_settings.
+ */
+
+export const MAX_USER_LISTS = 100;
+export const MAX_LIST_ITEMS = 500;
+
+interface ListPrivacySettings {
+  profile_public?: boolean;
+  lists_public?: boolean;
+}
+
+export function areListsVisible(privacySettings: unknown): boolean {
+  const settings = (privacySettings ?? {}) as ListPrivacySettings;
+  return settings.profile_public !== false && settings.lists_public !== false;
+}
+
+/** Whether a viewer (null when signed out) may open the list */
+export function canViewList(
+  list: { user_id: string; is_public: boolean; users: { privacy_settings: unknown } },
+  viewerId: string | null | undefined
+): boolean {
+  return list.user_id === viewerId || (list.is_public && areListsVisible(list.users.privacy_settings));
+}
+
+export const USER_LIST_SELECT = {
+  id: true,
+  user_id: true,
+  name: true,
+  description: true,
+  is_public: true,
+  position: true,
+  cover_series_id: true,
+  created_at: true,
+  updated_at: true,
+  CoverSeries: { select: { cover_url: true, content_rating: true } },
+  UserListItem: {
+    orderBy: { position: 'asc' },
+    take: 1,
+    select: { Series: { select: { cover_url: true, content_rating: true } } },
+  },
+  _count: { select: { UserListItem: true } },
+} as const;
+
+export const LIST_ITEM_SELECT = {
+  series_id: true,
+  position: true,
+  note: true,
+  added_at: true,
+  Series: {
+    select: {
+      id: true,
+      title: true,
+      cover_url: true,
+      type: true,
+      status: true,
+      content_rating: true,
+    },
+  },
+} as const;
+
+type ListRow = {
+  id: string;
+  user_id: string;
+  name: string;
+  description: string | null;
+  is_public: boolean;
+  position: number;
+  cover_series_id: string | null;
+  created_at: Date;
+  updated_at: Date;
+  CoverSeries: { cover_url: string | null; content_rating: string | null } | null;
+  UserListItem: Array<{ Series: { cover_url: string | null; content_rating: string | null } }>;
+  _count: { UserListItem: number };
+};
+
+/** Flattens a USER_LIST_SELECT row; the cover falls back to the first item */
+export function serializeList(list: ListRow) {
+  const cover = list.CoverSeries ?? list.UserListItem[0]?.Series ?? null;
+  return {
+    id: list.id,
+    user_id: list.user_id,
+    name: list.name,
+    description: list.description,
+    is_public: list.is_public,
+    position: list.position,
+    cover_series_id: list.cover_series_id,
+    cover_url: cover?.cover_url ?? null,
+    cover_content_rating: cover?.content_rating ?? null,
+    item_count: list._count.UserListItem,
+    created_at: list.created_at,
+    updated_at: list.updated_at,
+  };
+}
+
+export type SerializedList = ReturnType<typeof serializeList>;
+
+/**
+ * Rewrites `position` for the user's lists in the given order. Ids that
+ * aren't the user's are ignored; lists left out keep their position.
+ */
+export async function reorderUserLists(userId: string, listIds: string[]): Promise<void> {
+  await prisma.$executeRaw`
+    UPDATE user_lists AS l
+    SET position = o.ord - 1, updated_at = NOW()
+    FROM unnest(${listIds}::uuid[]) WITH ORDINALITY AS o(id, ord)
+    WHERE l.id = o.id AND l.user_id = ${userId}::uuid
+  `;
+}
+
+/** Rewrites `position` for the items of a list in the given series order */
+export async function reorderListItems(listId: string, seriesIds: string[]): Promise<void> {
+  await prisma.$executeRaw`
+    UPDATE user_list_items AS i
+    SET position = o.ord - 1
+    FROM unnest(${seriesIds}::uuid[]) WITH ORDINALITY AS o(series_id, ord)
+    WHERE i.list_id = ${listId}::uuid AND i.series_id = o.series_id
+  `;
+}
+
+interface StatsSeries {
+  type: string;
+  status: string | null;
+  genres: string[];
+  average_rating: unknown;
+  chapter_count: number | null;
+}
+
+/**
+ * Aggregate figures shown on a public list page: how many series, how many
+ * are finished, the average community rating and the most common types and
+ * genres.
+ */
+export function summarizeList(series: StatsSeries[]) {
+  const ratings = series
+    .map(s => (s.average_rating == null ? NaN : Number(s.average_rating)))
+    .filter(r => !Number.isNaN(r));
+
+  const countBy = (values: string[]) => {
+    const counts = new Map<string, number>();
+    for (const value of values) counts.set(value, (counts.get(value) ?? 0) + 1);
+    return [...counts.entries()]
+      .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+      .map(([name, count]) => ({ name, count }));
+  };
+
+  return {
+    series_count: series.length,
+    completed_count: series.filter(s => s.status === 'completed').length,
+    total_chapters: series.reduce((sum, s) => sum + (s.chapter_count ?? 0), 0),
+    average_rating: ratings.length
+      ? Math.round((ratings.reduce((sum, r) => sum + r, 0) / ratings.length) * 100) / 100
+      : null,
+    types: countBy(series.map(s => s.type)),
+    top_genres: countBy(series.flatMap(s => s.genres)).slice(0, 5),
+  };
+}
+
+export type ListStats = ReturnType<typeof summarizeList>;
+
+export interface ListActivityRow {
+  id: string;
+  added_at: Date;
+  note: string | null;
+  series_id: string;
+  series_title: string;
+  series_cover_url: string | null;
+  series_content_rating: string | null;
+  series_status: string | null;
+  series_type: string;
+  list_id: string;
+  list_name: string;
+  owner_username: string | null;
+}
+
+/**
+ * Series added to lists the user follows, after they followed, newest first.
+ * Lists that went private (or whose owner hid their lists) drop out. Uses the
+ * same (timestamp, id) keyset as the chapter activity feed so the two can be
+ * merged page by page.
+ */
+export async function getFollowedListActivity(
+  userId: string,
+  cursor: { date: string | null; id: string | null },
+  limit: number
+): Promise<ListActivityRow[]> {
+  return prisma.$queryRaw<ListActivityRow[]>`
+    SELECT i.id, i.added_at, i.note,
+      s.id AS series_id, s.title AS series_title, s.cover_url AS series_cover_url,
+      s.content_rating AS series_content_rating, s.status AS series_status, s.type AS series_type,
+      l.id AS list_id, l.name AS list_name, u.username AS owner_username
+    FROM user_list_follows f
+    JOIN user_lists l ON l.id = f.list_id AND l.is_public = true AND l.user_id <> f.user_id
+    JOIN users u ON u.id = l.user_id
+      AND COALESCE(u.privacy_settings->>'lists_public', 'true') <> 'false'
+      AND COALESCE(u.privacy_settings->>'profile_public', 'true') <> 'false'
+    JOIN user_list_items i ON i.list_id = l.id AND i.added_at > f.created_at
+    JOIN series s ON s.id = i.series_id AND s.deleted_at IS NULL
+    WHERE f.user_id = ${userId}::uuid
+      AND (
+        ${cursor.date}::timestamptz IS NULL
+        OR i.added_at < ${cursor.date}::timestamptz
+        OR (i.added_at = ${cursor.date}::timestamptz AND i.id < ${cursor.id}::uuid)
+      )
+    ORDER BY i.added_at DESC, i.id DESC
+    LIMIT ${limit}
+  `;
+}
@@ -10,6 +10,7 @@
 
 import { mangadexStatsClient, RateLimitError, StatsClientError, type MangaStats } from './stats';
 import { logger } from '@/lib/logger';
+import { recalculateSeriesRating } from '@/lib/series-ratings';
 import type { PrismaClient } from '@prisma/client';
 
 const ENABLE_STATS_UPSERT = process.env.ENABLE_MANGADEX_STATS_UPSERT === 'true';
@@ -127,11 +128,13 @@ export async function enrichSeriesWithStats(
         where: { id: seriesId },
         data: {
           total_follows: stats.follows || 0,
-          average_rating: stats.rating ?? null,
+          // MangaDex's rating is the prior for the series' own Bayesian average
+          external_rating: stats.rating ?? null,
           stats_last_fetched_at: new Date(),
           updated_at: new Date(),
         },
       });
+      await recalculateSeriesRating(seriesId, prisma);
 
       logger.info('[StatsEnrichment] stats-upsert', {
         seriesId,
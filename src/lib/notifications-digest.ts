@@ -0,0 +1,68 @@
+/**
+ * Grouping and wording shared by the in-app DIGEST notification and the
+ * digest email (see notification-digest.processor.ts).
+ */
+
+export interface DigestBufferEntry {
+  series_id: string;
+  chapter_number: { toString(): string };
+  source_names: string[];
+  Series?: { title: string } | null;
+}
+
+export interface DigestSeries {
+  seriesId: string;
+  title: string;
+  /** Ascending chapter numbers */
+  chapters: string[];
+  sources: string[];
+}
+
+/**
+ * Groups buffered chapter updates by series, keeping first-seen series order.
+ */
+export function groupDigestUpdates(pendingUpdates: DigestBufferEntry[]): DigestSeries[] {
+  const seriesUpdates = new Map<string, { title: string, chapters: Set<string>, sources: Set<string> }>();
+
+  for (const update of pendingUpdates) {
+    const seriesId = update.series_id;
+    if (!seriesUpdates.has(seriesId)) {
+      seriesUpdates.set(seriesId, {
+        title: update.Series?.title || 'Unknown Series',
+        chapters: new Set(),
+        sources: new Set(),
+      });
+    }
+    const group = seriesUpdates.get(seriesId)!;
+    group.chapters.add(update.chapter_number.toString());
+    update.source_names.forEach(s => group.sources.add(s));
+  }
+
+  return Array.from(seriesUpdates.entries()).map(([seriesId, group]) => ({
+    seriesId,
+    title: group.title,
+    chapters: Array.from(group.chapters).sort((a, b) => Number(a) - Number(b)),
+    sources: Array.from(group.sources),
+  }));
+}
+
+export function formatDigestSummary(seriesList: DigestSeries[]): { title: string, message: string } {
+  if (seriesList.length === 1) {
+    const s = seriesList[0];
+    const sources = s.sources.join(', ');
+    return {
+      title: `Updates: ${s.title}`,
+      message: s.chapters.length === 1
+        ? `Chapter ${s.chapters[0]} is available on ${sources}.`
+        : `${s.chapters.length} new chapters (${s.chapters.join(', ')}) available on ${sources}.`,
+    };
+  }
+
+  const seriesNames = seriesList.map(s => s.title);
+  return {
+    title: `${seriesList.length} Series Updated`,
+    message: seriesNames.length <= 3
+      ? `${seriesNames.join(', ')} have new chapters available.`
+      : `${seriesNames.slice(0, 2).join(', ')} and ${seriesNames.length - 2} others have new chapters available.`,
+  };
+}
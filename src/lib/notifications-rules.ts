@@ -0,0 +1,305 @@
+import { prisma } from './prisma';
+import { isOfficialSource } from './chapter-links/url-utils';
+import { NotificationRuleParamsSchemas, NotificationRuleType } from './schemas/notification-rules';
+
+/**
+ * Per-user notification rules, evaluated by the notification fan-out before a
+ * chapter notification is queued (and by the dry-run endpoint against recent
+ * chapters). Every enabled rule that applies to the series must pass; the
+ * first failing rule decides the outcome.
+ */
+
+export interface NotificationRuleLike {
+  id?: string;
+  series_id?: string | null;
+  type: string;
+  params: unknown;
+  enabled?: boolean;
+}
+
+export interface RuleChapterContext {
+  chapterNumber: number;
+  sourceName?: string | null;
+  sourceUrl?: string | null;
+  /** Volume of this chapter, when the source reports one */
+  volumeNumber?: number | null;
+  /** Highest volume among earlier chapters of the series */
+  previousVolumeNumber?: number | null;
+  /** When the chapter is being delivered (or was detected, for dry runs) */
+  at: Date;
+}
+
+export interface RuleReaderContext {
+  /** Chapters above the reader's last read chapter, up to and including this one */
+  unreadCount: number;
+}
+
+export type RuleDecision =
+  | { action: 'notify' }
+  | { action: 'skip'; reason: string; ruleId?: string }
+  | { action: 'defer'; until: Date; reason: string; ruleId?: string };
+
+type RuleOutcome = { pass: true } | { pass: false; reason: string } | { defer: Date; reason: string };
+
+const SOURCE_RULES: ReadonlySet<string> = new Set<NotificationRuleType>(['official_only', 'source_allowlist']);
+
+function parseTime(value: string): number {
+  const [hours, minutes] = value.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+function localMinutes(at: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(at);
+  const get = (type: string) => Number(parts.find(p => p.type === type)?.value ?? 0);
+  return get('hour') * 60 + get('minute');
+}
+
+/**
+ * When `at` falls in the quiet window, returns the moment it ends.
+ * Windows may wrap midnight (23:00–08:00).
+ */
+export function quietHoursEnd(at: Date, params: { start: string; end: string; timezone: string }): Date | null {
+  const start = parseTime(params.start);
+  const end = parseTime(params.end);
+  const now = localMinutes(at, params.timezone);
+  const inside = start < end ? now >= start && now < end : now >= start || now < end;
+  if (!inside) return null;
+
+  const minutesLeft = (end - now + 1440) % 1440;
+  const startOfMinute = at.getTime() - (at.getTime() % 60000);
+  return new Date(startOfMinute + minutesLeft * 60000);
+}
+
+function evaluateRule(rule: NotificationRuleLike, chapter: RuleChapterContext, reader: RuleReaderContext): RuleOutcome {
+  const schema = NotificationRuleParamsSchemas[rule.type as NotificationRuleType];
+  const parsed = schema?.safeParse(rule.params ?? {});
+  // Unknown or corrupt rules never block notifications
+  if (!parsed?.success) return { pass: true };
+
+  switch (rule.type as NotificationRuleType) {
+    case 'official_only':
+      return chapter.sourceUrl && isOfficialSource(chapter.sourceUrl)
+        ? { pass: true }
+        : { pass: false, reason: `${chapter.sourceName ?? 'This source'} is not an official source` };
+
+    case 'source_allowlist': {
+      const { sources } = parsed.data as { sources: string[] };
+      const allowed = sources.some(s => s.toLowerCase() === chapter.sourceName?.toLowerCase());
+      return allowed ? { pass: true } : { pass: false, reason: `${chapter.sourceName ?? 'This source'} is not in your source list` };
+    }
+
+    case 'min_unread': {
+      const { count } = parsed.data as { count: number };
+      return reader.unreadCount >= count
+        ? { pass: true }
+        : { pass: false, reason: `Only ${reader.unreadCount} of ${count} unread chapters so far` };
+    }
+
+    case 'quiet_hours': {
+      const params = parsed.data as { start: string; end: string; timezone: string };
+      const until = quietHoursEnd(chapter.at, params);
+      return until ? { defer: until, reason: `Quiet hours ${params.start}–${params.end} (${params.timezone})` } : { pass: true };
+    }
+
+    case 'volume_end_only': {
+      // A chapter that opens a new volume means the previous one is complete
+      const { volumeNumber, previousVolumeNumber } = chapter;
+      if (volumeNumber != null && previousVolumeNumber != null && volumeNumber > previousVolumeNumber) {
+        return { pass: true };
+      }
+      return { pass: false, reason: 'Not the end of a volume' };
+    }
+
+    case 'max_behind': {
+      const { chapters } = parsed.data as { chapters: number };
+      return reader.unreadCount > chapters
+        ? { pass: false, reason: `${reader.unreadCount} unread chapters is more than ${chapters} behind` }
+        : { pass: true };
+    }
+
+    default:
+      return { pass: true };
+  }
+}
+
+export function evaluateNotificationRules(
+  rules: NotificationRuleLike[],
+  chapter: RuleChapterContext,
+  reader: RuleReaderContext
+): RuleDecision {
+  let deferred: Extract<RuleDecision, { action: 'defer' }> | null = null;
+
+  for (const rule of rules) {
+    if (rule.enabled === false) continue;
+    const outcome = evaluateRule(rule, chapter, reader);
+    if ('defer' in outcome) {
+      if (!deferred || outcome.defer > deferred.until) {
+        deferred = { action: 'defer', until: outcome.defer, reason: outcome.reason, ruleId: rule.id };
+      }
+    } else if (!outcome.pass) {
+      return { action: 'skip', reason: outcome.reason, ruleId: rule.id };
+    }
+  }
+
+  return deferred ?? { action: 'notify' };
+}
+
+/**
+ * True when the rules pick sources themselves, which replaces the fan-out's
+ * "first source / preferred source" selection for this user.
+ */
+export function hasSourceRule(rules: NotificationRuleLike[]): boolean {
+  return rules.some(rule => rule.enabled !== false && SOURCE_RULES.has(rule.type));
+}
+
+export function rulesForSeries<T extends NotificationRuleLike>(rules: T[], seriesId: string): T[] {
+  return rules.filter(rule => rule.series_id == null || rule.series_id === seriesId);
+}
+
+export function countUnreadChapters(chapterNumbers: number[], lastReadChapter: number | null, upTo: number): number {
+  const after = lastReadChapter ?? -Infinity;
+  return chapterNumbers.filter(n => n > after && n <= upTo).length;
+}
+
+/** Highest volume among chapters numbered below `chapterNumber` */
+export function previousVolume(chapters: Array<{ number: number; volume: number | null }>, chapterNumber: number): number | null {
+  let highest: number | null = null;
+  for (const chapter of chapters) {
+    if (chapter.number < chapterNumber && chapter.volume != null && (highest === null || chapter.volume > highest)) {
+      highest = chapter.volume;
+    }
+  }
+  return highest;
+}
+
+export interface SeriesChapterIndex {
+  chapters: Array<{ number: number; volume: number | null }>;
+  numbers: number[];
+}
+
+export async function loadSeriesChapterIndex(seriesIds: string[]): Promise<Map<string, SeriesChapterIndex>> {
+  const rows = await prisma.logicalChapter.findMany({
+    where: { series_id: { in: seriesIds }, deleted_at: null },
+    select: { series_id: true, chapter_number: true, volume_number: true },
+  });
+
+  const index = new Map<string, SeriesChapterIndex>();
+  for (const row of rows) {
+    const number = Number(row.chapter_number);
+    if (!Number.isFinite(number)) continue;
+    if (!index.has(row.series_id)) index.set(row.series_id, { chapters: [], numbers: [] });
+    const entry = index.get(row.series_id)!;
+    entry.chapters.push({ number, volume: row.volume_number });
+    entry.numbers.push(number);
+  }
+  return index;
+}
+
+/** Enabled rules of these users that apply to the series, grouped by user. */
+export async function loadNotificationRules(userIds: string[], seriesId: string) {
+  const rules = await prisma.notificationRule.findMany({
+    where: {
+      user_id: { in: userIds },
+      enabled: true,
+      OR: [{ series_id: seriesId }, { series_id: null }],
+    },
+    select: { id: true, user_id: true, series_id: true, type: true, params: true },
+  });
+
+  const byUser = new Map<string, typeof rules>();
+  for (const rule of rules) {
+    if (!byUser.has(rule.user_id)) byUser.set(rule.user_id, []);
+    byUser.get(rule.user_id)!.push(rule);
+  }
+  return byUser;
+}
+
+export interface DryRunResult {
+  series_id: string;
+  series_title: string;
+  chapter_number: number;
+  source_name: string;
+  detected_at: Date;
+  decision: RuleDecision['action'];
+  reason: string | null;
+  deliver_at: Date | null;
+}
+
+/**
+ * Replays recently detected chapters of the user's library through `rules`.
+ * Unread counts use the reader's current progress, so chapters they have
+ * already read count as caught up.
+ */
+export async function dryRunNotificationRules(
+  userId: string,
+  rules: NotificationRuleLike[],
+  options: { seriesId?: string; days: number; limit: number; now?: Date }
+): Promise<DryRunResult[]> {
+  const now = options.now ?? new Date();
+  const entries = await prisma.libraryEntry.findMany({
+    where: {
+      user_id: userId,
+      deleted_at: null,
+      series_id: options.seriesId ?? { not: null },
+    },
+    select: { series_id: true, last_read_chapter: true, Series: { select: { title: true } } },
+  });
+  if (entries.length === 0) return [];
+
+  const entryBySeries = new Map(entries.map(e => [e.series_id!, e]));
+  const sources = await prisma.chapterSource.findMany({
+    where: {
+      is_available: true,
+      detected_at: { gte: new Date(now.getTime() - options.days * 24 * 60 * 60 * 1000) },
+      LogicalChapter: { series_id: { in: Array.from(entryBySeries.keys()) }, deleted_at: null },
+    },
+    orderBy: { detected_at: 'desc' },
+    take: options.limit,
+    select: {
+      detected_at: true,
+      source_chapter_url: true,
+      LogicalChapter: { select: { series_id: true, chapter_number: true, volume_number: true } },
+      SeriesSource: { select: { source_name: true, source_url: true } },
+    },
+  });
+  if (sources.length === 0) return [];
+
+  const chapterIndex = await loadSeriesChapterIndex(Array.from(new Set(sources.map(s => s.LogicalChapter.series_id))));
+
+  return sources.map((source) => {
+    const seriesId = source.LogicalChapter.series_id;
+    const entry = entryBySeries.get(seriesId)!;
+    const chapterNumber = Number(source.LogicalChapter.chapter_number);
+    const index = chapterIndex.get(seriesId) ?? { chapters: [], numbers: [] };
+    const lastRead = entry.last_read_chapter === null ? null : Number(entry.last_read_chapter);
+
+    const decision = evaluateNotificationRules(
+      rulesForSeries(rules, seriesId),
+      {
+        chapterNumber,
+        sourceName: source.SeriesSource.source_name,
+        sourceUrl: source.source_chapter_url || source.SeriesSource.source_url,
+        volumeNumber: source.LogicalChapter.volume_number,
+        previousVolumeNumber: previousVolume(index.chapters, chapterNumber),
+        at: source.detected_at,
+      },
+      { unreadCount: countUnreadChapters(index.numbers, lastRead, chapterNumber) }
+    );
+
+    return {
+      series_id: seriesId,
+      series_title: entry.Series?.title ?? 'Unknown Series',
+      chapter_number: chapterNumber,
+      source_name: source.SeriesSource.source_name,
+      detected_at: source.detected_at,
+      decision: decision.action,
+      reason: decision.action === 'notify' ? null : decision.reason,
+      deliver_at: decision.action === 'defer' ? decision.until : decision.action === 'notify' ? source.detected_at : null,
+    };
+  });
+}
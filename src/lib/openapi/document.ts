@@ -0,0 +1,232 @@
+import { z, type AnyZodObject, type ZodTypeAny } from 'zod';
+import { API_TOKEN_SCOPES, API_TOKEN_SCOPE_LABELS, API_TOKEN_RATE_LIMIT, type ApiTokenScope } from '@/lib/api-tokens';
+import { LibraryQuerySchema, ReleaseCalendarQuerySchema, progressUpdateShape } from '@/lib/schemas/library';
+import { FeedActivityQuerySchema, FeedUpdatesQuerySchema } from '@/lib/schemas/feed';
+import { ScrobbleSchema } from '@/lib/schemas/scrobble';
+import { zodToJsonSchema, type JsonSchema } from './zod-schema';
+
+/**
+ * OpenAPI 3.1 description of the public REST API, built from the same zod
+ * schemas the routes validate with. Every operation listed here accepts a
+ * personal access token with the named scope as well as a session cookie.
+ */
+
+interface ApiOperation {
+  method: 'get' | 'post' | 'patch' | 'delete';
+  path: string;
+  operationId: string;
+  summary: string;
+  tag: string;
+  /** Token scope the route requires; null for endpoints open to anyone */
+  scope: ApiTokenScope | null;
+  pathParams?: Record<string, string>;
+  query?: AnyZodObject;
+  body?: ZodTypeAny;
+  success: { status: number; description: string };
+}
+
+const OPERATIONS: ApiOperation[] = [
+  {
+    method: 'get',
+    path: '/api/library',
+    operationId: 'listLibrary',
+    summary: 'List library entries',
+    tag: 'Library',
+    scope: 'read:library',
+    query: LibraryQuerySchema,
+    success: { status: 200, description: 'Library entries with series details and pagination' },
+  },
+  {
+    method: 'get',
+    path: '/api/library/release-calendar',
+    operationId: 'getReleaseCalendar',
+    summary: 'Expected releases for series being read',
+    tag: 'Library',
+    scope: 'read:library',
+    query: ReleaseCalendarQuerySchema,
+    success: { status: 200, description: 'Upcoming predicted releases and series on hiatus' },
+  },
+  {
+    method: 'get',
+    path: '/api/library/tags',
+    operationId: 'listLibraryTags',
+    summary: 'Tags used in the library',
+    tag: 'Library',
+    scope: 'read:library',
+    success: { status: 200, description: 'Tags with the number of entries carrying each, most used first' },
+  },
+  {
+    method: 'patch',
+    path: '/api/library/{id}/progress',
+    operationId: 'updateProgress',
+    summary: 'Record reading progress',
+    tag: 'Progress',
+    scope: 'write:progress',
+    pathParams: { id: 'Library entry id' },
+    body: z.object(progressUpdateShape),
+    success: { status: 200, description: 'Updated progress, XP and any unlocked achievements' },
+  },
+  {
+    method: 'post',
+    path: '/api/scrobble',
+    operationId: 'scrobble',
+    summary: 'Report a chapter read in a reader app',
+    tag: 'Progress',
+    scope: 'write:progress',
+    body: ScrobbleSchema,
+    success: { status: 200, description: 'Resulting progress and XP; 201 when the series was added to the library' },
+  },
+  {
+    method: 'get',
+    path: '/api/feed/updates',
+    operationId: 'listFeedUpdates',
+    summary: 'New chapters for followed series',
+    tag: 'Feed',
+    scope: 'read:feed',
+    query: FeedUpdatesQuerySchema,
+    success: { status: 200, description: 'Chapter updates, newest first, with a cursor for the next page' },
+  },
+  {
+    method: 'get',
+    path: '/api/feed/activity',
+    operationId: 'listFeedActivity',
+    summary: 'Chapter activity feed',
+    tag: 'Feed',
+    scope: 'read:feed',
+    query: FeedActivityQuerySchema,
+    success: { status: 200, description: 'Chapter entries with read state, series added to followed lists, and a cursor for the next page' },
+  },
+  {
+    method: 'get',
+    path: '/api/series/{id}/stats',
+    operationId: 'getSeriesStats',
+    summary: 'Series statistics and release schedule',
+    tag: 'Series',
+    scope: null,
+    pathParams: { id: 'Series id' },
+    success: { status: 200, description: 'Reader counts, rating distribution, popularity and predicted next release' },
+  },
+];
+
+const ERROR_RESPONSES: Record<string, string> = {
+  400: 'Invalid input',
+  401: 'Missing, invalid or expired credentials',
+  403: 'Token lacks the required scope',
+  429: 'Rate limit exceeded',
+};
+
+function queryParameters(query: AnyZodObject) {
+  return Object.entries(query.shape as Record<string, ZodTypeAny>).map(([name, field]) => ({
+    name,
+    in: 'query',
+    required: !field.isOptional(),
+    schema: zodToJsonSchema(field),
+  }));
+}
+
+function buildOperation(op: ApiOperation) {
+  const parameters = [
+    ...Object.entries(op.pathParams ?? {}).map(([name, description]) => ({
+      name,
+      in: 'path',
+      required: true,
+      description,
+      schema: { type: 'string', format: 'uuid' },
+    })),
+    ...(op.query ? queryParameters(op.query) : []),
+  ];
+
+  const errors = Object.entries(ERROR_RESPONSES)
+    .filter(([status]) => op.scope || (status !== '401' && status !== '403'))
+    .map(([status, description]) => [status, {
+      description,
+      content: { 'application/json': { schema: { $ref: '#/components/schemas/Error' } } },
+    }]);
+
+  return {
+    operationId: op.operationId,
+    summary: op.summary,
+    tags: [op.tag],
+    security: op.scope ? [{ bearerAuth: [op.scope] }, { cookieAuth: [] }] : [],
+    ...(op.scope ? { 'x-required-scope': op.scope } : {}),
+    ...(parameters.length ? { parameters } : {}),
+    ...(op.body ? {
+      requestBody: {
+        required: true,
+        content: { 'application/json': { schema: zodToJsonSchema(op.body) } },
+      },
+    } : {}),
+    responses: {
+      [op.success.status]: {
+        description: op.success.description,
+        content: { 'application/json': { schema: { type: 'object' } } },
+      },
+      ...Object.fromEntries(errors),
+    },
+  };
+}
+
+export function buildOpenApiDocument(serverUrl: string) {
+  const paths: Record<string, Record<string, unknown>> = {};
+  for (const op of OPERATIONS) {
+    paths[op.path] = { ...paths[op.path], [op.method]: buildOperation(op) };
+  }
+
+  const scopeList = API_TOKEN_SCOPES.map(scope => `- \`${scope}\`: ${API_TOKEN_SCOPE_LABELS[scope]}`).join('\n');
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'MangaTrack API',
+      version: '1.0.0',
+      description: [
+        'Create a personal access token under Settings → Privacy → API Access and send it as',
+        '`Authorization: Bearer <token>`. Each token is limited to the scopes chosen when it was',
+        `created and to ${API_TOKEN_RATE_LIMIT} requests per minute.`,
+        '',
+        'Scopes:',
+        scopeList,
+      ].join('\n'),
+    },
+    servers: [{ url: serverUrl }],
+    tags: [
+      { name: 'Library' },
+      { name: 'Progress' },
+      { name: 'Feed' },
+      { name: 'Series' },
+    ],
+    paths,
+    components: {
+      securitySchemes: {
+        bearerAuth: {
+          type: 'http',
+          scheme: 'bearer',
+          description: 'Personal access token (`mtp_…`)',
+        },
+        cookieAuth: {
+          type: 'apiKey',
+          in: 'cookie',
+          name: 'sb-<project-ref>-auth-token',
+          description: 'Browser session; used by the web app',
+        },
+      },
+      schemas: {
+        Error: {
+          type: 'object',
+          properties: {
+            error: {
+              type: 'object',
+              properties: {
+                message: { type: 'string' },
+                code: { type: 'string' },
+                requestId: { type: 'string' },
+              },
+              required: ['message', 'code'],
+            },
+          },
+          required: ['error'],
+        } satisfies JsonSchema,
+      },
+    },
+  };
+}
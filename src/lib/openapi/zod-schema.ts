@@ -0,0 +1,132 @@
+import { ZodFirstPartyTypeKind, type ZodTypeAny } from 'zod';
+
+/**
+ * Converts the zod schemas that validate API input into JSON Schema
+ * (draft 2020-12, as used by OpenAPI 3.1). Describes what a client may
+ * send: preprocessors, refinements and transforms are looked through to the
+ * schema they wrap, and defaults are reported as `default`.
+ */
+
+export type JsonSchema = Record<string, unknown>;
+
+function withNull(schema: JsonSchema): JsonSchema {
+  if (typeof schema.type === 'string') {
+    const { enum: values, ...rest } = schema;
+    return {
+      ...rest,
+      type: [schema.type, 'null'],
+      ...(Array.isArray(values) ? { enum: [...values, null] } : {}),
+    };
+  }
+  return { anyOf: [schema, { type: 'null' }] };
+}
+
+function stringSchema(checks: Array<{ kind: string; value?: number; regex?: RegExp }>): JsonSchema {
+  const schema: JsonSchema = { type: 'string' };
+  for (const check of checks) {
+    switch (check.kind) {
+      case 'min': schema.minLength = check.value; break;
+      case 'max': schema.maxLength = check.value; break;
+      case 'length': schema.minLength = check.value; schema.maxLength = check.value; break;
+      case 'email': schema.format = 'email'; break;
+      case 'url': schema.format = 'uri'; break;
+      case 'uuid': schema.format = 'uuid'; break;
+      case 'datetime': schema.format = 'date-time'; break;
+      case 'date': schema.format = 'date'; break;
+      case 'regex': schema.pattern = check.regex?.source; break;
+    }
+  }
+  return schema;
+}
+
+function numberSchema(checks: Array<{ kind: string; value?: number; inclusive?: boolean }>): JsonSchema {
+  const schema: JsonSchema = { type: 'number' };
+  for (const check of checks) {
+    switch (check.kind) {
+      case 'int': schema.type = 'integer'; break;
+      case 'min': schema[check.inclusive ? 'minimum' : 'exclusiveMinimum'] = check.value; break;
+      case 'max': schema[check.inclusive ? 'maximum' : 'exclusiveMaximum'] = check.value; break;
+      case 'multipleOf': schema.multipleOf = check.value; break;
+    }
+  }
+  return schema;
+}
+
+function convert(schema: ZodTypeAny): JsonSchema {
+  const def = schema._def;
+  switch (def.typeName as ZodFirstPartyTypeKind) {
+    case ZodFirstPartyTypeKind.ZodString:
+      return stringSchema(def.checks);
+    case ZodFirstPartyTypeKind.ZodNumber:
+      return numberSchema(def.checks);
+    case ZodFirstPartyTypeKind.ZodBigInt:
+      return { type: 'integer' };
+    case ZodFirstPartyTypeKind.ZodBoolean:
+      return { type: 'boolean' };
+    case ZodFirstPartyTypeKind.ZodDate:
+      return { type: 'string', format: 'date-time' };
+    case ZodFirstPartyTypeKind.ZodNull:
+      return { type: 'null' };
+    case ZodFirstPartyTypeKind.ZodLiteral:
+      return { const: def.value };
+    case ZodFirstPartyTypeKind.ZodEnum:
+      return { type: 'string', enum: [...def.values] };
+    case ZodFirstPartyTypeKind.ZodNativeEnum: {
+      // Numeric TS enums carry reverse mappings (value -> name); keep the values only
+      const values = Object.entries(def.values as Record<string, string | number>)
+        .filter(([key]) => isNaN(Number(key)))
+        .map(([, value]) => value);
+      return { enum: values };
+    }
+    case ZodFirstPartyTypeKind.ZodArray: {
+      const out: JsonSchema = { type: 'array', items: zodToJsonSchema(def.type) };
+      if (def.minLength) out.minItems = def.minLength.value;
+      if (def.maxLength) out.maxItems = def.maxLength.value;
+      if (def.exactLength) out.minItems = out.maxItems = def.exactLength.value;
+      return out;
+    }
+    case ZodFirstPartyTypeKind.ZodObject: {
+      const shape = def.shape() as Record<string, ZodTypeAny>;
+      const properties: Record<string, JsonSchema> = {};
+      const required: string[] = [];
+      for (const [key, field] of Object.entries(shape)) {
+        properties[key] = zodToJsonSchema(field);
+        if (!field.isOptional()) required.push(key);
+      }
+      return {
+        type: 'object',
+        properties,
+        ...(required.length ? { required } : {}),
+        ...(def.unknownKeys === 'strict' ? { additionalProperties: false } : {}),
+      };
+    }
+    case ZodFirstPartyTypeKind.ZodRecord:
+      return { type: 'object', additionalProperties: zodToJsonSchema(def.valueType) };
+    case ZodFirstPartyTypeKind.ZodUnion:
+    case ZodFirstPartyTypeKind.ZodDiscriminatedUnion:
+      return { anyOf: (def.options as ZodTypeAny[]).map(zodToJsonSchema) };
+    case ZodFirstPartyTypeKind.ZodOptional:
+      return zodToJsonSchema(def.innerType);
+    case ZodFirstPartyTypeKind.ZodNullable:
+      return withNull(zodToJsonSchema(def.innerType));
+    case ZodFirstPartyTypeKind.ZodDefault:
+      return { ...zodToJsonSchema(def.innerType), default: def.defaultValue() };
+    case ZodFirstPartyTypeKind.ZodEffects:
+      return zodToJsonSchema(def.schema);
+    case ZodFirstPartyTypeKind.ZodCatch:
+    case ZodFirstPartyTypeKind.ZodReadonly:
+      return zodToJsonSchema(def.innerType);
+    case ZodFirstPartyTypeKind.ZodBranded:
+      return zodToJsonSchema(def.type);
+    case ZodFirstPartyTypeKind.ZodPipeline:
+      return zodToJsonSchema(def.in);
+    default:
+      // any, unknown and anything without a JSON equivalent
+      return {};
+  }
+}
+
+export function zodToJsonSchema(schema: ZodTypeAny): JsonSchema {
+  const out = convert(schema);
+  return schema.description ? { ...out, description: schema.description } : out;
+}
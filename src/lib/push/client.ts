@@ -0,0 +1,89 @@
+import { registerSyncServiceWorker } from '../sync/service-worker';
+
+/**
+ * Browser side of Web Push: subscribes this device through the service
+ * worker (public/sw.js) and registers the subscription with the API.
+ * Client-safe; the sending side lives in ./web-push and ./delivery.
+ */
+
+export function isPushSupported(): boolean {
+  return typeof window !== 'undefined'
+    && 'serviceWorker' in navigator
+    && 'PushManager' in window
+    && 'Notification' in window;
+}
+
+function applicationServerKey(base64Url: string): Uint8Array {
+  const base64 = (base64Url + '='.repeat((4 - (base64Url.length % 4)) % 4)).replace(/-/g, '+').replace(/_/g, '/');
+  return Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+}
+
+async function currentSubscription(): Promise<PushSubscription | null> {
+  if (!isPushSupported()) return null;
+  const registration = await navigator.serviceWorker.getRegistration();
+  return registration ? registration.pushManager.getSubscription() : null;
+}
+
+/**
+ * Asks for notification permission and subscribes this browser. Throws with
+ * a user-facing message when push is unavailable or permission is denied.
+ */
+export async function subscribeToPush(): Promise<void> {
+  if (!isPushSupported()) {
+    throw new Error('Push notifications are not supported in this browser');
+  }
+
+  const permission = await Notification.requestPermission();
+  if (permission !== 'granted') {
+    throw new Error('Notification permission was not granted');
+  }
+
+  const registration = await registerSyncServiceWorker();
+  if (!registration) {
+    throw new Error('Could not start the service worker');
+  }
+
+  const keyRes = await fetch('/api/notifications/push/subscribe');
+  if (!keyRes.ok) {
+    throw new Error('Push notifications are not available right now');
+  }
+  const { publicKey } = await keyRes.json();
+
+  await navigator.serviceWorker.ready;
+  const subscription = await registration.pushManager.getSubscription()
+    ?? await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: applicationServerKey(publicKey) as BufferSource,
+    });
+
+  const res = await fetch('/api/notifications/push/subscribe', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(subscription.toJSON()),
+  });
+  if (!res.ok) {
+    await subscription.unsubscribe().catch(() => {});
+    throw new Error('Failed to register this device for push notifications');
+  }
+}
+
+/**
+ * Removes this browser's subscription on the server (best effort) and with
+ * the push service. Safe to call when signed out or never subscribed: the
+ * server prunes rows whose push service answers 410.
+ */
+export async function unsubscribeFromPush(): Promise<void> {
+  try {
+    const subscription = await currentSubscription();
+    if (!subscription) return;
+
+    await fetch('/api/notifications/push/unsubscribe', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ endpoint: subscription.endpoint }),
+    }).catch(() => {});
+    await subscription.unsubscribe();
+  } catch {
+    // Nothing to clean up in this browser
+  }
+}
@@ -0,0 +1,110 @@
+import { prisma } from '@/lib/prisma';
+import { logger } from '@/lib/logger';
+import { getVapidConfig, sendWebPush, SendPushOptions, VapidConfig } from './web-push';
+
+/**
+ * Fans chapter notifications out to every push subscription of the target
+ * users. Subscriptions the push service reports gone (404/410) are deleted;
+ * other failures are logged and left for the next notification.
+ */
+
+export interface PushMessage {
+  userId: string;
+  title: string;
+  body: string;
+  /** Page opened when the notification is clicked */
+  url: string;
+  /** Notifications with the same tag replace each other on the device */
+  tag?: string;
+  metadata?: Record<string, unknown>;
+}
+
+export interface PushDeliveryResult {
+  sent: number;
+  failed: number;
+  pruned: number;
+  skipped: boolean;
+}
+
+const SEND_CONCURRENCY = 20;
+
+/**
+ * Reads the account-level push switch. The settings page stores
+ * `push_enabled`; older rows used `push`.
+ */
+export function isPushEnabled(notificationSettings: unknown): boolean {
+  if (!notificationSettings || typeof notificationSettings !== 'object') return false;
+  const settings = notificationSettings as { push_enabled?: unknown; push?: unknown };
+  return (settings.push_enabled ?? settings.push) === true;
+}
+
+export async function deliverPushNotifications(
+  messages: PushMessage[],
+  options: SendPushOptions & { vapid?: VapidConfig | null } = {}
+): Promise<PushDeliveryResult> {
+  const result: PushDeliveryResult = { sent: 0, failed: 0, pruned: 0, skipped: false };
+  if (messages.length === 0) return result;
+
+  const vapid = options.vapid === undefined ? getVapidConfig() : options.vapid;
+  if (!vapid) {
+    logger.warn('[Push] VAPID keys not configured, skipping push delivery', { count: messages.length });
+    return { ...result, skipped: true };
+  }
+
+  const subscriptions = await prisma.pushSubscription.findMany({
+    where: { user_id: { in: Array.from(new Set(messages.map(m => m.userId))) } },
+    select: { id: true, user_id: true, endpoint: true, p256dh: true, auth: true },
+  });
+  if (subscriptions.length === 0) return result;
+
+  const messageByUser = new Map(messages.map(m => [m.userId, m]));
+  const goneIds: string[] = [];
+  const deliveredIds: string[] = [];
+
+  for (let i = 0; i < subscriptions.length; i += SEND_CONCURRENCY) {
+    const batch = subscriptions.slice(i, i + SEND_CONCURRENCY);
+    await Promise.all(batch.map(async (subscription) => {
+      const message = messageByUser.get(subscription.user_id)!;
+      const payload = JSON.stringify({
+        title: message.title,
+        body: message.body,
+        url: message.url,
+        tag: message.tag,
+        data: message.metadata,
+      });
+
+      try {
+        const response = await sendWebPush(subscription, payload, vapid, options);
+        if (response.ok) {
+          result.sent++;
+          deliveredIds.push(subscription.id);
+        } else if (response.gone) {
+          goneIds.push(subscription.id);
+        } else {
+          result.failed++;
+          logger.warn('[Push] Push service rejected message', { status: response.status, subscriptionId: subscription.id });
+        }
+      } catch (error: unknown) {
+        result.failed++;
+        logger.warn('[Push] Push delivery failed', {
+          subscriptionId: subscription.id,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }));
+  }
+
+  if (goneIds.length > 0) {
+    const { count } = await prisma.pushSubscription.deleteMany({ where: { id: { in: goneIds } } });
+    result.pruned = count;
+    logger.info(`[Push] Pruned ${count} expired push subscriptions`);
+  }
+  if (deliveredIds.length > 0) {
+    await prisma.pushSubscription.updateMany({
+      where: { id: { in: deliveredIds } },
+      data: { last_used_at: new Date() },
+    });
+  }
+
+  return result;
+}
@@ -0,0 +1,213 @@
+import crypto from 'crypto';
+import { isInternalIP } from '@/lib/constants/image-whitelist';
+import { resolvesToInternalAddress } from '@/lib/internal-address';
+
+/**
+ * Web Push (RFC 8030) with VAPID authentication (RFC 8292) and aes128gcm
+ * payload encryption (RFC 8291), on top of node:crypto.
+ *
+ * Keys are base64url: the public key is the 65-byte uncompressed P-256
+ * point, the private key the 32-byte scalar. Generate a pair with
+ * `npx tsx scripts/generate-vapid-keys.ts`.
+ */
+
+export interface PushSubscriptionKeys {
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+}
+
+export interface VapidConfig {
+  publicKey: string;
+  privateKey: string;
+  /** Contact for push services: `mailto:` or `https:` URL */
+  subject: string;
+}
+
+export interface SendPushOptions {
+  /** Seconds the push service may hold the message for an offline device */
+  ttl?: number;
+  urgency?: 'very-low' | 'low' | 'normal' | 'high';
+  /** Replaces an undelivered message with the same topic (up to 32 base64url characters) */
+  topic?: string;
+  timeoutMs?: number;
+}
+
+export interface SendPushResult {
+  status: number;
+  ok: boolean;
+  /** The subscription no longer exists (404/410) and should be deleted */
+  gone: boolean;
+}
+
+const RECORD_SIZE = 4096;
+const VAPID_TTL_SECONDS = 12 * 60 * 60;
+const DEFAULT_TTL_SECONDS = 24 * 60 * 60;
+
+export function base64UrlEncode(value: Buffer): string {
+  return value.toString('base64url');
+}
+
+export function base64UrlDecode(value: string): Buffer {
+  return Buffer.from(value, 'base64url');
+}
+
+/**
+ * SECURITY: endpoints come from the browser and the worker POSTs to them, so
+ * only public HTTPS URLs are accepted, and the host must not resolve to an
+ * internal address. Outside production, http://localhost is allowed for a
+ * local mock push service.
+ */
+export async function isAllowedPushEndpoint(endpoint: string): Promise<boolean> {
+  let url: URL;
+  try {
+    url = new URL(endpoint);
+  } catch {
+    return false;
+  }
+  if (process.env.NODE_ENV !== 'production' && url.protocol === 'http:' && url.hostname === 'localhost') {
+    return true;
+  }
+  if (url.protocol !== 'https:' || url.username || url.password || isInternalIP(url.hostname)) {
+    return false;
+  }
+  try {
+    return !await resolvesToInternalAddress(url.hostname);
+  } catch {
+    return false;
+  }
+}
+
+export function getVapidConfig(): VapidConfig | null {
+  const publicKey = process.env.VAPID_PUBLIC_KEY;
+  const privateKey = process.env.VAPID_PRIVATE_KEY;
+  if (!publicKey || !privateKey) return null;
+  return {
+    publicKey,
+    privateKey,
+    subject: process.env.VAPID_SUBJECT || 'mailto:support@mangatrack.app',
+  };
+}
+
+export function generateVapidKeys(): { publicKey: string; privateKey: string } {
+  const ecdh = crypto.createECDH('prime256v1');
+  ecdh.generateKeys();
+  return {
+    publicKey: base64UrlEncode(ecdh.getPublicKey()),
+    privateKey: base64UrlEncode(ecdh.getPrivateKey()),
+  };
+}
+
+function vapidPrivateKey(config: VapidConfig): crypto.KeyObject {
+  const publicKey = base64UrlDecode(config.publicKey);
+  if (publicKey.length !== 65 || publicKey[0] !== 0x04) {
+    throw new Error('VAPID public key must be an uncompressed P-256 point');
+  }
+  return crypto.createPrivateKey({
+    key: {
+      kty: 'EC',
+      crv: 'P-256',
+      d: config.privateKey,
+      x: base64UrlEncode(publicKey.subarray(1, 33)),
+      y: base64UrlEncode(publicKey.subarray(33, 65)),
+    },
+    format: 'jwk',
+  });
+}
+
+/** `Authorization` header value for a push to `endpoint` (RFC 8292 §3). */
+export function createVapidAuthorization(endpoint: string, config: VapidConfig, now: Date = new Date()): string {
+  const header = base64UrlEncode(Buffer.from(JSON.stringify({ typ: 'JWT', alg: 'ES256' })));
+  const claims = base64UrlEncode(Buffer.from(JSON.stringify({
+    aud: new URL(endpoint).origin,
+    exp: Math.floor(now.getTime() / 1000) + VAPID_TTL_SECONDS,
+    sub: config.subject,
+  })));
+  const signature = crypto.sign('sha256', Buffer.from(`${header}.${claims}`), {
+    key: vapidPrivateKey(config),
+    dsaEncoding: 'ieee-p1363',
+  });
+  return `vapid t=${header}.${claims}.${base64UrlEncode(signature)}, k=${config.publicKey}`;
+}
+
+function hkdf(salt: Buffer, ikm: Buffer, info: Buffer, length: number): Buffer {
+  return Buffer.from(crypto.hkdfSync('sha256', ikm, salt, info, length));
+}
+
+/**
+ * Encrypts a payload for one subscription as a single aes128gcm record
+ * (RFC 8291 §3.4, RFC 8188 §2). Payloads must fit in one 4 KiB record.
+ */
+export function encryptPushPayload(
+  payload: Buffer,
+  subscription: Pick<PushSubscriptionKeys, 'p256dh' | 'auth'>
+): Buffer {
+  const uaPublic = base64UrlDecode(subscription.p256dh);
+  const authSecret = base64UrlDecode(subscription.auth);
+  if (uaPublic.length !== 65 || authSecret.length < 16) {
+    throw new Error('Invalid push subscription keys');
+  }
+  if (payload.length > RECORD_SIZE - 103) {
+    throw new Error('Push payload too large');
+  }
+
+  const salt = crypto.randomBytes(16);
+  const ecdh = crypto.createECDH('prime256v1');
+  const asPublic = ecdh.generateKeys();
+  const sharedSecret = ecdh.computeSecret(uaPublic);
+
+  const keyInfo = Buffer.concat([Buffer.from('WebPush: info\0'), uaPublic, asPublic]);
+  const ikm = hkdf(authSecret, sharedSecret, keyInfo, 32);
+  const cek = hkdf(salt, ikm, Buffer.from('Content-Encoding: aes128gcm\0'), 16);
+  const nonce = hkdf(salt, ikm, Buffer.from('Content-Encoding: nonce\0'), 12);
+
+  const cipher = crypto.createCipheriv('aes-128-gcm', cek, nonce);
+  // 0x02 marks the last (and only) record, with no padding
+  const ciphertext = Buffer.concat([cipher.update(payload), cipher.update(Buffer.from([0x02])), cipher.final(), cipher.getAuthTag()]);
+
+  const header = Buffer.alloc(21);
+  salt.copy(header, 0);
+  header.writeUInt32BE(RECORD_SIZE, 16);
+  header.writeUInt8(asPublic.length, 20);
+  return Buffer.concat([header, asPublic, ciphertext]);
+}
+
+/**
+ * POSTs an encrypted message to the subscription's push service. Network
+ * errors reject; HTTP errors resolve with `ok: false` so the caller decides
+ * whether to prune (`gone`) or retry later.
+ */
+export async function sendWebPush(
+  subscription: PushSubscriptionKeys,
+  payload: string,
+  config: VapidConfig,
+  options: SendPushOptions = {}
+): Promise<SendPushResult> {
+  // Checked again at send time: the host may resolve differently since subscribing
+  if (!await isAllowedPushEndpoint(subscription.endpoint)) {
+    throw new Error('Push endpoint is not allowed');
+  }
+  const body = encryptPushPayload(Buffer.from(payload, 'utf8'), subscription);
+
+  const headers: Record<string, string> = {
+    Authorization: createVapidAuthorization(subscription.endpoint, config),
+    'Content-Encoding': 'aes128gcm',
+    'Content-Type': 'application/octet-stream',
+    TTL: String(options.ttl ?? DEFAULT_TTL_SECONDS),
+    Urgency: options.urgency ?? 'normal',
+  };
+  if (options.topic) headers.Topic = options.topic;
+
+  const response = await fetch(subscription.endpoint, {
+    method: 'POST',
+    headers,
+    body: new Uint8Array(body),
+    signal: AbortSignal.timeout(options.timeoutMs ?? 10000),
+  });
+
+  return {
+    status: response.status,
+    ok: response.ok,
+    gone: response.status === 404 || response.status === 410,
+  };
+}
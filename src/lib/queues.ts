@@ -24,6 +24,8 @@ export const LATEST_FEED_QUEUE = 'latest-feed';
 export const NOTIFICATION_TIMING_QUEUE = 'notification-timing';
 export const MANGADEX_STATS_REFRESH_QUEUE = 'mangadex-stats-refresh';
 export const FEED_INGEST_QUEUE = 'feed-ingest';
+export const EXPORT_QUEUE = 'export';
+export const WEBHOOK_DELIVERY_QUEUE = 'webhook-delivery';
 
 /**
  * Queue options using the Worker Redis instance.
@@ -272,6 +274,25 @@ export const feedIngestQueue = createLazyQueue(FEED_INGEST_QUEUE, {
   },
 });
 
+export const exportQueue = createLazyQueue(EXPORT_QUEUE, {
+  defaultJobOptions: {
+    attempts: 3,
+    backoff: { type: 'exponential', delay: 10000 },
+    removeOnComplete: { count: 100, age: 86400 },
+    removeOnFail: { count: 100, age: 604800 },
+  },
+});
+
+// Retries at 30s, 1m, 2m, 4m and 8m; the delivery log keeps the outcome
+export const webhookDeliveryQueue = createLazyQueue(WEBHOOK_DELIVERY_QUEUE, {
+  defaultJobOptions: {
+    attempts: 6,
+    backoff: { type: 'exponential', delay: 30000 },
+    removeOnComplete: { count: 1000, age: 3600 },
+    removeOnFail: { count: 1000, age: 86400 },
+  },
+});
+
 /**
  * Gets the overall system health for notifications.
  */
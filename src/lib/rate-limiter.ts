@@ -1,6 +1,7 @@
 import { redis, REDIS_KEY_PREFIX } from './redis';
 import { NEGATIVE_CACHE_CONFIG } from './job-config';
 import { logger } from './logger';
+import { SOURCE_DEFINITIONS } from './scrapers/sources';
 
 export interface SourceRateConfig {
   requestsPerSecond: number;
@@ -46,6 +47,11 @@ const DEFAULT_SOURCE_LIMITS: Record<string, SourceRateConfig> = {
   },
 };
 
+// Declarative scraper sources carry their own limits and take precedence
+const DEFINED_SOURCE_LIMITS: Record<string, SourceRateConfig> = Object.fromEntries(
+  SOURCE_DEFINITIONS.map(definition => [definition.name.toLowerCase(), definition.rateLimit])
+);
+
 const DEFAULT_LIMIT: SourceRateConfig = {
   requestsPerSecond: 0.5,
   burstSize: 1,
@@ -70,7 +76,7 @@ export function getSourceRateConfig(sourceName: string): SourceRateConfig {
       logger.warn(`[RateLimiter] Invalid env override for ${envKey}: ${envValue}, using defaults`);
   }
   
-  return DEFAULT_SOURCE_LIMITS[normalized] || DEFAULT_LIMIT;
+  return DEFINED_SOURCE_LIMITS[normalized] || DEFAULT_SOURCE_LIMITS[normalized] || DEFAULT_LIMIT;
 }
 
 interface NegativeCacheEntry {
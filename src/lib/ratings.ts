@@ -0,0 +1,191 @@
+/**
+ * Rating scales.
+ *
+ * LibraryEntry.user_rating is stored on a canonical 0–100 scale; users pick
+ * the scale they rate and read ratings in (User.rating_scale). Scale names
+ * follow AniList's ScoreFormat so AniList scores convert without a lookup:
+ * - POINT_100:        0–100 (the canonical scale itself)
+ * - POINT_10_DECIMAL: 0.1–10.0 in steps of 0.1
+ * - POINT_10:         1–10 (the original scale, and the API default)
+ * - POINT_5:          0.5–5 stars in half-star steps
+ * - POINT_3:          1–3 (:( :| :))
+ *
+ * Client-safe: no server imports, the rating controls use it directly.
+ */
+
+export const RATING_SCALES = ['POINT_100', 'POINT_10_DECIMAL', 'POINT_10', 'POINT_5', 'POINT_3'] as const;
+export type RatingScale = (typeof RATING_SCALES)[number];
+
+export const DEFAULT_RATING_SCALE: RatingScale = 'POINT_10';
+
+export const RATING_SCALE_LABELS: Record<RatingScale, string> = {
+  POINT_100: '100 point (55/100)',
+  POINT_10_DECIMAL: '10 point decimal (5.5/10)',
+  POINT_10: '10 point (5/10)',
+  POINT_5: '5 star, half points (2.5/5)',
+  POINT_3: '3 point smiley',
+};
+
+export const RATING_SCALE_RANGES: Record<RatingScale, { min: number; max: number; step: number }> = {
+  POINT_100: { min: 0, max: 100, step: 1 },
+  POINT_10_DECIMAL: { min: 0.1, max: 10, step: 0.1 },
+  POINT_10: { min: 1, max: 10, step: 1 },
+  POINT_5: { min: 0.5, max: 5, step: 0.5 },
+  POINT_3: { min: 1, max: 3, step: 1 },
+};
+
+/** Canonical scores for the three smileys, matching what AniList stores for them */
+const POINT_3_SCORES = [35, 60, 85];
+
+export const MIN_CANONICAL_RATING = 0;
+export const MAX_CANONICAL_RATING = 100;
+
+export function isRatingScale(value: unknown): value is RatingScale {
+  return typeof value === 'string' && (RATING_SCALES as readonly string[]).includes(value);
+}
+
+/** Values a rating control for the scale offers, lowest first */
+export function ratingScaleValues(scale: RatingScale): number[] {
+  const { min, max, step } = RATING_SCALE_RANGES[scale];
+  const count = Math.round((max - min) / step) + 1;
+  return Array.from({ length: count }, (_, i) => Math.round((min + i * step) * 10) / 10);
+}
+
+/**
+ * Converts a rating given on `scale` to the canonical 0–100 score.
+ * Returns null when the value is outside the scale or between its steps.
+ */
+export function toCanonicalRating(value: number, scale: RatingScale): number | null {
+  const { min, max, step } = RATING_SCALE_RANGES[scale];
+  if (!Number.isFinite(value) || value < min - 1e-9 || value > max + 1e-9) return null;
+  if (Math.abs(value / step - Math.round(value / step)) > 1e-6) return null;
+
+  switch (scale) {
+    case 'POINT_100':
+      return Math.round(value);
+    case 'POINT_10_DECIMAL':
+    case 'POINT_10':
+      return Math.round(value * 10);
+    case 'POINT_5':
+      return Math.round(value * 20);
+    case 'POINT_3':
+      return POINT_3_SCORES[Math.round(value) - 1];
+  }
+}
+
+/**
+ * Validates a rating sent by a client on `scale` (POINT_10 when omitted, the
+ * original 1–10 contract) and converts it. null clears the rating.
+ */
+export function parseRatingInput(
+  value: unknown,
+  scale: unknown = DEFAULT_RATING_SCALE
+): { score: number | null; error?: undefined } | { score?: undefined; error: string } {
+  if (value === null) return { score: null };
+  const effectiveScale = scale ?? DEFAULT_RATING_SCALE;
+  if (!isRatingScale(effectiveScale)) {
+    return { error: `Rating scale must be one of ${RATING_SCALES.join(', ')}` };
+  }
+  const score = typeof value === 'number' || typeof value === 'string' ? toCanonicalRating(Number(value), effectiveScale) : null;
+  if (score === null) {
+    const { min, max, step } = RATING_SCALE_RANGES[effectiveScale];
+    return { error: `Rating must be between ${min} and ${max}${step !== 1 ? ` in steps of ${step}` : ''}` };
+  }
+  return { score };
+}
+
+/** Converts a canonical 0–100 score to the nearest value on `scale` */
+export function fromCanonicalRating(score: number, scale: RatingScale): number {
+  const clamped = Math.min(MAX_CANONICAL_RATING, Math.max(MIN_CANONICAL_RATING, score));
+  switch (scale) {
+    case 'POINT_100':
+      return Math.round(clamped);
+    case 'POINT_10_DECIMAL':
+      return Math.max(0.1, Math.round(clamped) / 10);
+    case 'POINT_10':
+      return Math.max(1, Math.round(clamped / 10));
+    case 'POINT_5':
+      return Math.max(0.5, Math.round(clamped / 10) / 2);
+    case 'POINT_3':
+      return clamped <= 35 ? 1 : clamped <= 60 ? 2 : 3;
+  }
+}
+
+/** Display string for a canonical score, e.g. "8.5/10", "4.5/5" or ":)" */
+export function formatRating(score: number | null | undefined, scale: RatingScale = DEFAULT_RATING_SCALE): string {
+  if (score === null || score === undefined) return '';
+  return formatScaleValue(fromCanonicalRating(score, scale), scale);
+}
+
+/** Display string for a value already on `scale` (rating control options) */
+export function formatScaleValue(value: number, scale: RatingScale): string {
+  switch (scale) {
+    case 'POINT_100':
+      return `${value}/100`;
+    case 'POINT_10_DECIMAL':
+      return `${value.toFixed(1)}/10`;
+    case 'POINT_10':
+      return `${value}/10`;
+    case 'POINT_5':
+      return `${value}/5`;
+    case 'POINT_3':
+      return [':(', ':|', ':)'][value - 1];
+  }
+}
+
+/**
+ * AniList score in the list owner's ScoreFormat. 0 means "not scored" there,
+ * so an AniList 0 is never read as a canonical 0.
+ * POINT_5 is whole stars on AniList, which the half-star scale accepts.
+ */
+export function anilistScoreToCanonical(score: number | null | undefined, format: string = 'POINT_100'): number | null {
+  if (!score || !isRatingScale(format)) return null;
+  return toCanonicalRating(score, format);
+}
+
+/**
+ * ScoreFormat for an AniList list export. Exports made through the API carry
+ * the owner's mediaListOptions; for bare lists it is inferred from the scores
+ * (anything above 10 means the 100-point scale).
+ */
+export function resolveAniListScoreFormat(declared: unknown, scores: Array<number | null | undefined>): RatingScale {
+  if (isRatingScale(declared)) return declared;
+  return scores.some((score) => (score ?? 0) > 10) ? 'POINT_100' : 'POINT_10_DECIMAL';
+}
+
+/** MyAnimeList scores are whole 1–10 points, 0 meaning "not scored" */
+export function malScoreToCanonical(score: number | null | undefined): number | null {
+  if (!score) return null;
+  return toCanonicalRating(Math.round(score), 'POINT_10');
+}
+
+export function canonicalToMalScore(score: number | null | undefined): number {
+  if (score === null || score === undefined) return 0;
+  return fromCanonicalRating(score, 'POINT_10');
+}
+
+/** Distribution bucket (1–10) a canonical score is counted in */
+export function ratingBucket(score: number): number {
+  return Math.min(10, Math.max(1, Math.round(score / 10)));
+}
+
+/**
+ * Weight of the prior in the Bayesian average, in "virtual ratings": a series
+ * needs about this many ratings before its own ratings outweigh the prior.
+ */
+export const RATING_PRIOR_WEIGHT = 10;
+/** Prior mean (canonical) for series without an external rating to start from */
+export const RATING_PRIOR_MEAN = 70;
+
+/**
+ * Bayesian average on the canonical scale: the series' ratings pulled
+ * towards `priorMean` so a handful of ratings can't top the charts.
+ */
+export function bayesianRating(
+  sum: number,
+  count: number,
+  priorMean: number = RATING_PRIOR_MEAN,
+  priorWeight: number = RATING_PRIOR_WEIGHT
+): number {
+  return (priorWeight * priorMean + sum) / (priorWeight + count);
+}
@@ -0,0 +1,144 @@
+import { supabaseAdmin } from './supabase/admin';
+import { logger } from './logger';
+import { recordSignal } from './analytics/signals';
+
+/**
+ * Recommendation feedback.
+ *
+ * Feedback on a recommended series is stored as a UserSignal (weights in
+ * SIGNAL_WEIGHTS), so it feeds user affinities like any other signal. On top
+ * of that, series marked "not interested" or "already read elsewhere" are
+ * never recommended again, and tags shared by several "not interested"
+ * series are suppressed unless the user asked for more like a series with
+ * that tag.
+ */
+
+export const RECOMMENDATION_FEEDBACK = ['not_interested', 'read_elsewhere', 'more_like_this'] as const;
+export type RecommendationFeedback = (typeof RECOMMENDATION_FEEDBACK)[number];
+
+/** Feedback that removes the series from recommendations */
+export const SUPPRESSING_FEEDBACK: readonly RecommendationFeedback[] = ['not_interested', 'read_elsewhere'];
+
+/** "Not interested" series a tag has to appear on before it's suppressed */
+export const SUPPRESSED_TAG_MIN_DISMISSALS = 2;
+
+/** Only the most recent dismissals count towards tag suppression */
+const DISMISSAL_LOOKBACK = 200;
+
+export function isRecommendationFeedback(value: unknown): value is RecommendationFeedback {
+  return typeof value === 'string' && (RECOMMENDATION_FEEDBACK as readonly string[]).includes(value);
+}
+
+export interface RecommendationSuppressions {
+  seriesIds: Set<string>;
+  /** Lowercased tags and themes */
+  tags: Set<string>;
+}
+
+interface TaggedSeries {
+  tags?: string[] | null;
+  themes?: string[] | null;
+}
+
+const seriesTags = (series: TaggedSeries | null | undefined) =>
+  new Set([...(series?.tags ?? []), ...(series?.themes ?? [])].map(tag => tag.toLowerCase()));
+
+/** Tags on at least SUPPRESSED_TAG_MIN_DISMISSALS dismissed series and on none the user wants more of */
+export function strongSharedTags(dismissed: TaggedSeries[], wanted: TaggedSeries[]): Set<string> {
+  const counts = new Map<string, number>();
+  for (const series of dismissed) {
+    for (const tag of seriesTags(series)) counts.set(tag, (counts.get(tag) ?? 0) + 1);
+  }
+
+  const keep = new Set<string>();
+  for (const series of wanted) for (const tag of seriesTags(series)) keep.add(tag);
+
+  return new Set(
+    [...counts].filter(([tag, count]) => count >= SUPPRESSED_TAG_MIN_DISMISSALS && !keep.has(tag)).map(([tag]) => tag)
+  );
+}
+
+export function isSuppressed(
+  series: { id: string } & TaggedSeries,
+  suppressions: RecommendationSuppressions
+): boolean {
+  if (suppressions.seriesIds.has(series.id)) return true;
+  if (suppressions.tags.size === 0) return false;
+  for (const tag of seriesTags(series)) if (suppressions.tags.has(tag)) return true;
+  return false;
+}
+
+export async function getRecommendationSuppressions(userId: string): Promise<RecommendationSuppressions> {
+  const { data, error } = await supabaseAdmin
+    .from('user_signals')
+    .select('series_id, signal_type, series:series(tags, themes)')
+    .eq('user_id', userId)
+    .in('signal_type', [...RECOMMENDATION_FEEDBACK])
+    .not('series_id', 'is', null)
+    .order('created_at', { ascending: false })
+    .limit(DISMISSAL_LOOKBACK);
+
+  if (error) {
+    logger.warn(`[RecommendationFeedback] Failed to load feedback: ${error.message}`);
+    return { seriesIds: new Set(), tags: new Set() };
+  }
+
+  const rows = (data || []) as Array<{ series_id: string; signal_type: string; series: TaggedSeries | TaggedSeries[] | null }>;
+  const seriesOf = (row: (typeof rows)[number]) => (Array.isArray(row.series) ? row.series[0] : row.series) ?? {};
+
+  return {
+    seriesIds: new Set(
+      rows.filter(row => (SUPPRESSING_FEEDBACK as readonly string[]).includes(row.signal_type)).map(row => row.series_id)
+    ),
+    tags: strongSharedTags(
+      rows.filter(row => row.signal_type === 'not_interested').map(seriesOf),
+      rows.filter(row => row.signal_type === 'more_like_this').map(seriesOf)
+    ),
+  };
+}
+
+/**
+ * Records feedback, replacing earlier feedback on the same series so
+ * repeated clicks don't stack weights. Suppressing feedback also drops the
+ * series from the user's materialized recommendations.
+ */
+export async function recordRecommendationFeedback(
+  userId: string,
+  seriesId: string,
+  feedback: RecommendationFeedback
+): Promise<void> {
+  await clearRecommendationFeedback(userId, seriesId);
+
+  const result = await recordSignal({
+    user_id: userId,
+    series_id: seriesId,
+    signal_type: feedback,
+    metadata: { source: 'recommendations' },
+  });
+  if (!result.success) {
+    throw new Error('Failed to record recommendation feedback');
+  }
+
+  if (SUPPRESSING_FEEDBACK.includes(feedback)) {
+    const { error } = await supabaseAdmin
+      .from('user_recommendations')
+      .delete()
+      .eq('user_id', userId)
+      .eq('series_id', seriesId);
+    if (error) logger.warn(`[RecommendationFeedback] Failed to drop recommendation: ${error.message}`);
+  }
+}
+
+/** Removes any feedback the user gave on the series (undo) */
+export async function clearRecommendationFeedback(userId: string, seriesId: string): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('user_signals')
+    .delete()
+    .eq('user_id', userId)
+    .eq('series_id', seriesId)
+    .in('signal_type', [...RECOMMENDATION_FEEDBACK]);
+
+  if (error) {
+    throw new Error(`Failed to clear recommendation feedback: ${error.message}`);
+  }
+}
@@ -1,5 +1,25 @@
 import { supabaseAdmin } from "@/lib/supabase/admin"
 import { ALLOWED_CONTENT_RATINGS } from "@/lib/constants/safe-browsing"
+import {
+  libraryEntryWeight,
+  scoreCollaborativeCandidates,
+  type CollaborativeScore,
+  type CollaborativeSeed,
+  type SeriesNeighborRow,
+} from "@/lib/collaborative-filtering"
+import { getRecommendationSuppressions, isSuppressed, type RecommendationSuppressions } from "@/lib/recommendation-feedback"
+
+export interface RecommendationAttribute {
+  type: 'genre' | 'theme' | 'type'
+  value: string
+  score: number
+}
+
+export interface RecommendationExplanation {
+  summary: string
+  /** Affinity attributes that contributed, strongest first */
+  attributes: RecommendationAttribute[]
+}
 
 export interface RecommendationResult {
   id: string
@@ -15,14 +35,32 @@ export interface RecommendationResult {
   updated_at: string
   recommendation_score: number
   match_reasons: string[]
+  because_you_read?: Array<{ id: string; title: string }>
+  explanation?: RecommendationExplanation
 }
 
+// Library series used as collaborative filtering seeds, strongest first
+const CF_SEED_LIMIT = 30
+const CF_NEIGHBOR_LIMIT = 900
+// Collaborative candidates fetched beyond the discover views
+const CF_EXTRA_CANDIDATES = 50
+
 export enum UserState {
   COLD = 'cold_user',
   WARM = 'warm_user',
   ACTIVE = 'active_user'
 }
 
+interface AffinityProfile {
+  topGenres: string[]
+  topThemes: string[]
+  affinities: {
+    genre: Record<string, number>
+    theme: Record<string, number>
+    type: Record<string, number>
+  }
+}
+
 interface UserProfile {
   userId: string
   state: UserState
@@ -32,6 +70,7 @@ interface UserProfile {
   caughtUpSeriesIds: Set<string>
   excludedStatusSeriesIds: Set<string>
   completionRatios: Record<string, number>
+  collaborativeSeeds: CollaborativeSeed[]
   safeBrowsing: 'sfw' | 'nsfw'
   affinities: {
     genre: Record<string, number>
@@ -47,6 +86,26 @@ export function getUserState(interactionCount: number): UserState {
   return UserState.ACTIVE
 }
 
+function groupAffinities(rows: Array<{ attribute_type: string; attribute_id: string; score: number }> | null): UserProfile['affinities'] {
+  const userAffinities = {
+    genre: {} as Record<string, number>,
+    theme: {} as Record<string, number>,
+    type: {} as Record<string, number>,
+    series: {} as Record<string, number>
+  }
+
+  if (rows) {
+    rows.forEach(a => {
+      if (a.attribute_type === 'genre') userAffinities.genre[a.attribute_id] = a.score
+      if (a.attribute_type === 'theme') userAffinities.theme[a.attribute_id] = a.score
+      if (a.attribute_type === 'type') userAffinities.type[a.attribute_id] = a.score
+      if (a.attribute_type === 'series') userAffinities.series[a.attribute_id] = a.score
+    })
+  }
+
+  return userAffinities
+}
+
 /**
  * Calculates user profile and fetches affinities
  */
@@ -54,7 +113,7 @@ async function getUserProfile(userId: string, interactionCount: number): Promise
   const [{ data: user }, { data: library }, { data: affinities }] = await Promise.all([
     supabaseAdmin.from('users').select('safe_browsing_mode').eq('id', userId).single(),
     supabaseAdmin.from('library_entries')
-      .select('series_id, status, last_read_chapter, series:series(genres, themes, latest_chapter)')
+      .select('series_id, status, last_read_chapter, user_rating, series:series(title, genres, themes, latest_chapter)')
       .eq('user_id', userId)
       .is('deleted_at', null),
     supabaseAdmin.from('user_affinities').select('attribute_type, attribute_id, score').eq('user_id', userId)
@@ -66,6 +125,7 @@ async function getUserProfile(userId: string, interactionCount: number): Promise
   const genreCounts: Record<string, number> = {}
   const themeCounts: Record<string, number> = {}
   const completionRatios: Record<string, number> = {}
+  const collaborativeSeeds: CollaborativeSeed[] = []
 
   if (library) {
     library.forEach((entry: any) => {
@@ -74,6 +134,11 @@ async function getUserProfile(userId: string, interactionCount: number): Promise
         if (['completed', 'dropped'].includes(entry.status?.toLowerCase())) {
           excludedStatusSeriesIds.add(entry.series_id)
         }
+
+        const weight = libraryEntryWeight(entry.status, entry.user_rating)
+        if (weight > 0 && entry.series?.title) {
+          collaborativeSeeds.push({ series_id: entry.series_id, title: entry.series.title, weight })
+        }
         
         const latest = entry.series?.latest_chapter ? Number(entry.series.latest_chapter) : 0
         const current = entry.last_read_chapter ? Number(entry.last_read_chapter) : 0
@@ -100,21 +165,7 @@ async function getUserProfile(userId: string, interactionCount: number): Promise
     })
   }
 
-  const userAffinities = {
-    genre: {} as Record<string, number>,
-    theme: {} as Record<string, number>,
-    type: {} as Record<string, number>,
-    series: {} as Record<string, number>
-  }
-
-  if (affinities) {
-    affinities.forEach(a => {
-      if (a.attribute_type === 'genre') userAffinities.genre[a.attribute_id] = a.score
-      if (a.attribute_type === 'theme') userAffinities.theme[a.attribute_id] = a.score
-      if (a.attribute_type === 'type') userAffinities.type[a.attribute_id] = a.score
-      if (a.attribute_type === 'series') userAffinities.series[a.attribute_id] = a.score
-    })
-  }
+  const userAffinities = groupAffinities(affinities)
 
   const topGenres = Object.entries(genreCounts)
     .sort(([, a], [, b]) => b - a)
@@ -135,6 +186,7 @@ async function getUserProfile(userId: string, interactionCount: number): Promise
     caughtUpSeriesIds,
     excludedStatusSeriesIds,
     completionRatios,
+    collaborativeSeeds: collaborativeSeeds.sort((a, b) => b.weight - a.weight).slice(0, CF_SEED_LIMIT),
     safeBrowsing: (user?.safe_browsing_mode as 'sfw' | 'nsfw') || 'sfw',
     affinities: userAffinities
   }
@@ -142,20 +194,69 @@ async function getUserProfile(userId: string, interactionCount: number): Promise
 
 /**
  * State-based Hybrid Weights
+ * gw: global popularity, pw: personal affinity, cw: collaborative filtering
+ * (series_neighbors of the user's library)
  */
 export function getHybridWeights(state: UserState) {
   switch (state) {
     case UserState.COLD:
-      return { gw: 1.0, pw: 0.0 }
+      return { gw: 1.0, pw: 0.0, cw: 0.0 }
     case UserState.WARM:
-      return { gw: 0.6, pw: 0.4 }
+      return { gw: 0.5, pw: 0.3, cw: 0.2 }
     case UserState.ACTIVE:
-      return { gw: 0.3, pw: 0.7 }
+      return { gw: 0.25, pw: 0.4, cw: 0.35 }
     default:
-      return { gw: 0.5, pw: 0.5 }
+      return { gw: 0.5, pw: 0.5, cw: 0.0 }
   }
 }
 
+const MAX_EXPLANATION_ATTRIBUTES = 3
+
+/**
+ * The user's affinity attributes a series matches, scored the same way
+ * calculateAffinity scores them
+ */
+export function affinityAttributes(
+  series: { genres?: string[] | null; themes?: string[] | null; type?: string | null },
+  profile: AffinityProfile
+): RecommendationAttribute[] {
+  const attributes: RecommendationAttribute[] = []
+
+  series.genres?.forEach(g => {
+    const score = profile.affinities.genre[g] || (profile.topGenres.includes(g) ? 1 : 0)
+    if (score > 0) attributes.push({ type: 'genre', value: g, score })
+  })
+  series.themes?.forEach(t => {
+    const score = profile.affinities.theme[t] || (profile.topThemes.includes(t) ? 1 : 0)
+    if (score > 0) attributes.push({ type: 'theme', value: t, score })
+  })
+  if (series.type && profile.affinities.type[series.type] > 0) {
+    attributes.push({ type: 'type', value: series.type, score: profile.affinities.type[series.type] })
+  }
+
+  return attributes.sort((a, b) => b.score - a.score).slice(0, MAX_EXPLANATION_ATTRIBUTES)
+}
+
+/**
+ * Card explanation: the library series behind a collaborative match, else the
+ * matched affinity attributes, else the generic reason
+ */
+export function explainRecommendation(
+  attributes: RecommendationAttribute[],
+  becauseYouRead: Array<{ title: string }>,
+  fallback: string
+): RecommendationExplanation {
+  if (becauseYouRead.length > 0) {
+    return { summary: `Because you read ${becauseYouRead[0].title}`, attributes }
+  }
+  if (attributes.length > 0) {
+    const values = attributes.map(a => a.value)
+    const list = values.length > 1 ? `${values.slice(0, -1).join(', ')} and ${values[values.length - 1]}` : values[0]
+    return { summary: `Matches your interest in ${list}`, attributes }
+  }
+  return { summary: fallback, attributes }
+}
+
 /**
  * Scoring Formula per User State
  */
@@ -240,7 +341,31 @@ function getContentRatingsForMode(safeBrowsing: 'sfw' | 'nsfw'): string[] {
 }
 
 /**
- * Hybrid Global + Personal Ranking
+ * Collaborative filtering scores for series neighbouring the user's library
+ * (series_neighbors, built by the recommendations scheduler)
+ */
+async function getCollaborativeScores(
+  profile: UserProfile,
+  suppressions: RecommendationSuppressions
+): Promise<Map<string, CollaborativeScore>> {
+  if (profile.collaborativeSeeds.length === 0) return new Map()
+
+  const { data: neighbors } = await supabaseAdmin
+    .from('series_neighbors')
+    .select('series_id, neighbor_id, score')
+    .in('series_id', profile.collaborativeSeeds.map(seed => seed.series_id))
+    .order('score', { ascending: false })
+    .limit(CF_NEIGHBOR_LIMIT)
+
+  return scoreCollaborativeCandidates(
+    profile.collaborativeSeeds,
+    (neighbors || []) as SeriesNeighborRow[],
+    new Set([...profile.librarySeriesIds, ...suppressions.seriesIds])
+  )
+}
+
+/**
+ * Hybrid Global + Personal + Collaborative Ranking
  */
 export async function getHybridRecommendations(
   userId: string, 
@@ -252,14 +377,16 @@ export async function getHybridRecommendations(
     return getColdStartRecommendations(profile.safeBrowsing)
   }
 
-  const { gw, pw } = getHybridWeights(profile.state)
+  const { gw, pw, cw } = getHybridWeights(profile.state)
   const contentRatings = getContentRatingsForMode(profile.safeBrowsing)
+  const suppressions = await getRecommendationSuppressions(userId)
   
   // Fetch Candidates from materialized views
-  const [trending, popular, noteworthy] = await Promise.all([
+  const [trending, popular, noteworthy, collaborative] = await Promise.all([
     supabaseAdmin.from('discover_trending').select('*').in('content_rating', contentRatings).order('rank', { ascending: true }).limit(100),
     supabaseAdmin.from('discover_popular_30d').select('*').in('content_rating', contentRatings).order('rank', { ascending: true }).limit(100),
-    supabaseAdmin.from('discover_new_and_noteworthy').select('*').in('content_rating', contentRatings).order('rank', { ascending: true }).limit(50)
+    supabaseAdmin.from('discover_new_and_noteworthy').select('*').in('content_rating', contentRatings).order('rank', { ascending: true }).limit(50),
+    cw > 0 ? getCollaborativeScores(profile, suppressions) : Promise.resolve(new Map<string, CollaborativeScore>())
   ])
 
   const candidates = new Map<string, any>()
@@ -267,8 +394,9 @@ export async function getHybridRecommendations(
   const processTier = (data: any[] | null, tierWeight: number) => {
     if (!data) return
     data.forEach(s => {
-      // Never recommend already tracked series
+      // Never recommend already tracked or dismissed series
       if (profile.librarySeriesIds.has(s.series_id)) return
+      if (isSuppressed({ id: s.series_id, tags: s.tags, themes: s.themes }, suppressions)) return
 
       const globalScore = (1.0 - (s.rank / 100)) * tierWeight
       const existing = candidates.get(s.series_id)
@@ -283,17 +411,48 @@ export async function getHybridRecommendations(
   processTier(popular.data, 0.8)
   processTier(noteworthy.data, 0.6)
 
+  // Collaborative neighbours that aren't trending or popular right now
+  const extraIds = Array.from(collaborative.entries())
+    .filter(([id]) => !candidates.has(id))
+    .sort(([, a], [, b]) => b.score - a.score)
+    .slice(0, CF_EXTRA_CANDIDATES)
+    .map(([id]) => id)
+
+  if (extraIds.length > 0) {
+    const { data: extra } = await supabaseAdmin
+      .from('series')
+      .select('id, title, cover_url, content_rating, original_language, type, status, genres, tags, themes, total_follows, average_rating, last_chapter_at')
+      .in('id', extraIds)
+      .in('content_rating', contentRatings)
+      .is('deleted_at', null)
+
+    extra?.forEach((s: any) => {
+      if (!isSuppressed(s, suppressions)) candidates.set(s.id, { ...s, series_id: s.id, globalScore: 0 })
+    })
+  }
+
   // Score and Rank
   const scored = Array.from(candidates.values()).map(s => {
     const personalAffinity = calculateAffinity(s, profile)
-    const finalScore = (s.globalScore * gw) + (personalAffinity * pw)
+    const collaborativeMatch = collaborative.get(s.series_id)
+    const collaborativeScore = collaborativeMatch?.score ?? 0
+    const finalScore = (s.globalScore * gw) + (personalAffinity * pw) + (collaborativeScore * cw)
+    const becauseYouRead = collaborativeMatch?.because ?? []
     
+    const collaborativeLeads = becauseYouRead.length > 0 && collaborativeScore * cw >= Math.max(personalAffinity * pw, s.globalScore * gw)
+
     let reason = 'Trending Now'
-    if (profile.state === UserState.ACTIVE && personalAffinity > 0.75) reason = 'Perfect Match for You'
+    if (collaborativeLeads) reason = `Because you read ${becauseYouRead[0].title}`
+    else if (profile.state === UserState.ACTIVE && personalAffinity > 0.75) reason = 'Perfect Match for You'
     else if (personalAffinity > 0.6) reason = 'Based on your interests'
     else if (s.globalScore > 0.8) reason = 'Highly Popular'
     else if (personalAffinity > 0.4) reason = 'Recommended for you'
 
+    const matchReasons = [reason]
+    if (becauseYouRead.length > 0 && !collaborativeLeads) {
+      matchReasons.push(`Because you read ${becauseYouRead[0].title}`)
+    }
+
     return {
       id: s.series_id,
       title: s.title,
@@ -307,7 +466,9 @@ export async function getHybridRecommendations(
       average_rating: s.average_rating ? Number(s.average_rating) : null,
       updated_at: s.last_chapter_at || new Date().toISOString(),
       recommendation_score: finalScore,
-      match_reasons: [reason]
+      match_reasons: matchReasons,
+      ...(becauseYouRead.length > 0 ? { because_you_read: becauseYouRead } : {}),
+      explanation: explainRecommendation(affinityAttributes(s, profile), collaborativeLeads ? becauseYouRead : [], reason)
     }
   })
 
@@ -332,50 +493,69 @@ export async function getHybridRecommendations(
   return diversified
 }
 
+const PERSONAL_RECOMMENDATION_LIMIT = 20
+
+/**
+ * Materialized recommendations (user_recommendations), minus series the user
+ * dismissed and series carrying tags suppressed by their feedback
+ */
 export async function getPersonalRecommendations(userId: string): Promise<RecommendationResult[]> {
-  const { data: materializedRecs, error } = await supabaseAdmin
-    .from('user_recommendations')
-    .select(`
-      score,
-      reason,
-      series:series_id (
-        id,
-        title,
-        cover_url,
-        content_rating,
-        original_language,
-        type,
-        status,
-        genres,
-        total_follows,
-        average_rating,
-        updated_at
-      )
-    `)
-    .eq('user_id', userId)
-    .order('score', { ascending: false })
-    .limit(20)
+  const [{ data: materializedRecs, error }, { data: affinities }, suppressions] = await Promise.all([
+    supabaseAdmin
+      .from('user_recommendations')
+      .select(`
+        score,
+        reason,
+        series:series_id (
+          id,
+          title,
+          cover_url,
+          content_rating,
+          original_language,
+          type,
+          status,
+          genres,
+          tags,
+          themes,
+          total_follows,
+          average_rating,
+          updated_at
+        )
+      `)
+      .eq('user_id', userId)
+      .order('score', { ascending: false })
+      // Leave room for suppressed series
+      .limit(PERSONAL_RECOMMENDATION_LIMIT * 2),
+    supabaseAdmin.from('user_affinities').select('attribute_type, attribute_id, score').eq('user_id', userId),
+    getRecommendationSuppressions(userId)
+  ])
 
   if (error || !materializedRecs || materializedRecs.length === 0) return []
 
-  return materializedRecs.map((rec: any) => {
-    const series = rec.series
-    return {
-      id: series.id,
-      title: series.title,
-      cover_url: series.cover_url,
-      content_rating: series.content_rating,
-      original_language: series.original_language,
-      type: series.type,
-      status: series.status,
-      genres: series.genres,
-      total_follows: series.total_follows,
-      average_rating: series.average_rating ? Number(series.average_rating) : null,
-      updated_at: series.updated_at,
-      recommendation_score: rec.score,
-      match_reasons: [rec.reason]
-    }
-  })
+  const profile: AffinityProfile = { topGenres: [], topThemes: [], affinities: groupAffinities(affinities) }
+
+  return materializedRecs
+    .filter((rec: any) => rec.series && !isSuppressed(rec.series, suppressions))
+    .slice(0, PERSONAL_RECOMMENDATION_LIMIT)
+    .map((rec: any) => {
+      const series = rec.series
+      return {
+        id: series.id,
+        title: series.title,
+        cover_url: series.cover_url,
+        content_rating: series.content_rating,
+        original_language: series.original_language,
+        type: series.type,
+        status: series.status,
+        genres: series.genres,
+        total_follows: series.total_follows,
+        average_rating: series.average_rating ? Number(series.average_rating) : null,
+        updated_at: series.updated_at,
+        recommendation_score: rec.score,
+        match_reasons: [rec.reason],
+        explanation: explainRecommendation(affinityAttributes(series, profile), [], rec.reason)
+      }
+    })
 }
 
 export async function getColdStartRecommendations(
@@ -0,0 +1,201 @@
+import { prisma } from './prisma';
+
+/**
+ * Release-cadence model: estimates when a series' next chapter will appear
+ * from the gaps between its recent releases, classifies the rhythm
+ * (weekly/biweekly/monthly) and flags series whose silence far exceeds it.
+ * Chapters that appear within a few hours of each other (a batch upload, or
+ * a back catalogue imported at once) count as one release.
+ */
+
+export type ReleaseCadence = 'weekly' | 'biweekly' | 'monthly' | 'irregular';
+
+/**
+ * on_schedule: the next release is still ahead, or within tolerance of the prediction
+ * late: past the predicted date, but not long enough to call it a break
+ * hiatus: the current gap far exceeds the usual cadence
+ */
+export type ReleaseScheduleStatus = 'on_schedule' | 'late' | 'hiatus';
+
+export interface ReleasePrediction {
+  predicted_at: Date;
+  interval_days: number;
+  last_release_at: Date;
+  /** Gaps the interval was derived from */
+  sample_size: number;
+  cadence: ReleaseCadence;
+  /** 0–1: share of recent gaps matching the interval, discounted for short histories */
+  confidence: number;
+  status: ReleaseScheduleStatus;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const BATCH_WINDOW_MS = 12 * 60 * 60 * 1000;
+const MIN_GAPS = 3;
+const MAX_GAPS = 10;
+const HISTORY_PER_SERIES = 40;
+
+/** Histories with fewer gaps than this get proportionally lower confidence */
+const FULL_CONFIDENCE_GAPS = 6;
+/** A gap matches the interval when within this fraction of it (never tighter than MIN_TOLERANCE_MS) */
+const GAP_TOLERANCE = 0.25;
+const MIN_TOLERANCE_MS = 1.5 * DAY_MS;
+/** Silence longer than this many intervals (and at least HIATUS_MIN_MS) is a hiatus */
+const HIATUS_FACTOR = 4;
+const HIATUS_MIN_MS = 30 * DAY_MS;
+
+/** Series in these publication states get no prediction; they are not expected to release again */
+export const FINISHED_SERIES_STATUSES = ['completed', 'finished', 'cancelled'];
+
+const CADENCE_BANDS: Array<{ cadence: Exclude<ReleaseCadence, 'irregular'>; min: number; max: number }> = [
+  { cadence: 'weekly', min: 5, max: 9 },
+  { cadence: 'biweekly', min: 12, max: 16 },
+  { cadence: 'monthly', min: 26, max: 35 },
+];
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/** Collapses releases closer together than the batch window, oldest first */
+export function groupReleases(dates: Date[]): Date[] {
+  const sorted = dates.map(d => d.getTime()).sort((a, b) => a - b);
+  const releases: number[] = [];
+  for (const time of sorted) {
+    if (releases.length === 0 || time - releases[releases.length - 1] > BATCH_WINDOW_MS) {
+      releases.push(time);
+    }
+  }
+  return releases.map(t => new Date(t));
+}
+
+/** Names the rhythm when the typical gap falls in a known band and most gaps agree with it */
+export function classifyCadence(intervalDays: number, regularity: number): ReleaseCadence {
+  if (regularity < 0.5) return 'irregular';
+  return CADENCE_BANDS.find(band => intervalDays >= band.min && intervalDays <= band.max)?.cadence ?? 'irregular';
+}
+
+export function predictNextRelease(dates: Date[], now: Date = new Date()): ReleasePrediction | null {
+  const releases = groupReleases(dates);
+  if (releases.length < MIN_GAPS + 1) return null;
+
+  const recent = releases.slice(-(MAX_GAPS + 1));
+  const gaps = recent.slice(1).map((date, i) => date.getTime() - recent[i].getTime());
+  const interval = median(gaps);
+  const last = recent[recent.length - 1];
+  const predicted = new Date(last.getTime() + interval);
+
+  const tolerance = Math.max(interval * GAP_TOLERANCE, MIN_TOLERANCE_MS);
+  const regularity = gaps.filter(gap => Math.abs(gap - interval) <= tolerance).length / gaps.length;
+  const confidence = regularity * Math.min(1, gaps.length / FULL_CONFIDENCE_GAPS);
+  const intervalDays = Math.round((interval / DAY_MS) * 10) / 10;
+
+  const silence = now.getTime() - last.getTime();
+  let status: ReleaseScheduleStatus = 'on_schedule';
+  if (silence > Math.max(interval * HIATUS_FACTOR, HIATUS_MIN_MS)) {
+    status = 'hiatus';
+  } else if (now.getTime() > predicted.getTime() + tolerance) {
+    status = 'late';
+  }
+
+  return {
+    predicted_at: predicted,
+    interval_days: intervalDays,
+    last_release_at: last,
+    sample_size: gaps.length,
+    cadence: classifyCadence(intervalDays, regularity),
+    confidence: Math.round(confidence * 100) / 100,
+    status,
+  };
+}
+
+/** Predictions for the given series, keyed by series id (series without enough history are absent). */
+export async function loadReleasePredictions(seriesIds: string[], now: Date = new Date()): Promise<Map<string, ReleasePrediction>> {
+  const predictions = new Map<string, ReleasePrediction>();
+  if (seriesIds.length === 0) return predictions;
+
+  const rows = await prisma.$queryRaw<Array<{ series_id: string; released_at: Date }>>`
+    SELECT series_id, released_at
+    FROM (
+      SELECT
+        series_id,
+        COALESCE(published_at, first_seen_at) AS released_at,
+        ROW_NUMBER() OVER (PARTITION BY series_id ORDER BY COALESCE(published_at, first_seen_at) DESC) AS rn
+      FROM logical_chapters
+      WHERE series_id = ANY(${seriesIds}::uuid[])
+        AND deleted_at IS NULL
+    ) recent
+    WHERE rn <= ${HISTORY_PER_SERIES}
+  `;
+
+  const bySeries = new Map<string, Date[]>();
+  for (const row of rows) {
+    if (!bySeries.has(row.series_id)) bySeries.set(row.series_id, []);
+    bySeries.get(row.series_id)!.push(new Date(row.released_at));
+  }
+
+  for (const [seriesId, dates] of bySeries) {
+    const prediction = predictNextRelease(dates, now);
+    if (prediction) predictions.set(seriesId, prediction);
+  }
+  return predictions;
+}
+
+export interface LibraryReleaseEntry {
+  series_id: string;
+  title: string;
+  cover_url: string | null;
+  content_rating: string | null;
+  prediction: ReleasePrediction;
+}
+
+/**
+ * Predictions for the series a user is actively following: library entries
+ * not completed or dropped, whose series is still publishing. Sorted by
+ * predicted date.
+ */
+export async function loadLibraryReleasePredictions(userId: string, now: Date = new Date()): Promise<LibraryReleaseEntry[]> {
+  const entries = await prisma.libraryEntry.findMany({
+    where: {
+      user_id: userId,
+      deleted_at: null,
+      series_id: { not: null },
+      status: { notIn: ['completed', 'dropped'] },
+    },
+    select: { series_id: true, Series: { select: { title: true, cover_url: true, content_rating: true, status: true } } },
+  });
+
+  const active = entries.filter(entry =>
+    entry.series_id && entry.Series && !FINISHED_SERIES_STATUSES.includes(entry.Series.status?.toLowerCase() ?? '')
+  );
+  const predictions = await loadReleasePredictions(active.map(entry => entry.series_id!), now);
+
+  return active.flatMap(entry => {
+    const prediction = predictions.get(entry.series_id!);
+    if (!prediction) return [];
+    return [{
+      series_id: entry.series_id!,
+      title: entry.Series!.title,
+      cover_url: entry.Series!.cover_url ?? null,
+      content_rating: entry.Series!.content_rating ?? null,
+      prediction,
+    }];
+  }).sort((a, b) => a.prediction.predicted_at.getTime() - b.prediction.predicted_at.getTime());
+}
+
+/** API shape shared by the series stats and library release calendar */
+export function serializeReleaseSchedule(prediction: ReleasePrediction) {
+  return {
+    cadence: prediction.cadence,
+    interval_days: prediction.interval_days,
+    // A series on hiatus has no meaningful next date
+    predicted_next_at: prediction.status === 'hiatus' ? null : prediction.predicted_at.toISOString(),
+    confidence: prediction.confidence,
+    last_release_at: prediction.last_release_at.toISOString(),
+    status: prediction.status,
+  };
+}
+
+export type ReleaseSchedule = ReturnType<typeof serializeReleaseSchedule>;
@@ -0,0 +1,188 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+import { logger } from './logger';
+import { getSortConfig } from './cursor-pagination';
+import { GENRES, PUBLICATION_STATUS, SERIES_TYPES } from './constants/filters';
+import { FilterSchema, type CanonicalFilter } from './schemas/filters';
+import { browseFiltersFromCanonical, filterToSearchQuery } from './search/query-language';
+import { buildBrowseQuery } from './sql/browse-query-builder';
+
+/**
+ * Saved filter alerts.
+ *
+ * A watched SavedFilter is re-run once per watch period against series that
+ * were created or promoted to a new catalog tier (promoteSeriesTier →
+ * Series.tier_promoted_at) since its last check. Each run that finds matches
+ * sends one grouped notification linking to browse with the filter applied,
+ * e.g. "3 new completed romance manhwa matching 'Finished Romance'".
+ */
+
+export const WATCH_PERIODS = ['daily', 'weekly'] as const;
+export type WatchPeriod = (typeof WATCH_PERIODS)[number];
+
+export const WATCH_PERIOD_MS: Record<WatchPeriod, number> = {
+  daily: 24 * 60 * 60 * 1000,
+  weekly: 7 * 24 * 60 * 60 * 1000,
+};
+
+export const SAVED_FILTER_NOTIFICATION_TYPE = 'saved_filter_matches';
+
+const BATCH_SIZE = 200;
+const SAMPLE_SIZE = 5;
+
+export function isWatchPeriod(value: unknown): value is WatchPeriod {
+  return typeof value === 'string' && (WATCH_PERIODS as readonly string[]).includes(value);
+}
+
+type Option = { readonly value: string; readonly label: string };
+
+const labelFor = (options: readonly Option[], value: string) =>
+  (options.find(option => option.value.toLowerCase() === value.toLowerCase())?.label ?? value).toLowerCase();
+
+/** "completed romance manhwa", "series" for a filter without status, genres or types */
+export function describeSavedFilter(filter: CanonicalFilter): string {
+  const parts = [
+    ...filter.publicationStatus.slice(0, 1).map(status => labelFor(PUBLICATION_STATUS, status)),
+    ...filter.genres.slice(0, 2).map(genre => labelFor(GENRES, genre)),
+  ];
+  const types = filter.type.map(type => labelFor(SERIES_TYPES, type));
+  parts.push(types.length > 0 ? types.join(' and ') : 'series');
+  return parts.join(' ');
+}
+
+/** Browse page with the filter applied through the search query language */
+export function savedFilterBrowseUrl(filter: CanonicalFilter): string {
+  const query = filterToSearchQuery(filter);
+  return query ? `/browse?q=${encodeURIComponent(query)}` : '/browse';
+}
+
+export interface SavedFilterMatches {
+  count: number;
+  sample: Array<{ id: string; title: string }>;
+}
+
+/** Series matching `filter` that were created or promoted in (after, before] */
+export async function findNewSavedFilterMatches(
+  filter: CanonicalFilter,
+  after: Date,
+  before: Date
+): Promise<SavedFilterMatches> {
+  const browseFilters = {
+    ...browseFiltersFromCanonical(filter, filter.readableOn[0]?.toLowerCase() ?? null),
+    discoveredAfter: after,
+    discoveredBefore: before,
+  };
+  const query = buildBrowseQuery(browseFilters, getSortConfig(filter.sortBy), SAMPLE_SIZE, null);
+
+  const [rows, countRows] = await Promise.all([
+    prisma.$queryRawUnsafe<Array<{ id: string; title: string }>>(query.sql, ...query.params),
+    prisma.$queryRawUnsafe<Array<{ total: bigint }>>(query.countSql, ...query.countParams),
+  ]);
+
+  return {
+    count: Number(countRows[0]?.total ?? 0),
+    sample: rows.slice(0, SAMPLE_SIZE).map(row => ({ id: row.id, title: row.title })),
+  };
+}
+
+function formatSampleTitles(titles: string[], total: number): string {
+  if (titles.length === 0) return '';
+  const others = total - titles.length;
+  if (others > 0) return `Including ${titles.join(', ')} and ${others} more.`;
+  if (titles.length === 1) return `${titles[0]}.`;
+  return `${titles.slice(0, -1).join(', ')} and ${titles[titles.length - 1]}.`;
+}
+
+export interface SavedFilterAlertRunResult {
+  checked: number;
+  notified: number;
+  failed: number;
+}
+
+/**
+ * Checks every watched filter whose period has elapsed since its last check.
+ * A filter without a last check (just switched on) starts its first window
+ * now. Failed filters keep their window and are retried on the next run.
+ */
+export async function runSavedFilterAlerts(now: Date = new Date()): Promise<SavedFilterAlertRunResult> {
+  const result: SavedFilterAlertRunResult = { checked: 0, notified: 0, failed: 0 };
+  let lastId: string | null = null;
+
+  for (;;) {
+    const filters: Array<{
+      id: string;
+      user_id: string | null;
+      name: string;
+      filter_payload: Prisma.JsonValue;
+      last_checked_at: Date | null;
+    }> = await prisma.savedFilter.findMany({
+      where: {
+        watch: true,
+        user_id: { not: null },
+        users: { deleted_at: null },
+        ...(lastId ? { id: { gt: lastId } } : {}),
+        OR: [
+          { last_checked_at: null },
+          ...WATCH_PERIODS.map(period => ({
+            watch_period: period,
+            last_checked_at: { lte: new Date(now.getTime() - WATCH_PERIOD_MS[period]) },
+          })),
+        ],
+      },
+      select: { id: true, user_id: true, name: true, filter_payload: true, last_checked_at: true },
+      orderBy: { id: 'asc' },
+      take: BATCH_SIZE,
+    });
+
+    if (filters.length === 0) break;
+    lastId = filters[filters.length - 1].id;
+
+    for (const filter of filters) {
+      result.checked++;
+      try {
+        const payload = FilterSchema.safeParse(filter.filter_payload);
+        const matches = payload.success && filter.last_checked_at
+          ? await findNewSavedFilterMatches(payload.data, filter.last_checked_at, now)
+          : null;
+
+        if (!payload.success || !matches || matches.count === 0) {
+          await prisma.savedFilter.update({ where: { id: filter.id }, data: { last_checked_at: now } });
+          continue;
+        }
+
+        await prisma.$transaction([
+          prisma.notification.create({
+            data: {
+              user_id: filter.user_id!,
+              type: SAVED_FILTER_NOTIFICATION_TYPE,
+              title: `${matches.count} new ${describeSavedFilter(payload.data)} matching '${filter.name}'`,
+              message: formatSampleTitles(matches.sample.map(series => series.title), matches.count),
+              series_id: matches.count === 1 ? matches.sample[0]?.id : null,
+              metadata: {
+                saved_filter_id: filter.id,
+                count: matches.count,
+                series_ids: matches.sample.map(series => series.id),
+                url: savedFilterBrowseUrl(payload.data),
+              },
+            },
+          }),
+          prisma.savedFilter.update({
+            where: { id: filter.id },
+            data: { last_checked_at: now, last_notified_at: now },
+          }),
+        ]);
+        result.notified++;
+      } catch (error: unknown) {
+        result.failed++;
+        logger.error('[SavedFilterAlerts] Failed to check saved filter', {
+          filterId: filter.id,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    if (filters.length < BATCH_SIZE) break;
+  }
+
+  return result;
+}
@@ -0,0 +1,12 @@
+import { z } from 'zod';
+import { API_TOKEN_SCOPES } from '@/lib/api-tokens';
+
+export const ApiTokenInputSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  scopes: z.array(z.enum(API_TOKEN_SCOPES)).min(1, 'Pick at least one scope').max(API_TOKEN_SCOPES.length)
+    .transform(list => Array.from(new Set(list))),
+  /** Omit or null for a token that never expires */
+  expires_in_days: z.number().int().min(1).max(365).nullable().optional(),
+});
+
+export type ApiTokenInput = z.infer<typeof ApiTokenInputSchema>;
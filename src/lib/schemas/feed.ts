@@ -0,0 +1,21 @@
+import { z } from 'zod';
+
+/** Query string of GET /api/feed/updates */
+export const FeedUpdatesQuerySchema = z.object({
+  cursor: z.string().datetime().optional().nullable(),
+  limit: z.coerce.number().min(1).max(50).default(20),
+  unseen_only: z.preprocess((val) => val === 'true', z.boolean()).default(false),
+});
+
+/**
+ * Query string of GET /api/feed/activity. Out-of-range limits are clamped
+ * and unknown filters fall back to "all" rather than failing.
+ */
+export const FeedActivityQuerySchema = z.object({
+  cursor: z.string().optional(),
+  limit: z.preprocess((val) => {
+    const num = parseInt(val as string, 10);
+    return Math.min(Math.max(1, isNaN(num) ? 30 : num), 100);
+  }, z.number().int().min(1).max(100)).default(30),
+  filter: z.preprocess((val) => (val === 'unread' ? 'unread' : 'all'), z.enum(['all', 'unread'])).default('all'),
+});
@@ -3,6 +3,15 @@ import { z } from 'zod';
 // Strict string validation to prevent injection
 const safeString = z.string().max(100).regex(/^[\w\s\-.,!']+$/i).optional();
 const safeStringArray = z.array(z.string().max(100).regex(/^[\w\s\-.,!']+$/i)).max(50).default([]);
+const optionalSafeStringArray = z.array(z.string().max(100).regex(/^[\w\s\-.,!']+$/i)).max(50).optional();
+
+const numericRange = (min: number, max: number, int: boolean) => {
+  const bound = int ? z.number().int().min(min).max(max) : z.number().min(min).max(max);
+  return z.object({ min: bound.optional(), max: bound.optional() }).optional().refine(
+    (data) => !data || data.min === undefined || data.max === undefined || data.min <= data.max,
+    { message: "min must be less than or equal to max" }
+  );
+};
 
 export const FilterSchema = z.object({
   q: z.string().max(200).nullable().default(null),
@@ -10,6 +19,11 @@ export const FilterSchema = z.object({
   genres: safeStringArray,
   tags: safeStringArray,
   themes: safeStringArray,
+  // Negated terms from the search query language (`-genre:romance`)
+  excludeTypes: optionalSafeStringArray,
+  excludeGenres: optionalSafeStringArray,
+  excludeTags: optionalSafeStringArray,
+  demographics: optionalSafeStringArray,
   contentWarnings: z.object({
     include: safeStringArray,
     exclude: safeStringArray,
@@ -28,6 +42,9 @@ export const FilterSchema = z.object({
     (data) => !data || data.min === undefined || data.max === undefined || data.min <= data.max,
     { message: "min must be less than or equal to max" }
   ),
+  // Series.average_rating (0-10) and Series.year
+  rating: numericRange(0, 10, false),
+  year: numericRange(1900, 2100, true),
   releasePeriod: z.object({
     from: z.string().datetime().optional(),
     to: z.string().datetime().optional(),
@@ -0,0 +1,64 @@
+import { z } from 'zod';
+
+const MAX_OFFSET = 100000;
+
+export const MAX_ENTRY_TAGS = 20;
+export const MAX_TAG_LENGTH = 32;
+export const MAX_NOTES_LENGTH = 10000;
+
+/** Tags are matched case-insensitively, so they're stored lowercased with whitespace collapsed */
+export const LibraryTagSchema = z.string()
+  .transform((tag) => tag.trim().toLowerCase().replace(/\s+/g, ' '))
+  .pipe(z.string().min(1, 'Tags cannot be empty').max(MAX_TAG_LENGTH, `Tags can be at most ${MAX_TAG_LENGTH} characters`));
+
+/** Query string of GET /api/library */
+export const LibraryQuerySchema = z.object({
+  q: z.string().optional(),
+  status: z.string().optional(),
+  /** Only entries whose series is in this list of the user's */
+  list: z.string().uuid().optional(),
+  /** Only entries carrying this tag */
+  tag: LibraryTagSchema.optional(),
+  sort: z.enum(['updated', 'latest_chapter', 'title', 'rating', 'added', 'rereads']).default('latest_chapter'),
+  limit: z.preprocess((val) => {
+    const num = parseInt(val as string, 10);
+    if (isNaN(num)) return 100;
+    return Math.min(200, Math.max(1, num));
+  }, z.number().int().min(1).max(200)).default(100),
+  offset: z.preprocess((val) => {
+    const num = parseInt(val as string, 10);
+    if (isNaN(num)) return 0;
+    return Math.min(MAX_OFFSET, Math.max(0, num));
+  }, z.number().int().min(0).max(MAX_OFFSET)).default(0),
+});
+
+/** Notes, tags and re-read fields of the PATCH /api/library/{id} body */
+export const LibraryEntryDetailsSchema = z.object({
+  notes: z.string().max(MAX_NOTES_LENGTH, `Notes can be at most ${MAX_NOTES_LENGTH} characters`).nullable().optional(),
+  tags: z.array(LibraryTagSchema)
+    .max(MAX_ENTRY_TAGS, `At most ${MAX_ENTRY_TAGS} tags per entry`)
+    .transform((tags) => [...new Set(tags)])
+    .optional(),
+  /** Starts another read-through of a completed entry */
+  start_reread: z.boolean().optional(),
+});
+
+/** Fields of the PATCH /api/library/{id}/progress body */
+export const progressUpdateShape = {
+  chapterNumber: z.number().min(0).max(100000).finite().nullable().optional(),
+  chapterSlug: z.string().nullable().optional(),
+  sourceId: z.string().uuid().optional(),
+  isRead: z.boolean().optional().default(true),
+  timestamp: z.string().datetime().optional(),
+  deviceId: z.string().max(100).optional(),
+  readingTimeSeconds: z.number().min(0).max(86400).optional(), // Optional explicit read time (max 24 hours)
+};
+
+/** Query string of GET /api/library/release-calendar */
+export const ReleaseCalendarQuerySchema = z.object({
+  days: z.preprocess((val) => {
+    const num = parseInt(val as string, 10);
+    if (isNaN(num)) return 30;
+    return Math.min(90, Math.max(1, num));
+  }, z.number().int().min(1).max(90)).default(30),
+});
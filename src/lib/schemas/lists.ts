@@ -0,0 +1,41 @@
+import { z } from 'zod';
+import { MAX_LIST_ITEMS, MAX_USER_LISTS } from '@/lib/lists';
+
+const name = z.string().trim().min(1, 'Name is required').max(100);
+const description = z.string().trim().max(2000).nullable();
+
+export const UserListInputSchema = z.object({
+  name,
+  description: description.optional(),
+  is_public: z.boolean().default(false),
+});
+
+/** Partial update; `cover_series_id` must be a series in the list, or null for the first item's cover */
+export const UserListUpdateSchema = z.object({
+  name: name.optional(),
+  description: description.optional(),
+  is_public: z.boolean().optional(),
+  cover_series_id: z.string().uuid().nullable().optional(),
+});
+
+export const UserListOrderSchema = z.object({
+  list_ids: z.array(z.string().uuid()).min(1).max(MAX_USER_LISTS),
+});
+
+const note = z.string().trim().max(1000).nullable();
+
+export const ListItemInputSchema = z.object({
+  series_id: z.string().uuid(),
+  note: note.optional(),
+});
+
+export const ListItemUpdateSchema = z.object({
+  note,
+});
+
+export const ListItemOrderSchema = z.object({
+  series_ids: z.array(z.string().uuid()).min(1).max(MAX_LIST_ITEMS),
+});
+
+export type UserListInput = z.infer<typeof UserListInputSchema>;
+export type UserListUpdate = z.infer<typeof UserListUpdateSchema>;
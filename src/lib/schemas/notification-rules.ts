@@ -0,0 +1,83 @@
+import { z } from 'zod';
+
+const timeOfDay = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Time must be HH:MM (24-hour)');
+
+const timezone = z.string().max(64).refine((tz) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: tz });
+    return true;
+  } catch {
+    return false;
+  }
+}, 'Unknown timezone');
+
+const sourceName = z.string().min(1).max(50).regex(/^[\w.-]+$/, 'Invalid source name');
+
+export const NotificationRuleParamsSchemas = {
+  /** Only notify for chapters from official publishers (Tier 1 domains) */
+  official_only: z.object({}).strict(),
+  /** Only notify for chapters from these sources */
+  source_allowlist: z.object({
+    sources: z.array(sourceName).min(1).max(20),
+  }).strict(),
+  /** Wait until at least `count` chapters are unread */
+  min_unread: z.object({
+    count: z.number().int().min(2).max(100),
+  }).strict(),
+  /** Hold notifications during these local hours and send them when they end */
+  quiet_hours: z.object({
+    start: timeOfDay,
+    end: timeOfDay,
+    timezone,
+  }).strict().refine(p => p.start !== p.end, 'Quiet hours must start and end at different times'),
+  /** Only notify when a chapter completes a volume */
+  volume_end_only: z.object({}).strict(),
+  /** Stop notifying once more than `chapters` are unread */
+  max_behind: z.object({
+    chapters: z.number().int().min(1).max(1000),
+  }).strict(),
+} as const;
+
+export type NotificationRuleType = keyof typeof NotificationRuleParamsSchemas;
+
+export const NOTIFICATION_RULE_TYPES = Object.keys(NotificationRuleParamsSchemas) as NotificationRuleType[];
+
+export const MAX_NOTIFICATION_RULES = 50;
+
+const RuleTypeSchema = z.enum(NOTIFICATION_RULE_TYPES as [NotificationRuleType, ...NotificationRuleType[]]);
+
+export function parseRuleParams(type: NotificationRuleType, params: unknown) {
+  return NotificationRuleParamsSchemas[type].safeParse(params ?? {});
+}
+
+/** A new rule; `params` is checked against the schema of `type`. */
+export const NotificationRuleInputSchema = z.object({
+  series_id: z.string().uuid().nullable().default(null),
+  type: RuleTypeSchema,
+  params: z.record(z.unknown()).default({}),
+  enabled: z.boolean().default(true),
+}).superRefine((rule, ctx) => {
+  const result = parseRuleParams(rule.type, rule.params);
+  if (!result.success) {
+    for (const issue of result.error.issues) {
+      ctx.addIssue({ ...issue, path: ['params', ...issue.path] });
+    }
+  }
+});
+
+/** Partial update; the route re-validates params against the resulting type. */
+export const NotificationRuleUpdateSchema = z.object({
+  type: RuleTypeSchema.optional(),
+  params: z.record(z.unknown()).optional(),
+  enabled: z.boolean().optional(),
+});
+
+export const NotificationRuleDryRunSchema = z.object({
+  /** Evaluate these instead of the saved rules (e.g. before saving an edit) */
+  rules: z.array(NotificationRuleInputSchema).max(MAX_NOTIFICATION_RULES).optional(),
+  series_id: z.string().uuid().optional(),
+  days: z.number().int().min(1).max(30).default(14),
+  limit: z.number().int().min(1).max(100).default(50),
+});
+
+export type NotificationRuleInput = z.infer<typeof NotificationRuleInputSchema>;
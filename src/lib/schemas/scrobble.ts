@@ -0,0 +1,26 @@
+import { z } from 'zod';
+
+/** Scrobbles dated further ahead than this are rejected as clock-skewed */
+const MAX_FUTURE_SKEW_MS = 5 * 60 * 1000;
+
+/**
+ * Body of POST /api/scrobble. The series is identified by one of
+ * `source_url`, `mangadex_id` or `mangaupdates_id`.
+ */
+export const ScrobbleSchema = z.object({
+  source_url: z.string().url().max(2048).optional(),
+  mangadex_id: z.string().uuid().optional(),
+  /** Numeric MangaUpdates series id */
+  mangaupdates_id: z.coerce.string().regex(/^\d{1,19}$/, 'mangaupdates_id must be a numeric series id').optional(),
+  chapter_number: z.number().min(0).max(100000).finite(),
+  read_at: z.string().datetime({ offset: true })
+    .refine(value => new Date(value).getTime() <= Date.now() + MAX_FUTURE_SKEW_MS, 'read_at cannot be in the future')
+    .optional(),
+  device_id: z.string().min(1).max(100).optional(),
+  reading_time_seconds: z.number().min(0).max(86400).optional(),
+}).refine(
+  data => Boolean(data.source_url || data.mangadex_id || data.mangaupdates_id),
+  'One of source_url, mangadex_id or mangaupdates_id is required'
+);
+
+export type ScrobbleInput = z.infer<typeof ScrobbleSchema>;
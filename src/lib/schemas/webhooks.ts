@@ -0,0 +1,26 @@
+import { z } from 'zod';
+import { WEBHOOK_EVENTS, WEBHOOK_FORMATS } from '@/lib/webhooks/events';
+import { isAllowedWebhookUrl } from '@/lib/webhooks/send';
+
+const webhookUrl = z.string().url().max(2048).refine(isAllowedWebhookUrl, 'Webhook URL must be a public HTTPS address');
+
+const events = z.array(z.enum(WEBHOOK_EVENTS)).min(1, 'Pick at least one event').max(WEBHOOK_EVENTS.length)
+  .transform(list => Array.from(new Set(list)));
+
+export const WebhookEndpointInputSchema = z.object({
+  url: webhookUrl,
+  format: z.enum(WEBHOOK_FORMATS).default('generic'),
+  events: events.default([...WEBHOOK_EVENTS]),
+  enabled: z.boolean().default(true),
+});
+
+/** Partial update; `rotate_secret` issues a new signing secret. */
+export const WebhookEndpointUpdateSchema = z.object({
+  url: webhookUrl.optional(),
+  format: z.enum(WEBHOOK_FORMATS).optional(),
+  events: events.optional(),
+  enabled: z.boolean().optional(),
+  rotate_secret: z.boolean().optional(),
+});
+
+export type WebhookEndpointInput = z.infer<typeof WebhookEndpointInputSchema>;
@@ -0,0 +1,45 @@
+class CircuitBreaker {
+  private failures = 0;
+  private lastFailureAt: number | null = null;
+  private readonly threshold = 5;
+  private readonly resetTimeout = 60000; // 1 minute
+
+  isOpen(): boolean {
+    if (this.failures >= this.threshold) {
+      if (this.lastFailureAt && Date.now() - this.lastFailureAt > this.resetTimeout) {
+        this.failures = 0;
+        return false;
+      }
+      return true;
+    }
+    return false;
+  }
+
+  recordFailure(): void {
+    this.failures++;
+    this.lastFailureAt = Date.now();
+  }
+
+  recordSuccess(): void {
+    this.failures = 0;
+    this.lastFailureAt = null;
+  }
+
+  reset(): void {
+    this.failures = 0;
+    this.lastFailureAt = null;
+  }
+}
+
+const breakers: Record<string, CircuitBreaker> = {};
+
+export function resetAllScraperBreakers(): void {
+  Object.values(breakers).forEach(breaker => breaker.reset());
+}
+
+export function getBreaker(source: string): CircuitBreaker {
+  if (!breakers[source]) {
+    breakers[source] = new CircuitBreaker();
+  }
+  return breakers[source];
+}
@@ -0,0 +1,97 @@
+/**
+ * Declarative source definitions.
+ *
+ * A definition describes where a source keeps a series' title and chapter
+ * list; `DeclarativeScraper` (engine.ts) turns it into a `Scraper`. Adding a
+ * site means adding a file under ./sources that exports `defineSource({...})`,
+ * listing it in sources/index.ts, and covering it with a fixture test against
+ * a saved page (see src/__tests__/unit/scraper-engine.test.ts). Record a live
+ * fixture with `npm run test:scrapers:record -- <name> <sourceId>` so drift
+ * checks cover it too.
+ *
+ * Kept free of runtime imports: the rate limiter reads `rateLimit` from here.
+ */
+
+/**
+ * Where a value lives in an HTML page, relative to the matched item (or the
+ * document for `title`). Without `selector` the item itself is used; without
+ * `attr` the element's text is read.
+ */
+export interface HtmlField {
+  selector?: string;
+  attr?: string;
+}
+
+/** Dotted path into the JSON item (or the document for `title`), e.g. `attributes.chapter`. */
+export type JsonField = string;
+
+export type DateFormat =
+  /** ISO 8601, or any other string `Date.parse` accepts */
+  | 'iso'
+  /** Seconds since the epoch */
+  | 'unix'
+  /** Milliseconds since the epoch */
+  | 'unix_ms'
+  /** "5 minutes ago", "2 days ago", "yesterday", "just now" */
+  | 'relative';
+
+interface ChapterFields<F> {
+  /** Each chapter item: a CSS selector (html) or a path to an array (json) */
+  list: string;
+  url: F;
+  /** Text the chapter number is parsed from (see `chapterNumber`) */
+  number: F;
+  title?: F;
+  /** Source-side chapter id; defaults to the chapter URL */
+  id?: F;
+  publishedAt?: F;
+  /** Builds the chapter URL from the `url` value, e.g. `https://example.com/chapter/{value}` */
+  urlTemplate?: string;
+}
+
+interface BaseSourceDefinition {
+  /** Source name as stored in `series_sources.source_name` (lowercase) */
+  name: string;
+  /** Hostnames series URLs may use; requests only ever go to these */
+  hosts: string[];
+  series: {
+    /** Matches a series URL; the first capture group is the source id */
+    urlPattern: RegExp;
+    /** URL fetched for a source id, e.g. `https://example.com/manga/{id}` */
+    urlTemplate: string;
+  };
+  chapterNumber?: {
+    /** First capture group is the number; defaults to "Chapter 12.5"-style text, then the first number */
+    pattern?: RegExp;
+  };
+  dates?: {
+    format: DateFormat;
+  };
+  /** Per-source token bucket, same shape as SourceRateConfig in lib/rate-limiter */
+  rateLimit: {
+    requestsPerSecond: number;
+    burstSize: number;
+    cooldownMs: number;
+  };
+  /** Extra request headers (Accept, Referer, ...) */
+  headers?: Record<string, string>;
+}
+
+export interface HtmlSourceDefinition extends BaseSourceDefinition {
+  format: 'html';
+  title: HtmlField;
+  chapters: ChapterFields<HtmlField>;
+}
+
+export interface JsonSourceDefinition extends BaseSourceDefinition {
+  format: 'json';
+  title: JsonField;
+  chapters: ChapterFields<JsonField>;
+}
+
+export type SourceDefinition = HtmlSourceDefinition | JsonSourceDefinition;
+
+/** Identity helper so definition files get type checking and inference. */
+export function defineSource<T extends SourceDefinition>(definition: T): T {
+  return definition;
+}
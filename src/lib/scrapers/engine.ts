@@ -0,0 +1,319 @@
+import { logger } from '../logger';
+import type { ScrapedChapter, ScrapedSeries, Scraper } from './types';
+import { validateSourceId } from './types';
+import type { DateFormat, HtmlField, SourceDefinition } from './definition';
+import { parseHtml, selectAll, selectOne, textContent, HtmlElement } from './html';
+import { getJsonPath } from './json-path';
+import {
+  ScraperError,
+  SelectorNotFoundError,
+  ProxyBlockedError,
+  RateLimitError,
+  DnsError,
+  CircuitBreakerOpenError,
+  isDnsOrNetworkError,
+} from './errors';
+import { getBreaker } from './circuit-breaker';
+import { ensureDNS, getRandomUserAgent } from './http';
+
+/**
+ * Generic scraper engine: fetches a series page for a SourceDefinition and
+ * extracts the title and chapter list it describes. `extractSeries` is pure
+ * so definitions can be tested against saved pages.
+ */
+
+const DEFAULT_CHAPTER_PATTERN = /(?:chapter|chap|ch|episode|ep)\.?\s*(\d+(?:\.\d+)?)/i;
+const FIRST_NUMBER_PATTERN = /(\d+(?:\.\d+)?)/;
+
+const RELATIVE_UNIT_MS: Record<string, number> = {
+  second: 1000,
+  sec: 1000,
+  minute: 60 * 1000,
+  min: 60 * 1000,
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+  week: 7 * 24 * 60 * 60 * 1000,
+  month: 30 * 24 * 60 * 60 * 1000,
+  year: 365 * 24 * 60 * 60 * 1000,
+};
+
+interface RawChapter {
+  url?: string;
+  number?: string;
+  title?: string;
+  id?: string;
+  publishedAt?: string;
+}
+
+export function parseChapterNumber(text: string, pattern?: RegExp): number | null {
+  const match = (pattern ?? DEFAULT_CHAPTER_PATTERN).exec(text)
+    ?? (pattern ? null : FIRST_NUMBER_PATTERN.exec(text));
+  if (!match) return null;
+  const value = parseFloat(match[1] ?? match[0]);
+  return Number.isFinite(value) ? value : null;
+}
+
+export function parseChapterDate(value: string, format: DateFormat, now: Date = new Date()): Date | undefined {
+  let time: number;
+  switch (format) {
+    case 'unix':
+      time = Number(value) * 1000;
+      break;
+    case 'unix_ms':
+      time = Number(value);
+      break;
+    case 'relative': {
+      const text = value.trim().toLowerCase();
+      if (/^(just now|now|today)$/.test(text)) {
+        time = now.getTime();
+        break;
+      }
+      if (text === 'yesterday') {
+        time = now.getTime() - RELATIVE_UNIT_MS.day;
+        break;
+      }
+      const match = /^(an?|\d+)\s+(sec|second|min|minute|hour|day|week|month|year)s?\s+ago$/.exec(text);
+      if (!match) return undefined;
+      const amount = match[1] === 'a' || match[1] === 'an' ? 1 : parseInt(match[1], 10);
+      time = now.getTime() - amount * RELATIVE_UNIT_MS[match[2]];
+      break;
+    }
+    default:
+      time = Date.parse(value);
+  }
+  return Number.isFinite(time) ? new Date(time) : undefined;
+}
+
+function fillTemplate(template: string, key: string, value: string): string {
+  return template.replace(`{${key}}`, encodeURIComponent(value));
+}
+
+function isSourceHost(definition: SourceDefinition, hostname: string): boolean {
+  return definition.hosts.includes(hostname.toLowerCase());
+}
+
+/** Accepts a bare source id or a series URL and returns the page to fetch. */
+export function resolveSeriesUrl(definition: SourceDefinition, sourceId: string): { id: string; url: string } {
+  const trimmed = sourceId.trim();
+  let id = trimmed;
+
+  if (/^https?:\/\//i.test(trimmed)) {
+    const match = definition.series.urlPattern.exec(trimmed);
+    if (!match?.[1]) {
+      throw new ScraperError(`Not a ${definition.name} series URL: ${trimmed}`, definition.name, false);
+    }
+    id = match[1];
+  }
+
+  if (!validateSourceId(id)) {
+    throw new ScraperError(`Invalid ${definition.name} source id: ${id}`, definition.name, false);
+  }
+
+  const url = fillTemplate(definition.series.urlTemplate, 'id', id);
+  if (!isSourceHost(definition, new URL(url).hostname)) {
+    throw new ScraperError(`${definition.name} series URL template points outside its hosts`, definition.name, false);
+  }
+  return { id, url };
+}
+
+function readHtmlField(scope: HtmlElement, field: HtmlField): string | undefined {
+  const element = field.selector ? selectOne(scope, field.selector) : scope;
+  if (!element) return undefined;
+  const value = field.attr ? element.attrs[field.attr] : textContent(element);
+  return value?.trim() || undefined;
+}
+
+function readJsonField(scope: unknown, path: string): string | undefined {
+  const value = getJsonPath(scope, path);
+  if (typeof value === 'number') return String(value);
+  return typeof value === 'string' ? value.trim() || undefined : undefined;
+}
+
+function extractHtml(definition: Extract<SourceDefinition, { format: 'html' }>, body: string) {
+  const document = parseHtml(body);
+  const title = readHtmlField(document, definition.title);
+  if (!title) {
+    throw new SelectorNotFoundError(definition.name, definition.title.selector ?? 'title');
+  }
+
+  const { chapters: fields } = definition;
+  const chapters = selectAll(document, fields.list).map((item): RawChapter => ({
+    url: readHtmlField(item, fields.url),
+    number: readHtmlField(item, fields.number),
+    title: fields.title && readHtmlField(item, fields.title),
+    id: fields.id && readHtmlField(item, fields.id),
+    publishedAt: fields.publishedAt && readHtmlField(item, fields.publishedAt),
+  }));
+  return { title, chapters };
+}
+
+function extractJson(definition: Extract<SourceDefinition, { format: 'json' }>, body: string) {
+  let document: unknown;
+  try {
+    document = JSON.parse(body);
+  } catch {
+    throw new ScraperError(`${definition.name} returned invalid JSON`, definition.name, true);
+  }
+
+  const title = readJsonField(document, definition.title);
+  if (!title) {
+    throw new SelectorNotFoundError(definition.name, definition.title);
+  }
+
+  const { chapters: fields } = definition;
+  const items = getJsonPath(document, fields.list);
+  if (!Array.isArray(items)) {
+    throw new SelectorNotFoundError(definition.name, fields.list);
+  }
+  const chapters = items.map((item): RawChapter => ({
+    url: readJsonField(item, fields.url),
+    number: readJsonField(item, fields.number),
+    title: fields.title && readJsonField(item, fields.title),
+    id: fields.id && readJsonField(item, fields.id),
+    publishedAt: fields.publishedAt && readJsonField(item, fields.publishedAt),
+  }));
+  return { title, chapters };
+}
+
+/**
+ * Extracts a series from a fetched page. Chapters without a URL are skipped;
+ * ones without a parseable number are kept as specials (chapter 0), like the
+ * MangaDex scraper does. Result is ordered by chapter number.
+ */
+export function extractSeries(
+  definition: SourceDefinition,
+  body: string,
+  options: { sourceId: string; pageUrl: string; now?: Date }
+): ScrapedSeries {
+  const { title, chapters: raw } = definition.format === 'html'
+    ? extractHtml(definition, body)
+    : extractJson(definition, body);
+
+  const seen = new Set<string>();
+  const chapters: ScrapedChapter[] = [];
+  for (const item of raw) {
+    if (!item.url) continue;
+
+    let chapterUrl: string;
+    try {
+      const href = definition.chapters.urlTemplate
+        ? fillTemplate(definition.chapters.urlTemplate, 'value', item.url)
+        : item.url;
+      chapterUrl = new URL(href, options.pageUrl).toString();
+    } catch {
+      continue;
+    }
+    if (seen.has(chapterUrl)) continue;
+    seen.add(chapterUrl);
+
+    const number = parseChapterNumber(item.number ?? '', definition.chapterNumber?.pattern);
+    chapters.push({
+      chapterNumber: number ?? 0,
+      chapterLabel: number === null ? 'Special' : `Chapter ${number}`,
+      chapterTitle: item.title || item.number || undefined,
+      chapterUrl,
+      sourceChapterId: item.id ?? chapterUrl,
+      publishedAt: item.publishedAt
+        ? parseChapterDate(item.publishedAt, definition.dates?.format ?? 'iso', options.now)
+        : undefined,
+    });
+  }
+
+  chapters.sort((a, b) => a.chapterNumber - b.chapterNumber);
+  return { sourceId: options.sourceId, title, chapters };
+}
+
+export class DeclarativeScraper implements Scraper {
+  private readonly TIMEOUT_MS = parseInt(process.env.SCRAPER_TIMEOUT_MS || '30000', 10);
+
+  constructor(readonly definition: SourceDefinition) {}
+
+  /** Fetches the raw series page; also used to record fixtures. */
+  async fetchDocument(sourceId: string): Promise<{ url: string; body: string }> {
+    const { name } = this.definition;
+    const { url } = resolveSeriesUrl(this.definition, sourceId);
+
+    const { sourceRateLimiter } = await import('../rate-limiter');
+    const acquired = await sourceRateLimiter.acquireToken(name, 60000);
+    if (!acquired) {
+      throw new RateLimitError(name);
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        headers: {
+          'User-Agent': getRandomUserAgent(),
+          Accept: this.definition.format === 'json' ? 'application/json' : 'text/html,application/xhtml+xml',
+          ...this.definition.headers,
+        },
+        redirect: 'follow',
+        signal: AbortSignal.timeout(this.TIMEOUT_MS),
+      });
+    } catch (error: unknown) {
+      if (isDnsOrNetworkError(error)) {
+        throw new DnsError(name, new URL(url).hostname);
+      }
+      throw error;
+    }
+
+    if (response.status === 404) {
+      throw new ScraperError(`${name} series not found: ${sourceId}`, name, false);
+    }
+    if (response.status === 429) {
+      throw new RateLimitError(name);
+    }
+    if (response.status === 401 || response.status === 403) {
+      throw new ProxyBlockedError(name);
+    }
+    if (!response.ok) {
+      throw new ScraperError(`${name} request failed: ${response.status}`, name, response.status >= 500);
+    }
+    // SECURITY: redirects must not leave the source's hosts
+    if (response.url && !isSourceHost(this.definition, new URL(response.url).hostname)) {
+      throw new ScraperError(`${name} redirected to an unexpected host`, name, false);
+    }
+
+    return { url: response.url || url, body: await response.text() };
+  }
+
+  async scrapeSeries(sourceId: string, targetChapters?: number[]): Promise<ScrapedSeries> {
+    const { name } = this.definition;
+    ensureDNS();
+
+    const breaker = getBreaker(name);
+    if (breaker.isOpen()) {
+      throw new CircuitBreakerOpenError(name);
+    }
+
+    try {
+      const { url, body } = await this.fetchDocument(sourceId);
+      const series = extractSeries(this.definition, body, { sourceId, pageUrl: url });
+      breaker.recordSuccess();
+
+      if (targetChapters) {
+        const targetSet = new Set(targetChapters);
+        series.chapters = series.chapters.filter(c => targetSet.has(c.chapterNumber));
+      }
+      return series;
+    } catch (error: unknown) {
+      const isDns = error instanceof DnsError || isDnsOrNetworkError(error);
+      const isRetryable = error instanceof ScraperError ? error.isRetryable : true;
+      const isRateLimit = error instanceof RateLimitError;
+
+      // Same policy as MangaDex: transient DNS and rate limit errors don't trip the breaker
+      if (!isRateLimit && !isDns && isRetryable) {
+        breaker.recordFailure();
+      }
+
+      if (error instanceof ScraperError) throw error;
+
+      logger.error(`[${name}] Scraping failed for ${sourceId}`, { error: error instanceof Error ? error.message : String(error) });
+      throw new ScraperError(
+        `${name} fetch failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        name,
+        true
+      );
+    }
+  }
+}
@@ -0,0 +1,383 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { ScrapedLatestUpdate, ScrapedSeries, Scraper } from './types';
+
+/**
+ * Record/replay harness for scrapers.
+ *
+ * `recordScraperFixture` runs a scraper against the network and keeps every
+ * HTTP exchange plus the parsed result. `replayScraperFixture` runs it again
+ * with `fetch` answered from those exchanges only, so tests never touch the
+ * network. `checkScraperFixture` re-records and diffs the parsed chapter list
+ * to catch markup/API drift (scripts/scraper-fixtures.ts).
+ */
+
+export const SCRAPER_FIXTURE_VERSION = 1;
+
+// Only headers scrapers read; cookies and the like never end up in fixtures
+const RECORDED_HEADERS = ['content-type', 'retry-after', 'location'];
+
+export type ScraperFixtureCall =
+  | { method: 'scrapeSeries'; sourceId: string; targetChapters?: number[] }
+  | { method: 'scrapeLatestUpdates' };
+
+export interface RecordedExchange {
+  request: { method: string; url: string };
+  response: {
+    status: number;
+    statusText: string;
+    url: string;
+    headers: Record<string, string>;
+    body: string;
+  };
+}
+
+/** ScrapedChapter as stored in JSON: dates are ISO strings */
+export interface SerializedChapter {
+  chapterNumber: number;
+  chapterLabel?: string;
+  chapterTitle?: string;
+  chapterUrl: string;
+  sourceChapterId?: string;
+  publishedAt?: string;
+}
+
+export interface SerializedSeries {
+  sourceId: string;
+  title: string;
+  chapters: SerializedChapter[];
+}
+
+export type SerializedScrapeResult = SerializedSeries | ScrapedLatestUpdate[];
+
+export interface ScraperFixture {
+  version: number;
+  source: string;
+  name: string;
+  call: ScraperFixtureCall;
+  recordedAt: string;
+  exchanges: RecordedExchange[];
+  result: SerializedScrapeResult;
+}
+
+export interface ChapterChange {
+  key: string;
+  fields: Record<string, { from: unknown; to: unknown }>;
+}
+
+export interface ScrapeDiff {
+  title?: { from: string; to: string };
+  added: SerializedChapter[];
+  removed: SerializedChapter[];
+  changed: ChapterChange[];
+  /** Shape violations in the new result (see `checkScrapeShape`) */
+  problems: string[];
+}
+
+export class UnrecordedRequestError extends Error {
+  constructor(method: string, url: string) {
+    super(`No recorded response for ${method} ${url}`);
+    this.name = 'UnrecordedRequestError';
+  }
+}
+
+function requestUrl(input: RequestInfo | URL): string {
+  if (typeof input === 'string') return input;
+  if (input instanceof URL) return input.href;
+  return input.url;
+}
+
+function requestMethod(input: RequestInfo | URL, init?: RequestInit): string {
+  const method = init?.method ?? (typeof input === 'object' && 'method' in input ? input.method : undefined);
+  return (method ?? 'GET').toUpperCase();
+}
+
+/**
+ * Builds the Response a scraper sees from a recorded exchange. Both record
+ * and replay hand scrapers this object, so a fixture replays exactly what
+ * the recording run parsed.
+ */
+function toResponse(exchange: RecordedExchange): Response {
+  const { response } = exchange;
+  const headers = new Map(Object.entries(response.headers));
+  const replayed = {
+    ok: response.status >= 200 && response.status < 300,
+    status: response.status,
+    statusText: response.statusText,
+    url: response.url,
+    redirected: response.url !== '' && response.url !== exchange.request.url,
+    headers: {
+      get: (name: string) => headers.get(name.toLowerCase()) ?? null,
+      has: (name: string) => headers.has(name.toLowerCase()),
+    },
+    text: async () => response.body,
+    json: async () => JSON.parse(response.body),
+    clone: () => toResponse(exchange),
+  };
+  return replayed as unknown as Response;
+}
+
+async function withFetch<T>(fetchImpl: typeof fetch, run: () => Promise<T>): Promise<T> {
+  const original = globalThis.fetch;
+  globalThis.fetch = fetchImpl;
+  try {
+    return await run();
+  } finally {
+    globalThis.fetch = original;
+  }
+}
+
+function runCall(scraper: Scraper, call: ScraperFixtureCall): Promise<ScrapedSeries | ScrapedLatestUpdate[]> {
+  if (call.method === 'scrapeSeries') {
+    return scraper.scrapeSeries(call.sourceId, call.targetChapters);
+  }
+  if (!scraper.scrapeLatestUpdates) {
+    throw new Error('Scraper does not support latest updates');
+  }
+  return scraper.scrapeLatestUpdates();
+}
+
+export function serializeScrapeResult(result: ScrapedSeries | ScrapedLatestUpdate[]): SerializedScrapeResult {
+  if (Array.isArray(result)) {
+    return result.map(({ sourceId, title, chapterNumber, chapterUrl }) => ({ sourceId, title, chapterNumber, chapterUrl }));
+  }
+  return {
+    sourceId: result.sourceId,
+    title: result.title,
+    chapters: result.chapters.map(chapter => ({
+      chapterNumber: chapter.chapterNumber,
+      chapterLabel: chapter.chapterLabel,
+      chapterTitle: chapter.chapterTitle,
+      chapterUrl: chapter.chapterUrl,
+      sourceChapterId: chapter.sourceChapterId,
+      publishedAt: chapter.publishedAt && !isNaN(chapter.publishedAt.getTime())
+        ? chapter.publishedAt.toISOString()
+        : undefined,
+    })),
+  };
+}
+
+/** Runs `call` against the network, keeping every exchange. */
+export async function recordScraperFixture(
+  scraper: Scraper,
+  options: { source: string; name: string; call: ScraperFixtureCall }
+): Promise<ScraperFixture> {
+  const network = globalThis.fetch;
+  const exchanges: RecordedExchange[] = [];
+
+  const recordingFetch = (async (input: RequestInfo | URL, init?: RequestInit) => {
+    const url = requestUrl(input);
+    const method = requestMethod(input, init);
+    const response = await network(input, init);
+
+    const headers: Record<string, string> = {};
+    for (const name of RECORDED_HEADERS) {
+      const value = response.headers.get(name);
+      if (value !== null) headers[name] = value;
+    }
+
+    const exchange: RecordedExchange = {
+      request: { method, url },
+      response: {
+        status: response.status,
+        statusText: response.statusText,
+        url: response.url || url,
+        headers,
+        body: await response.text(),
+      },
+    };
+    exchanges.push(exchange);
+    return toResponse(exchange);
+  }) as typeof fetch;
+
+  const result = await withFetch(recordingFetch, () => runCall(scraper, options.call));
+
+  return {
+    version: SCRAPER_FIXTURE_VERSION,
+    source: options.source,
+    name: options.name,
+    call: options.call,
+    recordedAt: new Date().toISOString(),
+    exchanges,
+    result: serializeScrapeResult(result),
+  };
+}
+
+/**
+ * Runs the fixture's call with `fetch` served from its exchanges. Requests
+ * are matched by method and URL in recorded order; anything else throws
+ * UnrecordedRequestError instead of going to the network.
+ */
+export async function replayScraperFixture(
+  scraper: Scraper,
+  fixture: ScraperFixture
+): Promise<SerializedScrapeResult> {
+  const pending = [...fixture.exchanges];
+
+  const replayFetch = (async (input: RequestInfo | URL, init?: RequestInit) => {
+    const url = requestUrl(input);
+    const method = requestMethod(input, init);
+    const index = pending.findIndex(e => e.request.method === method && e.request.url === url);
+    if (index === -1) {
+      throw new UnrecordedRequestError(method, url);
+    }
+    const [exchange] = pending.splice(index, 1);
+    return toResponse(exchange);
+  }) as typeof fetch;
+
+  const result = await withFetch(replayFetch, () => runCall(scraper, fixture.call));
+  return serializeScrapeResult(result);
+}
+
+function isAbsoluteHttpUrl(value: unknown): boolean {
+  if (typeof value !== 'string') return false;
+  try {
+    const { protocol } = new URL(value);
+    return protocol === 'http:' || protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Problems that would put garbage into series_sources/chapters if ingested:
+ * missing titles, non-numeric chapter numbers, relative URLs, bad dates,
+ * duplicate chapters.
+ */
+export function checkScrapeShape(result: SerializedScrapeResult): string[] {
+  const problems: string[] = [];
+
+  if (Array.isArray(result)) {
+    if (result.length === 0) problems.push('no latest updates');
+    result.forEach((update, i) => {
+      if (!update.sourceId) problems.push(`update ${i}: missing sourceId`);
+      if (!update.title?.trim()) problems.push(`update ${i}: missing title`);
+      if (!Number.isFinite(update.chapterNumber)) problems.push(`update ${i}: chapterNumber is not a number`);
+      if (!isAbsoluteHttpUrl(update.chapterUrl)) problems.push(`update ${i}: chapterUrl is not an absolute URL`);
+    });
+    return problems;
+  }
+
+  if (!result.title?.trim()) problems.push('missing series title');
+  if (!Array.isArray(result.chapters)) {
+    problems.push('chapters is not a list');
+    return problems;
+  }
+
+  const seenIds = new Set<string>();
+  const seenUrls = new Set<string>();
+  result.chapters.forEach((chapter, i) => {
+    const label = `chapter ${i} (${chapter.chapterUrl})`;
+    if (!Number.isFinite(chapter.chapterNumber) || chapter.chapterNumber < 0) {
+      problems.push(`${label}: invalid chapterNumber ${chapter.chapterNumber}`);
+    }
+    if (!isAbsoluteHttpUrl(chapter.chapterUrl)) problems.push(`${label}: chapterUrl is not an absolute URL`);
+    if (chapter.sourceChapterId !== undefined && !chapter.sourceChapterId) problems.push(`${label}: empty sourceChapterId`);
+    if (chapter.publishedAt !== undefined && isNaN(Date.parse(chapter.publishedAt))) {
+      problems.push(`${label}: invalid publishedAt`);
+    }
+    if (chapter.sourceChapterId) {
+      if (seenIds.has(chapter.sourceChapterId)) problems.push(`${label}: duplicate sourceChapterId ${chapter.sourceChapterId}`);
+      seenIds.add(chapter.sourceChapterId);
+    }
+    if (seenUrls.has(chapter.chapterUrl)) problems.push(`${label}: duplicate chapterUrl`);
+    seenUrls.add(chapter.chapterUrl);
+  });
+  return problems;
+}
+
+const chapterKey = (chapter: SerializedChapter) => chapter.sourceChapterId || chapter.chapterUrl;
+
+/**
+ * Compares a recorded result with a fresh one. For series, chapters are
+ * matched by source chapter id; latest-update lists change constantly, so
+ * only their shape is checked.
+ */
+export function diffScrapeResults(before: SerializedScrapeResult, after: SerializedScrapeResult): ScrapeDiff {
+  const diff: ScrapeDiff = { added: [], removed: [], changed: [], problems: checkScrapeShape(after) };
+  if (Array.isArray(before) || Array.isArray(after)) {
+    if (Array.isArray(before) !== Array.isArray(after)) diff.problems.push('result type changed');
+    return diff;
+  }
+
+  if (before.title !== after.title) {
+    diff.title = { from: before.title, to: after.title };
+  }
+
+  const previous = new Map(before.chapters.map(chapter => [chapterKey(chapter), chapter]));
+  const current = new Map((after.chapters ?? []).map(chapter => [chapterKey(chapter), chapter]));
+
+  for (const [key, chapter] of current) {
+    const old = previous.get(key);
+    if (!old) {
+      diff.added.push(chapter);
+      continue;
+    }
+    const fields: ChapterChange['fields'] = {};
+    for (const field of ['chapterNumber', 'chapterLabel', 'chapterTitle', 'chapterUrl', 'publishedAt'] as const) {
+      if (old[field] !== chapter[field]) fields[field] = { from: old[field], to: chapter[field] };
+    }
+    if (Object.keys(fields).length > 0) diff.changed.push({ key, fields });
+  }
+  for (const [key, chapter] of previous) {
+    if (!current.has(key)) diff.removed.push(chapter);
+  }
+  return diff;
+}
+
+/**
+ * New chapters are expected on a live series; a renamed title, chapters
+ * disappearing or changing, or shape problems mean the parser drifted.
+ */
+export function hasDrift(diff: ScrapeDiff): boolean {
+  return Boolean(diff.title) || diff.removed.length > 0 || diff.changed.length > 0 || diff.problems.length > 0;
+}
+
+/** Re-records a fixture from the network and diffs the parsed result. */
+export async function checkScraperFixture(
+  scraper: Scraper,
+  fixture: ScraperFixture
+): Promise<{ diff: ScrapeDiff; fixture: ScraperFixture }> {
+  const fresh = await recordScraperFixture(scraper, fixture);
+  return { diff: diffScrapeResults(fixture.result, fresh.result), fixture: fresh };
+}
+
+export function scraperFixturePath(dir: string, source: string, name: string): string {
+  const file = name.toLowerCase().replace(/[^a-z0-9._-]+/g, '-').replace(/^-+|-+$/g, '');
+  return path.join(dir, source, `${file || 'fixture'}.json`);
+}
+
+export async function saveScraperFixture(dir: string, fixture: ScraperFixture): Promise<string> {
+  const file = scraperFixturePath(dir, fixture.source, fixture.name);
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(file, JSON.stringify(fixture, null, 2) + '\n');
+  return file;
+}
+
+/** Every fixture under `dir/<source>/*.json`, optionally for one source. */
+export async function loadScraperFixtures(dir: string, source?: string): Promise<ScraperFixture[]> {
+  let sources: string[];
+  try {
+    sources = source ? [source] : await fs.readdir(dir);
+  } catch {
+    return [];
+  }
+
+  const fixtures: ScraperFixture[] = [];
+  for (const name of sources.sort()) {
+    let files: string[];
+    try {
+      files = await fs.readdir(path.join(dir, name));
+    } catch {
+      continue;
+    }
+    for (const file of files.filter(f => f.endsWith('.json')).sort()) {
+      const fixture = JSON.parse(await fs.readFile(path.join(dir, name, file), 'utf8')) as ScraperFixture;
+      if (fixture.version !== SCRAPER_FIXTURE_VERSION) {
+        throw new Error(`Unsupported scraper fixture version in ${name}/${file}: ${fixture.version}`);
+      }
+      fixtures.push(fixture);
+    }
+  }
+  return fixtures;
+}
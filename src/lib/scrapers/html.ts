@@ -0,0 +1,307 @@
+/**
+ * Minimal HTML tree + CSS selector support for declarative scrapers.
+ *
+ * Source pages only need to be walked, not rendered, so this is a forgiving
+ * tokenizer (void elements, raw-text elements, implied </li>, </td>, ...) and
+ * a selector matcher covering what chapter lists use: type, #id, .class,
+ * [attr], [attr=v], [attr^=v], [attr$=v], [attr*=v], [attr~=v], descendant
+ * and child combinators, and comma-separated groups.
+ */
+
+export interface HtmlElement {
+  tag: string;
+  attrs: Record<string, string>;
+  children: HtmlNode[];
+  parent: HtmlElement | null;
+}
+
+export type HtmlNode = HtmlElement | string;
+
+const VOID_ELEMENTS = new Set([
+  'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr',
+]);
+
+const RAW_TEXT_ELEMENTS = new Set(['script', 'style', 'textarea', 'title']);
+
+// Opening the key element closes an open element of one of these tags
+const IMPLIED_END: Record<string, string[]> = {
+  li: ['li'],
+  p: ['p'],
+  option: ['option'],
+  dt: ['dt', 'dd'],
+  dd: ['dt', 'dd'],
+  tr: ['tr', 'td', 'th'],
+  td: ['td', 'th'],
+  th: ['td', 'th'],
+};
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ',
+  ndash: '–', mdash: '—', hellip: '…', lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”',
+};
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1] === 'x' || entity[1] === 'X'
+        ? parseInt(entity.slice(2), 16)
+        : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) && code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : match;
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+const ATTR_RE = /([^\s"'>\/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+
+function parseAttributes(source: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  for (const match of source.matchAll(ATTR_RE)) {
+    const name = match[1].toLowerCase();
+    if (name in attrs) continue;
+    attrs[name] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? '');
+  }
+  return attrs;
+}
+
+// Index of the `>` closing the tag opened at `start`, skipping quoted attribute values
+function findTagEnd(html: string, start: number): number {
+  let quote: string | null = null;
+  for (let i = start; i < html.length; i++) {
+    const char = html[i];
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '>') {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/** Parses a document into a tree under a synthetic `#document` root. */
+export function parseHtml(html: string): HtmlElement {
+  const root: HtmlElement = { tag: '#document', attrs: {}, children: [], parent: null };
+  const stack: HtmlElement[] = [root];
+  const current = () => stack[stack.length - 1];
+
+  const appendText = (text: string) => {
+    if (text) current().children.push(decodeEntities(text));
+  };
+
+  let pos = 0;
+  while (pos < html.length) {
+    const lt = html.indexOf('<', pos);
+    if (lt === -1) {
+      appendText(html.slice(pos));
+      break;
+    }
+    appendText(html.slice(pos, lt));
+
+    if (html.startsWith('<!--', lt)) {
+      const end = html.indexOf('-->', lt + 4);
+      pos = end === -1 ? html.length : end + 3;
+      continue;
+    }
+    if (html[lt + 1] === '!' || html[lt + 1] === '?') {
+      const end = html.indexOf('>', lt);
+      pos = end === -1 ? html.length : end + 1;
+      continue;
+    }
+
+    const closing = html[lt + 1] === '/';
+    const tagMatch = /^[a-zA-Z][a-zA-Z0-9-]*/.exec(html.slice(lt + (closing ? 2 : 1), lt + 64));
+    if (!tagMatch) {
+      appendText('<');
+      pos = lt + 1;
+      continue;
+    }
+    const tag = tagMatch[0].toLowerCase();
+    const end = findTagEnd(html, lt);
+    if (end === -1) {
+      appendText(html.slice(lt));
+      break;
+    }
+    pos = end + 1;
+
+    if (closing) {
+      const index = stack.map(el => el.tag).lastIndexOf(tag);
+      if (index > 0) stack.length = index;
+      continue;
+    }
+
+    const attrSource = html.slice(lt + 1 + tag.length, end);
+    const implied = IMPLIED_END[tag];
+    if (implied && implied.includes(current().tag)) {
+      stack.pop();
+    }
+
+    const element: HtmlElement = {
+      tag,
+      attrs: parseAttributes(attrSource.replace(/\/\s*$/, '')),
+      children: [],
+      parent: current(),
+    };
+    current().children.push(element);
+
+    if (RAW_TEXT_ELEMENTS.has(tag)) {
+      const close = html.toLowerCase().indexOf(`</${tag}`, pos);
+      const stop = close === -1 ? html.length : close;
+      const text = html.slice(pos, stop);
+      if (text) element.children.push(tag === 'script' || tag === 'style' ? text : decodeEntities(text));
+      const closeEnd = close === -1 ? -1 : html.indexOf('>', close);
+      pos = closeEnd === -1 ? html.length : closeEnd + 1;
+      continue;
+    }
+
+    if (!VOID_ELEMENTS.has(tag) && !attrSource.trimEnd().endsWith('/')) {
+      stack.push(element);
+    }
+  }
+
+  return root;
+}
+
+// ---------------------------------------------------------------------------
+// Selectors
+// ---------------------------------------------------------------------------
+
+interface AttributeTest {
+  name: string;
+  op?: '=' | '^=' | '$=' | '*=' | '~=';
+  value?: string;
+}
+
+interface Compound {
+  tag?: string;
+  id?: string;
+  classes: string[];
+  attrs: AttributeTest[];
+}
+
+interface Step {
+  compound: Compound;
+  /** Relation to the previous step; ignored on the first */
+  combinator: ' ' | '>';
+}
+
+const selectorCache = new Map<string, Step[][]>();
+
+const COMPOUND_PART_RE = /^(?:([a-zA-Z][a-zA-Z0-9-]*|\*)|#([\w-]+)|\.([\w-]+)|\[\s*([\w:-]+)\s*(?:([~^$*]?=)\s*(?:"([^"]*)"|'([^']*)'|([^\]\s]+))\s*)?\])/;
+
+function parseSelector(selector: string): Step[][] {
+  const cached = selectorCache.get(selector);
+  if (cached) return cached;
+
+  const groups = selector.split(',').map(group => {
+    const steps: Step[] = [];
+    let rest = group.trim();
+    let combinator: ' ' | '>' = ' ';
+    if (!rest) throw new Error(`Invalid selector: "${selector}"`);
+
+    while (rest) {
+      const compound: Compound = { classes: [], attrs: [] };
+      let matched = false;
+      let part: RegExpExecArray | null;
+      while ((part = COMPOUND_PART_RE.exec(rest))) {
+        matched = true;
+        if (part[1]) compound.tag = part[1] === '*' ? undefined : part[1].toLowerCase();
+        else if (part[2]) compound.id = part[2];
+        else if (part[3]) compound.classes.push(part[3]);
+        else compound.attrs.push({
+          name: part[4].toLowerCase(),
+          op: part[5] as AttributeTest['op'],
+          value: part[6] ?? part[7] ?? part[8],
+        });
+        rest = rest.slice(part[0].length);
+      }
+      if (!matched) throw new Error(`Invalid selector: "${selector}"`);
+      steps.push({ compound, combinator });
+
+      const separator = /^\s*(>)?\s*/.exec(rest)!;
+      if (separator[0].length === 0 && rest) throw new Error(`Invalid selector: "${selector}"`);
+      combinator = separator[1] ? '>' : ' ';
+      rest = rest.slice(separator[0].length);
+      if (separator[1] && !rest) throw new Error(`Invalid selector: "${selector}"`);
+    }
+    return steps;
+  });
+
+  selectorCache.set(selector, groups);
+  return groups;
+}
+
+function matchesAttribute(element: HtmlElement, test: AttributeTest): boolean {
+  const actual = element.attrs[test.name];
+  if (actual === undefined) return false;
+  if (!test.op || test.value === undefined) return true;
+  switch (test.op) {
+    case '=': return actual === test.value;
+    case '^=': return actual.startsWith(test.value);
+    case '$=': return actual.endsWith(test.value);
+    case '*=': return actual.includes(test.value);
+    case '~=': return actual.split(/\s+/).includes(test.value);
+  }
+}
+
+function matchesCompound(element: HtmlElement, compound: Compound): boolean {
+  if (compound.tag && element.tag !== compound.tag) return false;
+  if (compound.id && element.attrs.id !== compound.id) return false;
+  if (compound.classes.length > 0) {
+    const classes = (element.attrs.class || '').split(/\s+/);
+    if (!compound.classes.every(c => classes.includes(c))) return false;
+  }
+  return compound.attrs.every(test => matchesAttribute(element, test));
+}
+
+function matchesSteps(element: HtmlElement, steps: Step[], index: number): boolean {
+  if (!matchesCompound(element, steps[index].compound)) return false;
+  if (index === 0) return true;
+
+  if (steps[index].combinator === '>') {
+    return !!element.parent && matchesSteps(element.parent, steps, index - 1);
+  }
+  for (let ancestor = element.parent; ancestor; ancestor = ancestor.parent) {
+    if (matchesSteps(ancestor, steps, index - 1)) return true;
+  }
+  return false;
+}
+
+function* descendants(element: HtmlElement): Generator<HtmlElement> {
+  for (const child of element.children) {
+    if (typeof child === 'string') continue;
+    yield child;
+    yield* descendants(child);
+  }
+}
+
+/** Descendants of `root` matching `selector`, in document order (like querySelectorAll). */
+export function selectAll(root: HtmlElement, selector: string): HtmlElement[] {
+  const groups = parseSelector(selector);
+  const results: HtmlElement[] = [];
+  for (const element of descendants(root)) {
+    if (groups.some(steps => matchesSteps(element, steps, steps.length - 1))) {
+      results.push(element);
+    }
+  }
+  return results;
+}
+
+export function selectOne(root: HtmlElement, selector: string): HtmlElement | null {
+  return selectAll(root, selector)[0] ?? null;
+}
+
+/** Text content with whitespace collapsed, skipping script and style bodies. */
+export function textContent(node: HtmlNode): string {
+  const parts: string[] = [];
+  const walk = (current: HtmlNode) => {
+    if (typeof current === 'string') {
+      parts.push(current);
+    } else if (current.tag !== 'script' && current.tag !== 'style') {
+      current.children.forEach(walk);
+    }
+  };
+  walk(node);
+  return parts.join('').replace(/\s+/g, ' ').trim();
+}
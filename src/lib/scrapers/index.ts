@@ -1,52 +1,28 @@
-import { initDNS } from '../dns-init';
 import { extractMangaDexId } from '../mangadex-utils';
 import { UUID_REGEX } from '../api-utils';
 import { logger } from '../logger';
-
-// DNS initialization is now lazy - called when scrapers are actually used
-// This prevents DNS patching during Next.js build phase
-let dnsInitialized = false;
-function ensureDNS() {
-  if (!dnsInitialized) {
-    initDNS();
-    dnsInitialized = true;
-  }
-}
-
-export interface ScrapedChapter {
-  chapterNumber: number;
-  chapterLabel?: string;
-  chapterTitle?: string;
-  chapterUrl: string;
-  sourceChapterId?: string;
-  publishedAt?: Date;
-}
-
-export interface ScrapedSeries {
-  sourceId: string;
-  title: string;
-  chapters: ScrapedChapter[];
-  metadataSource?: 'CANONICAL' | 'USER_OVERRIDE' | 'INFERRED';
-  metadataConfidence?: number;
-}
-
-export interface ScrapedLatestUpdate {
-  sourceId: string;
-  title: string;
-  chapterNumber: number;
-  chapterUrl: string;
-}
-
-export interface Scraper {
-  scrapeSeries(sourceId: string, targetChapters?: number[]): Promise<ScrapedSeries>;
-  scrapeLatestUpdates?(): Promise<ScrapedLatestUpdate[]>;
-}
-
-// Allowed hostnames for supported sources (MangaDex only)
-export const ALLOWED_HOSTS = new Set([
-  'mangadex.org',
-  'api.mangadex.org',
-]);
+import type { Scraper, ScrapedChapter, ScrapedSeries, ScrapedLatestUpdate } from './types';
+import {
+  ScraperError,
+  ProxyBlockedError,
+  RateLimitError,
+  DnsError,
+  CircuitBreakerOpenError,
+  isDnsOrNetworkError,
+} from './errors';
+import { getBreaker } from './circuit-breaker';
+import { ensureDNS } from './http';
+import { ScraperRegistry } from './registry';
+import { SOURCE_DEFINITIONS } from './sources';
+
+export type { Scraper, ScrapedChapter, ScrapedSeries, ScrapedLatestUpdate } from './types';
+export { validateSourceId } from './types';
+export * from './errors';
+export { resetAllScraperBreakers } from './circuit-breaker';
+export { ScraperRegistry } from './registry';
+export { DeclarativeScraper, extractSeries } from './engine';
+export { defineSource } from './definition';
+export type { SourceDefinition, HtmlSourceDefinition, JsonSourceDefinition } from './definition';
 
 // Planned hosts for future implementation
 export const PLANNED_HOSTS = new Set([
@@ -61,22 +37,6 @@ export const PLANNED_HOSTS = new Set([
   'mangakakalot.com',
 ]);
 
-// SECURITY: Validate source ID format to prevent injection
-const SOURCE_ID_REGEX = /^[a-zA-Z0-9._-]{1,500}$/;
-
-const USER_AGENTS = [
-  'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-  'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-  'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-  'Mozilla/5.0 (Windows NT 10.0; Win64; x64; rv:121.0) Gecko/20100101 Firefox/121.0',
-  'Mozilla/5.0 (Macintosh; Intel Mac OS X 14.2; rv:121.0) Gecko/20100101 Firefox/121.0',
-  'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36 Edg/120.0.0.0',
-];
-
-function getRandomUserAgent(): string {
-  return USER_AGENTS[Math.floor(Math.random() * USER_AGENTS.length)];
-}
-
 export class PlaceholderScraper implements Scraper {
   constructor(private readonly sourceName: string) {}
 
@@ -93,10 +53,6 @@ export class PlaceholderScraper implements Scraper {
   }
 }
 
-export function validateSourceId(sourceId: string): boolean {
-  return SOURCE_ID_REGEX.test(sourceId);
-}
-
 export function validateSourceUrl(url: string): boolean {
   try {
     const parsed = new URL(url);
@@ -106,116 +62,6 @@ export function validateSourceUrl(url: string): boolean {
   }
 }
 
-export class ScraperError extends Error {
-  constructor(
-    public readonly message: string,
-    public readonly source: string,
-    public readonly isRetryable: boolean = true,
-    public readonly code?: string
-  ) {
-    super(message);
-    this.name = 'ScraperError';
-  }
-}
-
-export class SelectorNotFoundError extends ScraperError {
-  constructor(source: string, selector: string) {
-    super(`Selector not found: ${selector}`, source, false, 'SELECTOR_NOT_FOUND');
-    this.name = 'SelectorNotFoundError';
-  }
-}
-
-export class ProxyBlockedError extends ScraperError {
-  constructor(source: string) {
-    super('Request blocked by proxy/WAF', source, true, 'PROXY_BLOCKED');
-    this.name = 'ProxyBlockedError';
-  }
-}
-
-export class RateLimitError extends ScraperError {
-  constructor(source: string) {
-    super('Rate limit exceeded', source, true, 'RATE_LIMIT');
-    this.name = 'RateLimitError';
-  }
-}
-
-// P1-8 FIX: DNS Error class for network issues that should trigger retry
-export class DnsError extends ScraperError {
-  constructor(source: string, hostname: string) {
-    super(`DNS resolution failed for ${hostname}`, source, true, 'DNS_ERROR');
-    this.name = 'DnsError';
-  }
-}
-
-export class CircuitBreakerOpenError extends ScraperError {
-  constructor(source: string) {
-    super(`Circuit breaker is open for source: ${source}`, source, false, 'CIRCUIT_OPEN');
-    this.name = 'CircuitBreakerOpenError';
-  }
-}
-
-// P1-8 FIX: Check if error is a DNS/network error that should be retried
-function isDnsOrNetworkError(error: unknown): boolean {
-  if (!error) return false;
-  const message = error instanceof Error ? error.message.toLowerCase() : String(error).toLowerCase();
-  return (
-    message.includes('enotfound') ||
-    message.includes('getaddrinfo') ||
-    message.includes('dns') ||
-    message.includes('econnrefused') ||
-    message.includes('econnreset') ||
-    message.includes('etimedout') ||
-    message.includes('network') ||
-    message.includes('socket hang up')
-  );
-}
-
-class CircuitBreaker {
-  private failures = 0;
-  private lastFailureAt: number | null = null;
-  private readonly threshold = 5;
-  private readonly resetTimeout = 60000; // 1 minute
-
-  isOpen(): boolean {
-    if (this.failures >= this.threshold) {
-      if (this.lastFailureAt && Date.now() - this.lastFailureAt > this.resetTimeout) {
-        this.failures = 0;
-        return false;
-      }
-      return true;
-    }
-    return false;
-  }
-
-  recordFailure(): void {
-    this.failures++;
-    this.lastFailureAt = Date.now();
-  }
-
-  recordSuccess(): void {
-    this.failures = 0;
-    this.lastFailureAt = null;
-  }
-
-  reset(): void {
-    this.failures = 0;
-    this.lastFailureAt = null;
-  }
-}
-
-const breakers: Record<string, CircuitBreaker> = {};
-
-export function resetAllScraperBreakers(): void {
-  Object.values(breakers).forEach(breaker => breaker.reset());
-}
-
-function getBreaker(source: string): CircuitBreaker {
-  if (!breakers[source]) {
-    breakers[source] = new CircuitBreaker();
-  }
-  return breakers[source];
-}
-
 // CONTENT POLICY: Only allowed content ratings (pornographic is BLOCKED platform-wide)
 const ALLOWED_CONTENT_RATINGS_PARAM = 'contentRating[]=safe&contentRating[]=suggestive&contentRating[]=erotica';
 
@@ -527,11 +373,16 @@ export class MangaDexScraper implements Scraper {
   }
 }
 
-export const scrapers: Record<string, Scraper> = {
-  'mangadex': new MangaDexScraper(),
-};
+export const scraperRegistry = new ScraperRegistry()
+  .register('mangadex', new MangaDexScraper(), ['mangadex.org', 'api.mangadex.org']);
+SOURCE_DEFINITIONS.forEach(definition => scraperRegistry.registerDefinition(definition));
+
+export const scrapers: Record<string, Scraper> = scraperRegistry.toRecord();
+
+// Allowed hostnames for supported sources: MangaDex plus every defined source
+export const ALLOWED_HOSTS = new Set(scraperRegistry.hosts());
 
-// Sources that are currently supported (have working scrapers)
+// Sources with hand-written scrapers; declarative ones are listed in ./sources
 export const SUPPORTED_SOURCES = ['mangadex'] as const;
 export type SupportedSource = typeof SUPPORTED_SOURCES[number];
 
@@ -546,8 +397,8 @@ export const PLANNED_SOURCES = [
   'mangakakalot',
 ] as const;
 
-export const getSupportedSources = () => [...SUPPORTED_SOURCES];
+export const getSupportedSources = () => scraperRegistry.names();
 
-export function isSourceSupported(source: string): source is SupportedSource {
-  return SUPPORTED_SOURCES.includes(source as SupportedSource);
+export function isSourceSupported(source: string): boolean {
+  return scraperRegistry.get(source) !== undefined;
 }
@@ -0,0 +1,21 @@
+/**
+ * Dotted paths into parsed JSON for declarative scrapers: `data.chapters`,
+ * `attributes.title.en`, `items[0].id`. An empty path is the value itself.
+ */
+
+const SEGMENT_RE = /([^.[\]]+)|\[(\d+)\]/g;
+
+export function getJsonPath(value: unknown, path: string): unknown {
+  let current: unknown = value;
+  for (const match of path.matchAll(SEGMENT_RE)) {
+    if (current === null || current === undefined) return undefined;
+    if (match[2] !== undefined) {
+      current = Array.isArray(current) ? current[Number(match[2])] : undefined;
+    } else if (typeof current === 'object') {
+      current = (current as Record<string, unknown>)[match[1]];
+    } else {
+      return undefined;
+    }
+  }
+  return current;
+}
@@ -0,0 +1,66 @@
+import type { Scraper } from './types';
+import type { SourceDefinition } from './definition';
+import { DeclarativeScraper } from './engine';
+
+interface RegisteredScraper {
+  name: string;
+  scraper: Scraper;
+  hosts: string[];
+}
+
+/**
+ * Source name -> scraper lookup, plus the hostnames each source owns. Hand
+ * written scrapers are added with `register`, declarative sources with
+ * `registerDefinition`.
+ */
+export class ScraperRegistry {
+  private readonly byName = new Map<string, RegisteredScraper>();
+  private readonly byHost = new Map<string, RegisteredScraper>();
+
+  register(name: string, scraper: Scraper, hosts: string[]): this {
+    const key = name.toLowerCase();
+    if (this.byName.has(key)) {
+      throw new Error(`Scraper already registered: ${key}`);
+    }
+    const normalizedHosts = hosts.map(host => host.toLowerCase());
+    const claimed = normalizedHosts.find(host => this.byHost.has(host));
+    if (claimed) {
+      throw new Error(`Host ${claimed} is already handled by ${this.byHost.get(claimed)!.name}`);
+    }
+
+    const entry: RegisteredScraper = { name: key, scraper, hosts: normalizedHosts };
+    this.byName.set(key, entry);
+    normalizedHosts.forEach(host => this.byHost.set(host, entry));
+    return this;
+  }
+
+  registerDefinition(definition: SourceDefinition): this {
+    return this.register(definition.name, new DeclarativeScraper(definition), definition.hosts);
+  }
+
+  get(name: string): Scraper | undefined {
+    return this.byName.get(name.toLowerCase())?.scraper;
+  }
+
+  /** The source owning a series URL's host, if any. */
+  forUrl(url: string): { name: string; scraper: Scraper } | undefined {
+    try {
+      const entry = this.byHost.get(new URL(url).hostname.toLowerCase());
+      return entry && { name: entry.name, scraper: entry.scraper };
+    } catch {
+      return undefined;
+    }
+  }
+
+  names(): string[] {
+    return Array.from(this.byName.keys());
+  }
+
+  hosts(): string[] {
+    return Array.from(this.byHost.keys());
+  }
+
+  toRecord(): Record<string, Scraper> {
+    return Object.fromEntries(Array.from(this.byName.values(), entry => [entry.name, entry.scraper]));
+  }
+}
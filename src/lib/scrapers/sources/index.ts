@@ -0,0 +1,11 @@
+import type { SourceDefinition } from '../definition';
+
+/**
+ * Sources scraped through declarative definitions (see ../definition.ts).
+ * Each entry is registered with the scraper registry and its hosts become
+ * valid source URLs. MangaDex keeps its hand-written API client.
+ *
+ * Hosts in PLANNED_HOSTS move here once a definition and a fixture test
+ * against a saved page exist.
+ */
+export const SOURCE_DEFINITIONS: SourceDefinition[] = [];
@@ -0,0 +1,35 @@
+export interface ScrapedChapter {
+  chapterNumber: number;
+  chapterLabel?: string;
+  chapterTitle?: string;
+  chapterUrl: string;
+  sourceChapterId?: string;
+  publishedAt?: Date;
+}
+
+export interface ScrapedSeries {
+  sourceId: string;
+  title: string;
+  chapters: ScrapedChapter[];
+  metadataSource?: 'CANONICAL' | 'USER_OVERRIDE' | 'INFERRED';
+  metadataConfidence?: number;
+}
+
+export interface ScrapedLatestUpdate {
+  sourceId: string;
+  title: string;
+  chapterNumber: number;
+  chapterUrl: string;
+}
+
+export interface Scraper {
+  scrapeSeries(sourceId: string, targetChapters?: number[]): Promise<ScrapedSeries>;
+  scrapeLatestUpdates?(): Promise<ScrapedLatestUpdate[]>;
+}
+
+// SECURITY: Validate source ID format to prevent injection
+const SOURCE_ID_REGEX = /^[a-zA-Z0-9._-]{1,500}$/;
+
+export function validateSourceId(sourceId: string): boolean {
+  return SOURCE_ID_REGEX.test(sourceId);
+}
@@ -0,0 +1,146 @@
+import { prisma, DEFAULT_TX_OPTIONS } from '@/lib/prisma';
+import { extractPlatformIds } from '@/lib/sync/shared';
+import { checkAchievements } from '@/lib/gamification/achievements';
+import { invalidateLibraryCache } from '@/lib/cache-utils';
+import { addSeriesToLibrary } from '@/lib/library-entries';
+import { recordChapterProgress } from '@/lib/library-progress';
+import { logger } from '@/lib/logger';
+import type { ScrobbleInput } from '@/lib/schemas/scrobble';
+
+/**
+ * Progress reported by reader apps (Mihon, Komikku, browser readers) through
+ * POST /api/scrobble. A scrobble is recorded by recordChapterProgress, the
+ * same path as PATCH /api/library/[id]/progress, with the stricter XP rules
+ * for unattended reads.
+ */
+
+export interface ScrobbleSeries {
+  series_id: string;
+  /** One of the series' sources; without any it can't be added to the library */
+  source_url: string | null;
+  source_name: string | null;
+}
+
+export interface ScrobbleResult {
+  library_entry_id: string;
+  series_id: string;
+  added_to_library: boolean;
+  progress_updated: boolean;
+  last_read_chapter: number;
+  xp_gained: number;
+  read_time_flagged: boolean;
+}
+
+async function seriesWithSource(where: { mangadex_id: string } | { mangaupdates_series_id: bigint }) {
+  const series = await prisma.series.findUnique({
+    where,
+    select: {
+      id: true,
+      SeriesSource: { select: { source_url: true, source_name: true }, take: 1 },
+    },
+  });
+  if (!series) return null;
+  return { id: series.id, source: series.SeriesSource[0] ?? null };
+}
+
+/**
+ * Finds the series a scrobble refers to: tracker ids first, then the URL,
+ * which may be a MangaDex/MangaUpdates page or any chapter source we track.
+ */
+export async function resolveScrobbleSeries(input: Pick<ScrobbleInput, 'source_url' | 'mangadex_id' | 'mangaupdates_id'>): Promise<ScrobbleSeries | null> {
+  let series: Awaited<ReturnType<typeof seriesWithSource>> = null;
+
+  if (input.mangadex_id) {
+    series = await seriesWithSource({ mangadex_id: input.mangadex_id.toLowerCase() });
+  }
+  if (!series && input.mangaupdates_id) {
+    series = await seriesWithSource({ mangaupdates_series_id: BigInt(input.mangaupdates_id) });
+  }
+
+  if (!series && input.source_url) {
+    const platform = extractPlatformIds(input.source_url);
+    if (platform?.platform === 'mangadex') {
+      series = await seriesWithSource({ mangadex_id: platform.id.toLowerCase() });
+    } else if (platform?.platform === 'mangaupdates') {
+      series = await seriesWithSource({ mangaupdates_series_id: BigInt(platform.id) });
+    }
+
+    if (!series) {
+      const source = await prisma.seriesSource.findFirst({
+        where: {
+          series_id: { not: null },
+          OR: [
+            { source_url: input.source_url },
+            ...(platform ? [{ source_name: platform.platform, source_id: platform.id }] : []),
+          ],
+        },
+        select: { series_id: true, source_url: true, source_name: true },
+      });
+      if (source?.series_id) {
+        return { series_id: source.series_id, source_url: source.source_url, source_name: source.source_name };
+      }
+    }
+  }
+
+  if (!series) return null;
+  return { series_id: series.id, source_url: series.source?.source_url ?? null, source_name: series.source?.source_name ?? null };
+}
+
+/**
+ * Returns the user's library entry for the series, adding it when the user
+ * enabled `scrobble_auto_add`. Null when the series isn't in the library and
+ * auto-add is off, or the series has no source to track it by.
+ */
+export async function resolveScrobbleLibraryEntry(userId: string, series: ScrobbleSeries): Promise<{ id: string; added: boolean } | null> {
+  const existing = await prisma.libraryEntry.findFirst({
+    where: { user_id: userId, series_id: series.series_id },
+    select: { id: true, deleted_at: true },
+  });
+  if (existing && !existing.deleted_at) return { id: existing.id, added: false };
+  if (!series.source_url) return null;
+
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { scrobble_auto_add: true },
+  });
+  if (!user?.scrobble_auto_add) return null;
+
+  const entry = await addSeriesToLibrary(userId, series.series_id, 'reading');
+
+  try {
+    await prisma.$transaction(tx => checkAchievements(tx, userId, 'series_added'), DEFAULT_TX_OPTIONS);
+  } catch (achievementError: unknown) {
+    logger.error('Failed to check achievements', { error: achievementError instanceof Error ? achievementError.message : String(achievementError) });
+  }
+  await invalidateLibraryCache(userId);
+
+  return { id: entry.id, added: true };
+}
+
+/**
+ * Records a scrobbled chapter against a library entry the user owns.
+ */
+export async function applyScrobble(
+  userId: string,
+  entryId: string,
+  seriesId: string,
+  input: Pick<ScrobbleInput, 'chapter_number' | 'read_at' | 'device_id' | 'reading_time_seconds'>
+): Promise<Omit<ScrobbleResult, 'added_to_library'>> {
+  const progress = await recordChapterProgress(userId, entryId, {
+    chapterNumber: input.chapter_number,
+    isRead: true,
+    readAt: input.read_at ? new Date(input.read_at) : new Date(),
+    deviceId: input.device_id,
+    readingTimeSeconds: input.reading_time_seconds,
+    via: 'scrobble',
+  });
+
+  return {
+    library_entry_id: entryId,
+    series_id: seriesId,
+    progress_updated: progress.progressUpdated,
+    last_read_chapter: progress.lastReadChapter,
+    xp_gained: progress.xpGained,
+    read_time_flagged: progress.readTimeFlagged,
+  };
+}
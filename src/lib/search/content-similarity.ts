@@ -0,0 +1,183 @@
+/**
+ * Content similarity for "More like this".
+ *
+ * Each series becomes a ContentDocument: term frequencies of its description
+ * (tokenized, stop words dropped, plurals folded) and namespaced labels for
+ * its genres, tags/themes and demographic. Two documents are compared with
+ * BM25 (the source description as the query, normalized by its score against
+ * itself so it lands in 0–1) and the Jaccard index of their labels.
+ *
+ * Pure functions only; lib/series-similarity.ts stores documents and
+ * neighbours in the database.
+ */
+
+export interface ContentSource {
+  description: string | null;
+  genres: string[];
+  tags: string[];
+  themes: string[];
+  demographic: string | null;
+}
+
+export interface ContentDocument {
+  /** Description term -> frequency */
+  terms: Record<string, number>;
+  /** Number of description tokens (BM25 document length) */
+  length: number;
+  /** Sorted, de-duplicated genre:/tag:/demographic: labels */
+  labels: string[];
+}
+
+export interface CorpusStats {
+  documentCount: number;
+  averageLength: number;
+  /** Documents containing each term; terms missing from the map count as 1 */
+  documentFrequency: Map<string, number>;
+}
+
+export interface SimilarityScore {
+  score: number;
+  text_score: number;
+  label_score: number;
+}
+
+export const BM25_K1 = 1.2;
+export const BM25_B = 0.75;
+
+/** Share of the combined score that comes from descriptions; the rest comes from labels */
+export const TEXT_WEIGHT = 0.6;
+
+const MAX_TOKENS = 1000;
+const MIN_TOKEN_LENGTH = 3;
+
+const STOP_WORDS = new Set([
+  'about', 'after', 'again', 'against', 'all', 'also', 'and', 'any', 'are', 'around', 'because', 'been',
+  'before', 'being', 'between', 'both', 'but', 'can', 'could', 'did', 'does', 'doing', 'down', 'during',
+  'each', 'even', 'ever', 'every', 'few', 'for', 'from', 'further', 'get', 'gets', 'got', 'had', 'has',
+  'have', 'having', 'her', 'here', 'hers', 'herself', 'him', 'himself', 'his', 'how', 'into', 'its',
+  'itself', 'just', 'like', 'made', 'make', 'makes', 'many', 'may', 'more', 'most', 'much', 'must', 'now',
+  'off', 'once', 'one', 'only', 'other', 'our', 'ours', 'out', 'over', 'own', 'same', 'she', 'should',
+  'since', 'some', 'such', 'than', 'that', 'the', 'their', 'theirs', 'them', 'themselves', 'then', 'there',
+  'these', 'they', 'this', 'those', 'through', 'too', 'two', 'under', 'until', 'upon', 'very', 'was',
+  'way', 'well', 'were', 'what', 'when', 'where', 'which', 'while', 'who', 'whom', 'whose', 'why', 'will',
+  'with', 'within', 'without', 'would', 'yet', 'you', 'your', 'yours', 'yourself',
+  // Boilerplate that shows up in scraped synopses
+  'chapter', 'chapters', 'manga', 'manhwa', 'manhua', 'webtoon', 'series', 'source', 'story', 'official',
+  'translation', 'translated', 'volume', 'volumes', 'read', 'english', 'novel', 'adaptation',
+]);
+
+/** Folds common English plural endings so "swords" and "sword" match */
+function stem(token: string): string {
+  if (token.length > 4 && token.endsWith('ies')) return `${token.slice(0, -3)}y`;
+  if (token.length > 3 && token.endsWith('s') && !token.endsWith('ss') && !token.endsWith('us')) return token.slice(0, -1);
+  return token;
+}
+
+/** Description tokens: markup, links and source credits removed, lowercased, accents stripped */
+export function tokenizeDescription(description: string | null | undefined): string[] {
+  if (!description) return [];
+
+  const text = description
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1') // [label](url)
+    .replace(/https?:\/\/\S+/g, ' ')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/\[\/?[a-z]+[^\]]*\]/gi, ' ') // [b], [spoiler=...]
+    .replace(/\((?:source|from)\s*:[^)]*\)/gi, ' ')
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase();
+
+  const tokens: string[] = [];
+  for (const raw of text.split(/[^a-z0-9]+/)) {
+    if (raw.length < MIN_TOKEN_LENGTH || /^\d+$/.test(raw) || STOP_WORDS.has(raw)) continue;
+    const token = stem(raw);
+    if (STOP_WORDS.has(token)) continue;
+    tokens.push(token);
+    if (tokens.length >= MAX_TOKENS) break;
+  }
+  return tokens;
+}
+
+/** Namespaced labels; tags and themes share the tag: namespace since sources mix them up */
+export function contentLabels(source: Pick<ContentSource, 'genres' | 'tags' | 'themes' | 'demographic'>): string[] {
+  const labels = new Set<string>();
+  const add = (prefix: string, value: string | null | undefined) => {
+    const normalized = value?.trim().toLowerCase();
+    if (normalized) labels.add(`${prefix}:${normalized}`);
+  };
+
+  for (const genre of source.genres) add('genre', genre);
+  for (const tag of [...source.tags, ...source.themes]) add('tag', tag);
+  add('demographic', source.demographic);
+
+  return [...labels].sort();
+}
+
+export function buildContentDocument(source: ContentSource): ContentDocument {
+  const tokens = tokenizeDescription(source.description);
+  const terms: Record<string, number> = {};
+  for (const token of tokens) terms[token] = (terms[token] || 0) + 1;
+
+  return { terms, length: tokens.length, labels: contentLabels(source) };
+}
+
+/** The document's most frequent terms (ties alphabetical), used for candidate lookups */
+export function topTerms(document: ContentDocument, limit: number): string[] {
+  return Object.entries(document.terms)
+    .sort(([a, countA], [b, countB]) => countB - countA || a.localeCompare(b))
+    .slice(0, limit)
+    .map(([term]) => term);
+}
+
+/** BM25 idf, never negative */
+export function inverseDocumentFrequency(documentFrequency: number, documentCount: number): number {
+  return Math.log(1 + (documentCount - documentFrequency + 0.5) / (documentFrequency + 0.5));
+}
+
+/** BM25 score of `document` for the terms of `query` */
+export function bm25Score(query: ContentDocument, document: ContentDocument, stats: CorpusStats): number {
+  if (document.length === 0) return 0;
+  const averageLength = stats.averageLength > 0 ? stats.averageLength : document.length;
+  const lengthNorm = 1 - BM25_B + BM25_B * (document.length / averageLength);
+
+  let score = 0;
+  for (const term of Object.keys(query.terms)) {
+    const frequency = document.terms[term];
+    if (!frequency) continue;
+    const idf = inverseDocumentFrequency(stats.documentFrequency.get(term) ?? 1, stats.documentCount);
+    score += idf * (frequency * (BM25_K1 + 1)) / (frequency + BM25_K1 * lengthNorm);
+  }
+  return score;
+}
+
+/** BM25 of `document` relative to `query` scored against itself, 0–1 */
+export function textSimilarity(query: ContentDocument, document: ContentDocument, stats: CorpusStats): number {
+  const ideal = bm25Score(query, query, stats);
+  if (ideal <= 0) return 0;
+  return Math.min(1, bm25Score(query, document, stats) / ideal);
+}
+
+export function labelSimilarity(a: string[], b: string[]): number {
+  if (a.length === 0 && b.length === 0) return 0;
+  const setB = new Set(b);
+  let shared = 0;
+  for (const label of new Set(a)) if (setB.has(label)) shared++;
+  return shared / (new Set([...a, ...b]).size);
+}
+
+/**
+ * Combined similarity. A source without a description (or without labels) is
+ * scored on the other half alone instead of being capped at its weight.
+ */
+export function scoreSimilarity(query: ContentDocument, document: ContentDocument, stats: CorpusStats): SimilarityScore {
+  const text = textSimilarity(query, document, stats);
+  const label = labelSimilarity(query.labels, document.labels);
+
+  let score: number;
+  if (query.length === 0) score = label;
+  else if (query.labels.length === 0) score = text;
+  else score = TEXT_WEIGHT * text + (1 - TEXT_WEIGHT) * label;
+
+  const round = (value: number) => Math.round(value * 10000) / 10000;
+  return { score: round(score), text_score: round(text), label_score: round(label) };
+}
@@ -0,0 +1,533 @@
+import { toTitleCase } from '@/lib/api-utils';
+import {
+  CONTENT_RATINGS,
+  CONTENT_WARNINGS,
+  DEMOGRAPHICS,
+  GENRES,
+  ORIGINAL_LANGUAGES,
+  PUBLICATION_STATUS,
+  SERIES_TYPES,
+  SOURCES,
+  THEMES,
+  TRANSLATED_LANGUAGES,
+} from '@/lib/constants/filters';
+import { FilterSchema, type CanonicalFilter } from '@/lib/schemas/filters';
+import type { BrowseFilters, ExtendedBrowseFilters } from '@/lib/sql/browse-query-builder';
+
+/**
+ * Search query language for browse and search.
+ *
+ *   genre:romance -tag:"love triangle" type:manhwa status:ongoing
+ *   chapters:>100 rating:>=8 year:2018..2022 lang:ko solo leveling
+ *
+ * `key:value` terms become filters, `-key:value` excludes (genre, tag,
+ * warning, type), everything else is free text. Ranges take `>N`, `>=N`,
+ * `<N`, `<=N`, `N..M`, `N..`, `..M` or a single value. Parsed queries compile
+ * to BrowseFilters for buildBrowseQuery and round-trip through
+ * CanonicalFilter, the SavedFilter.filter_payload format.
+ */
+
+export interface NumericRange {
+  min: number | null;
+  max: number | null;
+}
+
+export interface SearchQueryFilters {
+  types: string[];
+  excludeTypes: string[];
+  genres: string[];
+  excludeGenres: string[];
+  tags: string[];
+  excludeTags: string[];
+  includeWarnings: string[];
+  excludeWarnings: string[];
+  demographics: string[];
+  status: string | null;
+  contentRating: string | null;
+  source: string | null;
+  originalLanguage: string | null;
+  translatedLanguage: string | null;
+  chapters: NumericRange | null;
+  rating: NumericRange | null;
+  year: NumericRange | null;
+  sort: string | null;
+}
+
+export interface SearchQueryTerm {
+  key: string;
+  value: string;
+  negated: boolean;
+}
+
+export interface ParsedSearchQuery {
+  text: string;
+  terms: SearchQueryTerm[];
+  filters: SearchQueryFilters;
+  errors: string[];
+}
+
+export interface SearchQuerySuggestion {
+  type: 'key' | 'value';
+  label: string;
+  /** Replaces the term under the cursor */
+  insertText: string;
+  description?: string;
+}
+
+type Option = { readonly value: string; readonly label: string };
+
+type ListField = 'types' | 'genres' | 'tags' | 'warnings' | 'demographics';
+type SingleField = 'status' | 'contentRating' | 'source' | 'originalLanguage' | 'translatedLanguage' | 'sort';
+type RangeField = 'chapters' | 'rating' | 'year';
+
+type KeyDefinition =
+  | { kind: 'list'; field: ListField; negatable: boolean; strict: boolean; options: readonly Option[] }
+  | { kind: 'single'; field: SingleField; strict: boolean; options: readonly Option[]; pattern?: RegExp }
+  | { kind: 'range'; field: RangeField; min: number; max: number; step: number; examples: string[] };
+
+const withoutAll = (options: readonly Option[]) => options.filter(option => option.value !== 'all');
+
+const SORT_OPTIONS: Option[] = [
+  { value: 'latest_chapter', label: 'Latest chapter' },
+  { value: 'updated', label: 'Recently updated' },
+  { value: 'newest', label: 'Newest' },
+  { value: 'popularity', label: 'Most followed' },
+  { value: 'follows', label: 'Follows' },
+  { value: 'score', label: 'Top rated' },
+  { value: 'chapters', label: 'Most chapters' },
+  { value: 'views', label: 'Most viewed' },
+];
+
+const LANGUAGE_CODE = /^[a-z]{2}(-[a-z]{2})?$/;
+
+const KEYS: Record<string, KeyDefinition & { description: string }> = {
+  genre: { kind: 'list', field: 'genres', negatable: true, strict: false, options: GENRES, description: 'Genre' },
+  tag: { kind: 'list', field: 'tags', negatable: true, strict: false, options: THEMES, description: 'Tag or theme' },
+  warning: { kind: 'list', field: 'warnings', negatable: true, strict: false, options: CONTENT_WARNINGS, description: 'Content warning' },
+  type: { kind: 'list', field: 'types', negatable: true, strict: true, options: withoutAll(SERIES_TYPES), description: 'Manga, manhwa, manhua...' },
+  demographic: { kind: 'list', field: 'demographics', negatable: false, strict: true, options: DEMOGRAPHICS, description: 'Target demographic' },
+  status: { kind: 'single', field: 'status', strict: true, options: withoutAll(PUBLICATION_STATUS), description: 'Publication status' },
+  content: { kind: 'single', field: 'contentRating', strict: true, options: withoutAll(CONTENT_RATINGS), description: 'Content rating' },
+  source: { kind: 'single', field: 'source', strict: true, options: withoutAll(SOURCES), description: 'Readable on' },
+  lang: { kind: 'single', field: 'originalLanguage', strict: false, options: withoutAll(ORIGINAL_LANGUAGES), pattern: LANGUAGE_CODE, description: 'Original language' },
+  tlang: { kind: 'single', field: 'translatedLanguage', strict: false, options: withoutAll(TRANSLATED_LANGUAGES), pattern: LANGUAGE_CODE, description: 'Translated language' },
+  sort: { kind: 'single', field: 'sort', strict: true, options: SORT_OPTIONS, description: 'Sort order' },
+  chapters: { kind: 'range', field: 'chapters', min: 0, max: 100000, step: 1, examples: ['>100', '>=50', '10..50'], description: 'Chapter count' },
+  rating: { kind: 'range', field: 'rating', min: 0, max: 10, step: 0.01, examples: ['>=8', '7..9'], description: 'Average rating (0-10)' },
+  year: { kind: 'range', field: 'year', min: 1900, max: 2100, step: 1, examples: ['2020', '2018..2022', '>=2015'], description: 'Publication year' },
+};
+
+const KEY_ALIASES: Record<string, string> = {
+  genres: 'genre',
+  g: 'genre',
+  tags: 'tag',
+  theme: 'tag',
+  themes: 'tag',
+  warnings: 'warning',
+  cw: 'warning',
+  types: 'type',
+  demo: 'demographic',
+  content_rating: 'content',
+  language: 'lang',
+  translated: 'tlang',
+  ch: 'chapters',
+  score: 'rating',
+};
+
+const MAX_TERMS = 30;
+
+// -key:"quoted value" | -key:value | "quoted text" | word
+const TOKEN_PATTERN = /(-?)([a-z_]+):(?:"([^"]*)"?|(\S*))|"([^"]*)"?|(\S+)/gi;
+// The (possibly unfinished) term at the end of the input
+const TERM_UNDER_CURSOR = /(-?)([a-z_]*)(?::(?:"([^"]*)|(\S*)))?$/i;
+// Same character set FilterSchema accepts for filter values
+const SAFE_VALUE = /^[\w\s\-.,!']+$/;
+
+function resolveKey(name: string): string | null {
+  const key = name.toLowerCase();
+  if (KEYS[key]) return key;
+  return KEY_ALIASES[key] ?? null;
+}
+
+function emptyFilters(): SearchQueryFilters {
+  return {
+    types: [],
+    excludeTypes: [],
+    genres: [],
+    excludeGenres: [],
+    tags: [],
+    excludeTags: [],
+    includeWarnings: [],
+    excludeWarnings: [],
+    demographics: [],
+    status: null,
+    contentRating: null,
+    source: null,
+    originalLanguage: null,
+    translatedLanguage: null,
+    chapters: null,
+    rating: null,
+    year: null,
+    sort: null,
+  };
+}
+
+function matchOption(options: readonly Option[], value: string): Option | undefined {
+  const needle = value.toLowerCase();
+  return options.find(option => option.value.toLowerCase() === needle || option.label.toLowerCase() === needle);
+}
+
+/** DB value for a list/single term: the constant's value, or for open lists the title-cased input */
+function normalizeValue(definition: KeyDefinition, value: string): string | null {
+  if (definition.kind === 'range' || !SAFE_VALUE.test(value)) return null;
+  const option = matchOption(definition.options, value);
+  if (option) return option.value;
+  if (definition.strict) return null;
+  if (definition.kind === 'single') {
+    const code = value.toLowerCase();
+    return definition.pattern && !definition.pattern.test(code) ? null : code;
+  }
+  return toTitleCase(value) || null;
+}
+
+function roundToStep(value: number, step: number): number {
+  return Math.round(value / step) * step;
+}
+
+function parseRange(value: string, definition: Extract<KeyDefinition, { kind: 'range' }>): NumericRange | null {
+  const number = (raw: string) => (raw.trim() === '' ? NaN : Number(raw));
+  const { step } = definition;
+  const fix = (n: number) => Number(roundToStep(n, step).toFixed(2));
+  let range: NumericRange;
+
+  const comparison = value.match(/^(>=|<=|>|<)(.+)$/);
+  if (comparison) {
+    const bound = number(comparison[2]);
+    if (!Number.isFinite(bound)) return null;
+    switch (comparison[1]) {
+      case '>': range = { min: fix(bound + step), max: null }; break;
+      case '>=': range = { min: fix(bound), max: null }; break;
+      case '<': range = { min: null, max: fix(bound - step) }; break;
+      default: range = { min: null, max: fix(bound) };
+    }
+  } else if (value.includes('..')) {
+    const [from, to] = value.split('..');
+    const min = from === '' ? null : number(from);
+    const max = to === '' ? null : number(to);
+    if ((min !== null && !Number.isFinite(min)) || (max !== null && !Number.isFinite(max))) return null;
+    if (min === null && max === null) return null;
+    range = { min: min === null ? null : fix(min), max: max === null ? null : fix(max) };
+  } else {
+    const exact = number(value);
+    if (!Number.isFinite(exact)) return null;
+    range = { min: fix(exact), max: fix(exact) };
+  }
+
+  const inBounds = (n: number | null) => n === null || (n >= definition.min && n <= definition.max);
+  if (!inBounds(range.min) || !inBounds(range.max)) return null;
+  if (range.min !== null && range.max !== null && range.min > range.max) return null;
+  return range;
+}
+
+function pushUnique(values: string[], value: string) {
+  if (!values.includes(value)) values.push(value);
+}
+
+type ListKey = { [K in keyof SearchQueryFilters]: SearchQueryFilters[K] extends string[] ? K : never }[keyof SearchQueryFilters];
+
+const LIST_TARGETS: Record<ListField, { include: ListKey; exclude?: ListKey }> = {
+  types: { include: 'types', exclude: 'excludeTypes' },
+  genres: { include: 'genres', exclude: 'excludeGenres' },
+  tags: { include: 'tags', exclude: 'excludeTags' },
+  warnings: { include: 'includeWarnings', exclude: 'excludeWarnings' },
+  demographics: { include: 'demographics' },
+};
+
+export function parseSearchQuery(input: string): ParsedSearchQuery {
+  const filters = emptyFilters();
+  const terms: SearchQueryTerm[] = [];
+  const errors: string[] = [];
+  const text: string[] = [];
+
+  for (const match of input.matchAll(TOKEN_PATTERN)) {
+    const [raw, negation, name, quotedValue, plainValue, quotedText, word] = match;
+
+    if (quotedText !== undefined || word !== undefined) {
+      const value = (quotedText ?? word).trim();
+      if (value) text.push(value);
+      continue;
+    }
+
+    const key = resolveKey(name);
+    if (!key) {
+      // Not a filter key ("re:zero"), keep it as text
+      text.push(raw);
+      continue;
+    }
+
+    if (terms.length >= MAX_TERMS) {
+      errors.push(`Too many filters (max ${MAX_TERMS})`);
+      break;
+    }
+
+    const definition = KEYS[key];
+    const negated = negation === '-';
+    const value = (quotedValue ?? plainValue ?? '').trim();
+
+    if (!value) {
+      errors.push(`${key} needs a value`);
+      continue;
+    }
+
+    if (negated && !(definition.kind === 'list' && definition.negatable)) {
+      errors.push(`${key} can't be negated`);
+      continue;
+    }
+
+    if (definition.kind === 'range') {
+      const range = parseRange(value, definition);
+      if (!range) {
+        errors.push(`${key} expects a number between ${definition.min} and ${definition.max} or a range like ${definition.examples.join(', ')}`);
+        continue;
+      }
+      filters[definition.field] = range;
+      terms.push({ key, value, negated });
+      continue;
+    }
+
+    // Comma separated values are separate terms: genre:action,comedy
+    const values = definition.kind === 'list' ? value.split(',').map(v => v.trim()).filter(Boolean) : [value];
+    for (const item of values) {
+      const normalized = normalizeValue(definition, item);
+      if (!normalized) {
+        errors.push(`Unknown ${key} "${item}"`);
+        continue;
+      }
+      if (definition.kind === 'list') {
+        const target = LIST_TARGETS[definition.field];
+        pushUnique(filters[negated && target.exclude ? target.exclude : target.include], normalized);
+      } else {
+        filters[definition.field] = normalized;
+      }
+      terms.push({ key, value: normalized, negated });
+    }
+  }
+
+  return { text: text.join(' '), terms, filters, errors };
+}
+
+const union = (a: string[], b: string[]) => Array.from(new Set([...a, ...b]));
+
+const NO_EXTENDED_FILTERS: ExtendedBrowseFilters = {
+  excludeTypes: [],
+  excludeGenres: [],
+  excludeThemes: [],
+  demographics: [],
+  chaptersMax: null,
+  ratingMin: null,
+  ratingMax: null,
+  yearFrom: null,
+  yearTo: null,
+  discoveredAfter: null,
+  discoveredBefore: null,
+};
+
+/**
+ * Applies a parsed query on top of filters from URL params: list terms are
+ * added, single values and ranges replace the param, the free text becomes `q`.
+ */
+export function applySearchQuery(
+  base: Omit<BrowseFilters, keyof ExtendedBrowseFilters> & Partial<ExtendedBrowseFilters>,
+  parsed: ParsedSearchQuery
+): BrowseFilters {
+  const merged: BrowseFilters = { ...NO_EXTENDED_FILTERS, ...base };
+  const { filters } = parsed;
+
+  return {
+    ...merged,
+    q: parsed.text || null,
+    types: union(merged.types, filters.types),
+    excludeTypes: union(merged.excludeTypes, filters.excludeTypes),
+    genres: union(merged.genres, filters.genres),
+    excludeGenres: union(merged.excludeGenres, filters.excludeGenres),
+    themes: union(merged.themes, filters.tags),
+    excludeThemes: union(merged.excludeThemes, filters.excludeTags),
+    includeWarnings: union(merged.includeWarnings, filters.includeWarnings),
+    excludeWarnings: union(merged.excludeWarnings, filters.excludeWarnings),
+    demographics: union(merged.demographics, filters.demographics),
+    status: filters.status ?? merged.status,
+    contentRating: filters.contentRating ?? merged.contentRating,
+    source: filters.source ?? merged.source,
+    originalLanguage: filters.originalLanguage ?? merged.originalLanguage,
+    translatedLanguage: filters.translatedLanguage ?? merged.translatedLanguage,
+    chapters: filters.chapters ? filters.chapters.min : merged.chapters,
+    chaptersMax: filters.chapters ? filters.chapters.max : merged.chaptersMax,
+    ratingMin: filters.rating ? filters.rating.min : merged.ratingMin,
+    ratingMax: filters.rating ? filters.rating.max : merged.ratingMax,
+    yearFrom: filters.year ? filters.year.min : merged.yearFrom,
+    yearTo: filters.year ? filters.year.max : merged.yearTo,
+  };
+}
+
+/** BrowseFilters for a validated CanonicalFilter (search route params, saved filters) */
+export function browseFiltersFromCanonical(filter: CanonicalFilter, source: string | null): BrowseFilters {
+  const from = filter.releasePeriod?.from ? new Date(filter.releasePeriod.from) : null;
+  const to = filter.releasePeriod?.to ? new Date(filter.releasePeriod.to) : null;
+
+  return {
+    q: filter.q,
+    types: filter.type.map(t => t.toLowerCase()),
+    genres: filter.genres,
+    themes: union(filter.tags, filter.themes),
+    includeWarnings: filter.contentWarnings.include,
+    excludeWarnings: filter.contentWarnings.exclude,
+    status: filter.publicationStatus[0]?.toLowerCase() ?? null,
+    contentRating: filter.contentRating[0]?.toLowerCase() ?? null,
+    source,
+    period: from && to ? 'custom' : null,
+    dateFrom: from,
+    dateTo: to,
+    chapters: filter.chapterCount?.min ?? null,
+    originalLanguage: filter.languages.original ?? null,
+    translatedLanguage: filter.languages.translated[0] ?? null,
+    excludeTypes: filter.excludeTypes ?? [],
+    excludeGenres: filter.excludeGenres ?? [],
+    excludeThemes: filter.excludeTags ?? [],
+    demographics: filter.demographics ?? [],
+    chaptersMax: filter.chapterCount?.max ?? null,
+    ratingMin: filter.rating?.min ?? null,
+    ratingMax: filter.rating?.max ?? null,
+    yearFrom: filter.year?.min ?? null,
+    yearTo: filter.year?.max ?? null,
+    discoveredAfter: null,
+    discoveredBefore: null,
+  };
+}
+
+const toRange = (range: NumericRange | null) =>
+  range ? { ...(range.min !== null ? { min: range.min } : {}), ...(range.max !== null ? { max: range.max } : {}) } : undefined;
+
+/** SavedFilter.filter_payload for a parsed query */
+export function searchQueryToFilter(parsed: ParsedSearchQuery): CanonicalFilter {
+  const { filters } = parsed;
+  return FilterSchema.parse({
+    q: parsed.text || null,
+    type: filters.types,
+    genres: filters.genres,
+    tags: filters.tags,
+    contentWarnings: { include: filters.includeWarnings, exclude: filters.excludeWarnings },
+    publicationStatus: filters.status ? [filters.status] : [],
+    contentRating: filters.contentRating ? [filters.contentRating] : [],
+    readableOn: filters.source ? [filters.source] : [],
+    languages: {
+      ...(filters.originalLanguage ? { original: filters.originalLanguage } : {}),
+      translated: filters.translatedLanguage ? [filters.translatedLanguage] : [],
+    },
+    ...(filters.excludeTypes.length > 0 ? { excludeTypes: filters.excludeTypes } : {}),
+    ...(filters.excludeGenres.length > 0 ? { excludeGenres: filters.excludeGenres } : {}),
+    ...(filters.excludeTags.length > 0 ? { excludeTags: filters.excludeTags } : {}),
+    ...(filters.demographics.length > 0 ? { demographics: filters.demographics } : {}),
+    chapterCount: toRange(filters.chapters),
+    rating: toRange(filters.rating),
+    year: toRange(filters.year),
+    ...(filters.sort ? { sortBy: filters.sort } : {}),
+  });
+}
+
+function quoteValue(value: string): string {
+  const clean = value.replace(/"/g, '');
+  return /[\s,]/.test(clean) ? `"${clean}"` : clean;
+}
+
+function formatRange(range: { min?: number; max?: number } | undefined): string | null {
+  if (!range || (range.min === undefined && range.max === undefined)) return null;
+  if (range.min !== undefined && range.max !== undefined) {
+    return range.min === range.max ? String(range.min) : `${range.min}..${range.max}`;
+  }
+  return range.min !== undefined ? `>=${range.min}` : `<=${range.max}`;
+}
+
+/** Query string for a SavedFilter.filter_payload; parses back to the same filter */
+export function filterToSearchQuery(filter: CanonicalFilter): string {
+  const parts: string[] = [];
+  const add = (key: string, values: string[] | undefined, negated = false) => {
+    for (const value of values ?? []) parts.push(`${negated ? '-' : ''}${key}:${quoteValue(value.toLowerCase())}`);
+  };
+
+  add('type', filter.type);
+  add('type', filter.excludeTypes, true);
+  add('genre', filter.genres);
+  add('genre', filter.excludeGenres, true);
+  add('tag', union(filter.tags, filter.themes));
+  add('tag', filter.excludeTags, true);
+  add('warning', filter.contentWarnings.include);
+  add('warning', filter.contentWarnings.exclude, true);
+  add('demographic', filter.demographics);
+  add('status', filter.publicationStatus.slice(0, 1));
+  add('content', filter.contentRating.slice(0, 1));
+  add('source', filter.readableOn.slice(0, 1));
+  add('lang', filter.languages.original ? [filter.languages.original] : []);
+  add('tlang', filter.languages.translated.slice(0, 1));
+
+  const ranges: Array<[string, string | null]> = [
+    ['chapters', formatRange(filter.chapterCount)],
+    ['rating', formatRange(filter.rating)],
+    ['year', formatRange(filter.year)],
+  ];
+  for (const [key, range] of ranges) {
+    if (range) parts.push(`${key}:${range}`);
+  }
+
+  if (filter.sortBy !== 'latest_chapter') parts.push(`sort:${filter.sortBy}`);
+  if (filter.q) parts.unshift(filter.q);
+
+  return parts.join(' ');
+}
+
+/**
+ * Autocomplete for the term being typed (the end of `input`): keys while
+ * there's no colon, then values from constants/filters for that key.
+ */
+export function suggestSearchQuery(input: string, limit: number = 10): SearchQuerySuggestion[] {
+  const current = input.match(TERM_UNDER_CURSOR);
+  if (!current) return [];
+
+  const [, negation, name, quotedPartial, plainPartial] = current;
+  const partial = quotedPartial ?? plainPartial;
+  const startsWith = (value: string, prefix: string) => value.toLowerCase().startsWith(prefix.toLowerCase());
+
+  if (partial === undefined) {
+    return Object.entries(KEYS)
+      .filter(([key, definition]) => startsWith(key, name) && (negation !== '-' || (definition.kind === 'list' && definition.negatable)))
+      .slice(0, limit)
+      .map(([key, definition]) => ({
+        type: 'key' as const,
+        label: `${negation}${key}:`,
+        insertText: `${negation}${key}:`,
+        description: definition.description,
+      }));
+  }
+
+  const key = resolveKey(name);
+  if (!key) return [];
+  const definition = KEYS[key];
+
+  if (definition.kind === 'range') {
+    return definition.examples
+      .filter(example => startsWith(example, partial))
+      .map(example => ({ type: 'value' as const, label: example, insertText: `${key}:${example}`, description: definition.description }));
+  }
+
+  const options = definition.options as readonly Option[];
+  const prefixMatches = options.filter(option => startsWith(option.value, partial) || startsWith(option.label, partial));
+  const containsMatches = options.filter(option =>
+    !prefixMatches.includes(option) && option.label.toLowerCase().includes(partial.toLowerCase())
+  );
+
+  return [...prefixMatches, ...containsMatches].slice(0, limit).map(option => ({
+    type: 'value' as const,
+    label: option.label,
+    insertText: `${negation}${key}:${quoteValue(option.value.toLowerCase())}`,
+    description: definition.description,
+  }));
+}
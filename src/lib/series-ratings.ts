@@ -0,0 +1,128 @@
+import { Prisma } from '@prisma/client';
+import { prisma, TransactionClient } from './prisma';
+import { bayesianRating, RATING_PRIOR_MEAN } from './ratings';
+import { logger } from './logger';
+
+/**
+ * Series rating aggregates, derived from LibraryEntry.user_rating (canonical
+ * 0–100). Series.average_rating is the Bayesian average on a 0–10 scale with
+ * the MangaDex rating (Series.external_rating) as the prior, so series
+ * nobody here has rated keep showing the MangaDex score. The 1–10
+ * distribution is written to Series.rating_distribution and, when the series
+ * already has one, its SeriesStat row.
+ */
+
+export interface RatingBucketRow {
+  bucket: number;
+  count: number;
+  total: number;
+}
+
+export interface SeriesRatingSummary {
+  average_rating: number | null;
+  rating_count: number;
+  distribution: Record<string, number>;
+}
+
+export function summarizeSeriesRatings(
+  buckets: RatingBucketRow[],
+  externalRating: number | null
+): SeriesRatingSummary {
+  const distribution: Record<string, number> = {};
+  for (let bucket = 1; bucket <= 10; bucket++) distribution[bucket] = 0;
+
+  let count = 0;
+  let total = 0;
+  for (const row of buckets) {
+    distribution[row.bucket] = (distribution[row.bucket] || 0) + row.count;
+    count += row.count;
+    total += row.total;
+  }
+
+  let average: number | null = null;
+  if (count > 0) {
+    const priorMean = externalRating !== null ? externalRating * 10 : RATING_PRIOR_MEAN;
+    average = Math.round(bayesianRating(total, count, priorMean) * 10) / 100;
+  } else if (externalRating !== null) {
+    average = externalRating;
+  }
+
+  return { average_rating: average, rating_count: count, distribution };
+}
+
+export async function recalculateSeriesRating(
+  seriesId: string,
+  db: TransactionClient = prisma
+): Promise<SeriesRatingSummary | null> {
+  const [buckets, series] = await Promise.all([
+    db.$queryRaw<RatingBucketRow[]>`
+      SELECT LEAST(10, GREATEST(1, ROUND(user_rating / 10.0)))::int AS bucket,
+             COUNT(*)::int AS count,
+             SUM(user_rating)::int AS total
+      FROM library_entries
+      WHERE series_id = ${seriesId}::uuid
+        AND user_rating IS NOT NULL
+        AND deleted_at IS NULL
+      GROUP BY 1
+    `,
+    db.series.findUnique({
+      where: { id: seriesId },
+      select: { external_rating: true },
+    }),
+  ]);
+
+  if (!series) return null;
+
+  const summary = summarizeSeriesRatings(
+    buckets,
+    series.external_rating !== null ? Number(series.external_rating) : null
+  );
+
+  await db.series.update({
+    where: { id: seriesId },
+    data: {
+      average_rating: summary.average_rating,
+      rating_count: summary.rating_count,
+      rating_distribution: summary.distribution as Prisma.InputJsonValue,
+    },
+  });
+
+  await db.seriesStat.updateMany({
+    where: { series_id: seriesId },
+    data: {
+      total_ratings: summary.rating_count,
+      rating_1: summary.distribution[1],
+      rating_2: summary.distribution[2],
+      rating_3: summary.distribution[3],
+      rating_4: summary.distribution[4],
+      rating_5: summary.distribution[5],
+      rating_6: summary.distribution[6],
+      rating_7: summary.distribution[7],
+      rating_8: summary.distribution[8],
+      rating_9: summary.distribution[9],
+      rating_10: summary.distribution[10],
+      updated_at: new Date(),
+    },
+  });
+
+  return summary;
+}
+
+/**
+ * Recalculates several series one after another, outside of the request's
+ * critical path. Failures are logged; a stale average fixes itself on the
+ * next rating change.
+ */
+export async function recalculateSeriesRatings(seriesIds: Iterable<string | null | undefined>): Promise<void> {
+  for (const seriesId of new Set(seriesIds)) {
+    if (!seriesId) continue;
+    try {
+      await recalculateSeriesRating(seriesId);
+    } catch (error: unknown) {
+      logger.error('[SeriesRatings] Failed to recalculate series rating', {
+        seriesId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+}
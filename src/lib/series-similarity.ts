@@ -0,0 +1,372 @@
+import { createHash } from 'crypto';
+import { Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+import { logger } from './logger';
+import { isBlockedContent } from './constants/safe-browsing';
+import {
+  buildContentDocument,
+  scoreSimilarity,
+  topTerms,
+  type ContentDocument,
+  type CorpusStats,
+  type SimilarityScore,
+} from './search/content-similarity';
+
+/**
+ * "More like this" storage.
+ *
+ * series_content_index keeps one ContentDocument per series together with a
+ * hash of it; series_similarities keeps the top SIMILAR_SERIES_LIMIT matches
+ * per series. refreshSimilarityIndex (similarity index scheduler) re-indexes
+ * series whose metadata changed since they were last indexed, recomputes
+ * their neighbours and offers them to their neighbours' lists, so the index
+ * is maintained incrementally instead of rebuilt.
+ */
+
+/** Neighbours stored per series */
+export const SIMILAR_SERIES_LIMIT = 20;
+
+/** Series indexed longer ago than this get their neighbours recomputed even if they didn't change */
+export const SIMILARITY_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+const MIN_SCORE = 0.05;
+const CANDIDATE_LIMIT = 500;
+const CANDIDATE_TERMS = 25;
+const REFRESH_BATCH_SIZE = 200;
+const MAX_BATCHES_PER_RUN = 5;
+
+const CONTENT_SELECT = {
+  id: true,
+  description: true,
+  genres: true,
+  tags: true,
+  themes: true,
+  demographic: true,
+} as const;
+
+export interface SimilarSeriesMatch extends SimilarityScore {
+  series_id: string;
+}
+
+interface IndexedDocumentRow {
+  series_id: string;
+  terms: Prisma.JsonValue;
+  doc_length: number;
+  labels: string[];
+}
+
+function toDocument(row: IndexedDocumentRow): ContentDocument {
+  const terms = row.terms && typeof row.terms === 'object' && !Array.isArray(row.terms)
+    ? (row.terms as Record<string, number>)
+    : {};
+  return { terms, length: row.doc_length, labels: row.labels };
+}
+
+export function documentHash(document: ContentDocument): string {
+  const terms = Object.entries(document.terms).sort(([a], [b]) => a.localeCompare(b));
+  return createHash('sha256').update(JSON.stringify({ terms, labels: document.labels })).digest('hex');
+}
+
+/** Corpus size, average length and document frequencies of the given terms */
+async function loadCorpusStats(terms: string[]): Promise<CorpusStats> {
+  const [totals, frequencies] = await Promise.all([
+    prisma.$queryRaw<Array<{ documents: bigint; average_length: number | null }>>`
+      SELECT COUNT(*) AS documents, AVG(doc_length)::float8 AS average_length
+      FROM series_content_index
+    `,
+    terms.length > 0
+      ? prisma.$queryRaw<Array<{ term: string; documents: bigint }>>`
+          SELECT t.term, (SELECT COUNT(*) FROM series_content_index ci WHERE ci.terms ? t.term) AS documents
+          FROM unnest(${terms}::text[]) AS t(term)
+        `
+      : Promise.resolve([]),
+  ]);
+
+  return {
+    documentCount: Math.max(1, Number(totals[0]?.documents ?? 0)),
+    averageLength: Number(totals[0]?.average_length ?? 0),
+    documentFrequency: new Map(frequencies.map(row => [row.term, Math.max(1, Number(row.documents))])),
+  };
+}
+
+/**
+ * Scores `document` against indexed series sharing a label or one of its top
+ * description terms and returns the best matches, best first.
+ */
+export async function computeSimilarSeries(
+  seriesId: string,
+  document: ContentDocument,
+  limit: number = SIMILAR_SERIES_LIMIT
+): Promise<SimilarSeriesMatch[]> {
+  const terms = topTerms(document, CANDIDATE_TERMS);
+  if (terms.length === 0 && document.labels.length === 0) return [];
+
+  const [candidates, stats] = await Promise.all([
+    prisma.$queryRaw<IndexedDocumentRow[]>`
+      SELECT ci.series_id, ci.terms, ci.doc_length, ci.labels
+      FROM series_content_index ci
+      JOIN series s ON s.id = ci.series_id
+      WHERE ci.series_id <> ${seriesId}::uuid
+        AND s.deleted_at IS NULL
+        AND (ci.labels && ${document.labels}::text[] OR ci.terms ?| ${terms}::text[])
+      ORDER BY
+        cardinality(ARRAY(SELECT unnest(ci.labels) INTERSECT SELECT unnest(${document.labels}::text[])))
+          + (SELECT COUNT(*) FROM unnest(${terms}::text[]) AS t(term) WHERE ci.terms ? t.term) DESC,
+        s.total_follows DESC
+      LIMIT ${CANDIDATE_LIMIT}
+    `,
+    loadCorpusStats(Object.keys(document.terms)),
+  ]);
+
+  return candidates
+    .map(candidate => ({ series_id: candidate.series_id, ...scoreSimilarity(document, toDocument(candidate), stats) }))
+    .filter(match => match.score >= MIN_SCORE)
+    .sort((a, b) => b.score - a.score || a.series_id.localeCompare(b.series_id))
+    .slice(0, limit);
+}
+
+/** Replaces a series' neighbour list and offers the series to each neighbour's list */
+async function storeSimilarSeries(seriesId: string, matches: SimilarSeriesMatch[], now: Date): Promise<void> {
+  await prisma.$transaction([
+    prisma.seriesSimilarity.deleteMany({ where: { series_id: seriesId } }),
+    prisma.seriesSimilarity.createMany({
+      data: matches.map(match => ({
+        series_id: seriesId,
+        similar_series_id: match.series_id,
+        score: match.score,
+        text_score: match.text_score,
+        label_score: match.label_score,
+        computed_at: now,
+      })),
+    }),
+  ]);
+
+  if (matches.length === 0) return;
+
+  // Reverse rows carry this side's score until the neighbour's own list is
+  // recomputed; lists are then trimmed back to SIMILAR_SERIES_LIMIT.
+  const neighbourIds = matches.map(match => match.series_id);
+  await prisma.$executeRaw`
+    INSERT INTO series_similarities (series_id, similar_series_id, score, text_score, label_score, computed_at)
+    SELECT m.series_id, ${seriesId}::uuid, m.score, m.text_score, m.label_score, ${now}
+    FROM unnest(
+      ${neighbourIds}::uuid[],
+      ${matches.map(match => match.score)}::float8[],
+      ${matches.map(match => match.text_score)}::float8[],
+      ${matches.map(match => match.label_score)}::float8[]
+    ) AS m(series_id, score, text_score, label_score)
+    ON CONFLICT (series_id, similar_series_id) DO UPDATE SET
+      score = EXCLUDED.score,
+      text_score = EXCLUDED.text_score,
+      label_score = EXCLUDED.label_score,
+      computed_at = EXCLUDED.computed_at
+  `;
+  await prisma.$executeRaw`
+    DELETE FROM series_similarities ss
+    USING (
+      SELECT series_id, similar_series_id,
+        ROW_NUMBER() OVER (PARTITION BY series_id ORDER BY score DESC, similar_series_id) AS rank
+      FROM series_similarities
+      WHERE series_id = ANY(${neighbourIds}::uuid[])
+    ) ranked
+    WHERE ss.series_id = ranked.series_id
+      AND ss.similar_series_id = ranked.similar_series_id
+      AND ranked.rank > ${SIMILAR_SERIES_LIMIT}
+  `;
+}
+
+export interface SimilarityRefreshResult {
+  indexed: number;
+  unchanged: number;
+  recomputed: number;
+  failed: number;
+  removed: number;
+}
+
+/**
+ * Indexes series that are new or were updated since they were last indexed
+ * and recomputes neighbours for the ones whose document changed or that were
+ * last indexed more than SIMILARITY_MAX_AGE_MS ago. A batch is indexed before
+ * any neighbours are computed so series in the same batch can match each other.
+ */
+export async function refreshSimilarityIndex(now: Date = new Date()): Promise<SimilarityRefreshResult> {
+  const result: SimilarityRefreshResult = { indexed: 0, unchanged: 0, recomputed: 0, failed: 0, removed: 0 };
+  const expiredBefore = new Date(now.getTime() - SIMILARITY_MAX_AGE_MS);
+
+  result.removed = await prisma.$executeRaw`
+    DELETE FROM series_content_index ci
+    USING series s
+    WHERE s.id = ci.series_id AND s.deleted_at IS NOT NULL
+  `;
+  if (result.removed > 0) {
+    await prisma.$executeRaw`
+      DELETE FROM series_similarities ss
+      USING series s
+      WHERE s.id = ss.similar_series_id AND s.deleted_at IS NOT NULL
+    `;
+  }
+
+  for (let batch = 0; batch < MAX_BATCHES_PER_RUN; batch++) {
+    const stale = await prisma.$queryRaw<Array<{ id: string; document_hash: string | null; expired: boolean }>>`
+      SELECT s.id, ci.document_hash, COALESCE(ci.indexed_at < ${expiredBefore}, false) AS expired
+      FROM series s
+      LEFT JOIN series_content_index ci ON ci.series_id = s.id
+      WHERE s.deleted_at IS NULL
+        AND (ci.series_id IS NULL OR s.updated_at > ci.indexed_at OR ci.indexed_at < ${expiredBefore})
+      ORDER BY s.updated_at ASC, s.id ASC
+      LIMIT ${REFRESH_BATCH_SIZE}
+    `;
+    if (stale.length === 0) break;
+
+    const series = await prisma.series.findMany({
+      where: { id: { in: stale.map(row => row.id) } },
+      select: CONTENT_SELECT,
+    });
+    const staleById = new Map(stale.map(row => [row.id, row]));
+    const changed: Array<{ id: string; document: ContentDocument }> = [];
+
+    for (const item of series) {
+      const document = buildContentDocument(item);
+      const hash = documentHash(document);
+      const previous = staleById.get(item.id);
+      try {
+        if (previous?.document_hash === hash && !previous.expired) {
+          await prisma.seriesContentIndex.update({ where: { series_id: item.id }, data: { indexed_at: now } });
+          result.unchanged++;
+          continue;
+        }
+        const data = { terms: document.terms, doc_length: document.length, labels: document.labels, document_hash: hash, indexed_at: now };
+        await prisma.seriesContentIndex.upsert({
+          where: { series_id: item.id },
+          create: { series_id: item.id, ...data },
+          update: data,
+        });
+        result.indexed++;
+        changed.push({ id: item.id, document });
+      } catch (error: unknown) {
+        result.failed++;
+        logger.error('[SimilarityIndex] Failed to index series', {
+          seriesId: item.id,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    for (const { id, document } of changed) {
+      try {
+        await storeSimilarSeries(id, await computeSimilarSeries(id, document), now);
+        result.recomputed++;
+      } catch (error: unknown) {
+        result.failed++;
+        logger.error('[SimilarityIndex] Failed to compute similar series', {
+          seriesId: id,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    if (stale.length < REFRESH_BATCH_SIZE) break;
+  }
+
+  return result;
+}
+
+export interface SimilarSeries {
+  id: string;
+  title: string;
+  cover_url: string | null;
+  type: string;
+  status: string | null;
+  content_rating: string | null;
+  genres: string[];
+  average_rating: number | null;
+  total_follows: number;
+  score: number;
+  text_score: number;
+  label_score: number;
+}
+
+export interface SimilarSeriesLookup {
+  /** 'index' when served from series_similarities, 'live' when computed on request */
+  source: 'index' | 'live';
+  results: SimilarSeries[];
+}
+
+const SERIES_CARD_SELECT = {
+  id: true,
+  title: true,
+  cover_url: true,
+  type: true,
+  status: true,
+  content_rating: true,
+  genres: true,
+  average_rating: true,
+  total_follows: true,
+} as const;
+
+/**
+ * Similar series for the series page, best first. Series that haven't been
+ * indexed yet are scored live against the index without writing anything.
+ * Returns null when the series doesn't exist.
+ */
+export async function getSimilarSeries(seriesId: string, limit: number): Promise<SimilarSeriesLookup | null> {
+  const stored = await prisma.seriesSimilarity.findMany({
+    where: {
+      series_id: seriesId,
+      series_series_similarities_series_idToseries: { deleted_at: null },
+      series_series_similarities_similar_series_idToseries: { deleted_at: null },
+    },
+    orderBy: [{ score: 'desc' }, { similar_series_id: 'asc' }],
+    take: SIMILAR_SERIES_LIMIT,
+    select: {
+      score: true,
+      text_score: true,
+      label_score: true,
+      series_series_similarities_similar_series_idToseries: { select: SERIES_CARD_SELECT },
+    },
+  });
+
+  let source: SimilarSeriesLookup['source'] = 'index';
+  let matches: Array<SimilarityScore & { series: Prisma.SeriesGetPayload<{ select: typeof SERIES_CARD_SELECT }> }>;
+
+  if (stored.length > 0) {
+    matches = stored.map(row => ({
+      score: row.score,
+      text_score: row.text_score,
+      label_score: row.label_score,
+      series: row.series_series_similarities_similar_series_idToseries,
+    }));
+  } else {
+    const series = await prisma.series.findFirst({
+      where: { id: seriesId, deleted_at: null },
+      select: CONTENT_SELECT,
+    });
+    if (!series) return null;
+
+    source = 'live';
+    const live = await computeSimilarSeries(seriesId, buildContentDocument(series));
+    const rows = await prisma.series.findMany({
+      where: { id: { in: live.map(match => match.series_id) }, deleted_at: null },
+      select: SERIES_CARD_SELECT,
+    });
+    const rowsById = new Map(rows.map(row => [row.id, row]));
+    matches = live.flatMap(match => {
+      const row = rowsById.get(match.series_id);
+      return row ? [{ score: match.score, text_score: match.text_score, label_score: match.label_score, series: row }] : [];
+    });
+  }
+
+  return {
+    source,
+    results: matches
+      .filter(match => !isBlockedContent(match.series.content_rating))
+      .slice(0, limit)
+      .map(match => ({
+        ...match.series,
+        average_rating: match.series.average_rating !== null ? Number(match.series.average_rating) : null,
+        score: match.score,
+        text_score: match.text_score,
+        label_score: match.label_score,
+      })),
+  };
+}
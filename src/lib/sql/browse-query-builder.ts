@@ -17,6 +17,19 @@ export interface BrowseFilters {
   chapters: number | null
   originalLanguage: string | null
   translatedLanguage: string | null
+  // Filters only the search query language can express (lib/search/query-language)
+  excludeTypes: string[]
+  excludeGenres: string[]
+  excludeThemes: string[]
+  demographics: string[]
+  chaptersMax: number | null
+  ratingMin: number | null
+  ratingMax: number | null
+  yearFrom: number | null
+  yearTo: number | null
+  // Series created or promoted to a new catalog tier in (after, before] (saved filter alerts)
+  discoveredAfter: Date | null
+  discoveredBefore: Date | null
 }
 
 export interface BrowseQueryResult {
@@ -43,6 +56,61 @@ function escapeArrayValues(values: string[]): string {
   return values.map(v => `'${escapePostgresString(v)}'`).join(',')
 }
 
+export type ExtendedBrowseFilters = Pick<BrowseFilters,
+  'excludeTypes' | 'excludeGenres' | 'excludeThemes' | 'demographics' |
+  'chaptersMax' | 'ratingMin' | 'ratingMax' | 'yearFrom' | 'yearTo' |
+  'discoveredAfter' | 'discoveredBefore'>
+
+/**
+ * Exclusions and ranges from the search query language, and the discovery
+ * window for saved filter alerts. Appends to
+ * `conditions`/`params` and returns the next parameter index.
+ */
+function appendExtendedConditions(
+  filters: ExtendedBrowseFilters,
+  conditions: string[],
+  params: any[],
+  startParamIndex: number
+): number {
+  let paramIndex = startParamIndex
+  const push = (sql: string, value: unknown) => {
+    conditions.push(sql.replace(/\$n/g, () => `$${paramIndex}`))
+    params.push(value)
+    paramIndex++
+  }
+
+  if (filters.excludeTypes.length > 0) push('NOT (s.type = ANY($n::varchar[]))', filters.excludeTypes)
+  if (filters.excludeGenres.length > 0) push('NOT (COALESCE(s.genres, \'{}\') && $n::varchar[])', filters.excludeGenres)
+  if (filters.excludeThemes.length > 0) {
+    push('NOT (COALESCE(s.tags, \'{}\') && $n::varchar[] OR COALESCE(s.themes, \'{}\') && $n::varchar[])', filters.excludeThemes)
+  }
+  if (filters.demographics.length > 0) push('s.demographic = ANY($n::varchar[])', filters.demographics)
+  if (filters.chaptersMax !== null) push('COALESCE(s.chapter_count, 0) <= $n', filters.chaptersMax)
+  if (filters.ratingMin !== null) push('s.average_rating >= $n', filters.ratingMin)
+  if (filters.ratingMax !== null) push('s.average_rating <= $n', filters.ratingMax)
+  if (filters.yearFrom !== null) push('s.year >= $n', filters.yearFrom)
+  if (filters.yearTo !== null) push('s.year <= $n', filters.yearTo)
+
+  // A series is discovered when it's created or promoted to a new tier. Each
+  // column is compared on its own so idx_series_created_at and
+  // idx_series_tier_promoted_at can both be used.
+  const bounds: string[] = []
+  if (filters.discoveredAfter !== null) {
+    bounds.push(`> $${paramIndex++}`)
+    params.push(filters.discoveredAfter)
+  }
+  if (filters.discoveredBefore !== null) {
+    bounds.push(`<= $${paramIndex++}`)
+    params.push(filters.discoveredBefore)
+  }
+  if (bounds.length > 0) {
+    const within = (column: string) => bounds.map(bound => `${column} ${bound}`).join(' AND ')
+    conditions.push(`((${within('s.created_at')}) OR (${within('s.tier_promoted_at')}))`)
+  }
+
+  return paramIndex
+}
+
 export function buildBrowseQuery(
   filters: BrowseFilters,
   sortConfig: PaginationConfig,
@@ -56,7 +124,8 @@ export function buildBrowseQuery(
   } = filters
   const { sortColumn, ascending, nullsFirst } = sortConfig
 
-  const conditions: string[] = ['s.deleted_at IS NULL']
+  // CRITICAL: Always exclude pornographic content (platform policy)
+  const conditions: string[] = ['s.deleted_at IS NULL', "s.content_rating IS DISTINCT FROM 'pornographic'"]
   const params: any[] = []
   let paramIndex = 1
 
@@ -78,7 +147,8 @@ export function buildBrowseQuery(
     s.created_at,
     s.updated_at,
     s.themes,
-    s.chapter_count
+    s.chapter_count,
+    s.last_chapter_date
   `
 
   if (source && source !== 'all' && source !== 'multiple') {
@@ -174,6 +244,12 @@ export function buildBrowseQuery(
     paramIndex++
   }
 
+  paramIndex = appendExtendedConditions(filters, conditions, params, paramIndex)
+
+  // Everything before the cursor condition also applies to the total count
+  const filterConditions = [...conditions]
+  const filterParams = [...params]
+
   if (cursor) {
     const cursorCondition = buildCursorConditionSQL(cursor, sortConfig, paramIndex)
     if (cursorCondition.sql) {
@@ -208,32 +284,17 @@ LIMIT ${limit + 1}
     countSelect = 'COUNT(DISTINCT s.id)'
   }
 
-  const countConditions = conditions.filter((_, i) => {
-    return !conditions[i]?.includes('s.created_at') && 
-           !conditions[i]?.includes('s.updated_at') &&
-           !conditions[i]?.includes('s.total_follows') &&
-           !conditions[i]?.includes('s.average_rating') &&
-           !conditions[i]?.includes('s.title <') &&
-           !conditions[i]?.includes('s.title >') &&
-           !conditions[i]?.includes('s.id <') &&
-           !conditions[i]?.includes('s.id >')
-  })
-
-  const countWhereClause = countConditions.length > 0 ? `WHERE ${countConditions.join(' AND ')}` : whereClause.replace(/AND \([\s\S]*?(s\.\w+ [<>]|s\.id [<>])[\s\S]*?\)/g, '')
-
   const countSql = `
 SELECT ${countSelect} AS total
 ${countFromClause}
-${countWhereClause}
+WHERE ${filterConditions.join(' AND ')}
   `.trim()
 
-  const countParams = params.slice(0, paramIndex - (cursor ? cursor.v !== null ? 2 : 1 : 0))
-
   return {
     sql,
     params,
     countSql,
-    countParams: countParams.length > 0 ? countParams : params.slice(0, conditions.length - (cursor ? 1 : 0))
+    countParams: filterParams
   }
 }
 
@@ -250,7 +311,8 @@ export function buildMultipleSourcesQuery(
   } = filters
   const { sortColumn, ascending } = sortConfig
 
-  const conditions: string[] = ['s.deleted_at IS NULL']
+  // CRITICAL: Always exclude pornographic content (platform policy)
+  const conditions: string[] = ['s.deleted_at IS NULL', "s.content_rating IS DISTINCT FROM 'pornographic'"]
   const params: any[] = []
   let paramIndex = 1
 
@@ -271,7 +333,8 @@ export function buildMultipleSourcesQuery(
     s.created_at,
     s.updated_at,
     s.themes,
-    s.chapter_count
+    s.chapter_count,
+    s.last_chapter_date
   `
 
   // QA FIX BUG-003: Add source_status = 'active' filter to exclude disabled/broken sources
@@ -357,6 +420,12 @@ export function buildMultipleSourcesQuery(
     paramIndex++
   }
 
+  paramIndex = appendExtendedConditions(filters, conditions, params, paramIndex)
+
+  // Everything before the cursor condition also applies to the total count
+  const filterConditions = [...conditions]
+  const filterParams = [...params]
+
   if (cursor) {
     const cursorCondition = buildCursorConditionSQL(cursor, sortConfig, paramIndex)
     if (cursorCondition.sql) {
@@ -385,36 +454,17 @@ ${orderClause}
 LIMIT ${limit + 1}
   `.trim()
 
-  const countConditions = conditions.filter((_, i) => {
-    const cond = conditions[i]
-    return !cond?.includes('s.created_at <') && 
-           !cond?.includes('s.created_at >') &&
-           !cond?.includes('s.updated_at <') &&
-           !cond?.includes('s.updated_at >') &&
-           !cond?.includes('s.total_follows <') &&
-           !cond?.includes('s.total_follows >') &&
-           !cond?.includes('s.average_rating <') &&
-           !cond?.includes('s.average_rating >') &&
-           !cond?.includes('s.title <') &&
-           !cond?.includes('s.title >') &&
-           !cond?.includes('(s.id <') &&
-           !cond?.includes('(s.id >')
-  })
-
-  const countWhereClause = `WHERE ${countConditions.join(' AND ')}`
-  const countParams = params.slice(0, paramIndex - (cursor ? cursor.v !== null ? 2 : 1 : 0))
-
   const countSql = `
 SELECT COUNT(*) AS total
 FROM series s
-${countWhereClause}
+WHERE ${filterConditions.join(' AND ')}
   `.trim()
 
   return {
     sql,
     params,
     countSql,
-    countParams: countParams.length > 0 ? countParams : []
+    countParams: filterParams
   }
 }
 
@@ -25,6 +25,7 @@ const PUBLIC_PAGE_PATHS = [
   '/onboarding',
   '/browse',
   '/series',
+  '/lists/', // Shared list pages; /lists itself is the owner's dashboard
   '/dmca',
 ] as const;
 
@@ -37,6 +38,9 @@ const PUBLIC_API_PATHS = [
   '/api/proxy/check-url',
   '/api/series/', // Series info and chapters should be viewable without auth
   '/api/dmca',
+  '/api/email/', // Signed unsubscribe links and provider event callbacks carry their own auth
+  '/api/feeds/', // Feed readers authenticate with the secret token in the URL
+  '/api/openapi.json',
 ] as const;
 
 function isPublicPagePath(pathname: string): boolean {
@@ -47,6 +51,31 @@ function isPublicApiPath(pathname: string): boolean {
   return PUBLIC_API_PATHS.some(path => pathname.startsWith(path));
 }
 
+// Routes that call getMiddlewareUser({ scope }) and so verify personal
+// access tokens themselves. Keep in sync with the OpenAPI document.
+const BEARER_API_PATHS = [
+  /^\/api\/library$/,
+  /^\/api\/library\/tags$/,
+  /^\/api\/library\/release-calendar$/,
+  /^\/api\/library\/[^/]+\/progress$/,
+  /^\/api\/scrobble$/,
+  /^\/api\/feed\/updates$/,
+  /^\/api\/feed\/activity$/,
+] as const;
+
+// Same shape as TOKEN_PATTERN in lib/api-tokens (not imported: that module pulls in Prisma)
+const API_TOKEN_HEADER = /^bearer\s+mtp_[A-Za-z0-9_-]{43}$/i;
+
+/**
+ * API clients using a personal access token send no session cookie. They are
+ * let through only on token-enabled routes, where the handler verifies the
+ * token and its scope.
+ */
+function hasApiTokenBearer(request: NextRequest, pathname: string): boolean {
+  return BEARER_API_PATHS.some(path => path.test(pathname)) &&
+    API_TOKEN_HEADER.test((request.headers.get('authorization') || '').trim());
+}
+
 /**
  * Fast-path check for Supabase auth cookies.
  * Supabase stores auth in cookies named: sb-{project-ref}-auth-token
@@ -77,7 +106,7 @@ export async function updateSession(request: NextRequest): Promise<UpdateSession
     // Return early for public paths, or handle protected paths below
     
     // For public paths and homepage, just pass through with no user
-    if (isPublicPagePath(pathname) || pathname === '/' || isPublicApiPath(pathname)) {
+    if (isPublicPagePath(pathname) || pathname === '/' || isPublicApiPath(pathname) || hasApiTokenBearer(request, pathname)) {
       return { response: supabaseResponse, user: null };
     }
     
@@ -182,7 +211,7 @@ export async function updateSession(request: NextRequest): Promise<UpdateSession
 
     if (!user) {
       // For protected API routes, return 401 JSON response
-      if (isApiPath && !isPublicApiPath(pathname)) {
+      if (isApiPath && !isPublicApiPath(pathname) && !hasApiTokenBearer(request, pathname)) {
         const requestId = (typeof crypto !== 'undefined' && crypto.randomUUID)
           ? crypto.randomUUID().split('-')[0].toUpperCase()
           : Math.random().toString(36).substring(2, 10).toUpperCase();
@@ -196,7 +225,7 @@ export async function updateSession(request: NextRequest): Promise<UpdateSession
       }
 
     // For protected pages, redirect to login
-    if (!isPublicPagePath(pathname) && !isPublicApiPath(pathname) && pathname !== '/') {
+    if (!isApiPath && !isPublicPagePath(pathname) && pathname !== '/') {
       const url = request.nextUrl.clone()
       url.pathname = '/login'
       return {
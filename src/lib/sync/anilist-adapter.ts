@@ -0,0 +1,573 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { importQueue } from "@/lib/queues";
+import { logger } from "@/lib/logger";
+import { anilistScoreToCanonical } from "@/lib/ratings";
+import { recalculateSeriesRatings } from "@/lib/series-ratings";
+import { ImportEntry, STATUS_RANKS, reconcileEntry } from "./shared";
+
+/**
+ * AniList Sync Adapter
+ *
+ * Two-way progress sync between a user's LibraryEntry rows and their AniList
+ * manga list, over AniList's GraphQL API.
+ *
+ * - Pull: remote changes to series already in the library are applied in
+ *   place; AniList-only series are mapped to ImportEntry and fed through the
+ *   regular import pipeline (ImportJob -> processImportJob) for matching.
+ * - Push: local status/last_read_chapter changes are sent back as
+ *   SaveMediaListEntry mutations, with the rating as scoreRaw (AniList's
+ *   own 100-point scale, whatever format the AniList user displays). The
+ *   mutations are paced for AniList's rate limit, so they run as an
+ *   "anilist-push" job on the import queue rather than inside the request.
+ * - Ratings only fill gaps: a pulled score is applied to entries without a
+ *   rating, never over one.
+ * - Conflicts: both directions are evaluated with reconcileEntry(); if both
+ *   sides claim to be newer, furthest progress wins, then STATUS_RANKS.
+ *
+ * The endpoint is configurable (ANILIST_GRAPHQL_URL or options.endpoint) so
+ * tests can run against a local recorded stand-in instead of graphql.anilist.co.
+ */
+
+const DEFAULT_ANILIST_GRAPHQL_URL = "https://graphql.anilist.co";
+const ANILIST_TIMEOUT_MS = 15000;
+// AniList allows 90 requests/minute; stay comfortably under it when pushing
+const PUSH_INTERVAL_MS = 700;
+
+export const ANILIST_PUSH_JOB = "anilist-push";
+
+export type AniListMediaListStatus =
+  | "CURRENT"
+  | "PLANNING"
+  | "COMPLETED"
+  | "DROPPED"
+  | "PAUSED"
+  | "REPEATING";
+
+export interface AniListMediaListEntry {
+  id: number;
+  mediaId: number;
+  status: AniListMediaListStatus;
+  progress: number | null;
+  score: number | null;
+  /** score(format: POINT_100); absent from older recordings */
+  scoreRaw?: number | null;
+  updatedAt: number | null;
+  media: {
+    id: number;
+    title: { romaji: string | null; english: string | null; native: string | null };
+  };
+}
+
+export interface AniListClientOptions {
+  accessToken?: string;
+  endpoint?: string;
+  timeoutMs?: number;
+  /** Delay between SaveMediaListEntry mutations (default: 700ms) */
+  pushIntervalMs?: number;
+}
+
+export class AniListSyncError extends Error {
+  constructor(
+    message: string,
+    public status?: number,
+    public retryAfter?: number
+  ) {
+    super(message);
+    this.name = "AniListSyncError";
+  }
+}
+
+const VIEWER_QUERY = `
+  query {
+    Viewer { id name }
+  }
+`;
+
+const MANGA_LIST_QUERY = `
+  query ($userId: Int) {
+    MediaListCollection(userId: $userId, type: MANGA) {
+      lists {
+        entries {
+          id
+          mediaId
+          status
+          progress
+          score(format: POINT_10)
+          scoreRaw: score(format: POINT_100)
+          updatedAt
+          media { id title { romaji english native } }
+        }
+      }
+    }
+  }
+`;
+
+export const SAVE_MEDIA_LIST_ENTRY_MUTATION = `
+  mutation ($mediaId: Int, $status: MediaListStatus, $progress: Int, $scoreRaw: Int) {
+    SaveMediaListEntry(mediaId: $mediaId, status: $status, progress: $progress, scoreRaw: $scoreRaw) {
+      id
+      mediaId
+      status
+      progress
+      updatedAt
+    }
+  }
+`;
+
+function getEndpoint(options: AniListClientOptions): string {
+  return options.endpoint || process.env.ANILIST_GRAPHQL_URL || DEFAULT_ANILIST_GRAPHQL_URL;
+}
+
+/**
+ * Executes a single GraphQL request against AniList.
+ * Rate limits surface as AniListSyncError with retryAfter instead of sleeping,
+ * so callers running inside an API request can fail fast.
+ */
+export async function anilistRequest<T>(
+  query: string,
+  variables: Record<string, unknown>,
+  options: AniListClientOptions = {}
+): Promise<T> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), options.timeoutMs ?? ANILIST_TIMEOUT_MS);
+
+  try {
+    const response = await fetch(getEndpoint(options), {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "application/json",
+        ...(options.accessToken ? { Authorization: `Bearer ${options.accessToken}` } : {}),
+      },
+      body: JSON.stringify({ query, variables }),
+      signal: controller.signal,
+    });
+
+    if (response.status === 429) {
+      const retryAfter = parseInt(response.headers.get("Retry-After") || "60", 10);
+      throw new AniListSyncError("AniList rate limit exceeded", 429, retryAfter);
+    }
+
+    const body = await response.json().catch(() => null);
+
+    if (!response.ok) {
+      const message = body?.errors?.[0]?.message || `AniList API error (${response.status})`;
+      throw new AniListSyncError(message, response.status);
+    }
+
+    if (body?.errors?.length) {
+      throw new AniListSyncError(body.errors[0].message || "AniList GraphQL error", 400);
+    }
+
+    return body.data as T;
+  } catch (error: unknown) {
+    if (error instanceof AniListSyncError) throw error;
+    if (error instanceof Error && error.name === "AbortError") {
+      throw new AniListSyncError("AniList request timed out", 504);
+    }
+    throw new AniListSyncError(error instanceof Error ? error.message : String(error));
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+export async function fetchViewer(options: AniListClientOptions): Promise<{ id: number; name: string }> {
+  const data = await anilistRequest<{ Viewer: { id: number; name: string } | null }>(VIEWER_QUERY, {}, options);
+  if (!data.Viewer) {
+    throw new AniListSyncError("AniList token is not associated with a user", 401);
+  }
+  return data.Viewer;
+}
+
+export async function fetchMangaList(
+  anilistUserId: number,
+  options: AniListClientOptions = {}
+): Promise<AniListMediaListEntry[]> {
+  const data = await anilistRequest<{
+    MediaListCollection: { lists: Array<{ entries: AniListMediaListEntry[] }> } | null;
+  }>(MANGA_LIST_QUERY, { userId: anilistUserId }, options);
+
+  const lists = data.MediaListCollection?.lists || [];
+  // Custom lists repeat entries from the status lists; keep one per media
+  const byMedia = new Map<number, AniListMediaListEntry>();
+  for (const list of lists) {
+    for (const entry of list.entries || []) {
+      if (!byMedia.has(entry.mediaId)) byMedia.set(entry.mediaId, entry);
+    }
+  }
+  return Array.from(byMedia.values());
+}
+
+const ANILIST_TO_LOCAL_STATUS: Record<AniListMediaListStatus, string> = {
+  CURRENT: "reading",
+  REPEATING: "reading",
+  PLANNING: "planning",
+  COMPLETED: "completed",
+  DROPPED: "dropped",
+  PAUSED: "paused",
+};
+
+const LOCAL_TO_ANILIST_STATUS: Record<string, AniListMediaListStatus> = {
+  reading: "CURRENT",
+  planning: "PLANNING",
+  completed: "COMPLETED",
+  dropped: "DROPPED",
+  paused: "PAUSED",
+};
+
+export function anilistStatusToLocal(status: string): string {
+  return ANILIST_TO_LOCAL_STATUS[status as AniListMediaListStatus] || "reading";
+}
+
+export function localStatusToAniList(status: string): AniListMediaListStatus {
+  return LOCAL_TO_ANILIST_STATUS[status] || "CURRENT";
+}
+
+export function anilistMangaUrl(mediaId: number | string): string {
+  return `https://anilist.co/manga/${mediaId}`;
+}
+
+export function mapAniListEntryToImportEntry(entry: AniListMediaListEntry): ImportEntry {
+  const title = entry.media.title;
+  const rating = anilistScoreToCanonical(entry.scoreRaw, "POINT_100") ?? anilistScoreToCanonical(entry.score, "POINT_10");
+  return {
+    title: title.romaji || title.english || title.native || `AniList ${entry.mediaId}`,
+    status: anilistStatusToLocal(entry.status),
+    progress: entry.progress ?? 0,
+    last_updated: entry.updatedAt ? new Date(entry.updatedAt * 1000) : undefined,
+    external_id: String(entry.mediaId),
+    source_platform: "anilist",
+    source_url: anilistMangaUrl(entry.mediaId),
+    source_name: "anilist",
+    ...(rating !== null ? { rating } : {}),
+  };
+}
+
+/**
+ * Finds the AniList media id for a library entry: either the entry was
+ * imported from AniList (source_url) or its series has an AniList external link.
+ */
+export function getAniListMediaId(entry: {
+  source_url: string;
+  Series?: { external_links: unknown } | null;
+}): number | null {
+  const fromUrl = entry.source_url.match(/anilist\.co\/manga\/(\d+)/i);
+  if (fromUrl) return parseInt(fromUrl[1], 10);
+
+  const links = entry.Series?.external_links;
+  if (links && typeof links === "object") {
+    const record = links as Record<string, unknown>;
+    const raw = record.anilist ?? record.al;
+    if (typeof raw === "number") return raw;
+    if (typeof raw === "string") {
+      const match = raw.match(/(\d+)/);
+      if (match) return parseInt(match[1], 10);
+    }
+  }
+
+  return null;
+}
+
+export function buildSaveMediaListEntry(
+  mediaId: number,
+  local: { status: string; progress: number; rating?: number | null }
+): { query: string; variables: { mediaId: number; status: AniListMediaListStatus; progress: number; scoreRaw?: number } } {
+  return {
+    query: SAVE_MEDIA_LIST_ENTRY_MUTATION,
+    variables: {
+      mediaId,
+      status: localStatusToAniList(local.status),
+      progress: Math.max(0, Math.floor(local.progress)),
+      // Canonical ratings are already on AniList's raw 100-point scale, where 0 means unscored
+      ...(local.rating ? { scoreRaw: local.rating } : {}),
+    },
+  };
+}
+
+export type SyncDirection = "pull" | "push" | "none";
+
+interface SyncSide {
+  status: string;
+  progress: number;
+  last_updated?: Date;
+}
+
+/**
+ * Decides which side wins for one series. reconcileEntry() is evaluated in
+ * both directions; when both claim an update (e.g. remote is newer but local
+ * is further ahead) progress never regresses, then STATUS_RANKS breaks ties.
+ */
+export function resolveSyncConflict(local: SyncSide, remote: SyncSide): { direction: SyncDirection; reason: string } {
+  const pull = reconcileEntry(local, remote);
+  const push = reconcileEntry(remote, local);
+
+  if (pull.shouldUpdate && !push.shouldUpdate) {
+    return { direction: "pull", reason: pull.reason || "Remote is newer" };
+  }
+  if (push.shouldUpdate && !pull.shouldUpdate) {
+    return { direction: "push", reason: push.reason || "Local is newer" };
+  }
+  if (!pull.shouldUpdate && !push.shouldUpdate) {
+    return { direction: "none", reason: pull.reason || "Already in sync" };
+  }
+
+  if (local.progress !== remote.progress) {
+    return local.progress > remote.progress
+      ? { direction: "push", reason: "Conflict: local progress is further ahead" }
+      : { direction: "pull", reason: "Conflict: remote progress is further ahead" };
+  }
+
+  const localRank = STATUS_RANKS[local.status] ?? -1;
+  const remoteRank = STATUS_RANKS[remote.status] ?? -1;
+  if (localRank === remoteRank) {
+    return { direction: "none", reason: "Conflict: equivalent state" };
+  }
+  return localRank > remoteRank
+    ? { direction: "push", reason: "Conflict: local status is further along" }
+    : { direction: "pull", reason: "Conflict: remote status is further along" };
+}
+
+export interface AniListPushItem {
+  entryId: string;
+  mediaId: number;
+  status: string;
+  progress: number;
+  rating: number | null;
+}
+
+export interface AniListPushJobData {
+  userId: string;
+  accessToken: string;
+  endpoint?: string;
+  items: AniListPushItem[];
+}
+
+/**
+ * Sends local changes to AniList one mutation at a time, paced by
+ * pushIntervalMs. Stops at the first rate limit or auth failure since the
+ * rest would fail too; those entries are still ahead locally, so the next
+ * sync queues them again.
+ */
+export async function pushAniListEntries(
+  userId: string,
+  items: AniListPushItem[],
+  options: AniListClientOptions
+): Promise<{ pushed: number; failed: number; skipped: number }> {
+  let pushed = 0;
+  let failed = 0;
+  const pushInterval = options.pushIntervalMs ?? PUSH_INTERVAL_MS;
+
+  for (const item of items) {
+    const { query, variables } = buildSaveMediaListEntry(item.mediaId, item);
+    try {
+      await anilistRequest(query, variables, options);
+      pushed++;
+    } catch (error: unknown) {
+      failed++;
+      logger.warn("[AniListSync] Failed to push entry", {
+        userId,
+        entryId: item.entryId,
+        mediaId: item.mediaId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      if (error instanceof AniListSyncError && (error.status === 429 || error.status === 401)) break;
+    }
+    if (pushInterval > 0 && pushed + failed < items.length) {
+      await new Promise((resolve) => setTimeout(resolve, pushInterval));
+    }
+  }
+
+  return { pushed, failed, skipped: items.length - pushed - failed };
+}
+
+export interface AniListSyncSummary {
+  anilistUser: string;
+  remoteEntries: number;
+  pulled: number;
+  imported: number;
+  pushQueued: number;
+  unchanged: number;
+  importJobId: string | null;
+  pushJobId: string | null;
+}
+
+function anilistPushJobId(userId: string): string {
+  return `anilist-push_${userId}`;
+}
+
+async function isAniListPushPending(userId: string): Promise<boolean> {
+  const existing = await importQueue.getJob(anilistPushJobId(userId));
+  if (!existing) return false;
+  const state = await existing.getState();
+  return state === "active" || state === "waiting" || state === "delayed";
+}
+
+/**
+ * Runs a full two-way sync for one user. Pulls are applied before returning;
+ * pushes are queued (see pushAniListEntries). The access token travels with
+ * the push job and is dropped from the queue once the job finishes; it is
+ * never written to the database.
+ *
+ * Only one push job per user is queued at a time: a sync that would push
+ * while the previous push is pending fails with a 409 before doing anything.
+ */
+export async function runAniListSync(
+  userId: string,
+  options: AniListClientOptions & { direction?: "pull" | "push" | "both" }
+): Promise<AniListSyncSummary> {
+  const direction = options.direction || "both";
+  if (direction !== "pull" && await isAniListPushPending(userId)) {
+    throw new AniListSyncError("An AniList push is already in progress", 409);
+  }
+
+  const viewer = await fetchViewer(options);
+  const remoteEntries = await fetchMangaList(viewer.id, options);
+  const remoteByMedia = new Map(remoteEntries.map((e) => [e.mediaId, e]));
+
+  const localEntries = await prisma.libraryEntry.findMany({
+    where: { user_id: userId, deleted_at: null },
+    select: {
+      id: true,
+      series_id: true,
+      status: true,
+      last_read_chapter: true,
+      user_rating: true,
+      updated_at: true,
+      source_url: true,
+      Series: { select: { external_links: true } },
+    },
+  });
+
+  const toImport: ImportEntry[] = [];
+  const toUpdate: Array<{ entryId: string; seriesId: string | null; status: string; progress: number; rating?: number }> = [];
+  const toPush: AniListPushItem[] = [];
+  const seenMedia = new Set<number>();
+  let unchanged = 0;
+
+  for (const local of localEntries) {
+    const mediaId = getAniListMediaId(local);
+    if (!mediaId || seenMedia.has(mediaId)) continue;
+    seenMedia.add(mediaId);
+
+    const localSide = {
+      status: local.status,
+      progress: Number(local.last_read_chapter || 0),
+      last_updated: local.updated_at,
+    };
+    const remote = remoteByMedia.get(mediaId);
+
+    const localRating = local.user_rating ?? null;
+
+    if (!remote) {
+      toPush.push({ entryId: local.id, mediaId, status: local.status, progress: localSide.progress, rating: localRating });
+      continue;
+    }
+
+    const imported = mapAniListEntryToImportEntry(remote);
+    const decision = resolveSyncConflict(localSide, {
+      status: imported.status,
+      progress: imported.progress,
+      last_updated: imported.last_updated ? new Date(imported.last_updated) : undefined,
+    });
+
+    const ratingGap = localRating === null && imported.rating != null ? { rating: imported.rating } : {};
+
+    if (decision.direction === "pull") {
+      toUpdate.push({ entryId: local.id, seriesId: local.series_id ?? null, status: imported.status, progress: imported.progress, ...ratingGap });
+    } else if (decision.direction === "push") {
+      toPush.push({ entryId: local.id, mediaId, status: local.status, progress: localSide.progress, rating: localRating });
+    } else unchanged++;
+  }
+
+  // Remote-only series are new to this library
+  for (const remote of remoteEntries) {
+    if (!seenMedia.has(remote.mediaId)) toImport.push(mapAniListEntryToImportEntry(remote));
+  }
+
+  if (direction !== "push" && toUpdate.length > 0) {
+    await prisma.$transaction(
+      toUpdate.map((u) =>
+        prisma.libraryEntry.update({
+          where: { id: u.entryId },
+          data: {
+            status: u.status,
+            last_read_chapter: u.progress,
+            ...(u.rating !== undefined ? { user_rating: u.rating } : {}),
+            last_sync_at: new Date(),
+            updated_at: new Date(),
+          },
+        })
+      )
+    );
+
+    await recalculateSeriesRatings(toUpdate.filter((u) => u.rating !== undefined).map((u) => u.seriesId));
+  }
+
+  let importJobId: string | null = null;
+  if (direction !== "push" && toImport.length > 0) {
+    const job = await prisma.importJob.create({
+      data: {
+        user_id: userId,
+        source: "anilist",
+        source_platform: "anilist",
+        status: "pending",
+        total_items: toImport.length,
+        ImportItem: {
+          create: toImport.map((entry) => ({
+            title: entry.title,
+            status: "PENDING",
+            metadata: entry as unknown as Prisma.InputJsonValue,
+          })),
+        },
+      },
+    });
+    importJobId = job.id;
+
+    await importQueue.add("process-import", { jobId: job.id }, {
+      jobId: `import_${job.id}`,
+      removeOnComplete: true,
+    });
+  }
+
+  let pushJobId: string | null = null;
+  const pushItems = direction !== "pull" ? toPush : [];
+  if (pushItems.length > 0 && options.accessToken) {
+    const pushData: AniListPushJobData = {
+      userId,
+      accessToken: options.accessToken,
+      ...(options.endpoint ? { endpoint: options.endpoint } : {}),
+      items: pushItems,
+    };
+    // One push job per user at a time so two syncs can't share AniList's rate limit.
+    // No retries and no retained copies: the job carries the user's token.
+    const jobId = anilistPushJobId(userId);
+    await importQueue.add(ANILIST_PUSH_JOB, pushData, {
+      jobId,
+      attempts: 1,
+      removeOnComplete: true,
+      removeOnFail: true,
+    });
+
+    // add() hands back a job built from our data even when a concurrent sync's
+    // job already held the id and ours was dropped; compare what was stored.
+    // A missing job means ours already ran and was removed.
+    const stored = await importQueue.getJob(jobId);
+    if (!stored || JSON.stringify(stored.data) === JSON.stringify(pushData)) {
+      pushJobId = jobId;
+    } else {
+      logger.warn("[AniListSync] Push dropped, another push for the user is pending", { userId, items: pushItems.length });
+    }
+  }
+
+  return {
+    anilistUser: viewer.name,
+    remoteEntries: remoteEntries.length,
+    pulled: direction !== "push" ? toUpdate.length : 0,
+    imported: direction !== "push" ? toImport.length : 0,
+    pushQueued: pushJobId ? pushItems.length : 0,
+    unchanged,
+    importJobId,
+    pushJobId,
+  };
+}
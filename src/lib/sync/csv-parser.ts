@@ -1,4 +1,5 @@
 import { ImportEntry } from "./shared";
+import { toCanonicalRating } from "@/lib/ratings";
 
 export interface ParsedCSVResult {
   entries: ImportEntry[];
@@ -162,6 +163,15 @@ export function parseCSV(csvText: string, returnMetadata?: boolean): ImportEntry
       else if (header === "last_read_at" || header === "last_updated" || header === "updated_at") {
         entry.last_updated = val;
       }
+      // Rating: score_100 is our own export (canonical), other trackers use 10 points
+      else if (header === "score_100") {
+        const parsed = parseFloat(val);
+        if (!isNaN(parsed)) entry.rating = toCanonicalRating(Math.round(parsed), "POINT_100");
+      }
+      else if (header === "rating" || header === "score" || header === "my_score") {
+        const parsed = parseFloat(val);
+        if (!isNaN(parsed) && parsed > 0) entry.rating = toCanonicalRating(Math.round(parsed * 10) / 10, "POINT_10_DECIMAL");
+      }
     });
 
     // Valid title check - skip if missing
@@ -178,7 +188,8 @@ export function parseCSV(csvText: string, returnMetadata?: boolean): ImportEntry
         source_platform: entry.source_platform || undefined,
         source_url: entry.source_url || undefined,
         source_name: entry.source_name || undefined,
-        last_updated: entry.last_updated || undefined
+        last_updated: entry.last_updated || undefined,
+        rating: entry.rating ?? undefined
       });
     }
   }
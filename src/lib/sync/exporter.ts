@@ -0,0 +1,281 @@
+import { prisma } from "@/lib/prisma";
+import { canonicalToMalScore } from "@/lib/ratings";
+
+/**
+ * Library Export
+ *
+ * Serializes a user's full library (entries + per-chapter reads) into the
+ * formats offered by POST /api/library/export:
+ * - csv:  one row per entry, headers compatible with parseCSV() for round-trips
+ * - json: lossless dump including every UserChapterReadV2 row
+ * - xml:  MyAnimeList-compatible export (importable on MAL and by PlatformImport)
+ *
+ * Ratings are exported on the canonical 0-100 scale (CSV column score_100),
+ * except in MAL XML, which only knows whole 1-10 scores.
+ */
+
+export const EXPORT_FORMATS = ["csv", "json", "xml"] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  json: "application/json; charset=utf-8",
+  xml: "application/xml; charset=utf-8",
+};
+
+export interface ExportChapterRead {
+  chapter_number: string | null;
+  volume_number: number | null;
+  read_at: string;
+  source_name: string | null;
+  device_id: string | null;
+}
+
+export interface ExportEntry {
+  title: string;
+  status: string;
+  last_read_chapter: number;
+  last_read_at: string | null;
+  /** Canonical 0-100 score */
+  rating: number | null;
+  source_url: string;
+  source_name: string;
+  series_id: string | null;
+  mangadex_id: string | null;
+  mangaupdates_id: string | null;
+  added_at: string;
+  updated_at: string;
+  chapter_reads: ExportChapterRead[];
+}
+
+/** Supabase Storage bucket holding generated export files (private). */
+export const EXPORT_BUCKET = "library-exports";
+
+/** Export files are downloadable for 7 days, after which the job reports "expired". */
+export const EXPORT_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+const READS_PAGE_SIZE = 5000;
+
+/**
+ * Loads every non-deleted library entry for a user with its chapter reads attached.
+ * Reads are paged by id so very large histories don't load in a single query.
+ */
+export async function collectLibraryExport(userId: string): Promise<ExportEntry[]> {
+  const entries = await prisma.libraryEntry.findMany({
+    where: { user_id: userId, deleted_at: null },
+    include: {
+      Series: {
+        select: {
+          title: true,
+          mangadex_id: true,
+          mangaupdates_series_id: true,
+        },
+      },
+    },
+    orderBy: { added_at: "asc" },
+  });
+
+  const readsBySeries = new Map<string, ExportChapterRead[]>();
+  let cursor: string | undefined;
+
+  while (true) {
+    const page = await prisma.userChapterReadV2.findMany({
+      where: { user_id: userId, is_read: true },
+      select: {
+        id: true,
+        read_at: true,
+        source_name: true,
+        device_id: true,
+        LogicalChapter: {
+          select: { series_id: true, chapter_number: true, volume_number: true },
+        },
+      },
+      orderBy: { id: "asc" },
+      take: READS_PAGE_SIZE,
+      ...(cursor ? { skip: 1, cursor: { id: cursor } } : {}),
+    });
+
+    for (const read of page) {
+      const seriesId = read.LogicalChapter.series_id;
+      if (!readsBySeries.has(seriesId)) readsBySeries.set(seriesId, []);
+      readsBySeries.get(seriesId)!.push({
+        chapter_number: read.LogicalChapter.chapter_number,
+        volume_number: read.LogicalChapter.volume_number,
+        read_at: read.read_at.toISOString(),
+        source_name: read.source_name,
+        device_id: read.device_id,
+      });
+    }
+
+    if (page.length < READS_PAGE_SIZE) break;
+    cursor = page[page.length - 1].id;
+  }
+
+  return entries.map((entry) => {
+    const reads = entry.series_id ? readsBySeries.get(entry.series_id) || [] : [];
+    reads.sort((a, b) => a.read_at.localeCompare(b.read_at));
+
+    return {
+      title: entry.Series?.title || entry.imported_title || "Unknown Title",
+      status: entry.status,
+      last_read_chapter: Number(entry.last_read_chapter || 0),
+      last_read_at: entry.last_read_at?.toISOString() ?? null,
+      rating: entry.user_rating,
+      source_url: entry.source_url,
+      source_name: entry.source_name,
+      series_id: entry.series_id,
+      mangadex_id: entry.Series?.mangadex_id ?? null,
+      mangaupdates_id: entry.Series?.mangaupdates_series_id?.toString() ?? null,
+      added_at: entry.added_at.toISOString(),
+      updated_at: entry.updated_at.toISOString(),
+      chapter_reads: reads,
+    };
+  });
+}
+
+function escapeCSV(val: string | number | null | undefined): string {
+  if (val === null || val === undefined) return "";
+  const escaped = String(val).replace(/"/g, '""');
+  if (escaped.includes(",") || escaped.includes('"') || escaped.includes("\n") || escaped.includes("\r")) {
+    return `"${escaped}"`;
+  }
+  return escaped;
+}
+
+/**
+ * CSV export. Header names intentionally match the aliases parseCSV() understands
+ * (title, status, progress, source_url, source_name, mangadex_id, last_read_at)
+ * so an export can be fed straight back into /api/library/import.
+ */
+export function formatExportCSV(entries: ExportEntry[]): string {
+  const headers = [
+    "title",
+    "status",
+    "progress",
+    "score_100",
+    "source_url",
+    "source_name",
+    "mangadex_id",
+    "mangaupdates_id",
+    "last_read_at",
+    "added_at",
+    "read_chapters",
+  ];
+
+  const rows = entries.map((e) =>
+    [
+      escapeCSV(e.title),
+      escapeCSV(e.status),
+      escapeCSV(e.last_read_chapter),
+      escapeCSV(e.rating),
+      escapeCSV(e.source_url),
+      escapeCSV(e.source_name),
+      escapeCSV(e.mangadex_id),
+      escapeCSV(e.mangaupdates_id),
+      escapeCSV(e.last_read_at),
+      escapeCSV(e.added_at),
+      escapeCSV(e.chapter_reads.map((r) => r.chapter_number).filter(Boolean).join(";")),
+    ].join(",")
+  );
+
+  return [headers.join(","), ...rows].join("\n");
+}
+
+export function formatExportJSON(entries: ExportEntry[], exportedAt: Date = new Date()): string {
+  return JSON.stringify(
+    {
+      version: 1,
+      exported_at: exportedAt.toISOString(),
+      rating_scale: "POINT_100",
+      total_entries: entries.length,
+      entries,
+    },
+    null,
+    2
+  );
+}
+
+const MAL_STATUS: Record<string, string> = {
+  reading: "Reading",
+  completed: "Completed",
+  paused: "On-Hold",
+  dropped: "Dropped",
+  planning: "Plan to Read",
+};
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+function cdata(value: string): string {
+  // A literal "]]>" would terminate the section early; split it across two sections.
+  return `<![CDATA[${value.replace(/]]>/g, "]]]]><![CDATA[>")}]]>`;
+}
+
+function malDate(iso: string | null | undefined): string {
+  return iso ? iso.slice(0, 10) : "0000-00-00";
+}
+
+/**
+ * MyAnimeList-compatible XML. MAL ids are only known when the entry was
+ * imported from MAL; other entries get id 0 so MAL falls back to title lookup.
+ */
+export function formatExportMalXml(entries: ExportEntry[]): string {
+  const counts = { reading: 0, completed: 0, paused: 0, dropped: 0, planning: 0 };
+  for (const e of entries) {
+    if (e.status in counts) counts[e.status as keyof typeof counts]++;
+  }
+
+  const mangaBlocks = entries.map((e) => {
+    const malId = e.source_url.match(/myanimelist\.net\/manga\/(\d+)/i)?.[1] || "0";
+    const firstRead = e.chapter_reads[0]?.read_at;
+    const lastRead = e.chapter_reads[e.chapter_reads.length - 1]?.read_at ?? e.last_read_at;
+
+    return [
+      "\t<manga>",
+      `\t\t<manga_mangadb_id>${escapeXml(malId)}</manga_mangadb_id>`,
+      `\t\t<manga_title>${cdata(e.title)}</manga_title>`,
+      `\t\t<my_read_volumes>0</my_read_volumes>`,
+      `\t\t<my_read_chapters>${Math.floor(e.last_read_chapter)}</my_read_chapters>`,
+      `\t\t<my_start_date>${malDate(firstRead)}</my_start_date>`,
+      `\t\t<my_finish_date>${e.status === "completed" ? malDate(lastRead) : "0000-00-00"}</my_finish_date>`,
+      `\t\t<my_score>${canonicalToMalScore(e.rating)}</my_score>`,
+      `\t\t<my_status>${MAL_STATUS[e.status] || "Reading"}</my_status>`,
+      `\t\t<my_comments>${cdata(e.source_url)}</my_comments>`,
+      `\t\t<update_on_import>1</update_on_import>`,
+      "\t</manga>",
+    ].join("\n");
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8" ?>',
+    "<myanimelist>",
+    "\t<myinfo>",
+    "\t\t<user_export_type>2</user_export_type>",
+    `\t\t<user_total_manga>${entries.length}</user_total_manga>`,
+    `\t\t<user_total_reading>${counts.reading}</user_total_reading>`,
+    `\t\t<user_total_completed>${counts.completed}</user_total_completed>`,
+    `\t\t<user_total_onhold>${counts.paused}</user_total_onhold>`,
+    `\t\t<user_total_dropped>${counts.dropped}</user_total_dropped>`,
+    `\t\t<user_total_plantoread>${counts.planning}</user_total_plantoread>`,
+    "\t</myinfo>",
+    ...mangaBlocks,
+    "</myanimelist>",
+  ].join("\n");
+}
+
+export function formatLibraryExport(format: ExportFormat, entries: ExportEntry[]): string {
+  switch (format) {
+    case "csv":
+      return formatExportCSV(entries);
+    case "json":
+      return formatExportJSON(entries);
+    case "xml":
+      return formatExportMalXml(entries);
+  }
+}
@@ -0,0 +1,135 @@
+import { createHash } from "crypto";
+import { Prisma } from "@prisma/client";
+import { ImportEntry, normalizeStatus, reconcileEntry } from "./shared";
+import { toCanonicalRating } from "@/lib/ratings";
+
+/**
+ * How an import entry becomes library rows. Shared by the import pipeline
+ * (bulk writes) and import review (one held item at a time), so a reviewed
+ * item is written exactly like one matched during the import.
+ */
+
+export interface ImportTarget {
+  userId: string;
+  sourceUrl: string;
+  sourceName: string;
+  seriesId: string | null;
+  needsReview: boolean;
+}
+
+export interface ImportedEntryState {
+  status: string;
+  last_read_chapter: Prisma.Decimal | number | null;
+  updated_at: Date | null;
+  user_rating: number | null;
+  series_id: string | null;
+}
+
+function hashToUuid(value: string): string {
+  const hash = createHash('md5').update(value).digest('hex');
+  return `${hash.slice(0, 8)}-${hash.slice(8, 12)}-${hash.slice(12, 16)}-${hash.slice(16, 20)}-${hash.slice(20)}`;
+}
+
+export function normalizeSourceId(sourceId: string): string {
+  if (!sourceId) return sourceId;
+  if (sourceId.startsWith('title-only:')) return hashToUuid(sourceId);
+  if (/^https?:\/\//i.test(sourceId)) {
+    try {
+      const parsed = new URL(sourceId);
+      const mdMatch = parsed.pathname.match(/[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/i);
+      if (mdMatch) return mdMatch[0];
+      return hashToUuid(sourceId);
+    } catch {
+      return hashToUuid(sourceId);
+    }
+  }
+  if (sourceId.includes(':')) {
+    return sourceId.replace(/^[^:]+:\s*/, '').trim();
+  }
+  return sourceId.trim();
+}
+
+/** Parsers convert scores to the canonical scale; anything else is dropped */
+export function importedRating(entry: ImportEntry): number | null {
+  return typeof entry.rating === 'number' ? toCanonicalRating(entry.rating, 'POINT_100') : null;
+}
+
+export function importedEntryCreate(entry: ImportEntry, target: ImportTarget): Prisma.LibraryEntryCreateManyInput {
+  const rating = importedRating(entry);
+  return {
+    user_id: target.userId,
+    source_url: target.sourceUrl,
+    source_name: target.sourceName,
+    imported_title: entry.title,
+    status: normalizeStatus(entry.status),
+    last_read_chapter: entry.progress,
+    ...(rating !== null ? { user_rating: rating } : {}),
+    series_id: target.seriesId || undefined,
+    needs_review: target.needsReview,
+    metadata_status: target.seriesId ? 'enriched' : 'pending',
+    added_at: new Date()
+  };
+}
+
+/**
+ * Reconciles an import entry with the entry already in the library. Returns
+ * null when the import has nothing newer; `rated` is set when the imported
+ * score is taken over (an imported score never replaces one given here).
+ */
+export function importedEntryUpdate(
+  existing: ImportedEntryState,
+  entry: ImportEntry,
+  target: ImportTarget
+): { data: Prisma.LibraryEntryUncheckedUpdateInput & { series_id: string | null; needs_review: boolean }; rated: boolean } | null {
+  const reconciliation = reconcileEntry(
+    {
+      status: existing.status,
+      progress: Number(existing.last_read_chapter || 0),
+      last_updated: existing.updated_at
+    },
+    {
+      status: normalizeStatus(entry.status),
+      progress: entry.progress,
+      last_updated: entry.last_updated
+    }
+  );
+  if (!reconciliation.shouldUpdate || !reconciliation.updateData) return null;
+
+  const rating = importedRating(entry);
+  const rated = rating !== null && existing.user_rating === null;
+  return {
+    data: {
+      status: reconciliation.updateData.status || existing.status,
+      last_read_chapter: reconciliation.updateData.progress !== undefined ? reconciliation.updateData.progress : existing.last_read_chapter,
+      series_id: target.seriesId || existing.series_id,
+      needs_review: target.needsReview,
+      ...(rated ? { user_rating: rating } : {}),
+      updated_at: new Date()
+    },
+    rated
+  };
+}
+
+export function importedSourceCreate(entry: ImportEntry, target: ImportTarget, sourceId: string): Prisma.SeriesSourceCreateManyInput {
+  return {
+    source_name: target.sourceName,
+    source_id: sourceId,
+    source_url: target.sourceUrl,
+    source_title: entry.title,
+    sync_priority: "HOT"
+  };
+}
+
+// Bug 17: Deterministic job ID so a source is never queued twice
+export function sourceSyncJob(sourceId: string) {
+  return {
+    name: `sync-${sourceId}`,
+    data: { seriesSourceId: sourceId },
+    opts: {
+      jobId: `sync-${sourceId}`,
+      priority: 1,
+      removeOnComplete: { count: 100 },
+      removeOnFail: { count: 100 }
+    }
+  };
+}
@@ -18,6 +18,11 @@ export async function matchSeries(entry: ImportEntry): Promise<MatchResult> {
         where: { mangadex_id: platformInfo.id },
         select: { id: true }
       });
+    } else if (platformInfo.platform === 'mangaupdates') {
+      series = await prisma.series.findUnique({
+        where: { mangaupdates_series_id: BigInt(platformInfo.id) },
+        select: { id: true }
+      });
     }
     
     if (series) {
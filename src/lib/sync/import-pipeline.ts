@@ -1,16 +1,24 @@
 import { prisma } from "@/lib/prisma";
-import { createHash } from "crypto";
 import { 
   ImportEntry, 
-  normalizeStatus, 
-  reconcileEntry, 
   normalizeTitle, 
   extractPlatformIds 
 } from "./shared";
 import { syncSourceQueue, seriesResolutionQueue } from "@/lib/queues";
+import { findReviewCandidatesForTitles, scoreCandidate, ImportReviewData } from "./import-review";
+import {
+  ImportTarget,
+  importedEntryCreate,
+  importedEntryUpdate,
+  importedRating,
+  importedSourceCreate,
+  normalizeSourceId,
+  sourceSyncJob
+} from "./import-entries";
 import { logActivity } from "@/lib/gamification/activity";
 import { awardMigrationBonusInTransaction, MIGRATION_SOURCE } from "@/lib/gamification/migration-bonus";
 import { logger } from "@/lib/logger";
+import { recalculateSeriesRatings } from "@/lib/series-ratings";
 
 // =============================================================================
 // V5 AUDIT BUG FIXES INTEGRATION (Bugs 25-27)
@@ -127,41 +135,14 @@ function inferSourceName(url: string): string {
     if (host.includes('mangapark')) return 'mangapark';
     if (host.includes('mangasee')) return 'mangasee';
     if (host.includes('manga4life')) return 'mangasee';
+    if (host.includes('mangaupdates')) return 'mangaupdates';
     return 'imported';
   } catch {
     return 'imported';
   }
 }
 
-function hashToUuid(value: string): string {
-  const hash = createHash('md5').update(value).digest('hex');
-  return `${hash.slice(0, 8)}-${hash.slice(8, 12)}-${hash.slice(12, 16)}-${hash.slice(16, 20)}-${hash.slice(20)}`;
-}
-
-function normalizeSourceId(sourceId: string): string {
-  if (!sourceId) return sourceId;
-  if (sourceId.startsWith('title-only:')) return hashToUuid(sourceId);
-  if (/^https?:\/\//i.test(sourceId)) {
-    try {
-      const parsed = new URL(sourceId);
-      const mdMatch = parsed.pathname.match(/[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/i);
-      if (mdMatch) return mdMatch[0];
-      return hashToUuid(sourceId);
-    } catch {
-      return hashToUuid(sourceId);
-    }
-  }
-  if (sourceId.includes(':')) {
-    return sourceId.replace(/^[^:]+:\s*/, '').trim();
-  }
-  return sourceId.trim();
-}
-
-// Bug 17: Generate deterministic job IDs
-function generateSyncJobId(sourceId: string): string {
-  return `sync-${sourceId}`;
-}
-
+// Bug 17: Generate deterministic job IDs (sync jobs: sourceSyncJob)
 function generateEnrichJobId(entryId: string): string {
   return `enrich-${entryId}`;
 }
@@ -237,6 +218,7 @@ export async function processImportJob(jobId: string) {
   const titles = new Set<string>();
   const normalizedTitles = new Set<string>();
   const mangadexIds = new Set<string>();
+  const mangaupdatesIds = new Set<bigint>();
   const sourceUrls = new Set<string>();
   const sourceKeys: Array<{ name: string, id: string }> = [];
   
@@ -305,6 +287,8 @@ export async function processImportJob(jobId: string) {
       const platformInfo = extractPlatformIds(normalizedUrl);
       if (platformInfo?.platform === 'mangadex') {
         mangadexIds.add(platformInfo.id);
+      } else if (platformInfo?.platform === 'mangaupdates') {
+        mangaupdatesIds.add(BigInt(platformInfo.id));
       }
       sourceKeys.push({ name: effectiveSourceName, id: sourceId });
     }
@@ -332,6 +316,7 @@ export async function processImportJob(jobId: string) {
       where: {
         OR: [
           { mangadex_id: { in: Array.from(mangadexIds) } },
+          { mangaupdates_series_id: { in: Array.from(mangaupdatesIds) } },
           { title: { in: Array.from(titles), mode: 'insensitive' } },
           { title: { in: Array.from(normalizedTitles), mode: 'insensitive' } },
           // Aliases prefetch - using array_contains for each title
@@ -357,13 +342,14 @@ export async function processImportJob(jobId: string) {
 
   // 3. INDEXING FOR FAST LOOKUP
   const seriesByMdId = new Map(matchingSeries.filter(s => s.mangadex_id).map(s => [s.mangadex_id, s]));
+  const seriesByMuId = new Map(matchingSeries.filter(s => s.mangaupdates_series_id).map(s => [s.mangaupdates_series_id!.toString(), s]));
   const seriesByTitle = new Map(matchingSeries.map(s => [s.title.toLowerCase(), s]));
   const seriesByNormTitle = new Map(matchingSeries.map(s => [normalizeTitle(s.title), s]));
   
   const libEntriesByUrl = new Map(existingLibEntries.map(e => [e.source_url, e]));
   const sourcesByKey = new Map(existingSources.map(s => [`${s.source_name}:${s.source_id}`, s]));
 
-  const results = { matched: 0, failed: 0, invalidUrls: 0, duplicates: 0, unreachable: 0 };
+  const results = { matched: 0, failed: 0, held: 0, invalidUrls: 0, duplicates: 0, unreachable: 0 };
   const libEntryCreates: any[] = [];
   const libEntryUpdates: any[] = [];
   const sourceCreates: any[] = [];
@@ -372,6 +358,7 @@ export async function processImportJob(jobId: string) {
   // Bug 19 & Bug 25: Prepare jobs during transaction, enqueue ONLY after successful commit
   const pendingResolutionJobs: any[] = [];
   const pendingSyncJobs: any[] = [];
+  const ratedSeriesIds: Array<string | null> = [];
 
   const pendingSources = new Set<string>();
 
@@ -422,8 +409,10 @@ export async function processImportJob(jobId: string) {
       let confidence: "high" | "medium" | "none" = "none";
 
       const platformInfo = extractPlatformIds(sourceUrl);
-      if (platformInfo?.platform === 'mangadex') {
-        const s = seriesByMdId.get(platformInfo.id);
+      if (platformInfo?.platform === 'mangadex' || platformInfo?.platform === 'mangaupdates') {
+        const s = platformInfo.platform === 'mangadex'
+          ? seriesByMdId.get(platformInfo.id)
+          : seriesByMuId.get(platformInfo.id);
         if (s) {
           matchedSeriesId = s.id;
           confidence = "high";
@@ -451,63 +440,57 @@ export async function processImportJob(jobId: string) {
       }
 
       const needsReview = confidence !== "high";
-      const normStatus = normalizeStatus(entry.status);
       const existingEntry = libEntriesByUrl.get(sourceUrl);
 
-      if (existingEntry) {
-        const reconciliation = reconcileEntry(
-          { 
-            status: existingEntry.status, 
-            progress: Number(existingEntry.last_read_chapter || 0),
-            last_updated: existingEntry.updated_at
-          },
-          { 
-            status: normStatus, 
-            progress: entry.progress,
-            last_updated: entry.last_updated
-          }
-        );
+      // New entries without a high-confidence match are held for review
+      // instead of being written with a guessed (or missing) series.
+      // Candidates are looked up for all held items at once after the loop.
+      if (needsReview && !existingEntry) {
+        const review: ImportReviewData = {
+          confidence: confidence === "medium" ? "medium" : "none",
+          source_url: sourceUrl,
+          source_name: effectiveSourceName,
+          candidates: [],
+        };
+        const aliasSeries = matchedSeriesId ? matchingSeries.find(s => s.id === matchedSeriesId) : undefined;
+        itemUpdates.push({ id: item.id, status: "NEEDS_REVIEW", matchedSeriesId, review, title: entry.title, aliasSeries });
+        results.held++;
+        // Held items aren't imported by this run, so they don't count toward the migration bonus
+        if (typeof entry.progress === 'number' && entry.progress > 0) {
+          totalImportedChapters -= entry.progress;
+        }
+        continue;
+      }
+
+      const target: ImportTarget = {
+        userId: job.user_id,
+        sourceUrl,
+        sourceName: effectiveSourceName,
+        seriesId: matchedSeriesId,
+        needsReview
+      };
 
-        if (reconciliation.shouldUpdate && reconciliation.updateData) {
+      if (existingEntry) {
+        const update = importedEntryUpdate(existingEntry, entry, target);
+        if (update) {
           libEntryUpdates.push({
             id: existingEntry.id,
             source_url: sourceUrl,
             imported_title: entry.title,
-            data: {
-              status: reconciliation.updateData.status || existingEntry.status,
-              last_read_chapter: reconciliation.updateData.progress !== undefined ? reconciliation.updateData.progress : existingEntry.last_read_chapter,
-              series_id: matchedSeriesId || existingEntry.series_id,
-              needs_review: needsReview,
-              updated_at: new Date()
-            }
+            data: update.data
           });
+          if (update.rated) ratedSeriesIds.push(update.data.series_id);
         }
       } else {
-        libEntryCreates.push({
-          user_id: job.user_id,
-          source_url: sourceUrl,
-          source_name: effectiveSourceName,
-          imported_title: entry.title,
-          status: normStatus,
-          last_read_chapter: entry.progress,
-          series_id: matchedSeriesId || undefined,
-          needs_review: needsReview,
-          metadata_status: matchedSeriesId ? 'enriched' : 'pending',
-          added_at: new Date()
-        });
+        libEntryCreates.push(importedEntryCreate(entry, target));
+        if (importedRating(entry) !== null) ratedSeriesIds.push(matchedSeriesId);
       }
 
       const sourceKey = `${effectiveSourceName}:${sourceId}`;
       const existingSource = sourcesByKey.get(sourceKey);
       
       if (!existingSource && !pendingSources.has(sourceKey) && urlValid) {
-        sourceCreates.push({
-          source_name: effectiveSourceName,
-          source_id: sourceId,
-          source_url: sourceUrl,
-          source_title: entry.title,
-          sync_priority: "HOT"
-        });
+        sourceCreates.push(importedSourceCreate(entry, target, sourceId));
         pendingSources.add(sourceKey);
       }
 
@@ -534,6 +517,27 @@ export async function processImportJob(jobId: string) {
     }
   }
 
+  // 4b. REVIEW CANDIDATES for every held item in one query
+  const heldUpdates = itemUpdates.filter(u => u.status === "NEEDS_REVIEW");
+  if (heldUpdates.length > 0) {
+    let candidatesByTitle = new Map<string, ImportReviewData["candidates"]>();
+    try {
+      candidatesByTitle = await findReviewCandidatesForTitles(heldUpdates.map(u => u.title));
+    } catch (candidateError: unknown) {
+      logger.warn(`[ImportPipeline] Candidate lookup failed for job ${jobId}`, {
+        error: candidateError instanceof Error ? candidateError.message : String(candidateError)
+      });
+    }
+
+    for (const u of heldUpdates) {
+      const candidates = [...(candidatesByTitle.get(u.title) ?? [])];
+      if (u.aliasSeries && !candidates.some(c => c.series_id === u.aliasSeries.id)) {
+        candidates.unshift({ series_id: u.aliasSeries.id, similarity: scoreCandidate(u.title, u.aliasSeries) });
+      }
+      u.review.candidates = candidates;
+    }
+  }
+
   // Bug 19 & Bug 25: TRANSACTIONAL PERSISTENCE - All DB ops in single transaction
   // Jobs are PREPARED but NOT ENQUEUED until transaction commits successfully
   let transactionSuccess = false;
@@ -619,6 +623,7 @@ export async function processImportJob(jobId: string) {
         const successWithReview = itemUpdates.filter(u => u.status === "SUCCESS" && u.matchedSeriesId && u.needsReview).map(u => u.id);
         const successPendingEnrich = itemUpdates.filter(u => u.status === "SUCCESS" && !u.matchedSeriesId).map(u => u.id);
         const failedItems = itemUpdates.filter(u => u.status === "FAILED");
+        const heldItems = itemUpdates.filter(u => u.status === "NEEDS_REVIEW");
 
         if (successWithMatch.length > 0) {
           await tx.importItem.updateMany({
@@ -639,6 +644,22 @@ export async function processImportJob(jobId: string) {
           });
         }
         
+        // Held items carry per-item candidates, so they can't be grouped
+        const CHUNK_SIZE = 50;
+        for (let i = 0; i < heldItems.length; i += CHUNK_SIZE) {
+          await Promise.all(heldItems.slice(i, i + CHUNK_SIZE).map(u =>
+            tx.importItem.update({
+              where: { id: u.id },
+              data: {
+                status: "NEEDS_REVIEW",
+                series_id: u.matchedSeriesId || null,
+                reason_message: u.review.candidates.length > 0 ? "Needs review." : "No match found. Search manually or skip.",
+                review_data: u.review
+              }
+            })
+          ));
+        }
+
         // Group failed items by error message to use updateMany
         if (failedItems.length > 0) {
           const failuresByMessage = new Map<string, string[]>();
@@ -661,11 +682,11 @@ export async function processImportJob(jobId: string) {
       await tx.importJob.update({
         where: { id: jobId },
         data: {
-          status: "completed",
+          status: results.held > 0 ? "needs_review" : "completed",
           processed_items: job.ImportItem.length,
           matched_items: results.matched,
           failed_items: results.failed,
-          completed_at: new Date()
+          completed_at: results.held > 0 ? null : new Date()
         }
       });
 
@@ -732,6 +753,8 @@ export async function processImportJob(jobId: string) {
 
   // Bug 19 & Bug 25: ONLY enqueue jobs if transaction succeeded
   if (transactionSuccess) {
+    await recalculateSeriesRatings(ratedSeriesIds);
+
     // 6. BATCH QUEUE ENQUEUEING (after successful transaction commit)
     const finalSources = await prisma.seriesSource.findMany({
       where: {
@@ -743,16 +766,7 @@ export async function processImportJob(jobId: string) {
     });
 
     // Bug 17: Use deterministic job IDs for sync jobs
-    const syncQueueJobs = finalSources.map(s => ({
-      name: `sync-${s.id}`,
-      data: { seriesSourceId: s.id },
-      opts: { 
-        jobId: generateSyncJobId(s.id), // Bug 17: Idempotent ID
-        priority: 1, 
-        removeOnComplete: { count: 100 },
-        removeOnFail: { count: 100 }
-      }
-    }));
+    const syncQueueJobs = finalSources.map(s => sourceSyncJob(s.id));
 
     // Deduplicate resolution jobs by entry ID
     const uniqueResolutionJobs = Array.from(
@@ -785,6 +799,7 @@ export async function processImportJob(jobId: string) {
           job_id: jobId, 
           matched: results.matched, 
           failed: results.failed, 
+          held_for_review: results.held,
           chapters: totalImportedChapters,
           invalid_urls: results.invalidUrls,
           duplicates: results.duplicates,
@@ -0,0 +1,317 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { logger } from "@/lib/logger";
+import { ApiError, ErrorCodes } from "@/lib/api-utils";
+import { syncSourceQueue } from "@/lib/queues";
+import { recalculateSeriesRatings } from "@/lib/series-ratings";
+import { ImportEntry, calculateSimilarity } from "./shared";
+import {
+  ImportTarget,
+  importedEntryCreate,
+  importedEntryUpdate,
+  importedRating,
+  importedSourceCreate,
+  normalizeSourceId,
+  sourceSyncJob,
+} from "./import-entries";
+
+/**
+ * Import Review
+ *
+ * Items the pipeline can't match with high confidence are held as
+ * NEEDS_REVIEW instead of being written as LibraryEntry rows. Each held item
+ * stores its candidate series (scored with calculateSimilarity) in
+ * ImportItem.review_data; the user then picks a candidate, searches manually
+ * or skips via /api/library/import/results. The job stays "needs_review"
+ * until every held item is resolved.
+ */
+
+export const REVIEW_CANDIDATE_LIMIT = 5;
+// Trigram prefilter pool, re-ranked with calculateSimilarity
+const CANDIDATE_POOL_SIZE = 20;
+
+export interface ReviewCandidate {
+  series_id: string;
+  similarity: number;
+}
+
+export interface ImportReviewData {
+  confidence: "medium" | "none";
+  source_url: string;
+  source_name: string;
+  candidates: ReviewCandidate[];
+}
+
+export interface ReviewCandidateSeries extends ReviewCandidate {
+  title: string;
+  cover_url: string | null;
+  type: string | null;
+  status: string | null;
+}
+
+export type ImportReviewDecision =
+  | { action: "pick"; series_id: string }
+  | { action: "skip" };
+
+// Titles looked up per query when candidates are fetched in bulk
+const TITLE_BATCH_SIZE = 100;
+
+// Trigram pool for each title in $1, tagged with the title it was found for
+const REVIEW_CANDIDATES_QUERY = `
+  SELECT t.query, c.id, c.title, c.alternative_titles, c.cover_url, c.type, c.status
+  FROM unnest($1::text[]) AS t(query)
+  CROSS JOIN LATERAL (
+    SELECT s.id, s.title, s.alternative_titles, s.cover_url, s.type, s.status
+    FROM series s
+    CROSS JOIN (SELECT lower(unaccent(t.query)) AS q) nq
+    WHERE s.deleted_at IS NULL
+      AND (s.content_rating IS NULL OR s.content_rating <> 'pornographic')
+      AND (
+        lower(unaccent(s.title)) % nq.q
+        OR lower(unaccent(COALESCE(s.search_index, ''))) % nq.q
+        OR lower(unaccent(s.title)) ILIKE '%' || nq.q || '%'
+      )
+    ORDER BY GREATEST(
+      similarity(lower(unaccent(s.title)), nq.q),
+      similarity(lower(unaccent(COALESCE(s.search_index, ''))), nq.q)
+    ) DESC
+    LIMIT $2::integer
+  ) c
+`;
+
+interface CandidateRow {
+  query: string;
+  id: string;
+  title: string;
+  alternative_titles: unknown;
+  cover_url: string | null;
+  type: string | null;
+  status: string | null;
+}
+
+function alternativeTitles(value: unknown): string[] {
+  if (Array.isArray(value)) return value.filter((v): v is string => typeof v === "string");
+  if (value && typeof value === "object") {
+    return Object.values(value).filter((v): v is string => typeof v === "string");
+  }
+  return [];
+}
+
+/** Best similarity between the imported title and a series title or any of its aliases. */
+export function scoreCandidate(importedTitle: string, series: { title: string; alternative_titles?: unknown }): number {
+  const titles = [series.title, ...alternativeTitles(series.alternative_titles)];
+  const best = titles.reduce((max, t) => Math.max(max, calculateSimilarity(importedTitle, t)), 0);
+  return Math.round(best * 1000) / 1000;
+}
+
+/** Trigram candidate pools for each query (queries must already be trimmed) */
+async function fetchCandidatePools(queries: string[]): Promise<Map<string, CandidateRow[]>> {
+  const pools = new Map<string, CandidateRow[]>();
+  for (let i = 0; i < queries.length; i += TITLE_BATCH_SIZE) {
+    const rows = await prisma.$queryRawUnsafe<CandidateRow[]>(
+      REVIEW_CANDIDATES_QUERY,
+      queries.slice(i, i + TITLE_BATCH_SIZE),
+      CANDIDATE_POOL_SIZE
+    );
+    for (const row of rows) {
+      const pool = pools.get(row.query) ?? [];
+      pool.push(row);
+      pools.set(row.query, pool);
+    }
+  }
+  return pools;
+}
+
+function rankCandidates(rows: CandidateRow[], scoreTitle: string, limit: number): ReviewCandidateSeries[] {
+  return rows
+    .map((row) => ({
+      series_id: row.id,
+      title: row.title,
+      cover_url: row.cover_url,
+      type: row.type,
+      status: row.status,
+      similarity: scoreCandidate(scoreTitle, row),
+    }))
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, limit);
+}
+
+/**
+ * Top candidate series for a title, ranked by calculateSimilarity.
+ * `scoreAgainst` lets manual searches be scored against the imported title
+ * rather than the search text.
+ */
+export async function findReviewCandidates(
+  query: string,
+  options: { limit?: number; scoreAgainst?: string } = {}
+): Promise<ReviewCandidateSeries[]> {
+  const trimmed = query.trim();
+  if (trimmed.length < 2) return [];
+
+  const pools = await fetchCandidatePools([trimmed]);
+  return rankCandidates(pools.get(trimmed) ?? [], options.scoreAgainst || trimmed, options.limit ?? REVIEW_CANDIDATE_LIMIT);
+}
+
+/**
+ * Candidates for many imported titles with one query per TITLE_BATCH_SIZE
+ * titles, keyed by the title as given. Used by the import pipeline for all
+ * held items of a job.
+ */
+export async function findReviewCandidatesForTitles(titles: string[]): Promise<Map<string, ReviewCandidate[]>> {
+  const queries = [...new Set(titles.map(t => t.trim()).filter(t => t.length >= 2))];
+  const pools = await fetchCandidatePools(queries);
+
+  const result = new Map<string, ReviewCandidate[]>();
+  for (const title of titles) {
+    const trimmed = title.trim();
+    const ranked = rankCandidates(pools.get(trimmed) ?? [], trimmed, REVIEW_CANDIDATE_LIMIT);
+    result.set(title, ranked.map(c => ({ series_id: c.series_id, similarity: c.similarity })));
+  }
+  return result;
+}
+
+/**
+ * Applies the user's decision for one held item. Picking writes the
+ * LibraryEntry and SeriesSource the pipeline deferred, or reconciles the
+ * import with an entry already tracking the series, the same way the
+ * pipeline does (see ./import-entries); skipping marks the item failed.
+ * Completes the job once nothing is left to review.
+ *
+ * The item is claimed inside the transaction, so of two concurrent
+ * decisions (a double click, a second tab) only one is applied; the other
+ * gets a 409.
+ */
+export async function applyImportReviewDecision(
+  userId: string,
+  item: { id: string; job_id: string; title: string; metadata: Prisma.JsonValue; review_data: Prisma.JsonValue },
+  decision: ImportReviewDecision
+): Promise<{ libraryEntryId: string | null; jobStatus: string }> {
+  const metadata = (item.metadata || {}) as unknown as Partial<ImportEntry>;
+  const entry: ImportEntry = {
+    ...metadata,
+    title: metadata.title || item.title,
+    status: metadata.status || "reading",
+    progress: metadata.progress || 0,
+  };
+  const review = (item.review_data || {}) as unknown as Partial<ImportReviewData>;
+  const sourceUrl = review.source_url || entry.source_url || `title-only:${Buffer.from(item.title).toString("base64")}`;
+  const sourceName = review.source_name || entry.source_name || "imported";
+  const sourceId = normalizeSourceId(entry.external_id || sourceUrl);
+  const ratedSeriesIds: Array<string | null> = [];
+
+  const result = await prisma.$transaction(async (tx) => {
+    let libraryEntryId: string | null = null;
+
+    const claimed = await tx.importItem.updateMany({
+      where: { id: item.id, status: "NEEDS_REVIEW" },
+      data: decision.action === "pick"
+        ? {
+            status: "SUCCESS",
+            series_id: decision.series_id,
+            reason_code: "REVIEW_PICKED",
+            reason_message: "Matched during review.",
+          }
+        : {
+            status: "FAILED",
+            reason_code: "REVIEW_SKIPPED",
+            reason_message: "Skipped during review.",
+          },
+    });
+    if (claimed.count === 0) {
+      throw new ApiError("Import item has already been reviewed", 409, ErrorCodes.CONFLICT);
+    }
+
+    if (decision.action === "pick") {
+      const existing = await tx.libraryEntry.findFirst({
+        where: {
+          user_id: userId,
+          OR: [{ series_id: decision.series_id }, { source_url: sourceUrl }],
+        },
+        select: { id: true, status: true, last_read_chapter: true, updated_at: true, user_rating: true, series_id: true },
+      });
+
+      const target: ImportTarget = {
+        userId,
+        sourceUrl,
+        sourceName,
+        // An entry already tracked under a series keeps it; the pick only fills an unresolved one
+        seriesId: existing?.series_id || decision.series_id,
+        needsReview: false,
+      };
+
+      if (existing) {
+        const update = importedEntryUpdate(existing, entry, target);
+        await tx.libraryEntry.update({
+          where: { id: existing.id },
+          data: {
+            ...update?.data,
+            series_id: target.seriesId,
+            needs_review: false,
+            deleted_at: null,
+            updated_at: new Date(),
+          },
+        });
+        if (update?.rated) ratedSeriesIds.push(target.seriesId);
+        libraryEntryId = existing.id;
+      } else {
+        const created = await tx.libraryEntry.create({
+          data: importedEntryCreate(entry, target),
+          select: { id: true },
+        });
+        if (importedRating(entry) !== null) ratedSeriesIds.push(target.seriesId);
+        libraryEntryId = created.id;
+      }
+
+      await tx.seriesSource.createMany({
+        data: [importedSourceCreate(entry, target, sourceId)],
+        skipDuplicates: true,
+      });
+
+      await tx.importJob.update({
+        where: { id: item.job_id },
+        data: { matched_items: { increment: 1 } },
+      });
+    } else {
+      await tx.importJob.update({
+        where: { id: item.job_id },
+        data: { failed_items: { increment: 1 } },
+      });
+    }
+
+    const remaining = await tx.importItem.count({
+      where: { job_id: item.job_id, status: "NEEDS_REVIEW" },
+    });
+
+    let jobStatus = "needs_review";
+    if (remaining === 0) {
+      await tx.importJob.update({
+        where: { id: item.job_id },
+        data: { status: "completed", completed_at: new Date() },
+      });
+      jobStatus = "completed";
+    }
+
+    return { libraryEntryId, jobStatus };
+  });
+
+  // Same post-commit side effects as the pipeline
+  if (decision.action === "pick") {
+    await recalculateSeriesRatings(ratedSeriesIds);
+    try {
+      const source = await prisma.seriesSource.findUnique({
+        where: { source_name_source_id: { source_name: sourceName, source_id: sourceId } },
+        select: { id: true },
+      });
+      if (source) {
+        const job = sourceSyncJob(source.id);
+        await syncSourceQueue.add(job.name, job.data, job.opts);
+      }
+    } catch (queueError: unknown) {
+      logger.error("[ImportReview] Failed to enqueue source sync", {
+        error: queueError instanceof Error ? queueError.message : String(queueError),
+      });
+    }
+  }
+
+  return result;
+}
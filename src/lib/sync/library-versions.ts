@@ -0,0 +1,234 @@
+import { Prisma } from "@prisma/client";
+import { prisma, TransactionClient } from "@/lib/prisma";
+import {
+  CanonicalEntryState,
+  FieldVersions,
+  SyncActionResult,
+  SyncChangesResponse,
+  SyncedEntryFields,
+  resolveFieldChanges,
+} from "./protocol";
+
+/**
+ * Server side of the sync protocol: reading canonical entry state (including
+ * sync_seq and the sync_xid pull cursor, which are only reachable through raw
+ * SQL) and applying versioned LIBRARY_UPDATE actions. See ./protocol for the
+ * rules.
+ */
+
+export const SYNC_CHANGES_PAGE_SIZE = 500;
+
+/** A write transaction open longer than this is reported as holding back pulls */
+export const SYNC_HORIZON_WARNING_SECONDS = 5 * 60;
+
+interface CanonicalEntryRow {
+  id: string;
+  series_id: string | null;
+  status: string;
+  user_rating: number | null;
+  last_read_chapter: Prisma.Decimal | string | number | null;
+  notification_mode: string | null;
+  deleted_at: Date | null;
+  status_version: number;
+  rating_version: number;
+  progress_version: number;
+  notification_mode_version: number;
+  sync_seq: bigint | string | number;
+}
+
+export interface LibraryUpdatePayload {
+  entryId: string;
+  status?: string;
+  rating?: number | null;
+  progress?: number;
+  notificationMode?: string;
+  baseVersions?: Partial<FieldVersions>;
+}
+
+export function toCanonicalState(row: CanonicalEntryRow): CanonicalEntryState {
+  return {
+    id: row.id,
+    series_id: row.series_id,
+    status: row.status,
+    rating: row.user_rating,
+    progress: Number(row.last_read_chapter ?? 0),
+    notification_mode: row.notification_mode,
+    deleted: row.deleted_at !== null,
+    versions: {
+      status: row.status_version,
+      rating: row.rating_version,
+      progress: row.progress_version,
+      notification_mode: row.notification_mode_version,
+    },
+    sync_seq: String(row.sync_seq),
+  };
+}
+
+/** Canonical state of the given entries, keyed by entry id. Soft-deleted entries are included. */
+export async function getCanonicalEntryStates(
+  db: TransactionClient,
+  userId: string,
+  entryIds: string[]
+): Promise<Map<string, CanonicalEntryState>> {
+  if (entryIds.length === 0) return new Map();
+
+  const rows = await db.$queryRaw<CanonicalEntryRow[]>`
+    SELECT id, series_id, status, user_rating, last_read_chapter, notification_mode, deleted_at,
+           status_version, rating_version, progress_version, notification_mode_version, sync_seq
+    FROM library_entries
+    WHERE user_id = ${userId}::uuid
+      AND id = ANY(${entryIds}::uuid[])
+  `;
+
+  return new Map(rows.map((row: CanonicalEntryRow) => [row.id, toCanonicalState(row)]));
+}
+
+interface ChangedEntryRow extends CanonicalEntryRow {
+  sync_xid: string;
+}
+
+/**
+ * Entries changed after the cursor, in commit-safe order. Deletions come back
+ * as tombstones (deleted: true) so other devices can drop them.
+ *
+ * The cursor is the writing transaction's id (sync_xid), and only rows written
+ * by transactions older than every transaction still running are returned, so
+ * a slow transaction can't commit behind a cursor a device already holds. A
+ * page never ends part-way through a transaction's rows.
+ *
+ * The horizon is database-wide: while any transaction that has written
+ * something stays open (a worker batch, a migration, a forgotten session),
+ * no change made after it started is returned to anyone, whichever table it
+ * touches. Pulls resume once it ends; getSyncHorizonStatus reports it.
+ */
+export async function getLibraryChangesSince(
+  userId: string,
+  since: bigint,
+  limit = SYNC_CHANGES_PAGE_SIZE
+): Promise<SyncChangesResponse> {
+  // pg_snapshot_xmin is the oldest running write transaction in the whole database
+  const rows = await prisma.$queryRaw<ChangedEntryRow[]>`
+    SELECT id, series_id, status, user_rating, last_read_chapter, notification_mode, deleted_at,
+           status_version, rating_version, progress_version, notification_mode_version, sync_seq,
+           sync_xid::text AS sync_xid
+    FROM library_entries
+    WHERE user_id = ${userId}::uuid
+      AND sync_xid > ${since.toString()}::xid8
+      AND sync_xid < pg_snapshot_xmin(pg_current_snapshot())
+    ORDER BY sync_xid ASC, sync_seq ASC
+    LIMIT ${limit + 1}
+  `;
+
+  const hasMore = rows.length > limit;
+  const page = rows.slice(0, limit);
+
+  // The page was cut inside one transaction's rows: finish that transaction
+  // so the cursor can move past it.
+  const last = page[page.length - 1];
+  if (hasMore && rows[limit].sync_xid === last.sync_xid) {
+    const rest = await prisma.$queryRaw<ChangedEntryRow[]>`
+      SELECT id, series_id, status, user_rating, last_read_chapter, notification_mode, deleted_at,
+             status_version, rating_version, progress_version, notification_mode_version, sync_seq,
+             sync_xid::text AS sync_xid
+      FROM library_entries
+      WHERE user_id = ${userId}::uuid
+        AND sync_xid = ${last.sync_xid}::xid8
+        AND sync_seq > ${BigInt(last.sync_seq)}
+      ORDER BY sync_seq ASC
+    `;
+    page.push(...rest);
+  }
+
+  return {
+    changes: page.map(toCanonicalState),
+    cursor: page.length > 0 ? page[page.length - 1].sync_xid : since.toString(),
+    has_more: hasMore,
+  };
+}
+
+export interface SyncHorizonStatus {
+  status: "healthy" | "warning";
+  /** Age of the oldest open write transaction, 0 when there is none */
+  oldestTransactionAgeSeconds: number;
+  oldestTransactionPid: number | null;
+  oldestTransactionState: string | null;
+}
+
+/**
+ * How long the oldest open write transaction has been holding back
+ * getLibraryChangesSince. Only transactions with an assigned id count: a
+ * read-only query doesn't move pg_snapshot_xmin. Sessions of other roles are
+ * only visible with pg_read_all_stats.
+ */
+export async function getSyncHorizonStatus(): Promise<SyncHorizonStatus> {
+  const [oldest] = await prisma.$queryRaw<Array<{ pid: number; state: string | null; age_seconds: number }>>`
+    SELECT pid, state, EXTRACT(EPOCH FROM (now() - xact_start))::float8 AS age_seconds
+    FROM pg_stat_activity
+    WHERE backend_xid IS NOT NULL
+      AND xact_start IS NOT NULL
+      AND pid <> pg_backend_pid()
+    ORDER BY xact_start ASC
+    LIMIT 1
+  `;
+
+  const age = oldest ? Math.max(0, Math.round(Number(oldest.age_seconds))) : 0;
+  return {
+    status: age >= SYNC_HORIZON_WARNING_SECONDS ? "warning" : "healthy",
+    oldestTransactionAgeSeconds: age,
+    oldestTransactionPid: oldest?.pid ?? null,
+    oldestTransactionState: oldest?.state ?? null,
+  };
+}
+
+/**
+ * Applies one LIBRARY_UPDATE against the entry's current field versions.
+ * The row is locked so concurrent replays of the same entry serialize.
+ */
+export async function applyLibraryUpdate(
+  tx: TransactionClient,
+  userId: string,
+  actionId: string,
+  payload: LibraryUpdatePayload
+): Promise<SyncActionResult> {
+  const [row] = await tx.$queryRaw<CanonicalEntryRow[]>`
+    SELECT id, series_id, status, user_rating, last_read_chapter, notification_mode, deleted_at,
+           status_version, rating_version, progress_version, notification_mode_version, sync_seq
+    FROM library_entries
+    WHERE id = ${payload.entryId}::uuid
+      AND user_id = ${userId}::uuid
+    FOR UPDATE
+  `;
+
+  if (!row || row.deleted_at) {
+    return { id: actionId, status: "error", message: "Library entry not found" };
+  }
+
+  const current = toCanonicalState(row);
+  const changes: Partial<SyncedEntryFields> = {
+    status: payload.status,
+    rating: payload.rating,
+    progress: payload.progress,
+    notification_mode: payload.notificationMode,
+  };
+  const resolution = resolveFieldChanges(
+    { values: current, versions: current.versions },
+    changes,
+    payload.baseVersions
+  );
+
+  const data: Prisma.LibraryEntryUpdateInput = {};
+  if (resolution.apply.status !== undefined) data.status = resolution.apply.status;
+  if (resolution.apply.rating !== undefined) data.user_rating = resolution.apply.rating;
+  if (resolution.apply.progress !== undefined) data.last_read_chapter = resolution.apply.progress;
+  if (resolution.apply.notification_mode !== undefined) data.notification_mode = resolution.apply.notification_mode;
+
+  if (Object.keys(data).length > 0) {
+    data.updated_at = new Date();
+    await tx.libraryEntry.update({
+      where: { id: payload.entryId },
+      data,
+    });
+  }
+
+  return { id: actionId, status: resolution.outcome, fields: resolution.fields };
+}
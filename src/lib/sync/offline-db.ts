@@ -0,0 +1,197 @@
+/**
+ * Offline Database
+ *
+ * One IndexedDB database shared by the pages and the service worker
+ * (public/sw.js opens the same database; keep the store names and version in
+ * sync with it):
+ *
+ *   library        library entry snapshot + server sync state, keyed by entry id
+ *   chapter_reads  per-chapter read state, keyed by "<series_id>:<chapter_number>"
+ *   chapter_lists  last fetched chapter list page per series, keyed by series id
+ *   outbox         queued SyncActions, keyed by action id
+ *   meta           key/value pairs (pull cursor, snapshot time)
+ *
+ * Where IndexedDB is unavailable (server render, some private modes, tests)
+ * an in-memory store with the same interface is used, so callers never have
+ * to branch.
+ */
+
+export const OFFLINE_DB_NAME = 'mangatrack-offline';
+export const OFFLINE_DB_VERSION = 1;
+
+export const OFFLINE_STORES = {
+  library: 'library',
+  chapterReads: 'chapter_reads',
+  chapterLists: 'chapter_lists',
+  outbox: 'outbox',
+  meta: 'meta',
+} as const;
+
+export type OfflineStoreName = (typeof OFFLINE_STORES)[keyof typeof OFFLINE_STORES];
+
+const KEY_PATHS: Record<OfflineStoreName, string> = {
+  library: 'id',
+  chapter_reads: 'key',
+  chapter_lists: 'series_id',
+  outbox: 'id',
+  meta: 'key',
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+const memoryStores = new Map<OfflineStoreName, Map<string, unknown>>();
+
+function hasIndexedDb(): boolean {
+  return typeof indexedDB !== 'undefined';
+}
+
+function memoryStore(store: OfflineStoreName): Map<string, unknown> {
+  let map = memoryStores.get(store);
+  if (!map) {
+    map = new Map();
+    memoryStores.set(store, map);
+  }
+  return map;
+}
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(OFFLINE_DB_NAME, OFFLINE_DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        for (const store of Object.values(OFFLINE_STORES)) {
+          if (db.objectStoreNames.contains(store)) continue;
+          const objectStore = db.createObjectStore(store, { keyPath: KEY_PATHS[store] });
+          if (store === OFFLINE_STORES.chapterReads) {
+            objectStore.createIndex('series_id', 'series_id');
+          }
+        }
+      };
+      request.onsuccess = () => {
+        const db = request.result;
+        // Another tab or the service worker upgraded the schema; reopen next time
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+        };
+        resolve(db);
+      };
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function keyOf(store: OfflineStoreName, value: unknown): string {
+  return String((value as Record<string, unknown>)[KEY_PATHS[store]]);
+}
+
+export const OfflineDb = {
+  async get<T>(store: OfflineStoreName, key: string): Promise<T | undefined> {
+    if (!hasIndexedDb()) return memoryStore(store).get(key) as T | undefined;
+    const db = await openDb();
+    return promisify(db.transaction(store).objectStore(store).get(key)) as Promise<T | undefined>;
+  },
+
+  async getAll<T>(store: OfflineStoreName): Promise<T[]> {
+    if (!hasIndexedDb()) return Array.from(memoryStore(store).values()) as T[];
+    const db = await openDb();
+    return promisify(db.transaction(store).objectStore(store).getAll()) as Promise<T[]>;
+  },
+
+  /** Records in chapter_reads for one series. */
+  async getChapterReads<T>(seriesId: string): Promise<T[]> {
+    if (!hasIndexedDb()) {
+      return Array.from(memoryStore(OFFLINE_STORES.chapterReads).values())
+        .filter((value) => (value as { series_id: string }).series_id === seriesId) as T[];
+    }
+    const db = await openDb();
+    const index = db.transaction(OFFLINE_STORES.chapterReads).objectStore(OFFLINE_STORES.chapterReads).index('series_id');
+    return promisify(index.getAll(seriesId)) as Promise<T[]>;
+  },
+
+  async put<T>(store: OfflineStoreName, value: T): Promise<void> {
+    await this.putMany(store, [value]);
+  },
+
+  async putMany<T>(store: OfflineStoreName, values: T[]): Promise<void> {
+    if (values.length === 0) return;
+    if (!hasIndexedDb()) {
+      const map = memoryStore(store);
+      for (const value of values) map.set(keyOf(store, value), value);
+      return;
+    }
+    const db = await openDb();
+    const tx = db.transaction(store, 'readwrite');
+    const objectStore = tx.objectStore(store);
+    for (const value of values) objectStore.put(value);
+    await new Promise<void>((resolve, reject) => {
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  },
+
+  /**
+   * Read-modify-write of a single store inside one readwrite transaction, so
+   * the page and the service worker can't interleave between read and write.
+   */
+  async update<T>(store: OfflineStoreName, mutate: (records: T[]) => { put?: T[]; remove?: string[] }): Promise<void> {
+    if (!hasIndexedDb()) {
+      const map = memoryStore(store);
+      const { put = [], remove = [] } = mutate(Array.from(map.values()) as T[]);
+      for (const key of remove) map.delete(key);
+      for (const value of put) map.set(keyOf(store, value), value);
+      return;
+    }
+    const db = await openDb();
+    const tx = db.transaction(store, 'readwrite');
+    const objectStore = tx.objectStore(store);
+    const records = await promisify(objectStore.getAll()) as T[];
+    const { put = [], remove = [] } = mutate(records);
+    for (const key of remove) objectStore.delete(key);
+    for (const value of put) objectStore.put(value);
+    await new Promise<void>((resolve, reject) => {
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  },
+
+  async remove(store: OfflineStoreName, key: string): Promise<void> {
+    if (!hasIndexedDb()) {
+      memoryStore(store).delete(key);
+      return;
+    }
+    const db = await openDb();
+    await promisify(db.transaction(store, 'readwrite').objectStore(store).delete(key));
+  },
+
+  async clear(store: OfflineStoreName): Promise<void> {
+    if (!hasIndexedDb()) {
+      memoryStore(store).clear();
+      return;
+    }
+    const db = await openDb();
+    await promisify(db.transaction(store, 'readwrite').objectStore(store).clear());
+  },
+
+  async getMeta<T>(key: string): Promise<T | undefined> {
+    const record = await this.get<{ key: string; value: T }>(OFFLINE_STORES.meta, key);
+    return record?.value;
+  },
+
+  async setMeta<T>(key: string, value: T): Promise<void> {
+    await this.put(OFFLINE_STORES.meta, { key, value });
+  },
+};
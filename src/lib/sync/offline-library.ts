@@ -0,0 +1,357 @@
+import type { FieldVersions } from './protocol';
+import type { SyncAction } from './outbox';
+import { OfflineDb, OFFLINE_STORES } from './offline-db';
+
+/**
+ * Offline Library Snapshot
+ *
+ * Keeps the user's library, per-chapter read states and the last seen
+ * chapter list of each series in IndexedDB, so the library and series pages
+ * can render without a connection. Queued outbox actions are overlaid on top
+ * (see applyQueuedActions) so offline edits show up immediately.
+ */
+
+// Refresh the full snapshot at most this often while online
+export const SNAPSHOT_MAX_AGE_MS = 30 * 60 * 1000;
+const SNAPSHOT_PAGE_SIZE = 200;
+const SNAPSHOT_MAX_PAGES = 50;
+const SNAPSHOT_AT_KEY = 'library_snapshot_at';
+
+/** Service worker cache of the signed-in user's library and series pages (PAGE_CACHE in public/sw.js) */
+export const OFFLINE_PAGE_CACHE = 'mangatrack-pages-v1';
+
+export interface OfflineSeriesSummary {
+  id: string;
+  title: string;
+  cover_url: string | null;
+  type: string;
+  status: string;
+  content_rating: string | null;
+}
+
+export interface OfflineLibraryEntry {
+  id: string;
+  series_id: string | null;
+  status: string;
+  user_rating: number | null;
+  last_read_chapter: number | null;
+  notification_mode: string | null;
+  metadata_status: 'pending' | 'enriched' | 'unavailable' | 'failed';
+  sync_status: 'healthy' | 'degraded' | 'failed';
+  needs_review: boolean;
+  source_url: string;
+  imported_title: string | null;
+  updated_at: string;
+  last_sync_at: string | null;
+  series: OfflineSeriesSummary | null;
+  versions?: FieldVersions;
+  sync_seq?: string;
+  /** Set on entries with queued, not yet replayed changes */
+  pending?: boolean;
+}
+
+/** A /api/library entry as it arrives over the wire (flat version columns, `Series` relation) */
+export interface LibraryApiEntry {
+  id: string;
+  series_id?: string | null;
+  status: string;
+  user_rating?: number | null;
+  /** Decimal column, serialized as a string */
+  last_read_chapter?: number | string | null;
+  notification_mode?: string | null;
+  metadata_status?: OfflineLibraryEntry['metadata_status'];
+  sync_status?: OfflineLibraryEntry['sync_status'];
+  needs_review?: boolean | null;
+  source_url?: string | null;
+  imported_title?: string | null;
+  updated_at?: string | null;
+  last_sync_at?: string | null;
+  series?: OfflineSeriesSummary | null;
+  Series?: OfflineSeriesSummary | null;
+  status_version?: number;
+  rating_version?: number;
+  progress_version?: number;
+  notification_mode_version?: number;
+}
+
+export interface OfflineChapterRead {
+  key: string;
+  series_id: string;
+  chapter_number: number;
+  is_read: boolean;
+  updated_at: number;
+}
+
+export interface OfflineChapterList<T = unknown> {
+  series_id: string;
+  chapters: T[];
+  total: number;
+  total_pages: number;
+  saved_at: number;
+}
+
+export type OfflineLibrarySort = 'latest_chapter' | 'updated' | 'title' | 'rating' | 'added';
+
+function chapterReadKey(seriesId: string, chapterNumber: number): string {
+  return `${seriesId}:${chapterNumber}`;
+}
+
+/** Maps a /api/library entry to a snapshot record. */
+export function toOfflineLibraryEntry(entry: LibraryApiEntry): OfflineLibraryEntry {
+  const { status_version, rating_version, progress_version, notification_mode_version } = entry;
+  const versions = status_version !== undefined && rating_version !== undefined
+    && progress_version !== undefined && notification_mode_version !== undefined
+    ? { status: status_version, rating: rating_version, progress: progress_version, notification_mode: notification_mode_version }
+    : undefined;
+  return {
+    id: entry.id,
+    series_id: entry.series_id ?? null,
+    status: entry.status,
+    user_rating: entry.user_rating ?? null,
+    last_read_chapter: entry.last_read_chapter !== null && entry.last_read_chapter !== undefined
+      ? Number(entry.last_read_chapter)
+      : null,
+    notification_mode: entry.notification_mode ?? null,
+    metadata_status: entry.metadata_status ?? 'pending',
+    sync_status: entry.sync_status ?? 'healthy',
+    needs_review: !!entry.needs_review,
+    source_url: entry.source_url ?? '',
+    imported_title: entry.imported_title ?? null,
+    updated_at: entry.updated_at ?? new Date().toISOString(),
+    last_sync_at: entry.last_sync_at ?? null,
+    series: entry.series ?? entry.Series ?? null,
+    versions,
+  };
+}
+
+/**
+ * Replaces the library snapshot with a fresh copy from /api/library.
+ * Sync cursors already stored on records are kept so pulls stay incremental.
+ * Skipped when the snapshot is younger than SNAPSHOT_MAX_AGE_MS unless forced.
+ */
+export async function refreshLibrarySnapshot(options: { force?: boolean } = {}): Promise<boolean> {
+  if (typeof window === 'undefined' || !navigator.onLine) return false;
+
+  const savedAt = await OfflineDb.getMeta<number>(SNAPSHOT_AT_KEY);
+  if (!options.force && savedAt && Date.now() - savedAt < SNAPSHOT_MAX_AGE_MS) return false;
+
+  const fetched: OfflineLibraryEntry[] = [];
+  for (let page = 0; page < SNAPSHOT_MAX_PAGES; page++) {
+    const params = new URLSearchParams({
+      sort: 'updated',
+      limit: String(SNAPSHOT_PAGE_SIZE),
+      offset: String(page * SNAPSHOT_PAGE_SIZE),
+    });
+    const res = await fetch(`/api/library?${params.toString()}`, { credentials: 'include' });
+    if (!res.ok) return false;
+    const data = await res.json();
+    fetched.push(...(data.entries || []).map(toOfflineLibraryEntry));
+    if (!data.pagination?.hasMore) break;
+  }
+
+  await OfflineDb.update<OfflineLibraryEntry>(OFFLINE_STORES.library, (records) => {
+    const existing = new Map(records.map(r => [r.id, r]));
+    const fetchedIds = new Set(fetched.map(e => e.id));
+    return {
+      put: fetched.map(entry => ({
+        ...entry,
+        versions: entry.versions ?? existing.get(entry.id)?.versions,
+        sync_seq: existing.get(entry.id)?.sync_seq,
+      })),
+      remove: records.filter(r => !fetchedIds.has(r.id)).map(r => r.id),
+    };
+  });
+  await OfflineDb.setMeta(SNAPSHOT_AT_KEY, Date.now());
+  return true;
+}
+
+/** Merges entries the page just fetched into the snapshot without touching the others. */
+export async function saveLibraryEntries(entries: LibraryApiEntry[]): Promise<void> {
+  const incoming = entries.map(toOfflineLibraryEntry);
+  await OfflineDb.update<OfflineLibraryEntry>(OFFLINE_STORES.library, (records) => {
+    const existing = new Map(records.map(r => [r.id, r]));
+    return {
+      put: incoming.map(entry => ({
+        ...existing.get(entry.id),
+        ...entry,
+        // Cached /api/library responses may predate notification_mode; keep the synced one
+        notification_mode: entry.notification_mode ?? existing.get(entry.id)?.notification_mode ?? null,
+        versions: entry.versions ?? existing.get(entry.id)?.versions,
+        sync_seq: existing.get(entry.id)?.sync_seq,
+      })),
+    };
+  });
+}
+
+/**
+ * Overlays queued outbox actions on snapshot entries: status/rating edits,
+ * read progress, removals, and queued adds (as placeholder entries). Entries
+ * touched by a queued action are flagged `pending`.
+ */
+export function applyQueuedActions(
+  entries: OfflineLibraryEntry[],
+  actions: SyncAction[],
+  seriesTitles: Record<string, string> = {}
+): OfflineLibraryEntry[] {
+  const byId = new Map(entries.map(e => [e.id, { ...e }]));
+  const seriesInLibrary = new Set(entries.map(e => e.series_id).filter(Boolean));
+
+  for (const action of [...actions].sort((a, b) => a.timestamp - b.timestamp)) {
+    const { payload } = action;
+    const entry = payload?.entryId ? byId.get(payload.entryId) : undefined;
+
+    switch (action.type) {
+      case 'LIBRARY_UPDATE':
+        if (!entry) break;
+        if (payload.status !== undefined) entry.status = payload.status;
+        if (payload.rating !== undefined) entry.user_rating = payload.rating;
+        if (payload.progress !== undefined) entry.last_read_chapter = payload.progress;
+        if (payload.notificationMode !== undefined) entry.notification_mode = payload.notificationMode;
+        entry.updated_at = new Date(action.timestamp).toISOString();
+        entry.pending = true;
+        break;
+      case 'CHAPTER_READ':
+        if (!entry || payload.isRead === false) break;
+        if (Number(payload.chapterNumber) > Number(entry.last_read_chapter ?? 0)) {
+          entry.last_read_chapter = Number(payload.chapterNumber);
+          entry.updated_at = new Date(action.timestamp).toISOString();
+          entry.pending = true;
+        }
+        break;
+      case 'LIBRARY_DELETE':
+        byId.delete(payload.entryId);
+        break;
+      case 'LIBRARY_ADD': {
+        if (!payload.seriesId || seriesInLibrary.has(payload.seriesId)) break;
+        const title = payload.seriesTitle || seriesTitles[payload.seriesId] || 'Queued series';
+        byId.set(`pending:${action.id}`, {
+          id: `pending:${action.id}`,
+          series_id: payload.seriesId,
+          status: payload.status || 'reading',
+          user_rating: null,
+          last_read_chapter: 0,
+          notification_mode: 'default',
+          metadata_status: 'enriched',
+          sync_status: 'healthy',
+          needs_review: false,
+          source_url: '',
+          imported_title: title,
+          updated_at: new Date(action.timestamp).toISOString(),
+          last_sync_at: null,
+          series: payload.seriesCover !== undefined
+            ? { id: payload.seriesId, title, cover_url: payload.seriesCover, type: 'manga', status: 'ongoing', content_rating: null }
+            : null,
+          pending: true,
+        });
+        seriesInLibrary.add(payload.seriesId);
+        break;
+      }
+    }
+  }
+
+  return Array.from(byId.values());
+}
+
+/**
+ * Filters and sorts the snapshot like GET /api/library does, for rendering
+ * the library page offline.
+ */
+export function queryOfflineLibrary(
+  entries: OfflineLibraryEntry[],
+  options: { q?: string; status?: string; sort?: string }
+): OfflineLibraryEntry[] {
+  const q = options.q?.trim().toLowerCase();
+  const filtered = entries.filter(entry => {
+    if (options.status && options.status !== 'all' && entry.status !== options.status) return false;
+    if (q) {
+      const title = (entry.series?.title || entry.imported_title || '').toLowerCase();
+      if (!title.includes(q)) return false;
+    }
+    return true;
+  });
+
+  const title = (e: OfflineLibraryEntry) => e.series?.title || e.imported_title || '';
+  switch (options.sort as OfflineLibrarySort) {
+    case 'title':
+      return filtered.sort((a, b) => title(a).localeCompare(title(b)));
+    case 'rating':
+      return filtered.sort((a, b) => (b.user_rating ?? -1) - (a.user_rating ?? -1));
+    default:
+      // The snapshot has no chapter dates; recent activity is the closest offline order
+      return filtered.sort((a, b) => Date.parse(b.updated_at) - Date.parse(a.updated_at));
+  }
+}
+
+/**
+ * Wipes everything stored for the signed-in user, queued actions included
+ * (they would otherwise replay under the next account), and the pages the
+ * service worker cached for offline use. Called on sign-out.
+ */
+export async function clearOfflineData(): Promise<void> {
+  await Promise.all([
+    ...Object.values(OFFLINE_STORES).map(store => OfflineDb.clear(store)),
+    typeof caches !== 'undefined' ? caches.delete(OFFLINE_PAGE_CACHE) : Promise.resolve(false),
+  ]);
+}
+
+export async function getOfflineLibrary(): Promise<OfflineLibraryEntry[]> {
+  return OfflineDb.getAll<OfflineLibraryEntry>(OFFLINE_STORES.library);
+}
+
+export async function getOfflineLibraryEntryForSeries(seriesId: string): Promise<OfflineLibraryEntry | undefined> {
+  const entries = await getOfflineLibrary();
+  return entries.find(e => e.series_id === seriesId);
+}
+
+/** Stores the chapter list page the series page just fetched, plus its read states. */
+export async function saveChapterList<T extends { chapter_number: number; is_read: boolean }>(
+  seriesId: string,
+  list: { chapters: T[]; total: number; total_pages: number }
+): Promise<void> {
+  await OfflineDb.put<OfflineChapterList<T>>(OFFLINE_STORES.chapterLists, {
+    series_id: seriesId,
+    chapters: list.chapters,
+    total: list.total,
+    total_pages: list.total_pages,
+    saved_at: Date.now(),
+  });
+  await recordChapterReads(seriesId, list.chapters.map(c => ({ chapter_number: Number(c.chapter_number), is_read: c.is_read })));
+}
+
+export async function getChapterList<T>(seriesId: string): Promise<OfflineChapterList<T> | undefined> {
+  return OfflineDb.get<OfflineChapterList<T>>(OFFLINE_STORES.chapterLists, seriesId);
+}
+
+export async function recordChapterReads(
+  seriesId: string,
+  reads: Array<{ chapter_number: number; is_read: boolean }>
+): Promise<void> {
+  const now = Date.now();
+  await OfflineDb.putMany<OfflineChapterRead>(OFFLINE_STORES.chapterReads, reads.map(read => ({
+    key: chapterReadKey(seriesId, read.chapter_number),
+    series_id: seriesId,
+    chapter_number: read.chapter_number,
+    is_read: read.is_read,
+    updated_at: now,
+  })));
+}
+
+/**
+ * Read chapter numbers for a series: stored read states plus queued
+ * CHAPTER_READ actions for its library entry.
+ */
+export async function getReadChapterNumbers(
+  seriesId: string,
+  entryId: string | null,
+  actions: SyncAction[]
+): Promise<Set<number>> {
+  const reads = await OfflineDb.getChapterReads<OfflineChapterRead>(seriesId);
+  const readNumbers = new Set(reads.filter(r => r.is_read).map(r => r.chapter_number));
+  for (const action of actions) {
+    if (action.type !== 'CHAPTER_READ' || action.payload?.entryId !== entryId) continue;
+    const chapterNumber = Number(action.payload.chapterNumber);
+    if (action.payload.isRead === false) readNumbers.delete(chapterNumber);
+    else readNumbers.add(chapterNumber);
+  }
+  return readNumbers;
+}
@@ -1,4 +1,6 @@
 import { getDeviceId } from './device';
+import { SyncState } from './state';
+import { OfflineDb, OFFLINE_STORES } from './offline-db';
 
 export type SyncActionType = 'LIBRARY_UPDATE' | 'CHAPTER_READ' | 'SETTING_UPDATE' | 'LIBRARY_DELETE' | 'LIBRARY_ADD';
 
@@ -11,17 +13,43 @@ export interface SyncAction {
   retryCount: number;
 }
 
-const OUTBOX_KEY = 'mangatrack_sync_outbox';
+// Pre-IndexedDB outbox; drained into the outbox store on first use
+const LEGACY_OUTBOX_KEY = 'mangatrack_sync_outbox';
+
+let legacyMigration: Promise<void> | null = null;
+
+function migrateLegacyOutbox(): Promise<void> {
+  if (!legacyMigration) {
+    legacyMigration = (async () => {
+      if (typeof localStorage === 'undefined') return;
+      const stored = localStorage.getItem(LEGACY_OUTBOX_KEY);
+      if (!stored) return;
+      try {
+        await OfflineDb.putMany<SyncAction>(OFFLINE_STORES.outbox, JSON.parse(stored));
+      } catch {
+        // Corrupt legacy outbox; nothing recoverable
+      }
+      localStorage.removeItem(LEGACY_OUTBOX_KEY);
+    })();
+  }
+  return legacyMigration;
+}
+
+function notifyOutboxUpdated() {
+  if (typeof window === 'undefined') return;
+  window.dispatchEvent(new Event('sync-outbox-updated'));
+}
 
 export const SyncOutbox = {
-  getActions(): SyncAction[] {
+  async getActions(): Promise<SyncAction[]> {
     if (typeof window === 'undefined') return [];
-    const stored = localStorage.getItem(OUTBOX_KEY);
-    return stored ? JSON.parse(stored) : [];
+    await migrateLegacyOutbox();
+    const actions = await OfflineDb.getAll<SyncAction>(OFFLINE_STORES.outbox);
+    return actions.sort((a, b) => a.timestamp - b.timestamp);
   },
 
-  enqueue(type: SyncActionType, payload: any) {
-    const actions = this.getActions();
+  async enqueue(type: SyncActionType, payload: any): Promise<string> {
+    await migrateLegacyOutbox();
     const newAction: SyncAction = {
       id: crypto.randomUUID(),
       type,
@@ -30,61 +58,66 @@ export const SyncOutbox = {
       deviceId: getDeviceId(),
       retryCount: 0,
     };
-    
+    // Read before opening the outbox transaction (it can't span stores)
+    const knownVersions = type === 'LIBRARY_UPDATE' ? await SyncState.getVersions(payload.entryId) : undefined;
+    let resultId = newAction.id;
+
     // Deduplication logic
-    let updatedActions = actions;
-    if (type === 'CHAPTER_READ') {
-      // Keep only the highest chapter for the same series (v2.2.0)
-      const existing = actions.find(a => 
-        a.type === 'CHAPTER_READ' && a.payload.entryId === payload.entryId
-      );
-      
-      if (existing) {
-        if (payload.chapterNumber > existing.payload.chapterNumber) {
-          updatedActions = actions.filter(a => a.id !== existing.id);
-        } else {
-          // New chapter is lower or equal, ignore it
-          return existing.id;
+    await OfflineDb.update<SyncAction>(OFFLINE_STORES.outbox, (actions) => {
+      const remove: string[] = [];
+      if (type === 'CHAPTER_READ') {
+        // Keep only the highest chapter for the same series (v2.2.0)
+        const existing = actions.find(a =>
+          a.type === 'CHAPTER_READ' && a.payload.entryId === payload.entryId
+        );
+
+        if (existing) {
+          if (payload.chapterNumber > existing.payload.chapterNumber) {
+            remove.push(existing.id);
+          } else {
+            // New chapter is lower or equal, ignore it
+            resultId = existing.id;
+            return {};
+          }
         }
+      } else if (type === 'LIBRARY_UPDATE') {
+        // Fold pending updates to the same entry into one action. The base
+        // versions are the ones seen before the first local edit, so the server
+        // can tell whether another device changed a field in between.
+        const existing = actions.find(a =>
+          a.type === 'LIBRARY_UPDATE' && a.payload.entryId === payload.entryId
+        );
+        const baseVersions = existing?.payload.baseVersions ?? payload.baseVersions ?? knownVersions;
+        newAction.payload = { ...existing?.payload, ...payload, baseVersions };
+        if (existing) remove.push(existing.id);
+      } else if (type === 'LIBRARY_ADD') {
+        // If we're adding the same series, keep only the latest add action
+        remove.push(...actions
+          .filter(a => a.type === 'LIBRARY_ADD' && a.payload.seriesId === payload.seriesId)
+          .map(a => a.id));
       }
-    } else if (type === 'LIBRARY_UPDATE') {
-      // If we're updating the same entry, keep only the latest update
-      updatedActions = actions.filter(a => 
-        !(a.type === 'LIBRARY_UPDATE' && a.payload.entryId === payload.entryId)
-      );
-    } else if (type === 'LIBRARY_ADD') {
-      // If we're adding the same series, keep only the latest add action
-      updatedActions = actions.filter(a => 
-        !(a.type === 'LIBRARY_ADD' && a.payload.seriesId === payload.seriesId)
-      );
-    }
+      return { put: [newAction], remove };
+    });
 
-    updatedActions.push(newAction);
-    localStorage.setItem(OUTBOX_KEY, JSON.stringify(updatedActions));
-    
     // Dispatch event for hooks to listen to
-    window.dispatchEvent(new Event('sync-outbox-updated'));
-    return newAction.id;
+    notifyOutboxUpdated();
+    return resultId;
   },
 
-  dequeue(id: string) {
-    const actions = this.getActions();
-    const updated = actions.filter(a => a.id !== id);
-    localStorage.setItem(OUTBOX_KEY, JSON.stringify(updated));
-    window.dispatchEvent(new Event('sync-outbox-updated'));
+  async dequeue(id: string) {
+    await OfflineDb.remove(OFFLINE_STORES.outbox, id);
+    notifyOutboxUpdated();
   },
 
-  updateRetry(id: string) {
-    const actions = this.getActions();
-    const action = actions.find(a => a.id === id);
-    if (action) {
-      action.retryCount += 1;
-      localStorage.setItem(OUTBOX_KEY, JSON.stringify(actions));
-    }
+  async updateRetry(id: string) {
+    await OfflineDb.update<SyncAction>(OFFLINE_STORES.outbox, (actions) => {
+      const action = actions.find(a => a.id === id);
+      return action ? { put: [{ ...action, retryCount: action.retryCount + 1 }] } : {};
+    });
   },
 
-  clear() {
-    localStorage.removeItem(OUTBOX_KEY);
-    window.dispatchEvent(new Event('sync-outbox-updated'));
+  async clear() {
+    await OfflineDb.clear(OFFLINE_STORES.outbox);
+    notifyOutboxUpdated();
   }
 };
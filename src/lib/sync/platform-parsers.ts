@@ -0,0 +1,118 @@
+import { parseCSV } from "./csv-parser";
+import { identifyPlatformUrl, mangaUpdatesSeriesUrl } from "./platform-urls";
+import type { ImportEntry } from "./shared";
+
+/**
+ * Parsers for list exports from other trackers.
+ *
+ * Each parser emits ImportEntry rows with source_url / external_id filled in
+ * whenever the export carries them, so the import pipeline can match by
+ * platform id (exact_url) instead of falling back to title similarity.
+ * They run client-side in PlatformImport, so only client-safe imports here.
+ */
+
+/**
+ * Fills external_id / source_platform from a known platform URL
+ * (MangaDex, MangaUpdates, ...) unless the export already provided them.
+ */
+function withPlatformIds(entry: ImportEntry): ImportEntry {
+  const platformInfo = identifyPlatformUrl(entry.source_url);
+  if (!platformInfo) return entry;
+  return {
+    ...entry,
+    external_id: entry.external_id || platformInfo.id,
+    source_platform: platformInfo.platform,
+    source_name: entry.source_name || platformInfo.platform,
+  };
+}
+
+const KENMEI_STATUS: Record<string, string> = {
+  reading: "reading",
+  rereading: "reading",
+  plan_to_read: "planning",
+  completed: "completed",
+  on_hold: "paused",
+  dropped: "dropped",
+};
+
+/**
+ * Kenmei CSV export.
+ * Columns: title, status, last_volume_read, last_chapter_read, last_read_at,
+ * series_url, tracked_site, ... (handled by parseCSV's header aliases).
+ * Kenmei statuses are snake_case (plan_to_read, on_hold) and tracked_site is a
+ * display name ("MangaDex"), so both are normalized here.
+ */
+export function parseKenmeiCSV(csvText: string): ImportEntry[] {
+  return parseCSV(csvText).map((entry) =>
+    withPlatformIds({
+      ...entry,
+      status: KENMEI_STATUS[entry.status.toLowerCase().trim()] || "reading",
+      source_platform: entry.source_platform?.toLowerCase(),
+      source_name: entry.source_name?.toLowerCase(),
+    })
+  );
+}
+
+/** MangaUpdates default list ids; custom lists are treated as reading */
+const MANGAUPDATES_LIST_STATUS: Record<number, string> = {
+  0: "reading",
+  1: "planning",
+  2: "completed",
+  3: "dropped",
+  4: "paused",
+};
+
+interface MangaUpdatesListRecord {
+  series?: { id?: number | string; url?: string; title?: string };
+  list_id?: number;
+  status?: { volume?: number | null; chapter?: number | null };
+  time_added?: { timestamp?: number } | null;
+}
+
+/**
+ * MangaUpdates reading list, as returned by the lists API
+ * (`POST /v1/lists/{id}/search`) or saved from the account's list export.
+ * Accepts the raw response ({ results: [{ record }] }), a bare array of
+ * results, or a bare array of records.
+ */
+export function parseMangaUpdatesList(jsonText: string): ImportEntry[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(jsonText.replace(/^\uFEFF/, ""));
+  } catch {
+    throw new Error("Failed to parse MangaUpdates list file");
+  }
+
+  const rows: unknown[] = Array.isArray(data)
+    ? data
+    : Array.isArray((data as { results?: unknown[] })?.results)
+      ? (data as { results: unknown[] }).results
+      : [];
+
+  const entries: ImportEntry[] = [];
+  for (const row of rows) {
+    if (!row || typeof row !== "object") continue;
+    const record = ((row as { record?: MangaUpdatesListRecord }).record || row) as MangaUpdatesListRecord;
+    const title = record.series?.title?.trim();
+    if (!title) continue;
+
+    const seriesId = record.series?.id !== undefined ? String(record.series.id) : undefined;
+    const sourceUrl = record.series?.url
+      || (seriesId && /^\d+$/.test(seriesId)
+        ? mangaUpdatesSeriesUrl(seriesId)
+        : undefined);
+
+    entries.push(withPlatformIds({
+      title,
+      status: MANGAUPDATES_LIST_STATUS[record.list_id ?? 0] || "reading",
+      progress: Math.max(0, Math.floor(Number(record.status?.chapter) || 0)),
+      last_updated: record.time_added?.timestamp ? record.time_added.timestamp * 1000 : undefined,
+      external_id: seriesId,
+      source_platform: "mangaupdates",
+      source_url: sourceUrl,
+      source_name: "mangaupdates",
+    }));
+  }
+
+  return entries;
+}
@@ -0,0 +1,45 @@
+/**
+ * Client-safe platform URL helpers.
+ *
+ * The import parsers run in the browser (PlatformImport), so they can't use
+ * extractPlatformIds() from ./shared, which pulls in server-only modules.
+ * These helpers only cover the tracker URLs the parsers emit.
+ */
+
+export interface PlatformUrlInfo {
+  platform: "mangadex" | "mangaupdates" | "anilist" | "myanimelist";
+  id: string;
+}
+
+/**
+ * MangaUpdates series URLs (https://www.mangaupdates.com/series/BASE36/slug)
+ * encode the numeric API series id in base36.
+ */
+export function parseMangaUpdatesSeriesId(url: string | undefined): string | null {
+  const match = url?.match(/mangaupdates\.com\/series\/([a-z0-9]+)(?:[/?#]|$)/i);
+  if (!match) return null;
+  const id = parseInt(match[1], 36);
+  return Number.isSafeInteger(id) && id > 0 ? String(id) : null;
+}
+
+export function mangaUpdatesSeriesUrl(seriesId: number | bigint | string): string {
+  return `https://www.mangaupdates.com/series/${BigInt(seriesId).toString(36)}`;
+}
+
+export function identifyPlatformUrl(url: string | undefined): PlatformUrlInfo | null {
+  if (!url) return null;
+
+  const mangadex = url.match(/mangadex\.org\/(?:title|manga)\/([a-f0-9-]{36})/i);
+  if (mangadex) return { platform: "mangadex", id: mangadex[1].toLowerCase() };
+
+  const mangaupdates = parseMangaUpdatesSeriesId(url);
+  if (mangaupdates) return { platform: "mangaupdates", id: mangaupdates };
+
+  const anilist = url.match(/anilist\.co\/manga\/(\d+)/i);
+  if (anilist) return { platform: "anilist", id: anilist[1] };
+
+  const mal = url.match(/myanimelist\.net\/manga\/(\d+)/i);
+  if (mal) return { platform: "myanimelist", id: mal[1] };
+
+  return null;
+}
@@ -0,0 +1,114 @@
+/**
+ * Sync Protocol
+ *
+ * Library entries carry a server-issued version per synced field (bumped by a
+ * database trigger whenever the field changes). Devices send the versions
+ * they last saw with each LIBRARY_UPDATE; the server applies a field only if
+ * nobody changed it since, and answers every action with an outcome plus the
+ * canonical entry state. Devices that missed changes catch up through
+ * /api/sync/changes?since=<cursor>.
+ *
+ * Shared by the client (outbox, reconciler) and the server (replay route), so
+ * this module must stay free of server-only imports.
+ */
+
+export const SYNC_FIELDS = ["status", "rating", "progress", "notification_mode"] as const;
+export type SyncField = (typeof SYNC_FIELDS)[number];
+
+export type FieldVersions = Record<SyncField, number>;
+
+export const LIBRARY_STATUSES = ["reading", "completed", "planning", "dropped", "paused"] as const;
+export const NOTIFICATION_MODES = ["default", "immediate", "digest", "muted"] as const;
+
+export interface SyncedEntryFields {
+  status: string;
+  /** Canonical 0-100 score (see lib/ratings) */
+  rating: number | null;
+  progress: number;
+  notification_mode: string | null;
+}
+
+export interface CanonicalEntryState extends SyncedEntryFields {
+  id: string;
+  series_id: string | null;
+  deleted: boolean;
+  versions: FieldVersions;
+  /** Change sequence of this state; a newer state of the entry has a higher one (stringified BIGINT) */
+  sync_seq: string;
+}
+
+/**
+ * accepted: every change applied. rejected: the server kept its values.
+ * merged: some changes applied, others lost to newer server values.
+ */
+export type SyncOutcome = "accepted" | "rejected" | "merged";
+
+export interface SyncActionResult {
+  id: string;
+  status: SyncOutcome | "error" | "skipped";
+  fields?: Partial<Record<SyncField, "accepted" | "rejected">>;
+  entry?: CanonicalEntryState;
+  message?: string;
+}
+
+export interface SyncChangesResponse {
+  changes: CanonicalEntryState[];
+  /** Opaque pull cursor for the next ?since= (stringified 64-bit integer) */
+  cursor: string;
+  has_more: boolean;
+}
+
+export interface FieldResolution {
+  apply: Partial<SyncedEntryFields>;
+  fields: Partial<Record<SyncField, "accepted" | "rejected">>;
+  outcome: SyncOutcome;
+}
+
+/**
+ * Decides which client changes to apply against the current server state.
+ *
+ * A change whose base version matches the server (or that carries no base
+ * version, from clients predating versioning) is accepted. A change based on
+ * a stale version is rejected, except progress, which only conflicts when it
+ * would move backwards: concurrent reads on two devices keep the furthest one.
+ * Changes that already match the server are accepted without a write.
+ */
+export function resolveFieldChanges(
+  current: { values: SyncedEntryFields; versions: FieldVersions },
+  changes: Partial<SyncedEntryFields>,
+  baseVersions: Partial<FieldVersions> = {}
+): FieldResolution {
+  const apply: Partial<SyncedEntryFields> = {};
+  const fields: FieldResolution["fields"] = {};
+
+  for (const field of SYNC_FIELDS) {
+    if (!(field in changes) || changes[field] === undefined) continue;
+    const incoming = changes[field];
+
+    if (incoming === current.values[field]) {
+      fields[field] = "accepted";
+      continue;
+    }
+
+    const base = baseVersions[field];
+    const stale = base !== undefined && base < current.versions[field];
+    const wins = !stale || (field === "progress" && Number(incoming) > current.values.progress);
+
+    if (wins) {
+      (apply as Record<SyncField, unknown>)[field] = incoming;
+      fields[field] = "accepted";
+    } else {
+      fields[field] = "rejected";
+    }
+  }
+
+  const outcomes = Object.values(fields);
+  let outcome: SyncOutcome = "accepted";
+  if (outcomes.length > 0 && outcomes.every((o) => o === "rejected")) {
+    outcome = "rejected";
+  } else if (outcomes.includes("rejected")) {
+    outcome = "merged";
+  }
+
+  return { apply, fields, outcome };
+}
@@ -1,7 +1,14 @@
 import { SyncAction, SyncOutbox } from './outbox';
+import { SyncState } from './state';
+import type { CanonicalEntryState, SyncActionResult, SyncChangesResponse } from './protocol';
 import { logger } from '../logger';
 
 const MAX_RETRIES = 5;
+// Upper bound on pages fetched per pull; the rest is picked up next time
+const MAX_PULL_PAGES = 20;
+
+// Actions the server resolves against field versions in /api/sync/replay
+const REPLAYED_ACTION_TYPES = new Set(['CHAPTER_READ', 'LIBRARY_UPDATE']);
 
 // Helper to safely execute fetch with timeout and error handling
 async function safeFetch(url: string, options: RequestInit, timeoutMs = 10000): Promise<Response> {
@@ -36,9 +43,9 @@ function isAuthError(status: number): boolean {
 }
 
 // Handle auth errors by clearing the action (user needs to re-authenticate)
-function handleAuthError(actionId: string, actionType: string): void {
+async function handleAuthError(actionId: string, actionType: string): Promise<void> {
   logger.warn(`[Sync] Auth error for ${actionType} - removing action ${actionId}. User needs to re-authenticate.`);
-  SyncOutbox.dequeue(actionId);
+  await SyncOutbox.dequeue(actionId);
 }
 
 export const SyncReconciler = {
@@ -50,7 +57,7 @@ export const SyncReconciler = {
         return;
       }
 
-    const actions = SyncOutbox.getActions();
+    const actions = await SyncOutbox.getActions();
     if (actions.length === 0) return;
 
     // Sort by timestamp to preserve order of operations
@@ -59,47 +66,42 @@ export const SyncReconciler = {
     // 1. Remove actions that have exceeded max retries FIRST
     const expiredActions = sortedActions.filter(a => a.retryCount >= MAX_RETRIES);
     for (const action of expiredActions) {
-        SyncOutbox.dequeue(action.id);
+        await SyncOutbox.dequeue(action.id);
     }
 
     // Filter out expired actions for processing
     const validActions = sortedActions.filter(a => a.retryCount < MAX_RETRIES);
 
     // 2. Group actions for batch processing if possible
-    const chapterReadActions = validActions.filter(a => a.type === 'CHAPTER_READ');
-    const otherActions = validActions.filter(a => a.type !== 'CHAPTER_READ');
+    const replayActions = validActions.filter(a => REPLAYED_ACTION_TYPES.has(a.type));
+    const otherActions = validActions.filter(a => !REPLAYED_ACTION_TYPES.has(a.type));
 
-    // 3. Batch replay CHAPTER_READ
-    if (chapterReadActions.length > 0) {
+    // 3. Batch replay versioned actions; the server answers each with an
+    // outcome and the canonical entry state
+    if (replayActions.length > 0) {
       try {
         const response = await safeFetch('/api/sync/replay', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ actions: chapterReadActions }),
+          body: JSON.stringify({ actions: replayActions }),
           credentials: 'include',
         });
 
         if (response.ok) {
-            const { results } = await response.json();
-            for (const res of results) {
-              if (res.status === 'success') {
-                SyncOutbox.dequeue(res.id);
-              } else {
-                SyncOutbox.updateRetry(res.id);
-              }
-            }
+            const { results } = await response.json() as { results: SyncActionResult[] };
+            await this.applyReplayResults(results);
           } else if (isAuthError(response.status)) {
             // Auth error - clear all actions in this batch, user needs to re-login
-            chapterReadActions.forEach(a => handleAuthError(a.id, 'CHAPTER_READ_BATCH'));
+            for (const a of replayActions) await handleAuthError(a.id, `${a.type}_BATCH`);
           } else {
-             chapterReadActions.forEach(a => SyncOutbox.updateRetry(a.id));
+             for (const a of replayActions) await SyncOutbox.updateRetry(a.id);
           }
       } catch (error: unknown) {
         // Only log if not a simple network error
         if (!isNetworkError(error)) {
             logger.error('[Sync] Batch sync failed', { error: error instanceof Error ? error.message : String(error) });
         }
-        chapterReadActions.forEach(a => SyncOutbox.updateRetry(a.id));
+        for (const a of replayActions) await SyncOutbox.updateRetry(a.id);
       }
     }
 
@@ -108,15 +110,69 @@ export const SyncReconciler = {
       try {
         const success = await this.executeAction(action);
         if (success) {
-          SyncOutbox.dequeue(action.id);
+          await SyncOutbox.dequeue(action.id);
         } else {
-          SyncOutbox.updateRetry(action.id);
+          await SyncOutbox.updateRetry(action.id);
         }
       } catch (error: unknown) {
         if (!isNetworkError(error)) {
             logger.error(`[Sync] Failed to process action ${action.id}`, { error: error instanceof Error ? error.message : String(error) });
         }
-        SyncOutbox.updateRetry(action.id);
+        await SyncOutbox.updateRetry(action.id);
+      }
+    }
+  },
+
+  /**
+   * Settles replayed actions. Accepted, rejected and merged actions are final
+   * (rejected ones lost to a newer server value); their canonical entry state
+   * replaces the local copy. Errors are retried.
+   */
+  async applyReplayResults(results: SyncActionResult[]) {
+    const entries: CanonicalEntryState[] = [];
+    for (const res of results) {
+      if (res.status === 'error') {
+        await SyncOutbox.updateRetry(res.id);
+        continue;
+      }
+      if (res.status === 'rejected' || res.status === 'merged') {
+        logger.info(`[Sync] Action ${res.id} ${res.status} by server`, { fields: res.fields });
+      }
+      await SyncOutbox.dequeue(res.id);
+      if (res.entry) entries.push(res.entry);
+    }
+    await SyncState.applyEntries(entries);
+  },
+
+  /**
+   * Pulls library changes made elsewhere (other devices, the web app while
+   * this one was offline) since the stored cursor and applies them locally.
+   */
+  async pullChanges() {
+    if (typeof window === 'undefined' || !navigator.onLine) return;
+
+    try {
+      for (let page = 0; page < MAX_PULL_PAGES; page++) {
+        const cursor = await SyncState.getCursor();
+        const response = await safeFetch(`/api/sync/changes?since=${encodeURIComponent(cursor)}`, {
+          method: 'GET',
+          credentials: 'include',
+        });
+
+        if (!response.ok) {
+          if (!isAuthError(response.status)) {
+            logger.warn(`[Sync] Pull failed [${response.status}]`);
+          }
+          return;
+        }
+
+        const data = await response.json() as SyncChangesResponse;
+        await SyncState.applyEntries(data.changes, data.cursor);
+        if (!data.has_more) return;
+      }
+    } catch (error: unknown) {
+      if (!isNetworkError(error)) {
+        logger.error('[Sync] Pull failed', { error: error instanceof Error ? error.message : String(error) });
       }
     }
   },
@@ -127,8 +183,6 @@ export const SyncReconciler = {
     switch (type) {
         case 'CHAPTER_READ':
           return this.handleChapterRead(action);
-        case 'LIBRARY_UPDATE':
-          return this.handleLibraryUpdate(payload);
           case 'LIBRARY_DELETE':
             return this.handleLibraryDelete(payload);
           case 'LIBRARY_ADD':
@@ -156,7 +210,7 @@ export const SyncReconciler = {
 
     // Auth errors should be handled specially - don't retry
     if (isAuthError(response.status)) {
-      handleAuthError(action.id, 'CHAPTER_READ');
+      await handleAuthError(action.id, 'CHAPTER_READ');
       return true; // Return true to prevent additional retry logic
     }
 
@@ -172,34 +226,6 @@ export const SyncReconciler = {
     return response.ok || response.status === 409;
   },
 
-  async handleLibraryUpdate(payload: { entryId: string; status?: string; rating?: number }) {
-    const response = await fetch(`/api/library/${payload.entryId}`, {
-      method: 'PATCH',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        status: payload.status,
-        rating: payload.rating,
-      }),
-      credentials: 'include',
-    });
-
-    // Auth errors should not be retried
-    if (isAuthError(response.status)) {
-      return true; // Will be dequeued by caller
-    }
-
-    if (!response.ok) {
-      try {
-        const errorData = await response.json();
-          logger.error(`[Sync] LIBRARY_UPDATE error [${response.status}]`, { error: errorData.message || errorData.error || 'Unknown error' });
-        } catch {
-          logger.error(`[Sync] LIBRARY_UPDATE error [${response.status}]: Failed to parse error response`);
-      }
-    }
-
-    return response.ok;
-  },
-
   async handleLibraryDelete(payload: { entryId: string }) {
     const response = await fetch(`/api/library/${payload.entryId}`, {
       method: 'DELETE',
@@ -0,0 +1,55 @@
+import { logger } from '../logger';
+
+/**
+ * Page-side wiring for public/sw.js, which replays the outbox from IndexedDB
+ * (so queued edits reach the server after connectivity returns even when no
+ * tab is open) and serves cached library/series pages offline.
+ */
+
+export const SERVICE_WORKER_URL = '/sw.js';
+// Must match OUTBOX_SYNC_TAG in public/sw.js
+export const OUTBOX_SYNC_TAG = 'mangatrack-outbox-replay';
+
+interface SyncManagerLike {
+  register(tag: string): Promise<void>;
+}
+
+function isSupported(): boolean {
+  return typeof window !== 'undefined' && 'serviceWorker' in navigator;
+}
+
+export async function registerSyncServiceWorker(): Promise<ServiceWorkerRegistration | null> {
+  if (!isSupported()) return null;
+  try {
+    return await navigator.serviceWorker.register(SERVICE_WORKER_URL, { scope: '/' });
+  } catch (error: unknown) {
+    logger.warn('[Sync] Service worker registration failed', { error: error instanceof Error ? error.message : String(error) });
+    return null;
+  }
+}
+
+/**
+ * Hands outbox replay to the service worker. Registers a Background Sync so
+ * the browser wakes the worker once it is back online, and asks it to replay
+ * right away when already online. Returns false when no worker controls the
+ * page, in which case the caller replays in-page.
+ */
+export async function requestBackgroundReplay(): Promise<boolean> {
+  if (!isSupported() || !navigator.serviceWorker.controller) return false;
+
+  try {
+    const registration = await navigator.serviceWorker.ready;
+    const sync = (registration as ServiceWorkerRegistration & { sync?: SyncManagerLike }).sync;
+    if (sync) {
+      await sync.register(OUTBOX_SYNC_TAG).catch(() => {
+        // Background Sync can be denied (e.g. by site settings); the message below still works
+      });
+    }
+    if (navigator.onLine) {
+      navigator.serviceWorker.controller.postMessage({ type: 'REPLAY_OUTBOX' });
+    }
+    return true;
+  } catch {
+    return false;
+  }
+}
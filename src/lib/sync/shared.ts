@@ -15,6 +15,7 @@ import {
   normalizeTitleConsistent,
   STOP_WORDS,
 } from '@/lib/bug-fixes/v5-audit-bugs-21-50';
+import { parseMangaUpdatesSeriesId } from './platform-urls';
 
 export interface ImportEntry {
   title: string;
@@ -25,6 +26,31 @@ export interface ImportEntry {
   source_platform?: string;
   source_url?: string;
   source_name?: string;
+  /** Canonical 0-100 score (see lib/ratings), converted by the parser */
+  rating?: number | null;
+}
+
+/**
+ * Platforms an ImportJob can originate from, recorded as ImportJob.source_platform.
+ * "csv" covers generic spreadsheets; everything else is a known export/backup format.
+ */
+export const IMPORT_SOURCE_PLATFORMS = [
+  "csv",
+  "anilist",
+  "myanimelist",
+  "mangadex",
+  "kenmei",
+  "mangaupdates",
+  "tachiyomi",
+] as const;
+export type ImportSourcePlatform = (typeof IMPORT_SOURCE_PLATFORMS)[number];
+
+export function resolveImportSourcePlatform(source: string | null | undefined): ImportSourcePlatform {
+  const normalized = (source || "").toLowerCase().trim();
+  if (normalized === "mihon") return "tachiyomi";
+  return (IMPORT_SOURCE_PLATFORMS as readonly string[]).includes(normalized)
+    ? (normalized as ImportSourcePlatform)
+    : "csv";
 }
 
 export interface MatchResult {
@@ -60,6 +86,10 @@ export function extractPlatformIds(url: string | undefined): { platform: string,
   const mpMatch = url.match(/mangapark\.(net|me|com)\/(title|comic)\/([^/?#]+)/i);
   if (mpMatch) return { platform: 'mangapark', id: mpMatch[3] };
 
+  // MangaUpdates: https://www.mangaupdates.com/series/BASE36/slug
+  const muId = parseMangaUpdatesSeriesId(url);
+  if (muId) return { platform: 'mangaupdates', id: muId };
+
   return null;
 }
 
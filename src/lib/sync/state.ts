@@ -0,0 +1,110 @@
+import type { CanonicalEntryState, FieldVersions } from './protocol';
+import type { OfflineLibraryEntry } from './offline-library';
+import { OfflineDb, OFFLINE_STORES } from './offline-db';
+
+/**
+ * Client copy of the server's canonical library state: the pull cursor and,
+ * per entry, the last field values and versions the server confirmed. Lives
+ * on the offline library snapshot records so the snapshot and the sync state
+ * can't drift apart. The outbox reads base versions from here; the reconciler
+ * (and the service worker) write replay results and pulled changes into it.
+ */
+
+const CURSOR_KEY = 'sync_cursor';
+
+function isNewer(incoming: CanonicalEntryState, existing: OfflineLibraryEntry | undefined): boolean {
+  if (!existing?.sync_seq) return true;
+  return BigInt(incoming.sync_seq) >= BigInt(existing.sync_seq);
+}
+
+function toCanonical(record: OfflineLibraryEntry): CanonicalEntryState | undefined {
+  if (!record.versions || !record.sync_seq) return undefined;
+  return {
+    id: record.id,
+    series_id: record.series_id,
+    status: record.status,
+    rating: record.user_rating,
+    progress: Number(record.last_read_chapter ?? 0),
+    notification_mode: record.notification_mode,
+    deleted: false,
+    versions: record.versions,
+    sync_seq: record.sync_seq,
+  };
+}
+
+export const SyncState = {
+  async getCursor(): Promise<string> {
+    return (await OfflineDb.getMeta<string>(CURSOR_KEY)) ?? '0';
+  },
+
+  async getEntry(entryId: string): Promise<CanonicalEntryState | undefined> {
+    const record = await OfflineDb.get<OfflineLibraryEntry>(OFFLINE_STORES.library, entryId);
+    return record ? toCanonical(record) : undefined;
+  },
+
+  async getVersions(entryId: string): Promise<FieldVersions | undefined> {
+    return (await this.getEntry(entryId))?.versions;
+  },
+
+  /**
+   * Stores server states, ignoring any older than what is already known
+   * (a replay response can race a pull). Deleted entries are dropped.
+   * Returns the states that were applied.
+   */
+  async applyEntries(states: CanonicalEntryState[], cursor?: string): Promise<CanonicalEntryState[]> {
+    if (typeof window === 'undefined') return [];
+    const applied: CanonicalEntryState[] = [];
+
+    await OfflineDb.update<OfflineLibraryEntry>(OFFLINE_STORES.library, (records) => {
+      const byId = new Map(records.map(r => [r.id, r]));
+      const put: OfflineLibraryEntry[] = [];
+      const remove: string[] = [];
+
+      for (const state of states) {
+        const existing = byId.get(state.id);
+        if (!isNewer(state, existing)) continue;
+        applied.push(state);
+        if (state.deleted) {
+          remove.push(state.id);
+          continue;
+        }
+        // Entries first seen through a pull have no display data until the
+        // next snapshot refresh
+        put.push({
+          series: null,
+          imported_title: null,
+          source_url: '',
+          metadata_status: 'pending',
+          sync_status: 'healthy',
+          needs_review: false,
+          updated_at: new Date().toISOString(),
+          last_sync_at: null,
+          ...existing,
+          id: state.id,
+          series_id: state.series_id,
+          status: state.status,
+          user_rating: state.rating,
+          last_read_chapter: state.progress,
+          notification_mode: state.notification_mode,
+          versions: state.versions,
+          sync_seq: state.sync_seq,
+        });
+      }
+      return { put, remove };
+    });
+
+    if (cursor !== undefined && BigInt(cursor) > BigInt(await this.getCursor())) {
+      await OfflineDb.setMeta(CURSOR_KEY, cursor);
+    }
+
+    if (applied.length > 0) {
+      window.dispatchEvent(new CustomEvent('sync-state-updated', { detail: { entries: applied } }));
+    }
+    return applied;
+  },
+
+  async clear() {
+    await OfflineDb.clear(OFFLINE_STORES.library);
+    await OfflineDb.setMeta(CURSOR_KEY, '0');
+  }
+};
@@ -0,0 +1,261 @@
+import { identifyPlatformUrl, mangaUpdatesSeriesUrl } from "./platform-urls";
+import type { ImportEntry } from "./shared";
+
+/**
+ * Tachiyomi / Mihon Backup Parser
+ *
+ * `.tachibk` (and legacy `.proto.gz`) files are gzip-compressed protobuf
+ * messages. Callers decompress first (DecompressionStream in the browser,
+ * zlib in Node); this module only decodes the protobuf wire format and maps
+ * the library to ImportEntry.
+ *
+ * Only the fields needed for import are read (field numbers from Mihon's
+ * backup models):
+ *
+ *   Backup          { 1: backupManga[], 101: backupSources[] }
+ *   BackupManga     { 1: source, 2: url, 3: title, 8: status, 13: dateAdded,
+ *                     16: chapters[], 18: tracking[], 100: favorite, 104: history[] }
+ *   BackupChapter   { 4: read, 9: chapterNumber (float) }
+ *   BackupTracking  { 1: syncId, 4: trackingUrl, 6: lastChapterRead (float), 100: mediaId }
+ *   BackupHistory   { 2: lastRead (ms) }
+ *   BackupSource    { 1: name, 2: sourceId }
+ */
+
+// Tracker ids as assigned by Tachiyomi/Mihon (TrackerManager)
+const TRACKER_MYANIMELIST = 1;
+const TRACKER_ANILIST = 2;
+const TRACKER_MANGAUPDATES = 7;
+
+// SManga.status values meaning the series has finished publishing
+const FINISHED_PUBLICATION_STATUSES = new Set([2, 4]);
+
+type ProtoValue = bigint | number | Uint8Array;
+type ProtoMessage = Map<number, ProtoValue[]>;
+
+export class TachiyomiBackupError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TachiyomiBackupError";
+  }
+}
+
+/** True when the bytes start with the gzip magic number (1f 8b). */
+export function isGzipped(bytes: Uint8Array): boolean {
+  return bytes.length > 2 && bytes[0] === 0x1f && bytes[1] === 0x8b;
+}
+
+function readVarint(bytes: Uint8Array, state: { pos: number }): bigint {
+  let result = BigInt(0);
+  let shift = BigInt(0);
+  while (state.pos < bytes.length) {
+    const byte = bytes[state.pos++];
+    result |= BigInt(byte & 0x7f) << shift;
+    if ((byte & 0x80) === 0) return result;
+    shift += BigInt(7);
+    if (shift > BigInt(63)) break;
+  }
+  throw new TachiyomiBackupError("Malformed backup: truncated varint");
+}
+
+/**
+ * Decodes one protobuf message into field number -> values.
+ * Varints stay bigint (source ids use the full int64 range); fixed32 fields are
+ * read as floats because every fixed32 field in the backup schema is a float.
+ */
+function decodeMessage(bytes: Uint8Array): ProtoMessage {
+  const fields: ProtoMessage = new Map();
+  const state = { pos: 0 };
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  while (state.pos < bytes.length) {
+    const tag = Number(readVarint(bytes, state));
+    const fieldNumber = tag >>> 3;
+    const wireType = tag & 0x7;
+    let value: ProtoValue;
+
+    switch (wireType) {
+      case 0:
+        value = readVarint(bytes, state);
+        break;
+      case 1:
+        if (state.pos + 8 > bytes.length) throw new TachiyomiBackupError("Malformed backup: truncated fixed64");
+        value = view.getFloat64(state.pos, true);
+        state.pos += 8;
+        break;
+      case 2: {
+        const length = Number(readVarint(bytes, state));
+        if (state.pos + length > bytes.length) throw new TachiyomiBackupError("Malformed backup: truncated field");
+        value = bytes.subarray(state.pos, state.pos + length);
+        state.pos += length;
+        break;
+      }
+      case 5:
+        if (state.pos + 4 > bytes.length) throw new TachiyomiBackupError("Malformed backup: truncated fixed32");
+        value = view.getFloat32(state.pos, true);
+        state.pos += 4;
+        break;
+      default:
+        throw new TachiyomiBackupError(`Malformed backup: unsupported wire type ${wireType}`);
+    }
+
+    if (!fields.has(fieldNumber)) fields.set(fieldNumber, []);
+    fields.get(fieldNumber)!.push(value);
+  }
+
+  return fields;
+}
+
+const textDecoder = new TextDecoder();
+
+function getString(message: ProtoMessage, field: number): string | undefined {
+  const value = message.get(field)?.[0];
+  return value instanceof Uint8Array ? textDecoder.decode(value) : undefined;
+}
+
+function getInt(message: ProtoMessage, field: number): bigint | undefined {
+  const value = message.get(field)?.[0];
+  return typeof value === "bigint" ? value : undefined;
+}
+
+function getFloat(message: ProtoMessage, field: number): number | undefined {
+  const value = message.get(field)?.[0];
+  return typeof value === "number" ? value : undefined;
+}
+
+function getMessages(message: ProtoMessage, field: number): ProtoMessage[] {
+  return (message.get(field) || [])
+    .filter((value): value is Uint8Array => value instanceof Uint8Array)
+    .map(decodeMessage);
+}
+
+interface TrackerLink {
+  syncId: number;
+  url?: string;
+  mediaId?: bigint;
+  lastChapterRead: number;
+}
+
+function trackerUrl(link: TrackerLink): string | undefined {
+  if (link.url && /^https?:\/\//i.test(link.url)) return link.url;
+  if (!link.mediaId || link.mediaId <= BigInt(0)) return undefined;
+  switch (link.syncId) {
+    case TRACKER_MYANIMELIST:
+      return `https://myanimelist.net/manga/${link.mediaId}`;
+    case TRACKER_ANILIST:
+      return `https://anilist.co/manga/${link.mediaId}`;
+    case TRACKER_MANGAUPDATES:
+      return mangaUpdatesSeriesUrl(link.mediaId);
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Picks the URL the import matcher can resolve most reliably:
+ * MangaDex source URL, then MangaUpdates / AniList / MAL tracker URLs,
+ * then the source URL itself when the extension stores absolute URLs.
+ */
+function resolveSourceUrl(
+  mangaUrl: string,
+  sourceName: string | undefined,
+  trackers: TrackerLink[]
+): { url?: string; platform?: string } {
+  if (sourceName?.toLowerCase().includes("mangadex")) {
+    const mdMatch = mangaUrl.match(/\/(?:title|manga)\/([a-f0-9-]{36})/i);
+    if (mdMatch) return { url: `https://mangadex.org/title/${mdMatch[1]}`, platform: "mangadex" };
+  }
+
+  const trackerPriority = [TRACKER_MANGAUPDATES, TRACKER_ANILIST, TRACKER_MYANIMELIST];
+  const platformBySyncId: Record<number, string> = {
+    [TRACKER_MANGAUPDATES]: "mangaupdates",
+    [TRACKER_ANILIST]: "anilist",
+    [TRACKER_MYANIMELIST]: "myanimelist",
+  };
+  for (const syncId of trackerPriority) {
+    const link = trackers.find((t) => t.syncId === syncId);
+    const url = link ? trackerUrl(link) : undefined;
+    if (url) return { url, platform: platformBySyncId[syncId] };
+  }
+
+  if (/^https?:\/\//i.test(mangaUrl)) return { url: mangaUrl };
+  return {};
+}
+
+/**
+ * Decodes an uncompressed Tachiyomi/Mihon backup into import entries.
+ * Non-favorited manga (browsed but never added to the library) are skipped.
+ */
+export function parseTachiyomiBackup(bytes: Uint8Array): ImportEntry[] {
+  if (isGzipped(bytes)) {
+    throw new TachiyomiBackupError("Backup is still gzip-compressed; decompress it before parsing");
+  }
+
+  const backup = decodeMessage(bytes);
+
+  const sourceNames = new Map<string, string>();
+  for (const source of getMessages(backup, 101)) {
+    const id = getInt(source, 2);
+    const name = getString(source, 1);
+    if (id !== undefined && name) sourceNames.set(id.toString(), name);
+  }
+
+  const entries: ImportEntry[] = [];
+  for (const manga of getMessages(backup, 1)) {
+    const title = getString(manga, 3)?.trim();
+    if (!title) continue;
+    // proto3 omits default values, so an absent favorite flag means "true"
+    if (getInt(manga, 100) === BigInt(0)) continue;
+
+    const chapters = getMessages(manga, 16);
+    const readChapters = chapters.filter((c) => getInt(c, 4) === BigInt(1));
+    const trackers: TrackerLink[] = getMessages(manga, 18).map((t) => ({
+      syncId: Number(getInt(t, 1) ?? 0),
+      url: getString(t, 4),
+      mediaId: getInt(t, 100),
+      lastChapterRead: getFloat(t, 6) ?? 0,
+    }));
+
+    const readProgress = Math.max(
+      0,
+      ...readChapters.map((c) => getFloat(c, 9) ?? 0),
+      ...trackers.map((t) => t.lastChapterRead)
+    );
+    const progress = Math.floor(readProgress);
+
+    const publicationStatus = Number(getInt(manga, 8) ?? 0);
+    let status = "reading";
+    if (progress === 0 && readChapters.length === 0) {
+      status = "planning";
+    } else if (
+      chapters.length > 0 &&
+      readChapters.length === chapters.length &&
+      FINISHED_PUBLICATION_STATUSES.has(publicationStatus)
+    ) {
+      status = "completed";
+    }
+
+    const lastRead = getMessages(manga, 104)
+      .map((h) => Number(getInt(h, 2) ?? 0))
+      .reduce((max, value) => Math.max(max, value), 0);
+    const dateAdded = Number(getInt(manga, 13) ?? 0);
+
+    const mangaUrl = getString(manga, 2) || "";
+    const sourceId = getInt(manga, 1);
+    const sourceName = sourceId !== undefined ? sourceNames.get(sourceId.toString()) : undefined;
+    const resolved = resolveSourceUrl(mangaUrl, sourceName, trackers);
+    const platformInfo = identifyPlatformUrl(resolved.url);
+
+    entries.push({
+      title,
+      status,
+      progress,
+      last_updated: lastRead || dateAdded || undefined,
+      external_id: platformInfo?.id,
+      source_platform: platformInfo?.platform ?? resolved.platform ?? "tachiyomi",
+      source_url: resolved.url,
+      source_name: platformInfo?.platform ?? resolved.platform ?? "tachiyomi",
+    });
+  }
+
+  return entries;
+}
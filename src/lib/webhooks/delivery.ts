@@ -0,0 +1,112 @@
+import { createHash, randomUUID } from 'crypto';
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { webhookDeliveryQueue } from '@/lib/queues';
+import { WebhookEvent } from './events';
+
+/**
+ * Fans events out to the matching webhook endpoints of their users. Each
+ * (event, endpoint) pair gets a row in webhook_deliveries and a job on the
+ * webhook-delivery queue. The row id is derived from the endpoint and the
+ * event's key and doubles as the job id, so a re-run of the emitting job
+ * finds its rows already there and queues nothing new.
+ */
+
+export const MAX_WEBHOOK_ENDPOINTS = 10;
+
+/** Endpoints are disabled after this many deliveries in a row fail for good */
+export const MAX_CONSECUTIVE_FAILURES = 15;
+
+/** Everything but the signing secret, which is only shown when issued */
+export const WEBHOOK_ENDPOINT_SELECT = {
+  id: true,
+  url: true,
+  format: true,
+  events: true,
+  enabled: true,
+  failure_count: true,
+  last_success_at: true,
+  last_failure_at: true,
+  created_at: true,
+  updated_at: true,
+} as const;
+
+export interface WebhookMessage {
+  userId: string;
+  /** Identifies the event for this user, e.g. the notification it mirrors */
+  key: string;
+  event: WebhookEvent;
+}
+
+/** Stable delivery id for an (endpoint, event) pair */
+export function webhookDeliveryId(endpointId: string, key: string): string {
+  const hash = createHash('sha256').update(`${endpointId}:${key}`).digest('hex');
+  return `${hash.slice(0, 8)}-${hash.slice(8, 12)}-${hash.slice(12, 16)}-${hash.slice(16, 20)}-${hash.slice(20, 32)}`;
+}
+
+async function enqueueDeliveries(rows: Array<{ id: string; event: string }>) {
+  await webhookDeliveryQueue.addBulk(rows.map(row => ({
+    name: `webhook-${row.event}`,
+    data: { deliveryId: row.id },
+    opts: { jobId: row.id },
+  })));
+}
+
+export async function enqueueWebhookEvents(messages: WebhookMessage[]): Promise<number> {
+  if (messages.length === 0) return 0;
+
+  const endpoints = await prisma.webhookEndpoint.findMany({
+    where: {
+      user_id: { in: Array.from(new Set(messages.map(m => m.userId))) },
+      enabled: true,
+      events: { hasSome: Array.from(new Set(messages.map(m => m.event.type))) },
+    },
+    select: { id: true, user_id: true, events: true },
+  });
+  if (endpoints.length === 0) return 0;
+
+  const rows: Prisma.WebhookDeliveryCreateManyInput[] = [];
+  for (const message of messages) {
+    for (const endpoint of endpoints) {
+      if (endpoint.user_id !== message.userId || !endpoint.events.includes(message.event.type)) continue;
+      rows.push({
+        id: webhookDeliveryId(endpoint.id, message.key),
+        endpoint_id: endpoint.id,
+        user_id: message.userId,
+        event: message.event.type,
+        payload: message.event as unknown as Prisma.InputJsonValue,
+      });
+    }
+  }
+  if (rows.length === 0) return 0;
+
+  // Rows that already exist were queued by an earlier run
+  const created = await prisma.webhookDelivery.createManyAndReturn({
+    data: rows,
+    skipDuplicates: true,
+    select: { id: true, event: true },
+  });
+  if (created.length === 0) return 0;
+
+  await enqueueDeliveries(created);
+  return created.length;
+}
+
+/**
+ * Sends a logged event again as a new delivery, leaving the original row
+ * as the record of what happened the first time.
+ */
+export async function redeliverWebhook(delivery: { endpoint_id: string; user_id: string; event: string; payload: Prisma.JsonValue }) {
+  const copy = await prisma.webhookDelivery.create({
+    data: {
+      id: randomUUID(),
+      endpoint_id: delivery.endpoint_id,
+      user_id: delivery.user_id,
+      event: delivery.event,
+      payload: delivery.payload as Prisma.InputJsonValue,
+    },
+    select: { id: true, event: true, status: true, created_at: true },
+  });
+  await enqueueDeliveries([copy]);
+  return copy;
+}
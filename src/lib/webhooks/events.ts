@@ -0,0 +1,157 @@
+import { getSiteUrl } from '@/lib/email/unsubscribe';
+import type { DigestSeries } from '@/lib/notifications-digest';
+
+/**
+ * Webhook events and the request bodies sent for them. An event is stored
+ * as-is on its delivery row and rendered for the endpoint's format at send
+ * time, so a redelivery after switching presets uses the new format.
+ */
+
+export const WEBHOOK_EVENTS = ['new_chapter', 'digest', 'achievement'] as const;
+export type WebhookEventType = typeof WEBHOOK_EVENTS[number];
+
+export const WEBHOOK_FORMATS = ['generic', 'discord', 'slack'] as const;
+export type WebhookFormat = typeof WEBHOOK_FORMATS[number];
+
+export const WEBHOOK_EVENT_LABELS: Record<WebhookEventType, string> = {
+  new_chapter: 'New chapters',
+  digest: 'Digests',
+  achievement: 'Achievements & level-ups',
+};
+
+export interface WebhookEvent {
+  type: WebhookEventType;
+  title: string;
+  message: string;
+  /** Absolute link back to the site */
+  url: string;
+  occurred_at: string;
+  data: Record<string, unknown>;
+}
+
+const EVENT_COLORS: Record<WebhookEventType, number> = {
+  new_chapter: 0x3b82f6,
+  digest: 0x8b5cf6,
+  achievement: 0xf59e0b,
+};
+
+export function buildChapterEvent(params: {
+  seriesId: string;
+  seriesTitle: string;
+  chapterNumber: number;
+  newChapterCount: number;
+  sourceName?: string;
+}): WebhookEvent {
+  const { seriesId, seriesTitle, chapterNumber, newChapterCount, sourceName } = params;
+  return {
+    type: 'new_chapter',
+    title: `New chapter of ${seriesTitle}`,
+    message: `Chapter ${chapterNumber} is now available${sourceName ? ` on ${sourceName}` : ''}.`,
+    url: `${getSiteUrl()}/series/${seriesId}`,
+    occurred_at: new Date().toISOString(),
+    data: {
+      series_id: seriesId,
+      series_title: seriesTitle,
+      chapter_number: chapterNumber,
+      chapter_count: newChapterCount,
+      source_name: sourceName ?? null,
+    },
+  };
+}
+
+export function buildDigestEvent(frequency: string, summary: { title: string; message: string }, series: DigestSeries[]): WebhookEvent {
+  return {
+    type: 'digest',
+    title: summary.title,
+    message: summary.message,
+    url: `${getSiteUrl()}/notifications`,
+    occurred_at: new Date().toISOString(),
+    data: {
+      frequency,
+      series: series.map(s => ({
+        series_id: s.seriesId,
+        title: s.title,
+        chapters: s.chapters,
+        sources: s.sources,
+      })),
+    },
+  };
+}
+
+export function buildAchievementEvent(params: {
+  kind: string;
+  title: string;
+  message: string;
+  metadata?: Record<string, unknown>;
+}): WebhookEvent {
+  return {
+    type: 'achievement',
+    title: params.title,
+    message: params.message,
+    url: `${getSiteUrl()}/profile`,
+    occurred_at: new Date().toISOString(),
+    data: { kind: params.kind, ...params.metadata },
+  };
+}
+
+function truncate(value: string, max: number): string {
+  return value.length > max ? `${value.slice(0, max - 1)}…` : value;
+}
+
+function escapeSlack(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * Request body for `format`:
+ * - generic: the event plus delivery id, for users' own services
+ * - discord: an execute-webhook payload with one embed; mentions are
+ *   disabled so a series title can't ping @everyone
+ * - slack: an incoming-webhook payload with a coloured attachment
+ */
+export function formatWebhookBody(format: WebhookFormat, event: WebhookEvent, deliveryId: string): Record<string, unknown> {
+  switch (format) {
+    case 'discord':
+      return {
+        username: 'MangaTrack',
+        allowed_mentions: { parse: [] },
+        embeds: [{
+          title: truncate(event.title, 256),
+          description: truncate(event.message, 4096),
+          url: event.url,
+          color: EVENT_COLORS[event.type],
+          timestamp: event.occurred_at,
+          footer: { text: `MangaTrack · ${WEBHOOK_EVENT_LABELS[event.type]}` },
+        }],
+      };
+
+    case 'slack':
+      return {
+        text: `${event.title}: ${event.message}`,
+        attachments: [{
+          color: `#${EVENT_COLORS[event.type].toString(16).padStart(6, '0')}`,
+          blocks: [
+            {
+              type: 'section',
+              text: { type: 'mrkdwn', text: `*<${event.url}|${escapeSlack(event.title)}>*\n${escapeSlack(event.message)}` },
+            },
+            {
+              type: 'context',
+              elements: [{ type: 'mrkdwn', text: `MangaTrack · ${WEBHOOK_EVENT_LABELS[event.type]}` }],
+            },
+          ],
+        }],
+      };
+
+    default:
+      return {
+        id: deliveryId,
+        event: event.type,
+        occurred_at: event.occurred_at,
+        title: event.title,
+        message: event.message,
+        url: event.url,
+        data: event.data,
+      };
+  }
+}
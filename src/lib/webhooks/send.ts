@@ -0,0 +1,97 @@
+import { isInternalIP } from '@/lib/constants/image-whitelist';
+import { resolvesToInternalAddress } from '@/lib/internal-address';
+import { formatWebhookBody, WebhookEvent, WebhookFormat } from './events';
+import { SIGNATURE_HEADER, signWebhookPayload } from './signing';
+
+const DEFAULT_TIMEOUT_MS = 10000;
+
+export interface WebhookTarget {
+  url: string;
+  format: string;
+  secret: string;
+}
+
+export interface WebhookSendResult {
+  ok: boolean;
+  status: number | null;
+  error?: string;
+  /** False for failures another attempt won't fix (4xx, blocked address) */
+  retryable: boolean;
+}
+
+/**
+ * Endpoints must be public HTTPS URLs without credentials. Plain-HTTP
+ * localhost is allowed outside production for testing receivers.
+ */
+export function isAllowedWebhookUrl(value: string): boolean {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return false;
+  }
+  if (process.env.NODE_ENV !== 'production' && url.protocol === 'http:' && url.hostname === 'localhost') {
+    return true;
+  }
+  return url.protocol === 'https:' && !url.username && !url.password && !isInternalIP(url.hostname);
+}
+
+/**
+ * POSTs one event to one endpoint. Redirects are not followed, since the
+ * target of a redirect was never validated.
+ */
+export async function sendWebhook(
+  target: WebhookTarget,
+  delivery: { id: string; event: WebhookEvent },
+  options: { timeoutMs?: number; now?: Date } = {}
+): Promise<WebhookSendResult> {
+  if (!isAllowedWebhookUrl(target.url)) {
+    return { ok: false, status: null, error: 'Webhook URL is not allowed', retryable: false };
+  }
+
+  const { hostname } = new URL(target.url);
+  try {
+    if (await resolvesToInternalAddress(hostname)) {
+      return { ok: false, status: null, error: 'Webhook URL resolves to an internal address', retryable: false };
+    }
+  } catch {
+    return { ok: false, status: null, error: `DNS lookup failed for ${hostname}`, retryable: true };
+  }
+
+  const body = JSON.stringify(formatWebhookBody(target.format as WebhookFormat, delivery.event, delivery.id));
+
+  let response: Response;
+  try {
+    response = await fetch(target.url, {
+      method: 'POST',
+      redirect: 'manual',
+      signal: AbortSignal.timeout(options.timeoutMs ?? DEFAULT_TIMEOUT_MS),
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'MangaTrack-Webhooks/1.0',
+        'X-MangaTrack-Event': delivery.event.type,
+        'X-MangaTrack-Delivery': delivery.id,
+        [SIGNATURE_HEADER]: signWebhookPayload(target.secret, body, options.now),
+      },
+      body,
+    });
+  } catch (error: unknown) {
+    const timedOut = error instanceof Error && (error.name === 'TimeoutError' || error.name === 'AbortError');
+    return {
+      ok: false,
+      status: null,
+      error: timedOut ? 'Request timed out' : error instanceof Error ? error.message : String(error),
+      retryable: true,
+    };
+  }
+
+  if (response.ok) {
+    return { ok: true, status: response.status, retryable: false };
+  }
+  if (response.status >= 300 && response.status < 400) {
+    return { ok: false, status: response.status, error: 'Redirects are not followed', retryable: false };
+  }
+
+  const retryable = response.status >= 500 || response.status === 408 || response.status === 429;
+  return { ok: false, status: response.status, error: `Endpoint responded with HTTP ${response.status}`, retryable };
+}
@@ -0,0 +1,52 @@
+import crypto from 'crypto';
+
+/**
+ * Webhook request signing. Each request carries
+ *
+ *   X-MangaTrack-Signature: t=<unix seconds>,v1=<hex HMAC-SHA256>
+ *
+ * where the HMAC key is the endpoint secret and the message is
+ * `${t}.${rawBody}`. Receivers recompute it over the raw body and reject
+ * stale timestamps to prevent replays.
+ */
+
+export const SIGNATURE_HEADER = 'X-MangaTrack-Signature';
+export const SIGNATURE_TOLERANCE_SECONDS = 300;
+
+export function generateWebhookSecret(): string {
+  return `whsec_${crypto.randomBytes(24).toString('base64url')}`;
+}
+
+export function computeWebhookSignature(secret: string, timestamp: number, body: string): string {
+  return crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+export function signWebhookPayload(secret: string, body: string, now: Date = new Date()): string {
+  const timestamp = Math.floor(now.getTime() / 1000);
+  return `t=${timestamp},v1=${computeWebhookSignature(secret, timestamp, body)}`;
+}
+
+/** Reference verifier, also used by the tests. */
+export function verifyWebhookSignature(
+  secret: string,
+  header: string | null | undefined,
+  body: string,
+  options: { now?: Date; toleranceSeconds?: number } = {}
+): boolean {
+  if (!header) return false;
+  const parts = new Map(header.split(',').map(part => {
+    const index = part.indexOf('=');
+    return [part.slice(0, index).trim(), part.slice(index + 1).trim()] as [string, string];
+  }));
+
+  const timestamp = Number(parts.get('t'));
+  const signature = parts.get('v1');
+  if (!Number.isInteger(timestamp) || !signature) return false;
+
+  const now = Math.floor((options.now ?? new Date()).getTime() / 1000);
+  if (Math.abs(now - timestamp) > (options.toleranceSeconds ?? SIGNATURE_TOLERANCE_SECONDS)) return false;
+
+  const expected = Buffer.from(computeWebhookSignature(secret, timestamp, body), 'hex');
+  const actual = Buffer.from(signature, 'hex');
+  return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+}
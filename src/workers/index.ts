@@ -98,12 +98,12 @@ import {
       NOTIFICATION_DELIVERY_QUEUE, NOTIFICATION_DELIVERY_PREMIUM_QUEUE, NOTIFICATION_DIGEST_QUEUE,
         CANONICALIZE_QUEUE, REFRESH_COVER_QUEUE, CHAPTER_INGEST_QUEUE, GAP_RECOVERY_QUEUE,
           SERIES_RESOLUTION_QUEUE, IMPORT_QUEUE, FEED_FANOUT_QUEUE, LATEST_FEED_QUEUE, NOTIFICATION_TIMING_QUEUE,
-          MANGADEX_STATS_REFRESH_QUEUE, FEED_INGEST_QUEUE,
+          MANGADEX_STATS_REFRESH_QUEUE, FEED_INGEST_QUEUE, EXPORT_QUEUE, WEBHOOK_DELIVERY_QUEUE,
           syncSourceQueue, checkSourceQueue, notificationQueue,
           notificationDeliveryQueue, notificationDeliveryPremiumQueue, notificationDigestQueue,
           canonicalizeQueue, refreshCoverQueue, chapterIngestQueue, gapRecoveryQueue,
           seriesResolutionQueue, importQueue, feedFanoutQueue, latestFeedQueue, notificationTimingQueue,
-          mangadexStatsRefreshQueue, feedIngestQueue,
+          mangadexStatsRefreshQueue, feedIngestQueue, exportQueue, webhookDeliveryQueue,
           getNotificationSystemHealth,
           // Bug 42: Import queue configs with lockDuration
           getWorkerOptions
@@ -119,6 +119,8 @@ import { processRefreshCover } from './processors/refresh-cover.processor';
 import { processGapRecovery } from './processors/gap-recovery.processor';
 import { processResolution } from './processors/resolution.processor';
 import { processImport } from './processors/import.processor';
+import { processExport } from './processors/export.processor';
+import { processWebhookDelivery } from './processors/webhook-delivery.processor';
 import { processFeedFanout } from './processors/feed-fanout.processor';
 import { processLatestFeed } from './processors/latest-feed.processor';
 import { processNotificationTiming } from './processors/notification-timing.processor';
@@ -160,6 +162,8 @@ let refreshCoverWorker: Worker | null = null;
 let gapRecoveryWorker: Worker | null = null;
 let resolutionWorker: Worker | null = null;
 let importWorker: Worker | null = null;
+let exportWorker: Worker | null = null;
+let webhookDeliveryWorker: Worker | null = null;
 let feedFanoutWorker: Worker | null = null;
 let latestFeedWorker: Worker | null = null;
 let notificationTimingWorker: Worker | null = null;
@@ -353,6 +357,22 @@ function initWorkers() {
     );
     setupWorkerListeners(importWorker, 'Import');
 
+    const exportConfig = getQueueConfig(EXPORT_QUEUE);
+    exportWorker = new Worker(
+      EXPORT_QUEUE,
+      wrapWithDLQ(EXPORT_QUEUE, processExport),
+      getWorkerOptions(EXPORT_QUEUE, { concurrency: exportConfig.concurrency })
+    );
+    setupWorkerListeners(exportWorker, 'Export');
+
+    const webhookDeliveryConfig = getQueueConfig(WEBHOOK_DELIVERY_QUEUE);
+    webhookDeliveryWorker = new Worker(
+      WEBHOOK_DELIVERY_QUEUE,
+      wrapWithDLQ(WEBHOOK_DELIVERY_QUEUE, processWebhookDelivery),
+      getWorkerOptions(WEBHOOK_DELIVERY_QUEUE, { concurrency: webhookDeliveryConfig.concurrency })
+    );
+    setupWorkerListeners(webhookDeliveryWorker, 'WebhookDelivery');
+
     const feedFanoutConfig = getQueueConfig(FEED_FANOUT_QUEUE);
     feedFanoutWorker = new Worker(
       FEED_FANOUT_QUEUE,
@@ -758,17 +778,17 @@ shutdown = async function shutdownImpl(signal: string) {
               canonicalizeWorker, pollSourceWorker, chapterIngestWorker, 
               checkSourceWorker, notificationWorker, notificationDeliveryWorker,
               notificationDeliveryPremiumWorker, notificationDigestWorker, 
-              refreshCoverWorker, gapRecoveryWorker, resolutionWorker, importWorker,
+              refreshCoverWorker, gapRecoveryWorker, resolutionWorker, importWorker, exportWorker,
               feedFanoutWorker, latestFeedWorker, notificationTimingWorker, mangadexStatsRefreshWorker,
-              feedIngestWorker
+              feedIngestWorker, webhookDeliveryWorker
             ].filter(Boolean);
 
             // Unregister from v5 shutdown handler
             const workerNames = ['Canonicalize', 'PollSource', 'ChapterIngest', 'CheckSource', 
               'Notification', 'NotificationDelivery', 'NotificationDeliveryPremium', 
               'NotificationDigest', 'RefreshCover', 'GapRecovery', 'Resolution', 
-              'Import', 'FeedFanout', 'LatestFeed', 'NotificationTiming', 'MangadexStatsRefresh',
-              'FeedIngest'];
+              'Import', 'Export', 'FeedFanout', 'LatestFeed', 'NotificationTiming', 'MangadexStatsRefresh',
+              'FeedIngest', 'WebhookDelivery'];
           workerNames.forEach(name => unregisterActiveWorker(name));
 
           await Promise.all(workers.map(w => w?.close()));
@@ -780,7 +800,7 @@ shutdown = async function shutdownImpl(signal: string) {
               notificationDeliveryQueue, notificationDeliveryPremiumQueue, notificationDigestQueue,
               canonicalizeQueue, refreshCoverQueue, chapterIngestQueue, gapRecoveryQueue,
               seriesResolutionQueue, importQueue, feedFanoutQueue, latestFeedQueue, notificationTimingQueue,
-              mangadexStatsRefreshQueue, feedIngestQueue
+              mangadexStatsRefreshQueue, feedIngestQueue, exportQueue, webhookDeliveryQueue
             ];
 
         await Promise.all(queues.map(q => q.close()));
@@ -0,0 +1,122 @@
+import { Job } from 'bullmq';
+import { prisma, isTransientError } from '@/lib/prisma';
+import { supabaseAdmin } from '@/lib/supabase/admin';
+import { logger } from '@/lib/logger';
+import {
+  collectLibraryExport,
+  formatLibraryExport,
+  EXPORT_BUCKET,
+  EXPORT_CONTENT_TYPES,
+  EXPORT_FORMATS,
+  EXPORT_TTL_MS,
+  ExportFormat,
+} from '@/lib/sync/exporter';
+
+export interface ExportJobData {
+  exportJobId: string;
+}
+
+/**
+ * Processor for the export queue.
+ * Serializes the user's library in the requested format, uploads it to the
+ * private export bucket and records the storage path on the ExportJob row.
+ *
+ * Error Handling:
+ * - Missing/already-finished jobs are skipped (idempotent on retry)
+ * - Transient DB errors are rethrown so BullMQ retries
+ * - Permanent failures mark the ExportJob as failed with an error message
+ */
+export async function processExport(job: Job<ExportJobData>) {
+  const { exportJobId } = job.data;
+
+  if (!exportJobId) {
+    logger.error('[ExportWorker] Missing exportJobId in export job data', { bullmqJobId: job.id });
+    throw new Error('Missing exportJobId in export job data');
+  }
+
+  const exportJob = await prisma.exportJob.findUnique({ where: { id: exportJobId } });
+
+  if (!exportJob) {
+    logger.warn('[ExportWorker] Export job not found, skipping', { exportJobId });
+    return { skipped: true, reason: 'Export job not found' };
+  }
+
+  if (exportJob.status === 'completed') {
+    return { skipped: true, reason: 'Already completed' };
+  }
+
+  const format = exportJob.format as ExportFormat;
+  if (!EXPORT_FORMATS.includes(format)) {
+    await prisma.exportJob.update({
+      where: { id: exportJobId },
+      data: { status: 'failed', error_message: `Unsupported format: ${exportJob.format}`, completed_at: new Date() },
+    });
+    return { skipped: true, reason: 'Unsupported format' };
+  }
+
+  const startTime = Date.now();
+  await prisma.exportJob.update({
+    where: { id: exportJobId },
+    data: { status: 'processing', error_message: null },
+  });
+
+  try {
+    const entries = await collectLibraryExport(exportJob.user_id);
+    const content = formatLibraryExport(format, entries);
+    const body = Buffer.from(content, 'utf-8');
+    const storagePath = `${exportJob.user_id}/${exportJobId}.${format}`;
+
+    const { error: uploadError } = await supabaseAdmin.storage
+      .from(EXPORT_BUCKET)
+      .upload(storagePath, body, {
+        contentType: EXPORT_CONTENT_TYPES[format],
+        upsert: true,
+      });
+
+    if (uploadError) {
+      throw new Error(`Failed to upload export file: ${uploadError.message}`);
+    }
+
+    const completedAt = new Date();
+    await prisma.exportJob.update({
+      where: { id: exportJobId },
+      data: {
+        status: 'completed',
+        total_entries: entries.length,
+        file_url: storagePath,
+        file_size_bytes: body.byteLength,
+        completed_at: completedAt,
+        expires_at: new Date(completedAt.getTime() + EXPORT_TTL_MS),
+      },
+    });
+
+    logger.info('[ExportWorker] Export completed', {
+      exportJobId,
+      format,
+      entries: entries.length,
+      bytes: body.byteLength,
+      durationMs: Date.now() - startTime,
+    });
+
+    return { success: true, entries: entries.length };
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    const isLastAttempt = job.attemptsMade >= (job.opts?.attempts || 3) - 1;
+
+    logger.error('[ExportWorker] Failed to process export job', {
+      exportJobId,
+      attempt: job.attemptsMade + 1,
+      error: message,
+      isRetryable: isTransientError(error),
+    });
+
+    await prisma.exportJob.update({
+      where: { id: exportJobId },
+      data: isLastAttempt
+        ? { status: 'failed', error_message: message.slice(0, 500), completed_at: new Date() }
+        : { status: 'pending', error_message: message.slice(0, 500) },
+    }).catch(() => {});
+
+    throw error;
+  }
+}
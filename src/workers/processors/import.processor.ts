@@ -1,5 +1,6 @@
 import { Job } from 'bullmq';
 import { processImportJob } from '@/lib/sync/import-pipeline';
+import { ANILIST_PUSH_JOB, AniListPushJobData, pushAniListEntries } from '@/lib/sync/anilist-adapter';
 import { logger } from '@/lib/logger';
 import { prisma, isTransientError } from '@/lib/prisma';
 
@@ -12,9 +13,30 @@ interface ImportError extends Error {
   isRetryable?: boolean;
 }
 
+/**
+ * Pushes local changes queued by an AniList sync. Never throws: the job data
+ * holds the user's access token and must not end up in the DLQ. Entries that
+ * weren't pushed are queued again by the next sync.
+ */
+async function processAniListPush(job: Job<AniListPushJobData>) {
+  const { userId, accessToken, endpoint, items } = job.data;
+
+  try {
+    const result = await pushAniListEntries(userId, items || [], { accessToken, endpoint });
+    logger.info(`[ImportWorker] Finished AniList push`, { userId, bullmqJobId: job.id, ...result });
+  } catch (error: unknown) {
+    logger.error(`[ImportWorker] AniList push failed`, {
+      userId,
+      bullmqJobId: job.id,
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
+}
+
 /**
  * Processor for the import queue.
- * Handles background processing of series import jobs (CSV, MAL, etc).
+ * Handles background processing of series import jobs (CSV, MAL, etc)
+ * and AniList push jobs.
  * 
  * Error Handling:
  * - Validates job data before processing
@@ -22,8 +44,12 @@ interface ImportError extends Error {
  * - Updates job status on permanent failures
  * - Uses structured logging
  */
-export async function processImport(job: Job<ImportJobData>) {
-  const { jobId } = job.data;
+export async function processImport(job: Job<ImportJobData> | Job<AniListPushJobData>) {
+  if (job.name === ANILIST_PUSH_JOB) {
+    return processAniListPush(job as Job<AniListPushJobData>);
+  }
+
+  const { jobId } = (job as Job<ImportJobData>).data;
   
   if (!jobId) {
     logger.error('[ImportWorker] Missing jobId in import job data', { 
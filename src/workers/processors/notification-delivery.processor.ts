@@ -2,6 +2,10 @@ import { Job } from 'bullmq';
 import { prisma } from '@/lib/prisma';
 import { shouldThrottleUser } from '@/lib/notifications-throttling';
 import { getNotificationSystemHealth } from '@/lib/queues';
+import { deliverPushNotifications, PushMessage } from '@/lib/push/delivery';
+import { ChapterEmailMessage, deliverChapterEmails } from '@/lib/email/delivery';
+import { enqueueWebhookEvents } from '@/lib/webhooks/delivery';
+import { buildChapterEvent } from '@/lib/webhooks/events';
 import { z } from 'zod';
 
 const NotificationDeliveryDataSchema = z.object({
@@ -12,6 +16,7 @@ const NotificationDeliveryDataSchema = z.object({
     newChapterCount: z.number().int().positive(),
     userIds: z.array(z.string().uuid()),
     pushUserIds: z.array(z.string().uuid()).optional(),
+    emailUserIds: z.array(z.string().uuid()).optional(),
     isPremium: z.boolean().default(false),
     priority: z.number().int().min(0).max(2).default(2),
   });
@@ -23,7 +28,10 @@ export type NotificationDeliveryData = z.infer<typeof NotificationDeliveryDataSc
  * 1. Implements Circuit Breakers based on system health.
  * 2. Checks per-user and per-manga throttling.
  * 3. Creates notifications in the DB.
- * 4. Gracefully degrades (Lite Mode) under load.
+ * 4. Sends Web Push to subscribed devices of push-enabled users.
+ * 5. Sends chapter alert emails to users with email alerts enabled.
+ * 6. Queues webhook events for users with new-chapter webhooks.
+ * 7. Gracefully degrades (Lite Mode) under load.
  */
 export async function processNotificationDelivery(job: Job<NotificationDeliveryData>) {
   const parseResult = NotificationDeliveryDataSchema.safeParse(job.data);
@@ -32,7 +40,7 @@ export async function processNotificationDelivery(job: Job<NotificationDeliveryD
     return;
   }
 
-    const { seriesId, sourceId, sourceName, chapterNumber, newChapterCount, userIds, pushUserIds = [], isPremium, priority } = parseResult.data;
+    const { seriesId, sourceId, sourceName, chapterNumber, newChapterCount, userIds, pushUserIds = [], emailUserIds = [], isPremium, priority } = parseResult.data;
 
 
   // 1. Circuit Breaker / Overload Check
@@ -75,12 +83,8 @@ export async function processNotificationDelivery(job: Job<NotificationDeliveryD
       metadata: Record<string, unknown>;
       priority: number;
     }> = [];
-    const pushDeliveriesToTrigger: Array<{
-      userId: string;
-      title: string;
-      body: string;
-      metadata: Record<string, unknown>;
-    }> = [];
+    const pushDeliveriesToTrigger: PushMessage[] = [];
+    const emailDeliveriesToTrigger: ChapterEmailMessage[] = [];
 
     // 2. Fetch existing notifications to prevent duplicates and implement priority suppression
     const existingNotifications = await prisma.notification.findMany({
@@ -105,6 +109,7 @@ export async function processNotificationDelivery(job: Job<NotificationDeliveryD
 
     const notificationsToDelete: string[] = [];
     const pushUserIdSet = new Set(pushUserIds);
+    const emailUserIdSet = new Set(emailUserIds);
 
     // BUG 87: Use bounded concurrency (batching) to prevent event loop starvation 
     // when processing thousands of users for a single series.
@@ -162,9 +167,22 @@ export async function processNotificationDelivery(job: Job<NotificationDeliveryD
             userId,
             title: `New chapter of ${series.title}!`,
             body: `Chapter ${chapterNumber} is now available${sourceName ? ` on ${sourceName}` : ''}.`,
+            url: `/series/${seriesId}`,
+            tag: `chapter-${seriesId}`,
             metadata: { seriesId, chapterNumber }
           });
         }
+
+        // EMAIL DELIVERY LOGIC
+        if (emailUserIdSet.has(userId) && !isStale) {
+          emailDeliveriesToTrigger.push({
+            userId,
+            seriesId,
+            seriesTitle: series.title,
+            chapterNumber,
+            sourceName,
+          });
+        }
       }));
     }
 
@@ -182,20 +200,51 @@ export async function processNotificationDelivery(job: Job<NotificationDeliveryD
         data: notificationsToCreate,
       });
       console.log(`[Notification-Delivery] Created ${notificationsToCreate.length} notifications for "${series.title}"${isLiteMode ? ' (Lite Mode)' : ''}`);
-      
-      // TRIGGER EXTERNAL PUSH (Simulated/Place-holder for actual provider)
-      if (pushDeliveriesToTrigger.length > 0) {
-        console.log(`[Notification-Delivery] Triggering ${pushDeliveriesToTrigger.length} external PUSH notifications for "${series.title}"`);
-        // In a real implementation, this would call FCM/WebPush/OneSignal/etc.
-        // For now, we log the fan-out prevention:
-        const sample = pushDeliveriesToTrigger[0];
-        console.log(`[Notification-Push] Sample Push for ${sample.userId}: ${sample.title} - ${sample.body}`);
-      }
     } catch (error: unknown) {
       console.error(`[Notification-Delivery] DB Write Failure:`, error);
       // BullMQ will automatically retry the job based on the queue's defaultJobOptions.
       throw error; 
     }
+
+    // Push, email and webhooks are best effort: the in-app notifications above are
+    // already written, so a delivery failure must not fail (and re-run) the job.
+    if (pushDeliveriesToTrigger.length > 0) {
+      try {
+        const push = await deliverPushNotifications(pushDeliveriesToTrigger);
+        if (!push.skipped) {
+          console.log(`[Notification-Delivery] Push for "${series.title}": ${push.sent} sent, ${push.failed} failed, ${push.pruned} expired subscriptions pruned`);
+        }
+      } catch (error: unknown) {
+        console.error(`[Notification-Delivery] Push delivery failed for "${series.title}":`, error);
+      }
+    }
+
+    if (emailDeliveriesToTrigger.length > 0) {
+      try {
+        const email = await deliverChapterEmails(emailDeliveriesToTrigger);
+        if (!email.skipped) {
+          console.log(`[Notification-Delivery] Email for "${series.title}": ${email.sent} sent, ${email.failed} failed, ${email.suppressed} suppressed`);
+        }
+      } catch (error: unknown) {
+        console.error(`[Notification-Delivery] Email delivery failed for "${series.title}":`, error);
+      }
+    }
+
+    if (!isStale) {
+      try {
+        const event = buildChapterEvent({ seriesId, seriesTitle: series.title, chapterNumber, newChapterCount, sourceName });
+        const queued = await enqueueWebhookEvents(notificationsToCreate.map(n => ({
+          userId: n.user_id,
+          key: `new_chapter:${seriesId}:${chapterNumber}`,
+          event,
+        })));
+        if (queued > 0) {
+          console.log(`[Notification-Delivery] Queued ${queued} webhook deliveries for "${series.title}"`);
+        }
+      } catch (error: unknown) {
+        console.error(`[Notification-Delivery] Webhook enqueue failed for "${series.title}":`, error);
+      }
+    }
   } else {
     console.log(`[Notification-Delivery] No notifications created for batch in "${series.title}" (all throttled or suppressed)`);
   }
@@ -1,6 +1,10 @@
 import { Job } from 'bullmq';
 import { prisma } from '@/lib/prisma';
 import { notificationDigestQueue } from '@/lib/queues';
+import { formatDigestSummary, groupDigestUpdates } from '@/lib/notifications-digest';
+import { deliverDigestEmail } from '@/lib/email/delivery';
+import { enqueueWebhookEvents } from '@/lib/webhooks/delivery';
+import { buildDigestEvent } from '@/lib/webhooks/events';
 
 const BATCH_SIZE = 50; // Users per job
 
@@ -10,6 +14,8 @@ const BATCH_SIZE = 50; // Users per job
  * 2. Groups their buffered notifications.
  * 3. Creates a single grouped notification for each user.
  * 4. Marks buffered entries as flushed.
+ * 5. Emails the digest to users with digest emails enabled.
+ * 6. Queues a digest webhook event for users with digest webhooks.
  */
 export async function processNotificationDigest(job: Job) {
   const now = new Date();
@@ -69,47 +75,10 @@ async function processUserDigest(userId: string, frequency: string) {
   if (pendingUpdates.length === 0) return;
 
   // 2. Group by series
-  const seriesUpdates = new Map<string, { title: string, chapters: Set<string>, sources: Set<string> }>();
-  
-  for (const update of pendingUpdates) {
-    const seriesId = update.series_id;
-    if (!seriesUpdates.has(seriesId)) {
-      seriesUpdates.set(seriesId, {
-        title: update.Series?.title || 'Unknown Series',
-        chapters: new Set(),
-        sources: new Set(),
-      });
-    }
-    const group = seriesUpdates.get(seriesId)!;
-    group.chapters.add(update.chapter_number.toString());
-    update.source_names.forEach(s => group.sources.add(s));
-  }
+  const seriesList = groupDigestUpdates(pendingUpdates);
 
   // 3. Format Message
-  let title = 'Update Digest';
-  let message = '';
-  const seriesList = Array.from(seriesUpdates.values());
-
-  if (seriesList.length === 1) {
-    const s = seriesList[0];
-    const chapters = Array.from(s.chapters).sort((a, b) => Number(a) - Number(b));
-    const sources = Array.from(s.sources);
-    
-    title = `Updates: ${s.title}`;
-    if (chapters.length === 1) {
-      message = `Chapter ${chapters[0]} is available on ${sources.join(', ')}.`;
-    } else {
-      message = `${chapters.length} new chapters (${chapters.join(', ')}) available on ${sources.join(', ')}.`;
-    }
-  } else {
-    title = `${seriesList.length} Series Updated`;
-    const seriesNames = seriesList.map(s => s.title);
-    if (seriesNames.length <= 3) {
-      message = `${seriesNames.join(', ')} have new chapters available.`;
-    } else {
-      message = `${seriesNames.slice(0, 2).join(', ')} and ${seriesNames.length - 2} others have new chapters available.`;
-    }
-  }
+  const { title, message } = formatDigestSummary(seriesList);
 
   // 4. Create Notification
   await prisma.$transaction([
@@ -122,7 +91,7 @@ async function processUserDigest(userId: string, frequency: string) {
         metadata: {
           frequency,
           series_count: seriesList.length,
-          series_ids: Array.from(seriesUpdates.keys()),
+          series_ids: seriesList.map(s => s.seriesId),
         },
       },
     }),
@@ -142,4 +111,26 @@ async function processUserDigest(userId: string, frequency: string) {
   ]);
 
   console.log(`[Notification-Digest] Flushed digest for user ${userId} (${seriesList.length} series)`);
+
+  // 6. Email the same digest. Best effort: the buffer is already flushed, so
+  // a failed send must not re-run (and duplicate) the in-app digest.
+  try {
+    const email = await deliverDigestEmail(userId, frequency, seriesList);
+    if (email.sent > 0) {
+      console.log(`[Notification-Digest] Emailed digest to user ${userId}`);
+    }
+  } catch (error: unknown) {
+    console.error(`[Notification-Digest] Digest email failed for user ${userId}:`, error);
+  }
+
+  try {
+    // A digest is identified by the last buffered update it covers
+    await enqueueWebhookEvents([{
+      userId,
+      key: `digest:${pendingUpdates[pendingUpdates.length - 1].id}`,
+      event: buildDigestEvent(frequency, { title, message }, seriesList),
+    }]);
+  } catch (error: unknown) {
+    console.error(`[Notification-Digest] Digest webhook failed for user ${userId}:`, error);
+  }
 }
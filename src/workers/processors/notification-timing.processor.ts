@@ -1,6 +1,8 @@
 import { Job } from 'bullmq';
 import { prisma } from '@/lib/prisma';
 import { notificationDeliveryQueue, notificationDeliveryPremiumQueue } from '@/lib/queues';
+import { isPushEnabled } from '@/lib/push/delivery';
+import { isEmailEnabled } from '@/lib/email/unsubscribe';
 
 /**
  * Processor for Notification Timing Queue.
@@ -95,17 +97,22 @@ export async function processNotificationTiming(job: Job) {
     const freeUserIds: string[] = [];
     const premiumPushUserIds: string[] = [];
     const freePushUserIds: string[] = [];
+    const premiumEmailUserIds: string[] = [];
+    const freeEmailUserIds: string[] = [];
 
     for (const user of users) {
       const isPremium = user.subscription_tier !== 'free';
-      const pushEnabled = (user.notification_settings as any)?.push ?? false;
+      const pushEnabled = isPushEnabled(user.notification_settings);
+      const emailEnabled = isEmailEnabled(user.notification_settings, 'new_chapters');
 
       if (isPremium) {
         premiumUserIds.push(user.id);
         if (pushEnabled) premiumPushUserIds.push(user.id);
+        if (emailEnabled) premiumEmailUserIds.push(user.id);
       } else {
         freeUserIds.push(user.id);
         if (pushEnabled) freePushUserIds.push(user.id);
+        if (emailEnabled) freeEmailUserIds.push(user.id);
       }
     }
 
@@ -125,6 +132,7 @@ export async function processNotificationTiming(job: Job) {
           ...commonPayload,
           userIds: premiumUserIds,
           pushUserIds: premiumPushUserIds,
+          emailUserIds: premiumEmailUserIds,
           isPremium: true,
           priority: 0, // P0 because it's usually series the user is reading
         },
@@ -139,6 +147,7 @@ export async function processNotificationTiming(job: Job) {
           ...commonPayload,
           userIds: freeUserIds,
           pushUserIds: freePushUserIds,
+          emailUserIds: freeEmailUserIds,
           isPremium: false,
           priority: 0,
         },
@@ -2,6 +2,18 @@ import { Job } from 'bullmq';
 import { prisma } from '@/lib/prisma';
 import { notificationDeliveryQueue, notificationDeliveryPremiumQueue, notificationQueue, isQueueHealthy } from '@/lib/queues';
 import { shouldNotifyChapter } from '@/lib/notifications-throttling';
+import { isPushEnabled } from '@/lib/push/delivery';
+import { isEmailEnabled } from '@/lib/email/unsubscribe';
+import {
+  countUnreadChapters,
+  evaluateNotificationRules,
+  hasSourceRule,
+  loadNotificationRules,
+  loadSeriesChapterIndex,
+  previousVolume,
+  RuleChapterContext,
+  SeriesChapterIndex,
+} from '@/lib/notifications-rules';
 import { z } from 'zod';
 import { redisWorkerClient, REDIS_KEY_PREFIX } from '@/lib/redis';
 import { checkAchievements } from '@/lib/gamification/achievements';
@@ -162,6 +174,7 @@ export async function processNotification(job: Job<NotificationJobData | any>) {
         preferred_source: true,
         push_enabled: true,
         status: true,
+        last_read_chapter: true,
         users: {
           select: {
             notification_digest: true,
@@ -181,17 +194,39 @@ export async function processNotification(job: Job<NotificationJobData | any>) {
       return;
     }
 
-    const immediateFreeByPriority: Record<number, { userIds: string[], pushUserIds: string[] }> = { 
-      0: { userIds: [], pushUserIds: [] }, 
-      1: { userIds: [], pushUserIds: [] }, 
-      2: { userIds: [], pushUserIds: [] } 
+    const immediateFreeByPriority: Record<number, { userIds: string[], pushUserIds: string[], emailUserIds: string[] }> = { 
+      0: { userIds: [], pushUserIds: [], emailUserIds: [] }, 
+      1: { userIds: [], pushUserIds: [], emailUserIds: [] }, 
+      2: { userIds: [], pushUserIds: [], emailUserIds: [] } 
     };
-    const immediatePremiumByPriority: Record<number, { userIds: string[], pushUserIds: string[] }> = { 
-      0: { userIds: [], pushUserIds: [] }, 
-      1: { userIds: [], pushUserIds: [] }, 
-      2: { userIds: [], pushUserIds: [] } 
+    const immediatePremiumByPriority: Record<number, { userIds: string[], pushUserIds: string[], emailUserIds: string[] }> = { 
+      0: { userIds: [], pushUserIds: [], emailUserIds: [] }, 
+      1: { userIds: [], pushUserIds: [], emailUserIds: [] }, 
+      2: { userIds: [], pushUserIds: [], emailUserIds: [] } 
     };
     const bufferedSubscribers: typeof subscribers = [];
+    // Users held back by quiet hours, keyed by release time, tier and priority
+    const deferredDeliveries = new Map<string, { until: number, isPremium: boolean, priority: number, userIds: string[], pushUserIds: string[], emailUserIds: string[] }>();
+
+    // 5b. Load notification rules; chapter context is only needed when someone has rules
+    const rulesByUser = await loadNotificationRules(subscribers.map(s => s.user_id), seriesId);
+    let ruleChapter: RuleChapterContext | null = null;
+    let chapterIndex: SeriesChapterIndex = { chapters: [], numbers: [] };
+    if (rulesByUser.size > 0) {
+      const [seriesSource, index] = await Promise.all([
+        prisma.seriesSource.findUnique({ where: { id: sourceId }, select: { source_url: true } }),
+        loadSeriesChapterIndex([seriesId]),
+      ]);
+      chapterIndex = index.get(seriesId) ?? chapterIndex;
+      ruleChapter = {
+        chapterNumber: displayChapter,
+        sourceName: resolvedSourceName ?? sourceName,
+        sourceUrl: seriesSource?.source_url,
+        volumeNumber: chapterIndex.chapters.find(c => c.number === displayChapter)?.volume ?? null,
+        previousVolumeNumber: previousVolume(chapterIndex.chapters, displayChapter),
+        at: new Date(),
+      };
+    }
 
     // 6. Fan-out with Source Preference and Fallback Logic
     for (const sub of subscribers) {
@@ -200,8 +235,9 @@ export async function processNotification(job: Job<NotificationJobData | any>) {
       const isPremium = sub.users.subscription_tier !== 'free';
       const preferredSource = sub.preferred_source;
       const currentSource = resolvedSourceName ?? sourceName;
-      const globalPushEnabled = (sub.users.notification_settings as any)?.push ?? false;
+      const globalPushEnabled = isPushEnabled(sub.users.notification_settings);
       const seriesPushEnabled = sub.push_enabled;
+      const emailEnabled = isEmailEnabled(sub.users.notification_settings, 'new_chapters');
 
       // PRIORITY CALCULATION (P0=0, P1=1, P2=2)
       let priority = 2; // Default P2
@@ -224,10 +260,27 @@ export async function processNotification(job: Job<NotificationJobData | any>) {
       const alreadyNotified = await redisWorkerClient.get(userDedupeKey);
       if (alreadyNotified) continue;
 
+      // Notification rules (evaluated before marking the user as notified, so a
+      // chapter a rule skips can still fire from a later source)
+      const userRules = rulesByUser.get(sub.user_id) ?? [];
+      const ruleDecision = ruleChapter && userRules.length > 0
+        ? evaluateNotificationRules(userRules, ruleChapter, {
+            unreadCount: countUnreadChapters(
+              chapterIndex.numbers,
+              sub.last_read_chapter === null ? null : Number(sub.last_read_chapter),
+              displayChapter
+            ),
+          })
+        : null;
+      if (ruleDecision?.action === 'skip') continue;
+
       // Source Preference Logic
       let shouldNotifyThisSource = false;
 
-      if (preferredSource === currentSource) {
+      if (hasSourceRule(userRules)) {
+        // The user's source rule already accepted this source; it replaces first-source selection
+        shouldNotifyThisSource = true;
+      } else if (preferredSource === currentSource) {
         // Direct match with preference
         shouldNotifyThisSource = true;
       } else if (!preferredSource && isFirstSource) {
@@ -247,12 +300,25 @@ export async function processNotification(job: Job<NotificationJobData | any>) {
 
       const isPushEligible = globalPushEnabled && seriesPushEnabled;
 
-      if (isImmediate) {
+      if (isImmediate && ruleDecision?.action === 'defer') {
+        const until = ruleDecision.until.getTime();
+        const key = `${until}:${isPremium}:${priority}`;
+        if (!deferredDeliveries.has(key)) {
+          deferredDeliveries.set(key, { until, isPremium, priority, userIds: [], pushUserIds: [], emailUserIds: [] });
+        }
+        const target = deferredDeliveries.get(key)!;
+        target.userIds.push(sub.user_id);
+        if (isPushEligible) target.pushUserIds.push(sub.user_id);
+        if (emailEnabled) target.emailUserIds.push(sub.user_id);
+      } else if (isImmediate) {
         const target = isPremium ? immediatePremiumByPriority[priority] : immediateFreeByPriority[priority];
         target.userIds.push(sub.user_id);
         if (isPushEligible) {
           target.pushUserIds.push(sub.user_id);
         }
+        if (emailEnabled) {
+          target.emailUserIds.push(sub.user_id);
+        }
       } else {
         bufferedSubscribers.push(sub);
       }
@@ -279,6 +345,7 @@ export async function processNotification(job: Job<NotificationJobData | any>) {
               ...commonPayload,
               userIds: premium.userIds,
               pushUserIds: premium.pushUserIds,
+              emailUserIds: premium.emailUserIds,
               isPremium: true,
               priority: p,
               traceId, // BUG 12
@@ -298,6 +365,7 @@ export async function processNotification(job: Job<NotificationJobData | any>) {
               ...commonPayload,
               userIds: free.userIds,
               pushUserIds: free.pushUserIds,
+              emailUserIds: free.emailUserIds,
               isPremium: false,
               priority: p,
               traceId, // BUG 12
@@ -310,6 +378,27 @@ export async function processNotification(job: Job<NotificationJobData | any>) {
         }
       }
 
+      // Quiet hours: deliver when the user's quiet window ends
+      for (const deferred of deferredDeliveries.values()) {
+        const queue = deferred.isPremium ? notificationDeliveryPremiumQueue : notificationDeliveryQueue;
+        await queue.add(
+          `delivery-deferred-${deferred.isPremium ? 'premium' : 'free'}-p${deferred.priority}-${seriesId}-${displayChapter}-${deferred.until}-${cursor || 'start'}`,
+          {
+            ...commonPayload,
+            userIds: deferred.userIds,
+            pushUserIds: deferred.pushUserIds,
+            emailUserIds: deferred.emailUserIds,
+            isPremium: deferred.isPremium,
+            priority: deferred.priority,
+            traceId,
+          },
+          {
+            removeOnComplete: true,
+            delay: Math.max(0, deferred.until - Date.now()),
+          }
+        );
+      }
+
       // 6. Handle Buffered Notifications (Digests)
       if (bufferedSubscribers.length > 0) {
         const source = resolvedSourceName ?? sourceName ?? 'Unknown';
@@ -0,0 +1,95 @@
+import { Job } from 'bullmq';
+import { prisma } from '@/lib/prisma';
+import { logger } from '@/lib/logger';
+import { MAX_CONSECUTIVE_FAILURES } from '@/lib/webhooks/delivery';
+import { WebhookEvent } from '@/lib/webhooks/events';
+import { sendWebhook } from '@/lib/webhooks/send';
+
+export interface WebhookDeliveryJobData {
+  deliveryId: string;
+}
+
+/**
+ * Processor for the webhook-delivery queue.
+ * Sends one logged event to its endpoint and records the outcome on the
+ * WebhookDelivery row.
+ *
+ * Error Handling:
+ * - Missing or already delivered rows are skipped (idempotent on retry)
+ * - Timeouts, 5xx, 408 and 429 are rethrown so BullMQ retries with backoff
+ * - Other 4xx, redirects and blocked addresses fail the delivery at once
+ * - A delivery that fails for good counts against the endpoint, which is
+ *   disabled after MAX_CONSECUTIVE_FAILURES in a row
+ */
+export async function processWebhookDelivery(job: Job<WebhookDeliveryJobData>) {
+  const { deliveryId } = job.data;
+
+  const delivery = await prisma.webhookDelivery.findUnique({
+    where: { id: deliveryId },
+    include: { WebhookEndpoint: { select: { id: true, url: true, format: true, secret: true, enabled: true } } },
+  });
+
+  if (!delivery || delivery.status === 'delivered') {
+    return;
+  }
+
+  const endpoint = delivery.WebhookEndpoint;
+  if (!endpoint.enabled) {
+    await prisma.webhookDelivery.update({
+      where: { id: deliveryId },
+      data: { status: 'failed', error: 'Endpoint is disabled' },
+    });
+    return;
+  }
+
+  const result = await sendWebhook(endpoint, { id: delivery.id, event: delivery.payload as unknown as WebhookEvent });
+  const attempts = delivery.attempts + 1;
+  const now = new Date();
+
+  if (result.ok) {
+    await prisma.$transaction([
+      prisma.webhookDelivery.update({
+        where: { id: deliveryId },
+        data: { status: 'delivered', attempts, response_status: result.status, error: null, delivered_at: now },
+      }),
+      prisma.webhookEndpoint.update({
+        where: { id: endpoint.id },
+        data: { failure_count: 0, last_success_at: now },
+      }),
+    ]);
+    return;
+  }
+
+  const isLastAttempt = !result.retryable || job.attemptsMade + 1 >= (job.opts.attempts ?? 1);
+
+  await prisma.webhookDelivery.update({
+    where: { id: deliveryId },
+    data: {
+      status: isLastAttempt ? 'failed' : 'retrying',
+      attempts,
+      response_status: result.status,
+      error: result.error,
+    },
+  });
+
+  if (!isLastAttempt) {
+    throw new Error(`Webhook delivery ${deliveryId} failed: ${result.error}`);
+  }
+
+  const updated = await prisma.webhookEndpoint.update({
+    where: { id: endpoint.id },
+    data: { failure_count: { increment: 1 }, last_failure_at: now },
+    select: { failure_count: true },
+  });
+
+  if (updated.failure_count >= MAX_CONSECUTIVE_FAILURES) {
+    await prisma.webhookEndpoint.update({
+      where: { id: endpoint.id },
+      data: { enabled: false, updated_at: now },
+    });
+    logger.warn('[WebhookWorker] Disabled endpoint after repeated failures', {
+      endpointId: endpoint.id,
+      failures: updated.failure_count,
+    });
+  }
+}
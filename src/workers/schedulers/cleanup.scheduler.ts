@@ -1,10 +1,13 @@
 import { prisma } from '@/lib/prisma';
 import { logger } from '@/lib/logger';
+import { supabaseAdmin } from '@/lib/supabase/admin';
+import { EXPORT_BUCKET } from '@/lib/sync/exporter';
 
 /**
  * Cleanup Scheduler
  * 1. Identifies and fails stuck jobs
- * 2. Prunes old temporal data (Activity Feed, Audit Logs, Worker Failures)
+ * 2. Prunes old temporal data (Activity Feed, Audit Logs, Worker Failures, Webhook Deliveries)
+ * 3. Removes library export files past their expires_at
  */
 export async function runCleanupScheduler() {
   logger.info('[Cleanup-Scheduler] Running stuck job cleanup and data pruning...');
@@ -34,6 +37,30 @@ export async function runCleanupScheduler() {
       logger.info(`[Cleanup-Scheduler] Automatically failed ${stuckImportJobs.count} stuck import jobs.`);
     }
 
+    const expiredExports = await prisma.exportJob.findMany({
+      where: {
+        expires_at: { lt: now },
+        file_url: { not: null }
+      },
+      select: { id: true, file_url: true },
+      take: 500
+    });
+
+    if (expiredExports.length > 0) {
+      const { error: removeError } = await supabaseAdmin.storage
+        .from(EXPORT_BUCKET)
+        .remove(expiredExports.map(e => e.file_url!));
+
+      if (removeError) {
+        logger.warn('[Cleanup-Scheduler] Failed to remove expired export files:', { error: removeError.message });
+      } else {
+        await prisma.exportJob.updateMany({
+          where: { id: { in: expiredExports.map(e => e.id) } },
+          data: { file_url: null }
+        });
+      }
+    }
+
     const prunedAvailability = await prisma.$executeRaw`
       DELETE FROM user_availability_feed 
       WHERE discovered_at < ${ninetyDaysAgo}
@@ -69,13 +96,21 @@ export async function runCleanupScheduler() {
       }
     });
 
+    const prunedWebhookDeliveries = await prisma.webhookDelivery.deleteMany({
+      where: {
+        created_at: { lt: thirtyDaysAgo }
+      }
+    });
+
     logger.info('[Cleanup-Scheduler] Pruning complete:', {
       user_availability_feed: prunedAvailability,
       library_entries: prunedLibraryEntries.count,
       feed_entries: prunedFeedEntries.count,
       notifications: prunedNotifications.count,
       audit_logs: prunedAuditLogs.count,
-      worker_failures: prunedFailures.count
+      worker_failures: prunedFailures.count,
+      webhook_deliveries: prunedWebhookDeliveries.count,
+      expired_exports: expiredExports.length
     });
 
   } catch (error: unknown) {
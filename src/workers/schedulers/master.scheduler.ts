@@ -18,6 +18,8 @@ import { runTrustScoreDecayScheduler } from './trust-decay.scheduler';
 import { runMetadataHealingScheduler } from './metadata-healing.scheduler';
 import { runMangadexStatsRefreshScheduler } from './mangadex-stats-refresh.scheduler';
 import { runFeedIngestScheduler } from './feed-ingest.scheduler';
+import { runSavedFilterAlertsScheduler } from './saved-filter-alerts.scheduler';
+import { runSimilarityIndexScheduler } from './similarity-index.scheduler';
 import { logger } from '@/lib/logger';
 
 // =============================================================================
@@ -243,6 +245,8 @@ export async function runMasterScheduler() {
     await runSchedulerTask('Latest feed scheduler', runLatestFeedScheduler, errorAccumulator);
     await runSchedulerTask('Notification timing scheduler', runNotificationTimingScheduler, errorAccumulator);
     await runSchedulerTask('Recommendations scheduler', runRecommendationsScheduler, errorAccumulator);
+    await runSchedulerTask('Saved filter alerts scheduler', runSavedFilterAlertsScheduler, errorAccumulator);
+    await runSchedulerTask('Similarity index scheduler', runSimilarityIndexScheduler, errorAccumulator);
     await runSchedulerTask('Trust score decay scheduler', runTrustScoreDecayScheduler, errorAccumulator);
     // Bug 3 Fix: Automated metadata healing for failed/unavailable entries
     await runSchedulerTask('Metadata healing scheduler', runMetadataHealingScheduler, errorAccumulator);
@@ -1,4 +1,110 @@
 import { prisma } from '@/lib/prisma';
+import {
+  CF_MAX_LIBRARY_SIZE,
+  CF_MIN_CO_READERS,
+  CF_MIN_RATING,
+  CF_NEIGHBORS_PER_SERIES,
+  CF_SHRINKAGE,
+  CF_STATUS_WEIGHTS,
+  CF_UNRATED_FACTOR,
+} from '@/lib/collaborative-filtering';
+import { SUPPRESSING_FEEDBACK } from '@/lib/recommendation-feedback';
+
+const NEIGHBORS_REFRESH_INTERVAL_MS = 24 * 60 * 60 * 1000;
+// Kept in scheduler_state: a rebuild that finds no pairs leaves series_neighbors empty
+const NEIGHBORS_LAST_RUN_KEY = 'series_neighbors_last_run';
+
+/**
+ * Item-item collaborative filtering (lib/collaborative-filtering.ts).
+ * Rebuilds series_neighbors from library co-occurrence at most once a day:
+ * cosine similarity of status- and rating-weighted library entries, shrunk
+ * by co-reader count, keeping the top CF_NEIGHBORS_PER_SERIES per series.
+ * Returns false when the current neighbours are still fresh.
+ */
+export async function materializeSeriesNeighbors(now: Date = new Date()): Promise<boolean> {
+  const [latest] = await prisma.$queryRaw<Array<{ last_run: Date | null }>>`
+    SELECT value::timestamptz AS last_run
+    FROM scheduler_state
+    WHERE key = ${NEIGHBORS_LAST_RUN_KEY}
+    LIMIT 1
+  `;
+  if (latest?.last_run && now.getTime() - new Date(latest.last_run).getTime() < NEIGHBORS_REFRESH_INTERVAL_MS) {
+    return false;
+  }
+
+  const statuses = Object.keys(CF_STATUS_WEIGHTS);
+  const statusWeights = statuses.map(status => CF_STATUS_WEIGHTS[status]);
+
+  await prisma.$transaction([
+    prisma.$executeRaw`DELETE FROM series_neighbors`,
+    prisma.$executeRaw`
+      INSERT INTO series_neighbors (series_id, neighbor_id, score, co_readers, computed_at)
+      WITH StatusWeights AS (
+        SELECT * FROM unnest(${statuses}::text[], ${statusWeights}::float8[]) AS w(status, weight)
+      ),
+      Readers AS (
+        -- Very large libraries add many weak pairs and most of the cost
+        SELECT user_id
+        FROM library_entries
+        WHERE deleted_at IS NULL AND series_id IS NOT NULL
+        GROUP BY user_id
+        HAVING COUNT(*) BETWEEN 2 AND ${CF_MAX_LIBRARY_SIZE}
+      ),
+      WeightedEntries AS (
+        SELECT
+          le.user_id,
+          le.series_id,
+          sw.weight * CASE
+            WHEN le.user_rating IS NULL THEN ${CF_UNRATED_FACTOR}
+            ELSE LEAST(le.user_rating, 100) / 100.0
+          END AS weight
+        FROM library_entries le
+        JOIN Readers r ON r.user_id = le.user_id
+        JOIN StatusWeights sw ON sw.status = LOWER(le.status)
+        JOIN series s ON s.id = le.series_id AND s.deleted_at IS NULL
+        WHERE le.deleted_at IS NULL
+          AND sw.weight > 0
+          AND (le.user_rating IS NULL OR le.user_rating >= ${CF_MIN_RATING})
+      ),
+      Norms AS (
+        SELECT series_id, SQRT(SUM(weight * weight)) AS norm
+        FROM WeightedEntries
+        GROUP BY series_id
+      ),
+      Pairs AS (
+        SELECT a.series_id, b.series_id AS neighbor_id, SUM(a.weight * b.weight) AS dot, COUNT(*) AS co_readers
+        FROM WeightedEntries a
+        JOIN WeightedEntries b ON b.user_id = a.user_id AND b.series_id <> a.series_id
+        GROUP BY a.series_id, b.series_id
+        HAVING COUNT(*) >= ${CF_MIN_CO_READERS}
+      ),
+      RankedPairs AS (
+        SELECT
+          p.series_id,
+          p.neighbor_id,
+          p.co_readers,
+          (p.dot / (na.norm * nb.norm)) * (p.co_readers::float8 / (p.co_readers + ${CF_SHRINKAGE})) AS score,
+          ROW_NUMBER() OVER (
+            PARTITION BY p.series_id
+            ORDER BY (p.dot / (na.norm * nb.norm)) * (p.co_readers::float8 / (p.co_readers + ${CF_SHRINKAGE})) DESC, p.neighbor_id
+          ) AS rank
+        FROM Pairs p
+        JOIN Norms na ON na.series_id = p.series_id
+        JOIN Norms nb ON nb.series_id = p.neighbor_id
+      )
+      SELECT series_id, neighbor_id, score, co_readers, ${now}
+      FROM RankedPairs
+      WHERE rank <= ${CF_NEIGHBORS_PER_SERIES}
+    `,
+    prisma.$executeRaw`
+      INSERT INTO scheduler_state (key, value, updated_at)
+      VALUES (${NEIGHBORS_LAST_RUN_KEY}, ${now.toISOString()}::text, ${now})
+      ON CONFLICT (key) DO UPDATE SET value = ${now.toISOString()}::text, updated_at = ${now}
+    `,
+  ]);
+
+  return true;
+}
 
 /**
  * Recommendations Materialization Job
@@ -11,6 +117,10 @@ export async function runRecommendationsScheduler() {
   console.log('[Recommendations-Scheduler] Starting materialization job...');
 
   try {
+    if (await materializeSeriesNeighbors()) {
+      console.log('[Recommendations-Scheduler] Rebuilt collaborative filtering neighbours.');
+    }
+
     // BUG 112: Scalability - Process users in batches instead of one massive query
     // This prevents long-running transaction locks and memory issues as user base grows
     const BATCH_SIZE = 500;
@@ -86,6 +196,13 @@ export async function runRecommendationsScheduler() {
           LEFT JOIN library_entries existing ON existing.user_id = u.id AND existing.series_id = cs.series_id
           WHERE existing.id IS NULL
             AND u.deleted_at IS NULL
+            -- Exclude series the user dismissed from recommendations
+            AND NOT EXISTS (
+              SELECT 1 FROM user_signals us
+              WHERE us.user_id = u.id
+                AND us.series_id = cs.series_id
+                AND us.signal_type = ANY(${[...SUPPRESSING_FEEDBACK]}::text[])
+            )
             AND u.id = ANY(${userIds}::uuid[])
         )
         SELECT user_id, series_id, final_score, reason
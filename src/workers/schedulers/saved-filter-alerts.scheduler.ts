@@ -0,0 +1,15 @@
+import { runSavedFilterAlerts } from '@/lib/saved-filter-alerts';
+import { logger } from '@/lib/logger';
+
+/**
+ * Notifies users about new series matching their watched saved filters.
+ * Each filter is only checked once per watch period, so running this on
+ * every master scheduler tick is cheap.
+ */
+export async function runSavedFilterAlertsScheduler() {
+  const result = await runSavedFilterAlerts();
+
+  if (result.checked > 0) {
+    logger.info(`[SavedFilterAlerts] Checked ${result.checked} filters, ${result.notified} notified, ${result.failed} failed`);
+  }
+}
@@ -0,0 +1,18 @@
+import { refreshSimilarityIndex } from '@/lib/series-similarity';
+import { logger } from '@/lib/logger';
+
+/**
+ * Keeps the "More like this" index current. Only series that are new or
+ * changed since they were last indexed are processed, a bounded number of
+ * batches per tick, so a large backlog is worked off over several runs.
+ */
+export async function runSimilarityIndexScheduler() {
+  const result = await refreshSimilarityIndex();
+
+  if (result.indexed + result.unchanged + result.failed + result.removed > 0) {
+    logger.info(
+      `[SimilarityIndex] Indexed ${result.indexed} series (${result.unchanged} unchanged, ${result.removed} removed), ` +
+      `recomputed ${result.recomputed} neighbour lists, ${result.failed} failed`
+    );
+  }
+}
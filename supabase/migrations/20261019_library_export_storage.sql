@@ -0,0 +1,21 @@
+-- Migration: Library export storage
+-- Purpose: Back the POST /api/library/export pipeline.
+--
+-- The export worker uploads generated files to a private Storage bucket and
+-- records the object path in export_jobs.file_url. Downloads go through
+-- /api/library/export/[id]/download, which signs a short-lived URL with the
+-- service role and refuses jobs past expires_at.
+
+-- 1. Private bucket for generated export files
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('library-exports', 'library-exports', false)
+ON CONFLICT (id) DO NOTHING;
+
+-- 2. Index for the per-user export history / in-flight lookups
+CREATE INDEX IF NOT EXISTS idx_export_jobs_user_created
+ON export_jobs (user_id, created_at DESC);
+
+-- 3. Index for expiry cleanup
+CREATE INDEX IF NOT EXISTS idx_export_jobs_expires_at
+ON export_jobs (expires_at)
+WHERE expires_at IS NOT NULL;
@@ -0,0 +1,18 @@
+-- Migration: Import job source platform
+-- Purpose: Record which export format an import came from (Kenmei CSV,
+-- MangaUpdates list, Tachiyomi/Mihon backup, ...) on import_jobs.
+--
+-- import_jobs.source stays as the free-form value sent by the client;
+-- source_platform is the normalized value from IMPORT_SOURCE_PLATFORMS.
+
+ALTER TABLE import_jobs
+ADD COLUMN IF NOT EXISTS source_platform VARCHAR(30);
+
+-- Backfill from the existing source column for known platforms
+UPDATE import_jobs
+SET source_platform = CASE
+  WHEN lower(source) IN ('anilist', 'myanimelist', 'mangadex', 'kenmei', 'mangaupdates', 'tachiyomi') THEN lower(source)
+  WHEN lower(source) = 'mihon' THEN 'tachiyomi'
+  ELSE 'csv'
+END
+WHERE source_platform IS NULL;
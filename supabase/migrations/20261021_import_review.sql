@@ -0,0 +1,16 @@
+-- Migration: Import review step
+-- Purpose: Hold medium/none confidence import matches for user review.
+--
+-- The import pipeline marks such items NEEDS_REVIEW (instead of writing a
+-- LibraryEntry) and stores the candidate series in review_data. The job
+-- status stays 'needs_review' until every held item is picked or skipped
+-- via /api/library/import/results.
+
+ALTER TYPE public."ImportItemStatus" ADD VALUE IF NOT EXISTS 'NEEDS_REVIEW';
+
+ALTER TABLE import_items
+ADD COLUMN IF NOT EXISTS review_data JSONB;
+
+-- Remaining-items lookup after each review decision
+CREATE INDEX IF NOT EXISTS idx_import_items_job_status
+ON import_items (job_id, status);
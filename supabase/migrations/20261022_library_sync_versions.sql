@@ -0,0 +1,90 @@
+-- Migration: Server-issued sync versions for library entries
+-- Purpose: Replace client-timestamp LWW in /api/sync/replay with per-field
+-- versions, and give devices a cursor for /api/sync/changes?since=.
+--
+-- Each synced field (status, user_rating, last_read_chapter, notification_mode)
+-- has its own version counter. The trigger bumps a counter whenever the field
+-- actually changes, no matter which route wrote it, so the PATCH routes and the
+-- import pipeline participate without code changes.
+--
+-- sync_seq is drawn from a global sequence on every insert or synced change
+-- (including soft deletes) and orders the states of one entry. sync_xid is the
+-- writing transaction's id and is the pull cursor: sequence values are taken
+-- when the row is written, not when the transaction commits, so a slow
+-- transaction can commit a lower sync_seq after a device already pulled past
+-- it. /api/sync/changes only returns rows whose sync_xid is below the oldest
+-- transaction still running, and everything below that is final.
+--
+-- That horizon is database-wide: one long-running write transaction anywhere
+-- (a worker batch, a migration, an idle-in-transaction session) holds back
+-- /api/sync/changes for every user until it ends. The health endpoint reports
+-- the oldest open write transaction (syncHorizon).
+--
+-- Neither column is mapped in the Prisma model: they are 64-bit, and full
+-- LibraryEntry rows are serialized as JSON by several routes. Read them with
+-- raw SQL.
+
+CREATE SEQUENCE IF NOT EXISTS library_entry_sync_seq;
+
+ALTER TABLE library_entries
+ADD COLUMN IF NOT EXISTS status_version INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS rating_version INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS progress_version INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS notification_mode_version INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS sync_seq BIGINT NOT NULL DEFAULT nextval('library_entry_sync_seq'),
+-- Existing rows count as committed long ago (FrozenTransactionId)
+ADD COLUMN IF NOT EXISTS sync_xid XID8 NOT NULL DEFAULT '2'::xid8;
+
+CREATE OR REPLACE FUNCTION bump_library_entry_sync_versions()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.sync_seq := nextval('library_entry_sync_seq');
+    NEW.sync_xid := pg_current_xact_id();
+    RETURN NEW;
+  END IF;
+
+  -- Versions are server-issued; ignore whatever the writer supplied
+  NEW.status_version := OLD.status_version;
+  NEW.rating_version := OLD.rating_version;
+  NEW.progress_version := OLD.progress_version;
+  NEW.notification_mode_version := OLD.notification_mode_version;
+  NEW.sync_seq := OLD.sync_seq;
+  NEW.sync_xid := OLD.sync_xid;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    NEW.status_version := OLD.status_version + 1;
+  END IF;
+  IF NEW.user_rating IS DISTINCT FROM OLD.user_rating THEN
+    NEW.rating_version := OLD.rating_version + 1;
+  END IF;
+  IF NEW.last_read_chapter IS DISTINCT FROM OLD.last_read_chapter THEN
+    NEW.progress_version := OLD.progress_version + 1;
+  END IF;
+  IF NEW.notification_mode IS DISTINCT FROM OLD.notification_mode THEN
+    NEW.notification_mode_version := OLD.notification_mode_version + 1;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status
+     OR NEW.user_rating IS DISTINCT FROM OLD.user_rating
+     OR NEW.last_read_chapter IS DISTINCT FROM OLD.last_read_chapter
+     OR NEW.notification_mode IS DISTINCT FROM OLD.notification_mode
+     OR NEW.deleted_at IS DISTINCT FROM OLD.deleted_at
+     OR NEW.series_id IS DISTINCT FROM OLD.series_id THEN
+    NEW.sync_seq := nextval('library_entry_sync_seq');
+    NEW.sync_xid := pg_current_xact_id();
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS bump_library_entry_sync_versions_trigger ON library_entries;
+CREATE TRIGGER bump_library_entry_sync_versions_trigger
+BEFORE INSERT OR UPDATE ON library_entries
+FOR EACH ROW
+EXECUTE FUNCTION bump_library_entry_sync_versions();
+
+-- Pull cursor: /api/sync/changes?since=
+CREATE INDEX IF NOT EXISTS idx_library_entries_user_sync_xid
+ON library_entries (user_id, sync_xid, sync_seq);
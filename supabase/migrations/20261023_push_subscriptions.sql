@@ -0,0 +1,33 @@
+-- Migration: Web Push subscriptions
+-- Purpose: Store browser PushSubscriptions so notification-delivery can send
+-- real Web Push (VAPID) messages instead of logging a placeholder.
+--
+-- One row per browser endpoint. The endpoint is unique: re-subscribing the
+-- same browser (or a different user signing in on it) moves the row instead
+-- of duplicating it. Rows whose push service answers 404/410 are deleted by
+-- the delivery worker.
+
+CREATE TABLE IF NOT EXISTS push_subscriptions (
+  id           UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id      UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  endpoint     TEXT NOT NULL UNIQUE,
+  p256dh       VARCHAR(255) NOT NULL,
+  auth         VARCHAR(255) NOT NULL,
+  user_agent   VARCHAR(500),
+  created_at   TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_used_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_push_subscriptions_user_id
+ON push_subscriptions (user_id);
+
+ALTER TABLE push_subscriptions ENABLE ROW LEVEL SECURITY;
+
+-- Users may see their own devices; writes go through the API (service role)
+CREATE POLICY push_subscriptions_select_own ON push_subscriptions
+FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY push_subscriptions_service_all ON push_subscriptions
+FOR ALL USING (auth.role() = 'service_role');
+
+COMMENT ON TABLE push_subscriptions IS 'Browser Web Push subscriptions (endpoint + p256dh/auth keys) used for chapter notifications';
@@ -0,0 +1,24 @@
+-- Migration: Email suppression list
+-- Purpose: Record addresses that hard-bounced or complained so the email
+-- notification channel stops sending to them.
+--
+-- Keyed by lower-cased address rather than user: a complaint or bounce is
+-- about the mailbox, and must survive the account changing or being deleted.
+-- Rows come from the bounce/complaint webhook (/api/email/events) and from
+-- recipients the SMTP relay rejects outright.
+
+CREATE TABLE IF NOT EXISTS email_suppressions (
+  id         UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  email      VARCHAR(255) NOT NULL UNIQUE,
+  reason     VARCHAR(20) NOT NULL CHECK (reason IN ('bounce', 'complaint')),
+  detail     VARCHAR(500),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE email_suppressions ENABLE ROW LEVEL SECURITY;
+
+-- Only the service role reads or writes suppressions
+CREATE POLICY email_suppressions_service_all ON email_suppressions
+FOR ALL USING (auth.role() = 'service_role');
+
+COMMENT ON TABLE email_suppressions IS 'Addresses that hard-bounced or filed spam complaints; notification email is never sent to them';
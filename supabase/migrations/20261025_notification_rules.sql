@@ -0,0 +1,33 @@
+-- Migration: Per-series notification rules
+-- Purpose: Let users refine when chapter notifications fire, beyond the
+-- library entry's notify_new_chapters / notification_mode switches.
+--
+-- A rule with series_id NULL applies to every series in the user's library;
+-- otherwise only to that series. All enabled rules that apply must pass for
+-- a notification to fire. `params` is validated by the API per rule type
+-- (see src/lib/schemas/notification-rules.ts).
+
+CREATE TABLE IF NOT EXISTS notification_rules (
+  id         UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id    UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  series_id  UUID REFERENCES series(id) ON DELETE CASCADE,
+  type       VARCHAR(30) NOT NULL,
+  params     JSONB NOT NULL DEFAULT '{}',
+  enabled    BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_rules_user_series
+ON notification_rules (user_id, series_id);
+
+ALTER TABLE notification_rules ENABLE ROW LEVEL SECURITY;
+
+-- Users may read their own rules; writes go through the API (service role)
+CREATE POLICY notification_rules_select_own ON notification_rules
+FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY notification_rules_service_all ON notification_rules
+FOR ALL USING (auth.role() = 'service_role');
+
+COMMENT ON TABLE notification_rules IS 'User-defined conditions (source, unread count, quiet hours, volume end, backlog) evaluated before chapter notification fan-out';
@@ -0,0 +1,63 @@
+-- Migration: Outgoing webhooks
+-- Purpose: Let users register HTTPS endpoints (their own services, Discord or
+-- Slack incoming webhooks) that receive new-chapter, digest and achievement
+-- events.
+--
+-- `format` picks the body shape (generic signed JSON, Discord embed or Slack
+-- blocks). Every request is signed with `secret` (HMAC-SHA256). Each send is
+-- recorded in webhook_deliveries so users can inspect and redeliver it; rows
+-- are pruned after 30 days by the cleanup scheduler.
+
+CREATE TABLE IF NOT EXISTS webhook_endpoints (
+  id              UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id         UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  url             TEXT NOT NULL,
+  format          VARCHAR(20) NOT NULL DEFAULT 'generic',
+  secret          VARCHAR(100) NOT NULL,
+  events          TEXT[] NOT NULL DEFAULT '{}',
+  enabled         BOOLEAN NOT NULL DEFAULT TRUE,
+  failure_count   INTEGER NOT NULL DEFAULT 0,
+  last_success_at TIMESTAMPTZ,
+  last_failure_at TIMESTAMPTZ,
+  created_at      TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at      TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_endpoints_user
+ON webhook_endpoints (user_id);
+
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+  id              UUID PRIMARY KEY,
+  endpoint_id     UUID NOT NULL REFERENCES webhook_endpoints(id) ON DELETE CASCADE,
+  user_id         UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  event           VARCHAR(30) NOT NULL,
+  payload         JSONB NOT NULL,
+  status          VARCHAR(20) NOT NULL DEFAULT 'pending',
+  attempts        INTEGER NOT NULL DEFAULT 0,
+  response_status INTEGER,
+  error           TEXT,
+  created_at      TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  delivered_at    TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_endpoint_created
+ON webhook_deliveries (endpoint_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_created
+ON webhook_deliveries (created_at);
+
+ALTER TABLE webhook_endpoints ENABLE ROW LEVEL SECURITY;
+ALTER TABLE webhook_deliveries ENABLE ROW LEVEL SECURITY;
+
+-- Endpoints hold signing secrets, so only the service role reads them
+CREATE POLICY webhook_endpoints_service_all ON webhook_endpoints
+FOR ALL USING (auth.role() = 'service_role');
+
+CREATE POLICY webhook_deliveries_select_own ON webhook_deliveries
+FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY webhook_deliveries_service_all ON webhook_deliveries
+FOR ALL USING (auth.role() = 'service_role');
+
+COMMENT ON TABLE webhook_endpoints IS 'User-registered URLs that receive signed notification events';
+COMMENT ON TABLE webhook_deliveries IS 'Delivery log of webhook events (status, attempts, last response) for inspection and redelivery';
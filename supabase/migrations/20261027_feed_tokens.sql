@@ -0,0 +1,25 @@
+-- Migration: Personal feed tokens
+-- Purpose: Secret-token URLs that serve a user's RSS/Atom feeds and release
+-- calendar to feed readers and calendar apps, which can't send a session.
+--
+-- One token per user. Rotating replaces it (old URLs stop working at once);
+-- revoking deletes the row. Only the token's SHA-256 hash and a short display
+-- prefix are stored; the full URLs are shown once, when the token is issued.
+-- The token is the only credential for these read-only feeds, so the table is
+-- service-role only.
+
+CREATE TABLE IF NOT EXISTS feed_tokens (
+  id           UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id      UUID NOT NULL UNIQUE REFERENCES users(id) ON DELETE CASCADE,
+  token_hash   VARCHAR(64) NOT NULL UNIQUE,
+  token_prefix VARCHAR(16) NOT NULL,
+  created_at   TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_used_at TIMESTAMPTZ
+);
+
+ALTER TABLE feed_tokens ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY feed_tokens_service_all ON feed_tokens
+FOR ALL USING (auth.role() = 'service_role');
+
+COMMENT ON TABLE feed_tokens IS 'Per-user secret for RSS/Atom/iCalendar feed URLs';
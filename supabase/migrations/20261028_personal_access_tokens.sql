@@ -0,0 +1,29 @@
+-- Migration: Personal access tokens
+-- Purpose: Scoped bearer tokens for the public REST API, so CLI tools,
+-- browser extensions and reader-app plugins can act for a user without a
+-- browser session.
+--
+-- Only a SHA-256 hash of each token is stored; the plaintext is shown once at
+-- creation. token_prefix keeps the first characters so users can tell their
+-- tokens apart. Revoking deletes the row.
+
+CREATE TABLE IF NOT EXISTS personal_access_tokens (
+  id           UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id      UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  name         VARCHAR(100) NOT NULL,
+  token_hash   VARCHAR(64) NOT NULL UNIQUE,
+  token_prefix VARCHAR(16) NOT NULL,
+  scopes       TEXT[] NOT NULL DEFAULT '{}',
+  created_at   TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_used_at TIMESTAMPTZ,
+  expires_at   TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_personal_access_tokens_user ON personal_access_tokens(user_id);
+
+ALTER TABLE personal_access_tokens ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY personal_access_tokens_service_all ON personal_access_tokens
+FOR ALL USING (auth.role() = 'service_role');
+
+COMMENT ON TABLE personal_access_tokens IS 'Hashed, scoped bearer tokens for the public REST API';
@@ -0,0 +1,7 @@
+-- Migration: Scrobble auto-add setting
+-- Purpose: Reader apps (Mihon, Komikku, browser readers) report chapters read
+-- to POST /api/scrobble. When a scrobbled series isn't in the user's library
+-- the scrobble is rejected unless the user opted in to having it added.
+
+ALTER TABLE users
+ADD COLUMN IF NOT EXISTS scrobble_auto_add BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,48 @@
+-- Migration: User lists
+-- Purpose: User-defined collections ("Favorites", "Webtoons for commute", ...)
+-- on top of the five fixed library statuses. A series can sit in any number
+-- of lists, independently of whether it is in the library.
+--
+-- Lists and their items are ordered by `position`, rewritten in one statement
+-- on reorder. cover_series_id picks which series' cover represents the list;
+-- when null the first item's cover is used. A list is shown to other users
+-- only when is_public is set and the owner's privacy_settings.lists_public
+-- isn't false.
+
+CREATE TABLE IF NOT EXISTS user_lists (
+  id              UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id         UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  name            VARCHAR(100) NOT NULL,
+  description     TEXT,
+  cover_series_id UUID REFERENCES series(id) ON DELETE SET NULL,
+  is_public       BOOLEAN NOT NULL DEFAULT false,
+  position        INTEGER NOT NULL DEFAULT 0,
+  created_at      TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at      TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_lists_user_position ON user_lists(user_id, position);
+
+CREATE TABLE IF NOT EXISTS user_list_items (
+  id        UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  list_id   UUID NOT NULL REFERENCES user_lists(id) ON DELETE CASCADE,
+  series_id UUID NOT NULL REFERENCES series(id) ON DELETE CASCADE,
+  position  INTEGER NOT NULL DEFAULT 0,
+  added_at  TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (list_id, series_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_list_items_list_position ON user_list_items(list_id, position);
+CREATE INDEX IF NOT EXISTS idx_user_list_items_series ON user_list_items(series_id);
+
+ALTER TABLE user_lists ENABLE ROW LEVEL SECURITY;
+ALTER TABLE user_list_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY user_lists_service_all ON user_lists
+FOR ALL USING (auth.role() = 'service_role');
+
+CREATE POLICY user_list_items_service_all ON user_list_items
+FOR ALL USING (auth.role() = 'service_role');
+
+COMMENT ON TABLE user_lists IS 'User-defined, ordered collections of series';
+COMMENT ON TABLE user_list_items IS 'Series in a user list, ordered by position';
@@ -0,0 +1,27 @@
+-- Migration: Shareable user lists
+-- Purpose: Public lists get a page at /lists/<id>, per-entry notes, and
+-- followers. A follower's /api/feed/activity includes series added to a
+-- followed list after they started following it, read straight from
+-- user_list_items (no fan-out rows).
+
+ALTER TABLE user_list_items ADD COLUMN IF NOT EXISTS note TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_user_list_items_list_added ON user_list_items(list_id, added_at DESC);
+
+CREATE TABLE IF NOT EXISTS user_list_follows (
+  id         UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  list_id    UUID NOT NULL REFERENCES user_lists(id) ON DELETE CASCADE,
+  user_id    UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (list_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_list_follows_user ON user_list_follows(user_id);
+
+ALTER TABLE user_list_follows ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY user_list_follows_service_all ON user_list_follows
+FOR ALL USING (auth.role() = 'service_role');
+
+COMMENT ON COLUMN user_list_items.note IS 'Owner''s note on why the series is in the list, shown on the public page';
+COMMENT ON TABLE user_list_follows IS 'Users following a public list; additions show up in their activity feed';
@@ -0,0 +1,46 @@
+-- Migration: Library entry notes, tags and re-reads
+-- Purpose: Private markdown notes and free-form tags per library entry, plus
+-- re-read tracking. Starting a re-read bumps reread_count and resets
+-- last_read_chapter; completed_at keeps the earlier completion until the
+-- re-read is finished. Chapter reads carry the read-through they belong to
+-- (1 = first read).
+
+ALTER TABLE library_entries
+ADD COLUMN IF NOT EXISTS notes TEXT,
+ADD COLUMN IF NOT EXISTS tags TEXT[] NOT NULL DEFAULT '{}',
+ADD COLUMN IF NOT EXISTS reread_count INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS completed_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_library_entries_tags ON library_entries USING GIN (tags);
+
+-- Entries already completed count their last update as the completion
+UPDATE library_entries
+SET completed_at = updated_at
+WHERE status = 'completed' AND completed_at IS NULL;
+
+-- Stamp completions from any writer (PATCH routes, server actions, bulk
+-- updates, sync replay). Moving away from 'completed' leaves the stamp alone.
+CREATE OR REPLACE FUNCTION stamp_library_entry_completion()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'completed' AND (TG_OP = 'INSERT' OR OLD.status IS DISTINCT FROM 'completed') THEN
+    NEW.completed_at := NOW();
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS stamp_library_entry_completion_trigger ON library_entries;
+CREATE TRIGGER stamp_library_entry_completion_trigger
+BEFORE INSERT OR UPDATE ON library_entries
+FOR EACH ROW
+EXECUTE FUNCTION stamp_library_entry_completion();
+
+ALTER TABLE user_chapter_reads_v2
+ADD COLUMN IF NOT EXISTS read_through INTEGER NOT NULL DEFAULT 1;
+
+COMMENT ON COLUMN library_entries.notes IS 'Private markdown notes, only ever shown to the owner';
+COMMENT ON COLUMN library_entries.tags IS 'Free-form lowercase tags for filtering the library';
+COMMENT ON COLUMN library_entries.reread_count IS 'Number of re-reads started after completing the series';
+COMMENT ON COLUMN library_entries.completed_at IS 'Most recent completion; kept when a re-read starts';
+COMMENT ON COLUMN user_chapter_reads_v2.read_through IS 'Read-through the chapter was last read in (reread_count + 1 at the time)';
@@ -0,0 +1,62 @@
+-- Migration: Rating scales
+-- Purpose: library_entries.user_rating moves from 1–10 to a canonical 0–100
+-- score; users choose the scale they rate in (users.rating_scale, AniList
+-- ScoreFormat names). series.average_rating becomes a Bayesian average of
+-- user ratings on a 0–10 scale, with the MangaDex rating (now kept in
+-- series.external_rating) as the prior.
+
+ALTER TABLE users
+ADD COLUMN IF NOT EXISTS rating_scale VARCHAR(20) NOT NULL DEFAULT 'POINT_10';
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'users_rating_scale_check') THEN
+    ALTER TABLE users ADD CONSTRAINT users_rating_scale_check
+      CHECK (rating_scale IN ('POINT_100', 'POINT_10_DECIMAL', 'POINT_10', 'POINT_5', 'POINT_3'));
+  END IF;
+END $$;
+
+-- Convert existing 1–10 ratings once; the range constraint marks the conversion as done
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'library_entries_user_rating_range') THEN
+    UPDATE library_entries SET user_rating = user_rating * 10 WHERE user_rating BETWEEN 1 AND 10;
+    UPDATE library_entries SET user_rating = NULL WHERE user_rating < 0 OR user_rating > 100;
+    ALTER TABLE library_entries ADD CONSTRAINT library_entries_user_rating_range
+      CHECK (user_rating IS NULL OR user_rating BETWEEN 0 AND 100);
+  END IF;
+END $$;
+
+-- 10.00 did not fit DECIMAL(3, 2)
+ALTER TABLE series ALTER COLUMN average_rating TYPE DECIMAL(4, 2);
+ALTER TABLE series ADD COLUMN IF NOT EXISTS external_rating DECIMAL(4, 2);
+
+-- Until now average_rating only ever held the MangaDex rating
+UPDATE series SET external_rating = average_rating
+WHERE external_rating IS NULL AND average_rating IS NOT NULL;
+
+-- Initial Bayesian averages (prior weight 10, prior mean 70 without an external rating)
+WITH buckets AS (
+  SELECT series_id,
+         LEAST(10, GREATEST(1, ROUND(user_rating / 10.0)))::int AS bucket,
+         COUNT(*) AS n,
+         SUM(user_rating) AS total
+  FROM library_entries
+  WHERE user_rating IS NOT NULL AND deleted_at IS NULL AND series_id IS NOT NULL
+  GROUP BY 1, 2
+), agg AS (
+  SELECT series_id, SUM(n)::int AS n, SUM(total) AS total, jsonb_object_agg(bucket::text, n) AS distribution
+  FROM buckets
+  GROUP BY series_id
+)
+UPDATE series s
+SET average_rating = ROUND((10 * COALESCE(s.external_rating * 10, 70) + agg.total) / (10 + agg.n) / 10.0, 2),
+    rating_count = agg.n,
+    rating_distribution = agg.distribution
+FROM agg
+WHERE s.id = agg.series_id;
+
+COMMENT ON COLUMN users.rating_scale IS 'Scale the user rates and reads ratings in (AniList ScoreFormat names)';
+COMMENT ON COLUMN library_entries.user_rating IS 'Canonical 0-100 rating, converted from the user''s scale';
+COMMENT ON COLUMN series.external_rating IS 'MangaDex Bayesian rating (0-10), the prior for average_rating';
+COMMENT ON COLUMN series.average_rating IS 'Bayesian average of user ratings (0-10) with external_rating as the prior';
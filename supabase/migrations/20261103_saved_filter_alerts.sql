@@ -0,0 +1,30 @@
+-- Migration: Saved filter alerts
+-- Purpose: users can watch a saved filter; a scheduler re-runs watched filters
+-- against series created or promoted to a new catalog tier since the last
+-- check and sends one grouped notification per filter per period.
+
+ALTER TABLE saved_filters
+ADD COLUMN IF NOT EXISTS watch BOOLEAN NOT NULL DEFAULT FALSE,
+ADD COLUMN IF NOT EXISTS watch_period VARCHAR(10) NOT NULL DEFAULT 'daily',
+ADD COLUMN IF NOT EXISTS last_checked_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS last_notified_at TIMESTAMPTZ;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'saved_filters_watch_period_check') THEN
+    ALTER TABLE saved_filters ADD CONSTRAINT saved_filters_watch_period_check
+      CHECK (watch_period IN ('daily', 'weekly'));
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_saved_filters_watch
+ON saved_filters (watch, last_checked_at)
+WHERE watch = TRUE;
+
+-- New-match lookups check creation and tier promotion separately, each on its own index
+CREATE INDEX IF NOT EXISTS idx_series_tier_promoted_at
+ON series (tier_promoted_at DESC)
+WHERE tier_promoted_at IS NOT NULL;
+
+COMMENT ON COLUMN saved_filters.watch IS 'Notify the owner about new series matching this filter';
+COMMENT ON COLUMN saved_filters.last_checked_at IS 'End of the last window checked for new matches';
@@ -0,0 +1,41 @@
+-- Migration: Series content similarity
+-- Purpose: local "More like this" index. series_content_index holds one
+-- document per series (description term frequencies for BM25 plus
+-- namespaced genre/tag/theme/demographic labels for Jaccard);
+-- series_similarities holds the top matches per series. Both are maintained
+-- by the similarity index scheduler (lib/series-similarity.ts).
+
+CREATE TABLE IF NOT EXISTS series_content_index (
+  series_id UUID PRIMARY KEY REFERENCES series(id) ON DELETE CASCADE,
+  terms JSONB NOT NULL DEFAULT '{}',
+  doc_length INTEGER NOT NULL DEFAULT 0,
+  labels TEXT[] NOT NULL DEFAULT '{}',
+  document_hash VARCHAR(64) NOT NULL,
+  indexed_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Candidate lookups: shared labels, or any of the source's top description terms
+CREATE INDEX IF NOT EXISTS idx_series_content_index_labels ON series_content_index USING GIN (labels);
+CREATE INDEX IF NOT EXISTS idx_series_content_index_terms ON series_content_index USING GIN (terms);
+
+CREATE TABLE IF NOT EXISTS series_similarities (
+  series_id UUID NOT NULL REFERENCES series(id) ON DELETE CASCADE,
+  similar_series_id UUID NOT NULL REFERENCES series(id) ON DELETE CASCADE,
+  score DOUBLE PRECISION NOT NULL,
+  text_score DOUBLE PRECISION NOT NULL,
+  label_score DOUBLE PRECISION NOT NULL,
+  computed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (series_id, similar_series_id),
+  CHECK (series_id <> similar_series_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_series_similarities_series_score ON series_similarities (series_id, score DESC);
+CREATE INDEX IF NOT EXISTS idx_series_similarities_similar ON series_similarities (similar_series_id);
+
+ALTER TABLE series_content_index ENABLE ROW LEVEL SECURITY;
+ALTER TABLE series_similarities ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE series_content_index IS 'Content-similarity document per series, rebuilt when its metadata changes';
+COMMENT ON COLUMN series_content_index.terms IS 'Description term -> frequency (BM25)';
+COMMENT ON COLUMN series_content_index.labels IS 'genre:, tag: and demographic: labels (Jaccard)';
+COMMENT ON TABLE series_similarities IS 'Top content-similar series per series (More like this)';
@@ -0,0 +1,24 @@
+-- Migration: Item-item collaborative filtering
+-- Purpose: series_neighbors holds, per series, the series most often found
+-- alongside it in users' libraries (cosine similarity of status- and
+-- rating-weighted library entries, shrunk by the number of co-readers).
+-- Rebuilt daily by the recommendations scheduler and blended into hybrid
+-- recommendations as "Because you read X".
+
+CREATE TABLE IF NOT EXISTS series_neighbors (
+  series_id UUID NOT NULL REFERENCES series(id) ON DELETE CASCADE,
+  neighbor_id UUID NOT NULL REFERENCES series(id) ON DELETE CASCADE,
+  score DOUBLE PRECISION NOT NULL,
+  co_readers INTEGER NOT NULL,
+  computed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (series_id, neighbor_id),
+  CHECK (series_id <> neighbor_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_series_neighbors_series_score ON series_neighbors (series_id, score DESC);
+CREATE INDEX IF NOT EXISTS idx_series_neighbors_neighbor ON series_neighbors (neighbor_id);
+
+ALTER TABLE series_neighbors ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE series_neighbors IS 'Item-item collaborative filtering neighbours from library co-occurrence';
+COMMENT ON COLUMN series_neighbors.co_readers IS 'Users with both series in their library';